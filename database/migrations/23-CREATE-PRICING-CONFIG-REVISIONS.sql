@@ -0,0 +1,202 @@
+-- =====================================================================
+-- MIGRATION 23: Pricing Config Revisions
+-- =====================================================================
+-- Purpose: Keep an immutable revision of svc_pricing_configs for every save
+--          (author + timestamp), and roll back by republishing an old revision
+-- Dependencies: svc_pricing_configs, users, companies tables must exist
+-- Estimated time: < 1 minute
+-- =====================================================================
+
+-- =====================================================================
+-- 1. REVISIONS TABLE
+-- =====================================================================
+-- One row per save. Rows are written ONLY by the trigger below and are
+-- never updated - there are no UPDATE/DELETE policies.
+
+CREATE TABLE IF NOT EXISTS svc_pricing_config_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  config_id UUID NOT NULL REFERENCES svc_pricing_configs(id) ON DELETE CASCADE,
+  company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  service_name VARCHAR(100) NOT NULL,
+  revision_number INTEGER NOT NULL,
+
+  -- Snapshot of the pricing columns at save time
+  hourly_labor_rate NUMERIC NOT NULL,
+  optimal_team_size INTEGER NOT NULL,
+  base_productivity NUMERIC NOT NULL,
+  base_material_cost NUMERIC NOT NULL,
+  profit_margin NUMERIC NOT NULL,
+  variables_config JSONB NOT NULL,
+  default_variables JSONB NOT NULL,
+  version VARCHAR(20),
+
+  -- Audit
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  restored_from_revision_id UUID REFERENCES svc_pricing_config_revisions(id) ON DELETE SET NULL,
+
+  CONSTRAINT svc_pricing_config_revisions_number_unique UNIQUE (config_id, revision_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_svc_pricing_config_revisions_service
+  ON svc_pricing_config_revisions(company_id, service_name, revision_number DESC);
+
+COMMENT ON TABLE svc_pricing_config_revisions IS 'Immutable history of svc_pricing_configs. One revision per save, written by trigger.';
+COMMENT ON COLUMN svc_pricing_config_revisions.restored_from_revision_id IS 'Set when this revision was created by rolling back to an older revision';
+
+-- =====================================================================
+-- 2. CAPTURE A REVISION ON EVERY SAVE
+-- =====================================================================
+-- SECURITY DEFINER: clients cannot insert revisions directly.
+-- Rollbacks pass the source revision via the transaction-local
+-- setting 'pricing.restored_from_revision_id'.
+
+CREATE OR REPLACE FUNCTION record_pricing_config_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_next_revision INTEGER;
+  v_restored_from TEXT;
+BEGIN
+  -- Skip saves that did not change any pricing values
+  IF TG_OP = 'UPDATE' AND
+     (OLD.hourly_labor_rate, OLD.optimal_team_size, OLD.base_productivity,
+      OLD.base_material_cost, OLD.profit_margin, OLD.variables_config, OLD.default_variables)
+     IS NOT DISTINCT FROM
+     (NEW.hourly_labor_rate, NEW.optimal_team_size, NEW.base_productivity,
+      NEW.base_material_cost, NEW.profit_margin, NEW.variables_config, NEW.default_variables)
+  THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE(MAX(revision_number), 0) + 1
+  INTO v_next_revision
+  FROM svc_pricing_config_revisions
+  WHERE config_id = NEW.id;
+
+  v_restored_from := NULLIF(current_setting('pricing.restored_from_revision_id', true), '');
+
+  INSERT INTO svc_pricing_config_revisions (
+    config_id, company_id, service_name, revision_number,
+    hourly_labor_rate, optimal_team_size, base_productivity, base_material_cost, profit_margin,
+    variables_config, default_variables, version,
+    created_by, restored_from_revision_id
+  ) VALUES (
+    NEW.id, NEW.company_id, NEW.service_name, v_next_revision,
+    NEW.hourly_labor_rate, NEW.optimal_team_size, NEW.base_productivity, NEW.base_material_cost, NEW.profit_margin,
+    NEW.variables_config, NEW.default_variables, NEW.version,
+    COALESCE(NEW.updated_by, auth.uid()), v_restored_from::UUID
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_record_pricing_config_revision ON svc_pricing_configs;
+CREATE TRIGGER trg_record_pricing_config_revision
+  AFTER INSERT OR UPDATE ON svc_pricing_configs
+  FOR EACH ROW
+  EXECUTE FUNCTION record_pricing_config_revision();
+
+-- =====================================================================
+-- 3. ROLLBACK (republishes through svc_pricing_configs realtime)
+-- =====================================================================
+-- SECURITY INVOKER: the existing "Owners can update pricing configs"
+-- policy decides who may roll back.
+
+CREATE OR REPLACE FUNCTION rollback_pricing_config_revision(p_revision_id UUID)
+RETURNS svc_pricing_configs
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_revision svc_pricing_config_revisions%ROWTYPE;
+  v_config svc_pricing_configs%ROWTYPE;
+BEGIN
+  SELECT * INTO v_revision
+  FROM svc_pricing_config_revisions
+  WHERE id = p_revision_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Pricing config revision % not found', p_revision_id;
+  END IF;
+
+  PERFORM set_config('pricing.restored_from_revision_id', p_revision_id::TEXT, true);
+
+  UPDATE svc_pricing_configs
+  SET hourly_labor_rate = v_revision.hourly_labor_rate,
+      optimal_team_size = v_revision.optimal_team_size,
+      base_productivity = v_revision.base_productivity,
+      base_material_cost = v_revision.base_material_cost,
+      profit_margin = v_revision.profit_margin,
+      variables_config = v_revision.variables_config,
+      default_variables = v_revision.default_variables,
+      updated_at = NOW(),
+      updated_by = auth.uid()
+  WHERE id = v_revision.config_id
+  RETURNING * INTO v_config;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Not allowed to update pricing config %', v_revision.config_id;
+  END IF;
+
+  PERFORM set_config('pricing.restored_from_revision_id', '', true);
+
+  RETURN v_config;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION rollback_pricing_config_revision(UUID) TO authenticated;
+
+-- =====================================================================
+-- 4. ROW-LEVEL SECURITY (read-only for company users)
+-- =====================================================================
+
+ALTER TABLE svc_pricing_config_revisions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their company's pricing config revisions" ON svc_pricing_config_revisions;
+
+CREATE POLICY "Users can view their company's pricing config revisions"
+ON svc_pricing_config_revisions
+FOR SELECT
+USING (
+  company_id IN (
+    SELECT company_id
+    FROM users
+    WHERE id = auth.uid()
+  )
+);
+
+-- =====================================================================
+-- 5. BACKFILL: revision 1 = current state of every existing config
+-- =====================================================================
+
+INSERT INTO svc_pricing_config_revisions (
+  config_id, company_id, service_name, revision_number,
+  hourly_labor_rate, optimal_team_size, base_productivity, base_material_cost, profit_margin,
+  variables_config, default_variables, version, created_by, created_at
+)
+SELECT
+  c.id, c.company_id, c.service_name, 1,
+  c.hourly_labor_rate, c.optimal_team_size, c.base_productivity, c.base_material_cost, c.profit_margin,
+  c.variables_config, c.default_variables, c.version, c.updated_by, COALESCE(c.updated_at, NOW())
+FROM svc_pricing_configs c
+WHERE NOT EXISTS (
+  SELECT 1 FROM svc_pricing_config_revisions r WHERE r.config_id = c.id
+);
+
+-- =====================================================================
+-- Migration complete
+-- =====================================================================
+--
+-- Usage:
+--   Every INSERT/UPDATE on svc_pricing_configs that changes pricing values
+--   appends a revision. Roll back from the client with:
+--     supabase.rpc('rollback_pricing_config_revision', { p_revision_id })
+--   The UPDATE fires the existing pricing config realtime subscription, so
+--   Quick Calculator and chat pick up the restored values immediately.
+-- =====================================================================
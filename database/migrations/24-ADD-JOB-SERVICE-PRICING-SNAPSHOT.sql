@@ -0,0 +1,38 @@
+-- =====================================================================
+-- MIGRATION 24: Job Service Pricing Snapshots
+-- =====================================================================
+-- Purpose: Record which pricing config revision and inputs produced each
+--          quote line so old quotes can be explained and re-priced
+-- Dependencies: job_services (migration 20), svc_pricing_config_revisions (migration 23)
+-- Estimated time: < 1 minute
+-- =====================================================================
+
+-- =====================================================================
+-- Add snapshot columns to job_services
+-- =====================================================================
+
+ALTER TABLE job_services
+ADD COLUMN IF NOT EXISTS config_revision_id UUID REFERENCES svc_pricing_config_revisions(id) ON DELETE SET NULL;
+
+ALTER TABLE job_services
+ADD COLUMN IF NOT EXISTS pricing_snapshot_hash VARCHAR(64);
+
+ALTER TABLE job_services
+ADD COLUMN IF NOT EXISTS priced_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_job_services_config_revision ON job_services(config_revision_id);
+
+-- Add comments for documentation
+COMMENT ON COLUMN job_services.config_revision_id IS 'Pricing config revision the line was priced from';
+COMMENT ON COLUMN job_services.pricing_snapshot_hash IS 'SHA-256 of config revision + quantity + pricing_variables + material unit prices. Unchanged hash = reproducible price.';
+COMMENT ON COLUMN job_services.priced_at IS 'When the pricing engine last priced this line (initial quote or accepted re-price)';
+
+-- =====================================================================
+-- Migration complete
+-- =====================================================================
+--
+-- Usage: JobService.addServiceToJob stores the snapshot when the engine
+-- prices a line. JobService.previewReprice shows labor/materials/excavation/
+-- profit deltas against the frozen calculation; acceptReprice saves them.
+-- Existing lines keep NULL snapshot columns until they are re-priced.
+-- =====================================================================
@@ -0,0 +1,148 @@
+-- =====================================================================
+-- MIGRATION 25: Sales Tax Jurisdictions
+-- =====================================================================
+-- Purpose: Company-maintained sales tax rate table keyed by state and
+--          (optionally) zip code, with per-component taxability, plus
+--          tax lines on jobs (quotes and invoices)
+-- Dependencies: companies, users, jobs (migration 20)
+-- Estimated time: < 1 minute
+-- =====================================================================
+
+-- =====================================================================
+-- 1. TAX JURISDICTIONS (local rate table - no live tax API)
+-- =====================================================================
+-- A zip-level row overrides the state-wide row (zip_code NULL) for the
+-- same state. Rates are the combined state + county + city rate.
+
+CREATE TABLE IF NOT EXISTS tax_jurisdictions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+
+  name VARCHAR(100) NOT NULL,                  -- e.g. "Travis County, TX"
+  state_code CHAR(2) NOT NULL,                 -- USPS state code, upper case
+  zip_code VARCHAR(5),                         -- NULL = state-wide default
+  rate NUMERIC(6,5) NOT NULL CHECK (rate >= 0 AND rate <= 0.25),
+
+  -- Per-component taxability
+  labor_taxable BOOLEAN NOT NULL DEFAULT false,
+  materials_taxable BOOLEAN NOT NULL DEFAULT true,
+  excavation_taxable BOOLEAN NOT NULL DEFAULT false,
+  equipment_taxable BOOLEAN NOT NULL DEFAULT true,
+  obstacles_taxable BOOLEAN NOT NULL DEFAULT false,
+  other_taxable BOOLEAN NOT NULL DEFAULT true,  -- Manually priced lines without a breakdown
+
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  notes TEXT,
+
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT tax_jurisdictions_state_code_format CHECK (state_code ~ '^[A-Z]{2}$'),
+  CONSTRAINT tax_jurisdictions_zip_code_format CHECK (zip_code IS NULL OR zip_code ~ '^[0-9]{5}$')
+);
+
+-- One active rate per company + state + zip (NULL zip = one state-wide rate)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tax_jurisdictions_location
+  ON tax_jurisdictions(company_id, state_code, COALESCE(zip_code, ''))
+  WHERE is_active = true;
+
+DROP TRIGGER IF EXISTS update_tax_jurisdictions_updated_at ON tax_jurisdictions;
+CREATE TRIGGER update_tax_jurisdictions_updated_at BEFORE UPDATE ON tax_jurisdictions
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE tax_jurisdictions IS 'Company sales tax rate table. Matched by job service_zip, then service_state.';
+COMMENT ON COLUMN tax_jurisdictions.rate IS 'Combined sales tax rate as a decimal (0.0825 = 8.25%)';
+COMMENT ON COLUMN tax_jurisdictions.other_taxable IS 'Applies to manually priced job lines with no labor/material breakdown';
+
+-- =====================================================================
+-- 2. TAX ON JOBS
+-- =====================================================================
+-- estimated_total stays the pre-tax subtotal; customer total = estimated_total + tax_total
+
+ALTER TABLE jobs
+ADD COLUMN IF NOT EXISTS tax_jurisdiction_id UUID REFERENCES tax_jurisdictions(id) ON DELETE SET NULL;
+
+ALTER TABLE jobs
+ADD COLUMN IF NOT EXISTS tax_total DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+ALTER TABLE jobs
+ADD COLUMN IF NOT EXISTS tax_lines JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN jobs.tax_jurisdiction_id IS 'Jurisdiction matched from service_zip / service_state when totals were last calculated';
+COMMENT ON COLUMN jobs.tax_total IS 'Sales tax on top of estimated_total';
+COMMENT ON COLUMN jobs.tax_lines IS 'Per-component tax lines (labor, materials, excavation, equipment, obstacles, other)';
+
+-- =====================================================================
+-- 3. ROW LEVEL SECURITY
+-- =====================================================================
+
+ALTER TABLE tax_jurisdictions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "users_select_tax_jurisdictions" ON tax_jurisdictions;
+DROP POLICY IF EXISTS "admins_insert_tax_jurisdictions" ON tax_jurisdictions;
+DROP POLICY IF EXISTS "admins_update_tax_jurisdictions" ON tax_jurisdictions;
+DROP POLICY IF EXISTS "owners_delete_tax_jurisdictions" ON tax_jurisdictions;
+
+CREATE POLICY "users_select_tax_jurisdictions"
+ON tax_jurisdictions
+FOR SELECT
+USING (
+  company_id IN (
+    SELECT company_id
+    FROM users
+    WHERE id = auth.uid()
+  )
+);
+
+CREATE POLICY "admins_insert_tax_jurisdictions"
+ON tax_jurisdictions
+FOR INSERT
+WITH CHECK (
+  company_id IN (
+    SELECT company_id
+    FROM users
+    WHERE id = auth.uid()
+    AND (is_owner = true OR is_admin = true)
+  )
+);
+
+CREATE POLICY "admins_update_tax_jurisdictions"
+ON tax_jurisdictions
+FOR UPDATE
+USING (
+  company_id IN (
+    SELECT company_id
+    FROM users
+    WHERE id = auth.uid()
+    AND (is_owner = true OR is_admin = true)
+  )
+);
+
+CREATE POLICY "owners_delete_tax_jurisdictions"
+ON tax_jurisdictions
+FOR DELETE
+USING (
+  company_id IN (
+    SELECT company_id
+    FROM users
+    WHERE id = auth.uid()
+    AND is_owner = true
+  )
+);
+
+-- =====================================================================
+-- Migration complete
+-- =====================================================================
+--
+-- Usage: Owners/admins maintain rates in Company Settings → Sales Tax.
+-- JobService recalculates tax_total / tax_lines whenever a job's services
+-- or service address change. calculateJobEstimate returns tax lines when
+-- given a service zip/state.
+--
+-- Example:
+--   INSERT INTO tax_jurisdictions (company_id, name, state_code, rate)
+--   VALUES ('<company>', 'Texas (state-wide)', 'TX', 0.0625);
+--   INSERT INTO tax_jurisdictions (company_id, name, state_code, zip_code, rate)
+--   VALUES ('<company>', 'Austin', 'TX', '78701', 0.0825);
+-- =====================================================================
@@ -0,0 +1,145 @@
+-- =====================================================================
+-- MIGRATION 26: Pricing Rules (volume discounts, minimum charge, margin floor)
+-- =====================================================================
+-- Purpose: Store per-service pricing rules next to the profit margin and
+--          include them in pricing config revisions and rollback
+-- Dependencies: svc_pricing_configs, svc_pricing_config_revisions (migration 23)
+-- Estimated time: < 1 minute
+-- =====================================================================
+
+-- =====================================================================
+-- 1. PRICING RULES COLUMN
+-- =====================================================================
+-- Shape (all keys optional, '{}' = no rules):
+--   {
+--     "minimumJobCharge": 1500,
+--     "marginFloor": 0.10,
+--     "volumeDiscounts": {
+--       "basis": "sqft",
+--       "tiers": [ { "threshold": 500, "percentage": 5 }, { "threshold": 1000, "percentage": 8 } ]
+--     }
+--   }
+
+ALTER TABLE svc_pricing_configs
+  ADD COLUMN IF NOT EXISTS pricing_rules JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+ALTER TABLE svc_pricing_configs
+  DROP CONSTRAINT IF EXISTS svc_pricing_configs_pricing_rules_object;
+ALTER TABLE svc_pricing_configs
+  ADD CONSTRAINT svc_pricing_configs_pricing_rules_object CHECK (jsonb_typeof(pricing_rules) = 'object');
+
+COMMENT ON COLUMN svc_pricing_configs.pricing_rules IS 'Minimum job charge ($), margin floor (decimal) and volume discount tiers by sqft or total. Applied by the pricing engine after profit.';
+
+ALTER TABLE svc_pricing_config_revisions
+  ADD COLUMN IF NOT EXISTS pricing_rules JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- =====================================================================
+-- 2. CAPTURE PRICING RULES IN REVISIONS
+-- =====================================================================
+
+CREATE OR REPLACE FUNCTION record_pricing_config_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_next_revision INTEGER;
+  v_restored_from TEXT;
+BEGIN
+  -- Skip saves that did not change any pricing values
+  IF TG_OP = 'UPDATE' AND
+     (OLD.hourly_labor_rate, OLD.optimal_team_size, OLD.base_productivity,
+      OLD.base_material_cost, OLD.profit_margin, OLD.variables_config, OLD.default_variables,
+      OLD.pricing_rules)
+     IS NOT DISTINCT FROM
+     (NEW.hourly_labor_rate, NEW.optimal_team_size, NEW.base_productivity,
+      NEW.base_material_cost, NEW.profit_margin, NEW.variables_config, NEW.default_variables,
+      NEW.pricing_rules)
+  THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE(MAX(revision_number), 0) + 1
+  INTO v_next_revision
+  FROM svc_pricing_config_revisions
+  WHERE config_id = NEW.id;
+
+  v_restored_from := NULLIF(current_setting('pricing.restored_from_revision_id', true), '');
+
+  INSERT INTO svc_pricing_config_revisions (
+    config_id, company_id, service_name, revision_number,
+    hourly_labor_rate, optimal_team_size, base_productivity, base_material_cost, profit_margin,
+    variables_config, default_variables, pricing_rules, version,
+    created_by, restored_from_revision_id
+  ) VALUES (
+    NEW.id, NEW.company_id, NEW.service_name, v_next_revision,
+    NEW.hourly_labor_rate, NEW.optimal_team_size, NEW.base_productivity, NEW.base_material_cost, NEW.profit_margin,
+    NEW.variables_config, NEW.default_variables, NEW.pricing_rules, NEW.version,
+    COALESCE(NEW.updated_by, auth.uid()), v_restored_from::UUID
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+-- =====================================================================
+-- 3. RESTORE PRICING RULES ON ROLLBACK
+-- =====================================================================
+
+CREATE OR REPLACE FUNCTION rollback_pricing_config_revision(p_revision_id UUID)
+RETURNS svc_pricing_configs
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_revision svc_pricing_config_revisions%ROWTYPE;
+  v_config svc_pricing_configs%ROWTYPE;
+BEGIN
+  SELECT * INTO v_revision
+  FROM svc_pricing_config_revisions
+  WHERE id = p_revision_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Pricing config revision % not found', p_revision_id;
+  END IF;
+
+  PERFORM set_config('pricing.restored_from_revision_id', p_revision_id::TEXT, true);
+
+  UPDATE svc_pricing_configs
+  SET hourly_labor_rate = v_revision.hourly_labor_rate,
+      optimal_team_size = v_revision.optimal_team_size,
+      base_productivity = v_revision.base_productivity,
+      base_material_cost = v_revision.base_material_cost,
+      profit_margin = v_revision.profit_margin,
+      variables_config = v_revision.variables_config,
+      default_variables = v_revision.default_variables,
+      pricing_rules = v_revision.pricing_rules,
+      updated_at = NOW(),
+      updated_by = auth.uid()
+  WHERE id = v_revision.config_id
+  RETURNING * INTO v_config;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Not allowed to update pricing config %', v_revision.config_id;
+  END IF;
+
+  PERFORM set_config('pricing.restored_from_revision_id', '', true);
+
+  RETURN v_config;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION rollback_pricing_config_revision(UUID) TO authenticated;
+
+-- =====================================================================
+-- Migration complete
+-- =====================================================================
+--
+-- Usage:
+--   UPDATE svc_pricing_configs
+--   SET pricing_rules = '{"minimumJobCharge": 1500, "marginFloor": 0.10}'
+--   WHERE company_id = '<company>' AND service_name = 'paver_patio_sqft';
+--   Revisions created before this migration restore with no rules ('{}').
+-- =====================================================================
@@ -0,0 +1,161 @@
+-- =====================================================================
+-- MIGRATION 27: Good / Better / Best Quote Options
+-- =====================================================================
+-- Purpose: Company-defined tier recipes per service, and quote lines
+--          stored as alternatives (one selected per option group) on a
+--          single quote job
+-- Dependencies: companies, users, svc_pricing_configs, job_services (migration 20)
+-- Estimated time: < 1 minute
+-- =====================================================================
+
+-- =====================================================================
+-- 1. TIER RECIPES
+-- =====================================================================
+-- tiers is an ordered array of tier definitions applied to the base input:
+--   [
+--     { "key": "good",   "label": "Good",   "materialGrade": "Economy",
+--       "variableOverrides": { "materials": { "paverStyle": "standard" },
+--                              "serviceIntegrations": { "includeExcavation": false } } },
+--     { "key": "better", "label": "Better", "materialGrade": "Standard", ... },
+--     { "key": "best",   "label": "Best",   "materialGrade": "Premium", ... }
+--   ]
+
+CREATE TABLE IF NOT EXISTS quote_tier_recipes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  service_config_id UUID NOT NULL REFERENCES svc_pricing_configs(id) ON DELETE CASCADE,
+
+  name VARCHAR(100) NOT NULL,
+  tiers JSONB NOT NULL,
+  recommended_tier VARCHAR(50),                -- Tier selected on the quote by default
+  is_default BOOLEAN NOT NULL DEFAULT false,   -- Used when no recipe is named
+
+  is_active BOOLEAN NOT NULL DEFAULT true,
+
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT quote_tier_recipes_tiers_array CHECK (
+    jsonb_typeof(tiers) = 'array' AND jsonb_array_length(tiers) BETWEEN 1 AND 5
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_quote_tier_recipes_service
+  ON quote_tier_recipes(company_id, service_config_id)
+  WHERE is_active = true;
+
+-- One active default recipe per service
+CREATE UNIQUE INDEX IF NOT EXISTS idx_quote_tier_recipes_default
+  ON quote_tier_recipes(company_id, service_config_id)
+  WHERE is_default = true AND is_active = true;
+
+DROP TRIGGER IF EXISTS update_quote_tier_recipes_updated_at ON quote_tier_recipes;
+CREATE TRIGGER update_quote_tier_recipes_updated_at BEFORE UPDATE ON quote_tier_recipes
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE quote_tier_recipes IS 'Company recipes that turn one pricing input into Good/Better/Best quote options';
+COMMENT ON COLUMN quote_tier_recipes.tiers IS 'Ordered tier definitions: key, label, variableOverrides (category → variable → value), materialGrade';
+
+-- =====================================================================
+-- 2. QUOTE OPTIONS ON JOB SERVICES
+-- =====================================================================
+-- Lines generated together share option_group_id. Only the selected line
+-- of a group counts toward estimated_total and tax. Regular lines have a
+-- NULL group and are always selected.
+
+ALTER TABLE job_services
+ADD COLUMN IF NOT EXISTS option_group_id UUID;
+
+ALTER TABLE job_services
+ADD COLUMN IF NOT EXISTS option_tier VARCHAR(50);
+
+ALTER TABLE job_services
+ADD COLUMN IF NOT EXISTS option_label VARCHAR(100);
+
+ALTER TABLE job_services
+ADD COLUMN IF NOT EXISTS is_selected_option BOOLEAN NOT NULL DEFAULT true;
+
+ALTER TABLE job_services
+ADD COLUMN IF NOT EXISTS quote_tier_recipe_id UUID REFERENCES quote_tier_recipes(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_job_services_option_group ON job_services(job_id, option_group_id)
+  WHERE option_group_id IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_job_services_option_tier
+  ON job_services(option_group_id, option_tier)
+  WHERE option_group_id IS NOT NULL;
+
+COMMENT ON COLUMN job_services.option_group_id IS 'Shared by alternative lines generated from one input (Good/Better/Best)';
+COMMENT ON COLUMN job_services.option_tier IS 'Tier key from the recipe, e.g. good / better / best';
+COMMENT ON COLUMN job_services.is_selected_option IS 'Only selected lines count toward job totals; always true for regular lines';
+
+-- =====================================================================
+-- 3. ROW LEVEL SECURITY
+-- =====================================================================
+
+ALTER TABLE quote_tier_recipes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "users_select_quote_tier_recipes" ON quote_tier_recipes;
+DROP POLICY IF EXISTS "admins_insert_quote_tier_recipes" ON quote_tier_recipes;
+DROP POLICY IF EXISTS "admins_update_quote_tier_recipes" ON quote_tier_recipes;
+DROP POLICY IF EXISTS "owners_delete_quote_tier_recipes" ON quote_tier_recipes;
+
+CREATE POLICY "users_select_quote_tier_recipes"
+ON quote_tier_recipes
+FOR SELECT
+USING (
+  company_id IN (
+    SELECT company_id
+    FROM users
+    WHERE id = auth.uid()
+  )
+);
+
+CREATE POLICY "admins_insert_quote_tier_recipes"
+ON quote_tier_recipes
+FOR INSERT
+WITH CHECK (
+  company_id IN (
+    SELECT company_id
+    FROM users
+    WHERE id = auth.uid()
+    AND (is_owner = true OR is_admin = true)
+  )
+);
+
+CREATE POLICY "admins_update_quote_tier_recipes"
+ON quote_tier_recipes
+FOR UPDATE
+USING (
+  company_id IN (
+    SELECT company_id
+    FROM users
+    WHERE id = auth.uid()
+    AND (is_owner = true OR is_admin = true)
+  )
+);
+
+CREATE POLICY "owners_delete_quote_tier_recipes"
+ON quote_tier_recipes
+FOR DELETE
+USING (
+  company_id IN (
+    SELECT company_id
+    FROM users
+    WHERE id = auth.uid()
+    AND is_owner = true
+  )
+);
+
+-- =====================================================================
+-- Migration complete
+-- =====================================================================
+--
+-- Usage:
+--   JobService.addQuoteOptions(jobId, companyId, input) derives one input
+--   per tier, prices each with the master engine and inserts the lines
+--   as one option group. JobService.selectQuoteOption switches which tier
+--   counts toward the quote total.
+--   Services without a recipe use DEFAULT_QUOTE_TIERS (quote-tiers.ts).
+-- =====================================================================
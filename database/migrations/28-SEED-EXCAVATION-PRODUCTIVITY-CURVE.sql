@@ -0,0 +1,68 @@
+-- =====================================================================
+-- MIGRATION 28: Excavation Productivity Curve
+-- =====================================================================
+-- Purpose: Seed the admin-editable productivity curve that replaces the
+--          fixed 12-hours-per-1000-sqft excavation tiers
+-- Dependencies: svc_pricing_configs (excavation_removal rows)
+-- Estimated time: < 1 minute
+-- =====================================================================
+
+-- =====================================================================
+-- 1. SEED THE CURVE
+-- =====================================================================
+-- Stored at variables_config.calculationSettings.productivityCurve:
+--   hours = cubic yards / equipmentRates[class] × depth factor × access factor
+--
+--   equipmentRates:  cubic yards per labor hour, by equipment class
+--   depthFactors:    bands by depth in inches, maxDepth null = no upper bound
+--   accessFactors:   keyed like siteAccess.accessDifficulty
+--
+-- Only the variable is seeded, without a "default": the curve values live
+-- in code (DEFAULT_PRODUCTIVITY_CURVE, excavation-productivity.ts) and are
+-- used until an admin saves the curve from the service settings.
+--
+-- Only rows without a curve are touched, so re-running keeps admin edits.
+-- The update goes through the revision trigger (migration 23).
+
+UPDATE svc_pricing_configs
+SET
+  variables_config = jsonb_set(
+    variables_config,
+    '{calculationSettings,productivityCurve}',
+    '{
+      "type": "curve",
+      "label": "Productivity Curve",
+      "description": "Hours = cubic yards / equipment rate × depth factor × access factor",
+      "adminEditable": true
+    }'::jsonb,
+    true
+  ),
+  updated_at = NOW()
+WHERE
+  service_name = 'excavation_removal'
+  AND variables_config ? 'calculationSettings'
+  AND NOT (variables_config->'calculationSettings' ? 'productivityCurve');
+
+-- =====================================================================
+-- 2. VERIFY
+-- =====================================================================
+
+SELECT
+  company_id,
+  variables_config->'calculationSettings'->'productivityCurve'->>'type' AS curve_type,
+  variables_config->'calculationSettings'->'productivityCurve' ? 'default' AS has_saved_curve
+FROM svc_pricing_configs
+WHERE service_name = 'excavation_removal';
+
+-- =====================================================================
+-- Migration complete
+-- =====================================================================
+--
+-- Usage:
+--   calculateExcavationHours (excavation-integration.ts) reads the curve
+--   from the live excavation config. The paver patio bundle picks the
+--   equipment class from serviceIntegrations.excavationEquipment (else
+--   defaultEquipment) and the access factor from siteAccess.accessDifficulty.
+--   A missing curve, or missing / invalid fields, fall back to
+--   DEFAULT_PRODUCTIVITY_CURVE (excavation-productivity.ts).
+-- =====================================================================
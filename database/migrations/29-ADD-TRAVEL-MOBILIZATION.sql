@@ -0,0 +1,112 @@
+-- =====================================================================
+-- MIGRATION 29: Travel & Mobilization
+-- =====================================================================
+-- Purpose: Company shop location and travel rules, an offline zip code
+--          centroid table for shop-to-site distance, and a travel line
+--          on jobs
+-- Dependencies: companies, jobs (migration 20), users
+-- Estimated time: < 1 minute (plus the centroid load, see section 2)
+-- =====================================================================
+
+-- =====================================================================
+-- 1. SHOP LOCATION & TRAVEL RULES ON COMPANIES
+-- =====================================================================
+-- Latitude/longitude are optional - when empty the shop zip's centroid is used.
+
+ALTER TABLE companies
+ADD COLUMN IF NOT EXISTS shop_address VARCHAR(255);
+
+ALTER TABLE companies
+ADD COLUMN IF NOT EXISTS shop_city VARCHAR(100);
+
+ALTER TABLE companies
+ADD COLUMN IF NOT EXISTS shop_state CHAR(2);
+
+ALTER TABLE companies
+ADD COLUMN IF NOT EXISTS shop_zip VARCHAR(5);
+
+ALTER TABLE companies
+ADD COLUMN IF NOT EXISTS shop_latitude NUMERIC(9,6);
+
+ALTER TABLE companies
+ADD COLUMN IF NOT EXISTS shop_longitude NUMERIC(9,6);
+
+ALTER TABLE companies
+ADD COLUMN IF NOT EXISTS travel_rules JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+COMMENT ON COLUMN companies.shop_zip IS 'Shop zip code - origin for travel distance when shop_latitude/longitude are empty';
+COMMENT ON COLUMN companies.travel_rules IS 'Travel pricing: ratePerMile, freeRadiusMiles, roundTripsPerDay, roadFactor, minimumCharge. See travel-cost.ts';
+
+-- =====================================================================
+-- 2. ZIP CODE CENTROIDS (offline distance table - no mapping API)
+-- =====================================================================
+-- Shared reference data, not company-owned. Load from the Census
+-- Gazetteer ZCTA file (2020_Gaz_zcta_national.txt, tab separated):
+--
+--   CREATE TEMP TABLE zcta_import (
+--     geoid TEXT, aland BIGINT, awater BIGINT, aland_sqmi NUMERIC,
+--     awater_sqmi NUMERIC, intptlat NUMERIC, intptlong NUMERIC
+--   );
+--   \copy zcta_import FROM '2020_Gaz_zcta_national.txt' WITH (FORMAT csv, DELIMITER E'\t', HEADER true)
+--   INSERT INTO zip_code_centroids (zip_code, latitude, longitude)
+--   SELECT geoid, intptlat, intptlong FROM zcta_import
+--   ON CONFLICT (zip_code) DO UPDATE
+--     SET latitude = EXCLUDED.latitude, longitude = EXCLUDED.longitude;
+
+CREATE TABLE IF NOT EXISTS zip_code_centroids (
+  zip_code VARCHAR(5) PRIMARY KEY,
+  latitude NUMERIC(9,6) NOT NULL CHECK (latitude BETWEEN -90 AND 90),
+  longitude NUMERIC(9,6) NOT NULL CHECK (longitude BETWEEN -180 AND 180),
+  city VARCHAR(100),
+  state_code CHAR(2),
+
+  CONSTRAINT zip_code_centroids_zip_code_format CHECK (zip_code ~ '^[0-9]{5}$')
+);
+
+COMMENT ON TABLE zip_code_centroids IS 'Zip code (ZCTA) centroids for offline shop-to-site distance. Loaded from the Census Gazetteer.';
+
+-- =====================================================================
+-- 3. TRAVEL ON JOBS
+-- =====================================================================
+-- One travel charge per job (not per service line). estimated_total
+-- includes travel_cost; tax treats it as 'other'.
+
+ALTER TABLE jobs
+ADD COLUMN IF NOT EXISTS travel_cost DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+ALTER TABLE jobs
+ADD COLUMN IF NOT EXISTS travel_details JSONB;
+
+COMMENT ON COLUMN jobs.travel_cost IS 'Shop-to-site travel included in estimated_total';
+COMMENT ON COLUMN jobs.travel_details IS 'Distance, billable miles, round trips and rate behind travel_cost';
+
+-- =====================================================================
+-- 4. ROW LEVEL SECURITY
+-- =====================================================================
+
+ALTER TABLE zip_code_centroids ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "users_select_zip_code_centroids" ON zip_code_centroids;
+
+-- Read-only reference data for every signed-in user; loaded by the service role
+CREATE POLICY "users_select_zip_code_centroids"
+ON zip_code_centroids
+FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+-- =====================================================================
+-- Migration complete
+-- =====================================================================
+--
+-- Usage: Owners/admins set the shop address and travel rules in Company
+-- Settings → Shop Location & Travel. JobService adds one travel line per
+-- job from the job's service_zip, with a round trip for every job day
+-- when roundTripsPerDay is on. Jobs outside the loaded centroids, or
+-- companies without a shop location, get no travel charge.
+--
+-- Example:
+--   UPDATE companies
+--   SET shop_zip = '78701',
+--       travel_rules = '{"ratePerMile": 1.5, "freeRadiusMiles": 15, "roundTripsPerDay": true}'
+--   WHERE id = '<company>';
+-- =====================================================================
@@ -0,0 +1,231 @@
+-- =====================================================================
+-- MIGRATION 30: Equipment Catalog
+-- =====================================================================
+-- Purpose: Per-company equipment catalog (owned vs rented, daily rate,
+--          delivery fee), per-service equipment requirements that scale
+--          with job days, and reservations against scheduled assignments
+-- Dependencies: companies, users, svc_pricing_configs, jobs,
+--               job_assignments (migration 20)
+-- Estimated time: < 1 minute
+-- =====================================================================
+
+-- =====================================================================
+-- 1. EQUIPMENT CATALOG
+-- =====================================================================
+-- daily_rate is the rental rate for rented items and an internal
+-- ownership rate (wear, fuel, depreciation) for owned items.
+-- quantity_owned caps reservations of owned items; rented items are
+-- ordered per job and never run short.
+
+CREATE TABLE IF NOT EXISTS equipment_catalog (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+
+  name VARCHAR(100) NOT NULL,                  -- e.g. "Skid steer"
+  category VARCHAR(50),                        -- e.g. "Machinery", "Compaction", "Cutting"
+  ownership VARCHAR(10) NOT NULL DEFAULT 'rented' CHECK (ownership IN ('owned', 'rented')),
+  daily_rate DECIMAL(10,2) NOT NULL CHECK (daily_rate >= 0),
+  delivery_fee DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (delivery_fee >= 0),
+  quantity_owned INTEGER NOT NULL DEFAULT 0 CHECK (quantity_owned >= 0),
+
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  notes TEXT,
+
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- One active item per name
+CREATE UNIQUE INDEX IF NOT EXISTS idx_equipment_catalog_name
+  ON equipment_catalog(company_id, LOWER(name))
+  WHERE is_active = true;
+
+DROP TRIGGER IF EXISTS update_equipment_catalog_updated_at ON equipment_catalog;
+CREATE TRIGGER update_equipment_catalog_updated_at BEFORE UPDATE ON equipment_catalog
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE equipment_catalog IS 'Company equipment - owned or rented - priced per day on quotes. See equipment-cost.ts';
+COMMENT ON COLUMN equipment_catalog.daily_rate IS 'Rental rate (rented) or internal ownership rate (owned), per unit per day';
+COMMENT ON COLUMN equipment_catalog.delivery_fee IS 'Per unit per job, rented items only';
+COMMENT ON COLUMN equipment_catalog.quantity_owned IS 'Owned units available to reserve against the schedule';
+
+-- =====================================================================
+-- 2. SERVICE EQUIPMENT REQUIREMENTS
+-- =====================================================================
+-- days on site = max(minimum_days, ceil(job days × day_fraction))
+
+CREATE TABLE IF NOT EXISTS service_equipment_requirements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  service_config_id UUID NOT NULL REFERENCES svc_pricing_configs(id) ON DELETE CASCADE,
+  equipment_id UUID NOT NULL REFERENCES equipment_catalog(id) ON DELETE CASCADE,
+
+  quantity INTEGER NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  day_fraction NUMERIC(4,3) NOT NULL DEFAULT 1 CHECK (day_fraction > 0 AND day_fraction <= 1),
+  minimum_days INTEGER NOT NULL DEFAULT 1 CHECK (minimum_days >= 0),
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT service_equipment_requirements_unique UNIQUE (service_config_id, equipment_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_service_equipment_requirements_config
+  ON service_equipment_requirements(service_config_id);
+
+DROP TRIGGER IF EXISTS update_service_equipment_requirements_updated_at ON service_equipment_requirements;
+CREATE TRIGGER update_service_equipment_requirements_updated_at BEFORE UPDATE ON service_equipment_requirements
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE service_equipment_requirements IS 'Equipment a service needs; the engine prices it from tier1Results.totalDays';
+COMMENT ON COLUMN service_equipment_requirements.day_fraction IS 'Share of the job days the equipment is on site (1 = every day)';
+
+-- =====================================================================
+-- 3. EQUIPMENT RESERVATIONS
+-- =====================================================================
+-- Written when a job is scheduled; removed with the assignment.
+
+CREATE TABLE IF NOT EXISTS equipment_reservations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  equipment_id UUID NOT NULL REFERENCES equipment_catalog(id) ON DELETE CASCADE,
+  job_id UUID NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  assignment_id UUID NOT NULL REFERENCES job_assignments(id) ON DELETE CASCADE,
+
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  reserved_start TIMESTAMPTZ NOT NULL,
+  reserved_end TIMESTAMPTZ NOT NULL,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT equipment_reservations_period CHECK (reserved_start < reserved_end)
+);
+
+CREATE INDEX IF NOT EXISTS idx_equipment_reservations_period
+  ON equipment_reservations(equipment_id, reserved_start, reserved_end);
+
+CREATE INDEX IF NOT EXISTS idx_equipment_reservations_assignment
+  ON equipment_reservations(assignment_id);
+
+COMMENT ON TABLE equipment_reservations IS 'Equipment held for a scheduled job assignment; owned items cannot be overbooked';
+
+-- =====================================================================
+-- 4. ROW LEVEL SECURITY
+-- =====================================================================
+
+ALTER TABLE equipment_catalog ENABLE ROW LEVEL SECURITY;
+ALTER TABLE service_equipment_requirements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE equipment_reservations ENABLE ROW LEVEL SECURITY;
+
+-- Catalog: users read, admins write, owners delete
+DROP POLICY IF EXISTS "users_select_equipment_catalog" ON equipment_catalog;
+DROP POLICY IF EXISTS "admins_insert_equipment_catalog" ON equipment_catalog;
+DROP POLICY IF EXISTS "admins_update_equipment_catalog" ON equipment_catalog;
+DROP POLICY IF EXISTS "owners_delete_equipment_catalog" ON equipment_catalog;
+
+CREATE POLICY "users_select_equipment_catalog"
+ON equipment_catalog
+FOR SELECT
+USING (
+  company_id IN (
+    SELECT company_id
+    FROM users
+    WHERE id = auth.uid()
+  )
+);
+
+CREATE POLICY "admins_insert_equipment_catalog"
+ON equipment_catalog
+FOR INSERT
+WITH CHECK (
+  company_id IN (
+    SELECT company_id
+    FROM users
+    WHERE id = auth.uid()
+    AND (is_owner = true OR is_admin = true)
+  )
+);
+
+CREATE POLICY "admins_update_equipment_catalog"
+ON equipment_catalog
+FOR UPDATE
+USING (
+  company_id IN (
+    SELECT company_id
+    FROM users
+    WHERE id = auth.uid()
+    AND (is_owner = true OR is_admin = true)
+  )
+);
+
+CREATE POLICY "owners_delete_equipment_catalog"
+ON equipment_catalog
+FOR DELETE
+USING (
+  company_id IN (
+    SELECT company_id
+    FROM users
+    WHERE id = auth.uid()
+    AND is_owner = true
+  )
+);
+
+-- Requirements: users read, admins manage
+DROP POLICY IF EXISTS "users_select_service_equipment_requirements" ON service_equipment_requirements;
+DROP POLICY IF EXISTS "admins_manage_service_equipment_requirements" ON service_equipment_requirements;
+
+CREATE POLICY "users_select_service_equipment_requirements"
+ON service_equipment_requirements
+FOR SELECT
+USING (
+  company_id IN (
+    SELECT company_id
+    FROM users
+    WHERE id = auth.uid()
+  )
+);
+
+CREATE POLICY "admins_manage_service_equipment_requirements"
+ON service_equipment_requirements
+FOR ALL
+USING (
+  company_id IN (
+    SELECT company_id
+    FROM users
+    WHERE id = auth.uid()
+    AND (is_owner = true OR is_admin = true)
+  )
+);
+
+-- Reservations: any company user schedules jobs
+DROP POLICY IF EXISTS "users_manage_equipment_reservations" ON equipment_reservations;
+
+CREATE POLICY "users_manage_equipment_reservations"
+ON equipment_reservations
+FOR ALL
+USING (
+  company_id IN (
+    SELECT company_id
+    FROM users
+    WHERE id = auth.uid()
+  )
+);
+
+-- =====================================================================
+-- Migration complete
+-- =====================================================================
+--
+-- Usage: Owners/admins maintain the catalog in Company Settings →
+-- Equipment and attach requirements to each service. The pricing engine
+-- adds one equipment line per requirement (tier2Results.equipmentLines,
+-- included in equipmentCost). ScheduleService reserves the equipment of a
+-- job's selected services when an assignment is created or moved and
+-- refuses assignments that would overbook owned equipment.
+--
+-- Example:
+--   INSERT INTO equipment_catalog (company_id, name, ownership, daily_rate, delivery_fee)
+--   VALUES ('<company>', 'Skid steer', 'rented', 285, 95);
+--   INSERT INTO service_equipment_requirements (company_id, service_config_id, equipment_id, quantity, day_fraction)
+--   VALUES ('<company>', '<paver patio config>', '<skid steer>', 1, 0.5);
+-- =====================================================================
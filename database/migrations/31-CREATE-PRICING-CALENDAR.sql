@@ -0,0 +1,156 @@
+-- =====================================================================
+-- MIGRATION 31: Seasonal Pricing Calendar & Backlog Surcharge
+-- =====================================================================
+-- Purpose: Date-ranged margin and labor rate adjustments per company, and
+--          a backlog surcharge driven by crew hours already scheduled in
+--          job_assignments
+-- Dependencies: companies, users, job_assignments (migration 20)
+-- Estimated time: < 1 minute
+-- =====================================================================
+
+-- =====================================================================
+-- 1. PRICING CALENDAR PERIODS
+-- =====================================================================
+-- A job whose requested start date falls inside a period is priced with
+-- its adjustments. Recurring periods compare month/day only, so one
+-- "Spring rush" row covers every spring; a start after the end wraps the
+-- new year (Dec 1 - Feb 28). Overlapping periods stack.
+
+CREATE TABLE IF NOT EXISTS pricing_calendar_periods (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+
+  name VARCHAR(100) NOT NULL,                  -- e.g. "Spring rush", "Winter slowdown"
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  recurring BOOLEAN NOT NULL DEFAULT true,
+
+  margin_adjustment NUMERIC(5,4) NOT NULL DEFAULT 0
+    CHECK (margin_adjustment BETWEEN -1 AND 1),  -- Decimal points, 0.05 = +5 pts
+  labor_rate_adjustment NUMERIC(6,2) NOT NULL DEFAULT 0
+    CHECK (labor_rate_adjustment >= -100),       -- Percent, 10 = +10%
+
+  is_active BOOLEAN NOT NULL DEFAULT true,
+
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  -- Only recurring periods may wrap the new year
+  CONSTRAINT pricing_calendar_periods_range CHECK (recurring OR start_date <= end_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_pricing_calendar_periods_company
+  ON pricing_calendar_periods(company_id)
+  WHERE is_active = true;
+
+DROP TRIGGER IF EXISTS update_pricing_calendar_periods_updated_at ON pricing_calendar_periods;
+CREATE TRIGGER update_pricing_calendar_periods_updated_at BEFORE UPDATE ON pricing_calendar_periods
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE pricing_calendar_periods IS 'Date-ranged margin / labor rate adjustments applied by the pricing engine from the job start date. See seasonal-pricing.ts';
+COMMENT ON COLUMN pricing_calendar_periods.margin_adjustment IS 'Added to profitMarginTarget, decimal points (0.05 = +5 pts)';
+COMMENT ON COLUMN pricing_calendar_periods.labor_rate_adjustment IS 'Hourly labor rate change in percent (10 = +10%, -5 = -5%)';
+COMMENT ON COLUMN pricing_calendar_periods.recurring IS 'Repeat every year on the same month/day range';
+
+-- =====================================================================
+-- 2. BACKLOG SURCHARGE ON COMPANIES
+-- =====================================================================
+-- Shape ('{}' = no surcharge):
+--   {
+--     "windowDays": 28,
+--     "tiers": [ { "hours": 400, "percentage": 5 }, { "hours": 600, "percentage": 10 } ]
+--   }
+-- Crew hours = estimated_hours of scheduled / in-progress assignments in
+-- the window after the start date (8 hours per scheduled day when empty).
+
+ALTER TABLE companies
+ADD COLUMN IF NOT EXISTS backlog_surcharge JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+ALTER TABLE companies
+  DROP CONSTRAINT IF EXISTS companies_backlog_surcharge_object;
+ALTER TABLE companies
+  ADD CONSTRAINT companies_backlog_surcharge_object CHECK (jsonb_typeof(backlog_surcharge) = 'object');
+
+COMMENT ON COLUMN companies.backlog_surcharge IS 'Surcharge tiers by scheduled crew hours after the start date: windowDays, tiers[{hours, percentage}]. See seasonal-pricing.ts';
+
+-- Backlog lookups scan assignments by period
+CREATE INDEX IF NOT EXISTS idx_job_assignments_schedule_period
+  ON job_assignments(scheduled_start, scheduled_end)
+  WHERE status IN ('scheduled', 'in_progress');
+
+-- =====================================================================
+-- 3. ROW LEVEL SECURITY
+-- =====================================================================
+
+ALTER TABLE pricing_calendar_periods ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "users_select_pricing_calendar_periods" ON pricing_calendar_periods;
+DROP POLICY IF EXISTS "admins_insert_pricing_calendar_periods" ON pricing_calendar_periods;
+DROP POLICY IF EXISTS "admins_update_pricing_calendar_periods" ON pricing_calendar_periods;
+DROP POLICY IF EXISTS "owners_delete_pricing_calendar_periods" ON pricing_calendar_periods;
+
+CREATE POLICY "users_select_pricing_calendar_periods"
+ON pricing_calendar_periods
+FOR SELECT
+USING (
+  company_id IN (
+    SELECT company_id
+    FROM users
+    WHERE id = auth.uid()
+  )
+);
+
+CREATE POLICY "admins_insert_pricing_calendar_periods"
+ON pricing_calendar_periods
+FOR INSERT
+WITH CHECK (
+  company_id IN (
+    SELECT company_id
+    FROM users
+    WHERE id = auth.uid()
+    AND (is_owner = true OR is_admin = true)
+  )
+);
+
+CREATE POLICY "admins_update_pricing_calendar_periods"
+ON pricing_calendar_periods
+FOR UPDATE
+USING (
+  company_id IN (
+    SELECT company_id
+    FROM users
+    WHERE id = auth.uid()
+    AND (is_owner = true OR is_admin = true)
+  )
+);
+
+CREATE POLICY "owners_delete_pricing_calendar_periods"
+ON pricing_calendar_periods
+FOR DELETE
+USING (
+  company_id IN (
+    SELECT company_id
+    FROM users
+    WHERE id = auth.uid()
+    AND is_owner = true
+  )
+);
+
+-- =====================================================================
+-- Migration complete
+-- =====================================================================
+--
+-- Usage: Owners/admins maintain periods and backlog tiers in Company
+-- Settings → Pricing Calendar. JobService resolves the adjustment for the
+-- job's requested_start_date (PricingCalendarService) and the engine
+-- applies it: labor rate change on labor, margin points on profit, backlog
+-- surcharge on the marked-up price (tier2Results.seasonal).
+--
+-- Example:
+--   INSERT INTO pricing_calendar_periods (company_id, name, start_date, end_date, margin_adjustment)
+--   VALUES ('<company>', 'Spring rush', '2025-03-15', '2025-05-31', 0.05);
+--   UPDATE companies
+--   SET backlog_surcharge = '{"windowDays": 28, "tiers": [{"hours": 400, "percentage": 5}]}'
+--   WHERE id = '<company>';
+-- =====================================================================
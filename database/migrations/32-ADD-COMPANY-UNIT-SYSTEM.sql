@@ -0,0 +1,38 @@
+-- =====================================================================
+-- MIGRATION 32: Company Unit System
+-- =====================================================================
+-- Purpose: Let a company quote in metric (m², m, mm, m³, tonnes).
+--          Pricing data stays in imperial canonical units - sqft,
+--          coverage_depth_inches, cubic yards - and is converted for
+--          display and input only (see unit-system.ts)
+-- Dependencies: companies
+-- Estimated time: < 1 minute
+-- =====================================================================
+
+-- =====================================================================
+-- 1. UNIT SYSTEM ON COMPANIES
+-- =====================================================================
+
+ALTER TABLE companies
+ADD COLUMN IF NOT EXISTS unit_system VARCHAR(10) NOT NULL DEFAULT 'imperial';
+
+ALTER TABLE companies
+DROP CONSTRAINT IF EXISTS companies_unit_system_check;
+
+ALTER TABLE companies
+ADD CONSTRAINT companies_unit_system_check CHECK (unit_system IN ('imperial', 'metric'));
+
+COMMENT ON COLUMN companies.unit_system IS 'Units shown and entered in the app and on quotes: imperial or metric. Stored quantities stay imperial.';
+
+-- =====================================================================
+-- Migration complete
+-- =====================================================================
+--
+-- Usage: Owners set the unit system in Company Settings. Existing
+-- companies stay imperial. Switching does not change stored quotes,
+-- material prices (still per cubic yard / sq ft / linear ft purchase
+-- unit) or depths - only how they are entered and displayed.
+--
+-- Example:
+--   UPDATE companies SET unit_system = 'metric' WHERE id = '<company>';
+-- =====================================================================
@@ -0,0 +1,49 @@
+-- =====================================================================
+-- MIGRATION 33: Paver Layout Calculation Method
+-- =====================================================================
+-- Purpose: Document the 'paver_layout' material calculation method.
+--          Categories using it count full pieces, border cuts, pallets
+--          and pattern waste from the paver's length_inches / width_inches
+--          and the quote's laying pattern (see paver-layout.ts), and the
+--          pricing engine takes cut labor from the same layout instead of
+--          the cuttingComplexity variable
+-- Dependencies: svc_material_categories, svc_materials
+-- Estimated time: < 1 minute
+-- =====================================================================
+
+-- =====================================================================
+-- 1. CALCULATION METHOD
+-- =====================================================================
+-- calculation_method is free text - no constraint to widen
+
+COMMENT ON COLUMN svc_material_categories.calculation_method IS 'volume_depth (cubic yards from depth), area_coverage (sqft with waste_factor_percentage), linear_perimeter (edge length) or paver_layout (pieces and cuts from paver dimensions and laying pattern).';
+
+-- =====================================================================
+-- 2. PAVER DIMENSIONS AND PACKAGING
+-- =====================================================================
+
+COMMENT ON COLUMN svc_materials.length_inches IS 'Paver face length. With width_inches, required by paver_layout categories (area coverage is used without them).';
+
+COMMENT ON COLUMN svc_materials.width_inches IS 'Paver face width. With length_inches, required by paver_layout categories (area coverage is used without them).';
+
+COMMENT ON COLUMN svc_materials.units_per_package IS 'Pieces per package. For paver_layout pallets this is pieces per pallet; coverage_per_unit (sqft per pallet) is used when it is empty.';
+
+-- =====================================================================
+-- Migration complete
+-- =====================================================================
+--
+-- Usage: Existing categories are not converted. Switch a pavers category
+-- to paver_layout once its pavers have length and width. The laying
+-- pattern (running_bond, herringbone_90, herringbone_45, basketweave) is
+-- chosen per quote and defaults to running bond. waste_factor_percentage
+-- is not used by paver_layout - waste follows from the pattern.
+--
+-- Example:
+--   UPDATE svc_material_categories
+--   SET calculation_method = 'paver_layout'
+--   WHERE company_id = '<company>' AND category_key = 'pavers';
+--
+--   UPDATE svc_materials
+--   SET length_inches = 8, width_inches = 4, units_per_package = 540
+--   WHERE id = '<paver material>';
+-- =====================================================================
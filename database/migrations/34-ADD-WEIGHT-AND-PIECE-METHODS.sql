@@ -0,0 +1,63 @@
+-- =====================================================================
+-- MIGRATION 34: Weight and Piece-Count Calculation Methods
+-- =====================================================================
+-- Purpose: Support materials sold by the ton (weight_tonnage - volume
+--          from depth converted with a material density) and by the
+--          piece (piece_count - one piece per N units of the service or
+--          per N linear feet of edge)
+-- Dependencies: svc_material_categories, svc_materials
+-- Estimated time: < 1 minute
+-- =====================================================================
+
+-- =====================================================================
+-- 1. DENSITY (weight_tonnage)
+-- =====================================================================
+
+ALTER TABLE svc_materials
+ADD COLUMN IF NOT EXISTS density_tons_per_cubic_yard NUMERIC;
+
+ALTER TABLE svc_materials
+DROP CONSTRAINT IF EXISTS svc_materials_density_positive;
+
+ALTER TABLE svc_materials
+ADD CONSTRAINT svc_materials_density_positive CHECK (density_tons_per_cubic_yard IS NULL OR density_tons_per_cubic_yard > 0);
+
+COMMENT ON COLUMN svc_materials.density_tons_per_cubic_yard IS 'Loose US tons per cubic yard for weight_tonnage categories (1.4 when null). price_per_unit is per ton.';
+
+-- =====================================================================
+-- 2. PIECE SPACING (piece_count)
+-- =====================================================================
+
+ALTER TABLE svc_materials
+ADD COLUMN IF NOT EXISTS piece_spacing_basis VARCHAR(20);
+
+ALTER TABLE svc_materials
+DROP CONSTRAINT IF EXISTS svc_materials_piece_spacing_basis_check;
+
+ALTER TABLE svc_materials
+ADD CONSTRAINT svc_materials_piece_spacing_basis_check CHECK (piece_spacing_basis IS NULL OR piece_spacing_basis IN ('per_unit', 'per_linear_foot'));
+
+COMMENT ON COLUMN svc_materials.piece_spacing_basis IS 'piece_count spacing: per_unit (one piece per coverage_per_unit of the service quantity, default) or per_linear_foot (one piece per coverage_per_unit feet of edge).';
+
+COMMENT ON COLUMN svc_material_categories.calculation_method IS 'volume_depth (cubic yards from depth), area_coverage (sqft with waste_factor_percentage), linear_perimeter (edge length), paver_layout (pieces and cuts from paver dimensions and laying pattern), weight_tonnage (tons from depth and density) or piece_count (pieces from spacing).';
+
+-- =====================================================================
+-- Migration complete
+-- =====================================================================
+--
+-- Usage: Set a category's calculation_method to weight_tonnage or
+-- piece_count and edit density / spacing per material in the category's
+-- materials modal. Existing categories are unchanged.
+--
+-- Example:
+--   UPDATE svc_material_categories SET calculation_method = 'weight_tonnage'
+--   WHERE company_id = '<company>' AND category_key = 'base_rock';
+--   UPDATE svc_materials SET unit_type = 'ton', price_per_unit = 24.00,
+--     density_tons_per_cubic_yard = 1.4
+--   WHERE id = '<base rock material>';
+--
+--   -- Wall caps, one per linear foot of edge
+--   UPDATE svc_materials SET unit_type = 'piece', coverage_per_unit = 1,
+--     piece_spacing_basis = 'per_linear_foot'
+--   WHERE id = '<cap material>';
+-- =====================================================================
@@ -0,0 +1,130 @@
+-- =====================================================================
+-- MIGRATION 35: Supplier Price Lists and Material Price History
+-- =====================================================================
+-- Purpose: Store each material's supplier SKU so seasonal supplier
+--          price lists (CSV) can be matched and applied in bulk, and
+--          keep every price a material has had so cost trends and
+--          quotes priced at old prices can be found
+-- Dependencies: companies, users, svc_materials
+-- Estimated time: < 1 minute
+-- =====================================================================
+
+-- =====================================================================
+-- 1. SUPPLIER SKU
+-- =====================================================================
+-- Imports match on supplier_name + supplier_sku, falling back to
+-- supplier_name + material_name. A name match fills in the SKU.
+
+ALTER TABLE svc_materials
+ADD COLUMN IF NOT EXISTS supplier_sku VARCHAR(100);
+
+CREATE INDEX IF NOT EXISTS idx_svc_materials_supplier_sku
+  ON svc_materials(company_id, LOWER(supplier_name), LOWER(supplier_sku))
+  WHERE supplier_sku IS NOT NULL;
+
+COMMENT ON COLUMN svc_materials.supplier_sku IS 'Supplier item number, matched (with supplier_name) by price list imports';
+
+-- =====================================================================
+-- 2. PRICE HISTORY
+-- =====================================================================
+
+CREATE TABLE IF NOT EXISTS svc_material_price_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  material_id UUID NOT NULL REFERENCES svc_materials(id) ON DELETE CASCADE,
+
+  price_per_unit DECIMAL(10,2) NOT NULL CHECK (price_per_unit >= 0),
+  previous_price DECIMAL(10,2),
+  source VARCHAR(10) NOT NULL DEFAULT 'manual' CHECK (source IN ('initial', 'import', 'manual')),
+  import_batch_id UUID,                        -- Shared by one import's changes
+  file_name VARCHAR(255),                      -- Price list the import came from
+
+  changed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_svc_material_price_history_material
+  ON svc_material_price_history(material_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_svc_material_price_history_batch
+  ON svc_material_price_history(import_batch_id)
+  WHERE import_batch_id IS NOT NULL;
+
+COMMENT ON TABLE svc_material_price_history IS 'Every price a material has had, newest last. See price-list-import.ts';
+COMMENT ON COLUMN svc_material_price_history.source IS 'initial (seeded by this migration), import (supplier price list) or manual (edited in the materials modal)';
+
+-- Seed today's prices so trends have a starting point
+INSERT INTO svc_material_price_history (company_id, material_id, price_per_unit, source, created_at)
+SELECT m.company_id, m.id, m.price_per_unit, 'initial', m.updated_at
+FROM svc_materials m
+WHERE NOT EXISTS (
+  SELECT 1 FROM svc_material_price_history h WHERE h.material_id = m.id
+);
+
+-- =====================================================================
+-- 3. ROW LEVEL SECURITY
+-- =====================================================================
+-- History is append-only: users read, admins insert, owners delete
+
+ALTER TABLE svc_material_price_history ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "users_select_svc_material_price_history" ON svc_material_price_history;
+DROP POLICY IF EXISTS "admins_insert_svc_material_price_history" ON svc_material_price_history;
+DROP POLICY IF EXISTS "owners_delete_svc_material_price_history" ON svc_material_price_history;
+
+CREATE POLICY "users_select_svc_material_price_history"
+ON svc_material_price_history
+FOR SELECT
+USING (
+  company_id IN (
+    SELECT company_id
+    FROM users
+    WHERE id = auth.uid()
+  )
+);
+
+CREATE POLICY "admins_insert_svc_material_price_history"
+ON svc_material_price_history
+FOR INSERT
+WITH CHECK (
+  company_id IN (
+    SELECT company_id
+    FROM users
+    WHERE id = auth.uid()
+    AND (is_owner = true OR is_admin = true)
+  )
+);
+
+CREATE POLICY "owners_delete_svc_material_price_history"
+ON svc_material_price_history
+FOR DELETE
+USING (
+  company_id IN (
+    SELECT company_id
+    FROM users
+    WHERE id = auth.uid()
+    AND is_owner = true
+  )
+);
+
+-- =====================================================================
+-- Migration complete
+-- =====================================================================
+--
+-- Usage: Materials page → Import Price List. The CSV needs a header row
+-- with a price column and a SKU or name column; a supplier column is
+-- optional (pick the supplier in the import instead). Lines are previewed
+-- against current prices before anything is written. Quotes keep the
+-- prices they were priced with (job_services.calculation_data) - the
+-- materials modal lists open quotes priced at an older price.
+--
+-- Example CSV:
+--   supplier,sku,description,unit_price
+--   Midwest Stone,LS-CL2,Bulk Limestone Class II Road Base,"$26.50"
+--
+-- Example:
+--   SELECT price_per_unit, previous_price, source, file_name, created_at
+--   FROM svc_material_price_history
+--   WHERE material_id = '<material>'
+--   ORDER BY created_at;
+-- =====================================================================
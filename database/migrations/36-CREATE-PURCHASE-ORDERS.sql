@@ -0,0 +1,194 @@
+-- =====================================================================
+-- MIGRATION 36: Purchase Orders
+-- =====================================================================
+-- Purpose: Supplier purchase orders generated from the material
+--          breakdowns of approved jobs - one order per supplier_name,
+--          quantities rounded to units_per_package, with a PO number and
+--          a draft → sent → received status
+-- Dependencies: companies, users, jobs, svc_materials
+-- Estimated time: < 1 minute
+-- =====================================================================
+
+-- =====================================================================
+-- 1. PURCHASE ORDERS
+-- =====================================================================
+
+CREATE TABLE IF NOT EXISTS purchase_orders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+
+  po_number VARCHAR(20) NOT NULL,              -- PO-YYYY-NNNN
+  supplier_name VARCHAR(255),                  -- NULL: materials without a supplier
+  status VARCHAR(10) NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'sent', 'received')),
+  job_ids UUID[] NOT NULL DEFAULT '{}',        -- Jobs the order was generated from
+  subtotal DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (subtotal >= 0),
+  notes TEXT,
+
+  sent_at TIMESTAMPTZ,
+  received_at TIMESTAMPTZ,
+
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT purchase_orders_number_unique UNIQUE (company_id, po_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_status
+  ON purchase_orders(company_id, status, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_jobs
+  ON purchase_orders USING GIN (job_ids);
+
+DROP TRIGGER IF EXISTS update_purchase_orders_updated_at ON purchase_orders;
+CREATE TRIGGER update_purchase_orders_updated_at BEFORE UPDATE ON purchase_orders
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE purchase_orders IS 'Supplier orders generated from job material breakdowns. See purchase-orders.ts';
+COMMENT ON COLUMN purchase_orders.status IS 'draft → sent → received (forward only)';
+
+-- =====================================================================
+-- 2. PURCHASE ORDER LINES
+-- =====================================================================
+-- One line per material across the order's jobs. Name, SKU and price
+-- are copied so the order reads the same after catalog changes.
+
+CREATE TABLE IF NOT EXISTS purchase_order_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  purchase_order_id UUID NOT NULL REFERENCES purchase_orders(id) ON DELETE CASCADE,
+  material_id UUID REFERENCES svc_materials(id) ON DELETE SET NULL,
+
+  material_name VARCHAR(255) NOT NULL,
+  supplier_sku VARCHAR(100),
+  unit_type VARCHAR(50) NOT NULL,
+  unit_label VARCHAR(50) NOT NULL,
+  quantity_needed NUMERIC(12,2) NOT NULL CHECK (quantity_needed >= 0),
+  quantity_ordered NUMERIC(12,2) NOT NULL CHECK (quantity_ordered > 0),
+  units_per_package NUMERIC(10,2),
+  packages INTEGER,
+  unit_cost DECIMAL(10,2) NOT NULL CHECK (unit_cost >= 0),
+  line_total DECIMAL(10,2) NOT NULL CHECK (line_total >= 0),
+  job_ids UUID[] NOT NULL DEFAULT '{}',
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_order_lines_order
+  ON purchase_order_lines(purchase_order_id);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_order_lines_material
+  ON purchase_order_lines(material_id);
+
+COMMENT ON TABLE purchase_order_lines IS 'Materials on a purchase order, rounded to units_per_package / whole units';
+COMMENT ON COLUMN purchase_order_lines.quantity_needed IS 'Sum of the jobs'' purchase units before rounding';
+
+-- =====================================================================
+-- 3. ROW LEVEL SECURITY
+-- =====================================================================
+
+ALTER TABLE purchase_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE purchase_order_lines ENABLE ROW LEVEL SECURITY;
+
+-- Orders: users read, admins create and update, owners delete
+DROP POLICY IF EXISTS "users_select_purchase_orders" ON purchase_orders;
+DROP POLICY IF EXISTS "admins_insert_purchase_orders" ON purchase_orders;
+DROP POLICY IF EXISTS "admins_update_purchase_orders" ON purchase_orders;
+DROP POLICY IF EXISTS "owners_delete_purchase_orders" ON purchase_orders;
+
+CREATE POLICY "users_select_purchase_orders"
+ON purchase_orders
+FOR SELECT
+USING (
+  company_id IN (
+    SELECT company_id
+    FROM users
+    WHERE id = auth.uid()
+  )
+);
+
+CREATE POLICY "admins_insert_purchase_orders"
+ON purchase_orders
+FOR INSERT
+WITH CHECK (
+  company_id IN (
+    SELECT company_id
+    FROM users
+    WHERE id = auth.uid()
+    AND (is_owner = true OR is_admin = true)
+  )
+);
+
+CREATE POLICY "admins_update_purchase_orders"
+ON purchase_orders
+FOR UPDATE
+USING (
+  company_id IN (
+    SELECT company_id
+    FROM users
+    WHERE id = auth.uid()
+    AND (is_owner = true OR is_admin = true)
+  )
+);
+
+CREATE POLICY "owners_delete_purchase_orders"
+ON purchase_orders
+FOR DELETE
+USING (
+  company_id IN (
+    SELECT company_id
+    FROM users
+    WHERE id = auth.uid()
+    AND is_owner = true
+  )
+);
+
+-- Lines: through their order
+DROP POLICY IF EXISTS "users_select_purchase_order_lines" ON purchase_order_lines;
+DROP POLICY IF EXISTS "admins_manage_purchase_order_lines" ON purchase_order_lines;
+
+CREATE POLICY "users_select_purchase_order_lines"
+ON purchase_order_lines
+FOR SELECT
+USING (
+  purchase_order_id IN (
+    SELECT id
+    FROM purchase_orders
+    WHERE company_id IN (
+      SELECT company_id
+      FROM users
+      WHERE id = auth.uid()
+    )
+  )
+);
+
+CREATE POLICY "admins_manage_purchase_order_lines"
+ON purchase_order_lines
+FOR ALL
+USING (
+  purchase_order_id IN (
+    SELECT id
+    FROM purchase_orders
+    WHERE company_id IN (
+      SELECT company_id
+      FROM users
+      WHERE id = auth.uid()
+      AND (is_owner = true OR is_admin = true)
+    )
+  )
+);
+
+-- =====================================================================
+-- Migration complete
+-- =====================================================================
+--
+-- Usage: Materials page → Purchase Orders. Pick approved or scheduled
+-- jobs and generate - one draft order per supplier. Print or send the
+-- order, then mark it sent and received.
+--
+-- Example:
+--   SELECT po.po_number, po.supplier_name, po.status, l.material_name,
+--          l.quantity_ordered, l.unit_label, l.line_total
+--   FROM purchase_orders po
+--   JOIN purchase_order_lines l ON l.purchase_order_id = po.id
+--   WHERE po.company_id = '<company>' AND po.status = 'draft';
+-- =====================================================================
@@ -0,0 +1,207 @@
+-- =====================================================================
+-- MIGRATION 37: Material Inventory
+-- =====================================================================
+-- Purpose: Yard stock per material - quantity on hand kept from a
+--          movement ledger (purchase order receipts, counts, job
+--          consumption), reservations held by scheduled jobs, and a
+--          reorder point for low-stock alerts
+-- Dependencies: companies, users, jobs, svc_materials,
+--               purchase_orders (migration 36)
+-- Estimated time: < 1 minute
+-- =====================================================================
+
+-- =====================================================================
+-- 1. STOCK LEVELS
+-- =====================================================================
+-- Quantities are in the material's unit_type (what POs order and
+-- price_per_unit prices). quantity_on_hand is maintained by the
+-- movement trigger below - don't update it directly.
+
+CREATE TABLE IF NOT EXISTS material_stock (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  material_id UUID NOT NULL REFERENCES svc_materials(id) ON DELETE CASCADE,
+
+  quantity_on_hand NUMERIC(12,2) NOT NULL DEFAULT 0,
+  reorder_point NUMERIC(12,2) CHECK (reorder_point IS NULL OR reorder_point >= 0),
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT material_stock_material_unique UNIQUE (material_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_material_stock_company
+  ON material_stock(company_id);
+
+DROP TRIGGER IF EXISTS update_material_stock_updated_at ON material_stock;
+CREATE TRIGGER update_material_stock_updated_at BEFORE UPDATE ON material_stock
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE material_stock IS 'Yard stock per material. See inventory.ts';
+COMMENT ON COLUMN material_stock.reorder_point IS 'Alert when on hand minus reservations falls to this (NULL = no alert)';
+
+-- =====================================================================
+-- 2. STOCK MOVEMENTS
+-- =====================================================================
+-- quantity is signed: receipts positive, consumption negative,
+-- adjustments either way (count minus on hand).
+
+CREATE TABLE IF NOT EXISTS material_stock_movements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  material_id UUID NOT NULL REFERENCES svc_materials(id) ON DELETE CASCADE,
+
+  movement_type VARCHAR(12) NOT NULL CHECK (movement_type IN ('receipt', 'consumption', 'adjustment')),
+  quantity NUMERIC(12,2) NOT NULL CHECK (quantity <> 0),
+  job_id UUID REFERENCES jobs(id) ON DELETE SET NULL,
+  purchase_order_id UUID REFERENCES purchase_orders(id) ON DELETE SET NULL,
+  notes TEXT,
+
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_material_stock_movements_material
+  ON material_stock_movements(material_id, created_at DESC);
+
+COMMENT ON TABLE material_stock_movements IS 'Stock ledger - receipts (received POs), consumption (completed jobs) and count adjustments';
+
+-- Apply each movement to the stock level
+CREATE OR REPLACE FUNCTION apply_material_stock_movement()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO material_stock (company_id, material_id, quantity_on_hand)
+  VALUES (NEW.company_id, NEW.material_id, NEW.quantity)
+  ON CONFLICT (material_id) DO UPDATE
+    SET quantity_on_hand = material_stock.quantity_on_hand + EXCLUDED.quantity_on_hand;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS apply_material_stock_movement ON material_stock_movements;
+CREATE TRIGGER apply_material_stock_movement AFTER INSERT ON material_stock_movements
+  FOR EACH ROW EXECUTE FUNCTION apply_material_stock_movement();
+
+-- =====================================================================
+-- 3. RESERVATIONS
+-- =====================================================================
+-- A scheduled or in-progress job's full material need. Replaced when the
+-- job is rescheduled, removed when it completes (consumed) or is
+-- cancelled.
+
+CREATE TABLE IF NOT EXISTS material_stock_reservations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  material_id UUID NOT NULL REFERENCES svc_materials(id) ON DELETE CASCADE,
+  job_id UUID NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+
+  quantity NUMERIC(12,2) NOT NULL CHECK (quantity > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT material_stock_reservations_unique UNIQUE (job_id, material_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_material_stock_reservations_material
+  ON material_stock_reservations(material_id);
+
+COMMENT ON TABLE material_stock_reservations IS 'Stock held for scheduled jobs; consumed on completion';
+
+-- =====================================================================
+-- 4. ROW LEVEL SECURITY
+-- =====================================================================
+
+ALTER TABLE material_stock ENABLE ROW LEVEL SECURITY;
+ALTER TABLE material_stock_movements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE material_stock_reservations ENABLE ROW LEVEL SECURITY;
+
+-- Stock: users read, admins set reorder points (on hand comes from movements)
+DROP POLICY IF EXISTS "users_select_material_stock" ON material_stock;
+DROP POLICY IF EXISTS "admins_manage_material_stock" ON material_stock;
+
+CREATE POLICY "users_select_material_stock"
+ON material_stock
+FOR SELECT
+USING (
+  company_id IN (
+    SELECT company_id
+    FROM users
+    WHERE id = auth.uid()
+  )
+);
+
+CREATE POLICY "admins_manage_material_stock"
+ON material_stock
+FOR ALL
+USING (
+  company_id IN (
+    SELECT company_id
+    FROM users
+    WHERE id = auth.uid()
+    AND (is_owner = true OR is_admin = true)
+  )
+);
+
+-- Movements and reservations: any company user completes and schedules jobs
+DROP POLICY IF EXISTS "users_select_material_stock_movements" ON material_stock_movements;
+DROP POLICY IF EXISTS "users_insert_material_stock_movements" ON material_stock_movements;
+DROP POLICY IF EXISTS "users_manage_material_stock_reservations" ON material_stock_reservations;
+
+CREATE POLICY "users_select_material_stock_movements"
+ON material_stock_movements
+FOR SELECT
+USING (
+  company_id IN (
+    SELECT company_id
+    FROM users
+    WHERE id = auth.uid()
+  )
+);
+
+CREATE POLICY "users_insert_material_stock_movements"
+ON material_stock_movements
+FOR INSERT
+WITH CHECK (
+  company_id IN (
+    SELECT company_id
+    FROM users
+    WHERE id = auth.uid()
+  )
+);
+
+CREATE POLICY "users_manage_material_stock_reservations"
+ON material_stock_reservations
+FOR ALL
+USING (
+  company_id IN (
+    SELECT company_id
+    FROM users
+    WHERE id = auth.uid()
+  )
+);
+
+-- The movement trigger writes material_stock for non-admin users too
+ALTER FUNCTION apply_material_stock_movement() SECURITY DEFINER;
+
+-- =====================================================================
+-- Migration complete
+-- =====================================================================
+--
+-- Usage: Record yard counts and reorder points in a category's materials
+-- modal. Receiving a purchase order adds its lines to stock. Scheduling a
+-- job reserves its materials, completing it consumes them and cancelling
+-- it releases them. Job estimates show in stock vs to order per material;
+-- the Materials page lists materials at or below their reorder point.
+--
+-- Example:
+--   INSERT INTO material_stock_movements (company_id, material_id, movement_type, quantity, notes)
+--   VALUES ('<company>', '<pavers>', 'adjustment', 1.5, 'Spring yard count');
+--
+--   SELECT m.material_name, s.quantity_on_hand,
+--          COALESCE(SUM(r.quantity), 0) AS reserved
+--   FROM material_stock s
+--   JOIN svc_materials m ON m.id = s.material_id
+--   LEFT JOIN material_stock_reservations r ON r.material_id = s.material_id
+--   WHERE s.company_id = '<company>'
+--   GROUP BY m.material_name, s.quantity_on_hand;
+-- =====================================================================
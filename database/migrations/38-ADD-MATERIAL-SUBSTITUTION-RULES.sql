@@ -0,0 +1,57 @@
+-- =====================================================================
+-- MIGRATION 38: Material Substitution Rules
+-- =====================================================================
+-- Purpose: Let each material category say how an inactive (discontinued
+--          or out-of-stock) default material is replaced when a quote is
+--          calculated, instead of the category being skipped
+-- Dependencies: svc_material_categories
+-- Estimated time: < 1 minute
+-- =====================================================================
+
+-- =====================================================================
+-- 1. SUBSTITUTION RULE
+-- =====================================================================
+-- same_grade           - same material_grade, then closest price
+-- closest_price        - nearest price_per_unit (ties go to the dearer one)
+-- compatible_thickness - thickness_inches within 1/4", then closest price
+-- none                 - never substitute
+--
+-- A required category (is_required) with no active material and no
+-- substitute stops the quote instead of pricing without it.
+
+ALTER TABLE svc_material_categories
+ADD COLUMN IF NOT EXISTS substitution_rule VARCHAR(20) NOT NULL DEFAULT 'closest_price';
+
+ALTER TABLE svc_material_categories
+DROP CONSTRAINT IF EXISTS svc_material_categories_substitution_rule_check;
+
+ALTER TABLE svc_material_categories
+ADD CONSTRAINT svc_material_categories_substitution_rule_check
+CHECK (substitution_rule IN ('same_grade', 'closest_price', 'compatible_thickness', 'none'));
+
+COMMENT ON COLUMN svc_material_categories.substitution_rule IS 'How an inactive default material is replaced. See material-substitution.ts';
+
+-- =====================================================================
+-- 2. DEFAULTS FOR EXISTING CATEGORIES
+-- =====================================================================
+-- Pavers are swapped for one of the same thickness so excavation depth
+-- and cut labor stay right; everything else takes the closest price.
+
+UPDATE svc_material_categories
+SET substitution_rule = 'compatible_thickness'
+WHERE calculation_method = 'paver_layout'
+  AND substitution_rule = 'closest_price';
+
+-- =====================================================================
+-- Migration complete
+-- =====================================================================
+--
+-- Usage: Pick the rule in a category's materials modal. When the default
+-- material is deactivated the calculator quotes the substitute and the
+-- breakdown shows "Substituted X for Y (rule)".
+--
+-- Example:
+--   UPDATE svc_material_categories
+--   SET substitution_rule = 'same_grade'
+--   WHERE category_key = 'edging';
+-- =====================================================================
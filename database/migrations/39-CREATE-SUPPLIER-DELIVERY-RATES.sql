@@ -0,0 +1,131 @@
+-- =====================================================================
+-- MIGRATION 39: Supplier Delivery Rates
+-- =====================================================================
+-- Purpose: Supplier truck capacities and per-load delivery fees, so a
+--          job's bulk materials can be planned into truckloads with a
+--          delivery date ahead of the scheduled start, and a delivery
+--          line on jobs
+-- Dependencies: companies, jobs (migration 20), users
+-- Estimated time: < 1 minute
+-- =====================================================================
+
+-- =====================================================================
+-- 1. DELIVERY RATES
+-- =====================================================================
+-- Matched to svc_materials.supplier_name (case-insensitive). The row with
+-- supplier_name NULL is the company default for suppliers without one.
+
+CREATE TABLE IF NOT EXISTS supplier_delivery_rates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  supplier_name VARCHAR(255),
+
+  max_load_lbs NUMERIC(10,2) NOT NULL CHECK (max_load_lbs > 0),
+  fee_per_load DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (fee_per_load >= 0),
+  lead_days INTEGER NOT NULL DEFAULT 1 CHECK (lead_days >= 0),
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_supplier_delivery_rates_supplier
+  ON supplier_delivery_rates(company_id, COALESCE(LOWER(TRIM(supplier_name)), ''));
+
+DROP TRIGGER IF EXISTS update_supplier_delivery_rates_updated_at ON supplier_delivery_rates;
+CREATE TRIGGER update_supplier_delivery_rates_updated_at BEFORE UPDATE ON supplier_delivery_rates
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE supplier_delivery_rates IS 'Supplier truck capacity and delivery fee. See delivery-planning.ts';
+COMMENT ON COLUMN supplier_delivery_rates.supplier_name IS 'Matches svc_materials.supplier_name; NULL = default for other suppliers';
+COMMENT ON COLUMN supplier_delivery_rates.lead_days IS 'Deliver this many days before the first job assignment (weekends move to Friday)';
+
+-- =====================================================================
+-- 2. DELIVERY ON JOBS
+-- =====================================================================
+-- One delivery line per job. estimated_total includes delivery_cost;
+-- tax treats it as 'other'. Weights use svc_materials.weight_lbs per
+-- purchase unit (tons and cubic yards with a density need none).
+
+ALTER TABLE jobs
+ADD COLUMN IF NOT EXISTS delivery_cost DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+ALTER TABLE jobs
+ADD COLUMN IF NOT EXISTS delivery_details JSONB;
+
+COMMENT ON COLUMN jobs.delivery_cost IS 'Material delivery fees included in estimated_total';
+COMMENT ON COLUMN jobs.delivery_details IS 'Loads, weights, fees and delivery date per supplier behind delivery_cost';
+COMMENT ON COLUMN svc_materials.weight_lbs IS 'Weight of one unit_type unit (a pallet, bag, piece...) for delivery planning';
+
+-- =====================================================================
+-- 3. ROW LEVEL SECURITY
+-- =====================================================================
+
+ALTER TABLE supplier_delivery_rates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "users_select_supplier_delivery_rates" ON supplier_delivery_rates;
+DROP POLICY IF EXISTS "admins_insert_supplier_delivery_rates" ON supplier_delivery_rates;
+DROP POLICY IF EXISTS "admins_update_supplier_delivery_rates" ON supplier_delivery_rates;
+DROP POLICY IF EXISTS "owners_delete_supplier_delivery_rates" ON supplier_delivery_rates;
+
+CREATE POLICY "users_select_supplier_delivery_rates"
+ON supplier_delivery_rates
+FOR SELECT
+USING (
+  company_id IN (
+    SELECT company_id
+    FROM users
+    WHERE id = auth.uid()
+  )
+);
+
+CREATE POLICY "admins_insert_supplier_delivery_rates"
+ON supplier_delivery_rates
+FOR INSERT
+WITH CHECK (
+  company_id IN (
+    SELECT company_id
+    FROM users
+    WHERE id = auth.uid()
+    AND (is_owner = true OR is_admin = true)
+  )
+);
+
+CREATE POLICY "admins_update_supplier_delivery_rates"
+ON supplier_delivery_rates
+FOR UPDATE
+USING (
+  company_id IN (
+    SELECT company_id
+    FROM users
+    WHERE id = auth.uid()
+    AND (is_owner = true OR is_admin = true)
+  )
+);
+
+CREATE POLICY "owners_delete_supplier_delivery_rates"
+ON supplier_delivery_rates
+FOR DELETE
+USING (
+  company_id IN (
+    SELECT company_id
+    FROM users
+    WHERE id = auth.uid()
+    AND is_owner = true
+  )
+);
+
+-- =====================================================================
+-- Migration complete
+-- =====================================================================
+--
+-- Usage: Admins set truck capacities and fees under Materials → Delivery
+-- Rates. JobService plans each job's selected materials into truckloads
+-- per supplier and adds the fees as one delivery line; scheduling the job
+-- moves the suggested delivery dates. Companies without rates get no
+-- delivery charge.
+--
+-- Example:
+--   INSERT INTO supplier_delivery_rates (company_id, supplier_name, max_load_lbs, fee_per_load, lead_days)
+--   VALUES ('<company>', 'Midwest Stone', 44000, 125, 2),
+--          ('<company>', NULL, 20000, 95, 1);
+-- =====================================================================
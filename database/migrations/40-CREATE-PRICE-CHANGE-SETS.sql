@@ -0,0 +1,285 @@
+-- =====================================================================
+-- MIGRATION 40: Bulk Price Adjustments
+-- =====================================================================
+-- Purpose: Apply a percent or fixed change to many material prices and
+--          labor rates at once (fuel surcharges, annual raises) and keep
+--          each one as a single change set - who, when, why, and every
+--          old and new value
+-- Dependencies: companies, users, svc_materials, svc_pricing_configs,
+--               svc_material_price_history (migration 35),
+--               svc_pricing_config_revisions (migration 23)
+-- Estimated time: < 1 minute
+-- =====================================================================
+
+-- =====================================================================
+-- 1. CHANGE SETS
+-- =====================================================================
+-- Append-only: written by apply_price_change_set() below, never updated.
+
+CREATE TABLE IF NOT EXISTS svc_price_change_sets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+
+  description TEXT NOT NULL,                   -- Reason, e.g. '2026 fuel surcharge'
+  adjustment_mode VARCHAR(7) NOT NULL CHECK (adjustment_mode IN ('percent', 'fixed')),
+  adjustment_amount DECIMAL(10,2) NOT NULL,
+  scope VARCHAR(11) NOT NULL CHECK (scope IN ('materials', 'labor_rates', 'both')),
+  filters JSONB NOT NULL DEFAULT '{}'::jsonb,  -- serviceConfigId, category, supplier, grade
+  material_count INTEGER NOT NULL DEFAULT 0,
+  labor_rate_count INTEGER NOT NULL DEFAULT 0,
+
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_svc_price_change_sets_company
+  ON svc_price_change_sets(company_id, created_at DESC);
+
+COMMENT ON TABLE svc_price_change_sets IS 'Bulk price adjustments, one row per apply. See bulk-price-adjustment.ts';
+
+CREATE TABLE IF NOT EXISTS svc_price_change_set_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  change_set_id UUID NOT NULL REFERENCES svc_price_change_sets(id) ON DELETE CASCADE,
+  company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+
+  item_type VARCHAR(10) NOT NULL CHECK (item_type IN ('material', 'labor_rate')),
+  material_id UUID REFERENCES svc_materials(id) ON DELETE SET NULL,
+  config_id UUID REFERENCES svc_pricing_configs(id) ON DELETE SET NULL,
+  label VARCHAR(255) NOT NULL,                 -- Material or service name at the time
+  old_value DECIMAL(10,2) NOT NULL,
+  new_value DECIMAL(10,2) NOT NULL CHECK (new_value >= 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_svc_price_change_set_items_set
+  ON svc_price_change_set_items(change_set_id);
+
+COMMENT ON TABLE svc_price_change_set_items IS 'Each value a change set changed: material price_per_unit or service hourly_labor_rate';
+
+-- =====================================================================
+-- 2. PRICE HISTORY SOURCE
+-- =====================================================================
+-- Adjusted material prices are recorded in the price history like imports
+
+ALTER TABLE svc_material_price_history
+ADD COLUMN IF NOT EXISTS change_set_id UUID REFERENCES svc_price_change_sets(id) ON DELETE SET NULL;
+
+ALTER TABLE svc_material_price_history
+DROP CONSTRAINT IF EXISTS svc_material_price_history_source_check;
+
+ALTER TABLE svc_material_price_history
+ADD CONSTRAINT svc_material_price_history_source_check
+CHECK (source IN ('initial', 'import', 'manual', 'adjustment'));
+
+COMMENT ON COLUMN svc_material_price_history.source IS 'initial (seeded by migration 35), import (supplier price list), manual (edited in the materials modal) or adjustment (bulk price adjustment)';
+COMMENT ON COLUMN svc_material_price_history.change_set_id IS 'Bulk price adjustment that set this price';
+
+-- =====================================================================
+-- 3. APPLY A CHANGE SET
+-- =====================================================================
+-- All or nothing: every value is checked against the preview's old value
+-- (someone else may have edited it since) before anything is written.
+-- SECURITY INVOKER - the caller's RLS decides what they may update.
+-- Labor rate updates record config revisions through the migration 23
+-- trigger.
+--
+-- p_items: [{ "itemType": "material" | "labor_rate", "id": UUID,
+--             "label": TEXT, "oldValue": NUMERIC, "newValue": NUMERIC }]
+
+CREATE OR REPLACE FUNCTION apply_price_change_set(
+  p_company_id UUID,
+  p_description TEXT,
+  p_mode TEXT,
+  p_amount NUMERIC,
+  p_scope TEXT,
+  p_filters JSONB,
+  p_items JSONB
+)
+RETURNS svc_price_change_sets
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_set svc_price_change_sets%ROWTYPE;
+  v_item JSONB;
+  v_id UUID;
+  v_old NUMERIC;
+  v_new NUMERIC;
+  v_current NUMERIC;
+BEGIN
+  IF jsonb_array_length(COALESCE(p_items, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'No prices to change';
+  END IF;
+
+  INSERT INTO svc_price_change_sets (
+    company_id, description, adjustment_mode, adjustment_amount, scope, filters,
+    material_count, labor_rate_count, created_by
+  )
+  SELECT
+    p_company_id, p_description, p_mode, p_amount, p_scope, COALESCE(p_filters, '{}'::jsonb),
+    COUNT(*) FILTER (WHERE item->>'itemType' = 'material'),
+    COUNT(*) FILTER (WHERE item->>'itemType' = 'labor_rate'),
+    auth.uid()
+  FROM jsonb_array_elements(p_items) AS item
+  RETURNING * INTO v_set;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_id := (v_item->>'id')::UUID;
+    v_old := (v_item->>'oldValue')::NUMERIC;
+    v_new := (v_item->>'newValue')::NUMERIC;
+
+    IF v_item->>'itemType' = 'material' THEN
+      SELECT price_per_unit INTO v_current
+      FROM svc_materials
+      WHERE id = v_id AND company_id = p_company_id
+      FOR UPDATE;
+
+      IF NOT FOUND OR v_current IS DISTINCT FROM v_old THEN
+        RAISE EXCEPTION 'Price of % changed since the preview', v_item->>'label';
+      END IF;
+
+      UPDATE svc_materials
+      SET price_per_unit = v_new,
+          updated_by = auth.uid()
+      WHERE id = v_id;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Not allowed to update %', v_item->>'label';
+      END IF;
+
+      INSERT INTO svc_material_price_history (
+        company_id, material_id, price_per_unit, previous_price, source, change_set_id, changed_by
+      ) VALUES (
+        p_company_id, v_id, v_new, v_old, 'adjustment', v_set.id, auth.uid()
+      );
+
+      INSERT INTO svc_price_change_set_items (change_set_id, company_id, item_type, material_id, label, old_value, new_value)
+      VALUES (v_set.id, p_company_id, 'material', v_id, v_item->>'label', v_old, v_new);
+    ELSE
+      SELECT hourly_labor_rate INTO v_current
+      FROM svc_pricing_configs
+      WHERE id = v_id AND company_id = p_company_id
+      FOR UPDATE;
+
+      IF NOT FOUND OR v_current IS DISTINCT FROM v_old THEN
+        RAISE EXCEPTION 'Labor rate of % changed since the preview', v_item->>'label';
+      END IF;
+
+      UPDATE svc_pricing_configs
+      SET hourly_labor_rate = v_new,
+          updated_at = NOW(),
+          updated_by = auth.uid()
+      WHERE id = v_id;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Not allowed to update %', v_item->>'label';
+      END IF;
+
+      INSERT INTO svc_price_change_set_items (change_set_id, company_id, item_type, config_id, label, old_value, new_value)
+      VALUES (v_set.id, p_company_id, 'labor_rate', v_id, v_item->>'label', v_old, v_new);
+    END IF;
+  END LOOP;
+
+  RETURN v_set;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION apply_price_change_set(UUID, TEXT, TEXT, NUMERIC, TEXT, JSONB, JSONB) TO authenticated;
+
+-- =====================================================================
+-- 4. ROW LEVEL SECURITY
+-- =====================================================================
+-- Change sets are append-only: users read, admins insert (through the
+-- function above), owners delete
+
+ALTER TABLE svc_price_change_sets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE svc_price_change_set_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "users_select_svc_price_change_sets" ON svc_price_change_sets;
+DROP POLICY IF EXISTS "admins_insert_svc_price_change_sets" ON svc_price_change_sets;
+DROP POLICY IF EXISTS "owners_delete_svc_price_change_sets" ON svc_price_change_sets;
+
+CREATE POLICY "users_select_svc_price_change_sets"
+ON svc_price_change_sets
+FOR SELECT
+USING (
+  company_id IN (
+    SELECT company_id
+    FROM users
+    WHERE id = auth.uid()
+  )
+);
+
+CREATE POLICY "admins_insert_svc_price_change_sets"
+ON svc_price_change_sets
+FOR INSERT
+WITH CHECK (
+  company_id IN (
+    SELECT company_id
+    FROM users
+    WHERE id = auth.uid()
+    AND (is_owner = true OR is_admin = true)
+  )
+);
+
+CREATE POLICY "owners_delete_svc_price_change_sets"
+ON svc_price_change_sets
+FOR DELETE
+USING (
+  company_id IN (
+    SELECT company_id
+    FROM users
+    WHERE id = auth.uid()
+    AND is_owner = true
+  )
+);
+
+DROP POLICY IF EXISTS "users_select_svc_price_change_set_items" ON svc_price_change_set_items;
+DROP POLICY IF EXISTS "admins_insert_svc_price_change_set_items" ON svc_price_change_set_items;
+
+CREATE POLICY "users_select_svc_price_change_set_items"
+ON svc_price_change_set_items
+FOR SELECT
+USING (
+  company_id IN (
+    SELECT company_id
+    FROM users
+    WHERE id = auth.uid()
+  )
+);
+
+CREATE POLICY "admins_insert_svc_price_change_set_items"
+ON svc_price_change_set_items
+FOR INSERT
+WITH CHECK (
+  company_id IN (
+    SELECT company_id
+    FROM users
+    WHERE id = auth.uid()
+    AND (is_owner = true OR is_admin = true)
+  )
+);
+
+-- =====================================================================
+-- Migration complete
+-- =====================================================================
+--
+-- Usage: Materials page → Bulk Adjust. Pick materials, labor rates or
+-- both, narrow by service, category, supplier or grade, and preview the
+-- changed values and the estimated effect on open quotes before applying.
+-- Quotes keep the prices they were priced with until re-priced.
+--
+-- Example:
+--   SELECT * FROM apply_price_change_set(
+--     '<company>', '2026 fuel surcharge', 'percent', 4, 'materials',
+--     '{"supplier": "Midwest Stone"}',
+--     '[{"itemType": "material", "id": "<road base>", "label": "Road Base", "oldValue": 24, "newValue": 24.96}]'
+--   );
+--
+--   SELECT s.description, s.created_at, i.label, i.old_value, i.new_value
+--   FROM svc_price_change_sets s
+--   JOIN svc_price_change_set_items i ON i.change_set_id = s.id
+--   WHERE s.company_id = '<company>'
+--   ORDER BY s.created_at DESC;
+-- =====================================================================
@@ -0,0 +1,469 @@
+-- =====================================================================
+-- MIGRATION 41: Company Material Catalog
+-- =====================================================================
+-- Purpose: Enter a material once per company instead of once per service.
+--          Catalog materials hold the name, supplier, price and physical
+--          properties; a service category that references a catalog
+--          category gets a svc_materials row per catalog material in it,
+--          kept in sync both ways. Existing per-service rows are merged
+--          into the catalog by migrate_materials_to_catalog().
+-- Dependencies: companies, users, svc_materials, svc_material_categories,
+--               svc_material_price_history (migrations 35, 40)
+-- Estimated time: < 1 minute
+-- =====================================================================
+
+-- =====================================================================
+-- 1. CATALOG
+-- =====================================================================
+-- Shared columns match svc_materials - see CATALOG_SHARED_FIELDS in
+-- material-catalog.ts. What differs per service (category, default,
+-- coverage, depth, spacing, waste, compaction) stays on svc_materials.
+
+CREATE TABLE IF NOT EXISTS material_catalog (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+  catalog_category TEXT NOT NULL,              -- e.g. 'base_rock'
+
+  material_name TEXT NOT NULL,
+  material_description TEXT,
+  supplier_name TEXT,
+  supplier_sku TEXT,
+  image_url TEXT,
+  image_thumbnail_url TEXT,
+  unit_type TEXT NOT NULL,
+  price_per_unit NUMERIC NOT NULL CHECK (price_per_unit >= 0),
+  units_per_package NUMERIC,
+  density_tons_per_cubic_yard NUMERIC,
+  length_inches NUMERIC,
+  width_inches NUMERIC,
+  thickness_inches NUMERIC,
+  weight_lbs NUMERIC,
+  material_grade TEXT,
+  color TEXT,
+  finish TEXT,
+
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  updated_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- One row per product - same key as catalogMatchKey()
+CREATE UNIQUE INDEX IF NOT EXISTS idx_material_catalog_product
+  ON material_catalog(company_id, catalog_category, lower(trim(material_name)), lower(trim(COALESCE(supplier_name, ''))), unit_type);
+
+CREATE INDEX IF NOT EXISTS idx_material_catalog_company
+  ON material_catalog(company_id, catalog_category)
+  WHERE is_active = true;
+
+COMMENT ON TABLE material_catalog IS 'Company-level materials shared by every service that uses them. See material-catalog.ts';
+COMMENT ON COLUMN material_catalog.catalog_category IS 'Service categories with this catalog_category offer the material';
+
+-- =====================================================================
+-- 2. LINKS
+-- =====================================================================
+
+ALTER TABLE svc_materials
+ADD COLUMN IF NOT EXISTS catalog_material_id UUID REFERENCES material_catalog(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_svc_materials_catalog
+  ON svc_materials(catalog_material_id)
+  WHERE catalog_material_id IS NOT NULL;
+
+ALTER TABLE svc_material_categories
+ADD COLUMN IF NOT EXISTS catalog_category TEXT;
+
+COMMENT ON COLUMN svc_materials.catalog_material_id IS 'Catalog material this row shares its name, supplier, price and properties with (NULL = service-only material)';
+COMMENT ON COLUMN svc_material_categories.catalog_category IS 'Catalog category whose materials this service category offers (NULL = service-only materials)';
+
+-- =====================================================================
+-- 3. PRICE HISTORY SOURCE
+-- =====================================================================
+-- Prices set through the catalog (catalog edits, merged copies)
+
+ALTER TABLE svc_material_price_history
+DROP CONSTRAINT IF EXISTS svc_material_price_history_source_check;
+
+ALTER TABLE svc_material_price_history
+ADD CONSTRAINT svc_material_price_history_source_check
+CHECK (source IN ('initial', 'import', 'manual', 'adjustment', 'catalog'));
+
+COMMENT ON COLUMN svc_material_price_history.source IS 'initial (seeded by migration 35), import (supplier price list), manual (edited in the materials modal), adjustment (bulk price adjustment) or catalog (set through the company material catalog)';
+
+-- =====================================================================
+-- 4. LINK CATALOG MATERIALS INTO SERVICE CATEGORIES
+-- =====================================================================
+-- Adds a svc_materials row for each catalog material a service category
+-- doesn't have yet. Narrow to one catalog material (it was just added) or
+-- one category (it just started referencing a catalog category).
+
+CREATE OR REPLACE FUNCTION link_catalog_materials(
+  p_company_id UUID,
+  p_catalog_material_id UUID DEFAULT NULL,
+  p_category_id UUID DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  INSERT INTO svc_materials (
+    company_id, service_config_id, material_category, catalog_material_id,
+    material_name, material_description, supplier_name, supplier_sku,
+    image_url, image_thumbnail_url, unit_type, price_per_unit, units_per_package,
+    density_tons_per_cubic_yard, length_inches, width_inches, thickness_inches, weight_lbs,
+    material_grade, color, finish,
+    coverage_depth_inches, is_active, is_default, created_by
+  )
+  SELECT
+    c.company_id, c.service_config_id, c.category_key, m.id,
+    m.material_name, m.material_description, m.supplier_name, m.supplier_sku,
+    m.image_url, m.image_thumbnail_url, m.unit_type, m.price_per_unit, m.units_per_package,
+    m.density_tons_per_cubic_yard, m.length_inches, m.width_inches, m.thickness_inches, m.weight_lbs,
+    m.material_grade, m.color, m.finish,
+    c.default_depth_inches, m.is_active, false, auth.uid()
+  FROM material_catalog m
+  JOIN svc_material_categories c
+    ON c.company_id = m.company_id
+   AND c.catalog_category = m.catalog_category
+  WHERE m.company_id = p_company_id
+    AND (p_catalog_material_id IS NULL OR m.id = p_catalog_material_id)
+    AND (p_category_id IS NULL OR c.id = p_category_id)
+    AND NOT EXISTS (
+      SELECT 1
+      FROM svc_materials s
+      WHERE s.catalog_material_id = m.id
+        AND s.service_config_id = c.service_config_id
+        AND s.material_category = c.category_key
+    );
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION link_catalog_materials(UUID, UUID, UUID) TO authenticated;
+
+-- =====================================================================
+-- 5. SYNC TRIGGERS
+-- =====================================================================
+-- Catalog → service rows: shared values, and active/inactive when the
+-- catalog material is switched. Service row → catalog: a price list import
+-- or bulk adjustment updates one service row; the catalog takes the new
+-- values and passes them on to the other services. IS DISTINCT FROM stops
+-- the round trip.
+--
+-- migrate_materials_to_catalog() sets material_catalog.skip_linking while
+-- it creates catalog rows from existing service rows.
+
+CREATE OR REPLACE FUNCTION sync_material_catalog_to_services()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    UPDATE svc_materials s
+    SET material_name = NEW.material_name,
+        material_description = NEW.material_description,
+        supplier_name = NEW.supplier_name,
+        supplier_sku = NEW.supplier_sku,
+        image_url = NEW.image_url,
+        image_thumbnail_url = NEW.image_thumbnail_url,
+        unit_type = NEW.unit_type,
+        price_per_unit = NEW.price_per_unit,
+        units_per_package = NEW.units_per_package,
+        density_tons_per_cubic_yard = NEW.density_tons_per_cubic_yard,
+        length_inches = NEW.length_inches,
+        width_inches = NEW.width_inches,
+        thickness_inches = NEW.thickness_inches,
+        weight_lbs = NEW.weight_lbs,
+        material_grade = NEW.material_grade,
+        color = NEW.color,
+        finish = NEW.finish,
+        is_active = CASE WHEN NEW.is_active IS DISTINCT FROM OLD.is_active THEN NEW.is_active ELSE s.is_active END,
+        updated_by = COALESCE(NEW.updated_by, s.updated_by),
+        updated_at = NOW()
+    WHERE s.catalog_material_id = NEW.id
+      AND (
+        (s.material_name, s.material_description, s.supplier_name, s.supplier_sku,
+         s.image_url, s.image_thumbnail_url, s.unit_type, s.price_per_unit, s.units_per_package,
+         s.density_tons_per_cubic_yard, s.length_inches, s.width_inches, s.thickness_inches, s.weight_lbs,
+         s.material_grade, s.color, s.finish)
+        IS DISTINCT FROM
+        (NEW.material_name, NEW.material_description, NEW.supplier_name, NEW.supplier_sku,
+         NEW.image_url, NEW.image_thumbnail_url, NEW.unit_type, NEW.price_per_unit, NEW.units_per_package,
+         NEW.density_tons_per_cubic_yard, NEW.length_inches, NEW.width_inches, NEW.thickness_inches, NEW.weight_lbs,
+         NEW.material_grade, NEW.color, NEW.finish)
+        OR (NEW.is_active IS DISTINCT FROM OLD.is_active AND s.is_active IS DISTINCT FROM NEW.is_active)
+      );
+  END IF;
+
+  IF COALESCE(current_setting('material_catalog.skip_linking', true), '') <> 'on'
+     AND (TG_OP = 'INSERT' OR NEW.catalog_category IS DISTINCT FROM OLD.catalog_category) THEN
+    PERFORM link_catalog_materials(NEW.company_id, NEW.id, NULL);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_material_catalog_sync ON material_catalog;
+CREATE TRIGGER trg_material_catalog_sync
+AFTER INSERT OR UPDATE ON material_catalog
+FOR EACH ROW
+EXECUTE FUNCTION sync_material_catalog_to_services();
+
+CREATE OR REPLACE FUNCTION sync_service_material_to_catalog()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE material_catalog m
+  SET material_name = NEW.material_name,
+      material_description = NEW.material_description,
+      supplier_name = NEW.supplier_name,
+      supplier_sku = NEW.supplier_sku,
+      image_url = NEW.image_url,
+      image_thumbnail_url = NEW.image_thumbnail_url,
+      unit_type = NEW.unit_type,
+      price_per_unit = NEW.price_per_unit,
+      units_per_package = NEW.units_per_package,
+      density_tons_per_cubic_yard = NEW.density_tons_per_cubic_yard,
+      length_inches = NEW.length_inches,
+      width_inches = NEW.width_inches,
+      thickness_inches = NEW.thickness_inches,
+      weight_lbs = NEW.weight_lbs,
+      material_grade = NEW.material_grade,
+      color = NEW.color,
+      finish = NEW.finish,
+      updated_by = COALESCE(NEW.updated_by, m.updated_by),
+      updated_at = NOW()
+  WHERE m.id = NEW.catalog_material_id
+    AND (m.material_name, m.material_description, m.supplier_name, m.supplier_sku,
+         m.image_url, m.image_thumbnail_url, m.unit_type, m.price_per_unit, m.units_per_package,
+         m.density_tons_per_cubic_yard, m.length_inches, m.width_inches, m.thickness_inches, m.weight_lbs,
+         m.material_grade, m.color, m.finish)
+        IS DISTINCT FROM
+        (NEW.material_name, NEW.material_description, NEW.supplier_name, NEW.supplier_sku,
+         NEW.image_url, NEW.image_thumbnail_url, NEW.unit_type, NEW.price_per_unit, NEW.units_per_package,
+         NEW.density_tons_per_cubic_yard, NEW.length_inches, NEW.width_inches, NEW.thickness_inches, NEW.weight_lbs,
+         NEW.material_grade, NEW.color, NEW.finish);
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_svc_materials_sync_catalog ON svc_materials;
+CREATE TRIGGER trg_svc_materials_sync_catalog
+AFTER UPDATE ON svc_materials
+FOR EACH ROW
+WHEN (NEW.catalog_material_id IS NOT NULL)
+EXECUTE FUNCTION sync_service_material_to_catalog();
+
+CREATE OR REPLACE FUNCTION link_category_catalog_materials()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  IF COALESCE(current_setting('material_catalog.skip_linking', true), '') <> 'on' THEN
+    PERFORM link_catalog_materials(NEW.company_id, NULL, NEW.id);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_svc_material_categories_catalog ON svc_material_categories;
+CREATE TRIGGER trg_svc_material_categories_catalog
+AFTER INSERT OR UPDATE OF catalog_category ON svc_material_categories
+FOR EACH ROW
+WHEN (NEW.catalog_category IS NOT NULL)
+EXECUTE FUNCTION link_category_catalog_materials();
+
+-- =====================================================================
+-- 6. MOVE EXISTING MATERIALS TO THE CATALOG
+-- =====================================================================
+-- Safe to run again - only rows without a catalog material are touched.
+--   1. One catalog material per category + name + supplier + unit, with
+--      the values of the active, most recently updated row (same pick as
+--      planCatalogMigration())
+--   2. Link the rows it was made from
+--   3. Copies that had drifted take the catalog values; their price
+--      change is recorded in the price history
+--   4. Every service category references the catalog category of the
+--      same key, so a category also gets the other services' materials
+-- Returns the number of service rows linked.
+
+CREATE OR REPLACE FUNCTION migrate_materials_to_catalog(p_company_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_linked INTEGER;
+BEGIN
+  PERFORM set_config('material_catalog.skip_linking', 'on', true);
+
+  INSERT INTO material_catalog (
+    company_id, catalog_category,
+    material_name, material_description, supplier_name, supplier_sku,
+    image_url, image_thumbnail_url, unit_type, price_per_unit, units_per_package,
+    density_tons_per_cubic_yard, length_inches, width_inches, thickness_inches, weight_lbs,
+    material_grade, color, finish, is_active, created_by
+  )
+  SELECT DISTINCT ON (s.material_category, lower(trim(s.material_name)), lower(trim(COALESCE(s.supplier_name, ''))), s.unit_type)
+    s.company_id, s.material_category,
+    trim(s.material_name), s.material_description, s.supplier_name, s.supplier_sku,
+    s.image_url, s.image_thumbnail_url, s.unit_type, s.price_per_unit, s.units_per_package,
+    s.density_tons_per_cubic_yard, s.length_inches, s.width_inches, s.thickness_inches, s.weight_lbs,
+    s.material_grade, s.color, s.finish, COALESCE(s.is_active, true), auth.uid()
+  FROM svc_materials s
+  WHERE s.company_id = p_company_id
+    AND s.catalog_material_id IS NULL
+  ORDER BY s.material_category, lower(trim(s.material_name)), lower(trim(COALESCE(s.supplier_name, ''))), s.unit_type,
+           s.is_active DESC NULLS LAST, s.updated_at DESC NULLS LAST
+  ON CONFLICT DO NOTHING;
+
+  -- Record drifted prices before the link makes them equal
+  INSERT INTO svc_material_price_history (
+    company_id, material_id, price_per_unit, previous_price, source, changed_by
+  )
+  SELECT s.company_id, s.id, m.price_per_unit, s.price_per_unit, 'catalog', auth.uid()
+  FROM svc_materials s
+  JOIN material_catalog m
+    ON m.company_id = s.company_id
+   AND m.catalog_category = s.material_category
+   AND lower(trim(m.material_name)) = lower(trim(s.material_name))
+   AND lower(trim(COALESCE(m.supplier_name, ''))) = lower(trim(COALESCE(s.supplier_name, '')))
+   AND m.unit_type = s.unit_type
+  WHERE s.company_id = p_company_id
+    AND s.catalog_material_id IS NULL
+    AND s.price_per_unit IS DISTINCT FROM m.price_per_unit;
+
+  UPDATE svc_materials s
+  SET catalog_material_id = m.id
+  FROM material_catalog m
+  WHERE s.company_id = p_company_id
+    AND s.catalog_material_id IS NULL
+    AND m.company_id = s.company_id
+    AND m.catalog_category = s.material_category
+    AND lower(trim(m.material_name)) = lower(trim(s.material_name))
+    AND lower(trim(COALESCE(m.supplier_name, ''))) = lower(trim(COALESCE(s.supplier_name, '')))
+    AND m.unit_type = s.unit_type;
+
+  GET DIAGNOSTICS v_linked = ROW_COUNT;
+
+  -- Catalog values win over drifted copies (fires the catalog trigger,
+  -- which copies only where something differs)
+  UPDATE material_catalog
+  SET updated_at = NOW()
+  WHERE company_id = p_company_id
+    AND id IN (SELECT catalog_material_id FROM svc_materials WHERE company_id = p_company_id);
+
+  PERFORM set_config('material_catalog.skip_linking', 'off', true);
+
+  UPDATE svc_material_categories
+  SET catalog_category = category_key
+  WHERE company_id = p_company_id
+    AND catalog_category IS NULL;
+
+  RETURN v_linked;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION migrate_materials_to_catalog(UUID) TO authenticated;
+
+-- =====================================================================
+-- 7. ROW LEVEL SECURITY
+-- =====================================================================
+
+ALTER TABLE material_catalog ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "users_select_material_catalog" ON material_catalog;
+DROP POLICY IF EXISTS "admins_insert_material_catalog" ON material_catalog;
+DROP POLICY IF EXISTS "admins_update_material_catalog" ON material_catalog;
+DROP POLICY IF EXISTS "owners_delete_material_catalog" ON material_catalog;
+
+CREATE POLICY "users_select_material_catalog"
+ON material_catalog
+FOR SELECT
+USING (
+  company_id IN (
+    SELECT company_id
+    FROM users
+    WHERE id = auth.uid()
+  )
+);
+
+CREATE POLICY "admins_insert_material_catalog"
+ON material_catalog
+FOR INSERT
+WITH CHECK (
+  company_id IN (
+    SELECT company_id
+    FROM users
+    WHERE id = auth.uid()
+    AND (is_owner = true OR is_admin = true)
+  )
+);
+
+CREATE POLICY "admins_update_material_catalog"
+ON material_catalog
+FOR UPDATE
+USING (
+  company_id IN (
+    SELECT company_id
+    FROM users
+    WHERE id = auth.uid()
+    AND (is_owner = true OR is_admin = true)
+  )
+);
+
+CREATE POLICY "owners_delete_material_catalog"
+ON material_catalog
+FOR DELETE
+USING (
+  company_id IN (
+    SELECT company_id
+    FROM users
+    WHERE id = auth.uid()
+    AND is_owner = true
+  )
+);
+
+-- =====================================================================
+-- 8. MOVE EVERY COMPANY
+-- =====================================================================
+
+SELECT company_id, migrate_materials_to_catalog(company_id) AS linked
+FROM (SELECT id AS company_id FROM companies) c;
+
+-- =====================================================================
+-- Migration complete
+-- =====================================================================
+--
+-- Usage: Materials page → Material Catalog. Prices edited there (or by a
+-- price list import or bulk adjustment in any service) change in every
+-- service using the material. Materials added later in one service stay
+-- service-only until "Move to catalog" runs migrate_materials_to_catalog()
+-- again.
+--
+-- Example:
+--   UPDATE material_catalog SET price_per_unit = 26
+--   WHERE company_id = '<company>' AND material_name = 'Road Base';
+--
+--   SELECT p.service_name, s.material_category, s.price_per_unit
+--   FROM svc_materials s
+--   JOIN svc_pricing_configs p ON p.id = s.service_config_id
+--   WHERE s.catalog_material_id = '<road base>';
+-- =====================================================================
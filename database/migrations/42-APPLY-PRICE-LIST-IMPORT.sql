@@ -0,0 +1,144 @@
+-- =====================================================================
+-- MIGRATION 42: Apply Supplier Price Lists in One Transaction
+-- =====================================================================
+-- Purpose: Apply a previewed price list import (migration 35) all or
+--          nothing, with a price history row for every material whose
+--          price changed - including rows that took the price through
+--          the company material catalog (migration 41)
+-- Dependencies: svc_materials, svc_material_price_history (migration 35),
+--               material_catalog (migration 41)
+-- Estimated time: < 1 minute
+-- =====================================================================
+
+-- =====================================================================
+-- 1. APPLY AN IMPORT
+-- =====================================================================
+-- Every price is checked against the preview's old price (someone else
+-- may have edited it since) before it is written; any failure rolls the
+-- whole import back. SECURITY INVOKER - the caller's RLS decides what
+-- they may update.
+--
+-- A catalog-linked row passes its new price to the catalog, which passes
+-- it on to the other service rows of the same catalog material (migration
+-- 41 triggers). Those rows get their history here too, under the same
+-- batch. A later line for one of them finds the new price already set
+-- and only assigns its SKU.
+--
+-- p_items: [{ "id": UUID, "label": TEXT, "line": INTEGER, "oldPrice": NUMERIC,
+--             "newPrice": NUMERIC, "sku": TEXT | null, "assignSku": BOOLEAN }]
+
+CREATE OR REPLACE FUNCTION apply_price_list_import(
+  p_company_id UUID,
+  p_file_name TEXT,
+  p_items JSONB
+)
+RETURNS TABLE (batch_id UUID, updated INTEGER, skus_assigned INTEGER)
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_batch_id UUID := gen_random_uuid();
+  v_item JSONB;
+  v_id UUID;
+  v_old NUMERIC;
+  v_new NUMERIC;
+  v_current NUMERIC;
+  v_catalog_id UUID;
+  v_assign_sku BOOLEAN;
+  v_updated INTEGER := 0;
+  v_skus INTEGER := 0;
+BEGIN
+  IF jsonb_array_length(COALESCE(p_items, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'No price changes to apply';
+  END IF;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_id := (v_item->>'id')::UUID;
+    v_old := (v_item->>'oldPrice')::NUMERIC;
+    v_new := (v_item->>'newPrice')::NUMERIC;
+    v_assign_sku := COALESCE((v_item->>'assignSku')::BOOLEAN, false);
+
+    SELECT price_per_unit, catalog_material_id INTO v_current, v_catalog_id
+    FROM svc_materials
+    WHERE id = v_id AND company_id = p_company_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Material % (line %) no longer exists', v_item->>'label', v_item->>'line';
+    END IF;
+
+    -- Already set through the catalog by an earlier line (history written there)
+    IF v_catalog_id IS NOT NULL AND v_current = v_new AND v_current IS DISTINCT FROM v_old THEN
+      IF v_assign_sku THEN
+        UPDATE svc_materials SET supplier_sku = v_item->>'sku', updated_by = auth.uid() WHERE id = v_id;
+        v_skus := v_skus + 1;
+      END IF;
+      v_updated := v_updated + 1;
+      CONTINUE;
+    END IF;
+
+    IF v_current IS DISTINCT FROM v_old THEN
+      RAISE EXCEPTION 'Price of % (line %) changed since the preview', v_item->>'label', v_item->>'line';
+    END IF;
+
+    -- Linked rows whose price the catalog trigger is about to change
+    IF v_catalog_id IS NOT NULL THEN
+      INSERT INTO svc_material_price_history (
+        company_id, material_id, price_per_unit, previous_price, source, import_batch_id, file_name, changed_by
+      )
+      SELECT s.company_id, s.id, v_new, s.price_per_unit, 'import', v_batch_id, p_file_name, auth.uid()
+      FROM svc_materials s
+      WHERE s.catalog_material_id = v_catalog_id
+        AND s.id <> v_id
+        AND s.price_per_unit IS DISTINCT FROM v_new;
+    END IF;
+
+    UPDATE svc_materials
+    SET price_per_unit = v_new,
+        supplier_sku = CASE WHEN v_assign_sku THEN v_item->>'sku' ELSE supplier_sku END,
+        updated_by = auth.uid()
+    WHERE id = v_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Not allowed to update %', v_item->>'label';
+    END IF;
+
+    INSERT INTO svc_material_price_history (
+      company_id, material_id, price_per_unit, previous_price, source, import_batch_id, file_name, changed_by
+    ) VALUES (
+      p_company_id, v_id, v_new, v_old, 'import', v_batch_id, p_file_name, auth.uid()
+    );
+
+    v_updated := v_updated + 1;
+    IF v_assign_sku THEN
+      v_skus := v_skus + 1;
+    END IF;
+  END LOOP;
+
+  RETURN QUERY SELECT v_batch_id, v_updated, v_skus;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION apply_price_list_import(UUID, TEXT, JSONB) TO authenticated;
+
+-- =====================================================================
+-- Migration complete
+-- =====================================================================
+--
+-- Usage: Materials page → Import Price List. MaterialPriceService.applyImport()
+-- sends the preview's 'update' lines; a stale preview fails with nothing
+-- changed.
+--
+-- Example:
+--   SELECT * FROM apply_price_list_import(
+--     '<company>', 'midwest-stone-2026.csv',
+--     '[{"id": "<road base>", "label": "Road Base", "line": 2, "oldPrice": 24, "newPrice": 26.5,
+--        "sku": "RB-34", "assignSku": true}]'
+--   );
+--
+--   SELECT material_id, previous_price, price_per_unit
+--   FROM svc_material_price_history
+--   WHERE import_batch_id = '<batch_id>';
+-- =====================================================================
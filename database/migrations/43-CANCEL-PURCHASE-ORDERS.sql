@@ -0,0 +1,35 @@
+-- =====================================================================
+-- MIGRATION 43: Cancelled Purchase Orders
+-- =====================================================================
+-- Purpose: Let a draft or sent purchase order (migration 36) be
+--          cancelled, so its jobs can be ordered for again. A job on an
+--          order that isn't cancelled can't be put on another one.
+-- Dependencies: purchase_orders (migration 36)
+-- Estimated time: < 1 minute
+-- =====================================================================
+
+-- =====================================================================
+-- 1. STATUS
+-- =====================================================================
+
+ALTER TABLE purchase_orders DROP CONSTRAINT IF EXISTS purchase_orders_status_check;
+ALTER TABLE purchase_orders
+  ADD CONSTRAINT purchase_orders_status_check
+  CHECK (status IN ('draft', 'sent', 'received', 'cancelled'));
+
+COMMENT ON COLUMN purchase_orders.status IS 'draft → sent → received (forward only); draft or sent → cancelled';
+
+-- =====================================================================
+-- Migration complete
+-- =====================================================================
+--
+-- Usage: Materials page → Purchase Orders → Cancel. Generating orders
+-- refuses jobs still on a draft, sent or received order
+-- (PurchaseOrderService.generateFromJobs()).
+--
+-- Example:
+--   SELECT po_number, status
+--   FROM purchase_orders
+--   WHERE company_id = '<company>' AND job_ids && ARRAY['<job>']::UUID[]
+--     AND status <> 'cancelled';
+-- =====================================================================
@@ -6,7 +6,9 @@
  *
  * Features:
  * - Timezone configuration
- * - Future: Default units, currency, user management
+ * - Measurement units (imperial / metric)
+ * - Sales tax rate table
+ * - Future: Currency, user management
  * - Complete billing information (from old BillingTab)
  *
  * @module CompanySettingsTab
@@ -19,6 +21,11 @@ import { useTheme } from '../../context/ThemeContext';
 import { getSmartVisualThemeConfig } from '../../config/industry';
 import { getSupabase } from '../../services/supabase';
 import { TimezoneSelector } from './TimezoneSelector';
+import { UnitSystemSelector } from './UnitSystemSelector';
+import { TaxRatesSettings } from './TaxRatesSettings';
+import { ShopLocationSettings } from './ShopLocationSettings';
+import { EquipmentCatalogSettings } from './EquipmentCatalogSettings';
+import { PricingCalendarSettings } from './PricingCalendarSettings';
 import {
   CompanyBilling,
   Payment,
@@ -31,6 +38,7 @@ import { PaymentHistoryTable } from '../billing/PaymentHistoryTable';
 import { UpdatePaymentMethodModal } from '../billing/UpdatePaymentMethodModal';
 import { CancelSubscriptionModal } from '../billing/CancelSubscriptionModal';
 import { hapticFeedback } from '../../utils/mobile-gestures';
+import { normalizeUnitSystem, type UnitSystem } from '../../pricing-system/utils/unit-system';
 
 interface CompanySettingsTabProps {
   isOpen: boolean;
@@ -48,6 +56,7 @@ export const CompanySettingsTab: React.FC<CompanySettingsTabProps> = ({ isOpen,
 
   // Company settings state
   const [companyTimezone, setCompanyTimezone] = useState<string>('America/Chicago');
+  const [companyUnitSystem, setCompanyUnitSystem] = useState<UnitSystem>('imperial');
 
   // Billing data state (from old BillingTab)
   const [billing, setBilling] = useState<CompanyBilling | null>(null);
@@ -87,10 +96,10 @@ export const CompanySettingsTab: React.FC<CompanySettingsTabProps> = ({ isOpen,
     try {
       const supabase = getSupabase();
 
-      // Load company info (including timezone)
+      // Load company info (including timezone and units)
       const { data: companyData, error: companyError } = await supabase
         .from('companies')
-        .select('timezone')
+        .select('timezone, unit_system')
         .eq('id', user!.company_id)
         .single();
 
@@ -99,6 +108,7 @@ export const CompanySettingsTab: React.FC<CompanySettingsTabProps> = ({ isOpen,
       if (companyData?.timezone) {
         setCompanyTimezone(companyData.timezone);
       }
+      setCompanyUnitSystem(normalizeUnitSystem(companyData?.unit_system));
 
       // Load billing data
       const companyIdStr = createCompanyId(user!.company_id);
@@ -297,23 +307,40 @@ export const CompanySettingsTab: React.FC<CompanySettingsTabProps> = ({ isOpen,
                 onTimezoneChange={handleTimezoneChange}
               />
 
-              {/* Default Units - TODO */}
-              <div className="space-y-3">
-                <label className="block text-sm font-medium" style={{ color: visualConfig.colors.text.primary }}>
-                  Default Units
-                </label>
-                <div
-                  className="px-4 py-3 rounded-lg border"
-                  style={{
-                    backgroundColor: visualConfig.colors.background,
-                    borderColor: visualConfig.colors.text.secondary + '20',
-                  }}
-                >
-                  <p className="text-sm" style={{ color: visualConfig.colors.text.secondary }}>
-                    🚧 Coming soon: Configure default measurement units (imperial/metric)
-                  </p>
-                </div>
-              </div>
+              {/* Measurement Units */}
+              <UnitSystemSelector
+                currentUnitSystem={companyUnitSystem}
+                companyId={user!.company_id}
+                visualConfig={visualConfig}
+                onUnitSystemChange={setCompanyUnitSystem}
+              />
+
+              {/* Sales Tax Rates */}
+              <TaxRatesSettings
+                companyId={user!.company_id}
+                userId={user?.id}
+                visualConfig={visualConfig}
+              />
+
+              {/* Shop Location & Travel */}
+              <ShopLocationSettings
+                companyId={user!.company_id}
+                visualConfig={visualConfig}
+              />
+
+              {/* Equipment Catalog */}
+              <EquipmentCatalogSettings
+                companyId={user!.company_id}
+                userId={user?.id}
+                visualConfig={visualConfig}
+              />
+
+              {/* Seasonal Pricing Calendar */}
+              <PricingCalendarSettings
+                companyId={user!.company_id}
+                userId={user?.id}
+                visualConfig={visualConfig}
+              />
 
               {/* Currency - TODO */}
               <div className="space-y-3">
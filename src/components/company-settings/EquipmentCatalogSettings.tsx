@@ -0,0 +1,411 @@
+/**
+ * Equipment Catalog Settings Component
+ *
+ * Company equipment catalog - owned or rented, daily rate, delivery fee -
+ * and which services need each item. Quotes price the equipment from the
+ * job's days; scheduling a job reserves it.
+ *
+ * @module EquipmentCatalogSettings
+ */
+
+import React, { useEffect, useState } from 'react';
+import * as Icons from 'lucide-react';
+import { equipmentService } from '../../services/EquipmentService';
+import { SERVICE_REGISTRY, isValidServiceId } from '../../pricing-system/config/service-registry';
+import { hapticFeedback } from '../../utils/mobile-gestures';
+import type { EquipmentItem, EquipmentOwnership, ServiceEquipmentRequirement } from '../../types/equipment';
+
+interface EquipmentCatalogSettingsProps {
+  companyId: string;
+  userId?: string;
+  visualConfig: any;
+}
+
+const EMPTY_FORM = {
+  name: '',
+  category: '',
+  ownership: 'rented' as EquipmentOwnership,
+  daily_rate: '',
+  delivery_fee: '',
+  quantity_owned: '1'
+};
+
+const EMPTY_REQUIREMENT = {
+  service_config_id: '',
+  quantity: '1',
+  dayPercent: '100'
+};
+
+/**
+ * Equipment Catalog Settings
+ * Owners maintain the equipment priced on quotes and reserved on the schedule
+ */
+export const EquipmentCatalogSettings: React.FC<EquipmentCatalogSettingsProps> = ({
+  companyId,
+  userId,
+  visualConfig
+}) => {
+  const [items, setItems] = useState<EquipmentItem[]>([]);
+  const [requirements, setRequirements] = useState<ServiceEquipmentRequirement[]>([]);
+  const [services, setServices] = useState<Array<{ id: string; service_name: string }>>([]);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [showForm, setShowForm] = useState(false);
+  const [requirementFor, setRequirementFor] = useState<string | null>(null);
+  const [requirementForm, setRequirementForm] = useState(EMPTY_REQUIREMENT);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadCatalog = async () => {
+    setIsLoading(true);
+    const [catalog, serviceRequirements, serviceConfigs] = await Promise.all([
+      equipmentService.getCatalog(companyId),
+      equipmentService.getRequirements(companyId),
+      equipmentService.getServiceConfigs(companyId)
+    ]);
+    setIsLoading(false);
+
+    if (!catalog.success || !serviceRequirements.success) {
+      setError(catalog.error || serviceRequirements.error || 'Failed to load equipment');
+      return;
+    }
+    setItems(catalog.data || []);
+    setRequirements(serviceRequirements.data || []);
+    setServices(serviceConfigs.data || []);
+  };
+
+  useEffect(() => {
+    loadCatalog();
+  }, [companyId]);
+
+  const serviceLabel = (serviceConfigId: string) => {
+    const serviceName = services.find(service => service.id === serviceConfigId)?.service_name ?? '';
+    return isValidServiceId(serviceName) ? SERVICE_REGISTRY[serviceName].displayName : serviceName;
+  };
+
+  /**
+   * Add an item to the catalog
+   */
+  const handleCreate = async () => {
+    setIsSaving(true);
+    setError(null);
+
+    const result = await equipmentService.createItem({
+      company_id: companyId,
+      name: form.name,
+      category: form.category || null,
+      ownership: form.ownership,
+      daily_rate: parseFloat(form.daily_rate) || 0,
+      delivery_fee: form.ownership === 'rented' ? parseFloat(form.delivery_fee) || 0 : 0,
+      quantity_owned: parseInt(form.quantity_owned, 10) || 0,
+      created_by: userId
+    });
+    setIsSaving(false);
+
+    if (!result.success) {
+      setError(result.error || 'Failed to add equipment');
+      hapticFeedback.notification('error');
+      return;
+    }
+
+    hapticFeedback.notification('success');
+    setForm(EMPTY_FORM);
+    setShowForm(false);
+    await loadCatalog();
+  };
+
+  /**
+   * Retire an item - quoted jobs keep their equipment lines
+   */
+  const handleRemove = async (item: EquipmentItem) => {
+    if (!window.confirm(`Remove ${item.name} from the catalog? Services stop pricing it on new quotes.`)) {
+      return;
+    }
+
+    const result = await equipmentService.deactivateItem(item.id, companyId);
+    if (!result.success) {
+      setError(result.error || 'Failed to remove equipment');
+      return;
+    }
+    setItems(prev => prev.filter(i => i.id !== item.id));
+  };
+
+  /**
+   * Attach an item to a service
+   */
+  const handleAddRequirement = async (item: EquipmentItem) => {
+    setError(null);
+    const result = await equipmentService.setRequirement({
+      company_id: companyId,
+      service_config_id: requirementForm.service_config_id,
+      equipment_id: item.id,
+      quantity: parseInt(requirementForm.quantity, 10) || 0,
+      day_fraction: (parseFloat(requirementForm.dayPercent) || 0) / 100
+    });
+
+    if (!result.success || !result.data) {
+      setError(result.error || 'Failed to save equipment requirement');
+      return;
+    }
+
+    setRequirements(prev => [...prev.filter(r => r.id !== result.data!.id), result.data!]);
+    setRequirementFor(null);
+    setRequirementForm(EMPTY_REQUIREMENT);
+  };
+
+  const handleRemoveRequirement = async (requirement: ServiceEquipmentRequirement) => {
+    const result = await equipmentService.removeRequirement(requirement.id, companyId);
+    if (!result.success) {
+      setError(result.error || 'Failed to remove equipment requirement');
+      return;
+    }
+    setRequirements(prev => prev.filter(r => r.id !== requirement.id));
+  };
+
+  const inputStyle = {
+    backgroundColor: visualConfig.colors.surface,
+    borderColor: visualConfig.colors.text.secondary + '40',
+    color: visualConfig.colors.text.primary
+  };
+
+  return (
+    <div className="space-y-3">
+      {/* Label */}
+      <div className="flex items-center justify-between">
+        <label className="block text-sm font-medium" style={{ color: visualConfig.colors.text.primary }}>
+          Equipment Catalog
+        </label>
+        <button
+          onClick={() => setShowForm(!showForm)}
+          className="flex items-center gap-1 text-sm font-medium"
+          style={{ color: visualConfig.colors.primary }}
+        >
+          <Icons.Plus className="h-4 w-4" />
+          Add Equipment
+        </button>
+      </div>
+
+      {/* Helper Text */}
+      <p className="text-xs" style={{ color: visualConfig.colors.text.secondary }}>
+        Services price their equipment per job day. Owned items use an internal daily rate and can't be double-booked on the schedule.
+      </p>
+
+      {/* Add Equipment Form */}
+      {showForm && (
+        <div
+          className="p-4 rounded-lg border space-y-3"
+          style={{ backgroundColor: visualConfig.colors.background, borderColor: visualConfig.colors.text.secondary + '20' }}
+        >
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+            <input
+              placeholder="Name (e.g., Skid steer)"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              className="px-3 py-2 rounded-lg border text-sm"
+              style={inputStyle}
+            />
+            <input
+              placeholder="Category (optional)"
+              value={form.category}
+              onChange={(e) => setForm({ ...form, category: e.target.value })}
+              className="px-3 py-2 rounded-lg border text-sm"
+              style={inputStyle}
+            />
+            <select
+              value={form.ownership}
+              onChange={(e) => setForm({ ...form, ownership: e.target.value as EquipmentOwnership })}
+              className="px-3 py-2 rounded-lg border text-sm"
+              style={inputStyle}
+            >
+              <option value="rented">Rented</option>
+              <option value="owned">Owned</option>
+            </select>
+            <input
+              type="number"
+              min="0"
+              step="5"
+              placeholder={form.ownership === 'rented' ? 'Daily rental rate $' : 'Daily ownership rate $'}
+              value={form.daily_rate}
+              onChange={(e) => setForm({ ...form, daily_rate: e.target.value })}
+              className="px-3 py-2 rounded-lg border text-sm"
+              style={inputStyle}
+            />
+            {form.ownership === 'rented' ? (
+              <input
+                type="number"
+                min="0"
+                step="5"
+                placeholder="Delivery fee $"
+                value={form.delivery_fee}
+                onChange={(e) => setForm({ ...form, delivery_fee: e.target.value })}
+                className="px-3 py-2 rounded-lg border text-sm"
+                style={inputStyle}
+              />
+            ) : (
+              <input
+                type="number"
+                min="0"
+                step="1"
+                placeholder="Units owned"
+                value={form.quantity_owned}
+                onChange={(e) => setForm({ ...form, quantity_owned: e.target.value })}
+                className="px-3 py-2 rounded-lg border text-sm"
+                style={inputStyle}
+              />
+            )}
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => { setShowForm(false); setForm(EMPTY_FORM); }}
+              className="px-3 py-2 rounded-lg text-sm"
+              style={{ color: visualConfig.colors.text.secondary }}
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleCreate}
+              disabled={isSaving || !form.name.trim() || !form.daily_rate}
+              className="px-3 py-2 rounded-lg text-sm font-medium text-white disabled:opacity-50"
+              style={{ backgroundColor: visualConfig.colors.primary }}
+            >
+              {isSaving ? 'Saving...' : 'Save Equipment'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Catalog */}
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-sm" style={{ color: visualConfig.colors.text.secondary }}>
+          <Icons.Loader2 className="h-4 w-4 animate-spin" />
+          Loading equipment...
+        </div>
+      ) : items.length === 0 ? (
+        <div
+          className="px-4 py-3 rounded-lg border text-sm"
+          style={{
+            backgroundColor: visualConfig.colors.background,
+            borderColor: visualConfig.colors.text.secondary + '20',
+            color: visualConfig.colors.text.secondary
+          }}
+        >
+          No equipment yet - quotes only include equipment set on service variables.
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {items.map(item => (
+            <div
+              key={item.id}
+              className="px-4 py-3 rounded-lg border space-y-2"
+              style={{ backgroundColor: visualConfig.colors.background, borderColor: visualConfig.colors.text.secondary + '20' }}
+            >
+              <div className="flex items-center justify-between text-sm" style={{ color: visualConfig.colors.text.primary }}>
+                <div>
+                  <span className="font-medium">{item.name}</span>
+                  <span className="ml-2 text-xs" style={{ color: visualConfig.colors.text.secondary }}>
+                    {item.ownership === 'owned'
+                      ? `Owned × ${item.quantity_owned} · $${Number(item.daily_rate).toFixed(2)}/day`
+                      : `Rented · $${Number(item.daily_rate).toFixed(2)}/day + $${Number(item.delivery_fee).toFixed(2)} delivery`}
+                  </span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => setRequirementFor(requirementFor === item.id ? null : item.id)}
+                    className="text-xs font-medium"
+                    style={{ color: visualConfig.colors.primary }}
+                  >
+                    Use on service
+                  </button>
+                  <button
+                    onClick={() => handleRemove(item)}
+                    className="p-1 rounded hover:opacity-70"
+                    style={{ color: visualConfig.colors.text.secondary }}
+                    title="Remove equipment"
+                  >
+                    <Icons.Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+
+              {/* Services using this item */}
+              {requirements.filter(r => r.equipment_id === item.id).map(requirement => (
+                <div key={requirement.id} className="flex items-center justify-between text-xs pl-2" style={{ color: visualConfig.colors.text.secondary }}>
+                  <span>
+                    • {serviceLabel(requirement.service_config_id)}: {requirement.quantity} unit{requirement.quantity === 1 ? '' : 's'}, {Math.round(Number(requirement.day_fraction) * 100)}% of job days
+                  </span>
+                  <button onClick={() => handleRemoveRequirement(requirement)} className="hover:opacity-70" title="Stop using on this service">
+                    <Icons.X className="h-3 w-3" />
+                  </button>
+                </div>
+              ))}
+
+              {requirementFor === item.id && (
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                  <select
+                    value={requirementForm.service_config_id}
+                    onChange={(e) => setRequirementForm({ ...requirementForm, service_config_id: e.target.value })}
+                    className="col-span-2 px-3 py-2 rounded-lg border text-sm"
+                    style={inputStyle}
+                  >
+                    <option value="">Service...</option>
+                    {services.map(service => (
+                      <option key={service.id} value={service.id}>{serviceLabel(service.id)}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="number"
+                    min="1"
+                    step="1"
+                    placeholder="Units"
+                    value={requirementForm.quantity}
+                    onChange={(e) => setRequirementForm({ ...requirementForm, quantity: e.target.value })}
+                    className="px-3 py-2 rounded-lg border text-sm"
+                    style={inputStyle}
+                  />
+                  <div className="flex gap-2">
+                    <input
+                      type="number"
+                      min="1"
+                      max="100"
+                      step="5"
+                      placeholder="% of days"
+                      value={requirementForm.dayPercent}
+                      onChange={(e) => setRequirementForm({ ...requirementForm, dayPercent: e.target.value })}
+                      className="w-full px-3 py-2 rounded-lg border text-sm"
+                      style={inputStyle}
+                    />
+                    <button
+                      onClick={() => handleAddRequirement(item)}
+                      disabled={!requirementForm.service_config_id}
+                      className="px-3 py-2 rounded-lg text-sm font-medium text-white disabled:opacity-50"
+                      style={{ backgroundColor: visualConfig.colors.primary }}
+                    >
+                      Add
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Error Message */}
+      {error && (
+        <div
+          className="flex items-center gap-2 px-4 py-2 rounded-lg"
+          style={{
+            backgroundColor: '#EF444420',
+            color: '#EF4444',
+          }}
+        >
+          <Icons.AlertCircle className="h-4 w-4 flex-shrink-0" />
+          <span className="text-sm font-medium">{error}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EquipmentCatalogSettings;
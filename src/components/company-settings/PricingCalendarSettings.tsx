@@ -0,0 +1,403 @@
+/**
+ * Pricing Calendar Settings Component
+ *
+ * Seasonal pricing periods (margin points and labor rate changes by date
+ * range) and the backlog surcharge tiers. Quotes are adjusted by their
+ * job's requested start date.
+ *
+ * @module PricingCalendarSettings
+ */
+
+import React, { useEffect, useState } from 'react';
+import * as Icons from 'lucide-react';
+import { pricingCalendarService } from '../../services/PricingCalendarService';
+import type { BacklogSurchargeTier, PricingCalendarPeriodRow } from '../../types/pricing-calendar';
+import { DEFAULT_BACKLOG_WINDOW_DAYS } from '../../pricing-system/core/calculations/seasonal-pricing';
+import { hapticFeedback } from '../../utils/mobile-gestures';
+
+interface PricingCalendarSettingsProps {
+  companyId: string;
+  userId?: string;
+  visualConfig: any;
+}
+
+const EMPTY_PERIOD = {
+  name: '',
+  start_date: '',
+  end_date: '',
+  recurring: true,
+  marginPoints: 0,
+  laborRateAdjustment: 0
+};
+
+const formatSigned = (value: number, suffix: string) => `${value > 0 ? '+' : ''}${value}${suffix}`;
+
+/**
+ * Pricing Calendar Settings
+ * Owners raise prices in busy seasons and when the schedule is full
+ */
+export const PricingCalendarSettings: React.FC<PricingCalendarSettingsProps> = ({
+  companyId,
+  userId,
+  visualConfig
+}) => {
+  const [periods, setPeriods] = useState<PricingCalendarPeriodRow[]>([]);
+  const [newPeriod, setNewPeriod] = useState(EMPTY_PERIOD);
+  const [windowDays, setWindowDays] = useState(DEFAULT_BACKLOG_WINDOW_DAYS);
+  const [tiers, setTiers] = useState<BacklogSurchargeTier[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      setIsLoading(true);
+      const result = await pricingCalendarService.getCalendar(companyId);
+      setIsLoading(false);
+
+      if (!result.success || !result.data) {
+        setError(result.error || 'Failed to load pricing calendar');
+        return;
+      }
+
+      setPeriods(result.data.periods);
+      setWindowDays(result.data.backlogRule?.windowDays ?? DEFAULT_BACKLOG_WINDOW_DAYS);
+      setTiers(result.data.backlogRule?.tiers ?? []);
+    };
+
+    load();
+  }, [companyId]);
+
+  const showSuccess = (message: string) => {
+    setSuccess(message);
+    hapticFeedback.notification('success');
+    setTimeout(() => setSuccess(null), 3000);
+  };
+
+  const showError = (message: string) => {
+    setError(message);
+    hapticFeedback.notification('error');
+  };
+
+  /**
+   * Add a calendar period
+   */
+  const handleAddPeriod = async () => {
+    setIsSaving(true);
+    setError(null);
+    hapticFeedback.impact('medium');
+
+    const result = await pricingCalendarService.createPeriod({
+      company_id: companyId,
+      name: newPeriod.name,
+      start_date: newPeriod.start_date,
+      end_date: newPeriod.end_date,
+      recurring: newPeriod.recurring,
+      margin_adjustment: newPeriod.marginPoints / 100,
+      labor_rate_adjustment: newPeriod.laborRateAdjustment,
+      created_by: userId ?? null
+    });
+    setIsSaving(false);
+
+    if (!result.success || !result.data) {
+      showError(result.error || 'Failed to add pricing period');
+      return;
+    }
+
+    setPeriods([...periods, result.data].sort((a, b) => a.start_date.localeCompare(b.start_date)));
+    setNewPeriod(EMPTY_PERIOD);
+    showSuccess('Pricing period added');
+  };
+
+  /**
+   * Retire a calendar period
+   */
+  const handleRemovePeriod = async (period: PricingCalendarPeriodRow) => {
+    hapticFeedback.impact('light');
+    const result = await pricingCalendarService.deactivatePeriod(period.id, companyId);
+
+    if (!result.success) {
+      showError(result.error || 'Failed to remove pricing period');
+      return;
+    }
+
+    setPeriods(periods.filter(p => p.id !== period.id));
+  };
+
+  /**
+   * Save the backlog surcharge tiers (no tiers turns it off)
+   */
+  const handleSaveBacklog = async () => {
+    setIsSaving(true);
+    setError(null);
+    hapticFeedback.impact('medium');
+
+    const result = await pricingCalendarService.updateBacklogRule(
+      companyId,
+      tiers.length > 0 ? { windowDays, tiers } : null
+    );
+    setIsSaving(false);
+
+    if (!result.success) {
+      showError(result.error || 'Failed to save backlog surcharge');
+      return;
+    }
+
+    setTiers(result.data?.tiers ?? []);
+    showSuccess('Backlog surcharge saved');
+  };
+
+  const updateTier = (index: number, field: keyof BacklogSurchargeTier, value: number) => {
+    setTiers(tiers.map((tier, i) => (i === index ? { ...tier, [field]: value } : tier)));
+  };
+
+  const inputStyle = {
+    backgroundColor: visualConfig.colors.surface,
+    borderColor: visualConfig.colors.text.secondary + '40',
+    color: visualConfig.colors.text.primary
+  };
+
+  const cardStyle = {
+    backgroundColor: visualConfig.colors.background,
+    borderColor: visualConfig.colors.text.secondary + '20'
+  };
+
+  const fieldLabel = (label: string, field: React.ReactNode) => (
+    <label className="text-xs space-y-1" style={{ color: visualConfig.colors.text.secondary }}>
+      <span>{label}</span>
+      {field}
+    </label>
+  );
+
+  return (
+    <div className="space-y-3">
+      {/* Label */}
+      <label className="block text-sm font-medium" style={{ color: visualConfig.colors.text.primary }}>
+        Seasonal Pricing Calendar
+      </label>
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-sm" style={{ color: visualConfig.colors.text.secondary }}>
+          <Icons.Loader2 className="h-4 w-4 animate-spin" />
+          Loading pricing calendar...
+        </div>
+      ) : (
+        <>
+          {/* Calendar Periods */}
+          <div className="p-4 rounded-lg border space-y-3" style={cardStyle}>
+            {periods.length === 0 ? (
+              <p className="text-xs" style={{ color: visualConfig.colors.text.secondary }}>
+                No seasonal periods - every start date uses the service's profit margin and labor rate.
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {periods.map(period => (
+                  <div key={period.id} className="flex items-center justify-between text-sm">
+                    <div style={{ color: visualConfig.colors.text.primary }}>
+                      <span className="font-medium">{period.name}</span>
+                      <span className="text-xs ml-2" style={{ color: visualConfig.colors.text.secondary }}>
+                        {period.recurring
+                          ? `${period.start_date.slice(5)} → ${period.end_date.slice(5)} every year`
+                          : `${period.start_date} → ${period.end_date}`}
+                        {' · '}margin {formatSigned(Math.round(Number(period.margin_adjustment) * 1000) / 10, ' pts')}
+                        {' · '}labor {formatSigned(Number(period.labor_rate_adjustment), '%')}
+                      </span>
+                    </div>
+                    <button
+                      onClick={() => handleRemovePeriod(period)}
+                      className="p-1 rounded"
+                      style={{ color: visualConfig.colors.text.secondary }}
+                      title="Remove period"
+                    >
+                      <Icons.Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 md:grid-cols-6 gap-2 items-end">
+              {fieldLabel('Name', (
+                <input
+                  placeholder="Spring rush"
+                  value={newPeriod.name}
+                  onChange={(e) => setNewPeriod({ ...newPeriod, name: e.target.value })}
+                  className="w-full px-3 py-2 rounded-lg border text-sm"
+                  style={inputStyle}
+                />
+              ))}
+              {fieldLabel('Starts', (
+                <input
+                  type="date"
+                  value={newPeriod.start_date}
+                  onChange={(e) => setNewPeriod({ ...newPeriod, start_date: e.target.value })}
+                  className="w-full px-3 py-2 rounded-lg border text-sm"
+                  style={inputStyle}
+                />
+              ))}
+              {fieldLabel('Ends', (
+                <input
+                  type="date"
+                  value={newPeriod.end_date}
+                  onChange={(e) => setNewPeriod({ ...newPeriod, end_date: e.target.value })}
+                  className="w-full px-3 py-2 rounded-lg border text-sm"
+                  style={inputStyle}
+                />
+              ))}
+              {fieldLabel('Margin (± pts)', (
+                <input
+                  type="number"
+                  step="0.5"
+                  value={newPeriod.marginPoints}
+                  onChange={(e) => setNewPeriod({ ...newPeriod, marginPoints: parseFloat(e.target.value) || 0 })}
+                  className="w-full px-3 py-2 rounded-lg border text-sm"
+                  style={inputStyle}
+                />
+              ))}
+              {fieldLabel('Labor rate (± %)', (
+                <input
+                  type="number"
+                  step="1"
+                  value={newPeriod.laborRateAdjustment}
+                  onChange={(e) => setNewPeriod({ ...newPeriod, laborRateAdjustment: parseFloat(e.target.value) || 0 })}
+                  className="w-full px-3 py-2 rounded-lg border text-sm"
+                  style={inputStyle}
+                />
+              ))}
+              <label className="flex items-center gap-2 pb-2 text-sm" style={{ color: visualConfig.colors.text.primary }}>
+                <input
+                  type="checkbox"
+                  checked={newPeriod.recurring}
+                  onChange={(e) => setNewPeriod({ ...newPeriod, recurring: e.target.checked })}
+                />
+                Every year
+              </label>
+            </div>
+
+            <div className="flex justify-end">
+              <button
+                onClick={handleAddPeriod}
+                disabled={isSaving || !newPeriod.name.trim() || !newPeriod.start_date || !newPeriod.end_date}
+                className="px-3 py-2 rounded-lg text-sm font-medium text-white disabled:opacity-50"
+                style={{ backgroundColor: visualConfig.colors.primary }}
+              >
+                Add Period
+              </button>
+            </div>
+          </div>
+
+          {/* Backlog Surcharge */}
+          <div className="p-4 rounded-lg border space-y-3" style={cardStyle}>
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium" style={{ color: visualConfig.colors.text.primary }}>
+                Backlog Surcharge
+              </span>
+              {fieldLabel('Window (days after start)', (
+                <input
+                  type="number"
+                  min="1"
+                  step="1"
+                  value={windowDays}
+                  onChange={(e) => setWindowDays(parseInt(e.target.value, 10) || DEFAULT_BACKLOG_WINDOW_DAYS)}
+                  className="w-28 px-3 py-2 rounded-lg border text-sm"
+                  style={inputStyle}
+                />
+              ))}
+            </div>
+
+            {tiers.map((tier, index) => (
+              <div key={index} className="grid grid-cols-[1fr_1fr_auto] gap-2 items-end">
+                {fieldLabel('Scheduled crew hours at least', (
+                  <input
+                    type="number"
+                    min="1"
+                    step="10"
+                    value={tier.hours}
+                    onChange={(e) => updateTier(index, 'hours', parseFloat(e.target.value) || 0)}
+                    className="w-full px-3 py-2 rounded-lg border text-sm"
+                    style={inputStyle}
+                  />
+                ))}
+                {fieldLabel('Surcharge (%)', (
+                  <input
+                    type="number"
+                    min="0"
+                    max="100"
+                    step="0.5"
+                    value={tier.percentage}
+                    onChange={(e) => updateTier(index, 'percentage', parseFloat(e.target.value) || 0)}
+                    className="w-full px-3 py-2 rounded-lg border text-sm"
+                    style={inputStyle}
+                  />
+                ))}
+                <button
+                  onClick={() => setTiers(tiers.filter((_, i) => i !== index))}
+                  className="p-2 rounded"
+                  style={{ color: visualConfig.colors.text.secondary }}
+                  title="Remove tier"
+                >
+                  <Icons.Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+
+            <div className="flex items-center justify-between">
+              <button
+                onClick={() => setTiers([...tiers, { hours: 0, percentage: 0 }])}
+                className="flex items-center gap-1 text-sm"
+                style={{ color: visualConfig.colors.primary }}
+              >
+                <Icons.Plus className="h-4 w-4" />
+                Add tier
+              </button>
+              <button
+                onClick={handleSaveBacklog}
+                disabled={isSaving}
+                className="px-3 py-2 rounded-lg text-sm font-medium text-white disabled:opacity-50"
+                style={{ backgroundColor: visualConfig.colors.primary }}
+              >
+                {isSaving ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+
+            <p className="text-xs" style={{ color: visualConfig.colors.text.secondary }}>
+              Crew hours already scheduled in the window after a job's requested start date pick the highest tier
+              reached. The surcharge is added to labor, materials and profit - never to equipment or travel.
+            </p>
+          </div>
+        </>
+      )}
+
+      {/* Success Message */}
+      {success && (
+        <div
+          className="flex items-center gap-2 px-4 py-2 rounded-lg"
+          style={{
+            backgroundColor: '#10B98120',
+            color: '#10B981',
+          }}
+        >
+          <Icons.CheckCircle2 className="h-4 w-4 flex-shrink-0" />
+          <span className="text-sm font-medium">{success}</span>
+        </div>
+      )}
+
+      {/* Error Message */}
+      {error && (
+        <div
+          className="flex items-center gap-2 px-4 py-2 rounded-lg"
+          style={{
+            backgroundColor: '#EF444420',
+            color: '#EF4444',
+          }}
+        >
+          <Icons.AlertCircle className="h-4 w-4 flex-shrink-0" />
+          <span className="text-sm font-medium">{error}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PricingCalendarSettings;
@@ -0,0 +1,233 @@
+/**
+ * Shop Location Settings Component
+ *
+ * Company shop address and travel rules. Jobs are charged for the drive
+ * from the shop to their service zip code ($/mile beyond a free radius,
+ * one round trip per job day or per job).
+ *
+ * @module ShopLocationSettings
+ */
+
+import React, { useEffect, useState } from 'react';
+import * as Icons from 'lucide-react';
+import { travelService } from '../../services/TravelService';
+import { DEFAULT_TRAVEL_RULE, type TravelRule } from '../../pricing-system/core/calculations/travel-cost';
+import { hapticFeedback } from '../../utils/mobile-gestures';
+
+interface ShopLocationSettingsProps {
+  companyId: string;
+  visualConfig: any;
+}
+
+const EMPTY_SHOP = {
+  shop_address: '',
+  shop_city: '',
+  shop_state: '',
+  shop_zip: ''
+};
+
+/**
+ * Shop Location Settings
+ * Owners set where crews leave from and how travel is charged
+ */
+export const ShopLocationSettings: React.FC<ShopLocationSettingsProps> = ({
+  companyId,
+  visualConfig
+}) => {
+  const [shop, setShop] = useState(EMPTY_SHOP);
+  const [rule, setRule] = useState<TravelRule>(DEFAULT_TRAVEL_RULE);
+  const [isLocated, setIsLocated] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState(false);
+
+  useEffect(() => {
+    const load = async () => {
+      setIsLoading(true);
+      const result = await travelService.getTravelSettings(companyId);
+      setIsLoading(false);
+
+      if (!result.success || !result.data) {
+        setError(result.error || 'Failed to load travel settings');
+        return;
+      }
+
+      const { shop: saved, rule: savedRule } = result.data;
+      setShop({
+        shop_address: saved.shop_address ?? '',
+        shop_city: saved.shop_city ?? '',
+        shop_state: saved.shop_state ?? '',
+        shop_zip: saved.shop_zip ?? ''
+      });
+      setRule(savedRule);
+      setIsLocated(saved.shop_latitude !== null && saved.shop_longitude !== null);
+    };
+
+    load();
+  }, [companyId]);
+
+  /**
+   * Save the shop address and travel rule together
+   */
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    setSuccess(false);
+    hapticFeedback.impact('medium');
+
+    const location = await travelService.updateShopLocation(companyId, shop);
+    const travelRule = location.success ? await travelService.updateTravelRule(companyId, rule) : location;
+    setIsSaving(false);
+
+    if (!location.success || !travelRule.success) {
+      setError(travelRule.error || 'Failed to save travel settings');
+      hapticFeedback.notification('error');
+      return;
+    }
+
+    setIsLocated(location.data?.shop_latitude != null);
+    setSuccess(true);
+    hapticFeedback.notification('success');
+    setTimeout(() => setSuccess(false), 3000);
+  };
+
+  const inputStyle = {
+    backgroundColor: visualConfig.colors.surface,
+    borderColor: visualConfig.colors.text.secondary + '40',
+    color: visualConfig.colors.text.primary
+  };
+
+  const numberField = (field: 'ratePerMile' | 'freeRadiusMiles' | 'minimumCharge', label: string, step: string) => (
+    <label className="text-xs space-y-1" style={{ color: visualConfig.colors.text.secondary }}>
+      <span>{label}</span>
+      <input
+        type="number"
+        min="0"
+        step={step}
+        value={rule[field]}
+        onChange={(e) => setRule({ ...rule, [field]: parseFloat(e.target.value) || 0 })}
+        className="w-full px-3 py-2 rounded-lg border text-sm"
+        style={inputStyle}
+      />
+    </label>
+  );
+
+  return (
+    <div className="space-y-3">
+      {/* Label */}
+      <label className="block text-sm font-medium" style={{ color: visualConfig.colors.text.primary }}>
+        Shop Location & Travel
+      </label>
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-sm" style={{ color: visualConfig.colors.text.secondary }}>
+          <Icons.Loader2 className="h-4 w-4 animate-spin" />
+          Loading travel settings...
+        </div>
+      ) : (
+        <div
+          className="p-4 rounded-lg border space-y-3"
+          style={{ backgroundColor: visualConfig.colors.background, borderColor: visualConfig.colors.text.secondary + '20' }}
+        >
+          {/* Shop Address */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+            <input
+              placeholder="Shop address"
+              value={shop.shop_address}
+              onChange={(e) => setShop({ ...shop, shop_address: e.target.value })}
+              className="col-span-2 px-3 py-2 rounded-lg border text-sm"
+              style={inputStyle}
+            />
+            <input
+              placeholder="City"
+              value={shop.shop_city}
+              onChange={(e) => setShop({ ...shop, shop_city: e.target.value })}
+              className="px-3 py-2 rounded-lg border text-sm"
+              style={inputStyle}
+            />
+            <div className="grid grid-cols-2 gap-2">
+              <input
+                placeholder="State"
+                maxLength={2}
+                value={shop.shop_state}
+                onChange={(e) => setShop({ ...shop, shop_state: e.target.value.toUpperCase() })}
+                className="px-3 py-2 rounded-lg border text-sm"
+                style={inputStyle}
+              />
+              <input
+                placeholder="Zip"
+                maxLength={5}
+                value={shop.shop_zip}
+                onChange={(e) => setShop({ ...shop, shop_zip: e.target.value })}
+                className="px-3 py-2 rounded-lg border text-sm"
+                style={inputStyle}
+              />
+            </div>
+          </div>
+
+          {/* Travel Rule */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+            {numberField('ratePerMile', '$ per mile', '0.05')}
+            {numberField('freeRadiusMiles', 'Free radius (miles)', '1')}
+            {numberField('minimumCharge', 'Minimum travel charge ($)', '5')}
+            <label className="flex items-end gap-2 pb-2 text-sm" style={{ color: visualConfig.colors.text.primary }}>
+              <input
+                type="checkbox"
+                checked={rule.roundTripsPerDay}
+                onChange={(e) => setRule({ ...rule, roundTripsPerDay: e.target.checked })}
+              />
+              Round trip every job day
+            </label>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <span className="text-xs" style={{ color: visualConfig.colors.text.secondary }}>
+              {shop.shop_zip && !isLocated
+                ? 'Shop zip not found in the zip code table - travel will not be charged.'
+                : 'Distance is estimated from zip code centroids. Set $ per mile to 0 to turn travel off.'}
+            </span>
+            <button
+              onClick={handleSave}
+              disabled={isSaving}
+              className="px-3 py-2 rounded-lg text-sm font-medium text-white disabled:opacity-50"
+              style={{ backgroundColor: visualConfig.colors.primary }}
+            >
+              {isSaving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Success Message */}
+      {success && (
+        <div
+          className="flex items-center gap-2 px-4 py-2 rounded-lg"
+          style={{
+            backgroundColor: '#10B98120',
+            color: '#10B981',
+          }}
+        >
+          <Icons.CheckCircle2 className="h-4 w-4 flex-shrink-0" />
+          <span className="text-sm font-medium">Travel settings saved</span>
+        </div>
+      )}
+
+      {/* Error Message */}
+      {error && (
+        <div
+          className="flex items-center gap-2 px-4 py-2 rounded-lg"
+          style={{
+            backgroundColor: '#EF444420',
+            color: '#EF4444',
+          }}
+        >
+          <Icons.AlertCircle className="h-4 w-4 flex-shrink-0" />
+          <span className="text-sm font-medium">{error}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ShopLocationSettings;
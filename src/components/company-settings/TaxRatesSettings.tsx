@@ -0,0 +1,326 @@
+/**
+ * Tax Rates Settings Component
+ *
+ * Company sales tax rate table: one row per state (state-wide default) or
+ * zip code (override), with which price components are taxable.
+ * Jobs pick their rate from service_zip, then service_state.
+ *
+ * @module TaxRatesSettings
+ */
+
+import React, { useEffect, useState } from 'react';
+import * as Icons from 'lucide-react';
+import { taxJurisdictionService } from '../../services/TaxJurisdictionService';
+import { TAX_COMPONENTS } from '../../pricing-system/utils/sales-tax';
+import { hapticFeedback } from '../../utils/mobile-gestures';
+import type { TaxComponent, TaxJurisdiction } from '../../types/tax';
+
+interface TaxRatesSettingsProps {
+  companyId: string;
+  userId?: string;
+  visualConfig: any;
+}
+
+type TaxabilityFlags = Record<`${TaxComponent}_taxable`, boolean>;
+
+const DEFAULT_TAXABILITY: TaxabilityFlags = {
+  labor_taxable: false,
+  materials_taxable: true,
+  excavation_taxable: false,
+  equipment_taxable: true,
+  obstacles_taxable: false,
+  other_taxable: true
+};
+
+const EMPTY_FORM = {
+  name: '',
+  state_code: '',
+  zip_code: '',
+  ratePercent: '',
+  ...DEFAULT_TAXABILITY
+};
+
+/**
+ * Tax Rates Settings
+ * Owners maintain the local rate table used on estimates, quotes and invoices
+ */
+export const TaxRatesSettings: React.FC<TaxRatesSettingsProps> = ({
+  companyId,
+  userId,
+  visualConfig
+}) => {
+  const [jurisdictions, setJurisdictions] = useState<TaxJurisdiction[]>([]);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [showForm, setShowForm] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadJurisdictions = async () => {
+    setIsLoading(true);
+    const result = await taxJurisdictionService.getJurisdictions(companyId);
+    setIsLoading(false);
+
+    if (!result.success) {
+      setError(result.error || 'Failed to load tax rates');
+      return;
+    }
+    setJurisdictions(result.data || []);
+  };
+
+  useEffect(() => {
+    loadJurisdictions();
+  }, [companyId]);
+
+  /**
+   * Add a rate to the table
+   */
+  const handleCreate = async () => {
+    setIsSaving(true);
+    setError(null);
+
+    const { ratePercent, ...fields } = form;
+    const result = await taxJurisdictionService.createJurisdiction({
+      ...fields,
+      company_id: companyId,
+      zip_code: form.zip_code || null,
+      rate: (parseFloat(ratePercent) || 0) / 100,
+      created_by: userId
+    });
+    setIsSaving(false);
+
+    if (!result.success) {
+      setError(result.error || 'Failed to add tax rate');
+      hapticFeedback.notification('error');
+      return;
+    }
+
+    hapticFeedback.notification('success');
+    setForm(EMPTY_FORM);
+    setShowForm(false);
+    await loadJurisdictions();
+  };
+
+  /**
+   * Toggle whether a component is taxed in a jurisdiction
+   */
+  const handleToggleTaxability = async (jurisdiction: TaxJurisdiction, component: TaxComponent) => {
+    const field = `${component}_taxable` as const;
+    const result = await taxJurisdictionService.updateJurisdiction(jurisdiction.id, companyId, {
+      [field]: !jurisdiction[field]
+    });
+
+    if (!result.success || !result.data) {
+      setError(result.error || 'Failed to update tax rate');
+      return;
+    }
+    setJurisdictions(prev => prev.map(j => (j.id === jurisdiction.id ? result.data! : j)));
+  };
+
+  /**
+   * Retire a rate - existing jobs keep their calculated tax
+   */
+  const handleRemove = async (jurisdiction: TaxJurisdiction) => {
+    if (!window.confirm(`Remove the ${jurisdiction.name} tax rate? Jobs in this area will be recalculated without it the next time they change.`)) {
+      return;
+    }
+
+    const result = await taxJurisdictionService.deactivateJurisdiction(jurisdiction.id, companyId);
+    if (!result.success) {
+      setError(result.error || 'Failed to remove tax rate');
+      return;
+    }
+    setJurisdictions(prev => prev.filter(j => j.id !== jurisdiction.id));
+  };
+
+  const inputStyle = {
+    backgroundColor: visualConfig.colors.surface,
+    borderColor: visualConfig.colors.text.secondary + '40',
+    color: visualConfig.colors.text.primary
+  };
+
+  return (
+    <div className="space-y-3">
+      {/* Label */}
+      <div className="flex items-center justify-between">
+        <label className="block text-sm font-medium" style={{ color: visualConfig.colors.text.primary }}>
+          Sales Tax Rates
+        </label>
+        <button
+          onClick={() => setShowForm(!showForm)}
+          className="flex items-center gap-1 text-sm font-medium"
+          style={{ color: visualConfig.colors.primary }}
+        >
+          <Icons.Plus className="h-4 w-4" />
+          Add Rate
+        </button>
+      </div>
+
+      {/* Helper Text */}
+      <p className="text-xs" style={{ color: visualConfig.colors.text.secondary }}>
+        Jobs use the rate for their service zip code, or the state-wide rate when no zip matches. Checked components are taxed.
+      </p>
+
+      {/* Add Rate Form */}
+      {showForm && (
+        <div
+          className="p-4 rounded-lg border space-y-3"
+          style={{ backgroundColor: visualConfig.colors.background, borderColor: visualConfig.colors.text.secondary + '20' }}
+        >
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+            <input
+              placeholder="Name (e.g., Travis County)"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              className="col-span-2 px-3 py-2 rounded-lg border text-sm"
+              style={inputStyle}
+            />
+            <input
+              placeholder="State (TX)"
+              maxLength={2}
+              value={form.state_code}
+              onChange={(e) => setForm({ ...form, state_code: e.target.value.toUpperCase() })}
+              className="px-3 py-2 rounded-lg border text-sm"
+              style={inputStyle}
+            />
+            <input
+              placeholder="Zip (blank = state-wide)"
+              maxLength={5}
+              value={form.zip_code}
+              onChange={(e) => setForm({ ...form, zip_code: e.target.value })}
+              className="px-3 py-2 rounded-lg border text-sm"
+              style={inputStyle}
+            />
+            <input
+              type="number"
+              step="0.001"
+              min="0"
+              max="25"
+              placeholder="Rate %"
+              value={form.ratePercent}
+              onChange={(e) => setForm({ ...form, ratePercent: e.target.value })}
+              className="px-3 py-2 rounded-lg border text-sm"
+              style={inputStyle}
+            />
+          </div>
+
+          <div className="flex flex-wrap gap-3">
+            {TAX_COMPONENTS.map(({ component, label }) => (
+              <label key={component} className="flex items-center gap-1 text-sm" style={{ color: visualConfig.colors.text.primary }}>
+                <input
+                  type="checkbox"
+                  checked={form[`${component}_taxable`]}
+                  onChange={(e) => setForm({ ...form, [`${component}_taxable`]: e.target.checked })}
+                />
+                {label}
+              </label>
+            ))}
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => { setShowForm(false); setForm(EMPTY_FORM); }}
+              className="px-3 py-2 rounded-lg text-sm"
+              style={{ color: visualConfig.colors.text.secondary }}
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleCreate}
+              disabled={isSaving || !form.name.trim() || !form.state_code || !form.ratePercent}
+              className="px-3 py-2 rounded-lg text-sm font-medium text-white disabled:opacity-50"
+              style={{ backgroundColor: visualConfig.colors.primary }}
+            >
+              {isSaving ? 'Saving...' : 'Save Rate'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Rate Table */}
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-sm" style={{ color: visualConfig.colors.text.secondary }}>
+          <Icons.Loader2 className="h-4 w-4 animate-spin" />
+          Loading tax rates...
+        </div>
+      ) : jurisdictions.length === 0 ? (
+        <div
+          className="px-4 py-3 rounded-lg border text-sm"
+          style={{
+            backgroundColor: visualConfig.colors.background,
+            borderColor: visualConfig.colors.text.secondary + '20',
+            color: visualConfig.colors.text.secondary
+          }}
+        >
+          No tax rates yet - estimates and quotes are shown without sales tax.
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr style={{ color: visualConfig.colors.text.secondary }}>
+                <th className="text-left font-medium py-2">Jurisdiction</th>
+                <th className="text-left font-medium py-2">Area</th>
+                <th className="text-right font-medium py-2">Rate</th>
+                {TAX_COMPONENTS.map(({ component, label }) => (
+                  <th key={component} className="text-center font-medium py-2 px-1">{label}</th>
+                ))}
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {jurisdictions.map(jurisdiction => (
+                <tr
+                  key={jurisdiction.id}
+                  className="border-t"
+                  style={{ color: visualConfig.colors.text.primary, borderColor: visualConfig.colors.text.secondary + '20' }}
+                >
+                  <td className="py-2">{jurisdiction.name}</td>
+                  <td className="py-2">
+                    {jurisdiction.state_code}{jurisdiction.zip_code ? ` ${jurisdiction.zip_code}` : ' (state-wide)'}
+                  </td>
+                  <td className="py-2 text-right">{(Number(jurisdiction.rate) * 100).toFixed(3)}%</td>
+                  {TAX_COMPONENTS.map(({ component }) => (
+                    <td key={component} className="py-2 text-center">
+                      <input
+                        type="checkbox"
+                        checked={jurisdiction[`${component}_taxable`]}
+                        onChange={() => handleToggleTaxability(jurisdiction, component)}
+                      />
+                    </td>
+                  ))}
+                  <td className="py-2 text-right">
+                    <button
+                      onClick={() => handleRemove(jurisdiction)}
+                      className="p-1 rounded hover:opacity-70"
+                      style={{ color: visualConfig.colors.text.secondary }}
+                      title="Remove rate"
+                    >
+                      <Icons.Trash2 className="h-4 w-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Error Message */}
+      {error && (
+        <div
+          className="flex items-center gap-2 px-4 py-2 rounded-lg"
+          style={{
+            backgroundColor: '#EF444420',
+            color: '#EF4444',
+          }}
+        >
+          <Icons.AlertCircle className="h-4 w-4 flex-shrink-0" />
+          <span className="text-sm font-medium">{error}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TaxRatesSettings;
@@ -0,0 +1,148 @@
+/**
+ * Unit System Selector Component
+ *
+ * Dropdown selector for the company unit system (imperial / metric)
+ * Quantities are stored imperial - this only changes how they are
+ * entered and displayed, including on quotes
+ *
+ * @module UnitSystemSelector
+ */
+
+import React, { useState } from 'react';
+import * as Icons from 'lucide-react';
+import { unitSystemService } from '../../services/UnitSystemService';
+import { UNIT_SYSTEMS, type UnitSystem } from '../../pricing-system/utils/unit-system';
+import { hapticFeedback } from '../../utils/mobile-gestures';
+
+interface UnitSystemSelectorProps {
+  currentUnitSystem: UnitSystem;
+  companyId: string;
+  visualConfig: any;
+  onUnitSystemChange: (unitSystem: UnitSystem) => void;
+}
+
+/**
+ * Unit System Selector Component
+ * Allows owners to set company-wide measurement units
+ */
+export const UnitSystemSelector: React.FC<UnitSystemSelectorProps> = ({
+  currentUnitSystem,
+  companyId,
+  visualConfig,
+  onUnitSystemChange
+}) => {
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState(false);
+
+  /**
+   * Handle unit system change
+   */
+  const handleUnitSystemChange = async (newUnitSystem: UnitSystem) => {
+    if (newUnitSystem === currentUnitSystem) return;
+
+    setIsUpdating(true);
+    setError(null);
+    setSuccess(false);
+    hapticFeedback.impact('medium');
+
+    const result = await unitSystemService.updateUnitSystem(companyId, newUnitSystem);
+
+    if (result.success) {
+      setSuccess(true);
+      hapticFeedback.notification('success');
+      onUnitSystemChange(newUnitSystem);
+
+      // Clear success message after 3 seconds
+      setTimeout(() => setSuccess(false), 3000);
+    } else {
+      setError(result.error || 'Failed to update units');
+      hapticFeedback.notification('error');
+    }
+
+    setIsUpdating(false);
+  };
+
+  return (
+    <div className="space-y-3">
+      {/* Label */}
+      <label
+        className="block text-sm font-medium"
+        style={{ color: visualConfig.colors.text.primary }}
+      >
+        Measurement Units
+      </label>
+
+      {/* Selector */}
+      <div className="relative">
+        <select
+          value={currentUnitSystem}
+          onChange={(e) => handleUnitSystemChange(e.target.value as UnitSystem)}
+          disabled={isUpdating}
+          className="w-full px-4 py-3 pr-10 rounded-lg border transition-all duration-200 appearance-none cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+          style={{
+            backgroundColor: visualConfig.colors.surface,
+            borderColor: visualConfig.colors.text.secondary + '40',
+            color: visualConfig.colors.text.primary,
+          }}
+        >
+          {UNIT_SYSTEMS.map((system) => (
+            <option key={system.value} value={system.value}>
+              {system.label}
+            </option>
+          ))}
+        </select>
+
+        {/* Dropdown Icon */}
+        <div className="absolute right-3 top-1/2 -translate-y-1/2 pointer-events-none">
+          {isUpdating ? (
+            <Icons.Loader2
+              className="h-5 w-5 animate-spin"
+              style={{ color: visualConfig.colors.text.secondary }}
+            />
+          ) : (
+            <Icons.ChevronDown
+              className="h-5 w-5"
+              style={{ color: visualConfig.colors.text.secondary }}
+            />
+          )}
+        </div>
+      </div>
+
+      {/* Helper Text */}
+      <p className="text-xs" style={{ color: visualConfig.colors.text.secondary }}>
+        Used for project sizes, material quantities and depths in the calculator, chat and quotes. Prices and saved quotes are not changed.
+      </p>
+
+      {/* Success Message */}
+      {success && (
+        <div
+          className="flex items-center gap-2 px-4 py-2 rounded-lg animate-in fade-in slide-in-from-top-2 duration-200"
+          style={{
+            backgroundColor: '#10B98120',
+            color: '#10B981',
+          }}
+        >
+          <Icons.CheckCircle2 className="h-4 w-4 flex-shrink-0" />
+          <span className="text-sm font-medium">Units updated successfully!</span>
+        </div>
+      )}
+
+      {/* Error Message */}
+      {error && (
+        <div
+          className="flex items-center gap-2 px-4 py-2 rounded-lg"
+          style={{
+            backgroundColor: '#EF444420',
+            color: '#EF4444',
+          }}
+        >
+          <Icons.AlertCircle className="h-4 w-4 flex-shrink-0" />
+          <span className="text-sm font-medium">{error}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UnitSystemSelector;
@@ -23,7 +23,9 @@ import React from 'react';
 import * as Icons from 'lucide-react';
 import { useTheme } from '../../context/ThemeContext';
 import { getSmartVisualThemeConfig } from '../../config/industry';
+import { useAuth } from '../../context/AuthContext';
 import { hapticFeedback } from '../../utils/mobile-gestures';
+import { OpenQuotesPanel } from './OpenQuotesPanel';
 
 interface JobsTabProps {
   isOpen: boolean;
@@ -37,6 +39,7 @@ interface JobsTabProps {
 export const JobsTab: React.FC<JobsTabProps> = ({ isOpen, onClose }) => {
   const { theme } = useTheme();
   const visualConfig = getSmartVisualThemeConfig(theme);
+  const { user } = useAuth();
 
   if (!isOpen) return null;
 
@@ -100,6 +103,8 @@ export const JobsTab: React.FC<JobsTabProps> = ({ isOpen, onClose }) => {
 
         {/* Content */}
         <div className="p-8 overflow-y-auto" style={{ maxHeight: 'calc(90vh - 88px)' }}>
+          {user?.company_id && <OpenQuotesPanel companyId={user.company_id} userId={user.id} />}
+
           <div className="text-center max-w-2xl mx-auto">
             {/* Icon */}
             <div
@@ -0,0 +1,289 @@
+/**
+ * Open Quotes Panel
+ *
+ * Jobs still in the quote stage with their service lines. Each line can be
+ * re-priced against current pricing before the quote goes out; the quote
+ * itself prints, downloads as a PDF and is marked sent from here. Sales
+ * tax shows per component under the lines.
+ *
+ * @module OpenQuotesPanel
+ */
+
+import React, { useEffect, useState } from 'react';
+import * as Icons from 'lucide-react';
+import { useTheme } from '../../context/ThemeContext';
+import { getSmartVisualThemeConfig } from '../../config/industry';
+import { jobService } from '../../services/JobService';
+import { quoteDocumentService } from '../../services/QuoteDocumentService';
+import { RepriceQuoteModal } from './RepriceQuoteModal';
+import { getJobTotalWithTax } from '../../types/crm';
+import type { JobListItem, JobWithDetails } from '../../types/crm';
+
+interface OpenQuotesPanelProps {
+  companyId: string;
+  userId: string;
+}
+
+const formatCurrency = (value: number) =>
+  value.toLocaleString('en-US', { style: 'currency', currency: 'USD' });
+
+export const OpenQuotesPanel: React.FC<OpenQuotesPanelProps> = ({ companyId, userId }) => {
+  const { theme } = useTheme();
+  const visualConfig = getSmartVisualThemeConfig(theme);
+  const borderColor = visualConfig.colors.text.secondary + '20';
+
+  const [quotes, setQuotes] = useState<JobListItem[]>([]);
+  const [expandedJob, setExpandedJob] = useState<JobWithDetails | null>(null);
+  const [repriceServiceId, setRepriceServiceId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadQuotes = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    const result = await jobService.getJobs(companyId, {
+      status: ['quote'],
+      sort_by: 'created_at',
+      sort_order: 'desc'
+    });
+    setQuotes(result.items);
+    setIsLoading(false);
+  };
+
+  const loadJob = async (jobId: string) => {
+    setError(null);
+    const result = await jobService.getJob(jobId, companyId);
+    if (result.success && result.data) {
+      setExpandedJob(result.data);
+    } else {
+      setError(result.error || 'Failed to load quote');
+    }
+  };
+
+  useEffect(() => {
+    if (companyId) {
+      setExpandedJob(null);
+      loadQuotes();
+    }
+  }, [companyId]);
+
+  const handleToggle = (jobId: string) => {
+    if (expandedJob?.id === jobId) {
+      setExpandedJob(null);
+    } else {
+      loadJob(jobId);
+    }
+  };
+
+  const handleRepriced = async () => {
+    if (expandedJob) {
+      await loadJob(expandedJob.id);
+    }
+    await loadQuotes();
+  };
+
+  const handlePrint = async (jobId: string) => {
+    // Open synchronously so the popup isn't blocked
+    const printWindow = window.open('', '_blank');
+    const result = await quoteDocumentService.getQuoteHtml(jobId, companyId);
+
+    if (!result.success || !result.data || !printWindow) {
+      printWindow?.close();
+      setError(result.error || 'Allow pop-ups to print quotes');
+      return;
+    }
+
+    printWindow.document.write(result.data);
+    printWindow.document.close();
+    printWindow.focus();
+    printWindow.print();
+  };
+
+  const handleDownload = async (jobId: string) => {
+    setIsWorking(true);
+    setError(null);
+
+    const result = await quoteDocumentService.getQuotePdf(jobId, companyId);
+    if (result.success && result.data) {
+      const url = URL.createObjectURL(new Blob([result.data.bytes], { type: 'application/pdf' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = result.data.fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+    } else {
+      setError(result.error || 'Failed to create quote PDF');
+    }
+
+    setIsWorking(false);
+  };
+
+  const handleMarkSent = async (jobId: string) => {
+    setIsWorking(true);
+    setError(null);
+
+    // Keep the valid-until date the customer's copy shows
+    const quote = await quoteDocumentService.getQuoteDocument(jobId, companyId);
+    const result = quote.success && quote.data
+      ? await quoteDocumentService.markQuoteSent(jobId, companyId, quote.data, userId)
+      : quote;
+    if (result.success) {
+      await loadJob(jobId);
+    } else {
+      setError(result.error || 'Failed to mark quote sent');
+    }
+
+    setIsWorking(false);
+  };
+
+  const actionStyle = { borderColor, color: visualConfig.colors.text.secondary };
+
+  return (
+    <div className="mb-8">
+      <h3 className="text-lg font-semibold mb-3" style={{ color: visualConfig.colors.text.primary }}>
+        Open Quotes
+      </h3>
+
+      {error && (
+        <div className="p-3 mb-3 rounded-lg text-sm bg-red-50 text-red-700 flex items-center">
+          <Icons.AlertTriangle className="h-4 w-4 mr-2" />
+          {error}
+        </div>
+      )}
+
+      {isLoading ? (
+        <p className="text-sm" style={{ color: visualConfig.colors.text.secondary }}>
+          Loading quotes...
+        </p>
+      ) : quotes.length === 0 ? (
+        <p className="text-sm" style={{ color: visualConfig.colors.text.secondary }}>
+          No open quotes.
+        </p>
+      ) : (
+        <div className="rounded-lg border" style={{ borderColor }}>
+          {quotes.map(quote => (
+            <div key={quote.id} className="border-b last:border-b-0" style={{ borderColor }}>
+              <button
+                onClick={() => handleToggle(quote.id)}
+                className="w-full flex items-center justify-between gap-4 px-4 py-3 text-left"
+                style={{ color: visualConfig.colors.text.primary }}
+              >
+                <div className="flex items-center gap-2 min-w-0">
+                  {expandedJob?.id === quote.id
+                    ? <Icons.ChevronDown className="h-4 w-4 flex-shrink-0" />
+                    : <Icons.ChevronRight className="h-4 w-4 flex-shrink-0" />}
+                  <span className="font-medium">{quote.job_number}</span>
+                  <span className="truncate" style={{ color: visualConfig.colors.text.secondary }}>
+                    {quote.title} - {quote.customer_name}
+                  </span>
+                </div>
+                <span className="font-medium">{formatCurrency(quote.estimated_total ?? 0)}</span>
+              </button>
+
+              {expandedJob?.id === quote.id && (
+                <div className="flex flex-wrap items-center gap-2 pl-10 pr-4 pb-2">
+                  <button
+                    onClick={() => handlePrint(quote.id)}
+                    disabled={isWorking}
+                    className="inline-flex items-center gap-1 px-3 h-8 rounded-lg border text-xs disabled:opacity-50"
+                    style={actionStyle}
+                  >
+                    <Icons.Printer className="h-3 w-3" />
+                    Print
+                  </button>
+                  <button
+                    onClick={() => handleDownload(quote.id)}
+                    disabled={isWorking}
+                    className="inline-flex items-center gap-1 px-3 h-8 rounded-lg border text-xs disabled:opacity-50"
+                    style={actionStyle}
+                  >
+                    <Icons.Download className="h-3 w-3" />
+                    PDF
+                  </button>
+                  <button
+                    onClick={() => handleMarkSent(quote.id)}
+                    disabled={isWorking}
+                    className="inline-flex items-center gap-1 px-3 h-8 rounded-lg text-xs font-medium text-white disabled:opacity-50"
+                    style={{ backgroundColor: visualConfig.colors.primary }}
+                  >
+                    <Icons.Send className="h-3 w-3" />
+                    Mark Sent
+                  </button>
+                  {expandedJob.quote_sent_at && (
+                    <span className="text-xs" style={{ color: visualConfig.colors.text.secondary }}>
+                      Sent {new Date(expandedJob.quote_sent_at).toLocaleDateString()}
+                      {expandedJob.quote_valid_until &&
+                        ` - valid until ${new Date(`${expandedJob.quote_valid_until}T12:00:00`).toLocaleDateString()}`}
+                    </span>
+                  )}
+                </div>
+              )}
+
+              {expandedJob?.id === quote.id && (
+                <table className="w-full text-sm mb-3">
+                  <tbody>
+                    {expandedJob.services.map(line => (
+                      <tr
+                        key={line.id}
+                        style={{
+                          color: visualConfig.colors.text.primary,
+                          opacity: line.is_selected_option === false ? 0.5 : 1
+                        }}
+                      >
+                        <td className="pl-10 pr-2 py-1">
+                          {line.service_name}
+                          {line.option_label && (
+                            <span style={{ color: visualConfig.colors.text.secondary }}> - {line.option_label}</span>
+                          )}
+                        </td>
+                        <td className="px-2 py-1 text-right">{formatCurrency(Number(line.total_price))}</td>
+                        <td className="pl-2 pr-4 py-1 text-right">
+                          <button
+                            onClick={() => setRepriceServiceId(line.id)}
+                            className="inline-flex items-center gap-1 px-3 h-8 rounded-lg border text-xs"
+                            style={actionStyle}
+                          >
+                            <Icons.RefreshCw className="h-3 w-3" />
+                            Re-price
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                    {(expandedJob.tax_lines ?? []).filter(taxLine => taxLine.tax > 0).map(taxLine => (
+                      <tr key={`tax-${taxLine.component}`} style={{ color: visualConfig.colors.text.secondary }}>
+                        <td className="pl-10 pr-2 py-1">
+                          Sales tax - {taxLine.label} ({(taxLine.rate * 100).toFixed(2)}%)
+                        </td>
+                        <td className="px-2 py-1 text-right">{formatCurrency(taxLine.tax)}</td>
+                        <td />
+                      </tr>
+                    ))}
+                    {Number(expandedJob.tax_total) > 0 && (
+                      <tr className="font-medium" style={{ color: visualConfig.colors.text.primary }}>
+                        <td className="pl-10 pr-2 py-1">Total with tax</td>
+                        <td className="px-2 py-1 text-right">{formatCurrency(getJobTotalWithTax(expandedJob))}</td>
+                        <td />
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {repriceServiceId && (
+        <RepriceQuoteModal
+          isOpen={true}
+          serviceId={repriceServiceId}
+          companyId={companyId}
+          onClose={() => setRepriceServiceId(null)}
+          onAccepted={handleRepriced}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,193 @@
+/**
+ * Re-price Quote Modal
+ *
+ * Runs a quote line through the current pricing engine and shows the
+ * line-by-line change (labor, materials, excavation, profit) against the
+ * frozen calculation. The estimator accepts or discards the new total.
+ *
+ * @module RepriceQuoteModal
+ */
+
+import React, { useEffect, useState } from 'react';
+import * as Icons from 'lucide-react';
+import { useTheme } from '../../context/ThemeContext';
+import { getSmartVisualThemeConfig } from '../../config/industry';
+import { jobService } from '../../services/JobService';
+import type { JobServiceRepricePreview } from '../../types/crm';
+
+interface RepriceQuoteModalProps {
+  isOpen: boolean;
+  serviceId: string;
+  companyId: string;
+  onClose: () => void;
+  onAccepted?: () => void;
+}
+
+const formatCurrency = (value: number) =>
+  value.toLocaleString('en-US', { style: 'currency', currency: 'USD' });
+
+const formatDelta = (value: number) =>
+  value === 0 ? '—' : `${value > 0 ? '+' : '−'}${formatCurrency(Math.abs(value))}`;
+
+export const RepriceQuoteModal: React.FC<RepriceQuoteModalProps> = ({
+  isOpen,
+  serviceId,
+  companyId,
+  onClose,
+  onAccepted
+}) => {
+  const { theme } = useTheme();
+  const visualConfig = getSmartVisualThemeConfig(theme);
+
+  const [preview, setPreview] = useState<JobServiceRepricePreview | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPreview = async () => {
+    setIsLoading(true);
+    setError(null);
+    const result = await jobService.previewReprice(serviceId, companyId);
+    setIsLoading(false);
+
+    if (!result.success || !result.data) {
+      setError(result.error || 'Failed to re-price');
+      return;
+    }
+    setPreview(result.data);
+  };
+
+  useEffect(() => {
+    if (isOpen) {
+      loadPreview();
+    }
+  }, [isOpen, serviceId, companyId]);
+
+  const handleAccept = async () => {
+    if (!preview?.proposed.snapshotHash) return;
+
+    setIsSaving(true);
+    const result = await jobService.acceptReprice(serviceId, companyId, preview.proposed.snapshotHash);
+    setIsSaving(false);
+
+    if (!result.success) {
+      setError(result.error || 'Failed to save re-price');
+      // Pricing moved again - show the latest deltas
+      await loadPreview();
+      return;
+    }
+
+    onAccepted?.();
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4"
+      style={{ backgroundColor: 'rgba(0, 0, 0, 0.5)' }}
+      onClick={onClose}
+    >
+      <div
+        className="w-full max-w-lg rounded-xl shadow-2xl overflow-hidden"
+        style={{ backgroundColor: visualConfig.colors.surface }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div
+          className="flex items-center justify-between p-4 border-b"
+          style={{ borderColor: visualConfig.colors.text.secondary + '20' }}
+        >
+          <div className="flex items-center gap-2">
+            <Icons.RefreshCw className="h-5 w-5" style={{ color: visualConfig.colors.primary }} />
+            <h2 className="text-lg font-semibold" style={{ color: visualConfig.colors.text.primary }}>
+              Re-price {preview?.jobService.service_name ?? 'Service'}
+            </h2>
+          </div>
+          <button onClick={onClose} className="p-1 rounded-lg" style={{ color: visualConfig.colors.text.secondary }}>
+            <Icons.X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {/* Body */}
+        <div className="p-4 space-y-4">
+          {isLoading && (
+            <div className="text-sm" style={{ color: visualConfig.colors.text.secondary }}>
+              Calculating with current pricing...
+            </div>
+          )}
+
+          {error && (
+            <div className="p-3 rounded-lg text-sm bg-red-50 text-red-700 flex items-center">
+              <Icons.AlertTriangle className="h-4 w-4 mr-2" />
+              {error}
+            </div>
+          )}
+
+          {preview && !isLoading && (
+            <>
+              <p className="text-xs" style={{ color: visualConfig.colors.text.secondary }}>
+                {preview.snapshotChanged
+                  ? `Priced from config revision ${preview.proposed.configRevisionNumber ?? '—'} with current prices, rates and adjustments.`
+                  : 'Config revision, inputs and the computed price are unchanged since this line was priced.'}
+              </p>
+
+              <table className="w-full text-sm">
+                <thead>
+                  <tr style={{ color: visualConfig.colors.text.secondary }}>
+                    <th className="text-left font-medium py-1"></th>
+                    <th className="text-right font-medium py-1">Quoted</th>
+                    <th className="text-right font-medium py-1">Current</th>
+                    <th className="text-right font-medium py-1">Change</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.deltas.map(line => (
+                    <tr
+                      key={line.key}
+                      className={line.key === 'total' ? 'border-t font-semibold' : ''}
+                      style={{ color: visualConfig.colors.text.primary, borderColor: visualConfig.colors.text.secondary + '20' }}
+                    >
+                      <td className="py-1">{line.label}</td>
+                      <td className="py-1 text-right">{formatCurrency(line.before)}</td>
+                      <td className="py-1 text-right">{formatCurrency(line.after)}</td>
+                      <td
+                        className="py-1 text-right"
+                        style={{ color: line.delta > 0 ? '#dc2626' : line.delta < 0 ? '#16a34a' : visualConfig.colors.text.secondary }}
+                      >
+                        {formatDelta(line.delta)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div
+          className="flex justify-end gap-2 p-4 border-t"
+          style={{ borderColor: visualConfig.colors.text.secondary + '20' }}
+        >
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg text-sm"
+            style={{ color: visualConfig.colors.text.secondary }}
+          >
+            Keep Quoted Price
+          </button>
+          <button
+            onClick={handleAccept}
+            disabled={!preview || isLoading || isSaving || !preview.snapshotChanged}
+            className="px-4 py-2 rounded-lg text-sm font-medium text-white disabled:opacity-50"
+            style={{ backgroundColor: visualConfig.colors.primary }}
+          >
+            {isSaving ? 'Saving...' : `Accept ${preview ? formatCurrency(preview.proposedTotal) : ''}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
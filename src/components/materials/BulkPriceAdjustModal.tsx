@@ -0,0 +1,518 @@
+/**
+ * Bulk Price Adjustment Modal
+ *
+ * Raises or lowers material prices and labor rates by a percent or a
+ * fixed amount, narrowed by service, category, supplier or grade. The
+ * changed values and the estimated effect on open quotes are previewed
+ * before anything is written; applying records one change set.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import * as Icons from 'lucide-react';
+import { useTheme } from '../../context/ThemeContext';
+import { getSmartVisualThemeConfig } from '../../config/industry';
+import { priceAdjustmentService } from '../../services/PriceAdjustmentService';
+import { normalizeServiceName } from '../../pricing-system/utils/service-name-formatter';
+import type {
+  PriceAdjustment,
+  PriceAdjustmentPreview,
+  PriceAdjustmentScope,
+  PriceAdjustmentTargets,
+  PriceChangeSet
+} from '../../types/price-adjustments';
+
+interface BulkPriceAdjustModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  companyId: string;
+  onApplied?: () => void;
+}
+
+const SCOPES: Array<{ value: PriceAdjustmentScope; label: string }> = [
+  { value: 'materials', label: 'Material prices' },
+  { value: 'labor_rates', label: 'Labor rates' },
+  { value: 'both', label: 'Materials and labor rates' }
+];
+
+const EMPTY_ADJUSTMENT: PriceAdjustment = {
+  mode: 'percent',
+  amount: 0,
+  scope: 'materials',
+  filters: {}
+};
+
+const formatCurrency = (value: number) =>
+  Number(value).toLocaleString('en-US', { style: 'currency', currency: 'USD' });
+
+const formatAmount = (set: Pick<PriceChangeSet, 'adjustment_mode' | 'adjustment_amount'>) => {
+  const amount = Number(set.adjustment_amount);
+  const sign = amount > 0 ? '+' : '';
+  return set.adjustment_mode === 'percent' ? `${sign}${amount}%` : `${sign}${formatCurrency(amount)}`;
+};
+
+const unique = (values: Array<string | null>) =>
+  [...new Set(values.map(value => value?.trim()).filter((value): value is string => !!value))].sort();
+
+export const BulkPriceAdjustModal: React.FC<BulkPriceAdjustModalProps> = ({
+  isOpen,
+  onClose,
+  companyId,
+  onApplied,
+}) => {
+  const { theme } = useTheme();
+  const visualConfig = getSmartVisualThemeConfig(theme);
+  const borderColor = theme === 'light' ? '#e5e7eb' : '#374151';
+
+  const [targets, setTargets] = useState<PriceAdjustmentTargets | null>(null);
+  const [changeSets, setChangeSets] = useState<PriceChangeSet[]>([]);
+  const [adjustment, setAdjustment] = useState<PriceAdjustment>(EMPTY_ADJUSTMENT);
+  const [description, setDescription] = useState('');
+  const [preview, setPreview] = useState<PriceAdjustmentPreview | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen || !companyId) return;
+
+    setIsLoading(true);
+    setError(null);
+    setNotice(null);
+    setPreview(null);
+    setAdjustment(EMPTY_ADJUSTMENT);
+    setDescription('');
+
+    Promise.all([
+      priceAdjustmentService.getTargets(companyId),
+      priceAdjustmentService.getChangeSets(companyId)
+    ]).then(([targetResult, setResult]) => {
+      if (targetResult.success) {
+        setTargets(targetResult.data || null);
+      } else {
+        setError(targetResult.error || 'Failed to load prices');
+      }
+      if (setResult.success) setChangeSets(setResult.data || []);
+      setIsLoading(false);
+    });
+  }, [isOpen, companyId]);
+
+  const serviceNames = useMemo(
+    () => new Map((targets?.laborRates || []).map(rate => [rate.id, normalizeServiceName(rate.service_name)])),
+    [targets]
+  );
+
+  // Filter options follow the selected service
+  const options = useMemo(() => {
+    const serviceId = adjustment.filters.serviceConfigId;
+    const materials = (targets?.materials || []).filter(m => !serviceId || m.service_config_id === serviceId);
+    const categories = new Map<string, string>();
+    for (const category of targets?.categories || []) {
+      if (!serviceId || category.service_config_id === serviceId) {
+        categories.set(category.category_key, category.category_label);
+      }
+    }
+    return {
+      categories: [...categories.entries()],
+      suppliers: unique(materials.map(m => m.supplier_name)),
+      grades: unique(materials.map(m => m.material_grade))
+    };
+  }, [targets, adjustment.filters.serviceConfigId]);
+
+  const update = (changes: Partial<PriceAdjustment>) => {
+    setAdjustment(current => ({ ...current, ...changes }));
+    setPreview(null);
+    setNotice(null);
+  };
+
+  const updateFilter = (key: keyof PriceAdjustment['filters'], value: string) => {
+    update({ filters: { ...adjustment.filters, [key]: value || null } });
+  };
+
+  const handlePreview = async () => {
+    setIsWorking(true);
+    setError(null);
+
+    const result = await priceAdjustmentService.previewAdjustment(companyId, adjustment);
+    if (result.success && result.data) {
+      setPreview(result.data);
+    } else {
+      setError(result.error || 'Failed to preview adjustment');
+    }
+
+    setIsWorking(false);
+  };
+
+  const handleApply = async () => {
+    if (!preview) return;
+
+    setIsWorking(true);
+    setError(null);
+
+    const result = await priceAdjustmentService.applyAdjustment(companyId, adjustment, preview.items, description);
+    if (result.success && result.data) {
+      const applied = result.data;
+      setChangeSets(current => [applied, ...current]);
+      setNotice(`Changed ${preview.items.length} ${preview.items.length === 1 ? 'price' : 'prices'}`);
+      setPreview(null);
+      setDescription('');
+
+      const refreshed = await priceAdjustmentService.getTargets(companyId);
+      if (refreshed.success) setTargets(refreshed.data || null);
+      onApplied?.();
+    } else {
+      setError(result.error || 'Failed to apply adjustment');
+    }
+
+    setIsWorking(false);
+  };
+
+  if (!isOpen) return null;
+
+  const laborRatesOnly = adjustment.scope === 'labor_rates';
+  const selectClass = 'w-full px-3 h-10 border rounded-lg text-sm disabled:opacity-50';
+  const inputStyle = {
+    backgroundColor: visualConfig.colors.surface,
+    borderColor,
+    color: visualConfig.colors.text.primary
+  };
+  const labelStyle = { color: visualConfig.colors.text.secondary };
+
+  return (
+    <>
+      {/* Background Overlay */}
+      <div
+        className="fixed inset-0 bg-black bg-opacity-50 z-[60] animate-overlay-fade-in"
+        onClick={onClose}
+      />
+
+      {/* Modal Container */}
+      <div
+        className="fixed inset-0 z-[60] flex items-center justify-center p-4"
+        onClick={onClose}
+      >
+        <div
+          className="w-full max-w-5xl h-[85vh] rounded-lg shadow-xl animate-scale-in flex flex-col"
+          style={{ backgroundColor: visualConfig.colors.surface }}
+          onClick={(e) => e.stopPropagation()}
+        >
+          {/* Modal Header */}
+          <div className="px-6 py-4 border-b flex-shrink-0 flex items-start justify-between" style={{ borderColor }}>
+            <div>
+              <h2 className="text-xl font-semibold" style={{ color: visualConfig.colors.text.primary }}>
+                Bulk Price Adjustment
+              </h2>
+              <p className="text-sm mt-1" style={{ color: visualConfig.colors.text.secondary }}>
+                Change many material prices or labor rates at once. Quotes keep their prices until re-priced.
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="h-11 w-11 min-h-[44px] min-w-[44px] flex items-center justify-center rounded-lg hover:bg-opacity-20 transition-all duration-150 active:scale-95"
+              style={{ color: visualConfig.colors.text.secondary }}
+            >
+              <Icons.X className="h-6 w-6" />
+            </button>
+          </div>
+
+          {/* Modal Body */}
+          <div className="flex-1 overflow-y-auto p-6 space-y-6">
+            {error && (
+              <div className="p-4 rounded-lg border-l-4" style={{ backgroundColor: '#fee2e2', borderLeftColor: '#dc2626' }}>
+                <div className="flex items-center">
+                  <Icons.AlertTriangle className="h-5 w-5 text-red-600 mr-2" />
+                  <span className="text-red-800 font-medium">{error}</span>
+                </div>
+              </div>
+            )}
+
+            {notice && (
+              <div className="p-4 rounded-lg border-l-4" style={{ backgroundColor: '#dcfce7', borderLeftColor: '#16a34a' }}>
+                <div className="flex items-center">
+                  <Icons.CheckCircle className="h-5 w-5 text-green-600 mr-2" />
+                  <span className="text-green-800 font-medium">{notice}</span>
+                </div>
+              </div>
+            )}
+
+            {isLoading ? (
+              <div className="flex items-center justify-center p-12">
+                <div
+                  className="animate-spin rounded-full h-8 w-8 border-b-2"
+                  style={{ borderColor: visualConfig.colors.primary }}
+                />
+                <span className="ml-3" style={{ color: visualConfig.colors.text.primary }}>
+                  Loading prices...
+                </span>
+              </div>
+            ) : (
+              <>
+                {/* Adjustment */}
+                <section className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <label className="text-sm space-y-1">
+                    <span style={labelStyle}>Apply to</span>
+                    <select
+                      value={adjustment.scope}
+                      onChange={(e) => update({ scope: e.target.value as PriceAdjustmentScope })}
+                      className={selectClass}
+                      style={inputStyle}
+                    >
+                      {SCOPES.map(scope => (
+                        <option key={scope.value} value={scope.value}>{scope.label}</option>
+                      ))}
+                    </select>
+                  </label>
+
+                  <label className="text-sm space-y-1">
+                    <span style={labelStyle}>Change</span>
+                    <div className="flex gap-2">
+                      <select
+                        value={adjustment.mode}
+                        onChange={(e) => update({ mode: e.target.value as PriceAdjustment['mode'] })}
+                        className={`${selectClass} w-28 flex-shrink-0`}
+                        style={inputStyle}
+                      >
+                        <option value="percent">%</option>
+                        <option value="fixed">$</option>
+                      </select>
+                      <input
+                        type="number"
+                        step={adjustment.mode === 'percent' ? '0.5' : '0.01'}
+                        value={adjustment.amount || ''}
+                        placeholder={adjustment.mode === 'percent' ? '4 or -2.5' : '1.50 or -0.75'}
+                        onChange={(e) => update({ amount: parseFloat(e.target.value) || 0 })}
+                        className={selectClass}
+                        style={inputStyle}
+                      />
+                    </div>
+                  </label>
+
+                  <label className="text-sm space-y-1">
+                    <span style={labelStyle}>Service</span>
+                    <select
+                      value={adjustment.filters.serviceConfigId || ''}
+                      onChange={(e) => update({ filters: { serviceConfigId: e.target.value || null } })}
+                      className={selectClass}
+                      style={inputStyle}
+                    >
+                      <option value="">All services</option>
+                      {[...serviceNames.entries()].map(([id, name]) => (
+                        <option key={id} value={id}>{name}</option>
+                      ))}
+                    </select>
+                  </label>
+
+                  <label className="text-sm space-y-1">
+                    <span style={labelStyle}>Category</span>
+                    <select
+                      value={adjustment.filters.category || ''}
+                      onChange={(e) => updateFilter('category', e.target.value)}
+                      disabled={laborRatesOnly}
+                      className={selectClass}
+                      style={inputStyle}
+                    >
+                      <option value="">All categories</option>
+                      {options.categories.map(([key, label]) => (
+                        <option key={key} value={key}>{label}</option>
+                      ))}
+                    </select>
+                  </label>
+
+                  <label className="text-sm space-y-1">
+                    <span style={labelStyle}>Supplier</span>
+                    <select
+                      value={adjustment.filters.supplier || ''}
+                      onChange={(e) => updateFilter('supplier', e.target.value)}
+                      disabled={laborRatesOnly}
+                      className={selectClass}
+                      style={inputStyle}
+                    >
+                      <option value="">All suppliers</option>
+                      {options.suppliers.map(supplier => (
+                        <option key={supplier} value={supplier}>{supplier}</option>
+                      ))}
+                    </select>
+                  </label>
+
+                  <label className="text-sm space-y-1">
+                    <span style={labelStyle}>Grade</span>
+                    <select
+                      value={adjustment.filters.grade || ''}
+                      onChange={(e) => updateFilter('grade', e.target.value)}
+                      disabled={laborRatesOnly}
+                      className={selectClass}
+                      style={inputStyle}
+                    >
+                      <option value="">All grades</option>
+                      {options.grades.map(grade => (
+                        <option key={grade} value={grade}>{grade}</option>
+                      ))}
+                    </select>
+                  </label>
+                </section>
+
+                {adjustment.scope === 'both' && (adjustment.filters.category || adjustment.filters.supplier || adjustment.filters.grade) && (
+                  <p className="text-xs" style={labelStyle}>
+                    Category, supplier and grade narrow materials only - labor rates follow the service filter.
+                  </p>
+                )}
+
+                <div className="flex justify-end">
+                  <button
+                    onClick={handlePreview}
+                    disabled={!adjustment.amount || isWorking}
+                    className="flex items-center space-x-2 px-4 h-11 min-h-[44px] rounded-lg border text-sm font-medium transition-all duration-150 active:scale-[0.97] disabled:opacity-50"
+                    style={{ borderColor: visualConfig.colors.primary, color: visualConfig.colors.primary }}
+                  >
+                    <Icons.Eye className="h-5 w-5" />
+                    <span>Preview</span>
+                  </button>
+                </div>
+
+                {/* Preview */}
+                {preview && (
+                  <section className="space-y-4">
+                    {preview.items.length === 0 ? (
+                      <p className="text-sm" style={labelStyle}>
+                        No prices match these filters.
+                      </p>
+                    ) : (
+                      <>
+                        <div>
+                          <h3 className="font-medium mb-2" style={{ color: visualConfig.colors.text.primary }}>
+                            {preview.items.length} {preview.items.length === 1 ? 'price changes' : 'prices change'}
+                          </h3>
+                          <table className="w-full text-sm">
+                            <thead>
+                              <tr className="text-left border-b" style={{ borderColor, color: visualConfig.colors.text.secondary }}>
+                                <th className="px-2 py-2 font-medium">Name</th>
+                                <th className="px-2 py-2 font-medium">Service</th>
+                                <th className="px-2 py-2 font-medium text-right">Current</th>
+                                <th className="px-2 py-2 font-medium text-right">New</th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {preview.items.map(item => (
+                                <tr key={`${item.itemType}-${item.id}`} className="border-b" style={{ borderColor, color: visualConfig.colors.text.primary }}>
+                                  <td className="px-2 py-2">
+                                    {item.itemType === 'labor_rate' ? (
+                                      <span className="flex items-center gap-1">
+                                        <Icons.Clock className="h-4 w-4" style={labelStyle} />
+                                        Labor rate (per hour)
+                                      </span>
+                                    ) : item.label}
+                                  </td>
+                                  <td className="px-2 py-2" style={labelStyle}>
+                                    {item.linkedMaterialIds
+                                      ? `Catalog - ${item.linkedMaterialIds.length + 1} services`
+                                      : serviceNames.get(item.serviceConfigId) ?? ''}
+                                  </td>
+                                  <td className="px-2 py-2 text-right">{formatCurrency(item.oldValue)}</td>
+                                  <td className="px-2 py-2 text-right font-medium">{formatCurrency(item.newValue)}</td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        </div>
+
+                        <div>
+                          <h3 className="font-medium mb-2" style={{ color: visualConfig.colors.text.primary }}>
+                            Open quotes if re-priced (estimate)
+                          </h3>
+                          {preview.quoteImpact.length === 0 ? (
+                            <p className="text-sm" style={labelStyle}>No open quotes use these prices.</p>
+                          ) : (
+                            <table className="w-full text-sm">
+                              <thead>
+                                <tr className="text-left border-b" style={{ borderColor, color: visualConfig.colors.text.secondary }}>
+                                  <th className="px-2 py-2 font-medium">Job</th>
+                                  <th className="px-2 py-2 font-medium text-right">Current</th>
+                                  <th className="px-2 py-2 font-medium text-right">Change</th>
+                                  <th className="px-2 py-2 font-medium text-right">New</th>
+                                </tr>
+                              </thead>
+                              <tbody>
+                                {preview.quoteImpact.map(impact => (
+                                  <tr key={impact.jobId} className="border-b" style={{ borderColor, color: visualConfig.colors.text.primary }}>
+                                    <td className="px-2 py-2 font-medium">{impact.jobNumber || impact.jobId}</td>
+                                    <td className="px-2 py-2 text-right">{formatCurrency(impact.currentTotal)}</td>
+                                    <td className="px-2 py-2 text-right" style={{ color: impact.change > 0 ? '#d97706' : '#16a34a' }}>
+                                      {impact.change > 0 ? '+' : ''}{formatCurrency(impact.change)}
+                                    </td>
+                                    <td className="px-2 py-2 text-right">{formatCurrency(impact.newTotal)}</td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                          )}
+                        </div>
+
+                        <div className="flex flex-col md:flex-row gap-3 md:items-end">
+                          <label className="text-sm space-y-1 flex-1">
+                            <span style={labelStyle}>Reason</span>
+                            <input
+                              type="text"
+                              value={description}
+                              placeholder="e.g. 2026 fuel surcharge"
+                              onChange={(e) => setDescription(e.target.value)}
+                              className={selectClass}
+                              style={inputStyle}
+                            />
+                          </label>
+                          <button
+                            onClick={handleApply}
+                            disabled={!description.trim() || isWorking}
+                            className="flex items-center space-x-2 px-4 h-11 min-h-[44px] rounded-lg text-sm font-medium transition-all duration-150 active:scale-[0.97] disabled:opacity-50"
+                            style={{ backgroundColor: visualConfig.colors.primary, color: '#ffffff' }}
+                          >
+                            <Icons.Check className="h-5 w-5" />
+                            <span>Apply {preview.items.length} {preview.items.length === 1 ? 'change' : 'changes'}</span>
+                          </button>
+                        </div>
+                      </>
+                    )}
+                  </section>
+                )}
+
+                {/* Change sets */}
+                <section>
+                  <h3 className="font-medium mb-2" style={{ color: visualConfig.colors.text.primary }}>
+                    Recent adjustments
+                  </h3>
+                  {changeSets.length === 0 ? (
+                    <p className="text-sm" style={labelStyle}>No bulk adjustments yet.</p>
+                  ) : (
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left border-b" style={{ borderColor, color: visualConfig.colors.text.secondary }}>
+                          <th className="px-2 py-2 font-medium">Date</th>
+                          <th className="px-2 py-2 font-medium">Reason</th>
+                          <th className="px-2 py-2 font-medium text-right">Change</th>
+                          <th className="px-2 py-2 font-medium text-right">Materials</th>
+                          <th className="px-2 py-2 font-medium text-right">Labor rates</th>
+                          <th className="px-2 py-2 font-medium">By</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {changeSets.map(set => (
+                          <tr key={set.id} className="border-b" style={{ borderColor, color: visualConfig.colors.text.primary }}>
+                            <td className="px-2 py-2">{new Date(set.created_at).toLocaleDateString()}</td>
+                            <td className="px-2 py-2">{set.description}</td>
+                            <td className="px-2 py-2 text-right">{formatAmount(set)}</td>
+                            <td className="px-2 py-2 text-right">{set.material_count}</td>
+                            <td className="px-2 py-2 text-right">{set.labor_rate_count}</td>
+                            <td className="px-2 py-2" style={labelStyle}>{set.author?.name || set.author?.email || ''}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </section>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
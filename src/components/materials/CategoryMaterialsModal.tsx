@@ -9,8 +9,38 @@ import React, { useState, useEffect } from 'react';
 import * as Icons from 'lucide-react';
 import { useTheme } from '../../context/ThemeContext';
 import { getSmartVisualThemeConfig } from '../../config/industry';
-import { fetchMaterialsForCategory, updateMaterialFactor, updateMaterialDepth } from '../../services/materialsService';
-import type { MaterialCategory, ServiceMaterial } from '../../types/materials';
+import {
+  fetchMaterialsForCategory,
+  updateMaterialFactor,
+  updateMaterialDepth,
+  updateMaterialDensity,
+  updateMaterialSpacing,
+  updateCategorySubstitutionRule
+} from '../../services/materialsService';
+import { DEFAULT_DENSITY_TONS_PER_CUBIC_YARD } from '../../services/materialCalculations';
+import { materialPriceService } from '../../services/MaterialPriceService';
+import { inventoryService } from '../../services/InventoryService';
+import type { StockLevel } from '../../types/inventory';
+import type {
+  MaterialCategory,
+  MaterialPriceHistoryEntry,
+  MaterialSubstitutionRule,
+  PieceSpacingBasis,
+  ServiceMaterial
+} from '../../types/materials';
+import { DEFAULT_SUBSTITUTION_RULE, SUBSTITUTION_RULES } from '../../pricing-system/utils/material-substitution';
+import { summarizePriceTrend, type OutdatedMaterialPrice } from '../../pricing-system/utils/price-list-import';
+import {
+  DEFAULT_UNIT_SYSTEM,
+  DENSITY_LABELS,
+  UNIT_LABELS,
+  formatDensity,
+  roundForDisplay,
+  toCanonicalDensity,
+  toCanonicalUnits,
+  toDisplayDensity,
+  type UnitSystem
+} from '../../pricing-system/utils/unit-system';
 
 interface CategoryMaterialsModalProps {
   isOpen: boolean;
@@ -19,6 +49,9 @@ interface CategoryMaterialsModalProps {
   companyId: string;
   serviceConfigId: string;
   canEditMaterials: boolean;
+  unitSystem?: UnitSystem; // Depth is edited in mm for metric companies, stored in inches
+  userId?: string;         // Recorded on stock counts
+  onCategoryUpdated?: (category: MaterialCategory) => void;
 }
 
 export const CategoryMaterialsModal: React.FC<CategoryMaterialsModalProps> = ({
@@ -28,6 +61,9 @@ export const CategoryMaterialsModal: React.FC<CategoryMaterialsModalProps> = ({
   companyId,
   serviceConfigId,
   canEditMaterials,
+  unitSystem = DEFAULT_UNIT_SYSTEM,
+  userId,
+  onCategoryUpdated,
 }) => {
   const { theme } = useTheme();
   const visualConfig = getSmartVisualThemeConfig(theme);
@@ -39,7 +75,17 @@ export const CategoryMaterialsModal: React.FC<CategoryMaterialsModalProps> = ({
   const [factorEditValue, setFactorEditValue] = useState<string>('');
   const [editingDepth, setEditingDepth] = useState<string | null>(null); // materialId being edited
   const [depthEditValue, setDepthEditValue] = useState<string>('');
+  const [editingRule, setEditingRule] = useState<{ materialId: string; field: 'density' | 'spacing' } | null>(null);
+  const [ruleEditValue, setRuleEditValue] = useState<string>('');
+  const [ruleBasis, setRuleBasis] = useState<PieceSpacingBasis>('per_unit');
   const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
+  const [historyMaterialId, setHistoryMaterialId] = useState<string | null>(null);
+  const [priceHistory, setPriceHistory] = useState<MaterialPriceHistoryEntry[]>([]);
+  const [outdatedQuotes, setOutdatedQuotes] = useState<OutdatedMaterialPrice[]>([]);
+  const [stockLevels, setStockLevels] = useState<Record<string, StockLevel>>({});
+  const [editingStock, setEditingStock] = useState<{ materialId: string; field: 'count' | 'reorder' } | null>(null);
+  const [stockEditValue, setStockEditValue] = useState<string>('');
+  const [substitutionRule, setSubstitutionRule] = useState<MaterialSubstitutionRule>(DEFAULT_SUBSTITUTION_RULE);
 
   // Fetch materials when modal opens
   useEffect(() => {
@@ -65,11 +111,135 @@ export const CategoryMaterialsModal: React.FC<CategoryMaterialsModalProps> = ({
       }
 
       setIsLoading(false);
+
+      if (data && data.length > 0) {
+        // Yard stock for these materials
+        const stock = await inventoryService.getStockLevels(companyId, data.map(material => material.id));
+        setStockLevels(stock.success
+          ? Object.fromEntries((stock.data || []).map(level => [level.materialId, level]))
+          : {});
+
+        // Open quotes still priced at an older price for these materials
+        const outdated = await materialPriceService.findQuotesUsingOldPrices(
+          companyId,
+          data.map(material => material.id)
+        );
+        setOutdatedQuotes(outdated.success ? outdated.data || [] : []);
+      }
     };
 
+    setHistoryMaterialId(null);
+    setOutdatedQuotes([]);
+    setStockLevels({});
+    setSubstitutionRule(category?.substitution_rule ?? DEFAULT_SUBSTITUTION_RULE);
     loadMaterials();
   }, [isOpen, category, companyId, serviceConfigId]);
 
+  const handleTogglePriceHistory = async (materialId: string) => {
+    if (historyMaterialId === materialId) {
+      setHistoryMaterialId(null);
+      return;
+    }
+
+    setHistoryMaterialId(materialId);
+    setPriceHistory([]);
+    const result = await materialPriceService.getPriceHistory(materialId);
+    if (result.success) {
+      setPriceHistory(result.data || []);
+    }
+  };
+
+  // Open quotes (distinct job numbers) priced at an older price of this material
+  const getOutdatedQuoteNumbers = (materialId: string): string[] => {
+    const quotes = outdatedQuotes
+      .filter(quote => quote.materialId === materialId)
+      .map(quote => quote.jobNumber || quote.jobId);
+    return Array.from(new Set(quotes));
+  };
+
+  const handleStartEditStock = (materialId: string, field: 'count' | 'reorder') => {
+    const level = stockLevels[materialId];
+    setEditingStock({ materialId, field });
+    setStockEditValue(field === 'count'
+      ? (level?.onHand ?? 0).toString()
+      : level?.reorderPoint?.toString() ?? '');
+    setSaveStatus('idle');
+  };
+
+  const handleCancelEditStock = () => {
+    setEditingStock(null);
+    setStockEditValue('');
+    setSaveStatus('idle');
+  };
+
+  const handleSaveStock = async () => {
+    if (!editingStock) return;
+
+    // An empty reorder point clears the alert
+    const numValue = editingStock.field === 'reorder' && stockEditValue.trim() === ''
+      ? null
+      : parseFloat(stockEditValue);
+
+    // Validation
+    if (numValue !== null && (isNaN(numValue) || numValue < 0)) {
+      setSaveStatus('error');
+      setTimeout(() => setSaveStatus('idle'), 2000);
+      return;
+    }
+
+    setSaveStatus('saving');
+
+    const { materialId, field } = editingStock;
+    const { success, error: updateError } = field === 'count'
+      ? await inventoryService.recordCount(companyId, materialId, numValue as number, userId)
+      : await inventoryService.setReorderPoint(companyId, materialId, numValue);
+
+    if (success) {
+      // Update local state
+      setStockLevels(prev => {
+        const level = prev[materialId] ?? { materialId, onHand: 0, reserved: 0, reorderPoint: null };
+        return {
+          ...prev,
+          [materialId]: field === 'count'
+            ? { ...level, onHand: numValue as number }
+            : { ...level, reorderPoint: numValue }
+        };
+      });
+      setSaveStatus('saved');
+      setTimeout(() => {
+        setEditingStock(null);
+        setSaveStatus('idle');
+      }, 1000);
+    } else {
+      console.error(`Failed to update stock ${field}:`, updateError);
+      setSaveStatus('error');
+      setTimeout(() => setSaveStatus('idle'), 2000);
+    }
+  };
+
+  const handleStockKeyPress = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      handleSaveStock();
+    } else if (e.key === 'Escape') {
+      handleCancelEditStock();
+    }
+  };
+
+  const handleSubstitutionRuleChange = async (rule: MaterialSubstitutionRule) => {
+    if (!category) return;
+
+    const previous = substitutionRule;
+    setSubstitutionRule(rule);
+
+    const { success, error: updateError } = await updateCategorySubstitutionRule(category.id, rule);
+    if (success) {
+      onCategoryUpdated?.({ ...category, substitution_rule: rule });
+    } else {
+      console.error('Failed to update substitution rule:', updateError);
+      setSubstitutionRule(previous);
+    }
+  };
+
   // Placeholder action handlers
   const handleAddMaterial = () => {
     console.log('Add material to category:', category?.category_key);
@@ -145,7 +315,7 @@ export const CategoryMaterialsModal: React.FC<CategoryMaterialsModalProps> = ({
 
   const handleStartEditDepth = (materialId: string, currentDepth: number | null) => {
     setEditingDepth(materialId);
-    setDepthEditValue((currentDepth || 6.0).toString());
+    setDepthEditValue(roundForDisplay(currentDepth || 6.0, 'depth', unitSystem).toString());
     setSaveStatus('idle');
   };
 
@@ -158,7 +328,8 @@ export const CategoryMaterialsModal: React.FC<CategoryMaterialsModalProps> = ({
   const handleSaveDepth = async () => {
     if (!editingDepth) return;
 
-    const numValue = parseFloat(depthEditValue);
+    // Entered in the company's units, stored in inches
+    const numValue = toCanonicalUnits(parseFloat(depthEditValue), 'depth', unitSystem);
 
     // Validation
     if (isNaN(numValue) || numValue < 0 || numValue > 24) {
@@ -198,6 +369,84 @@ export const CategoryMaterialsModal: React.FC<CategoryMaterialsModalProps> = ({
     }
   };
 
+  // Piece spacing is sqft (or m²) per piece, or feet (or metres) of edge per piece
+  const spacingKind = (basis: PieceSpacingBasis) => basis === 'per_linear_foot' ? 'length' as const : 'area' as const;
+
+  const handleStartEditRule = (material: ServiceMaterial, field: 'density' | 'spacing') => {
+    const basis = material.piece_spacing_basis ?? 'per_unit';
+    setEditingRule({ materialId: material.id, field });
+    setRuleBasis(basis);
+    setRuleEditValue(field === 'density'
+      ? toDisplayDensity(material.density_tons_per_cubic_yard || DEFAULT_DENSITY_TONS_PER_CUBIC_YARD, unitSystem).toFixed(2)
+      : roundForDisplay(material.coverage_per_unit || 1, spacingKind(basis), unitSystem, 2).toString());
+    setSaveStatus('idle');
+  };
+
+  const handleCancelEditRule = () => {
+    setEditingRule(null);
+    setRuleEditValue('');
+    setSaveStatus('idle');
+  };
+
+  const handleSaveRule = async () => {
+    if (!editingRule) return;
+
+    // Entered in the company's units, stored in tons/cy, sqft or feet
+    const entered = parseFloat(ruleEditValue);
+    const numValue = editingRule.field === 'density'
+      ? toCanonicalDensity(entered, unitSystem)
+      : toCanonicalUnits(entered, spacingKind(ruleBasis), unitSystem);
+
+    // Validation
+    if (isNaN(numValue) || numValue <= 0 || (editingRule.field === 'density' && numValue > 5)) {
+      setSaveStatus('error');
+      setTimeout(() => setSaveStatus('idle'), 2000);
+      return;
+    }
+
+    setSaveStatus('saving');
+
+    const { success, error: updateError } = editingRule.field === 'density'
+      ? await updateMaterialDensity(editingRule.materialId, numValue)
+      : await updateMaterialSpacing(editingRule.materialId, numValue, ruleBasis);
+
+    if (success) {
+      // Update local state
+      setMaterials(prev => prev.map(m =>
+        m.id === editingRule.materialId
+          ? editingRule.field === 'density'
+            ? { ...m, density_tons_per_cubic_yard: numValue }
+            : { ...m, coverage_per_unit: numValue, piece_spacing_basis: ruleBasis }
+          : m
+      ));
+      setSaveStatus('saved');
+      setTimeout(() => {
+        setEditingRule(null);
+        setSaveStatus('idle');
+      }, 1000);
+    } else {
+      console.error(`Failed to update ${editingRule.field}:`, updateError);
+      setSaveStatus('error');
+      setTimeout(() => setSaveStatus('idle'), 2000);
+    }
+  };
+
+  const handleRuleKeyPress = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      handleSaveRule();
+    } else if (e.key === 'Escape') {
+      handleCancelEditRule();
+    }
+  };
+
+  // Piece spacing display - "1 per 100 sq ft" / "1 per 1.0 ft of edge"
+  const formatSpacing = (material: ServiceMaterial): string => {
+    const basis = material.piece_spacing_basis ?? 'per_unit';
+    const spacing = roundForDisplay(material.coverage_per_unit || 1, spacingKind(basis), unitSystem, 2);
+    const label = UNIT_LABELS[unitSystem][spacingKind(basis)];
+    return basis === 'per_linear_foot' ? `1 per ${spacing} ${label} of edge` : `1 per ${spacing} ${label}`;
+  };
+
   // Format price display
   const formatPrice = (price: number, unitType: string): string => {
     const formattedPrice = `$${price.toFixed(2)}`;
@@ -250,6 +499,31 @@ export const CategoryMaterialsModal: React.FC<CategoryMaterialsModalProps> = ({
                   <span className="text-xs" style={{ color: visualConfig.colors.text.secondary }}>
                     {materials.length} {materials.length === 1 ? 'material' : 'materials'}
                   </span>
+                  <span className="text-xs" style={{ color: visualConfig.colors.text.secondary }}>
+                    • If the default is discontinued:
+                  </span>
+                  {canEditMaterials ? (
+                    <select
+                      value={substitutionRule}
+                      onChange={(e) => handleSubstitutionRuleChange(e.target.value as MaterialSubstitutionRule)}
+                      className="px-2 py-0.5 text-xs rounded border"
+                      style={{
+                        backgroundColor: visualConfig.colors.surface,
+                        borderColor: visualConfig.colors.text.secondary + '40',
+                        color: visualConfig.colors.text.primary
+                      }}
+                    >
+                      {(Object.keys(SUBSTITUTION_RULES) as MaterialSubstitutionRule[]).map(rule => (
+                        <option key={rule} value={rule}>
+                          {rule === 'none' ? 'Don\'t substitute' : `Use ${SUBSTITUTION_RULES[rule].label}`}
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    <span className="text-xs" style={{ color: visualConfig.colors.text.primary }}>
+                      {substitutionRule === 'none' ? 'no substitute' : `use ${SUBSTITUTION_RULES[substitutionRule].label}`}
+                    </span>
+                  )}
                 </div>
               </div>
 
@@ -395,20 +669,163 @@ export const CategoryMaterialsModal: React.FC<CategoryMaterialsModalProps> = ({
                     </h4>
 
                     {/* Price */}
-                    <div className="text-base font-semibold mb-2" style={{ color: visualConfig.colors.primary }}>
-                      {formatPrice(material.price_per_unit, material.unit_type)}
+                    <div className="flex items-center justify-between mb-2">
+                      <span className="text-base font-semibold" style={{ color: visualConfig.colors.primary }}>
+                        {formatPrice(material.price_per_unit, material.unit_type)}
+                      </span>
+                      <button
+                        onClick={() => handleTogglePriceHistory(material.id)}
+                        className="flex items-center space-x-1 text-xs hover:underline"
+                        style={{ color: visualConfig.colors.text.secondary }}
+                        title="Price history"
+                      >
+                        <Icons.History className="h-3 w-3" />
+                        <span>History</span>
+                      </button>
                     </div>
 
+                    {/* Price History */}
+                    {historyMaterialId === material.id && (() => {
+                      const trend = summarizePriceTrend(priceHistory);
+                      return (
+                        <div
+                          className="mb-2 p-2 rounded text-xs space-y-1"
+                          style={{ backgroundColor: visualConfig.colors.text.secondary + '10', color: visualConfig.colors.text.secondary }}
+                        >
+                          {trend ? (
+                            <>
+                              {trend.changePercent !== null && trend.points > 1 && (
+                                <div className="font-medium" style={{ color: visualConfig.colors.text.primary }}>
+                                  {trend.changePercent > 0 ? '+' : ''}{trend.changePercent}% since {new Date(trend.since).toLocaleDateString()}
+                                </div>
+                              )}
+                              {[...priceHistory].reverse().slice(0, 5).map(entry => (
+                                <div key={entry.id} className="flex justify-between">
+                                  <span>{new Date(entry.created_at).toLocaleDateString()}</span>
+                                  <span>
+                                    ${entry.price_per_unit.toFixed(2)}
+                                    {entry.source === 'import' ? ' (price list)' : entry.source === 'adjustment' ? ' (bulk adjustment)' : entry.source === 'initial' ? ' (initial)' : ''}
+                                  </span>
+                                </div>
+                              ))}
+                            </>
+                          ) : (
+                            <div>No price changes recorded</div>
+                          )}
+                        </div>
+                      );
+                    })()}
+
+                    {/* Open quotes priced at an older price */}
+                    {getOutdatedQuoteNumbers(material.id).length > 0 && (
+                      <div
+                        className="flex items-center space-x-1 mb-2 text-xs"
+                        style={{ color: '#d97706' }}
+                        title={getOutdatedQuoteNumbers(material.id).join(', ')}
+                      >
+                        <Icons.AlertTriangle className="h-3 w-3" />
+                        <span>
+                          {getOutdatedQuoteNumbers(material.id).length} open {getOutdatedQuoteNumbers(material.id).length === 1 ? 'quote uses' : 'quotes use'} an older price
+                        </span>
+                      </div>
+                    )}
+
                     {/* Supplier */}
                     {material.supplier_name && (
                       <div className="flex items-center space-x-1 mb-2">
                         <Icons.Store className="h-3 w-3" style={{ color: visualConfig.colors.text.secondary }} />
                         <span className="text-xs" style={{ color: visualConfig.colors.text.secondary }}>
                           {material.supplier_name}
+                          {material.supplier_sku && ` · ${material.supplier_sku}`}
                         </span>
                       </div>
                     )}
 
+                    {/* Yard Stock */}
+                    {(canEditMaterials || stockLevels[material.id]) && (
+                      <div className="space-y-1 mb-2 text-xs" style={{ color: visualConfig.colors.text.secondary }}>
+                        {(['count', 'reorder'] as const).map(field => {
+                          const level = stockLevels[material.id];
+                          const isLow = level?.reorderPoint != null &&
+                            level.onHand - level.reserved <= level.reorderPoint;
+
+                          return (
+                            <div key={field} className="flex items-center justify-between">
+                              <span className="flex items-center space-x-1 font-medium">
+                                {field === 'count' && <Icons.Warehouse className="h-3 w-3" />}
+                                <span>{field === 'count' ? 'In Stock:' : 'Reorder At:'}</span>
+                              </span>
+                              {canEditMaterials && editingStock?.materialId === material.id && editingStock.field === field ? (
+                                <div className="flex items-center space-x-1">
+                                  <input
+                                    type="number"
+                                    value={stockEditValue}
+                                    onChange={(e) => setStockEditValue(e.target.value)}
+                                    onKeyPress={handleStockKeyPress}
+                                    min={0}
+                                    step={0.1}
+                                    placeholder={field === 'reorder' ? 'None' : undefined}
+                                    className="w-16 px-1 py-0.5 text-xs border rounded"
+                                    style={{
+                                      backgroundColor: visualConfig.colors.surface,
+                                      borderColor: saveStatus === 'error' ? '#dc2626' : visualConfig.colors.text.secondary + '40',
+                                      color: visualConfig.colors.text.primary,
+                                    }}
+                                    autoFocus
+                                  />
+                                  <button
+                                    onClick={handleSaveStock}
+                                    disabled={saveStatus === 'saving'}
+                                    className="p-0.5 rounded transition-colors hover:opacity-80 disabled:opacity-50"
+                                    style={{
+                                      backgroundColor: visualConfig.colors.primary,
+                                      color: '#ffffff'
+                                    }}
+                                  >
+                                    {saveStatus === 'saving' ? (
+                                      <div className="animate-spin rounded-full h-3 w-3 border-b-2 border-white" />
+                                    ) : saveStatus === 'saved' ? (
+                                      <Icons.Check className="h-3 w-3" />
+                                    ) : (
+                                      <Icons.Save className="h-3 w-3" />
+                                    )}
+                                  </button>
+                                  <button
+                                    onClick={handleCancelEditStock}
+                                    className="p-0.5 rounded transition-colors hover:opacity-80"
+                                    style={{
+                                      backgroundColor: visualConfig.colors.text.secondary + '20',
+                                      color: visualConfig.colors.text.secondary
+                                    }}
+                                  >
+                                    <Icons.X className="h-3 w-3" />
+                                  </button>
+                                </div>
+                              ) : (
+                                <button
+                                  onClick={() => canEditMaterials && handleStartEditStock(material.id, field)}
+                                  disabled={!canEditMaterials}
+                                  className={`flex items-center space-x-1 px-2 py-0.5 rounded text-xs ${canEditMaterials ? 'hover:opacity-80 cursor-pointer' : 'cursor-default'}`}
+                                  style={{
+                                    backgroundColor: visualConfig.colors.background,
+                                    color: field === 'count' && isLow ? '#d97706' : visualConfig.colors.text.primary,
+                                  }}
+                                  title={field === 'count' ? 'Record a yard count' : 'Low-stock alert level'}
+                                >
+                                  <span>
+                                    {field === 'count'
+                                      ? `${level?.onHand ?? 0}${level?.reserved ? ` (${level.reserved} reserved)` : ''}`
+                                      : level?.reorderPoint ?? '—'}
+                                  </span>
+                                  {canEditMaterials && <Icons.Edit2 className="h-2.5 w-2.5" style={{ color: visualConfig.colors.primary }} />}
+                                </button>
+                              )}
+                            </div>
+                          );
+                        })}
+                      </div>
+                    )}
+
                     {/* Badges Row */}
                     <div className="flex flex-wrap gap-2 mb-3">
                       {/* Color Badge */}
@@ -576,8 +993,8 @@ export const CategoryMaterialsModal: React.FC<CategoryMaterialsModalProps> = ({
                         </div>
                       )}
 
-                      {/* Material Depth (only for volume_depth categories like base_rock, clean_rock) */}
-                      {category.calculation_method === 'volume_depth' && (
+                      {/* Material Depth (volume_depth and weight_tonnage categories like base_rock, clean_rock) */}
+                      {(category.calculation_method === 'volume_depth' || category.calculation_method === 'weight_tonnage') && (
                         <div className="flex items-center justify-between">
                           <span className="text-xs font-medium" style={{ color: visualConfig.colors.text.secondary }}>
                             Material Depth:
@@ -590,8 +1007,8 @@ export const CategoryMaterialsModal: React.FC<CategoryMaterialsModalProps> = ({
                                 onChange={(e) => setDepthEditValue(e.target.value)}
                                 onKeyPress={handleDepthKeyPress}
                                 min={0}
-                                max={24}
-                                step={0.5}
+                                max={unitSystem === 'metric' ? 600 : 24}
+                                step={unitSystem === 'metric' ? 5 : 0.5}
                                 className="w-14 px-1 py-0.5 text-xs border rounded"
                                 style={{
                                   backgroundColor: visualConfig.colors.surface,
@@ -638,7 +1055,163 @@ export const CategoryMaterialsModal: React.FC<CategoryMaterialsModalProps> = ({
                                 color: visualConfig.colors.text.primary,
                               }}
                             >
-                              <span>{(material.coverage_depth_inches || 6.0).toFixed(1)}"</span>
+                              <span>
+                                {unitSystem === 'metric'
+                                  ? `${roundForDisplay(material.coverage_depth_inches || 6.0, 'depth', unitSystem)} ${UNIT_LABELS.metric.depth}`
+                                  : `${(material.coverage_depth_inches || 6.0).toFixed(1)}"`}
+                              </span>
+                              {canEditMaterials && <Icons.Edit2 className="h-2.5 w-2.5" style={{ color: visualConfig.colors.primary }} />}
+                            </button>
+                          )}
+                        </div>
+                      )}
+
+                      {/* Density (weight_tonnage categories) */}
+                      {category.calculation_method === 'weight_tonnage' && (
+                        <div className="flex items-center justify-between">
+                          <span className="text-xs font-medium" style={{ color: visualConfig.colors.text.secondary }}>
+                            Density:
+                          </span>
+                          {canEditMaterials && editingRule?.materialId === material.id && editingRule.field === 'density' ? (
+                            <div className="flex items-center space-x-1">
+                              <input
+                                type="number"
+                                value={ruleEditValue}
+                                onChange={(e) => setRuleEditValue(e.target.value)}
+                                onKeyPress={handleRuleKeyPress}
+                                min={0}
+                                step={0.05}
+                                className="w-14 px-1 py-0.5 text-xs border rounded"
+                                style={{
+                                  backgroundColor: visualConfig.colors.surface,
+                                  borderColor: saveStatus === 'error' ? '#dc2626' : visualConfig.colors.text.secondary + '40',
+                                  color: visualConfig.colors.text.primary,
+                                }}
+                                autoFocus
+                              />
+                              <span className="text-xs" style={{ color: visualConfig.colors.text.secondary }}>
+                                {DENSITY_LABELS[unitSystem]}
+                              </span>
+                              <button
+                                onClick={handleSaveRule}
+                                disabled={saveStatus === 'saving'}
+                                className="p-0.5 rounded transition-colors hover:opacity-80 disabled:opacity-50"
+                                style={{
+                                  backgroundColor: visualConfig.colors.primary,
+                                  color: '#ffffff'
+                                }}
+                              >
+                                {saveStatus === 'saving' ? (
+                                  <div className="animate-spin rounded-full h-3 w-3 border-b-2 border-white" />
+                                ) : saveStatus === 'saved' ? (
+                                  <Icons.Check className="h-3 w-3" />
+                                ) : (
+                                  <Icons.Save className="h-3 w-3" />
+                                )}
+                              </button>
+                              <button
+                                onClick={handleCancelEditRule}
+                                className="p-0.5 rounded transition-colors hover:opacity-80"
+                                style={{
+                                  backgroundColor: visualConfig.colors.text.secondary + '20',
+                                  color: visualConfig.colors.text.secondary
+                                }}
+                              >
+                                <Icons.X className="h-3 w-3" />
+                              </button>
+                            </div>
+                          ) : (
+                            <button
+                              onClick={() => canEditMaterials && handleStartEditRule(material, 'density')}
+                              disabled={!canEditMaterials}
+                              className={`flex items-center space-x-1 px-2 py-0.5 rounded text-xs ${canEditMaterials ? 'hover:opacity-80 cursor-pointer' : 'cursor-default'}`}
+                              style={{
+                                backgroundColor: visualConfig.colors.background,
+                                color: visualConfig.colors.text.primary,
+                              }}
+                            >
+                              <span>{formatDensity(material.density_tons_per_cubic_yard || DEFAULT_DENSITY_TONS_PER_CUBIC_YARD, unitSystem)}</span>
+                              {canEditMaterials && <Icons.Edit2 className="h-2.5 w-2.5" style={{ color: visualConfig.colors.primary }} />}
+                            </button>
+                          )}
+                        </div>
+                      )}
+
+                      {/* Piece Spacing (piece_count categories like steps, caps, drains) */}
+                      {category.calculation_method === 'piece_count' && (
+                        <div className="flex items-center justify-between">
+                          <span className="text-xs font-medium" style={{ color: visualConfig.colors.text.secondary }}>
+                            Spacing:
+                          </span>
+                          {canEditMaterials && editingRule?.materialId === material.id && editingRule.field === 'spacing' ? (
+                            <div className="flex items-center space-x-1">
+                              <input
+                                type="number"
+                                value={ruleEditValue}
+                                onChange={(e) => setRuleEditValue(e.target.value)}
+                                onKeyPress={handleRuleKeyPress}
+                                min={0}
+                                step={0.5}
+                                className="w-14 px-1 py-0.5 text-xs border rounded"
+                                style={{
+                                  backgroundColor: visualConfig.colors.surface,
+                                  borderColor: saveStatus === 'error' ? '#dc2626' : visualConfig.colors.text.secondary + '40',
+                                  color: visualConfig.colors.text.primary,
+                                }}
+                                autoFocus
+                              />
+                              <select
+                                value={ruleBasis}
+                                onChange={(e) => setRuleBasis(e.target.value as PieceSpacingBasis)}
+                                className="px-1 py-0.5 text-xs border rounded"
+                                style={{
+                                  backgroundColor: visualConfig.colors.surface,
+                                  borderColor: visualConfig.colors.text.secondary + '40',
+                                  color: visualConfig.colors.text.primary,
+                                }}
+                              >
+                                <option value="per_unit">{UNIT_LABELS[unitSystem].area}</option>
+                                <option value="per_linear_foot">{UNIT_LABELS[unitSystem].length} of edge</option>
+                              </select>
+                              <button
+                                onClick={handleSaveRule}
+                                disabled={saveStatus === 'saving'}
+                                className="p-0.5 rounded transition-colors hover:opacity-80 disabled:opacity-50"
+                                style={{
+                                  backgroundColor: visualConfig.colors.primary,
+                                  color: '#ffffff'
+                                }}
+                              >
+                                {saveStatus === 'saving' ? (
+                                  <div className="animate-spin rounded-full h-3 w-3 border-b-2 border-white" />
+                                ) : saveStatus === 'saved' ? (
+                                  <Icons.Check className="h-3 w-3" />
+                                ) : (
+                                  <Icons.Save className="h-3 w-3" />
+                                )}
+                              </button>
+                              <button
+                                onClick={handleCancelEditRule}
+                                className="p-0.5 rounded transition-colors hover:opacity-80"
+                                style={{
+                                  backgroundColor: visualConfig.colors.text.secondary + '20',
+                                  color: visualConfig.colors.text.secondary
+                                }}
+                              >
+                                <Icons.X className="h-3 w-3" />
+                              </button>
+                            </div>
+                          ) : (
+                            <button
+                              onClick={() => canEditMaterials && handleStartEditRule(material, 'spacing')}
+                              disabled={!canEditMaterials}
+                              className={`flex items-center space-x-1 px-2 py-0.5 rounded text-xs ${canEditMaterials ? 'hover:opacity-80 cursor-pointer' : 'cursor-default'}`}
+                              style={{
+                                backgroundColor: visualConfig.colors.background,
+                                color: visualConfig.colors.text.primary,
+                              }}
+                            >
+                              <span>{formatSpacing(material)}</span>
                               {canEditMaterials && <Icons.Edit2 className="h-2.5 w-2.5" style={{ color: visualConfig.colors.primary }} />}
                             </button>
                           )}
@@ -0,0 +1,322 @@
+/**
+ * Delivery Rates Modal
+ *
+ * Truck capacity, fee per load and lead days per supplier, plus a company
+ * default for suppliers without their own rate. Job estimates plan bulk
+ * materials into loads with these rates.
+ */
+
+import React, { useEffect, useState } from 'react';
+import * as Icons from 'lucide-react';
+import { useTheme } from '../../context/ThemeContext';
+import { getSmartVisualThemeConfig } from '../../config/industry';
+import { deliveryService } from '../../services/DeliveryService';
+import type { SupplierDeliveryRate, SupplierDeliveryRateInput } from '../../types/delivery';
+
+interface DeliveryRatesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  companyId: string;
+}
+
+const EMPTY_RATE: SupplierDeliveryRateInput = {
+  supplier_name: '',
+  max_load_lbs: 40000,
+  fee_per_load: 0,
+  lead_days: 1
+};
+
+const formatCurrency = (value: number) =>
+  Number(value).toLocaleString('en-US', { style: 'currency', currency: 'USD' });
+
+export const DeliveryRatesModal: React.FC<DeliveryRatesModalProps> = ({
+  isOpen,
+  onClose,
+  companyId,
+}) => {
+  const { theme } = useTheme();
+  const visualConfig = getSmartVisualThemeConfig(theme);
+  const borderColor = theme === 'light' ? '#e5e7eb' : '#374151';
+
+  const [rates, setRates] = useState<SupplierDeliveryRate[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null); // 'new' while adding
+  const [draft, setDraft] = useState<SupplierDeliveryRateInput>(EMPTY_RATE);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen || !companyId) return;
+
+    setIsLoading(true);
+    setError(null);
+    setEditingId(null);
+    deliveryService.getRates(companyId).then(result => {
+      if (result.success) {
+        setRates(result.data || []);
+      } else {
+        setError(result.error || 'Failed to load delivery rates');
+      }
+      setIsLoading(false);
+    });
+  }, [isOpen, companyId]);
+
+  const startEdit = (rate?: SupplierDeliveryRate) => {
+    setError(null);
+    setEditingId(rate?.id ?? 'new');
+    setDraft(rate
+      ? {
+        supplier_name: rate.supplier_name ?? '',
+        max_load_lbs: Number(rate.max_load_lbs),
+        fee_per_load: Number(rate.fee_per_load),
+        lead_days: rate.lead_days
+      }
+      : EMPTY_RATE);
+  };
+
+  const handleSave = async () => {
+    setIsWorking(true);
+    setError(null);
+
+    const result = await deliveryService.saveRate(
+      companyId,
+      draft,
+      editingId && editingId !== 'new' ? editingId : undefined
+    );
+    if (result.success && result.data) {
+      const saved = result.data;
+      setRates(current => current.some(rate => rate.id === saved.id)
+        ? current.map(rate => rate.id === saved.id ? saved : rate)
+        : [...current, saved]);
+      setEditingId(null);
+    } else {
+      setError(result.error || 'Failed to save delivery rate');
+    }
+
+    setIsWorking(false);
+  };
+
+  const handleDelete = async (rate: SupplierDeliveryRate) => {
+    setIsWorking(true);
+    setError(null);
+
+    const result = await deliveryService.deleteRate(rate.id, companyId);
+    if (result.success) {
+      setRates(current => current.filter(r => r.id !== rate.id));
+    } else {
+      setError(result.error || 'Failed to delete delivery rate');
+    }
+
+    setIsWorking(false);
+  };
+
+  if (!isOpen) return null;
+
+  const inputClass = 'w-full px-2 h-9 border rounded text-sm';
+  const inputStyle = {
+    backgroundColor: visualConfig.colors.surface,
+    borderColor,
+    color: visualConfig.colors.text.primary
+  };
+
+  const renderEditor = () => (
+    <tr className="border-b" style={{ borderColor }}>
+      <td className="px-2 py-2">
+        <input
+          type="text"
+          value={draft.supplier_name ?? ''}
+          placeholder="Default (all other suppliers)"
+          onChange={(e) => setDraft({ ...draft, supplier_name: e.target.value })}
+          className={inputClass}
+          style={inputStyle}
+        />
+      </td>
+      <td className="px-2 py-2">
+        <input
+          type="number"
+          min="1"
+          value={draft.max_load_lbs}
+          onChange={(e) => setDraft({ ...draft, max_load_lbs: parseFloat(e.target.value) })}
+          className={`${inputClass} text-right`}
+          style={inputStyle}
+        />
+      </td>
+      <td className="px-2 py-2">
+        <input
+          type="number"
+          min="0"
+          step="0.01"
+          value={draft.fee_per_load}
+          onChange={(e) => setDraft({ ...draft, fee_per_load: parseFloat(e.target.value) })}
+          className={`${inputClass} text-right`}
+          style={inputStyle}
+        />
+      </td>
+      <td className="px-2 py-2">
+        <input
+          type="number"
+          min="0"
+          value={draft.lead_days}
+          onChange={(e) => setDraft({ ...draft, lead_days: parseInt(e.target.value, 10) })}
+          className={`${inputClass} text-right`}
+          style={inputStyle}
+        />
+      </td>
+      <td className="px-2 py-2">
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={() => setEditingId(null)}
+            className="px-3 h-9 rounded-lg border text-xs"
+            style={{ borderColor, color: visualConfig.colors.text.secondary }}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isWorking}
+            className="flex items-center gap-1 px-3 h-9 rounded-lg text-xs font-medium disabled:opacity-50"
+            style={{ backgroundColor: visualConfig.colors.primary, color: '#ffffff' }}
+          >
+            <Icons.Save className="h-4 w-4" />
+            Save
+          </button>
+        </div>
+      </td>
+    </tr>
+  );
+
+  return (
+    <>
+      {/* Background Overlay */}
+      <div
+        className="fixed inset-0 bg-black bg-opacity-50 z-[60] animate-overlay-fade-in"
+        onClick={onClose}
+      />
+
+      {/* Modal Container */}
+      <div
+        className="fixed inset-0 z-[60] flex items-center justify-center p-4"
+        onClick={onClose}
+      >
+        <div
+          className="w-full max-w-4xl max-h-[85vh] rounded-lg shadow-xl animate-scale-in flex flex-col"
+          style={{ backgroundColor: visualConfig.colors.surface }}
+          onClick={(e) => e.stopPropagation()}
+        >
+          {/* Modal Header */}
+          <div className="px-6 py-4 border-b flex-shrink-0 flex items-start justify-between" style={{ borderColor }}>
+            <div>
+              <h2 className="text-xl font-semibold" style={{ color: visualConfig.colors.text.primary }}>
+                Delivery Rates
+              </h2>
+              <p className="text-sm mt-1" style={{ color: visualConfig.colors.text.secondary }}>
+                Bulk materials are planned into truckloads per supplier. Deliveries are dated lead days before the job starts.
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="h-11 w-11 min-h-[44px] min-w-[44px] flex items-center justify-center rounded-lg hover:bg-opacity-20 transition-all duration-150 active:scale-95"
+              style={{ color: visualConfig.colors.text.secondary }}
+            >
+              <Icons.X className="h-6 w-6" />
+            </button>
+          </div>
+
+          {/* Modal Body */}
+          <div className="flex-1 overflow-y-auto p-6 space-y-4">
+            {error && (
+              <div className="p-4 rounded-lg border-l-4" style={{ backgroundColor: '#fee2e2', borderLeftColor: '#dc2626' }}>
+                <div className="flex items-center">
+                  <Icons.AlertTriangle className="h-5 w-5 text-red-600 mr-2" />
+                  <span className="text-red-800 font-medium">{error}</span>
+                </div>
+              </div>
+            )}
+
+            {isLoading ? (
+              <div className="flex items-center justify-center p-12">
+                <div
+                  className="animate-spin rounded-full h-8 w-8 border-b-2"
+                  style={{ borderColor: visualConfig.colors.primary }}
+                />
+                <span className="ml-3" style={{ color: visualConfig.colors.text.primary }}>
+                  Loading delivery rates...
+                </span>
+              </div>
+            ) : (
+              <>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left border-b" style={{ borderColor, color: visualConfig.colors.text.secondary }}>
+                      <th className="px-2 py-2 font-medium">Supplier</th>
+                      <th className="px-2 py-2 font-medium text-right">Max load (lbs)</th>
+                      <th className="px-2 py-2 font-medium text-right">Fee per load</th>
+                      <th className="px-2 py-2 font-medium text-right">Lead days</th>
+                      <th className="px-2 py-2" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rates.map(rate => editingId === rate.id ? (
+                      <React.Fragment key={rate.id}>{renderEditor()}</React.Fragment>
+                    ) : (
+                      <tr key={rate.id} className="border-b" style={{ borderColor, color: visualConfig.colors.text.primary }}>
+                        <td className="px-2 py-2 font-medium">
+                          {rate.supplier_name || (
+                            <span style={{ color: visualConfig.colors.text.secondary }}>Default (all other suppliers)</span>
+                          )}
+                        </td>
+                        <td className="px-2 py-2 text-right">{Number(rate.max_load_lbs).toLocaleString()}</td>
+                        <td className="px-2 py-2 text-right">{formatCurrency(rate.fee_per_load)}</td>
+                        <td className="px-2 py-2 text-right">{rate.lead_days}</td>
+                        <td className="px-2 py-2">
+                          <div className="flex justify-end gap-2">
+                            <button
+                              onClick={() => startEdit(rate)}
+                              disabled={isWorking}
+                              className="flex items-center gap-1 px-3 h-9 rounded-lg border text-xs disabled:opacity-50"
+                              style={{ borderColor, color: visualConfig.colors.text.secondary }}
+                            >
+                              <Icons.Edit2 className="h-4 w-4" />
+                              Edit
+                            </button>
+                            <button
+                              onClick={() => handleDelete(rate)}
+                              disabled={isWorking}
+                              className="flex items-center gap-1 px-3 h-9 rounded-lg border text-xs disabled:opacity-50"
+                              style={{ borderColor: '#dc2626', color: '#dc2626' }}
+                            >
+                              <Icons.Trash2 className="h-4 w-4" />
+                              Delete
+                            </button>
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                    {editingId === 'new' && renderEditor()}
+                  </tbody>
+                </table>
+
+                {rates.length === 0 && editingId !== 'new' && (
+                  <p className="text-sm" style={{ color: visualConfig.colors.text.secondary }}>
+                    No delivery rates yet - estimates won't include delivery fees.
+                  </p>
+                )}
+
+                {editingId === null && (
+                  <button
+                    onClick={() => startEdit()}
+                    className="flex items-center space-x-2 px-4 h-11 min-h-[44px] rounded-lg text-sm font-medium transition-all duration-150 active:scale-[0.97]"
+                    style={{ backgroundColor: visualConfig.colors.primary, color: '#ffffff' }}
+                  >
+                    <Icons.Plus className="h-5 w-5" />
+                    <span>Add Rate</span>
+                  </button>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,337 @@
+/**
+ * Material Catalog Modal
+ *
+ * The company's shared materials by catalog category, with how many
+ * services use each. A price edited here changes in every one of them.
+ * Service-only materials can be moved into the catalog; matching rows
+ * from different services become one catalog material.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import * as Icons from 'lucide-react';
+import { useTheme } from '../../context/ThemeContext';
+import { getSmartVisualThemeConfig } from '../../config/industry';
+import { materialCatalogService } from '../../services/MaterialCatalogService';
+import type { CatalogMigrationGroup } from '../../pricing-system/utils/material-catalog';
+import type { CatalogMaterialWithLinks } from '../../types/materials';
+
+interface MaterialCatalogModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  companyId: string;
+  userId: string;
+  onChanged: () => void;
+}
+
+const formatCurrency = (value: number) =>
+  Number(value).toLocaleString('en-US', { style: 'currency', currency: 'USD' });
+
+const formatCategory = (key: string) =>
+  key.replace(/_/g, ' ').replace(/\b\w/g, letter => letter.toUpperCase());
+
+export const MaterialCatalogModal: React.FC<MaterialCatalogModalProps> = ({
+  isOpen,
+  onClose,
+  companyId,
+  userId,
+  onChanged,
+}) => {
+  const { theme } = useTheme();
+  const visualConfig = getSmartVisualThemeConfig(theme);
+  const borderColor = theme === 'light' ? '#e5e7eb' : '#374151';
+
+  const [catalog, setCatalog] = useState<CatalogMaterialWithLinks[]>([]);
+  const [unlinked, setUnlinked] = useState<CatalogMigrationGroup[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftPrice, setDraftPrice] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const load = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    const [catalogResult, migrationResult] = await Promise.all([
+      materialCatalogService.getCatalog(companyId),
+      materialCatalogService.previewMigration(companyId)
+    ]);
+
+    if (catalogResult.success && migrationResult.success) {
+      setCatalog(catalogResult.data || []);
+      setUnlinked(migrationResult.data || []);
+    } else {
+      setError(catalogResult.error || migrationResult.error || 'Failed to load material catalog');
+    }
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    if (isOpen && companyId) {
+      setEditingId(null);
+      setNotice(null);
+      load();
+    }
+  }, [isOpen, companyId]);
+
+  const byCategory = useMemo(() => {
+    const groups = new Map<string, CatalogMaterialWithLinks[]>();
+    for (const material of catalog) {
+      groups.set(material.catalog_category, [...(groups.get(material.catalog_category) ?? []), material]);
+    }
+    return [...groups.entries()];
+  }, [catalog]);
+
+  const unlinkedRows = unlinked.reduce((sum, group) => sum + group.materials.length, 0);
+  const driftedGroups = unlinked.filter(group => group.maxPrice !== group.minPrice).length;
+
+  const handleSavePrice = async (material: CatalogMaterialWithLinks) => {
+    const price = parseFloat(draftPrice);
+    setIsWorking(true);
+    setError(null);
+
+    const result = await materialCatalogService.updateCatalogMaterial(
+      material.id,
+      companyId,
+      { price_per_unit: price },
+      userId
+    );
+    if (result.success && result.data) {
+      const saved = result.data;
+      setCatalog(current => current.map(row => row.id === saved.id
+        ? { ...row, price_per_unit: Number(saved.price_per_unit) }
+        : row));
+      setEditingId(null);
+      onChanged();
+    } else {
+      setError(result.error || 'Failed to update price');
+    }
+
+    setIsWorking(false);
+  };
+
+  const handleMigrate = async () => {
+    setIsWorking(true);
+    setError(null);
+
+    const result = await materialCatalogService.migrateToCatalog(companyId);
+    if (result.success) {
+      setNotice(`${result.data} service materials now share the catalog`);
+      onChanged();
+      await load();
+    } else {
+      setError(result.error || 'Failed to move materials to the catalog');
+    }
+
+    setIsWorking(false);
+  };
+
+  if (!isOpen) return null;
+
+  const inputStyle = {
+    backgroundColor: visualConfig.colors.surface,
+    borderColor,
+    color: visualConfig.colors.text.primary
+  };
+
+  return (
+    <>
+      {/* Background Overlay */}
+      <div
+        className="fixed inset-0 bg-black bg-opacity-50 z-[60] animate-overlay-fade-in"
+        onClick={onClose}
+      />
+
+      {/* Modal Container */}
+      <div
+        className="fixed inset-0 z-[60] flex items-center justify-center p-4"
+        onClick={onClose}
+      >
+        <div
+          className="w-full max-w-4xl max-h-[85vh] rounded-lg shadow-xl animate-scale-in flex flex-col"
+          style={{ backgroundColor: visualConfig.colors.surface }}
+          onClick={(e) => e.stopPropagation()}
+        >
+          {/* Modal Header */}
+          <div className="px-6 py-4 border-b flex-shrink-0 flex items-start justify-between" style={{ borderColor }}>
+            <div>
+              <h2 className="text-xl font-semibold" style={{ color: visualConfig.colors.text.primary }}>
+                Material Catalog
+              </h2>
+              <p className="text-sm mt-1" style={{ color: visualConfig.colors.text.secondary }}>
+                Materials shared by every service that uses them. A price changed here changes everywhere.
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="h-11 w-11 min-h-[44px] min-w-[44px] flex items-center justify-center rounded-lg hover:bg-opacity-20 transition-all duration-150 active:scale-95"
+              style={{ color: visualConfig.colors.text.secondary }}
+            >
+              <Icons.X className="h-6 w-6" />
+            </button>
+          </div>
+
+          {/* Modal Body */}
+          <div className="flex-1 overflow-y-auto p-6 space-y-4">
+            {error && (
+              <div className="p-4 rounded-lg border-l-4" style={{ backgroundColor: '#fee2e2', borderLeftColor: '#dc2626' }}>
+                <div className="flex items-center">
+                  <Icons.AlertTriangle className="h-5 w-5 text-red-600 mr-2" />
+                  <span className="text-red-800 font-medium">{error}</span>
+                </div>
+              </div>
+            )}
+
+            {notice && (
+              <div className="p-4 rounded-lg border-l-4" style={{ backgroundColor: '#dcfce7', borderLeftColor: '#16a34a' }}>
+                <div className="flex items-center">
+                  <Icons.CheckCircle className="h-5 w-5 text-green-600 mr-2" />
+                  <span className="text-green-800 font-medium">{notice}</span>
+                </div>
+              </div>
+            )}
+
+            {isLoading ? (
+              <div className="flex items-center justify-center p-12">
+                <div
+                  className="animate-spin rounded-full h-8 w-8 border-b-2"
+                  style={{ borderColor: visualConfig.colors.primary }}
+                />
+                <span className="ml-3" style={{ color: visualConfig.colors.text.primary }}>
+                  Loading material catalog...
+                </span>
+              </div>
+            ) : (
+              <>
+                {/* Service-only materials */}
+                {unlinkedRows > 0 && (
+                  <div className="p-4 rounded-lg border-l-4 flex items-center justify-between gap-4" style={{ backgroundColor: '#fef3c7', borderLeftColor: '#d97706' }}>
+                    <div className="text-sm text-amber-900">
+                      <p className="font-medium">
+                        {unlinkedRows} service materials aren't in the catalog yet ({unlinked.length} products)
+                      </p>
+                      {driftedGroups > 0 && (
+                        <p className="mt-1">
+                          {driftedGroups} have different prices in different services - the most recently updated price is kept.
+                        </p>
+                      )}
+                    </div>
+                    <button
+                      onClick={handleMigrate}
+                      disabled={isWorking}
+                      className="flex items-center gap-2 px-4 h-10 rounded-lg text-sm font-medium whitespace-nowrap disabled:opacity-50"
+                      style={{ backgroundColor: visualConfig.colors.primary, color: '#ffffff' }}
+                    >
+                      <Icons.Library className="h-4 w-4" />
+                      Move to Catalog
+                    </button>
+                  </div>
+                )}
+
+                {byCategory.map(([category, materials]) => (
+                  <div key={category}>
+                    <h3 className="text-sm font-semibold mb-2" style={{ color: visualConfig.colors.text.primary }}>
+                      {formatCategory(category)}
+                    </h3>
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left border-b" style={{ borderColor, color: visualConfig.colors.text.secondary }}>
+                          <th className="px-2 py-2 font-medium">Material</th>
+                          <th className="px-2 py-2 font-medium">Supplier</th>
+                          <th className="px-2 py-2 font-medium text-right">Services</th>
+                          <th className="px-2 py-2 font-medium text-right">Price</th>
+                          <th className="px-2 py-2" />
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {materials.map(material => (
+                          <tr
+                            key={material.id}
+                            className="border-b"
+                            style={{ borderColor, color: visualConfig.colors.text.primary, opacity: material.is_active ? 1 : 0.5 }}
+                          >
+                            <td className="px-2 py-2 font-medium">{material.material_name}</td>
+                            <td className="px-2 py-2" style={{ color: visualConfig.colors.text.secondary }}>
+                              {material.supplier_name || '-'}
+                            </td>
+                            <td className="px-2 py-2 text-right">
+                              {new Set(material.links.map(link => link.service_config_id)).size}
+                            </td>
+                            <td className="px-2 py-2 text-right">
+                              {editingId === material.id ? (
+                                <input
+                                  type="number"
+                                  min="0"
+                                  step="0.01"
+                                  value={draftPrice}
+                                  onChange={(e) => setDraftPrice(e.target.value)}
+                                  className="w-28 px-2 h-9 border rounded text-sm text-right"
+                                  style={inputStyle}
+                                  autoFocus
+                                />
+                              ) : (
+                                <>
+                                  {formatCurrency(material.price_per_unit)}
+                                  <span style={{ color: visualConfig.colors.text.secondary }}> / {material.unit_type.replace(/_/g, ' ')}</span>
+                                </>
+                              )}
+                            </td>
+                            <td className="px-2 py-2">
+                              <div className="flex justify-end gap-2">
+                                {editingId === material.id ? (
+                                  <>
+                                    <button
+                                      onClick={() => setEditingId(null)}
+                                      className="px-3 h-9 rounded-lg border text-xs"
+                                      style={{ borderColor, color: visualConfig.colors.text.secondary }}
+                                    >
+                                      Cancel
+                                    </button>
+                                    <button
+                                      onClick={() => handleSavePrice(material)}
+                                      disabled={isWorking}
+                                      className="flex items-center gap-1 px-3 h-9 rounded-lg text-xs font-medium disabled:opacity-50"
+                                      style={{ backgroundColor: visualConfig.colors.primary, color: '#ffffff' }}
+                                    >
+                                      <Icons.Save className="h-4 w-4" />
+                                      Save
+                                    </button>
+                                  </>
+                                ) : (
+                                  <button
+                                    onClick={() => {
+                                      setError(null);
+                                      setEditingId(material.id);
+                                      setDraftPrice(String(material.price_per_unit));
+                                    }}
+                                    disabled={isWorking}
+                                    className="flex items-center gap-1 px-3 h-9 rounded-lg border text-xs disabled:opacity-50"
+                                    style={{ borderColor, color: visualConfig.colors.text.secondary }}
+                                  >
+                                    <Icons.Edit2 className="h-4 w-4" />
+                                    Price
+                                  </button>
+                                )}
+                              </div>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                ))}
+
+                {catalog.length === 0 && unlinkedRows === 0 && (
+                  <p className="text-sm" style={{ color: visualConfig.colors.text.secondary }}>
+                    No materials yet.
+                  </p>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
@@ -18,6 +18,15 @@ import {
 } from '../../services/materialsService';
 import type { MaterialCategory, MaterialsByCategory } from '../../types/materials';
 import { CategoryMaterialsModal } from './CategoryMaterialsModal';
+import { PriceListImportModal } from './PriceListImportModal';
+import { PurchaseOrdersModal } from './PurchaseOrdersModal';
+import { DeliveryRatesModal } from './DeliveryRatesModal';
+import { BulkPriceAdjustModal } from './BulkPriceAdjustModal';
+import { MaterialCatalogModal } from './MaterialCatalogModal';
+import { inventoryService } from '../../services/InventoryService';
+import type { LowStockMaterial } from '../../types/inventory';
+import { unitSystemService } from '../../services/UnitSystemService';
+import { DEFAULT_UNIT_SYSTEM, type UnitSystem } from '../../pricing-system/utils/unit-system';
 import { CategoryCard } from './CategoryCard';
 
 interface MaterialsPageProps {
@@ -38,10 +47,33 @@ export const MaterialsPage: React.FC<MaterialsPageProps> = ({ isOpen, onBackClic
   const [filter, setFilter] = useState('');
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [unitSystem, setUnitSystem] = useState<UnitSystem>(DEFAULT_UNIT_SYSTEM);
+  const [showPriceImport, setShowPriceImport] = useState(false);
+  const [showPurchaseOrders, setShowPurchaseOrders] = useState(false);
+  const [showDeliveryRates, setShowDeliveryRates] = useState(false);
+  const [showPriceAdjust, setShowPriceAdjust] = useState(false);
+  const [showCatalog, setShowCatalog] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0); // Bumped after a price list import, bulk adjustment or catalog change
+  const [lowStock, setLowStock] = useState<LowStockMaterial[]>([]);
+  const [stockKey, setStockKey] = useState(0); // Bumped when stock may have changed
 
   // Modal state for viewing materials in a category
   const [selectedCategory, setSelectedCategory] = useState<MaterialCategory | null>(null);
 
+  // Company units - depths are edited in mm for metric companies
+  useEffect(() => {
+    unitSystemService.resolveUnitSystem(user?.company_id).then(setUnitSystem);
+  }, [user?.company_id]);
+
+  // Materials at or below their reorder point
+  useEffect(() => {
+    if (!user?.company_id) return;
+
+    inventoryService.getLowStock(user.company_id).then(result => {
+      setLowStock(result.success ? result.data || [] : []);
+    });
+  }, [user?.company_id, stockKey]);
+
   // Fetch available services on mount
   useEffect(() => {
     if (!user?.company_id) return;
@@ -113,7 +145,7 @@ export const MaterialsPage: React.FC<MaterialsPageProps> = ({ isOpen, onBackClic
     };
 
     loadMaterialsData();
-  }, [user?.company_id, selectedServiceConfigId]);
+  }, [user?.company_id, selectedServiceConfigId, reloadKey]);
 
   // Handle service selection change
   const handleServiceChange = (serviceName: string) => {
@@ -142,7 +174,10 @@ export const MaterialsPage: React.FC<MaterialsPageProps> = ({ isOpen, onBackClic
     const methodMap: Record<string, string> = {
       'volume_depth': 'Volume × Depth',
       'area_coverage': 'Area Coverage',
-      'linear_perimeter': 'Linear Perimeter'
+      'linear_perimeter': 'Linear Perimeter',
+      'paver_layout': 'Paver Layout',
+      'weight_tonnage': 'Weight (Tons)',
+      'piece_count': 'Piece Count'
     };
     return methodMap[method] || method;
   };
@@ -273,9 +308,104 @@ export const MaterialsPage: React.FC<MaterialsPageProps> = ({ isOpen, onBackClic
               }}
             />
           </div>
+
+          {/* Company Material Catalog (Admin Only) */}
+          {canEditMaterials && (
+            <button
+              onClick={() => setShowCatalog(true)}
+              className="flex items-center gap-2 px-3 md:px-4 h-10 md:h-11 min-h-[40px] md:min-h-[44px] rounded-lg border text-xs md:text-sm whitespace-nowrap flex-shrink-0 transition-all duration-150 active:scale-[0.97]"
+              style={{
+                borderColor: visualConfig.colors.primary,
+                color: visualConfig.colors.primary
+              }}
+            >
+              <Icons.Library className="h-4 w-4" />
+              Material Catalog
+            </button>
+          )}
+
+          {/* Price List Import (Admin Only) */}
+          {canEditMaterials && (
+            <button
+              onClick={() => setShowPriceImport(true)}
+              className="flex items-center gap-2 px-3 md:px-4 h-10 md:h-11 min-h-[40px] md:min-h-[44px] rounded-lg border text-xs md:text-sm whitespace-nowrap flex-shrink-0 transition-all duration-150 active:scale-[0.97]"
+              style={{
+                borderColor: visualConfig.colors.primary,
+                color: visualConfig.colors.primary
+              }}
+            >
+              <Icons.Upload className="h-4 w-4" />
+              Import Price List
+            </button>
+          )}
+
+          {/* Bulk Price Adjustment (Admin Only) */}
+          {canEditMaterials && (
+            <button
+              onClick={() => setShowPriceAdjust(true)}
+              className="flex items-center gap-2 px-3 md:px-4 h-10 md:h-11 min-h-[40px] md:min-h-[44px] rounded-lg border text-xs md:text-sm whitespace-nowrap flex-shrink-0 transition-all duration-150 active:scale-[0.97]"
+              style={{
+                borderColor: visualConfig.colors.primary,
+                color: visualConfig.colors.primary
+              }}
+            >
+              <Icons.Percent className="h-4 w-4" />
+              Bulk Adjust
+            </button>
+          )}
+
+          {/* Purchase Orders (Admin Only) */}
+          {canEditMaterials && (
+            <button
+              onClick={() => setShowPurchaseOrders(true)}
+              className="flex items-center gap-2 px-3 md:px-4 h-10 md:h-11 min-h-[40px] md:min-h-[44px] rounded-lg border text-xs md:text-sm whitespace-nowrap flex-shrink-0 transition-all duration-150 active:scale-[0.97]"
+              style={{
+                borderColor: visualConfig.colors.primary,
+                color: visualConfig.colors.primary
+              }}
+            >
+              <Icons.ClipboardList className="h-4 w-4" />
+              Purchase Orders
+            </button>
+          )}
+
+          {/* Delivery Rates (Admin Only) */}
+          {canEditMaterials && (
+            <button
+              onClick={() => setShowDeliveryRates(true)}
+              className="flex items-center gap-2 px-3 md:px-4 h-10 md:h-11 min-h-[40px] md:min-h-[44px] rounded-lg border text-xs md:text-sm whitespace-nowrap flex-shrink-0 transition-all duration-150 active:scale-[0.97]"
+              style={{
+                borderColor: visualConfig.colors.primary,
+                color: visualConfig.colors.primary
+              }}
+            >
+              <Icons.Truck className="h-4 w-4" />
+              Delivery Rates
+            </button>
+          )}
         </div>
       </div>
 
+      {/* Low Stock Alerts */}
+      {lowStock.length > 0 && (
+        <div className="mx-4 md:mx-6 mt-4 p-3 rounded-lg border-l-4 flex-shrink-0" style={{ backgroundColor: '#fef3c7', borderLeftColor: '#d97706' }}>
+          <div className="flex items-center text-sm font-medium text-amber-900">
+            <Icons.AlertTriangle className="h-4 w-4 mr-2" />
+            {lowStock.length} {lowStock.length === 1 ? 'material is' : 'materials are'} at or below the reorder point
+          </div>
+          <ul className="mt-1 ml-6 text-xs text-amber-800 space-y-0.5">
+            {lowStock.slice(0, 5).map(alert => (
+              <li key={alert.materialId}>
+                {alert.materialName}: {alert.available} {alert.unitType.replace('_', ' ')} available
+                {alert.reserved > 0 && ` (${alert.onHand} on hand, ${alert.reserved} reserved)`}
+                {' '}- reorder at {alert.reorderPoint}
+              </li>
+            ))}
+            {lowStock.length > 5 && <li>and {lowStock.length - 5} more</li>}
+          </ul>
+        </div>
+      )}
+
       {/* Table Container */}
       <div className="flex-1 overflow-auto">
         {availableServices.length === 0 ? (
@@ -426,10 +556,69 @@ export const MaterialsPage: React.FC<MaterialsPageProps> = ({ isOpen, onBackClic
         <CategoryMaterialsModal
           isOpen={!!selectedCategory}
           category={selectedCategory}
-          onClose={() => setSelectedCategory(null)}
+          onClose={() => {
+            setSelectedCategory(null);
+            setStockKey(key => key + 1);
+          }}
           companyId={user?.company_id || ''}
           serviceConfigId={selectedServiceConfigId}
           canEditMaterials={canEditMaterials}
+          unitSystem={unitSystem}
+          userId={user?.id}
+          onCategoryUpdated={(updated) => setCategories(prev => prev.map(c => c.id === updated.id ? updated : c))}
+        />
+      )}
+
+      {/* Company Material Catalog */}
+      {canEditMaterials && (
+        <MaterialCatalogModal
+          isOpen={showCatalog}
+          onClose={() => setShowCatalog(false)}
+          companyId={user?.company_id || ''}
+          userId={user?.id || ''}
+          onChanged={() => setReloadKey(key => key + 1)}
+        />
+      )}
+
+      {/* Supplier Price List Import */}
+      {canEditMaterials && (
+        <PriceListImportModal
+          isOpen={showPriceImport}
+          onClose={() => setShowPriceImport(false)}
+          companyId={user?.company_id || ''}
+          onImported={() => setReloadKey(key => key + 1)}
+        />
+      )}
+
+      {/* Bulk Price Adjustment */}
+      {canEditMaterials && (
+        <BulkPriceAdjustModal
+          isOpen={showPriceAdjust}
+          onClose={() => setShowPriceAdjust(false)}
+          companyId={user?.company_id || ''}
+          onApplied={() => setReloadKey(key => key + 1)}
+        />
+      )}
+
+      {/* Supplier Purchase Orders */}
+      {canEditMaterials && (
+        <PurchaseOrdersModal
+          isOpen={showPurchaseOrders}
+          onClose={() => {
+            setShowPurchaseOrders(false);
+            setStockKey(key => key + 1);
+          }}
+          companyId={user?.company_id || ''}
+          userId={user?.id || ''}
+        />
+      )}
+
+      {/* Supplier Delivery Rates */}
+      {canEditMaterials && (
+        <DeliveryRatesModal
+          isOpen={showDeliveryRates}
+          onClose={() => setShowDeliveryRates(false)}
+          companyId={user?.company_id || ''}
         />
       )}
     </div>
@@ -0,0 +1,310 @@
+/**
+ * Price List Import Modal
+ *
+ * Uploads a supplier CSV price list, previews every line against current
+ * material prices (matched by supplier + SKU or name), and applies the
+ * price changes in one import recorded in material price history.
+ */
+
+import React, { useState } from 'react';
+import * as Icons from 'lucide-react';
+import { useTheme } from '../../context/ThemeContext';
+import { getSmartVisualThemeConfig } from '../../config/industry';
+import { materialPriceService } from '../../services/MaterialPriceService';
+import type { PriceChangeStatus, PriceListPreview } from '../../pricing-system/utils/price-list-import';
+
+interface PriceListImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  companyId: string;
+  onImported: () => void; // Reload materials after prices change
+}
+
+const STATUS_LABELS: Record<PriceChangeStatus, { label: string; color: string }> = {
+  update: { label: 'Update', color: '#2563eb' },
+  unchanged: { label: 'Unchanged', color: '#6b7280' },
+  unmatched: { label: 'No match', color: '#d97706' },
+  invalid: { label: 'Skipped', color: '#dc2626' }
+};
+
+export const PriceListImportModal: React.FC<PriceListImportModalProps> = ({
+  isOpen,
+  onClose,
+  companyId,
+  onImported,
+}) => {
+  const { theme } = useTheme();
+  const visualConfig = getSmartVisualThemeConfig(theme);
+  const borderColor = theme === 'light' ? '#e5e7eb' : '#374151';
+
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [csvText, setCsvText] = useState<string>('');
+  const [defaultSupplier, setDefaultSupplier] = useState<string>('');
+  const [preview, setPreview] = useState<PriceListPreview | null>(null);
+  const [status, setStatus] = useState<'idle' | 'previewing' | 'applying'>('idle');
+  const [error, setError] = useState<string | null>(null);
+  const [resultMessage, setResultMessage] = useState<string | null>(null);
+
+  const runPreview = async (text: string, supplier: string) => {
+    setStatus('previewing');
+    setError(null);
+    setResultMessage(null);
+
+    const result = await materialPriceService.previewImport(companyId, text, supplier || null);
+    if (result.success) {
+      setPreview(result.data || null);
+    } else {
+      setPreview(null);
+      setError(result.error || 'Failed to read price list');
+    }
+
+    setStatus('idle');
+  };
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      const text = typeof reader.result === 'string' ? reader.result : '';
+      setFileName(file.name);
+      setCsvText(text);
+      runPreview(text, defaultSupplier);
+    };
+    reader.onerror = () => setError('Could not read the file');
+    reader.readAsText(file);
+  };
+
+  const handleApply = async () => {
+    if (!preview) return;
+
+    setStatus('applying');
+    setError(null);
+
+    const result = await materialPriceService.applyImport(companyId, preview.changes, fileName);
+    if (result.success && result.data) {
+      setResultMessage(`Updated ${result.data.updated} ${result.data.updated === 1 ? 'price' : 'prices'}` +
+        (result.data.skusAssigned > 0 ? `, saved ${result.data.skusAssigned} supplier SKUs` : ''));
+      setPreview(null);
+      onImported();
+    } else {
+      setError(result.error || 'Failed to apply price list');
+    }
+
+    setStatus('idle');
+  };
+
+  const handleClose = () => {
+    setFileName(null);
+    setCsvText('');
+    setPreview(null);
+    setError(null);
+    setResultMessage(null);
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <>
+      {/* Background Overlay */}
+      <div
+        className="fixed inset-0 bg-black bg-opacity-50 z-[60] animate-overlay-fade-in"
+        onClick={handleClose}
+      />
+
+      {/* Modal Container */}
+      <div
+        className="fixed inset-0 z-[60] flex items-center justify-center p-4"
+        onClick={handleClose}
+      >
+        <div
+          className="w-full max-w-5xl h-[85vh] rounded-lg shadow-xl animate-scale-in flex flex-col"
+          style={{ backgroundColor: visualConfig.colors.surface }}
+          onClick={(e) => e.stopPropagation()}
+        >
+          {/* Modal Header */}
+          <div className="px-6 py-4 border-b flex-shrink-0" style={{ borderColor }}>
+            <div className="flex items-start justify-between">
+              <div className="flex-1">
+                <h2 className="text-xl font-semibold" style={{ color: visualConfig.colors.text.primary }}>
+                  Import Supplier Price List
+                </h2>
+                <p className="text-sm mt-1" style={{ color: visualConfig.colors.text.secondary }}>
+                  CSV with a header row: price plus SKU and/or material name. Lines match on supplier + SKU, then supplier + name.
+                </p>
+              </div>
+
+              <button
+                onClick={handleClose}
+                className="h-11 w-11 min-h-[44px] min-w-[44px] flex items-center justify-center rounded-lg hover:bg-opacity-20 transition-all duration-150 active:scale-95"
+                style={{ color: visualConfig.colors.text.secondary }}
+              >
+                <Icons.X className="h-6 w-6" />
+              </button>
+            </div>
+
+            {/* File + default supplier */}
+            <div className="flex flex-wrap items-center gap-3 mt-4">
+              <label
+                className="flex items-center space-x-2 px-4 h-11 min-h-[44px] rounded-lg text-sm font-medium border cursor-pointer"
+                style={{ borderColor: visualConfig.colors.primary, color: visualConfig.colors.primary }}
+              >
+                <Icons.Upload className="h-5 w-5" />
+                <span>{fileName || 'Choose CSV'}</span>
+                <input type="file" accept=".csv,text/csv" className="hidden" onChange={handleFileChange} />
+              </label>
+
+              <input
+                type="text"
+                placeholder="Supplier (if the sheet has no supplier column)"
+                value={defaultSupplier}
+                onChange={(e) => setDefaultSupplier(e.target.value)}
+                onBlur={() => csvText && runPreview(csvText, defaultSupplier)}
+                className="px-3 h-11 min-h-[44px] border rounded-lg text-sm w-80 focus:outline-none"
+                style={{
+                  backgroundColor: visualConfig.colors.surface,
+                  borderColor,
+                  color: visualConfig.colors.text.primary
+                }}
+              />
+            </div>
+          </div>
+
+          {/* Modal Body */}
+          <div className="flex-1 overflow-y-auto p-6">
+            {status === 'previewing' && (
+              <div className="flex items-center justify-center p-12">
+                <div
+                  className="animate-spin rounded-full h-8 w-8 border-b-2"
+                  style={{ borderColor: visualConfig.colors.primary }}
+                />
+                <span className="ml-3" style={{ color: visualConfig.colors.text.primary }}>
+                  Matching price list...
+                </span>
+              </div>
+            )}
+
+            {error && (
+              <div
+                className="p-4 mb-4 rounded-lg border-l-4"
+                style={{ backgroundColor: '#fee2e2', borderLeftColor: '#dc2626' }}
+              >
+                <div className="flex items-center">
+                  <Icons.AlertTriangle className="h-5 w-5 text-red-600 mr-2" />
+                  <span className="text-red-800 font-medium">{error}</span>
+                </div>
+              </div>
+            )}
+
+            {resultMessage && (
+              <div className="p-4 mb-4 rounded-lg border-l-4 bg-green-50 border-green-400">
+                <div className="flex items-center">
+                  <Icons.CheckCircle className="h-5 w-5 text-green-600 mr-2" />
+                  <span className="text-green-800 font-medium">{resultMessage}</span>
+                </div>
+              </div>
+            )}
+
+            {!preview && !error && !resultMessage && status === 'idle' && (
+              <div className="text-center py-16">
+                <Icons.FileSpreadsheet className="mx-auto h-16 w-16 mb-4" style={{ color: visualConfig.colors.text.secondary }} />
+                <p className="text-sm" style={{ color: visualConfig.colors.text.secondary }}>
+                  Choose a supplier price list to preview the price changes.
+                </p>
+              </div>
+            )}
+
+            {preview && status !== 'previewing' && (
+              <>
+                <div className="flex flex-wrap gap-4 mb-4 text-sm" style={{ color: visualConfig.colors.text.secondary }}>
+                  <span><strong style={{ color: STATUS_LABELS.update.color }}>{preview.updates}</strong> to update</span>
+                  <span><strong>{preview.unchanged}</strong> unchanged</span>
+                  <span><strong style={{ color: STATUS_LABELS.unmatched.color }}>{preview.unmatched}</strong> not matched</span>
+                  <span><strong style={{ color: STATUS_LABELS.invalid.color }}>{preview.invalid}</strong> skipped</span>
+                </div>
+
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left border-b" style={{ borderColor, color: visualConfig.colors.text.secondary }}>
+                      <th className="px-2 py-2 font-medium">Line</th>
+                      <th className="px-2 py-2 font-medium">Price list item</th>
+                      <th className="px-2 py-2 font-medium">Material</th>
+                      <th className="px-2 py-2 font-medium text-right">Current</th>
+                      <th className="px-2 py-2 font-medium text-right">New</th>
+                      <th className="px-2 py-2 font-medium text-right">Change</th>
+                      <th className="px-2 py-2 font-medium">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {preview.changes.map((change, index) => (
+                      <tr
+                        key={`${change.line}-${change.materialId ?? index}`}
+                        className="border-b"
+                        style={{ borderColor, color: visualConfig.colors.text.primary }}
+                      >
+                        <td className="px-2 py-2">{change.line}</td>
+                        <td className="px-2 py-2">
+                          <div>{change.name || change.sku || '—'}</div>
+                          <div className="text-xs" style={{ color: visualConfig.colors.text.secondary }}>
+                            {[change.supplierName, change.sku].filter(Boolean).join(' · ')}
+                          </div>
+                        </td>
+                        <td className="px-2 py-2">
+                          {change.materialName || '—'}
+                          {change.matchedBy === 'name' && (
+                            <span className="text-xs ml-1" style={{ color: visualConfig.colors.text.secondary }}>(by name)</span>
+                          )}
+                        </td>
+                        <td className="px-2 py-2 text-right">{change.oldPrice !== null ? `$${change.oldPrice.toFixed(2)}` : '—'}</td>
+                        <td className="px-2 py-2 text-right">{change.newPrice !== null ? `$${change.newPrice.toFixed(2)}` : '—'}</td>
+                        <td className="px-2 py-2 text-right">
+                          {change.status === 'update' && change.changePercent !== null
+                            ? `${change.changePercent > 0 ? '+' : ''}${change.changePercent}%`
+                            : '—'}
+                        </td>
+                        <td className="px-2 py-2">
+                          <span style={{ color: STATUS_LABELS[change.status].color }} title={change.message}>
+                            {STATUS_LABELS[change.status].label}
+                          </span>
+                          {change.message && change.status !== 'unmatched' && (
+                            <div className="text-xs" style={{ color: visualConfig.colors.text.secondary }}>{change.message}</div>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </>
+            )}
+          </div>
+
+          {/* Modal Footer */}
+          <div className="px-6 py-4 border-t flex-shrink-0 flex justify-end space-x-2" style={{ borderColor }}>
+            <button
+              onClick={handleClose}
+              className="px-4 h-11 min-h-[44px] rounded-lg text-sm"
+              style={{ color: visualConfig.colors.text.secondary }}
+            >
+              {resultMessage ? 'Done' : 'Cancel'}
+            </button>
+            <button
+              onClick={handleApply}
+              disabled={!preview || preview.updates === 0 || status !== 'idle'}
+              className="flex items-center space-x-2 px-4 h-11 min-h-[44px] rounded-lg text-sm font-medium transition-all duration-150 active:scale-[0.97] disabled:opacity-50"
+              style={{ backgroundColor: visualConfig.colors.primary, color: '#ffffff' }}
+            >
+              <Icons.Check className="h-5 w-5" />
+              <span>
+                {status === 'applying'
+                  ? 'Applying...'
+                  : `Apply ${preview?.updates ?? 0} ${preview?.updates === 1 ? 'change' : 'changes'}`}
+              </span>
+            </button>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,345 @@
+/**
+ * Purchase Orders Modal
+ *
+ * Generates supplier purchase orders from approved jobs' material
+ * breakdowns, lists the company's orders and moves them from draft to
+ * sent to received, or cancels them. Jobs already on an open order can't
+ * be picked again. Orders print from a self-contained HTML document.
+ */
+
+import React, { useEffect, useState } from 'react';
+import * as Icons from 'lucide-react';
+import { useTheme } from '../../context/ThemeContext';
+import { getSmartVisualThemeConfig } from '../../config/industry';
+import { jobService } from '../../services/JobService';
+import { purchaseOrderService } from '../../services/PurchaseOrderService';
+import { canTransitionPurchaseOrder, findOrderedJobs } from '../../pricing-system/utils/purchase-orders';
+import type { JobListItem } from '../../types/crm';
+import type { PurchaseOrder, PurchaseOrderStatus } from '../../types/purchase-orders';
+
+interface PurchaseOrdersModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  companyId: string;
+  userId: string;
+}
+
+const STATUS_STYLES: Record<PurchaseOrderStatus, { label: string; className: string }> = {
+  draft: { label: 'Draft', className: 'bg-gray-100 text-gray-800' },
+  sent: { label: 'Sent', className: 'bg-blue-100 text-blue-800' },
+  received: { label: 'Received', className: 'bg-green-100 text-green-800' },
+  cancelled: { label: 'Cancelled', className: 'bg-red-100 text-red-800' }
+};
+
+const NEXT_STATUS: Partial<Record<PurchaseOrderStatus, PurchaseOrderStatus>> = {
+  draft: 'sent',
+  sent: 'received'
+};
+
+const formatCurrency = (value: number) =>
+  Number(value).toLocaleString('en-US', { style: 'currency', currency: 'USD' });
+
+export const PurchaseOrdersModal: React.FC<PurchaseOrdersModalProps> = ({
+  isOpen,
+  onClose,
+  companyId,
+  userId,
+}) => {
+  const { theme } = useTheme();
+  const visualConfig = getSmartVisualThemeConfig(theme);
+  const borderColor = theme === 'light' ? '#e5e7eb' : '#374151';
+
+  const [jobs, setJobs] = useState<JobListItem[]>([]);
+  const [selectedJobIds, setSelectedJobIds] = useState<string[]>([]);
+  const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadData = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const [jobList, orderResult] = await Promise.all([
+        jobService.getJobs(companyId, { status: ['approved', 'scheduled', 'in_progress'], limit: 100 }),
+        purchaseOrderService.getPurchaseOrders(companyId)
+      ]);
+      setJobs(jobList.items);
+      if (orderResult.success) {
+        setOrders(orderResult.data || []);
+      } else {
+        setError(orderResult.error || 'Failed to load purchase orders');
+      }
+    } catch {
+      setError('Failed to load jobs');
+    }
+
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    if (isOpen && companyId) {
+      setSelectedJobIds([]);
+      loadData();
+    }
+  }, [isOpen, companyId]);
+
+  const orderedJobs = findOrderedJobs(orders, jobs.map(job => job.id));
+
+  const toggleJob = (jobId: string) => {
+    setSelectedJobIds(ids => ids.includes(jobId) ? ids.filter(id => id !== jobId) : [...ids, jobId]);
+  };
+
+  const handleGenerate = async () => {
+    setIsWorking(true);
+    setError(null);
+
+    const result = await purchaseOrderService.generateFromJobs(companyId, selectedJobIds, userId);
+    if (result.success) {
+      setSelectedJobIds([]);
+      setOrders(current => [...(result.data || []), ...current]);
+    } else {
+      setError(result.error || 'Failed to generate purchase orders');
+    }
+
+    setIsWorking(false);
+  };
+
+  const handleStatus = async (order: PurchaseOrder, status: PurchaseOrderStatus) => {
+    setIsWorking(true);
+    setError(null);
+
+    const result = await purchaseOrderService.updateStatus(order.id, companyId, status, userId);
+    if (result.success && result.data) {
+      setOrders(current => current.map(o => o.id === order.id ? result.data! : o));
+    } else {
+      setError(result.error || 'Failed to update purchase order');
+    }
+
+    setIsWorking(false);
+  };
+
+  const handlePrint = async (order: PurchaseOrder) => {
+    // Open synchronously so the popup isn't blocked
+    const printWindow = window.open('', '_blank');
+    const result = await purchaseOrderService.getDocument(order.id, companyId);
+
+    if (!result.success || !result.data || !printWindow) {
+      printWindow?.close();
+      setError(result.error || 'Allow pop-ups to print purchase orders');
+      return;
+    }
+
+    printWindow.document.write(result.data);
+    printWindow.document.close();
+    printWindow.focus();
+    printWindow.print();
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <>
+      {/* Background Overlay */}
+      <div
+        className="fixed inset-0 bg-black bg-opacity-50 z-[60] animate-overlay-fade-in"
+        onClick={onClose}
+      />
+
+      {/* Modal Container */}
+      <div
+        className="fixed inset-0 z-[60] flex items-center justify-center p-4"
+        onClick={onClose}
+      >
+        <div
+          className="w-full max-w-5xl h-[85vh] rounded-lg shadow-xl animate-scale-in flex flex-col"
+          style={{ backgroundColor: visualConfig.colors.surface }}
+          onClick={(e) => e.stopPropagation()}
+        >
+          {/* Modal Header */}
+          <div className="px-6 py-4 border-b flex-shrink-0 flex items-start justify-between" style={{ borderColor }}>
+            <div>
+              <h2 className="text-xl font-semibold" style={{ color: visualConfig.colors.text.primary }}>
+                Purchase Orders
+              </h2>
+              <p className="text-sm mt-1" style={{ color: visualConfig.colors.text.secondary }}>
+                One order per supplier from the selected jobs' materials, rounded to full packages.
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="h-11 w-11 min-h-[44px] min-w-[44px] flex items-center justify-center rounded-lg hover:bg-opacity-20 transition-all duration-150 active:scale-95"
+              style={{ color: visualConfig.colors.text.secondary }}
+            >
+              <Icons.X className="h-6 w-6" />
+            </button>
+          </div>
+
+          {/* Modal Body */}
+          <div className="flex-1 overflow-y-auto p-6 space-y-6">
+            {error && (
+              <div className="p-4 rounded-lg border-l-4" style={{ backgroundColor: '#fee2e2', borderLeftColor: '#dc2626' }}>
+                <div className="flex items-center">
+                  <Icons.AlertTriangle className="h-5 w-5 text-red-600 mr-2" />
+                  <span className="text-red-800 font-medium">{error}</span>
+                </div>
+              </div>
+            )}
+
+            {isLoading ? (
+              <div className="flex items-center justify-center p-12">
+                <div
+                  className="animate-spin rounded-full h-8 w-8 border-b-2"
+                  style={{ borderColor: visualConfig.colors.primary }}
+                />
+                <span className="ml-3" style={{ color: visualConfig.colors.text.primary }}>
+                  Loading purchase orders...
+                </span>
+              </div>
+            ) : (
+              <>
+                {/* Approved jobs */}
+                <section>
+                  <div className="flex items-center justify-between mb-2">
+                    <h3 className="font-medium" style={{ color: visualConfig.colors.text.primary }}>
+                      Approved jobs
+                    </h3>
+                    <button
+                      onClick={handleGenerate}
+                      disabled={selectedJobIds.length === 0 || isWorking}
+                      className="flex items-center space-x-2 px-4 h-11 min-h-[44px] rounded-lg text-sm font-medium transition-all duration-150 active:scale-[0.97] disabled:opacity-50"
+                      style={{ backgroundColor: visualConfig.colors.primary, color: '#ffffff' }}
+                    >
+                      <Icons.ClipboardList className="h-5 w-5" />
+                      <span>Generate for {selectedJobIds.length} {selectedJobIds.length === 1 ? 'job' : 'jobs'}</span>
+                    </button>
+                  </div>
+
+                  {jobs.length === 0 ? (
+                    <p className="text-sm" style={{ color: visualConfig.colors.text.secondary }}>
+                      No approved or scheduled jobs.
+                    </p>
+                  ) : (
+                    <div className="border rounded-lg divide-y" style={{ borderColor }}>
+                      {jobs.map(job => {
+                        const onOrders = orderedJobs.get(job.id);
+                        return (
+                          <label
+                            key={job.id}
+                            className={`flex items-center gap-3 px-3 py-2 text-sm ${onOrders ? 'opacity-60' : 'cursor-pointer'}`}
+                            style={{ borderColor, color: visualConfig.colors.text.primary }}
+                          >
+                            <input
+                              type="checkbox"
+                              checked={selectedJobIds.includes(job.id)}
+                              disabled={!!onOrders}
+                              onChange={() => toggleJob(job.id)}
+                            />
+                            <span className="font-medium">{job.job_number}</span>
+                            <span className="flex-1 truncate">{job.title}</span>
+                            {onOrders && (
+                              <span style={{ color: '#d97706' }}>On {onOrders.join(', ')}</span>
+                            )}
+                            <span style={{ color: visualConfig.colors.text.secondary }}>{job.customer_name}</span>
+                            {job.scheduled_start_date && (
+                              <span style={{ color: visualConfig.colors.text.secondary }}>
+                                {new Date(job.scheduled_start_date).toLocaleDateString()}
+                              </span>
+                            )}
+                          </label>
+                        );
+                      })}
+                    </div>
+                  )}
+                </section>
+
+                {/* Orders */}
+                <section>
+                  <h3 className="font-medium mb-2" style={{ color: visualConfig.colors.text.primary }}>
+                    Orders
+                  </h3>
+
+                  {orders.length === 0 ? (
+                    <p className="text-sm" style={{ color: visualConfig.colors.text.secondary }}>
+                      No purchase orders yet.
+                    </p>
+                  ) : (
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left border-b" style={{ borderColor, color: visualConfig.colors.text.secondary }}>
+                          <th className="px-2 py-2 font-medium">PO</th>
+                          <th className="px-2 py-2 font-medium">Supplier</th>
+                          <th className="px-2 py-2 font-medium text-right">Lines</th>
+                          <th className="px-2 py-2 font-medium text-right">Subtotal</th>
+                          <th className="px-2 py-2 font-medium">Status</th>
+                          <th className="px-2 py-2" />
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {orders.map(order => {
+                          const next = NEXT_STATUS[order.status];
+                          return (
+                            <tr key={order.id} className="border-b" style={{ borderColor, color: visualConfig.colors.text.primary }}>
+                              <td className="px-2 py-2 font-medium">{order.po_number}</td>
+                              <td className="px-2 py-2">
+                                {order.supplier_name || (
+                                  <span style={{ color: '#d97706' }}>No supplier set</span>
+                                )}
+                              </td>
+                              <td className="px-2 py-2 text-right">{order.lines?.length ?? 0}</td>
+                              <td className="px-2 py-2 text-right">{formatCurrency(order.subtotal)}</td>
+                              <td className="px-2 py-2">
+                                <span className={`inline-flex px-2 py-1 rounded text-xs font-medium ${STATUS_STYLES[order.status].className}`}>
+                                  {STATUS_STYLES[order.status].label}
+                                </span>
+                              </td>
+                              <td className="px-2 py-2">
+                                <div className="flex justify-end gap-2">
+                                  <button
+                                    onClick={() => handlePrint(order)}
+                                    className="flex items-center gap-1 px-3 h-9 rounded-lg border text-xs"
+                                    style={{ borderColor, color: visualConfig.colors.text.secondary }}
+                                  >
+                                    <Icons.Printer className="h-4 w-4" />
+                                    Print
+                                  </button>
+                                  {canTransitionPurchaseOrder(order.status, 'cancelled') && (
+                                    <button
+                                      onClick={() => handleStatus(order, 'cancelled')}
+                                      disabled={isWorking}
+                                      className="flex items-center gap-1 px-3 h-9 rounded-lg border text-xs disabled:opacity-50"
+                                      style={{ borderColor, color: '#dc2626' }}
+                                    >
+                                      <Icons.XCircle className="h-4 w-4" />
+                                      Cancel
+                                    </button>
+                                  )}
+                                  {next && (
+                                    <button
+                                      onClick={() => handleStatus(order, next)}
+                                      disabled={isWorking}
+                                      className="flex items-center gap-1 px-3 h-9 rounded-lg border text-xs disabled:opacity-50"
+                                      style={{ borderColor: visualConfig.colors.primary, color: visualConfig.colors.primary }}
+                                    >
+                                      {next === 'sent' ? <Icons.Send className="h-4 w-4" /> : <Icons.PackageCheck className="h-4 w-4" />}
+                                      Mark {STATUS_STYLES[next].label.toLowerCase()}
+                                    </button>
+                                  )}
+                                </div>
+                              </td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  )}
+                </section>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,218 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import * as Icons from 'lucide-react';
+import { useAuth } from '../../context/AuthContext';
+import { pricingConfigRevisionService } from '../../services/PricingConfigRevisionService';
+import { formatDiffValue } from '../../pricing-system/utils/config-diff';
+import type { ConfigFieldChange, PricingConfigRevision } from '../../types/pricing';
+
+interface ConfigRevisionHistoryProps {
+  serviceName: string;
+  isAdmin: boolean;
+  visualConfig: any;
+  onRolledBack?: () => void;
+}
+
+/**
+ * Revision history for one service config: list of saves, field-level diff
+ * between any two revisions, and rollback (admins only).
+ */
+export const ConfigRevisionHistory: React.FC<ConfigRevisionHistoryProps> = ({
+  serviceName,
+  isAdmin,
+  visualConfig,
+  onRolledBack
+}) => {
+  const { user } = useAuth();
+  const companyId = user?.company_id;
+
+  const [revisions, setRevisions] = useState<PricingConfigRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [fromId, setFromId] = useState<string>('');
+  const [toId, setToId] = useState<string>('');
+  const [changes, setChanges] = useState<ConfigFieldChange[] | null>(null);
+  const [isRollingBack, setIsRollingBack] = useState(false);
+
+  const loadRevisions = useCallback(async () => {
+    if (!companyId) return;
+
+    setIsLoading(true);
+    const result = await pricingConfigRevisionService.getRevisions(companyId, serviceName);
+    setIsLoading(false);
+
+    if (!result.success || !result.data) {
+      setError(result.error || 'Failed to load history');
+      return;
+    }
+
+    setError(null);
+    setRevisions(result.data);
+
+    // Default comparison: previous revision → latest revision
+    if (result.data.length > 1) {
+      setToId(result.data[0].id);
+      setFromId(result.data[1].id);
+    }
+  }, [companyId, serviceName]);
+
+  useEffect(() => {
+    loadRevisions();
+  }, [loadRevisions]);
+
+  useEffect(() => {
+    if (!companyId || !fromId || !toId || fromId === toId) {
+      setChanges(null);
+      return;
+    }
+
+    pricingConfigRevisionService.compareRevisions(fromId, toId, companyId).then(result => {
+      setChanges(result.success && result.data ? result.data : null);
+    });
+  }, [companyId, fromId, toId]);
+
+  const handleRollback = async (revision: PricingConfigRevision) => {
+    if (!companyId) return;
+    if (!window.confirm(`Roll ${serviceName} back to revision ${revision.revision_number}? Current values will be kept in history.`)) {
+      return;
+    }
+
+    setIsRollingBack(true);
+    const result = await pricingConfigRevisionService.rollbackToRevision(revision.id, companyId);
+    setIsRollingBack(false);
+
+    if (!result.success) {
+      setError(result.error || 'Rollback failed');
+      return;
+    }
+
+    await loadRevisions();
+    onRolledBack?.();
+  };
+
+  const revisionLabel = (revision: PricingConfigRevision) => {
+    const author = revision.author?.name || revision.author?.email || 'Unknown';
+    return `Rev ${revision.revision_number} · ${author} · ${new Date(revision.created_at).toLocaleString()}`;
+  };
+
+  if (isLoading) {
+    return (
+      <div className="text-xs py-2" style={{ color: visualConfig.colors.text.secondary }}>
+        Loading history...
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="text-xs py-2 text-red-600 flex items-center">
+        <Icons.AlertTriangle className="h-3 w-3 mr-1" />
+        {error}
+      </div>
+    );
+  }
+
+  if (revisions.length === 0) {
+    return (
+      <div className="text-xs py-2" style={{ color: visualConfig.colors.text.secondary }}>
+        No saved revisions yet.
+      </div>
+    );
+  }
+
+  const revisionNumberById = new Map(revisions.map(r => [r.id, r.revision_number]));
+
+  return (
+    <div className="space-y-3">
+      {/* Revision List */}
+      <div className="space-y-1">
+        {revisions.map((revision, index) => (
+          <div
+            key={revision.id}
+            className="flex items-center justify-between p-2 rounded text-xs"
+            style={{ backgroundColor: visualConfig.colors.background }}
+          >
+            <div style={{ color: visualConfig.colors.text.primary }}>
+              {revisionLabel(revision)}
+              {index === 0 && (
+                <span className="ml-2 px-1.5 py-0.5 rounded" style={{ backgroundColor: visualConfig.colors.primary + '20', color: visualConfig.colors.primary }}>
+                  Live
+                </span>
+              )}
+              {revision.restored_from_revision_id && (
+                <span className="ml-2" style={{ color: visualConfig.colors.text.secondary }}>
+                  (rollback to rev {revisionNumberById.get(revision.restored_from_revision_id) ?? '?'})
+                </span>
+              )}
+            </div>
+            {isAdmin && index > 0 && (
+              <button
+                onClick={() => handleRollback(revision)}
+                disabled={isRollingBack}
+                className="flex items-center space-x-1 px-2 py-1 rounded transition-colors hover:opacity-80 disabled:opacity-50"
+                style={{ color: visualConfig.colors.primary }}
+              >
+                <Icons.RotateCcw className="h-3 w-3" />
+                <span>Roll back</span>
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {/* Compare */}
+      {revisions.length > 1 && (
+        <div className="space-y-2">
+          <div className="flex items-center space-x-2 text-xs" style={{ color: visualConfig.colors.text.secondary }}>
+            <span>Compare</span>
+            <select
+              value={fromId}
+              onChange={(e) => setFromId(e.target.value)}
+              className="border rounded px-1 py-0.5"
+              style={{ backgroundColor: visualConfig.colors.surface, color: visualConfig.colors.text.primary }}
+            >
+              {revisions.map(r => <option key={r.id} value={r.id}>Rev {r.revision_number}</option>)}
+            </select>
+            <Icons.ArrowRight className="h-3 w-3" />
+            <select
+              value={toId}
+              onChange={(e) => setToId(e.target.value)}
+              className="border rounded px-1 py-0.5"
+              style={{ backgroundColor: visualConfig.colors.surface, color: visualConfig.colors.text.primary }}
+            >
+              {revisions.map(r => <option key={r.id} value={r.id}>Rev {r.revision_number}</option>)}
+            </select>
+          </div>
+
+          {changes && changes.length === 0 && (
+            <div className="text-xs" style={{ color: visualConfig.colors.text.secondary }}>
+              No differences.
+            </div>
+          )}
+
+          {changes && changes.length > 0 && (
+            <table className="w-full text-xs">
+              <thead>
+                <tr style={{ color: visualConfig.colors.text.secondary }}>
+                  <th className="text-left font-medium py-1">Field</th>
+                  <th className="text-left font-medium py-1">Before</th>
+                  <th className="text-left font-medium py-1">After</th>
+                </tr>
+              </thead>
+              <tbody>
+                {changes.map(change => (
+                  <tr key={change.path} className="border-t" style={{ borderColor: visualConfig.colors.text.secondary + '20' }}>
+                    <td className="py-1 pr-2 font-mono break-all" style={{ color: visualConfig.colors.text.primary }}>
+                      {change.path}
+                    </td>
+                    <td className="py-1 pr-2 text-red-600 break-all">{formatDiffValue(change.before)}</td>
+                    <td className="py-1 text-green-600 break-all">{formatDiffValue(change.after)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
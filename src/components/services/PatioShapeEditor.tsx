@@ -0,0 +1,281 @@
+import React, { useEffect, useState } from 'react';
+import * as Icons from 'lucide-react';
+import {
+  measurePatioShape,
+  validatePatioShape,
+  type PatioShape,
+  type PolygonSide,
+  type ShapePart
+} from '../../pricing-system/utils/patio-shape';
+import {
+  DEFAULT_UNIT_SYSTEM,
+  formatMeasurement,
+  roundForDisplay,
+  toCanonicalUnits,
+  toDisplayUnits,
+  type UnitSystem
+} from '../../pricing-system/utils/unit-system';
+
+interface PatioShapeEditorProps {
+  shape: PatioShape | null;
+  currentSqft: number;
+  onChange: (shape: PatioShape | null) => void;
+  visualConfig: any;
+  unitSystem?: UnitSystem; // Lengths are entered in metres for metric companies, stored in feet
+}
+
+const PART_TYPES: Array<{ value: ShapePart['type']; label: string }> = [
+  { value: 'rectangle', label: 'Rectangle' },
+  { value: 'circle', label: 'Circle' },
+  { value: 'arc', label: 'Arc' },
+  { value: 'polygon', label: 'Sides' }
+];
+
+const defaultPart = (type: ShapePart['type']): ShapePart => {
+  switch (type) {
+    case 'rectangle': return { type, length: 10, width: 10 };
+    case 'circle': return { type, diameter: 10 };
+    case 'arc': return { type, radius: 5, angle: 180 };
+    case 'polygon': return { type, sides: [10, 10, 10, 10] };
+  }
+};
+
+// "20, 12, 10@270" - a side length, optionally @ the interior angle at its end
+const formatSides = (sides: Array<number | PolygonSide>, unitSystem: UnitSystem) =>
+  sides.map(side => {
+    const length = roundForDisplay(typeof side === 'number' ? side : side.length, 'length', unitSystem, 2);
+    return typeof side === 'number' || side.angle === undefined ? String(length) : `${length}@${side.angle}`;
+  }).join(', ');
+
+const parseSides = (text: string, unitSystem: UnitSystem): Array<number | PolygonSide> =>
+  text.split(',').map(entry => entry.trim()).filter(Boolean).map(entry => {
+    const [entered, angle] = entry.split('@').map(value => parseFloat(value));
+    const length = toCanonicalUnits(entered, 'length', unitSystem);
+    return angle === undefined || Number.isNaN(angle) ? length : { length, angle };
+  });
+
+/**
+ * Patio outline editor for the Quick Calculator
+ * Valid shapes are passed up; their area replaces the square footage input.
+ */
+export const PatioShapeEditor: React.FC<PatioShapeEditorProps> = ({
+  shape,
+  currentSqft,
+  onChange,
+  visualConfig,
+  unitSystem = DEFAULT_UNIT_SYSTEM
+}) => {
+  const [draft, setDraft] = useState<PatioShape | null>(shape);
+  const [sidesText, setSidesText] = useState<Record<number, string>>({});
+
+  useEffect(() => {
+    setDraft(shape);
+  }, [shape]);
+
+  const problem = draft ? validatePatioShape(draft) : null;
+  const measurement = draft && !problem ? measurePatioShape(draft) : null;
+
+  const updateDraft = (next: PatioShape) => {
+    setDraft(next);
+    if (!validatePatioShape(next)) {
+      onChange(next);
+    }
+  };
+
+  const updatePart = (index: number, changes: Partial<ShapePart>) => {
+    if (!draft) return;
+    updateDraft({
+      parts: draft.parts.map((part, i) => (i === index ? { ...part, ...changes } as ShapePart : part))
+    });
+  };
+
+  const changeType = (index: number, type: ShapePart['type']) => {
+    if (!draft) return;
+    const { subtract, sharedEdge } = draft.parts[index];
+    setSidesText(current => {
+      const next = { ...current };
+      delete next[index];
+      return next;
+    });
+    updateDraft({
+      parts: draft.parts.map((part, i) => (i === index ? { ...defaultPart(type), subtract, sharedEdge } : part))
+    });
+  };
+
+  const removePart = (index: number) => {
+    if (!draft) return;
+    setSidesText({});
+    updateDraft({ parts: draft.parts.filter((_, i) => i !== index) });
+  };
+
+  const startShape = () => {
+    // Whole feet or metres on a side
+    const side = toCanonicalUnits(
+      Math.max(1, Math.round(Math.sqrt(toDisplayUnits(currentSqft, 'area', unitSystem)))),
+      'length',
+      unitSystem
+    );
+    updateDraft({ parts: [{ type: 'rectangle', length: side, width: side }] });
+  };
+
+  const clearShape = () => {
+    setDraft(null);
+    setSidesText({});
+    onChange(null);
+  };
+
+  const inputStyle = {
+    backgroundColor: visualConfig.colors.surface,
+    borderColor: visualConfig.colors.text.secondary + '40',
+    color: visualConfig.colors.text.primary
+  };
+
+  const numberField = (label: string, value: number | undefined, onValue: (value: number) => void) => (
+    <label className="flex flex-col text-xs" style={{ color: visualConfig.colors.text.secondary }}>
+      {label}
+      <input
+        type="number"
+        min="0"
+        step="0.5"
+        value={value ?? ''}
+        onChange={(e) => onValue(parseFloat(e.target.value) || 0)}
+        className="w-20 p-1 border rounded text-sm"
+        style={inputStyle}
+      />
+    </label>
+  );
+
+  // Feet on the shape, metres in the field for metric companies
+  const lengthField = (label: string, value: number | undefined, onValue: (value: number) => void) =>
+    numberField(
+      label,
+      value === undefined ? undefined : roundForDisplay(value, 'length', unitSystem, 2),
+      entered => onValue(toCanonicalUnits(entered, 'length', unitSystem))
+    );
+
+  if (!draft) {
+    return (
+      <button
+        onClick={startShape}
+        className="flex items-center gap-1 text-xs hover:opacity-70 transition-opacity"
+        style={{ color: visualConfig.colors.primary }}
+      >
+        <Icons.Shapes className="h-3 w-3" />
+        Irregular shape (L-shape, curves, cut-outs)
+      </button>
+    );
+  }
+
+  return (
+    <div
+      className="p-3 rounded-lg border space-y-3"
+      style={{ borderColor: visualConfig.colors.text.secondary + '40' }}
+    >
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium" style={{ color: visualConfig.colors.text.primary }}>
+          Patio Shape ({unitSystem === 'metric' ? 'metres' : 'feet'})
+        </span>
+        <button
+          onClick={clearShape}
+          className="text-xs hover:opacity-70 transition-opacity"
+          style={{ color: visualConfig.colors.text.secondary }}
+        >
+          {unitSystem === 'metric' ? 'Use area' : 'Use square footage'}
+        </button>
+      </div>
+
+      {draft.parts.map((part, index) => (
+        <div key={index} className="space-y-2 pb-2 border-b" style={{ borderColor: visualConfig.colors.text.secondary + '20' }}>
+          <div className="flex items-center gap-2">
+            <select
+              value={part.type}
+              onChange={(e) => changeType(index, e.target.value as ShapePart['type'])}
+              className="p-1 border rounded text-sm"
+              style={inputStyle}
+            >
+              {PART_TYPES.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            {index > 0 && (
+              <select
+                value={part.subtract ? 'subtract' : 'add'}
+                onChange={(e) => updatePart(index, { subtract: e.target.value === 'subtract' })}
+                className="p-1 border rounded text-sm"
+                style={inputStyle}
+              >
+                <option value="add">Add</option>
+                <option value="subtract">Cut out</option>
+              </select>
+            )}
+            {index > 0 && (
+              <button
+                onClick={() => removePart(index)}
+                className="ml-auto p-1 rounded hover:opacity-70 transition-opacity"
+                style={{ color: visualConfig.colors.text.secondary }}
+              >
+                <Icons.Trash2 className="h-4 w-4" />
+              </button>
+            )}
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            {part.type === 'rectangle' && (
+              <>
+                {lengthField('Length', part.length, length => updatePart(index, { length }))}
+                {lengthField('Width', part.width, width => updatePart(index, { width }))}
+                {lengthField('Corner radius', part.cornerRadius, cornerRadius => updatePart(index, { cornerRadius }))}
+              </>
+            )}
+            {part.type === 'circle' &&
+              lengthField('Diameter', part.diameter, diameter => updatePart(index, { diameter }))}
+            {part.type === 'arc' && (
+              <>
+                {lengthField('Radius', part.radius, radius => updatePart(index, { radius }))}
+                {numberField('Angle °', part.angle, angle => updatePart(index, { angle }))}
+              </>
+            )}
+            {part.type === 'polygon' && (
+              <label className="flex flex-col text-xs flex-1" style={{ color: visualConfig.colors.text.secondary }}>
+                Sides (length@corner angle, default 90°)
+                <input
+                  type="text"
+                  value={sidesText[index] ?? formatSides(part.sides, unitSystem)}
+                  onChange={(e) => {
+                    setSidesText({ ...sidesText, [index]: e.target.value });
+                    updatePart(index, { sides: parseSides(e.target.value, unitSystem) });
+                  }}
+                  placeholder="20, 12, 10, 8@270, 10, 20"
+                  className="p-1 border rounded text-sm"
+                  style={inputStyle}
+                />
+              </label>
+            )}
+            {index > 0 &&
+              lengthField('Shared edge', part.sharedEdge, sharedEdge => updatePart(index, { sharedEdge }))}
+          </div>
+        </div>
+      ))}
+
+      <button
+        onClick={() => updateDraft({ parts: [...draft.parts, { ...defaultPart('rectangle'), sharedEdge: 10 }] })}
+        className="flex items-center gap-1 text-xs hover:opacity-70 transition-opacity"
+        style={{ color: visualConfig.colors.primary }}
+      >
+        <Icons.Plus className="h-3 w-3" />
+        Add part
+      </button>
+
+      {problem ? (
+        <div className="text-xs" style={{ color: visualConfig.colors.error || '#dc2626' }}>
+          {problem}
+        </div>
+      ) : measurement && (
+        <div className="flex justify-between text-xs" style={{ color: visualConfig.colors.text.secondary }}>
+          <span>{formatMeasurement(measurement.area, 'area', unitSystem, 1)}</span>
+          <span>{formatMeasurement(measurement.perimeter, 'length', unitSystem, 1)} edge</span>
+        </div>
+      )}
+    </div>
+  );
+};
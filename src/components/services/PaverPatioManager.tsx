@@ -6,17 +6,21 @@ import { VariableSlider } from './VariableSlider';
 import { ToggleInput } from './service-modals/shared/ToggleInput';
 import { PricingPreview } from './PricingPreview';
 import type { PaverPatioValues } from '../../pricing-system/core/master-formula/formula-types';
+import { DEFAULT_UNIT_SYSTEM, formatPricePerUnit, type UnitSystem } from '../../pricing-system/utils/unit-system';
+import { LAYING_PATTERNS, resolveLayingPattern, type LayingPattern } from '../../pricing-system/utils/paver-layout';
 
 interface PaverPatioManagerProps {
   visualConfig: any;
   theme: 'light' | 'dark';
   store: ReturnType<typeof usePaverPatioStore>; // Store passed from parent to prevent duplicate instances
+  unitSystem?: UnitSystem; // Company units for sizes and per-area prices
 }
 
 export const PaverPatioManager: React.FC<PaverPatioManagerProps> = ({
   visualConfig,
   theme,
   store, // Receive store from parent instead of creating new instance
+  unitSystem = DEFAULT_UNIT_SYSTEM,
 }) => {
   // ✅ REMOVED: const { user } = useAuth();
   // ✅ REMOVED: const store = usePaverPatioStore(user?.company_id);
@@ -331,13 +335,38 @@ export const PaverPatioManager: React.FC<PaverPatioManagerProps> = ({
                         <div className="text-xs" style={{ color: visualConfig.colors.text.secondary }}>
                           {category.quantities.quantityDisplay}
                         </div>
+                        {category.substitution && (
+                          <div className="flex items-center text-xs mt-0.5" style={{ color: '#d97706' }}>
+                            <Icons.Replace className="h-3 w-3 mr-1" />
+                            {category.substitution.note}
+                          </div>
+                        )}
+                        {/* Laying pattern drives piece count, cuts and cut labor */}
+                        {category.calculationMethod === 'paver_layout' && category.quantities.layout && (
+                          <select
+                            value={resolveLayingPattern(categoryValues?.layoutPattern)}
+                            onChange={(e) => handleValueChange('materials', 'layoutPattern', e.target.value)}
+                            className="mt-1 px-2 py-1 text-xs rounded border"
+                            style={{
+                              backgroundColor: visualConfig.colors.surface,
+                              borderColor: visualConfig.colors.text.secondary + '40',
+                              color: visualConfig.colors.text.primary
+                            }}
+                          >
+                            {(Object.keys(LAYING_PATTERNS) as LayingPattern[]).map(pattern => (
+                              <option key={pattern} value={pattern}>
+                                {LAYING_PATTERNS[pattern].label}
+                              </option>
+                            ))}
+                          </select>
+                        )}
                       </div>
                       <div className="text-right">
                         <div className="text-xs font-semibold" style={{ color: visualConfig.colors.primary }}>
                           ${category.subtotal.toFixed(2)}
                         </div>
                         <div className="text-xs" style={{ color: visualConfig.colors.text.secondary }}>
-                          ${(category.subtotal / store.sqft).toFixed(2)}/sqft
+                          {formatPricePerUnit(category.subtotal, store.sqft, 'area', unitSystem)}
                         </div>
                       </div>
                     </div>
@@ -355,7 +384,7 @@ export const PaverPatioManager: React.FC<PaverPatioManagerProps> = ({
                         ${store.lastCalculation.tier2Results.materialBreakdown.totalMaterialCost.toFixed(2)}
                       </div>
                       <div className="text-xs" style={{ color: visualConfig.colors.text.secondary }}>
-                        ${store.lastCalculation.tier2Results.materialBreakdown.costPerSquareFoot.toFixed(2)}/sqft
+                        {formatPricePerUnit(store.lastCalculation.tier2Results.materialBreakdown.totalMaterialCost, store.sqft, 'area', unitSystem)}
                       </div>
                     </div>
                   </div>
@@ -448,8 +477,12 @@ export const PaverPatioManager: React.FC<PaverPatioManagerProps> = ({
             <PricingPreview
               calculation={store.lastCalculation}
               onCalculate={store.calculatePrice}
+              error={store.calculationError}
               visualConfig={visualConfig}
               initialSqft={store.sqft}
+              shape={store.values.shape ?? null}
+              onShapeChange={store.setShape}
+              unitSystem={unitSystem}
             />
           </div>
         </div>
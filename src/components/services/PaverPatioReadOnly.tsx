@@ -304,6 +304,7 @@ export const PaverPatioReadOnly: React.FC<PaverPatioReadOnlyProps> = ({
             <PricingPreview
               calculation={store.lastCalculation}
               onCalculate={store.calculatePrice}
+              error={store.calculationError}
               visualConfig={visualConfig}
             />
             
@@ -1,6 +1,25 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import * as Icons from 'lucide-react';
 import type { PaverPatioCalculationResult } from '../../pricing-system/core/master-formula/formula-types';
+import { formatTraceStep } from '../../pricing-system/core/calculations/pricing-trace';
+import { bundleLineAmount } from '../../pricing-system/core/calculations/service-bundles';
+import { describeSeasonalAdjustment } from '../../pricing-system/core/calculations/seasonal-pricing';
+import { measurePatioShape, type PatioShape } from '../../pricing-system/utils/patio-shape';
+import { PatioShapeEditor } from './PatioShapeEditor';
+import {
+  DEFAULT_UNIT_SYSTEM,
+  UNIT_LABELS,
+  formatMeasurement,
+  roundForDisplay,
+  toCanonicalUnits,
+  type UnitSystem
+} from '../../pricing-system/utils/unit-system';
+
+// Quick Size presets in the company's area unit
+const QUICK_SIZES: Record<UnitSystem, number[]> = {
+  imperial: [100, 200, 300, 500],
+  metric: [10, 20, 30, 50]
+};
 
 interface PricingPreviewProps {
   calculation: PaverPatioCalculationResult | null;
@@ -8,6 +27,10 @@ interface PricingPreviewProps {
   visualConfig: any;
   className?: string;
   initialSqft?: number; // Allow passing initial sqft from store
+  shape?: PatioShape | null; // Irregular outline - its area drives the square footage
+  onShapeChange?: (shape: PatioShape | null) => void;
+  unitSystem?: UnitSystem; // Size is entered in m² for metric companies - onCalculate still gets sqft
+  error?: string | null; // The current size and options can't be priced - shown instead of the price
 }
 
 export const PricingPreview: React.FC<PricingPreviewProps> = ({
@@ -16,14 +39,32 @@ export const PricingPreview: React.FC<PricingPreviewProps> = ({
   visualConfig,
   className = '',
   initialSqft = 100, // Default to 100 if not provided
+  shape = null,
+  onShapeChange,
+  unitSystem = DEFAULT_UNIT_SYSTEM,
+  error = null,
 }) => {
-  const [sqft, setSqft] = useState<string>(initialSqft.toString());
+  // Size as typed, in the company's area unit
+  const [sqft, setSqft] = useState<string>(roundForDisplay(initialSqft, 'area', unitSystem).toString());
   const [showBreakdown, setShowBreakdown] = useState(false);
+  const areaLabel = UNIT_LABELS[unitSystem].area;
+
+  // Company units load after the calculator opens - re-show the size in them
+  useEffect(() => {
+    setSqft(roundForDisplay(initialSqft, 'area', unitSystem).toString());
+  }, [unitSystem]);
 
   const handleSqftChange = (value: string) => {
     setSqft(value);
     const numValue = parseFloat(value) || 1;
-    onCalculate(numValue);
+    onCalculate(toCanonicalUnits(numValue, 'area', unitSystem));
+  };
+
+  const handleShapeChange = (next: PatioShape | null) => {
+    if (next) {
+      setSqft(roundForDisplay(measurePatioShape(next).area, 'area', unitSystem).toString());
+    }
+    onShapeChange?.(next);
   };
 
   // Safe access to calculation values with defaults
@@ -34,10 +75,24 @@ export const PricingPreview: React.FC<PricingPreviewProps> = ({
   const getExcavationCost = () => calculation?.tier2Results?.excavationCost ?? 0;
   const getExcavationDetails = () => calculation?.tier2Results?.excavationDetails;
   const getExcavationHours = () => calculation?.tier1Results?.excavationHours ?? 0;
+  const getBundledServices = () => calculation?.tier2Results?.bundledServices ?? [];
+  const getBundleMobilization = () => calculation?.tier2Results?.bundleMobilization ?? 0;
   const getPaverPatioHours = () => calculation?.tier1Results?.paverPatioHours ?? 0;
   const getEquipmentCost = () => calculation?.tier2Results?.equipmentCost ?? 0;
+  const getEquipmentLines = () => calculation?.tier2Results?.equipmentLines ?? [];
+  // daily_equipment_cost variables, outside the catalog lines
+  const getOtherEquipmentCost = () =>
+    getEquipmentCost() - getEquipmentLines().reduce((sum, line) => sum + line.cost, 0);
   const getObstacleCost = () => calculation?.tier2Results?.obstacleCost ?? 0;
   const getProfit = () => calculation?.tier2Results?.profit ?? 0;
+  const getSeasonal = () => calculation?.tier2Results?.seasonal;
+  // Already inside labor and profit - shown for the salesperson
+  const getSeasonalAmount = () => {
+    const seasonal = getSeasonal();
+    return seasonal ? seasonal.laborAdjustment + seasonal.profitAdjustment + seasonal.backlogSurcharge : 0;
+  };
+  const getVolumeDiscount = () => calculation?.tier2Results?.volumeDiscount ?? 0;
+  const getMinimumChargeAdjustment = () => calculation?.tier2Results?.minimumChargeAdjustment ?? 0;
   const getTotalHours = () => calculation?.tier1Results?.totalManHours ?? 0;
   const getTotalDays = () => calculation?.tier1Results?.totalDays ?? 0;
 
@@ -67,16 +122,17 @@ export const PricingPreview: React.FC<PricingPreviewProps> = ({
       {/* Square Footage Input */}
       <div className="space-y-2">
         <label className="text-sm font-medium" style={{ color: visualConfig.colors.text.primary }}>
-          Project Size (Square Feet)
+          Project Size ({unitSystem === 'metric' ? 'Square Metres' : 'Square Feet'})
         </label>
         <div className="flex items-center space-x-2">
           <input
             type="number"
             value={sqft}
             onChange={(e) => handleSqftChange(e.target.value)}
+            disabled={!!shape}
             min="1"
             max="10000"
-            step="1"
+            step={unitSystem === 'metric' ? '0.1' : '1'}
             className="flex-1 p-2 border rounded-lg text-sm"
             style={{
               backgroundColor: visualConfig.colors.surface,
@@ -85,13 +141,32 @@ export const PricingPreview: React.FC<PricingPreviewProps> = ({
             }}
           />
           <span className="text-sm" style={{ color: visualConfig.colors.text.secondary }}>
-            sq ft
+            {areaLabel}
           </span>
         </div>
+        {onShapeChange && (
+          <PatioShapeEditor
+            shape={shape}
+            currentSqft={parseFloat(sqft) ? toCanonicalUnits(parseFloat(sqft), 'area', unitSystem) : initialSqft}
+            onChange={handleShapeChange}
+            visualConfig={visualConfig}
+            unitSystem={unitSystem}
+          />
+        )}
       </div>
 
+      {error && (
+        <div className="p-4 rounded-lg border-l-4" style={{ backgroundColor: '#fee2e2', borderLeftColor: '#dc2626' }}>
+          <div className="flex items-center">
+            <Icons.AlertTriangle className="h-5 w-5 text-red-600 mr-2" />
+            <span className="text-red-800 font-medium">Can't price this project</span>
+          </div>
+          <p className="text-red-700 text-sm mt-1">{error}</p>
+        </div>
+      )}
+
       {/* Price Display */}
-      <div 
+      {!error && <div 
         className="p-4 rounded-lg border-2"
         style={{ 
           backgroundColor: visualConfig.colors.primary + '08',
@@ -116,7 +191,7 @@ export const PricingPreview: React.FC<PricingPreviewProps> = ({
         </div>
 
         <div className="text-sm mt-1" style={{ color: visualConfig.colors.text.secondary }}>
-          ${(getTotal() / parseFloat(sqft || '1')).toFixed(2)} per sq ft
+          ${(getTotal() / parseFloat(sqft || '1')).toFixed(2)} per {areaLabel}
         </div>
 
         <div className="text-xs mt-1" style={{ color: visualConfig.colors.text.secondary }}>
@@ -125,15 +200,15 @@ export const PricingPreview: React.FC<PricingPreviewProps> = ({
         <div className="text-xs" style={{ color: visualConfig.colors.text.secondary }}>
           {getTotalDays().toFixed(1)} business days
         </div>
-      </div>
+      </div>}
 
-      {/* Quick Size Presets */}
-      <div className="space-y-2">
+      {/* Quick Size Presets - the shape sets the size while one is drawn */}
+      {!shape && <div className="space-y-2">
         <span className="text-xs font-medium" style={{ color: visualConfig.colors.text.secondary }}>
           Quick Sizes:
         </span>
         <div className="grid grid-cols-4 gap-2">
-          {[100, 200, 300, 500].map(size => (
+          {QUICK_SIZES[unitSystem].map(size => (
             <button
               key={size}
               onClick={() => handleSqftChange(size.toString())}
@@ -149,14 +224,14 @@ export const PricingPreview: React.FC<PricingPreviewProps> = ({
                 ringColor: visualConfig.colors.primary,
               }}
             >
-              {size} sq ft
+              {size} {areaLabel}
             </button>
           ))}
         </div>
-      </div>
+      </div>}
 
       {/* Detailed Breakdown */}
-      {showBreakdown && (
+      {showBreakdown && !error && (
         <div 
           className="p-4 rounded-lg space-y-3"
           style={{ 
@@ -224,13 +299,20 @@ export const PricingPreview: React.FC<PricingPreviewProps> = ({
               {calculation?.tier2Results?.materialBreakdown && (
                 <div className="pl-4 space-y-1 mt-1">
                   {calculation.tier2Results.materialBreakdown.categories.map(cat => (
-                    <div key={cat.categoryKey} className="flex justify-between text-xs">
-                      <span style={{ color: visualConfig.colors.text.secondary }}>
-                        • {cat.categoryLabel}:
-                      </span>
-                      <span style={{ color: visualConfig.colors.text.primary }}>
-                        ${cat.subtotal.toFixed(2)}
-                      </span>
+                    <div key={cat.categoryKey}>
+                      <div className="flex justify-between text-xs">
+                        <span style={{ color: visualConfig.colors.text.secondary }}>
+                          • {cat.categoryLabel}:
+                        </span>
+                        <span style={{ color: visualConfig.colors.text.primary }}>
+                          ${cat.subtotal.toFixed(2)}
+                        </span>
+                      </div>
+                      {cat.substitution && (
+                        <div className="pl-3 text-xs" style={{ color: '#d97706' }}>
+                          {cat.substitution.note}
+                        </div>
+                      )}
                     </div>
                   ))}
                 </div>
@@ -239,13 +321,33 @@ export const PricingPreview: React.FC<PricingPreviewProps> = ({
               {getExcavationCost() > 0 && (
                 <div className="flex justify-between text-xs">
                   <span style={{ color: visualConfig.colors.text.secondary }}>
-                    Excavation ({getExcavationDetails()?.cubicYards} cubic yards @ {getExcavationDetails()?.depth}" depth):
+                    {unitSystem === 'metric'
+                      ? `Excavation (${formatMeasurement(getExcavationDetails()?.cubicYards ?? 0, 'volume', unitSystem)} @ ${formatMeasurement(getExcavationDetails()?.depth ?? 0, 'depth', unitSystem)} depth):`
+                      : `Excavation (${getExcavationDetails()?.cubicYards} cubic yards @ ${getExcavationDetails()?.depth}" depth):`}
                   </span>
                   <span style={{ color: visualConfig.colors.text.primary }}>
                     ${getExcavationCost().toFixed(2)}
                   </span>
                 </div>
               )}
+              {getBundledServices().map(bundle => (
+                <div key={bundle.key} className="flex justify-between text-xs">
+                  <span style={{ color: visualConfig.colors.text.secondary }}>
+                    {bundle.label} ({bundle.quantity} {bundle.unit}, {bundle.hours} hrs):
+                  </span>
+                  <span style={{ color: visualConfig.colors.text.primary }}>
+                    ${bundleLineAmount(bundle).toFixed(2)}
+                  </span>
+                </div>
+              ))}
+              {getBundleMobilization() > 0 && (
+                <div className="flex justify-between text-xs">
+                  <span style={{ color: visualConfig.colors.text.secondary }}>Shared Mobilization:</span>
+                  <span style={{ color: visualConfig.colors.text.primary }}>
+                    ${getBundleMobilization().toFixed(2)}
+                  </span>
+                </div>
+              )}
               {getObstacleCost() > 0 && (
                 <div className="flex justify-between text-xs">
                   <span style={{ color: visualConfig.colors.text.secondary }}>Obstacles:</span>
@@ -254,6 +356,24 @@ export const PricingPreview: React.FC<PricingPreviewProps> = ({
                   </span>
                 </div>
               )}
+              {getEquipmentLines().map(line => (
+                <div key={line.equipmentId} className="flex justify-between text-xs">
+                  <span style={{ color: visualConfig.colors.text.secondary }}>
+                    {line.name} ({line.quantity} × {line.days} day{line.days === 1 ? '' : 's'}{line.ownership === 'rented' ? ', rented' : ''}):
+                  </span>
+                  <span style={{ color: visualConfig.colors.text.primary }}>
+                    ${line.cost.toFixed(2)}
+                  </span>
+                </div>
+              ))}
+              {getOtherEquipmentCost() >= 0.01 && (
+                <div className="flex justify-between text-xs">
+                  <span style={{ color: visualConfig.colors.text.secondary }}>Equipment:</span>
+                  <span style={{ color: visualConfig.colors.text.primary }}>
+                    ${getOtherEquipmentCost().toFixed(2)}
+                  </span>
+                </div>
+              )}
             </div>
 
             <div className="flex justify-between text-sm border-t pt-2"
@@ -271,6 +391,35 @@ export const PricingPreview: React.FC<PricingPreviewProps> = ({
               </span>
             </div>
 
+            {getSeasonal() && (
+              <div className="flex justify-between text-xs">
+                <span style={{ color: visualConfig.colors.text.secondary }}>
+                  Seasonal Pricing ({describeSeasonalAdjustment(getSeasonal()!)}):
+                </span>
+                <span style={{ color: visualConfig.colors.text.primary }}>
+                  {getSeasonalAmount() < 0 ? '−' : '+'}${Math.abs(getSeasonalAmount()).toFixed(2)} included
+                </span>
+              </div>
+            )}
+
+            {getVolumeDiscount() > 0 && (
+              <div className="flex justify-between text-xs">
+                <span style={{ color: visualConfig.colors.text.secondary }}>Volume Discount:</span>
+                <span style={{ color: visualConfig.colors.text.primary }}>
+                  −${getVolumeDiscount().toFixed(2)}
+                </span>
+              </div>
+            )}
+
+            {getMinimumChargeAdjustment() > 0 && (
+              <div className="flex justify-between text-xs">
+                <span style={{ color: visualConfig.colors.text.secondary }}>Minimum Job Charge Adjustment:</span>
+                <span style={{ color: visualConfig.colors.text.primary }}>
+                  +${getMinimumChargeAdjustment().toFixed(2)}
+                </span>
+              </div>
+            )}
+
             <div className="flex justify-between text-sm font-bold border-t pt-2"
                  style={{ borderColor: visualConfig.colors.primary }}>
               <span style={{ color: visualConfig.colors.text.primary }}>Final Total:</span>
@@ -280,6 +429,37 @@ export const PricingPreview: React.FC<PricingPreviewProps> = ({
             </div>
           </div>
 
+          {/* Margin Floor Warning */}
+          {calculation?.tier2Results?.belowMarginFloor && (
+            <div className="flex items-center gap-2 px-3 py-2 rounded text-xs"
+                 style={{ backgroundColor: '#F59E0B20', color: '#B45309' }}>
+              <Icons.AlertTriangle className="h-4 w-4 flex-shrink-0" />
+              <span>
+                Margin is {((calculation.tier2Results.effectiveMargin ?? 0) * 100).toFixed(1)}% - below this service's margin floor
+              </span>
+            </div>
+          )}
+
+          {/* Explain Mode Trace */}
+          {(calculation?.trace?.length ?? 0) > 0 && (
+            <div className="space-y-2">
+              <div className="text-xs font-medium" style={{ color: visualConfig.colors.text.secondary }}>
+                Step-by-Step Trace:
+              </div>
+              <ol className="text-xs space-y-1 font-mono" style={{ color: visualConfig.colors.text.primary }}>
+                {calculation.trace!.map(step => (
+                  <li
+                    key={step.step}
+                    className="pl-2"
+                    style={{ color: step.variableKey ? visualConfig.colors.text.primary : visualConfig.colors.text.secondary }}
+                  >
+                    {formatTraceStep(step)}
+                  </li>
+                ))}
+              </ol>
+            </div>
+          )}
+
           {/* Formula Display */}
           <div className="mt-4 p-3 rounded" style={{ backgroundColor: visualConfig.colors.background }}>
             <span className="text-xs font-medium" style={{ color: visualConfig.colors.text.secondary }}>
@@ -1,6 +1,8 @@
 import React, { useState } from 'react';
 import * as Icons from 'lucide-react';
 import { AdminEditableField } from './AdminEditableField';
+import { ConfigRevisionHistory } from './ConfigRevisionHistory';
+import type { PricingRules } from '../../pricing-system/core/calculations/pricing-rules';
 
 interface ServiceConfig {
   service: string;
@@ -20,6 +22,7 @@ interface ServiceConfig {
       };
     };
   };
+  pricingRules?: PricingRules;
   variables?: any;
   lastModified: string;
 }
@@ -28,6 +31,7 @@ interface ServiceRecordCardProps {
   service: ServiceConfig;
   isAdmin: boolean;
   onUpdateSetting: (serviceId: string, setting: string, value: number) => void;
+  onRolledBack?: () => void;
   visualConfig: any;
 }
 
@@ -35,9 +39,11 @@ export const ServiceRecordCard: React.FC<ServiceRecordCardProps> = ({
   service,
   isAdmin,
   onUpdateSetting,
+  onRolledBack,
   visualConfig
 }) => {
   const [showHiddenMultipliers, setShowHiddenMultipliers] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
 
   const handleSettingUpdate = (setting: string, value: number) => {
     console.log('🔍 [UI DEBUG] Admin saving setting:', {
@@ -185,6 +191,16 @@ export const ServiceRecordCard: React.FC<ServiceRecordCardProps> = ({
               />
             ))}
           </div>
+          {service.pricingRules?.volumeDiscounts && (
+            <div className="mt-3 text-xs" style={{ color: visualConfig.colors.text.secondary }}>
+              Volume discounts:{' '}
+              {service.pricingRules.volumeDiscounts.tiers.map(tier => (
+                service.pricingRules!.volumeDiscounts!.basis === 'total'
+                  ? `${tier.percentage}% over $${tier.threshold.toLocaleString()}`
+                  : `${tier.percentage}% at ${tier.threshold.toLocaleString()}+ sqft`
+              )).join(' · ')}
+            </div>
+          )}
         </div>
 
         {/* Divider */}
@@ -246,13 +262,35 @@ export const ServiceRecordCard: React.FC<ServiceRecordCardProps> = ({
               <span style={{ color: visualConfig.colors.text.secondary }}>
                 Last updated: {service.lastModified}
               </span>
-              {isAdmin && (
-                <span style={{ color: visualConfig.colors.primary }}>
-                  <Icons.Shield className="h-3 w-3 inline mr-1" />
-                  Admin Access
-                </span>
-              )}
+              <div className="flex items-center space-x-3">
+                <button
+                  onClick={() => setShowHistory(!showHistory)}
+                  className="flex items-center space-x-1 transition-colors hover:opacity-80"
+                  style={{ color: visualConfig.colors.text.secondary }}
+                >
+                  <Icons.History className="h-3 w-3" />
+                  <span>{showHistory ? 'Hide' : 'View'} History</span>
+                </button>
+                {isAdmin && (
+                  <span style={{ color: visualConfig.colors.primary }}>
+                    <Icons.Shield className="h-3 w-3 inline mr-1" />
+                    Admin Access
+                  </span>
+                )}
+              </div>
             </div>
+
+            {/* Revision History */}
+            {showHistory && (
+              <div className="mt-3">
+                <ConfigRevisionHistory
+                  serviceName={service.serviceId}
+                  isAdmin={isAdmin}
+                  visualConfig={visualConfig}
+                  onRolledBack={onRolledBack}
+                />
+              </div>
+            )}
           </div>
         </div>
       </div>
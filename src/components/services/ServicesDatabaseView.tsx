@@ -18,7 +18,7 @@ export const ServicesDatabaseView: React.FC<ServicesDatabaseViewProps> = ({
   userName = 'User'
 }) => {
   const { user } = useAuth();
-  const { services, isLoading, error, updateBaseSetting } = useServiceBaseSettings(user?.company_id, user?.id);
+  const { services, isLoading, error, updateBaseSetting, refreshServices } = useServiceBaseSettings(user?.company_id, user?.id);
   const [searchTerm, setSearchTerm] = useState('');
 
   if (isLoading) {
@@ -161,6 +161,7 @@ export const ServicesDatabaseView: React.FC<ServicesDatabaseViewProps> = ({
               service={service}
               isAdmin={isAdmin}
               onUpdateSetting={updateBaseSetting}
+              onRolledBack={refreshServices}
               visualConfig={visualConfig}
             />
           ))
@@ -0,0 +1,175 @@
+import React from 'react';
+import { NumberInput } from './NumberInput';
+import { normalizeProductivityCurve } from '../../../../pricing-system/core/calculations/excavation-productivity';
+import type { ExcavationProductivityCurve } from '../../../../pricing-system/core/master-formula/formula-types';
+
+interface CurveEditorProps {
+  label: string;
+  description?: string;
+  value: unknown;
+  onChange: (curve: ExcavationProductivityCurve) => void;
+  isAdmin: boolean;
+  visualConfig: any;
+}
+
+const startCase = (key: string) =>
+  key.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/^./, char => char.toUpperCase());
+
+/**
+ * CurveEditor - Edit a 'curve' variable (excavation productivity curve)
+ *
+ * Equipment rates, depth bands and access factors are edited in place;
+ * missing or invalid fields show the defaults from excavation-productivity.ts.
+ */
+export const CurveEditor: React.FC<CurveEditorProps> = ({
+  label,
+  description,
+  value,
+  onChange,
+  isAdmin,
+  visualConfig,
+}) => {
+  const curve = normalizeProductivityCurve(value);
+
+  const sectionStyle = {
+    borderColor: visualConfig.colors.text.secondary + '20',
+    backgroundColor: visualConfig.colors.surface,
+  };
+
+  return (
+    <div className="space-y-3">
+      {/* Header */}
+      <div className="mb-4">
+        <h4 className="text-base font-semibold" style={{ color: visualConfig.colors.text.primary }}>
+          {label}
+        </h4>
+        {description && (
+          <p className="text-xs mt-1" style={{ color: visualConfig.colors.text.secondary }}>
+            {description}
+          </p>
+        )}
+      </div>
+
+      {/* Equipment rates */}
+      <div className="p-5 rounded-xl border-2" style={sectionStyle}>
+        <h5 className="text-sm font-semibold mb-4" style={{ color: visualConfig.colors.text.primary }}>
+          Equipment Rates
+        </h5>
+        <div className="grid grid-cols-2 gap-6">
+          {Object.entries(curve.equipmentRates).map(([equipment, rate]) => (
+            <NumberInput
+              key={equipment}
+              label={startCase(equipment)}
+              value={rate}
+              onChange={(newRate) => onChange({
+                ...curve,
+                equipmentRates: { ...curve.equipmentRates, [equipment]: newRate }
+              })}
+              unit="yd³/hr"
+              min={0}
+              max={20}
+              step={0.05}
+              isAdmin={isAdmin}
+              visualConfig={visualConfig}
+            />
+          ))}
+          <div className="space-y-1">
+            <label className="text-sm font-medium" style={{ color: visualConfig.colors.text.primary }}>
+              Default Equipment
+            </label>
+            <select
+              value={curve.defaultEquipment}
+              onChange={(e) => onChange({ ...curve, defaultEquipment: e.target.value })}
+              disabled={!isAdmin}
+              className={`w-full p-2 border rounded-lg text-sm ${!isAdmin ? 'cursor-not-allowed opacity-60' : ''}`}
+              style={{
+                backgroundColor: visualConfig.colors.surface,
+                borderColor: visualConfig.colors.text.secondary + '40',
+                color: visualConfig.colors.text.primary,
+              }}
+            >
+              {Object.keys(curve.equipmentRates).map(equipment => (
+                <option key={equipment} value={equipment}>{startCase(equipment)}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+      </div>
+
+      {/* Depth bands - ascending, open-ended band last */}
+      <div className="p-5 rounded-xl border-2" style={sectionStyle}>
+        <h5 className="text-sm font-semibold mb-4" style={{ color: visualConfig.colors.text.primary }}>
+          Depth Factors
+        </h5>
+        <div className="space-y-4">
+          {curve.depthFactors.map((band, index) => {
+            const updateBand = (updates: Partial<typeof band>) => onChange({
+              ...curve,
+              depthFactors: curve.depthFactors.map((b, i) => (i === index ? { ...b, ...updates } : b))
+            });
+            const previous = curve.depthFactors[index - 1]?.maxDepth;
+
+            return (
+              <div key={index} className="grid grid-cols-2 gap-6">
+                {band.maxDepth === null ? (
+                  <p className="text-sm self-center" style={{ color: visualConfig.colors.text.secondary }}>
+                    Deeper than {previous ?? 0} in
+                  </p>
+                ) : (
+                  <NumberInput
+                    label="Up to depth"
+                    value={band.maxDepth}
+                    onChange={(maxDepth) => updateBand({ maxDepth })}
+                    unit="in"
+                    min={1}
+                    max={120}
+                    step={1}
+                    isAdmin={isAdmin}
+                    visualConfig={visualConfig}
+                  />
+                )}
+                <NumberInput
+                  label="Factor"
+                  value={band.factor}
+                  onChange={(factor) => updateBand({ factor })}
+                  unit="×"
+                  min={0}
+                  max={5}
+                  step={0.05}
+                  isAdmin={isAdmin}
+                  visualConfig={visualConfig}
+                />
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Access factors - keyed like siteAccess.accessDifficulty */}
+      <div className="p-5 rounded-xl border-2" style={sectionStyle}>
+        <h5 className="text-sm font-semibold mb-4" style={{ color: visualConfig.colors.text.primary }}>
+          Access Factors
+        </h5>
+        <div className="grid grid-cols-2 gap-6">
+          {Object.entries(curve.accessFactors).map(([access, factor]) => (
+            <NumberInput
+              key={access}
+              label={startCase(access)}
+              value={factor}
+              onChange={(newFactor) => onChange({
+                ...curve,
+                accessFactors: { ...curve.accessFactors, [access]: newFactor }
+              })}
+              unit="×"
+              min={0}
+              max={5}
+              step={0.05}
+              isAdmin={isAdmin}
+              visualConfig={visualConfig}
+            />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
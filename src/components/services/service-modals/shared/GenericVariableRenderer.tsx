@@ -2,6 +2,7 @@ import React from 'react';
 import { NumberInput } from './NumberInput';
 import { ToggleInput } from './ToggleInput';
 import { OptionValueEditor } from './OptionValueEditor';
+import { CurveEditor } from './CurveEditor';
 
 // Note: These imports use direct paths to avoid circular dependency with index.ts
 
@@ -117,6 +118,18 @@ export const GenericVariableRenderer: React.FC<GenericVariableRendererProps> = (
                 </div>
               )}
 
+              {/* Curve (excavation productivity curve) - saved as the variable's default */}
+              {varConfig.type === 'curve' && (
+                <CurveEditor
+                  label={varConfig.label || varKey}
+                  description={varConfig.description}
+                  value={currentValue}
+                  onChange={(curve) => onChange(varKey, curve)}
+                  isAdmin={isAdmin && (varConfig.adminEditable ?? true)}
+                  visualConfig={visualConfig}
+                />
+              )}
+
               {/* Slider type - could use OptionValueEditor if it has options */}
               {varConfig.type === 'slider' && varConfig.options && (
                 <OptionValueEditor
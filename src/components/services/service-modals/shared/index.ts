@@ -9,4 +9,5 @@ export { SelectInput } from './SelectInput';
 export { SliderInput } from './SliderInput';
 export { ToggleInput } from './ToggleInput';
 export { OptionValueEditor } from './OptionValueEditor';
+export { CurveEditor } from './CurveEditor';
 export { GenericVariableRenderer } from './GenericVariableRenderer';
@@ -428,8 +428,10 @@
 --    - category_description: text (nullable) - Additional context for users
 --    - sort_order: integer (DEFAULT 0) - Display ordering (0 = first)
 --    - is_required: boolean (DEFAULT true) - Must select material before quote generation
---    - calculation_method: text (NOT NULL) - 'volume_depth' | 'area_coverage' | 'linear_perimeter'
+--    - calculation_method: text (NOT NULL) - 'volume_depth' | 'area_coverage' | 'linear_perimeter' | 'paver_layout' | 'weight_tonnage' | 'piece_count'
 --    - default_depth_inches: numeric (nullable) - For volume_depth calculations
+--    - substitution_rule: text (DEFAULT 'closest_price') - 'same_grade' | 'closest_price' | 'compatible_thickness' | 'none' - Replaces an inactive default (migration 38)
+--    - catalog_category: text (nullable) - Offers the company catalog materials of this category (migration 41)
 --    - is_active: boolean (DEFAULT true)
 --    - created_at: timestamp with time zone (DEFAULT now())
 --    - updated_at: timestamp with time zone (DEFAULT now())
@@ -446,13 +448,16 @@
 --    - material_category: text (NOT NULL) - Links to service_material_categories.category_key
 --    - material_description: text (nullable) - Detailed description for users
 --    - supplier_name: text (nullable) - Where material is purchased from
+--    - supplier_sku: text (nullable) - Supplier item number, matched by price list imports
 --    - Pricing fields:
---      • price_per_unit: numeric (NOT NULL) - Cost per unit ($/cy, $/sqft, $/lf, $/piece)
---      • unit_type: text (NOT NULL) - 'cubic_yard', 'square_foot', 'linear_foot', 'piece', 'pallet', 'bag'
+--      • price_per_unit: numeric (NOT NULL) - Cost per unit ($/cy, $/ton, $/sqft, $/lf, $/piece)
+--      • unit_type: text (NOT NULL) - 'cubic_yard', 'ton', 'square_foot', 'linear_foot', 'piece', 'pallet', 'bag'
 --      • units_per_package: numeric (nullable) - How many units come in one package
 --    - Coverage fields:
 --      • coverage_per_unit: numeric (nullable) - How much area/volume one unit covers
 --      • coverage_depth_inches: numeric (nullable) - For volume calculations
+--      • density_tons_per_cubic_yard: numeric (nullable) - For weight_tonnage (1.4 when unset)
+--      • piece_spacing_basis: text (nullable) - For piece_count: 'per_unit' | 'per_linear_foot'
 --    - Physical properties:
 --      • length_inches: numeric (nullable)
 --      • width_inches: numeric (nullable)
@@ -471,6 +476,8 @@
 --    - Flags:
 --      • is_active: boolean (DEFAULT true) - Active materials shown in UI
 --      • is_default: boolean (DEFAULT false) - Auto-selected material per category
+--    - catalog_material_id: UUID (nullable, FOREIGN KEY → material_catalog.id, SET NULL) - Shares name, supplier,
+--      price and physical properties with the catalog material, kept in sync both ways by triggers (migration 41)
 --    - Audit:
 --      • created_by: UUID (nullable, FOREIGN KEY → users.id)
 --      • updated_by: UUID (nullable, FOREIGN KEY → users.id)
@@ -480,6 +487,37 @@
 --    - RLS: Company isolation, admin/owner can mutate, regular users read-only
 --    - Trigger: Auto-deletes images from storage on material deletion
 --
+-- svc_material_price_history: (migration 35)
+--    - id: UUID (NOT NULL, DEFAULT gen_random_uuid()) - PRIMARY KEY
+--    - company_id: UUID (NOT NULL, FOREIGN KEY → companies.id)
+--    - material_id: UUID (NOT NULL, FOREIGN KEY → svc_materials.id, CASCADE)
+--    - price_per_unit: numeric (NOT NULL) - Price from this point on
+--    - previous_price: numeric (nullable)
+--    - source: text (NOT NULL) - 'initial' | 'import' | 'manual' | 'adjustment' | 'catalog'
+--    - import_batch_id: UUID (nullable) - Shared by one price list import
+--    - change_set_id: UUID (nullable, FOREIGN KEY → svc_price_change_sets.id) - Bulk price adjustment (migration 40)
+--    - file_name: text (nullable) - Imported price list
+--    - changed_by: UUID (nullable, FOREIGN KEY → users.id)
+--    - created_at: timestamp with time zone (DEFAULT now())
+--    - Purpose: Material cost trends and quotes priced at old prices
+--    - RLS: Company isolation, admins insert, owners delete (append-only)
+--
+-- svc_price_change_sets / svc_price_change_set_items: (migration 40)
+--    - One row per bulk price adjustment: description, adjustment_mode ('percent' | 'fixed'),
+--      adjustment_amount, scope ('materials' | 'labor_rates' | 'both'), filters (JSONB), created_by
+--    - Items: item_type ('material' | 'labor_rate'), material_id or config_id, label, old_value, new_value
+--    - Written only by apply_price_change_set() - all values or none
+--    - RLS: Company isolation, admins insert, owners delete (append-only)
+--
+-- material_catalog: (migration 41)
+--    - One row per company product: catalog_category, plus the svc_materials columns every service shares
+--      (name, description, supplier, SKU, images, unit, price, package size, density, dimensions, weight,
+--      grade, color, finish), is_active, audit columns
+--    - Unique per company: catalog_category + name + supplier (case-insensitive) + unit_type
+--    - Service categories with a catalog_category get a svc_materials row for each of its materials
+--    - migrate_materials_to_catalog(company_id) merges service-only rows into the catalog (rerunnable)
+--    - RLS: Company isolation, admin/owner can mutate, owners delete
+--
 -- ============================================================================
 -- RLS SECURITY MODEL (UPDATED FOR SUPABASE AUTH)
 -- ============================================================================
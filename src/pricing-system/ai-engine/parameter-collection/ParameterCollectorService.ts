@@ -12,6 +12,8 @@
 import { CategorySplitResult } from '../text-processing/GPTServiceSplitter';
 import { PaverPatioVariableMapper, PaverPatioVariableExtractionResult } from './PaverPatioVariableMapper';
 import { getPaverPatioServiceDefaults } from '../../core/services-database/service-database';
+import { DimensionCalculator } from '../../../utils/dimension-calculator';
+import { rectangleShape, type PatioShape } from '../../utils/patio-shape';
 
 export interface CollectionResult {
   status: 'incomplete' | 'ready_for_pricing' | 'partial';
@@ -96,10 +98,25 @@ export class ParameterCollectorService {
 
     // Extract square footage from user message or split services
     let sqft = 100; // Default fallback
+    let shape: PatioShape | undefined; // Outline when measured - exact edging perimeter
+
+    // Irregular outlines first - "L-shaped 20x12 and 10x8", "14 ft circle"
+    const shapeResult = DimensionCalculator.parseShape(originalMessage, 'Paver Patio (SQFT)');
+
+    // Metric measurements - "6 m x 4 m", "25 m²" - converted to sqft
+    const metricResult = !shapeResult && DimensionCalculator.isMetricInput(originalMessage)
+      ? DimensionCalculator.parse(originalMessage, 'Paver Patio (SQFT)')
+      : null;
 
     // Try to extract sqft from the separated services or original message
     const sqftMatch = originalMessage.match(/(\d+)\s*(?:sq\.?\s*ft\.?|sqft|square\s+feet)/);
-    if (sqftMatch) {
+    if (shapeResult?.shape) {
+      sqft = shapeResult.quantity;
+      shape = shapeResult.shape;
+    } else if (metricResult && metricResult.calculationType !== 'linear') {
+      sqft = metricResult.quantity;
+      shape = metricResult.shape;
+    } else if (sqftMatch) {
       sqft = parseInt(sqftMatch[1]);
     } else {
       // Check split services for dimensions
@@ -107,6 +124,7 @@ export class ParameterCollectorService {
         const dimensionMatch = service.match(/(\d+)\s*x\s*(\d+)/);
         if (dimensionMatch) {
           sqft = parseInt(dimensionMatch[1]) * parseInt(dimensionMatch[2]);
+          shape = rectangleShape(parseInt(dimensionMatch[1]), parseInt(dimensionMatch[2]));
           break;
         }
       }
@@ -164,6 +182,11 @@ export class ParameterCollectorService {
       }
     }
 
+    if (shape) {
+      finalPaverPatioValues = { ...finalPaverPatioValues, shape };
+      console.log(`  Shape: ${shape.parts.length} part(s), exact perimeter used for edging`);
+    }
+
     // Update the paver patio service with final values (including Services database defaults if needed)
     paverPatioService.specialRequirements = {
       paverPatioValues: finalPaverPatioValues,
@@ -202,6 +202,23 @@ export class PaverPatioVariableMapper {
       defaultsUsed.push('Pattern complexity: minimal (default)');
     }
 
+    // 8b. LAYING PATTERN (piece counts and cuts for paver_layout materials)
+    if (/\b(?:45|forty[\s-]?five)\s*(?:°|deg(?:ree)?s?)?\s*herringbone\b|\bherringbone\s+(?:at\s+)?45\b|\bdiagonal\s+herringbone\b/.test(lowerMessage)) {
+      paverPatioValues.materials.layoutPattern = 'herringbone_45';
+      extractedVariables.push('Laying pattern: herringbone 45°');
+    } else if (/\bherringbone\b/.test(lowerMessage)) {
+      paverPatioValues.materials.layoutPattern = 'herringbone_90';
+      extractedVariables.push('Laying pattern: herringbone 90°');
+    } else if (/\bbasket\s*weave\b/.test(lowerMessage)) {
+      paverPatioValues.materials.layoutPattern = 'basketweave';
+      extractedVariables.push('Laying pattern: basketweave');
+    } else if (/\brunning\s+bond\b/.test(lowerMessage)) {
+      paverPatioValues.materials.layoutPattern = 'running_bond';
+      extractedVariables.push('Laying pattern: running bond');
+    } else {
+      defaultsUsed.push('Laying pattern: running bond (default)');
+    }
+
     // 9. OBSTACLE REMOVAL (Enhanced)
     if (/\b(?:no\s+obstacles|clear\s+area|open\s+space)\b/.test(lowerMessage)) {
       paverPatioValues.siteAccess.obstacleRemoval = 'none';
@@ -11,6 +11,8 @@ import { calculateExpertPricing, loadPaverPatioConfig } from '../../utils/calcul
 import type { PaverPatioValues, PaverPatioCalculationResult } from '../../core/master-formula/formula-types';
 import { detectServiceFromText } from '../routing/service-router';
 import type { ServiceId } from '../../config/service-registry';
+import type { PricingTraceStep } from '../../core/calculations/pricing-trace';
+import { DEFAULT_UNIT_SYSTEM, formatQuantity, type UnitSystem } from '../../utils/unit-system';
 
 // Internal project total interface (replaces Google Sheets ProjectTotal)
 export interface ProjectTotal {
@@ -42,6 +44,7 @@ export interface ServiceQuote {
   totalPrice: number;
   row: number;
   category: string;
+  trace?: PricingTraceStep[];  // Master engine explain-mode steps
 }
 
 export class PricingCalculatorService {
@@ -243,11 +246,12 @@ export class PricingCalculatorService {
       // Load the paver patio configuration
       const config = await loadPaverPatioConfig();
 
-      // Execute master formula calculation
+      // Execute master formula calculation (explain mode - the chat quote lists the adjustments)
       const masterFormulaResult: PaverPatioCalculationResult = await calculateExpertPricing(
         config,
         paverPatioValues,
-        sqft
+        sqft,
+        { explain: true }
       );
 
       console.log('🔥 MASTER FORMULA CALCULATION COMPLETE:');
@@ -292,7 +296,8 @@ export class PricingCalculatorService {
       unitPrice: masterFormulaResult.tier2Results.pricePerSqft,
       totalPrice: masterFormulaResult.tier2Results.total,
       row: 999, // Special indicator for master formula
-      category: 'hardscaping'
+      category: 'hardscaping',
+      trace: masterFormulaResult.trace
     };
 
     // Create project totals with complete tier 1 & tier 2 breakdown
@@ -490,8 +495,9 @@ export class PricingCalculatorService {
 
   /**
    * Format pricing result for response
+   * Quantities are shown in the company's unit system (stored imperial)
    */
-  formatPricingResponse(result: PricingResult): string {
+  formatPricingResponse(result: PricingResult, unitSystem: UnitSystem = DEFAULT_UNIT_SYSTEM): string {
     if (!result.success) {
       return `I apologize, but I encountered an error calculating your pricing: ${result.error}`;
     }
@@ -505,7 +511,7 @@ export class PricingCalculatorService {
     if (result.services.length === 1) {
       // Single service response
       const service = result.services[0];
-      response = `${service.serviceName}: ${service.quantity} ${service.unit}\n`;
+      response = `${service.serviceName}: ${formatQuantity(service.quantity, service.unit, unitSystem)}\n`;
       response += `Cost: $${service.cost.toFixed(2)}\n`;
       response += `Labor Hours: ${service.laborHours.toFixed(1)}h`;
     } else {
@@ -514,7 +520,7 @@ export class PricingCalculatorService {
       
       result.services.forEach(service => {
         response += `${service.serviceName}:\n`;
-        response += `  Quantity: ${service.quantity} ${service.unit}\n`;
+        response += `  Quantity: ${formatQuantity(service.quantity, service.unit, unitSystem)}\n`;
         response += `  Cost: $${service.cost.toFixed(2)}\n`;
         response += `  Labor: ${service.laborHours.toFixed(1)}h\n\n`;
       });
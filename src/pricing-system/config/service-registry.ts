@@ -8,9 +8,10 @@
  * - Config file paths
  *
  * To add a new service:
- * 1. Create the service formula JSON file
+ * 1. Create the service formula JSON file (variables declare effectType)
  * 2. Add entry to this registry
- * 3. System automatically picks it up (no other changes needed)
+ * 3. System automatically picks it up (no other changes needed) - the
+ *    master pricing engine interprets variables_config generically
  */
 
 export interface ServiceRegistryEntry {
@@ -0,0 +1,173 @@
+/**
+ * Equipment Cost
+ *
+ * Prices the equipment a service needs from the company's equipment
+ * catalog (migration 30). Each service config lists its requirements -
+ * which catalog item, how many units and for what share of the job:
+ *
+ *   days = max(minimumDays, ceil(totalDays × dayFraction))
+ *   cost = quantity × days × dailyRate (+ deliveryFee per unit when rented)
+ *
+ * Owned equipment carries an internal daily ownership rate (wear,
+ * fuel, depreciation) and no delivery. Equipment is a pass-through cost -
+ * no profit markup, never volume discounted.
+ *
+ * The engine loads the requirements; EquipmentService owns the catalog
+ * and reservations.
+ */
+
+export type EquipmentOwnership = 'owned' | 'rented';
+
+/**
+ * A service's requirement joined with its catalog item
+ */
+export interface EquipmentRequirement {
+  equipmentId: string;
+  name: string;
+  ownership: EquipmentOwnership;
+  dailyRate: number;                 // $ per unit per day
+  deliveryFee: number;               // $ per unit per job (rented only)
+  quantity: number;                  // Units on site
+  dayFraction: number;               // Share of the job's days the unit is needed (0-1]
+  minimumDays: number;               // Shortest rental / use
+}
+
+/**
+ * One equipment line on a priced result
+ */
+export interface EquipmentCostLine {
+  equipmentId: string;
+  name: string;
+  ownership: EquipmentOwnership;
+  quantity: number;
+  days: number;
+  dailyRate: number;
+  deliveryFee: number;               // Total delivery for all units (0 when owned)
+  cost: number;
+}
+
+/**
+ * Units wanted or already booked for a period
+ */
+export interface EquipmentDemand {
+  equipmentId: string;
+  quantity: number;
+}
+
+export interface EquipmentShortage {
+  equipmentId: string;
+  name: string;
+  available: number;                 // Owned units not booked in the period
+  requested: number;
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Requirement from a service_equipment_requirements row joined with its
+ * equipment_catalog item, or null when the item is retired
+ */
+export function toEquipmentRequirement(row: {
+  quantity: number;
+  day_fraction: number | string;
+  minimum_days: number;
+  equipment?: {
+    id: string;
+    name: string;
+    ownership: EquipmentOwnership;
+    daily_rate: number | string;
+    delivery_fee: number | string;
+    is_active: boolean;
+  } | null;
+}): EquipmentRequirement | null {
+  if (!row.equipment?.is_active) return null;
+  return {
+    equipmentId: row.equipment.id,
+    name: row.equipment.name,
+    ownership: row.equipment.ownership,
+    dailyRate: Number(row.equipment.daily_rate),
+    deliveryFee: Number(row.equipment.delivery_fee),
+    quantity: row.quantity,
+    dayFraction: Number(row.day_fraction),
+    minimumDays: row.minimum_days
+  };
+}
+
+/**
+ * Days a requirement is on site for a job of `totalDays`
+ * Partial days count as a full day
+ */
+export function equipmentDays(requirement: Pick<EquipmentRequirement, 'dayFraction' | 'minimumDays'>, totalDays: number): number {
+  const fraction = requirement.dayFraction > 0 ? Math.min(1, requirement.dayFraction) : 1;
+  const days = Math.ceil(Math.round(totalDays * fraction * 100) / 100);
+  return Math.max(requirement.minimumDays, days, totalDays > 0 ? 1 : 0);
+}
+
+/**
+ * Cost line for every requirement (zero-quantity requirements are skipped)
+ *
+ * @param totalDays - tier1Results.totalDays
+ */
+export function calculateEquipmentLines(requirements: EquipmentRequirement[], totalDays: number): EquipmentCostLine[] {
+  return requirements
+    .filter(requirement => requirement.quantity > 0)
+    .map(requirement => {
+      const days = equipmentDays(requirement, totalDays);
+      const deliveryFee = requirement.ownership === 'rented' ? requirement.deliveryFee * requirement.quantity : 0;
+      return {
+        equipmentId: requirement.equipmentId,
+        name: requirement.name,
+        ownership: requirement.ownership,
+        quantity: requirement.quantity,
+        days,
+        dailyRate: requirement.dailyRate,
+        deliveryFee: roundCents(deliveryFee),
+        cost: roundCents(requirement.quantity * days * requirement.dailyRate + deliveryFee)
+      };
+    });
+}
+
+/**
+ * Units per catalog item across lines (one job can price the same item on
+ * several services - the crew shares them, so the largest count is kept)
+ */
+export function equipmentDemand(lines: Array<Pick<EquipmentCostLine, 'equipmentId' | 'quantity'>>): EquipmentDemand[] {
+  const demand = new Map<string, number>();
+  for (const line of lines) {
+    demand.set(line.equipmentId, Math.max(demand.get(line.equipmentId) ?? 0, line.quantity));
+  }
+  return [...demand].map(([equipmentId, quantity]) => ({ equipmentId, quantity }));
+}
+
+/**
+ * Owned items that don't have enough free units for a period
+ *
+ * Rented items are never short - they're ordered for the job.
+ *
+ * @param requested - Units the job needs
+ * @param catalog - Owned units per catalog item
+ * @param booked - Units already reserved by overlapping assignments
+ */
+export function findEquipmentShortages(
+  requested: EquipmentDemand[],
+  catalog: Array<{ id: string; name: string; ownership: EquipmentOwnership; quantity_owned: number }>,
+  booked: EquipmentDemand[]
+): EquipmentShortage[] {
+  const shortages: EquipmentShortage[] = [];
+
+  for (const { equipmentId, quantity } of requested) {
+    const item = catalog.find(entry => entry.id === equipmentId);
+    if (!item || item.ownership !== 'owned') continue;
+
+    const alreadyBooked = booked
+      .filter(booking => booking.equipmentId === equipmentId)
+      .reduce((sum, booking) => sum + booking.quantity, 0);
+    const available = Math.max(0, item.quantity_owned - alreadyBooked);
+
+    if (quantity > available) {
+      shortages.push({ equipmentId, name: item.name, available, requested: quantity });
+    }
+  }
+
+  return shortages;
+}
@@ -9,32 +9,89 @@
  */
 
 import { masterPricingEngine } from './master-pricing-engine';
+import type { ExcavationProductivityCurve } from '../master-formula/formula-types';
+import {
+  calculateExcavationHoursFromCurve,
+  calculateExcavationVolume,
+  normalizeProductivityCurve
+} from './excavation-productivity';
 
 /**
- * Calculate excavation hours using TIER-BASED formula
+ * Settings read from the live excavation_removal config
+ */
+export interface ExcavationSettings {
+  defaultDepth: number;          // Inches
+  wasteFactor: number;           // %
+  compactionFactor: number;      // %
+  baseRate: number;              // $/yd³ (stored in hourly_labor_rate)
+  profitMargin: number;
+  productivityCurve: ExcavationProductivityCurve;
+}
+
+export interface ExcavationHoursOptions {
+  settings?: ExcavationSettings;   // Live settings - fallbacks below when omitted
+  depthInches?: number;            // Overrides settings.defaultDepth (paver material-based depth)
+  equipmentClass?: string;         // Defaults to the curve's default equipment
+  accessLevel?: string;            // siteAccess.accessDifficulty
+}
+
+/**
+ * Read excavation settings from a config row
  *
- * Formula: Each 1000 sqft tier = flat 12 hours
- * - 1-1000 sqft = 12 hours (tier 1)
- * - 1001-2000 sqft = 24 hours (tier 2)
- * - 2001-3000 sqft = 36 hours (tier 3)
+ * Fallbacks only apply when a field is missing from the config.
+ */
+export function excavationSettingsFromConfig(config: any): ExcavationSettings {
+  const calculationSettings = config?.variables_config?.calculationSettings;
+
+  return {
+    defaultDepth: calculationSettings?.defaultDepth?.default ?? 12,
+    wasteFactor: calculationSettings?.wasteFactor?.default ?? 10,
+    compactionFactor: calculationSettings?.compactionFactor?.default ?? 0,
+    baseRate: config?.hourly_labor_rate ?? 25,
+    profitMargin: config?.profit_margin ?? 0.05,
+    productivityCurve: normalizeProductivityCurve(calculationSettings?.productivityCurve?.default)
+  };
+}
+
+/**
+ * Load excavation settings from the LIVE excavation_removal service
+ *
+ * Force reloads to bypass cache so admin changes take effect immediately.
+ */
+export async function loadExcavationSettings(companyId?: string): Promise<ExcavationSettings> {
+  const config = await masterPricingEngine.forceReloadFromDatabase('excavation_removal', companyId) as any;
+  return excavationSettingsFromConfig(config);
+}
+
+/**
+ * Calculate excavation hours using the PRODUCTIVITY CURVE
+ *
+ * Formula: cubic yards / equipment rate × depth factor × access factor
+ * - Cubic yards use the same depth, waste and compaction as the cost
+ * - Curve from variables_config.calculationSettings.productivityCurve
  *
  * @param area_sqft - Area in square feet
+ * @param options - Live settings, depth, equipment class and access level
  * @returns Total excavation hours (whole number, NOT fractional)
  */
-export function calculateExcavationHours(area_sqft: number): number {
-  // TIER-BASED: Math.ceil ensures we round up to next tier
-  // 1 sqft = tier 1, 1000 sqft = tier 1, 1001 sqft = tier 2
-  const sqftTiers = Math.ceil(area_sqft / 1000);
-  const hours = sqftTiers * 12;
+export function calculateExcavationHours(area_sqft: number, options: ExcavationHoursOptions = {}): number {
+  const settings = options.settings ?? excavationSettingsFromConfig(null);
+  const depth = options.depthInches ?? settings.defaultDepth;
+  const volume = calculateExcavationVolume(area_sqft, depth, settings.wasteFactor, settings.compactionFactor);
+
+  const breakdown = calculateExcavationHoursFromCurve(volume.final, depth, settings.productivityCurve, {
+    equipmentClass: options.equipmentClass,
+    accessLevel: options.accessLevel
+  });
 
   console.log('🔍 [EXCAVATION INTEGRATION] Hours calculation:', {
     area_sqft,
-    sqftTiers,
-    hours,
-    formula: `Math.ceil(${area_sqft}/1000) = ${sqftTiers} tier(s) × 12 hrs/tier = ${hours} hrs`
+    ...breakdown,
+    usingLiveSettings: !!options.settings,
+    formula: `${breakdown.cubicYards} yd³ / ${breakdown.rate} yd³/hr (${breakdown.equipmentClass}) × ${breakdown.depthFactor} depth × ${breakdown.accessFactor} access = ${breakdown.hours} hrs`
   });
 
-  return hours;
+  return breakdown.hours;
 }
 
 /**
@@ -53,12 +110,14 @@ export function calculateExcavationHours(area_sqft: number): number {
  * @param area_sqft - Area in square feet
  * @param companyId - Company ID for config lookup
  * @param customDepth - Optional custom depth override (for paver patio material-based depth)
+ * @param preloaded - Settings already loaded for this calculation (skips the reload)
  * @returns Excavation cost breakdown with all dynamic config values
  */
 export async function calculateExcavationCost(
   area_sqft: number,
   companyId?: string,
-  customDepth?: number
+  customDepth?: number,
+  preloaded?: ExcavationSettings
 ): Promise<{
   cost: number;
   cubicYards: number;
@@ -70,16 +129,9 @@ export async function calculateExcavationCost(
   try {
     // CRITICAL: Force reload from database to bypass cache
     // This ensures admin changes (like base rate) take effect immediately
-    const config = await masterPricingEngine.forceReloadFromDatabase('excavation_removal', companyId) as any;
-
-    // Extract ALL parameters from live config (NO hardcoded defaults)
-    // These values can be changed by admin in Services DB and will propagate automatically
-    const configDepth = config?.variables_config?.calculationSettings?.defaultDepth?.default ?? 12;
+    const settings = preloaded ?? await loadExcavationSettings(companyId);
+    const { defaultDepth: configDepth, wasteFactor, compactionFactor, baseRate, profitMargin } = settings;
     const depth = customDepth ?? configDepth; // Use custom depth if provided (paver patio), otherwise use config default
-    const wasteFactor = config?.variables_config?.calculationSettings?.wasteFactor?.default ?? 10;
-    const compactionFactor = config?.variables_config?.calculationSettings?.compactionFactor?.default ?? 0;
-    const baseRate = config?.hourly_labor_rate ?? 25;
-    const profitMargin = config?.profit_margin ?? 0.05;
 
     console.log('🔍 [EXCAVATION INTEGRATION] Using LIVE config from database:', {
       configDepth: `${configDepth} inches`,
@@ -91,22 +143,12 @@ export async function calculateExcavationCost(
       profitMargin: `${(profitMargin * 100).toFixed(1)}%`,
       configSource: 'excavation_removal service (live database)',
       companyId: companyId || 'default',
-      // CRITICAL DEBUG: Show exact values from config object
-      rawConfigBaseRate: config?.hourly_labor_rate,
-      rawConfigProfitMargin: config?.profit_margin,
-      usingFallback: !config?.hourly_labor_rate ? 'YES - using $25 fallback' : 'NO - using database value'
+      preloaded: !!preloaded
     });
 
     // Calculate cubic yards (matches excavation service formula exactly)
-    const depthFt = depth / 12; // Use actual depth (custom or config)
-    const cubicFeet = area_sqft * depthFt;
-    const cyRaw = cubicFeet / 27;
-
-    // Apply waste and compaction (from live config)
-    const wasteMultiplier = 1 + (wasteFactor / 100);
-    const compactionMultiplier = 1 + (compactionFactor / 100);
-    const cyAdjusted = cyRaw * wasteMultiplier * compactionMultiplier;
-    const cyFinal = Math.ceil(cyAdjusted);
+    const volume = calculateExcavationVolume(area_sqft, depth, wasteFactor, compactionFactor);
+    const cyFinal = volume.final;
 
     // Calculate cost
     const baseCost = cyFinal * baseRate;
@@ -115,10 +157,9 @@ export async function calculateExcavationCost(
 
     console.log('🔍 [EXCAVATION INTEGRATION] Cost calculation:', {
       area_sqft: `${area_sqft} sqft`,
-      depth: `${depth} inches (${depthFt.toFixed(2)} ft)`,
-      cubicFeet: cubicFeet.toFixed(2),
-      cubicYardsRaw: cyRaw.toFixed(2),
-      cubicYardsAdjusted: cyAdjusted.toFixed(2),
+      depth: `${depth} inches (${(depth / 12).toFixed(2)} ft)`,
+      cubicYardsRaw: volume.raw.toFixed(2),
+      cubicYardsAdjusted: volume.adjusted.toFixed(2),
       cubicYardsFinal: cyFinal,
       baseCost: `$${baseCost.toFixed(2)}`,
       profit: `$${profit.toFixed(2)}`,
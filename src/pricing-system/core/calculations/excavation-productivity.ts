@@ -0,0 +1,147 @@
+/**
+ * Excavation Productivity Curve
+ *
+ * Turns an excavation volume into labor hours using the admin-editable
+ * curve stored in the excavation_removal service's
+ * variables_config.calculationSettings.productivityCurve.default:
+ *
+ *   hours = cubicYards / equipmentRate × depthFactor × accessFactor
+ *
+ * - equipmentRates: cubic yards moved per labor hour, by equipment class
+ * - depthFactors:   bands by depth in inches (deeper digs are slower)
+ * - accessFactors:  keyed like siteAccess.accessDifficulty (easy / moderate / difficult)
+ *
+ * excavation-integration.ts reads the live curve from the config.
+ */
+
+import type {
+  ExcavationDepthBand,
+  ExcavationProductivityCurve
+} from '../master-formula/formula-types';
+
+/**
+ * Used when the excavation config has no curve (or for missing fields)
+ */
+export const DEFAULT_PRODUCTIVITY_CURVE: ExcavationProductivityCurve = {
+  equipmentRates: {
+    handTools: 0.35,
+    skidSteer: 1.5,
+    miniExcavator: 1.25
+  },
+  defaultEquipment: 'miniExcavator',
+  depthFactors: [
+    { maxDepth: 6, factor: 1.0 },
+    { maxDepth: 12, factor: 1.1 },
+    { maxDepth: 18, factor: 1.25 },
+    { maxDepth: null, factor: 1.5 }
+  ],
+  accessFactors: {
+    easy: 1.0,
+    moderate: 1.25,
+    difficult: 1.6
+  }
+};
+
+export interface ExcavationVolume {
+  raw: number;        // Cubic yards in the ground
+  adjusted: number;   // After waste and compaction
+  final: number;      // Rounded up to whole yards
+}
+
+export interface ExcavationHoursBreakdown {
+  cubicYards: number;
+  depthInches: number;
+  equipmentClass: string;
+  rate: number;           // Cubic yards per labor hour
+  depthFactor: number;
+  accessFactor: number;
+  hours: number;          // Whole hours, rounded up
+}
+
+const isPositiveNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+const hasKey = (record: Record<string, number>, key: unknown): key is string =>
+  typeof key === 'string' && Object.prototype.hasOwnProperty.call(record, key);
+
+const positiveEntries = (raw: unknown): Record<string, number> | null => {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) return null;
+  const entries = Object.entries(raw).filter(([, value]) => isPositiveNumber(value));
+  return entries.length > 0 ? Object.fromEntries(entries) as Record<string, number> : null;
+};
+
+/**
+ * Clean up a stored curve, falling back to the defaults field by field
+ */
+export function normalizeProductivityCurve(raw: unknown): ExcavationProductivityCurve {
+  const curve = (typeof raw === 'object' && raw !== null ? raw : {}) as Partial<ExcavationProductivityCurve>;
+
+  const equipmentRates = positiveEntries(curve.equipmentRates) ?? DEFAULT_PRODUCTIVITY_CURVE.equipmentRates;
+  const defaultEquipment = [curve.defaultEquipment, DEFAULT_PRODUCTIVITY_CURVE.defaultEquipment]
+    .find(key => hasKey(equipmentRates, key)) ?? Object.keys(equipmentRates)[0];
+
+  const bands = Array.isArray(curve.depthFactors)
+    ? curve.depthFactors.filter((band): band is ExcavationDepthBand =>
+        isPositiveNumber(band?.factor) && (band.maxDepth === null || isPositiveNumber(band.maxDepth)))
+    : [];
+  // Ascending, open-ended band last
+  const depthFactors = bands.length > 0
+    ? [...bands].sort((a, b) => (a.maxDepth ?? Infinity) - (b.maxDepth ?? Infinity))
+    : DEFAULT_PRODUCTIVITY_CURVE.depthFactors;
+
+  return {
+    equipmentRates,
+    defaultEquipment,
+    depthFactors,
+    accessFactors: positiveEntries(curve.accessFactors) ?? DEFAULT_PRODUCTIVITY_CURVE.accessFactors
+  };
+}
+
+/**
+ * Cubic yards for an area dug to a depth (matches the excavation service formula)
+ */
+export function calculateExcavationVolume(
+  area_sqft: number,
+  depthInches: number,
+  wasteFactor: number,
+  compactionFactor: number
+): ExcavationVolume {
+  const raw = (area_sqft * (depthInches / 12)) / 27;
+  const adjusted = raw * (1 + wasteFactor / 100) * (1 + compactionFactor / 100);
+  return { raw, adjusted, final: Math.ceil(adjusted) };
+}
+
+/**
+ * Depth factor for the first band the depth fits in (the deepest band beyond that)
+ */
+export function depthFactorFor(curve: ExcavationProductivityCurve, depthInches: number): number {
+  const band = curve.depthFactors.find(b => b.maxDepth === null || depthInches <= b.maxDepth)
+    ?? curve.depthFactors[curve.depthFactors.length - 1];
+  return band?.factor ?? 1;
+}
+
+/**
+ * Labor hours to excavate a volume
+ *
+ * Unknown equipment classes use the curve's default equipment; unknown
+ * access levels use a factor of 1.
+ */
+export function calculateExcavationHoursFromCurve(
+  cubicYards: number,
+  depthInches: number,
+  curve: ExcavationProductivityCurve,
+  options: { equipmentClass?: string; accessLevel?: string } = {}
+): ExcavationHoursBreakdown {
+  const equipmentClass = hasKey(curve.equipmentRates, options.equipmentClass)
+    ? options.equipmentClass
+    : curve.defaultEquipment;
+  const rate = curve.equipmentRates[equipmentClass];
+  const depthFactor = depthFactorFor(curve, depthInches);
+  const accessFactor = hasKey(curve.accessFactors, options.accessLevel) ? curve.accessFactors[options.accessLevel] : 1;
+
+  // Round to hundredths first so float noise (12.000000001) doesn't add an hour
+  const exactHours = Math.round((cubicYards / rate) * depthFactor * accessFactor * 100) / 100;
+  const hours = cubicYards > 0 ? Math.ceil(exactHours) : 0;
+
+  return { cubicYards, depthInches, equipmentClass, rate, depthFactor, accessFactor, hours };
+}
@@ -0,0 +1,265 @@
+/**
+ * Formula Interpreter - Generic variables_config evaluation
+ *
+ * Turns ANY service's variables_config into Tier 1 (labor hours) and
+ * Tier 2 (cost) adjustments using only the effectType declared on each
+ * variable. No category or variable names are hardcoded here - paver patio,
+ * excavation and template-created services all run through the same code.
+ *
+ * A variable is interpreted when it declares an effectType listed in
+ * EFFECT_TYPE_DEFINITIONS. Plain settings (calculationSettings, toggles,
+ * number inputs without an effectType) are ignored by the interpreter.
+ */
+
+import {
+  EFFECT_TYPE_DEFINITIONS,
+  calculateMultiplierFromPercentage,
+  calculatePercentageFromMultiplier
+} from '../../utils/variable-helpers';
+import { appendTraceStep, type PricingTraceStep } from './pricing-trace';
+
+export type EffectType = keyof typeof EFFECT_TYPE_DEFINITIONS;
+
+/**
+ * Selected values keyed the same way as variables_config:
+ * { [categoryKey]: { [variableKey]: optionKey | number } }
+ */
+export type ServiceVariableValues = Record<string, any>;
+
+export interface ResolvedVariable {
+  categoryKey: string;
+  variableKey: string;
+  label: string;
+  effectType: EffectType;
+  calculationTier: 1 | 2 | 'both';
+  selected: string | number;
+  option: Record<string, any>;
+}
+
+export interface Tier1Interpretation {
+  baseHours: number;
+  adjustedHours: number;
+  breakdown: string[];
+}
+
+export interface Tier2Interpretation {
+  materialMultiplier: number;        // Product of material_cost_multiplier options
+  materialWastePercentage: number;   // Sum of cutting_complexity materialWaste
+  projectMultiplier: number;         // Product of total_project_multiplier options
+  flatAdditionalCost: number;        // Sum of flat_additional_cost options
+  dailyEquipmentCost: number;        // Sum of daily_equipment_cost options ($/day)
+  applied: Tier2Effect[];            // Per-variable contributions, in config order (for explain mode)
+}
+
+export interface Tier2Effect {
+  variable: ResolvedVariable;
+  target: 'materialMultiplier' | 'materialWastePercentage' | 'projectMultiplier' | 'flatAdditionalCost' | 'dailyEquipmentCost';
+  factor: number;                    // Multiplier, waste %, flat $ or $/day
+}
+
+function isEffectType(effectType: unknown): effectType is EffectType {
+  return typeof effectType === 'string' && effectType in EFFECT_TYPE_DEFINITIONS;
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Resolve the selected option for every effect-typed variable in variables_config
+ *
+ * Selection order: values[category][variable] → variable.default.
+ * Numeric selections on multiplier effect types are treated as a direct
+ * multiplier (legacy overallComplexity storage).
+ *
+ * @param variablesConfig - Service variables_config JSONB
+ * @param values - Selected option keys per category/variable
+ * @returns Variables in config order with their selected option
+ */
+export function resolveVariables(
+  variablesConfig: Record<string, any> | undefined,
+  values: ServiceVariableValues | undefined
+): ResolvedVariable[] {
+  const resolved: ResolvedVariable[] = [];
+  if (!isPlainObject(variablesConfig)) return resolved;
+
+  for (const [categoryKey, category] of Object.entries(variablesConfig)) {
+    if (!isPlainObject(category)) continue;
+
+    for (const [variableKey, variable] of Object.entries(category)) {
+      if (!isPlainObject(variable) || variable.effectType === undefined) continue;
+
+      if (!isEffectType(variable.effectType)) {
+        console.warn(`⚠️ [FORMULA INTERPRETER] Unknown effect type '${variable.effectType}' on ${categoryKey}.${variableKey}, skipping`);
+        continue;
+      }
+
+      const selected = values?.[categoryKey]?.[variableKey] ?? variable.default;
+      if (selected === undefined || selected === null) continue;
+
+      let option: Record<string, any> | undefined;
+      if (typeof selected === 'number' && !variable.options?.[selected]) {
+        option = EFFECT_TYPE_DEFINITIONS[variable.effectType].requiresMultiplier
+          ? { value: calculatePercentageFromMultiplier(selected), multiplier: selected }
+          : { value: selected };
+      } else {
+        option = variable.options?.[String(selected)];
+      }
+
+      if (!option) {
+        console.warn(`⚠️ [FORMULA INTERPRETER] Option '${selected}' not found on ${categoryKey}.${variableKey}, skipping`);
+        continue;
+      }
+
+      resolved.push({
+        categoryKey,
+        variableKey,
+        label: variable.label ?? variableKey,
+        effectType: variable.effectType,
+        calculationTier: variable.calculationTier ?? (variable.effectType === 'cutting_complexity' ? 'both' : 1),
+        selected,
+        option
+      });
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * Percentage for a percentage-style option, preferring the stored value
+ * over the stored multiplier (the Services tab keeps them in sync)
+ */
+function optionPercentage(option: Record<string, any>): number {
+  if (typeof option.value === 'number') return option.value;
+  if (typeof option.multiplier === 'number') return calculatePercentageFromMultiplier(option.multiplier);
+  return 0;
+}
+
+function optionMultiplier(option: Record<string, any>): number {
+  return calculateMultiplierFromPercentage(optionPercentage(option));
+}
+
+/**
+ * TIER 1: Labor hours from base productivity plus percentage adjustments
+ *
+ * Formula: base = quantity ÷ productivity × team size × 8 hours
+ * Each labor_time_percentage / cutting_complexity variable adds an
+ * independent percentage of BASE hours (adjustments never compound).
+ *
+ * @param variables - Output of resolveVariables()
+ * @param quantity - Project size in the service's registry unit
+ * @param baseProductivity - Units completed per day by the optimal team
+ * @param optimalTeamSize - Crew size the productivity is measured for
+ * @param unit - Registry unit label used in the breakdown
+ * @param trace - Explain mode step list (see pricing-trace.ts)
+ */
+export function interpretTier1(
+  variables: ResolvedVariable[],
+  quantity: number,
+  baseProductivity: number,
+  optimalTeamSize: number,
+  unit: string = 'sqft',
+  trace?: PricingTraceStep[]
+): Tier1Interpretation {
+  const hoursPerUnit = baseProductivity > 0 ? (optimalTeamSize * 8) / baseProductivity : 0;
+  const baseHours = quantity * hoursPerUnit;
+  let adjustedHours = baseHours;
+  const breakdown: string[] = [`Base: ${quantity} ${unit} ÷ ${baseProductivity} ${unit}/day × ${optimalTeamSize} people × 8 hours = ${baseHours.toFixed(1)} hours`];
+  appendTraceStep(trace, {
+    tier: 1,
+    stage: 'base_hours',
+    label: `Base labor (${baseProductivity} ${unit}/day, ${optimalTeamSize} people)`,
+    input: quantity,
+    inputUnit: unit,
+    operation: 'rate',
+    factor: hoursPerUnit,
+    amount: baseHours
+  });
+
+  for (const variable of variables) {
+    let percentage = 0;
+    if (variable.effectType === 'labor_time_percentage') {
+      percentage = optionPercentage(variable.option);
+    } else if (variable.effectType === 'cutting_complexity') {
+      percentage = variable.option.laborPercentage ?? 0;
+    }
+
+    if (percentage === 0) continue;
+
+    const hours = baseHours * (percentage / 100);
+    adjustedHours += hours;
+    const sign = percentage > 0 ? '+' : '';
+    breakdown.push(`${sign}${variable.label} (${sign}${percentage}% of base): ${sign}${hours.toFixed(1)} hours`);
+    appendTraceStep(trace, {
+      tier: 1,
+      stage: 'labor_adjustment',
+      label: variable.label,
+      input: baseHours,
+      inputUnit: 'hours',
+      operation: 'percentage',
+      factor: percentage,
+      amount: hours,
+      categoryKey: variable.categoryKey,
+      variableKey: variable.variableKey,
+      option: variable.selected,
+      effectType: variable.effectType
+    });
+  }
+
+  return { baseHours, adjustedHours, breakdown };
+}
+
+/**
+ * TIER 2: Cost adjustments declared by variables_config
+ *
+ * Returns the combined multipliers and adders; the engine applies them to
+ * labor, materials and pass-through costs.
+ *
+ * @param variables - Output of resolveVariables()
+ */
+export function interpretTier2(variables: ResolvedVariable[]): Tier2Interpretation {
+  const result: Tier2Interpretation = {
+    materialMultiplier: 1,
+    materialWastePercentage: 0,
+    projectMultiplier: 1,
+    flatAdditionalCost: 0,
+    dailyEquipmentCost: 0,
+    applied: []
+  };
+
+  for (const variable of variables) {
+    const { option } = variable;
+    let effect: Omit<Tier2Effect, 'variable'> | null = null;
+
+    switch (variable.effectType) {
+      case 'material_cost_multiplier':
+        effect = { target: 'materialMultiplier', factor: optionMultiplier(option) };
+        result.materialMultiplier *= effect.factor;
+        break;
+      case 'total_project_multiplier':
+        effect = { target: 'projectMultiplier', factor: optionMultiplier(option) };
+        result.projectMultiplier *= effect.factor;
+        break;
+      case 'cutting_complexity':
+        effect = { target: 'materialWastePercentage', factor: option.materialWaste ?? 0 };
+        result.materialWastePercentage += effect.factor;
+        break;
+      case 'flat_additional_cost':
+        effect = { target: 'flatAdditionalCost', factor: option.value ?? 0 };
+        result.flatAdditionalCost += effect.factor;
+        break;
+      case 'daily_equipment_cost':
+        effect = { target: 'dailyEquipmentCost', factor: option.value ?? 0 };
+        result.dailyEquipmentCost += effect.factor;
+        break;
+      // labor_time_percentage is a Tier 1 effect
+    }
+
+    if (effect) {
+      result.applied.push({ variable, ...effect });
+    }
+  }
+
+  return result;
+}
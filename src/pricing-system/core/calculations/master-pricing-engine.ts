@@ -13,10 +13,60 @@ import type { PaverPatioConfig, PaverPatioValues } from '../master-formula/formu
 import paverPatioConfigJson from '../../config/paver-patio-formula.json';
 import { getSupabase } from '../../../services/supabase';
 // Import excavation integration for bundled service calculations
-import { calculateExcavationHours, calculateExcavationCost } from './excavation-integration';
+import {
+  calculateExcavationHours,
+  calculateExcavationCost,
+  loadExcavationSettings,
+  type ExcavationSettings
+} from './excavation-integration';
+import { calculateExcavationHoursFromCurve, normalizeProductivityCurve } from './excavation-productivity';
 // Import materials database calculation engine (Phase B)
-import { calculateAllMaterialCosts, calculatePatioExcavationDepth } from '../../../services/materialCalculations';
+import {
+  MissingMaterialError,
+  calculateAllMaterialCosts,
+  calculatePaverCutLayout,
+  calculatePatioExcavationDepth
+} from '../../../services/materialCalculations';
 import type { MaterialCalculationResult } from '../../../types/materials';
+// Generic variables_config interpreter - no service-specific variable names in the engine
+import { resolveVariables, interpretTier1, interpretTier2, type ResolvedVariable, type ServiceVariableValues } from './formula-interpreter';
+import { SERVICE_REGISTRY, isValidServiceId } from '../../config/service-registry';
+// Explain mode - ordered calculation trace
+import {
+  appendTraceStep,
+  type CalculationOptions,
+  type PricingTraceOperation,
+  type PricingTraceStage,
+  type PricingTraceStep
+} from './pricing-trace';
+// businessSettings rules - volume discount, minimum job charge, margin floor
+import { applyPricingRules, normalizePricingRules, pricingRulesFromBusinessSettings } from './pricing-rules';
+import {
+  buildBundledServiceResult,
+  bundleQuantity,
+  bundleValues,
+  resolveServiceIntegrations,
+  sharedMobilization,
+  summarizeBundles,
+  type BundledServiceResult,
+  type ServiceIntegrationDeclaration
+} from './service-bundles';
+import {
+  adjustedHourlyRate,
+  adjustedProfitMargin,
+  describeSeasonalAdjustment,
+  hasSeasonalEffect,
+  type SeasonalAdjustment,
+  type SeasonalPricingResult
+} from './seasonal-pricing';
+import {
+  calculateEquipmentLines,
+  toEquipmentRequirement,
+  type EquipmentCostLine,
+  type EquipmentRequirement
+} from './equipment-cost';
+import type { UnitSystem } from '../../utils/unit-system';
+import type { PaverLayoutResult } from '../../utils/paver-layout';
 // REMOVED: Hardcoded helpers that bypass database
 // All values now read directly from config.variables
 
@@ -31,6 +81,7 @@ export interface PricingConfigRow {
   profit_margin: number;
   variables_config: any;
   default_variables: any;
+  pricing_rules?: any;           // Migration 26 - see pricing-rules.ts
   is_active: boolean;
   version: string;
   created_at: string;
@@ -61,10 +112,18 @@ export interface Tier2Results {
     baseRate: number;
     profit: number;
   };
-  equipmentCost: number;
+  equipmentCost: number;                  // Catalog lines + daily_equipment_cost variables
+  equipmentLines?: EquipmentCostLine[];   // Catalog equipment (see equipment-cost.ts)
   obstacleCost: number;
   subtotal: number;
   profit: number;
+  volumeDiscount?: number;                // Set when a volume discount tier applied
+  minimumChargeAdjustment?: number;       // Added to reach the minimum job charge
+  effectiveMargin?: number;               // Realized profit / profitable subtotal after rules
+  belowMarginFloor?: boolean;             // Flag only - price is not changed
+  bundledServices?: BundledServiceResult[];  // Declared service bundles (see service-bundles.ts)
+  bundleMobilization?: number;            // One shared mobilization for all bundles
+  seasonal?: SeasonalPricingResult;       // Calendar / backlog adjustment (see seasonal-pricing.ts)
   total: number;
   pricePerSqft: number;
   // NEW FIELDS for materials database system:
@@ -72,13 +131,32 @@ export interface Tier2Results {
   materialBreakdown?: MaterialCalculationResult;  // Detailed breakdown with purchasing units
 }
 
-export interface CalculationResult {
+/**
+ * Bundled child priced with its own live config, before the parent's Tier 2
+ */
+interface PricedBundle {
+  declaration: ServiceIntegrationDeclaration;
+  quantity: number;
+  unit: string;
+  result: CalculationResult<ServiceVariableValues>;
+}
+
+/**
+ * Bundled excavation inputs shared by Tier 1 (hours) and Tier 2 (cost)
+ */
+interface ExcavationContext {
+  settings?: ExcavationSettings;   // Undefined when the excavation config failed to load
+  depth?: number;                  // Material-based depth, else the config default
+}
+
+export interface CalculationResult<V extends ServiceVariableValues = PaverPatioValues> {
   tier1Results: Tier1Results;
   tier2Results: Tier2Results;
   sqft: number;
-  inputValues: PaverPatioValues;
+  inputValues: V;
   confidence: number;
   calculationDate: string;
+  trace?: PricingTraceStep[];    // Only with { explain: true }
 }
 
 export class MasterPricingEngine {
@@ -151,7 +229,7 @@ export class MasterPricingEngine {
       });
 
       console.log('🔍 [MASTER ENGINE] Executing Supabase query:', {
-        table: 'service_pricing_configs',
+        table: 'svc_pricing_configs',
         company_id: targetCompanyId,
         service_name: serviceName,
         is_active: true
@@ -243,7 +321,7 @@ export class MasterPricingEngine {
         {
           event: '*',
           schema: 'public',
-          table: 'service_pricing_configs',
+          table: 'svc_pricing_configs',
           filter: `company_id=eq.${companyId}`
         },
         async (payload) => {
@@ -287,6 +365,7 @@ export class MasterPricingEngine {
 
   /**
    * Update pricing configuration in Supabase
+   * Each update is recorded as an immutable revision (svc_pricing_config_revisions)
    */
   public async updatePricingConfig(
     serviceName: string,
@@ -386,22 +465,50 @@ export class MasterPricingEngine {
 
   /**
    * Calculate pricing using live Supabase configuration
+   *
+   * Works for any registered service: variables are interpreted from the
+   * service's variables_config by effectType (see formula-interpreter.ts).
+   * `sqft` is the project size in the service's registry unit.
+   * With `{ explain: true }` the result carries an ordered trace of every
+   * step (see pricing-trace.ts).
    */
-  public async calculatePricing(
-    values: PaverPatioValues,
+  public async calculatePricing<V extends ServiceVariableValues = PaverPatioValues>(
+    values: V,
     sqft: number = 100,
     serviceName: string = 'paver_patio_sqft',
     companyId?: string,
-    configId?: string
-  ): Promise<CalculationResult> {
+    configId?: string,
+    options: CalculationOptions = {}
+  ): Promise<CalculationResult<V>> {
     // Load live config from Supabase
     const config = await this.loadPricingConfig(serviceName, companyId);
+    const trace: PricingTraceStep[] | undefined = options.explain ? [] : undefined;
+
+    // Bundled excavation: load settings and depth once so Tier 1 hours and
+    // Tier 2 cost come from the same config
+    const excavation = values?.serviceIntegrations?.includeExcavation === true
+      ? await this.resolveExcavationContext(values, companyId, configId)
+      : undefined;
+
+    // Declared service bundles, each priced with its own config
+    const bundles = options.includeBundles === false
+      ? []
+      : await this.priceBundledServices(config, values, sqft, serviceName, companyId, options.seasonal, options.unitSystem);
+
+    // Catalog equipment the service config requires
+    const equipment = await this.loadEquipmentRequirements(companyId, configId ?? config?.id);
+
+    // Paver layout: measured border cuts replace the cutting_complexity guess
+    const layout = await this.resolvePaverLayout(config, values, sqft, companyId);
 
     // Calculate Tier 1 (labor hours)
-    const tier1Results = this.calculateTier1(config, values, sqft);
+    const tier1Results = this.calculateTier1(config, values, sqft, serviceName, trace, excavation, layout);
 
     // Calculate Tier 2 (costs) - now async to support excavation cost calculation
-    const tier2Results = await this.calculateTier2(config, values, tier1Results, sqft, companyId, configId);
+    const tier2Results = await this.calculateTier2(
+      config, values, tier1Results, sqft, companyId, configId, trace, excavation, bundles, equipment,
+      options.seasonal, options.unitSystem
+    );
 
     return {
       tier1Results,
@@ -409,22 +516,202 @@ export class MasterPricingEngine {
       sqft,
       inputValues: values,
       confidence: 0.9,
-      calculationDate: new Date().toISOString()
+      calculationDate: new Date().toISOString(),
+      ...(trace && { trace })
     };
   }
 
+  /**
+   * Equipment requirements for a saved service config
+   * Never throws - a failed load prices without catalog equipment
+   */
+  private async loadEquipmentRequirements(companyId?: string, serviceConfigId?: string): Promise<EquipmentRequirement[]> {
+    if (!companyId || !serviceConfigId) return [];
+
+    try {
+      const { data, error } = await this.supabase
+        .from('service_equipment_requirements')
+        .select('quantity, day_fraction, minimum_days, equipment:equipment_catalog(id, name, ownership, daily_rate, delivery_fee, is_active)')
+        .eq('service_config_id', serviceConfigId)
+        .eq('company_id', companyId);
+
+      if (error) throw error;
+
+      // Many-to-one join - a single catalog item per row
+      const rows = (data || []) as unknown as Array<Parameters<typeof toEquipmentRequirement>[0]>;
+      return rows
+        .map(toEquipmentRequirement)
+        .filter((requirement): requirement is EquipmentRequirement => requirement !== null);
+    } catch (error) {
+      console.warn('⚠️ [MASTER ENGINE] Pricing without catalog equipment:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Price every bundle the user turned on
+   * Children are priced without their own bundles; failures skip the bundle,
+   * except a missing required material, which fails the whole price
+   */
+  private async priceBundledServices(
+    config: PaverPatioConfig,
+    values: ServiceVariableValues,
+    sqft: number,
+    serviceName: string,
+    companyId?: string,
+    seasonal?: SeasonalAdjustment,
+    unitSystem?: UnitSystem
+  ): Promise<PricedBundle[]> {
+    const priced: PricedBundle[] = [];
+
+    for (const declaration of resolveServiceIntegrations(config?.variables_config, values)) {
+      const { linkedService } = declaration;
+      if (!isValidServiceId(linkedService) || linkedService === serviceName) {
+        console.warn(`⚠️ [MASTER ENGINE] Skipping bundle '${declaration.key}': '${linkedService}' is not another registered service`);
+        continue;
+      }
+
+      const quantity = bundleQuantity(declaration, sqft, values);
+      if (quantity <= 0) continue;
+
+      try {
+        const result = await this.calculatePricing(
+          bundleValues(declaration, values),
+          quantity,
+          linkedService,
+          companyId,
+          undefined,
+          { includeBundles: false, seasonal, unitSystem }
+        );
+        priced.push({ declaration, quantity, unit: SERVICE_REGISTRY[linkedService].unit, result });
+      } catch (error) {
+        // Skipping the bundle would quote without it
+        if (error instanceof MissingMaterialError) throw error;
+
+        console.error(`❌ [MASTER ENGINE] Failed to price bundled service '${linkedService}':`, error);
+      }
+    }
+
+    return priced;
+  }
+
+  /**
+   * Load the excavation settings and depth for a bundled excavation
+   * Never throws - failures fall back to the curve defaults and config depth
+   */
+  private async resolveExcavationContext(
+    values: ServiceVariableValues,
+    companyId?: string,
+    configId?: string
+  ): Promise<ExcavationContext> {
+    let settings: ExcavationSettings | undefined;
+    try {
+      settings = await loadExcavationSettings(companyId);
+    } catch (error) {
+      console.error('❌ [MASTER ENGINE] Failed to load excavation settings:', error);
+    }
+
+    // Calculate material-based excavation depth if materials database is enabled
+    let depth: number | undefined = undefined;
+    const useMaterialsDatabase = values?.materials?.useMaterialsDatabase ?? true;
+
+    if (useMaterialsDatabase && companyId && configId) {
+      try {
+        const depthResult = await calculatePatioExcavationDepth(
+          values?.selectedMaterials || {},
+          companyId,
+          configId
+        );
+        depth = depthResult.depth;
+        console.log('✅ [MASTER ENGINE] Material-based excavation depth:', {
+          depth,
+          breakdown: depthResult.breakdown
+        });
+      } catch (depthError) {
+        console.error('❌ [MASTER ENGINE] Failed to calculate material-based depth:', depthError);
+      }
+    }
+
+    return { settings, depth };
+  }
+
+  /**
+   * Layout of the paver_layout category's paver, when the service has one
+   * Never throws - without a layout cut labor comes from cutting_complexity
+   */
+  private async resolvePaverLayout(
+    config: PaverPatioConfig,
+    values: ServiceVariableValues,
+    sqft: number,
+    companyId?: string
+  ): Promise<PaverLayoutResult | null> {
+    const useMaterialsDatabase = values?.materials?.useMaterialsDatabase ?? true;
+    if (!useMaterialsDatabase || !companyId || !config?.id) return null;
+
+    try {
+      return await calculatePaverCutLayout(
+        {
+          squareFootage: sqft,
+          selectedMaterials: values?.selectedMaterials,
+          customPerimeter: values?.customPerimeter,
+          shape: values?.shape,
+          layoutPattern: values?.materials?.layoutPattern
+        },
+        companyId,
+        config.id
+      );
+    } catch (error) {
+      console.error('❌ [MASTER ENGINE] Failed to calculate paver layout:', error);
+      return null;
+    }
+  }
+
   /**
    * TIER 1: Calculate labor hours with base-independent percentage system
-   * ALL VALUES READ FROM DATABASE - No hardcoded helpers
+   * ALL VALUES READ FROM DATABASE - variables interpreted by effectType
    */
-  private calculateTier1(config: PaverPatioConfig, values: PaverPatioValues, sqft: number): Tier1Results {
+  private calculateTier1(
+    config: PaverPatioConfig,
+    values: ServiceVariableValues,
+    sqft: number,
+    serviceName: string = 'paver_patio_sqft',
+    trace?: PricingTraceStep[],
+    excavation?: ExcavationContext,
+    layout?: PaverLayoutResult | null
+  ): Tier1Results {
     const optimalTeamSize = config?.baseSettings?.laborSettings?.optimalTeamSize?.value ?? 3;
     const baseProductivity = config?.baseSettings?.laborSettings?.baseProductivity?.value ?? 50;
-
-    // Base labor calculation
-    const baseHours = (sqft / baseProductivity) * optimalTeamSize * 8;
-    let adjustedHours = baseHours;
-    const breakdownSteps: string[] = [`Base: ${sqft} sqft ÷ ${baseProductivity} sqft/day × ${optimalTeamSize} people × 8 hours = ${baseHours.toFixed(1)} hours`];
+    const unit = isValidServiceId(serviceName) ? SERVICE_REGISTRY[serviceName].unit : 'sqft';
+
+    // Base labor + every labor_time_percentage / cutting_complexity variable
+    // (cutting_complexity is left out when a paver layout counts the cuts)
+    const variables = resolveVariables(config?.variables_config, values)
+      .filter(variable => !(layout && variable.effectType === 'cutting_complexity'));
+    const { baseHours, adjustedHours: serviceHours, breakdown: breakdownSteps } = interpretTier1(
+      variables,
+      sqft,
+      baseProductivity,
+      optimalTeamSize,
+      unit,
+      trace
+    );
+    let adjustedHours = serviceHours;
+
+    if (layout && layout.cutLaborHours > 0) {
+      const label = `Paver cuts (${layout.cutPieces} border cuts, ${layout.patternLabel})`;
+      adjustedHours += layout.cutLaborHours;
+      breakdownSteps.push(`+${label}: +${layout.cutLaborHours.toFixed(1)} hours`);
+      appendTraceStep(trace, {
+        tier: 1,
+        stage: 'labor_adjustment',
+        label,
+        input: layout.cutPieces,
+        inputUnit: 'cuts',
+        operation: 'rate',
+        factor: layout.cutLaborHours / layout.cutPieces,
+        amount: layout.cutLaborHours
+      });
+    }
 
     // NEW: Add excavation hours if service integration toggle is enabled
     // ONLY check toggle value - respects user's choice to enable/disable
@@ -438,43 +725,25 @@ export class MasterPricingEngine {
     });
 
     if (excavationEnabled) {
-      excavationHours = calculateExcavationHours(sqft);
+      // Productivity curve from the excavation config (defaults when not preloaded)
+      excavationHours = calculateExcavationHours(sqft, {
+        settings: excavation?.settings,
+        depthInches: excavation?.depth,
+        equipmentClass: values?.serviceIntegrations?.excavationEquipment,
+        accessLevel: values?.siteAccess?.accessDifficulty
+      });
       adjustedHours += excavationHours;
       breakdownSteps.push(`+Excavation (bundled service): +${excavationHours.toFixed(1)} hours`);
-    }
-
-    // REMOVED: tearoutComplexity (now handled by excavation service integration)
-
-    // CRITICAL FIX: Read access percentage from DATABASE, not hardcoded helper
-    const accessVar = config?.variables_config?.siteAccess?.accessDifficulty;
-    const accessOption = accessVar?.options?.[values?.siteAccess?.accessDifficulty ?? 'easy'];
-    const accessPercentage = accessOption?.value ?? 0;
-
-    // CRITICAL FIX: Read team size percentage from DATABASE, not hardcoded helper
-    const teamVar = config?.variables_config?.labor?.teamSize;
-    const teamOption = teamVar?.options?.[values?.labor?.teamSize ?? 'threePlus'];
-    const teamSizePercentage = teamOption?.value ?? 0;
-
-    // Apply each variable as independent percentage of base hours
-    if (accessPercentage > 0) {
-      const accessHours = baseHours * (accessPercentage / 100);
-      adjustedHours += accessHours;
-      breakdownSteps.push(`+Access difficulty (+${accessPercentage}% of base): +${accessHours.toFixed(1)} hours`);
-    }
-    if (teamSizePercentage > 0) {
-      const teamHours = baseHours * (teamSizePercentage / 100);
-      adjustedHours += teamHours;
-      breakdownSteps.push(`+Team size adjustment (+${teamSizePercentage}% of base): +${teamHours.toFixed(1)} hours`);
-    }
-
-    // Add cutting complexity labor percentage (calculated from BASE hours)
-    const cuttingVar = config?.variables_config?.materials?.cuttingComplexity;
-    const cuttingOption = cuttingVar?.options?.[values?.materials?.cuttingComplexity ?? 'minimal'];
-    const cuttingLaborPercentage = cuttingOption?.laborPercentage ?? 0;
-    if (cuttingLaborPercentage > 0) {
-      const cuttingHours = baseHours * (cuttingLaborPercentage / 100);
-      adjustedHours += cuttingHours;
-      breakdownSteps.push(`+Cutting complexity (+${cuttingLaborPercentage}% of base): +${cuttingHours.toFixed(1)} hours`);
+      appendTraceStep(trace, {
+        tier: 1,
+        stage: 'bundled_hours',
+        label: 'Excavation (bundled service)',
+        input: sqft,
+        inputUnit: unit,
+        operation: 'adder',
+        factor: excavationHours,
+        amount: excavationHours
+      });
     }
 
     const totalManHours = adjustedHours;
@@ -483,7 +752,7 @@ export class MasterPricingEngine {
     return {
       baseHours: Math.round(baseHours * 10) / 10,
       adjustedHours: Math.round(adjustedHours * 10) / 10,
-      paverPatioHours: Math.round(baseHours * 10) / 10,  // Paver-specific hours (without excavation)
+      paverPatioHours: Math.round(baseHours * 10) / 10,  // Service hours (without excavation)
       excavationHours: Math.round(excavationHours * 10) / 10,  // Excavation hours from bundled service
       totalManHours: Math.round(totalManHours * 10) / 10,
       totalDays: Math.round(totalDays * 10) / 10,
@@ -497,19 +766,57 @@ export class MasterPricingEngine {
    */
   private async calculateTier2(
     config: PaverPatioConfig,
-    values: PaverPatioValues,
+    values: ServiceVariableValues,
     tier1Results: Tier1Results,
     sqft: number,
     companyId?: string,
-    configId?: string
+    configId?: string,
+    trace?: PricingTraceStep[],
+    excavation?: ExcavationContext,
+    bundles: PricedBundle[] = [],
+    equipment: EquipmentRequirement[] = [],
+    seasonal?: SeasonalAdjustment,
+    unitSystem?: UnitSystem
   ): Promise<Tier2Results> {
-    const hourlyRate = config?.baseSettings?.laborSettings?.hourlyLaborRate?.value ?? 25;
+    const baseHourlyRate = config?.baseSettings?.laborSettings?.hourlyLaborRate?.value ?? 25;
     const baseMaterialCost = config?.baseSettings?.materialSettings?.baseMaterialCost?.value ?? 5.84;
-    const profitMargin = config?.baseSettings?.businessSettings?.profitMarginTarget?.value ?? 0.20;
-    const optimalTeamSize = config?.baseSettings?.laborSettings?.optimalTeamSize?.value ?? 3;
+    const baseProfitMargin = config?.baseSettings?.businessSettings?.profitMarginTarget?.value ?? 0.20;
+
+    // Pricing calendar for the start date: labor rate and margin adjustments
+    const hourlyRate = adjustedHourlyRate(baseHourlyRate, seasonal);
+    const profitMargin = adjustedProfitMargin(baseProfitMargin, seasonal);
+    const seasonLabel = seasonal ? describeSeasonalAdjustment(seasonal) : '';
+
+    // Cost effects declared in variables_config (multipliers, waste, flat & daily costs)
+    const effects = interpretTier2(resolveVariables(config?.variables_config, values));
 
     // 1. Labor costs
+    const baseLaborCost = tier1Results.totalManHours * baseHourlyRate;
     const laborCost = tier1Results.totalManHours * hourlyRate;
+    const seasonalLaborAdjustment = laborCost - baseLaborCost;
+    appendTraceStep(trace, {
+      tier: 2,
+      stage: 'labor_cost',
+      label: 'Labor',
+      input: tier1Results.totalManHours,
+      inputUnit: 'hours',
+      operation: 'rate',
+      factor: baseHourlyRate,
+      amount: baseLaborCost
+    });
+
+    if (seasonalLaborAdjustment !== 0) {
+      appendTraceStep(trace, {
+        tier: 2,
+        stage: 'seasonal',
+        label: `Labor rate (${seasonLabel})`,
+        input: baseLaborCost,
+        inputUnit: 'usd',
+        operation: 'percentage',
+        factor: seasonal?.laborRateAdjustment ?? 0,
+        amount: seasonalLaborAdjustment
+      });
+    }
 
     // 2. Material costs with waste - NEW vs OLD system
     let useMaterialsDatabase = values?.materials?.useMaterialsDatabase ?? true;
@@ -526,21 +833,43 @@ export class MasterPricingEngine {
           {
             squareFootage: sqft,
             selectedMaterials: values?.selectedMaterials,
-            customPerimeter: values?.customPerimeter
+            customPerimeter: values?.customPerimeter,
+            shape: values?.shape,
+            unitSystem,
+            layoutPattern: values?.materials?.layoutPattern
           },
           companyId,
           config.id  // serviceConfigId
         );
 
-        totalMaterialCost = result.totalMaterialCost;
-        materialCostPerSqft = result.costPerSquareFoot;
-        materialBreakdown = result;
-
-        // Set legacy fields for backward compatibility
-        materialCostBase = totalMaterialCost;
-        materialWasteCost = 0;  // Waste already included in new system
+        if (result.categories.length > 0) {
+          totalMaterialCost = result.totalMaterialCost;
+          materialCostPerSqft = result.costPerSquareFoot;
+          materialBreakdown = result;
+
+          // Set legacy fields for backward compatibility
+          materialCostBase = totalMaterialCost;
+          materialWasteCost = 0;  // Waste already included in new system
+
+          appendTraceStep(trace, {
+            tier: 2,
+            stage: 'materials',
+            label: `Materials (${result.categories.length} catalog categories, waste included)`,
+            input: sqft,
+            inputUnit: 'sqft',
+            operation: 'adder',
+            factor: totalMaterialCost,
+            amount: totalMaterialCost
+          });
+        } else {
+          // Service has no material catalog - price from base material cost instead
+          useMaterialsDatabase = false;
+        }
 
       } catch (error) {
+        // Legacy multipliers would quote without the missing required material
+        if (error instanceof MissingMaterialError) throw error;
+
         console.error('❌ Error calculating materials from database, falling back to old system:', error);
         // Fall through to old system on error
         useMaterialsDatabase = false;
@@ -549,18 +878,32 @@ export class MasterPricingEngine {
 
     if (!useMaterialsDatabase) {
       // OLD SYSTEM: Simple multiplier-based calculations (LEGACY)
-      const paverVar = config?.variables_config?.materials?.paverStyle;
-      const paverStyleValue = values?.materials?.paverStyle ?? 'standard';
-      const paverOption = paverVar?.options?.[paverStyleValue];
-      const materialMultiplier = paverOption?.multiplier ?? 1.0;
-
-      materialCostBase = baseMaterialCost * sqft * materialMultiplier;
-
-      const cuttingVar = config?.variables_config?.materials?.cuttingComplexity;
-      const cuttingOption = cuttingVar?.options?.[values?.materials?.cuttingComplexity ?? 'minimal'];
-      const cuttingWastePercent = cuttingOption?.materialWaste ?? 0;
-      materialWasteCost = materialCostBase * (cuttingWastePercent / 100);
+      // material_cost_multiplier variables scale base cost, cutting_complexity adds waste
+      materialCostBase = baseMaterialCost * sqft * effects.materialMultiplier;
+      materialWasteCost = materialCostBase * (effects.materialWastePercentage / 100);
       totalMaterialCost = materialCostBase + materialWasteCost;
+
+      if (trace) {
+        let runningMaterials = baseMaterialCost * sqft;
+        appendTraceStep(trace, {
+          tier: 2,
+          stage: 'materials',
+          label: 'Base materials',
+          input: sqft,
+          inputUnit: 'sqft',
+          operation: 'rate',
+          factor: baseMaterialCost,
+          amount: runningMaterials
+        });
+        for (const { variable, factor } of effects.applied.filter(e => e.target === 'materialMultiplier')) {
+          const amount = runningMaterials * (factor - 1);
+          appendTraceStep(trace, this.variableTraceStep(variable, 'material_adjustment', runningMaterials, 'multiplier', factor, amount));
+          runningMaterials += amount;
+        }
+        for (const { variable, factor } of effects.applied.filter(e => e.target === 'materialWastePercentage')) {
+          appendTraceStep(trace, this.variableTraceStep(variable, 'material_adjustment', materialCostBase, 'percentage', factor, materialCostBase * (factor / 100)));
+        }
+      }
     }
 
     // 3. Excavation costs (bundled service)
@@ -572,27 +915,8 @@ export class MasterPricingEngine {
 
     if (excavationEnabled) {
       try {
-        // Calculate material-based excavation depth if materials database is enabled
-        let customDepth: number | undefined = undefined;
-
-        if (useMaterialsDatabase && companyId && configId) {
-          try {
-            const depthResult = await calculatePatioExcavationDepth(
-              values?.selectedMaterials || {},
-              companyId,
-              configId
-            );
-            customDepth = depthResult.depth;
-            console.log('✅ [MASTER ENGINE] Material-based excavation depth:', {
-              depth: customDepth,
-              breakdown: depthResult.breakdown
-            });
-          } catch (depthError) {
-            console.error('❌ [MASTER ENGINE] Failed to calculate material-based depth:', depthError);
-          }
-        }
-
-        const details = await calculateExcavationCost(sqft, companyId, customDepth);
+        const context = excavation ?? await this.resolveExcavationContext(values, companyId, configId);
+        const details = await calculateExcavationCost(sqft, companyId, context.depth, context.settings);
         excavationCost = details.cost;
         excavationDetails = {
           cubicYards: details.cubicYards,
@@ -606,36 +930,20 @@ export class MasterPricingEngine {
       }
     }
 
-    // 4. Equipment costs (deprecated - set to 0 for backward compatibility)
-    const equipmentCost = 0;
+    // 4. Equipment costs: catalog requirements plus daily_equipment_cost variables, scaled by project days
+    const equipmentLines = calculateEquipmentLines(equipment, tier1Results.totalDays);
+    const equipmentCost = effects.dailyEquipmentCost * tier1Results.totalDays +
+      equipmentLines.reduce((sum, line) => sum + line.cost, 0);
 
-    // 5. Obstacle costs
-    const obstacleVar = config?.variables_config?.siteAccess?.obstacleRemoval;
-    const obstacleOption = obstacleVar?.options?.[values?.siteAccess?.obstacleRemoval ?? 'none'];
-    const obstacleCost = obstacleOption?.value ?? 0;
+    // 5. Obstacle costs (flat_additional_cost variables)
+    const obstacleCost = effects.flatAdditionalCost;
 
     // 5. CRITICAL: Apply complexity multiplier ONLY to labor and materials
     // Equipment rental rates and obstacle removal fees are fixed costs that don't scale with complexity
     // (Complexity already affects equipment costs indirectly via increased projectDays from tier1 labor calculations)
-    const complexityVar = config?.variables_config?.complexity?.overallComplexity;
-    const complexityValue = values?.complexity?.overallComplexity;
-
-    let complexityMultiplier = 1.0;
-
-    // Check if it's stored as a percentage value in the database
-    if (complexityVar?.options && typeof complexityValue === 'string') {
-      const complexityOption = complexityVar.options[complexityValue];
-      // If database stores as percentage (e.g., 0, 10, 30, 50), convert to multiplier
-      if (complexityOption?.value !== undefined) {
-        complexityMultiplier = 1 + (complexityOption.value / 100);
-      }
-    } else if (typeof complexityValue === 'number') {
-      // Legacy: If stored as direct multiplier
-      complexityMultiplier = complexityValue;
-    }
+    const complexityMultiplier = effects.projectMultiplier;
 
     console.log('🎯 [MASTER ENGINE] Complexity calculation:', {
-      selectedComplexity: complexityValue,
       complexityMultiplier,
       laborBeforeComplexity: laborCost.toFixed(2),
       materialsBeforeComplexity: totalMaterialCost.toFixed(2),
@@ -649,18 +957,185 @@ export class MasterPricingEngine {
     const adjustedLaborCost = laborCost * complexityMultiplier;
     const adjustedMaterialCost = totalMaterialCost * complexityMultiplier;
 
+    let runningLaborAndMaterials = laborCost + totalMaterialCost;
+    for (const { variable, factor } of effects.applied.filter(e => e.target === 'projectMultiplier')) {
+      const amount = runningLaborAndMaterials * (factor - 1);
+      appendTraceStep(trace, this.variableTraceStep(variable, 'project_multiplier', runningLaborAndMaterials, 'multiplier', factor, amount));
+      runningLaborAndMaterials += amount;
+    }
+
+    if (excavationCost > 0) {
+      appendTraceStep(trace, {
+        tier: 2,
+        stage: 'bundled_cost',
+        label: `Excavation (${excavationDetails?.cubicYards ?? 0} cubic yards, bundled service)`,
+        input: sqft,
+        inputUnit: 'sqft',
+        operation: 'adder',
+        factor: excavationCost,
+        amount: excavationCost
+      });
+    }
+
+    // Declared service bundles - nested breakdowns like excavationDetails
+    // 'parent' bundles share the parent's markup, the rest are added after profit
+    const bundledServices = bundles.map(({ declaration, quantity, unit, result }) =>
+      buildBundledServiceResult(declaration, quantity, unit, result.tier1Results.totalManHours, result.tier2Results, profitMargin)
+    );
+    const bundleTotals = summarizeBundles(bundledServices);
+    const bundleMobilization = sharedMobilization(bundles.map(bundle => bundle.declaration));
+
+    for (const bundle of bundledServices.filter(b => b.profitTreatment === 'parent')) {
+      const markedUpCost = bundle.costs.labor + bundle.costs.materials + bundle.costs.excavation;
+      appendTraceStep(trace, {
+        tier: 2,
+        stage: 'bundled_cost',
+        label: `${bundle.label} (${bundle.quantity} ${bundle.unit}, bundled service)`,
+        input: bundle.quantity,
+        inputUnit: bundle.unit,
+        operation: 'adder',
+        factor: markedUpCost,
+        amount: markedUpCost
+      });
+    }
+
     // 6. Calculate profit on labor, materials, AND excavation (the actual work)
     // Equipment rentals and obstacle removal are pass-through costs (no profit markup)
     // Excavation gets complexity & profit markup since it's actual work
-    const profitableSubtotal = adjustedLaborCost + adjustedMaterialCost + excavationCost;
-    const profit = profitableSubtotal * profitMargin;
+    const profitableSubtotal = adjustedLaborCost + adjustedMaterialCost + excavationCost + bundleTotals.profitableCost;
+    const marginProfit = profitableSubtotal * profitMargin;
+    appendTraceStep(trace, {
+      tier: 2,
+      stage: 'profit',
+      label: profitMargin !== baseProfitMargin ? `Profit margin (${seasonLabel})` : 'Profit margin',
+      input: profitableSubtotal,
+      inputUnit: 'usd',
+      operation: 'percentage',
+      factor: profitMargin * 100,
+      amount: marginProfit
+    });
+
+    // Backlog surcharge on the marked-up price - counted as profit
+    const backlogPercentage = seasonal?.backlogTier?.percentage ?? 0;
+    const backlogSurcharge = (profitableSubtotal + marginProfit) * backlogPercentage / 100;
+    if (backlogSurcharge > 0) {
+      appendTraceStep(trace, {
+        tier: 2,
+        stage: 'seasonal',
+        label: `Backlog surcharge (${seasonal?.backlogHours ?? 0} crew hours scheduled)`,
+        input: profitableSubtotal + marginProfit,
+        inputUnit: 'usd',
+        operation: 'percentage',
+        factor: backlogPercentage,
+        amount: backlogSurcharge
+      });
+    }
+    const profit = marginProfit + backlogSurcharge;
+
+    // Pass-through costs, no profit markup
+    for (const { variable, target, factor } of effects.applied) {
+      if (target === 'dailyEquipmentCost') {
+        appendTraceStep(trace, this.variableTraceStep(variable, 'pass_through', tier1Results.totalDays, 'rate', factor, factor * tier1Results.totalDays, 'days'));
+      } else if (target === 'flatAdditionalCost') {
+        appendTraceStep(trace, this.variableTraceStep(variable, 'pass_through', factor, 'adder', factor, factor));
+      }
+    }
+
+    for (const line of equipmentLines) {
+      appendTraceStep(trace, {
+        tier: 2,
+        stage: 'pass_through',
+        label: `${line.name} × ${line.quantity} (${line.ownership}${line.deliveryFee ? `, $${line.deliveryFee} delivery` : ''})`,
+        input: line.quantity * line.days,
+        inputUnit: 'days',
+        operation: 'rate',
+        factor: line.dailyRate,
+        amount: line.cost
+      });
+    }
+
+    // Bundled amounts without the parent's markup, then one shared mobilization
+    for (const bundle of bundledServices) {
+      const isParent = bundle.profitTreatment === 'parent';
+      const amount = isParent ? bundle.costs.equipment + bundle.costs.obstacles : bundle.total;
+      if (amount <= 0) continue;
+      appendTraceStep(trace, {
+        tier: 2,
+        stage: 'bundled_cost',
+        label: isParent
+          ? `${bundle.label} equipment & obstacles (bundled service)`
+          : `${bundle.label} (${bundle.quantity} ${bundle.unit}, bundled service${bundle.profitTreatment === 'none' ? ' at cost' : ''})`,
+        input: bundle.quantity,
+        inputUnit: bundle.unit,
+        operation: 'adder',
+        factor: amount,
+        amount
+      });
+    }
+
+    if (bundleMobilization > 0) {
+      appendTraceStep(trace, {
+        tier: 2,
+        stage: 'bundled_cost',
+        label: 'Shared mobilization (bundled services)',
+        input: bundledServices.length,
+        inputUnit: 'services',
+        operation: 'adder',
+        factor: bundleMobilization,
+        amount: bundleMobilization
+      });
+    }
+
+    const bundlePassThrough = bundleTotals.passThroughCost + bundleTotals.linkedTotal + bundleMobilization;
 
     // 7. Calculate final subtotal: profitable costs + profit + pass-through costs
     const subtotalBeforePassThrough = profitableSubtotal + profit;
-    const subtotal = subtotalBeforePassThrough + equipmentCost + obstacleCost;
+    const subtotal = subtotalBeforePassThrough + equipmentCost + obstacleCost + bundlePassThrough;
+
+    // 8. businessSettings rules: volume discount, minimum job charge, margin floor
+    const pricingRules = pricingRulesFromBusinessSettings(config?.baseSettings?.businessSettings);
+    const rules = applyPricingRules(
+      { sqft, profitableSubtotal, profit, passThroughCost: equipmentCost + obstacleCost + bundlePassThrough },
+      pricingRules
+    );
+
+    if (rules.volumeDiscountTier) {
+      const { threshold } = rules.volumeDiscountTier;
+      appendTraceStep(trace, {
+        tier: 2,
+        stage: 'volume_discount',
+        label: pricingRules.volumeDiscounts?.basis === 'total'
+          ? `Volume discount (jobs over $${threshold})`
+          : `Volume discount (${threshold}+ sqft)`,
+        input: subtotalBeforePassThrough,
+        inputUnit: 'usd',
+        operation: 'percentage',
+        factor: -rules.volumeDiscountTier.percentage,
+        amount: -rules.volumeDiscount
+      });
+    }
 
-    // 8. Final total (subtotal already includes profit)
-    const total = subtotal;
+    if (rules.minimumChargeAdjustment > 0) {
+      appendTraceStep(trace, {
+        tier: 2,
+        stage: 'minimum_charge',
+        label: 'Minimum job charge',
+        input: subtotal - rules.volumeDiscount,
+        inputUnit: 'usd',
+        operation: 'adder',
+        factor: rules.minimumChargeAdjustment,
+        amount: rules.minimumChargeAdjustment
+      });
+    }
+
+    if (rules.belowMarginFloor) {
+      console.warn('⚠️ [MASTER ENGINE] Quote below margin floor:', {
+        effectiveMargin: (rules.effectiveMargin * 100).toFixed(1) + '%',
+        marginFloor: ((rules.marginFloor ?? 0) * 100).toFixed(1) + '%'
+      });
+    }
+
+    const total = rules.total;
 
     console.log('💰 [MASTER ENGINE] Tier 2 calculation (detailed breakdown):', {
       '1_laborCostBase': laborCost.toFixed(2),
@@ -670,11 +1145,16 @@ export class MasterPricingEngine {
       '5_profitableSubtotal': profitableSubtotal.toFixed(2),
       '6_profitMargin': (profitMargin * 100).toFixed(1) + '%',
       '7_profitAmount': profit.toFixed(2),
+      '7b_seasonal': seasonal ? `${seasonLabel}: labor ${seasonalLaborAdjustment.toFixed(2)}, backlog ${backlogSurcharge.toFixed(2)}` : 'none',
       '8_subtotalWithProfit': subtotalBeforePassThrough.toFixed(2),
       '9_PASS_THROUGH_equipmentCost': equipmentCost.toFixed(2) + ' (no profit markup)',
       '10_PASS_THROUGH_obstacleCost': obstacleCost.toFixed(2) + ' (no profit markup)',
+      '10b_bundledServices': bundledServices.map(bundle => `${bundle.label}: ${bundle.total.toFixed(2)} (${bundle.profitTreatment})`),
+      '10c_bundleMobilization': bundleMobilization.toFixed(2),
       '11_finalSubtotal': subtotal.toFixed(2),
-      '12_finalTotal': total.toFixed(2)
+      '12_volumeDiscount': rules.volumeDiscount.toFixed(2),
+      '13_minimumChargeAdjustment': rules.minimumChargeAdjustment.toFixed(2),
+      '14_finalTotal': total.toFixed(2)
     });
 
     return {
@@ -685,9 +1165,24 @@ export class MasterPricingEngine {
       excavationCost: excavationCost ? Math.round(excavationCost * 100) / 100 : undefined,
       excavationDetails: excavationDetails,
       equipmentCost: Math.round(equipmentCost * 100) / 100,
+      equipmentLines: equipmentLines.length > 0 ? equipmentLines : undefined,
       obstacleCost: Math.round(obstacleCost * 100) / 100,
       subtotal: Math.round(subtotal * 100) / 100,
       profit: Math.round(profit * 100) / 100,
+      volumeDiscount: rules.volumeDiscount ? Math.round(rules.volumeDiscount * 100) / 100 : undefined,
+      minimumChargeAdjustment: rules.minimumChargeAdjustment ? Math.round(rules.minimumChargeAdjustment * 100) / 100 : undefined,
+      effectiveMargin: Math.round(rules.effectiveMargin * 10000) / 10000,
+      belowMarginFloor: rules.belowMarginFloor,
+      bundledServices: bundledServices.length > 0 ? bundledServices : undefined,
+      bundleMobilization: bundleMobilization ? Math.round(bundleMobilization * 100) / 100 : undefined,
+      seasonal: hasSeasonalEffect(seasonal)
+        ? {
+            ...seasonal,
+            laborAdjustment: Math.round(seasonalLaborAdjustment * complexityMultiplier * 100) / 100,
+            profitAdjustment: Math.round(profitableSubtotal * (profitMargin - baseProfitMargin) * 100) / 100,
+            backlogSurcharge: Math.round(backlogSurcharge * 100) / 100
+          }
+        : undefined,
       total: Math.round(total * 100) / 100,
       pricePerSqft: Math.round((total / sqft) * 100) / 100,
       materialCostPerSqft: materialCostPerSqft ? Math.round(materialCostPerSqft * 100) / 100 : undefined,
@@ -695,6 +1190,34 @@ export class MasterPricingEngine {
     };
   }
 
+  /**
+   * Explain-mode step for a variables_config option applied in Tier 2
+   */
+  private variableTraceStep(
+    variable: ResolvedVariable,
+    stage: PricingTraceStage,
+    input: number,
+    operation: PricingTraceOperation,
+    factor: number,
+    amount: number,
+    inputUnit: string = 'usd'
+  ): Omit<PricingTraceStep, 'step' | 'runningTotal' | 'unit'> {
+    return {
+      tier: 2,
+      stage,
+      label: variable.label,
+      input,
+      inputUnit,
+      operation,
+      factor,
+      amount,
+      categoryKey: variable.categoryKey,
+      variableKey: variable.variableKey,
+      option: variable.selected,
+      effectType: variable.effectType
+    };
+  }
+
   /**
    * Calculate excavation pricing - Simple volume-based calculation
    */
@@ -738,12 +1261,15 @@ export class MasterPricingEngine {
     }
     // 'exact' means no rounding
 
-    // STEP 4: Calculate time using AREA-BASED TIERS
-    // Time is based ONLY on area (depth does not affect time)
-    // 12 hours per 1000 sqft tier, 1.5 days per 1000 sqft tier
-    const sqftTiers = Math.ceil(area_sqft / 1000);
-    const base_hours = sqftTiers * 12;
-    const project_days = sqftTiers * 1.5;
+    // STEP 4: Calculate time from the PRODUCTIVITY CURVE
+    // cubic yards / equipment rate × depth factor (see excavation-productivity.ts)
+    const productivity = calculateExcavationHoursFromCurve(
+      Math.ceil(cy_adjusted),
+      depth_inches,
+      normalizeProductivityCurve(calculationSettings?.productivityCurve?.default)
+    );
+    const base_hours = productivity.hours;
+    const project_days = Math.round((base_hours / (teamSize * 8)) * 10) / 10;
 
     // STEP 5: Calculate costs (simple formula - NO multipliers)
     const base_cost = cy_final * baseRate;
@@ -758,7 +1284,7 @@ export class MasterPricingEngine {
       cubic_yards_adjusted: Math.round(cy_adjusted * 100) / 100,
       cubic_yards_final: Math.round(cy_final * 100) / 100,
 
-      // Time estimates (area-based tiers)
+      // Time estimates (productivity curve)
       base_hours: base_hours,
       project_days: project_days,
 
@@ -843,6 +1369,7 @@ export class MasterPricingEngine {
     const profitMargin = typeof row.profit_margin === 'string'
       ? parseFloat(row.profit_margin)
       : row.profit_margin;
+    const pricingRules = normalizePricingRules(row.pricing_rules);
 
     const config = {
       id: row.id,  // Database UUID for service_pricing_configs record (required for materials database)
@@ -862,7 +1389,10 @@ export class MasterPricingEngine {
           baseMaterialCost: { value: baseMaterialCost }
         },
         businessSettings: {
-          profitMarginTarget: { value: profitMargin }
+          profitMarginTarget: { value: profitMargin },
+          minimumJobCharge: { value: pricingRules.minimumJobCharge ?? 0 },
+          marginFloor: { value: pricingRules.marginFloor ?? 0 },
+          volumeDiscounts: pricingRules.volumeDiscounts
         }
       },
       calculationSystem: {
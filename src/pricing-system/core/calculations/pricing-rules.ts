@@ -0,0 +1,152 @@
+/**
+ * Pricing Rules - businessSettings adjustments applied after profit
+ *
+ * Volume discounts, minimum job charge and margin floor. Rules are stored in
+ * svc_pricing_configs.pricing_rules (migration 26) and reach the engine as
+ * baseSettings.businessSettings.
+ *
+ * Order matters:
+ * 1. Volume discount comes off the marked-up portion (labor, materials,
+ *    excavation and profit). Pass-through costs are never discounted.
+ * 2. The discounted price is raised to the minimum job charge.
+ * 3. The margin floor never changes the price - it flags quotes whose
+ *    realized margin ended up below it.
+ *
+ * Margins use the same basis as profitMarginTarget: profit / profitable subtotal.
+ */
+
+import type { BusinessSettings } from '../master-formula/formula-types';
+
+export type VolumeDiscountBasis = 'sqft' | 'total';
+
+export interface VolumeDiscountTier {
+  threshold: number;                 // Applies at or above this many sqft (or dollars)
+  percentage: number;                // 5 = 5% off
+}
+
+export interface VolumeDiscountRule {
+  basis: VolumeDiscountBasis;
+  tiers: VolumeDiscountTier[];
+}
+
+/**
+ * Shape of the pricing_rules JSONB column
+ */
+export interface PricingRules {
+  minimumJobCharge?: number;         // Dollars, 0 = no minimum
+  marginFloor?: number;              // Decimal, 0.10 = 10%, 0 = no check
+  volumeDiscounts?: VolumeDiscountRule;
+}
+
+export interface PricingRuleInput {
+  sqft: number;
+  profitableSubtotal: number;        // Labor + materials + excavation
+  profit: number;
+  passThroughCost: number;           // Equipment + obstacles (no markup)
+}
+
+export interface PricingRuleResult {
+  volumeDiscount: number;            // Dollars taken off (positive)
+  volumeDiscountTier: VolumeDiscountTier | null;
+  minimumChargeAdjustment: number;   // Dollars added to reach the minimum
+  total: number;
+  effectiveMargin: number;           // Realized profit / profitable subtotal
+  marginFloor: number | null;
+  belowMarginFloor: boolean;
+}
+
+const toNumber = (value: unknown): number => {
+  const parsed = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof parsed === 'number' && Number.isFinite(parsed) ? parsed : 0;
+};
+
+/**
+ * Clean up a pricing_rules value from the database or a JSON config
+ *
+ * Drops invalid tiers, clamps percentages to 0-100 and sorts tiers by threshold.
+ */
+export function normalizePricingRules(raw: unknown): PricingRules {
+  if (!raw || typeof raw !== 'object') return {};
+  const source = raw as Record<string, any>;
+  const rules: PricingRules = {};
+
+  const minimumJobCharge = toNumber(source.minimumJobCharge);
+  if (minimumJobCharge > 0) rules.minimumJobCharge = minimumJobCharge;
+
+  const marginFloor = toNumber(source.marginFloor);
+  if (marginFloor > 0) rules.marginFloor = marginFloor;
+
+  const discounts = source.volumeDiscounts;
+  if (discounts && Array.isArray(discounts.tiers)) {
+    const tiers = discounts.tiers
+      .map((tier: any) => ({
+        threshold: toNumber(tier?.threshold),
+        percentage: Math.min(100, toNumber(tier?.percentage))
+      }))
+      .filter((tier: VolumeDiscountTier) => tier.threshold > 0 && tier.percentage > 0)
+      .sort((a: VolumeDiscountTier, b: VolumeDiscountTier) => a.threshold - b.threshold);
+
+    if (tiers.length > 0) {
+      rules.volumeDiscounts = { basis: discounts.basis === 'total' ? 'total' : 'sqft', tiers };
+    }
+  }
+
+  return rules;
+}
+
+/**
+ * Read the rules from an engine config's businessSettings
+ */
+export function pricingRulesFromBusinessSettings(businessSettings: Partial<BusinessSettings> | undefined): PricingRules {
+  return normalizePricingRules({
+    minimumJobCharge: businessSettings?.minimumJobCharge?.value,
+    marginFloor: businessSettings?.marginFloor?.value,
+    volumeDiscounts: businessSettings?.volumeDiscounts
+  });
+}
+
+/**
+ * Highest tier whose threshold the job reaches, or null
+ */
+export function selectVolumeDiscountTier(
+  rule: VolumeDiscountRule | undefined,
+  sqft: number,
+  total: number
+): VolumeDiscountTier | null {
+  if (!rule) return null;
+  const measure = rule.basis === 'total' ? total : sqft;
+  return [...rule.tiers]
+    .sort((a, b) => b.threshold - a.threshold)
+    .find(tier => measure >= tier.threshold) ?? null;
+}
+
+/**
+ * Apply the rules to a Tier 2 breakdown
+ */
+export function applyPricingRules(input: PricingRuleInput, rules: PricingRules): PricingRuleResult {
+  const markedUp = input.profitableSubtotal + input.profit;
+  const totalBeforeRules = markedUp + input.passThroughCost;
+
+  const volumeDiscountTier = selectVolumeDiscountTier(rules.volumeDiscounts, input.sqft, totalBeforeRules);
+  const volumeDiscount = volumeDiscountTier ? markedUp * volumeDiscountTier.percentage / 100 : 0;
+  const discountedTotal = totalBeforeRules - volumeDiscount;
+
+  const minimumChargeAdjustment = rules.minimumJobCharge && discountedTotal < rules.minimumJobCharge
+    ? rules.minimumJobCharge - discountedTotal
+    : 0;
+  const total = discountedTotal + minimumChargeAdjustment;
+
+  const realizedProfit = input.profit - volumeDiscount + minimumChargeAdjustment;
+  const effectiveMargin = input.profitableSubtotal > 0 ? realizedProfit / input.profitableSubtotal : 0;
+  const marginFloor = rules.marginFloor ?? null;
+
+  return {
+    volumeDiscount,
+    volumeDiscountTier,
+    minimumChargeAdjustment,
+    total,
+    effectiveMargin,
+    marginFloor,
+    belowMarginFloor: marginFloor !== null && input.profitableSubtotal > 0 && effectiveMargin < marginFloor
+  };
+}
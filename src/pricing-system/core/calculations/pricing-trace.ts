@@ -0,0 +1,120 @@
+/**
+ * Pricing Trace - Explain mode for the master pricing engine
+ *
+ * When calculatePricing() runs with `{ explain: true }` every adjustment is
+ * recorded as an ordered step: what it was applied to, which variable and
+ * option caused it, the factor used and the running total afterwards.
+ *
+ * Tier 1 steps run in hours, Tier 2 steps in dollars. The last Tier 1 step's
+ * running total equals totalManHours; the last Tier 2 step's equals total
+ * (before rounding).
+ */
+
+import type { EffectType } from './formula-interpreter';
+import type { SeasonalAdjustment } from './seasonal-pricing';
+import type { UnitSystem } from '../../utils/unit-system';
+
+/**
+ * How a step's amount is derived from its input and factor
+ *
+ * - rate:       amount = input × factor            (hours × $/hr, days × $/day)
+ * - percentage: amount = input × factor / 100      (% of base hours, profit margin)
+ * - multiplier: amount = input × (factor − 1)      (material / project multipliers)
+ * - adder:      amount = factor                    (flat costs, catalog totals)
+ */
+export type PricingTraceOperation = 'rate' | 'percentage' | 'multiplier' | 'adder';
+
+export type PricingTraceStage =
+  | 'base_hours'
+  | 'labor_adjustment'
+  | 'bundled_hours'
+  | 'labor_cost'
+  | 'materials'
+  | 'material_adjustment'
+  | 'project_multiplier'
+  | 'bundled_cost'
+  | 'profit'
+  | 'seasonal'
+  | 'pass_through'
+  | 'volume_discount'
+  | 'minimum_charge';
+
+export interface PricingTraceStep {
+  step: number;                      // 1-based order across both tiers
+  tier: 1 | 2;
+  stage: PricingTraceStage;
+  label: string;
+  input: number;                     // Value the factor was applied to (informational for adders)
+  inputUnit: string;                 // 'usd', 'hours', 'days' or the service unit (sqft, lnft...)
+  operation: PricingTraceOperation;
+  factor: number;                    // Multiplier, rate, percentage or adder
+  amount: number;                    // Change to the running total
+  runningTotal: number;              // Hours (tier 1) or dollars (tier 2) after this step
+  unit: 'hours' | 'usd';
+  // Set when a variables_config option caused the step
+  categoryKey?: string;
+  variableKey?: string;
+  option?: string | number;
+  effectType?: EffectType;
+}
+
+export interface CalculationOptions {
+  explain?: boolean;                 // Return an ordered PricingTraceStep[] on the result
+  includeBundles?: boolean;          // Price declared service bundles (default true; off for bundled children)
+  seasonal?: SeasonalAdjustment;     // Calendar / backlog adjustment for the start date (see seasonal-pricing.ts)
+  unitSystem?: UnitSystem;           // Units for material quantity displays (see unit-system.ts)
+}
+
+/**
+ * Append a step, numbering it and carrying the running total forward
+ * No-op when trace is undefined (explain mode off)
+ */
+export function appendTraceStep(
+  trace: PricingTraceStep[] | undefined,
+  step: Omit<PricingTraceStep, 'step' | 'runningTotal' | 'unit'>
+): void {
+  if (!trace) return;
+
+  const previous = [...trace].reverse().find(s => s.tier === step.tier);
+  trace.push({
+    ...step,
+    step: trace.length + 1,
+    unit: step.tier === 1 ? 'hours' : 'usd',
+    runningTotal: (previous?.runningTotal ?? 0) + step.amount
+  });
+}
+
+const formatValue = (value: number, unit: string) =>
+  unit === 'usd' ? `$${value.toFixed(2)}` : `${Number(value.toFixed(2))} ${unit}`;
+
+function formatFactor(step: PricingTraceStep): string {
+  switch (step.operation) {
+    case 'rate':
+      return step.unit === 'usd' ? `× $${step.factor.toFixed(2)}` : `× ${Number(step.factor.toFixed(4))}`;
+    case 'percentage':
+      return `× ${Number(step.factor.toFixed(2))}%`;
+    case 'multiplier':
+      return `× ${Number(step.factor.toFixed(4))} multiplier`;
+    case 'adder':
+      return `+ ${formatValue(step.factor, step.unit)}`;
+  }
+}
+
+/**
+ * One readable line per step, e.g.
+ * "2. Access Difficulty = difficult: 60 hours × 25% → +15.0 hours (75 hours)"
+ */
+export function formatTraceStep(step: PricingTraceStep): string {
+  const source = step.variableKey && step.option !== undefined ? ` = ${step.option}` : '';
+  const sign = step.amount < 0 ? '−' : '+';
+  const input = step.operation === 'adder' ? '' : `${formatValue(step.input, step.inputUnit)} ${formatFactor(step)} → `;
+  const amount = step.unit === 'usd'
+    ? `${sign}$${Math.abs(step.amount).toFixed(2)}`
+    : `${sign}${Math.abs(step.amount).toFixed(1)} hours`;
+
+  return `${step.step}. ${step.label}${source}: ${input}${amount} (${formatValue(step.runningTotal, step.unit)})`;
+}
+
+export function formatPricingTrace(trace: PricingTraceStep[] | undefined): string[] {
+  return (trace ?? []).map(formatTraceStep);
+}
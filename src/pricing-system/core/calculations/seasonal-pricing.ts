@@ -0,0 +1,221 @@
+/**
+ * Seasonal & Demand Pricing
+ *
+ * Adjusts a quote for when the work starts. Two sources (migration 31):
+ *
+ * 1. Pricing calendar - date-ranged periods in pricing_calendar_periods.
+ *    A period adds points to profitMarginTarget and/or scales the hourly
+ *    labor rate. Recurring periods repeat every year (a Mar 15 - May 31
+ *    "Spring rush" covers every spring); ranges may wrap the new year.
+ *    Overlapping periods stack.
+ *
+ * 2. Backlog surcharge - companies.backlog_surcharge. Crew hours already
+ *    scheduled in job_assignments during the window after the start date
+ *    pick a tier; its percentage is added on top of the marked-up price:
+ *
+ *      {
+ *        "windowDays": 28,
+ *        "tiers": [ { "hours": 400, "percentage": 5 }, { "hours": 600, "percentage": 10 } ]
+ *      }
+ *
+ * PricingCalendarService resolves the adjustment for a start date and the
+ * engine applies it (CalculationOptions.seasonal). Pass-through costs are
+ * never adjusted.
+ */
+
+export interface PricingCalendarPeriod {
+  name: string;
+  startDate: string;                 // YYYY-MM-DD, inclusive
+  endDate: string;                   // YYYY-MM-DD, inclusive
+  recurring: boolean;                // Same month/day range every year
+  marginAdjustment: number;          // Decimal points, 0.05 = +5 pts, -0.03 = -3 pts
+  laborRateAdjustment: number;       // Percent, 10 = +10% hourly rate
+}
+
+export interface BacklogSurchargeTier {
+  hours: number;                     // Applies at or above this many scheduled crew hours
+  percentage: number;                // 5 = 5% surcharge
+}
+
+/**
+ * Shape of the companies.backlog_surcharge JSONB column
+ */
+export interface BacklogSurchargeRule {
+  windowDays: number;                // Days after the start date counted as backlog
+  tiers: BacklogSurchargeTier[];
+}
+
+/**
+ * Adjustment for one start date, resolved by the caller and passed to the
+ * engine in CalculationOptions
+ */
+export interface SeasonalAdjustment {
+  startDate: string;
+  periods: string[];                 // Names of the calendar periods that apply
+  marginAdjustment: number;
+  laborRateAdjustment: number;
+  backlogHours: number;
+  backlogTier: BacklogSurchargeTier | null;
+}
+
+/**
+ * Dollar effect of the adjustment on a Tier 2 breakdown
+ */
+export interface SeasonalPricingResult extends SeasonalAdjustment {
+  laborAdjustment: number;           // Labor dollars from the rate change
+  profitAdjustment: number;          // Profit dollars from the margin change
+  backlogSurcharge: number;          // Surcharge dollars
+}
+
+export const DEFAULT_BACKLOG_WINDOW_DAYS = 28;
+
+/** Crew hours per scheduled day when an assignment has no estimated_hours */
+export const DEFAULT_ASSIGNMENT_HOURS_PER_DAY = 8;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toNumber = (value: unknown): number => {
+  const parsed = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof parsed === 'number' && Number.isFinite(parsed) ? parsed : 0;
+};
+
+/**
+ * Date part of an ISO date or timestamp
+ */
+export function toDateOnly(value: string): string {
+  return value.slice(0, 10);
+}
+
+/**
+ * Whether a period covers a date (YYYY-MM-DD)
+ */
+export function periodCovers(period: Pick<PricingCalendarPeriod, 'startDate' | 'endDate' | 'recurring'>, date: string): boolean {
+  const day = toDateOnly(date);
+  if (!period.recurring) {
+    return day >= period.startDate && day <= period.endDate;
+  }
+
+  // Compare month-day only; a start after the end wraps the new year
+  const monthDay = day.slice(5);
+  const start = period.startDate.slice(5);
+  const end = period.endDate.slice(5);
+  return start <= end
+    ? monthDay >= start && monthDay <= end
+    : monthDay >= start || monthDay <= end;
+}
+
+/**
+ * Clean up a backlog_surcharge value from the database
+ *
+ * Drops invalid tiers, clamps percentages to 0-100 and sorts tiers by hours.
+ * Returns null when there is nothing to apply.
+ */
+export function normalizeBacklogRule(raw: unknown): BacklogSurchargeRule | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const source = raw as Record<string, any>;
+  if (!Array.isArray(source.tiers)) return null;
+
+  const tiers = source.tiers
+    .map((tier: any) => ({
+      hours: toNumber(tier?.hours),
+      percentage: Math.min(100, toNumber(tier?.percentage))
+    }))
+    .filter((tier: BacklogSurchargeTier) => tier.hours > 0 && tier.percentage > 0)
+    .sort((a: BacklogSurchargeTier, b: BacklogSurchargeTier) => a.hours - b.hours);
+
+  if (tiers.length === 0) return null;
+
+  const windowDays = Math.round(toNumber(source.windowDays));
+  return { windowDays: windowDays > 0 ? windowDays : DEFAULT_BACKLOG_WINDOW_DAYS, tiers };
+}
+
+/**
+ * Backlog window for a start date - [start, end) as ISO timestamps
+ */
+export function backlogWindow(startDate: string, windowDays: number): { start: string; end: string } {
+  const start = new Date(`${toDateOnly(startDate)}T00:00:00.000Z`);
+  return {
+    start: start.toISOString(),
+    end: new Date(start.getTime() + windowDays * DAY_MS).toISOString()
+  };
+}
+
+/**
+ * Crew hours of a scheduled assignment
+ * estimated_hours when set, otherwise a full crew day for every scheduled day
+ */
+export function assignmentCrewHours(assignment: {
+  estimated_hours?: number | string | null;
+  scheduled_start: string;
+  scheduled_end: string;
+}): number {
+  const estimated = toNumber(assignment.estimated_hours);
+  if (estimated > 0) return estimated;
+
+  const span = new Date(assignment.scheduled_end).getTime() - new Date(assignment.scheduled_start).getTime();
+  if (!(span > 0)) return 0;
+  return Math.ceil(span / DAY_MS) * DEFAULT_ASSIGNMENT_HOURS_PER_DAY;
+}
+
+/**
+ * Highest tier the backlog reaches, or null
+ */
+export function selectBacklogTier(rule: BacklogSurchargeRule | null, backlogHours: number): BacklogSurchargeTier | null {
+  if (!rule) return null;
+  return [...rule.tiers]
+    .sort((a, b) => b.hours - a.hours)
+    .find(tier => backlogHours >= tier.hours) ?? null;
+}
+
+/**
+ * Combine the calendar periods and backlog for a start date
+ */
+export function resolveSeasonalAdjustment(
+  startDate: string,
+  periods: PricingCalendarPeriod[],
+  backlogRule: BacklogSurchargeRule | null,
+  backlogHours: number
+): SeasonalAdjustment {
+  const matching = periods.filter(period => periodCovers(period, startDate));
+
+  return {
+    startDate: toDateOnly(startDate),
+    periods: matching.map(period => period.name),
+    marginAdjustment: matching.reduce((sum, period) => sum + period.marginAdjustment, 0),
+    laborRateAdjustment: matching.reduce((sum, period) => sum + period.laborRateAdjustment, 0),
+    backlogHours: Math.round(backlogHours * 100) / 100,
+    backlogTier: selectBacklogTier(backlogRule, backlogHours)
+  };
+}
+
+/**
+ * Whether an adjustment changes the price at all
+ */
+export function hasSeasonalEffect(adjustment: SeasonalAdjustment | undefined): adjustment is SeasonalAdjustment {
+  return !!adjustment && (
+    adjustment.marginAdjustment !== 0 ||
+    adjustment.laborRateAdjustment !== 0 ||
+    adjustment.backlogTier !== null
+  );
+}
+
+/**
+ * Hourly rate after the calendar's labor adjustment (never below 0)
+ */
+export function adjustedHourlyRate(hourlyRate: number, adjustment: SeasonalAdjustment | undefined): number {
+  return Math.max(0, hourlyRate * (1 + (adjustment?.laborRateAdjustment ?? 0) / 100));
+}
+
+/**
+ * Profit margin after the calendar's margin adjustment (never below 0)
+ */
+export function adjustedProfitMargin(profitMargin: number, adjustment: SeasonalAdjustment | undefined): number {
+  return Math.max(0, profitMargin + (adjustment?.marginAdjustment ?? 0));
+}
+
+/**
+ * Human label for trace steps and quote lines
+ */
+export function describeSeasonalAdjustment(adjustment: SeasonalAdjustment): string {
+  return adjustment.periods.length > 0 ? adjustment.periods.join(' + ') : `Start ${adjustment.startDate}`;
+}
@@ -0,0 +1,264 @@
+/**
+ * Service Bundles
+ *
+ * Lets any service declare integrations with other registry services in
+ * its variables_config.serviceIntegrations category. Each toggle with a
+ * linkedService is a bundle, enabled when the user turns the toggle on:
+ *
+ *   "includeSeatWall": {
+ *     "type": "toggle",
+ *     "label": "Include Seat Wall",
+ *     "default": false,
+ *     "linkedService": "seat_wall_lnft",
+ *     "quantity": { "source": "perimeter", "factor": 0.5 },
+ *     "profitTreatment": "parent",
+ *     "mobilization": 150,
+ *     "values": { "wall": { "height": "standard" } }
+ *   }
+ *
+ * quantity.source:  'parent' (parent size × factor), 'perimeter' (parent
+ *                   perimeter × factor) or 'fixed' (quantity.value)
+ * profitTreatment:  'parent' - child's labor, materials and excavation are
+ *                   marked up with the parent's margin (default)
+ *                   'linked' - child priced with its own margin and rules
+ *                   'none'   - child charged at cost
+ * mobilization:     $ - bundled services share one mobilization, the
+ *                   highest among enabled bundles is charged once
+ * values:           preset child input, overridden by values.bundleValues[key]
+ *
+ * The engine prices each child with its own live config; these helpers
+ * resolve declarations and turn child results into parent line amounts.
+ * excavation_removal keeps its dedicated path (excavation-integration.ts).
+ */
+
+import type { ServiceVariableValues } from './formula-interpreter';
+import type { Tier2Results } from './master-pricing-engine';
+import { resolvePerimeter } from '../../utils/patio-shape';
+
+export type BundleQuantitySource = 'parent' | 'perimeter' | 'fixed';
+export type BundleProfitTreatment = 'parent' | 'linked' | 'none';
+
+export interface ServiceIntegrationDeclaration {
+  key: string;                       // Toggle key in serviceIntegrations
+  label: string;
+  linkedService: string;
+  quantity: {
+    source: BundleQuantitySource;
+    factor: number;
+    value?: number;                  // 'fixed' only
+  };
+  profitTreatment: BundleProfitTreatment;
+  mobilization: number;
+  values: ServiceVariableValues;
+}
+
+/**
+ * Child costs before profit
+ */
+export interface BundleCostComponents {
+  labor: number;
+  materials: number;
+  excavation: number;
+  equipment: number;
+  obstacles: number;
+}
+
+/**
+ * Nested breakdown of one bundled service on the parent result
+ */
+export interface BundledServiceResult {
+  key: string;
+  serviceId: string;
+  label: string;
+  quantity: number;
+  unit: string;
+  hours: number;                     // Child man hours (not added to the parent's labor)
+  profitTreatment: BundleProfitTreatment;
+  costs: BundleCostComponents;
+  profit: number;                    // Parent margin, the child's own profit, or 0
+  total: number;                     // Charged on the parent line
+}
+
+export interface BundleTotals {
+  profitableCost: number;            // Marked up with the parent's margin
+  passThroughCost: number;           // At cost
+  linkedTotal: number;               // Already includes the child's own profit
+}
+
+// Handled by excavation-integration.ts (hours curve + cubic yard cost)
+const DEDICATED_INTEGRATIONS = new Set(['excavation_removal']);
+
+const QUANTITY_SOURCES: BundleQuantitySource[] = ['parent', 'perimeter', 'fixed'];
+const PROFIT_TREATMENTS: BundleProfitTreatment[] = ['parent', 'linked', 'none'];
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const nonNegative = (value: unknown, fallback: number): number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : fallback;
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Bundles the user turned on, from the parent's serviceIntegrations category
+ *
+ * Only the toggle value counts - same rule as includeExcavation.
+ */
+export function resolveServiceIntegrations(
+  variablesConfig: Record<string, any> | undefined,
+  values: ServiceVariableValues | undefined
+): ServiceIntegrationDeclaration[] {
+  const category = variablesConfig?.serviceIntegrations;
+  if (!isPlainObject(category)) return [];
+
+  const declarations: ServiceIntegrationDeclaration[] = [];
+  for (const [key, variable] of Object.entries(category)) {
+    if (!isPlainObject(variable) || typeof variable.linkedService !== 'string') continue;
+    if (DEDICATED_INTEGRATIONS.has(variable.linkedService)) continue;
+    if (values?.serviceIntegrations?.[key] !== true) continue;
+
+    const quantity = isPlainObject(variable.quantity) ? variable.quantity : {};
+    declarations.push({
+      key,
+      label: typeof variable.label === 'string' ? variable.label.replace(/^Include\s+/i, '') : key,
+      linkedService: variable.linkedService,
+      quantity: {
+        source: QUANTITY_SOURCES.includes(quantity.source) ? quantity.source : 'parent',
+        factor: nonNegative(quantity.factor, 1),
+        value: nonNegative(quantity.value, 0)
+      },
+      profitTreatment: PROFIT_TREATMENTS.includes(variable.profitTreatment) ? variable.profitTreatment : 'parent',
+      mobilization: nonNegative(variable.mobilization, 0),
+      values: isPlainObject(variable.values) ? variable.values : {}
+    });
+  }
+  return declarations;
+}
+
+/**
+ * Child quantity derived from the parent job
+ *
+ * @param parentSize - Parent quantity in its registry unit
+ * @param values - Parent input (customPerimeter or shape replace the estimate)
+ */
+export function bundleQuantity(
+  declaration: ServiceIntegrationDeclaration,
+  parentSize: number,
+  values?: ServiceVariableValues
+): number {
+  const { source, factor, value } = declaration.quantity;
+  let quantity: number;
+
+  if (source === 'fixed') {
+    quantity = value ?? 0;
+  } else if (source === 'perimeter') {
+    quantity = resolvePerimeter(parentSize, values) * factor;
+  } else {
+    quantity = parentSize * factor;
+  }
+
+  return Math.round(quantity * 100) / 100;
+}
+
+/**
+ * Child input: declaration preset, then the user's values for this bundle
+ */
+export function bundleValues(
+  declaration: ServiceIntegrationDeclaration,
+  values?: ServiceVariableValues
+): ServiceVariableValues {
+  const overrides = values?.bundleValues?.[declaration.key];
+  const merged: ServiceVariableValues = { ...declaration.values };
+  if (isPlainObject(overrides)) {
+    for (const [category, categoryValues] of Object.entries(overrides)) {
+      merged[category] = isPlainObject(categoryValues) && isPlainObject(merged[category])
+        ? { ...merged[category], ...categoryValues }
+        : categoryValues;
+    }
+  }
+  return merged;
+}
+
+/**
+ * Parent line amounts for one priced child
+ *
+ * @param childTier2 - Child result from the master engine
+ * @param parentMargin - Parent profitMarginTarget (decimal)
+ */
+export function buildBundledServiceResult(
+  declaration: ServiceIntegrationDeclaration,
+  quantity: number,
+  unit: string,
+  childHours: number,
+  childTier2: Partial<Tier2Results>,
+  parentMargin: number
+): BundledServiceResult {
+  const costs: BundleCostComponents = {
+    labor: childTier2.laborCost ?? 0,
+    materials: childTier2.totalMaterialCost ?? 0,
+    excavation: childTier2.excavationCost ?? 0,
+    equipment: childTier2.equipmentCost ?? 0,
+    obstacles: childTier2.obstacleCost ?? 0
+  };
+  const markedUp = costs.labor + costs.materials + costs.excavation;
+  const passThrough = costs.equipment + costs.obstacles;
+
+  let profit = 0;
+  let total = markedUp + passThrough;
+  if (declaration.profitTreatment === 'parent') {
+    profit = markedUp * parentMargin;
+    total += profit;
+  } else if (declaration.profitTreatment === 'linked') {
+    total = childTier2.total ?? total;
+    profit = total - markedUp - passThrough;
+  }
+
+  return {
+    key: declaration.key,
+    serviceId: declaration.linkedService,
+    label: declaration.label,
+    quantity,
+    unit,
+    hours: childHours,
+    profitTreatment: declaration.profitTreatment,
+    costs,
+    profit: roundCents(profit),
+    total: roundCents(total)
+  };
+}
+
+/**
+ * How bundled amounts enter the parent's subtotal
+ */
+export function summarizeBundles(bundles: BundledServiceResult[]): BundleTotals {
+  const totals: BundleTotals = { profitableCost: 0, passThroughCost: 0, linkedTotal: 0 };
+
+  for (const bundle of bundles) {
+    const { labor, materials, excavation, equipment, obstacles } = bundle.costs;
+    if (bundle.profitTreatment === 'linked') {
+      totals.linkedTotal += bundle.total;
+    } else if (bundle.profitTreatment === 'parent') {
+      totals.profitableCost += labor + materials + excavation;
+      totals.passThroughCost += equipment + obstacles;
+    } else {
+      totals.passThroughCost += labor + materials + excavation + equipment + obstacles;
+    }
+  }
+  return totals;
+}
+
+/**
+ * Amount shown on a breakdown line above the parent's profit line
+ * ('parent' bundles' markup is already in the parent profit)
+ */
+export function bundleLineAmount(bundle: BundledServiceResult): number {
+  return bundle.profitTreatment === 'parent' ? roundCents(bundle.total - bundle.profit) : bundle.total;
+}
+
+/**
+ * Shared mobilization - one trip for every enabled bundle, priced at the
+ * highest declared mobilization
+ */
+export function sharedMobilization(declarations: ServiceIntegrationDeclaration[]): number {
+  return declarations.reduce((highest, declaration) => Math.max(highest, declaration.mobilization), 0);
+}
@@ -0,0 +1,141 @@
+/**
+ * Travel & Mobilization Cost
+ *
+ * Prices the drive from the company shop to the job site. Distance comes
+ * from the offline zip_code_centroids table (migration 29) - straight-line
+ * miles between centroids, stretched by a road factor. The rule is stored
+ * per company in companies.travel_rules:
+ *
+ *   {
+ *     "ratePerMile": 1.5,          // $ per billable mile driven
+ *     "freeRadiusMiles": 15,       // One-way miles included in the price
+ *     "roundTripsPerDay": true,    // A round trip for every job day
+ *     "roadFactor": 1.2,           // Road miles per straight-line mile
+ *     "minimumCharge": 0           // $ floor once a job is outside the radius
+ *   }
+ *
+ * Travel is charged once per job, not per service line: JobService sums
+ * the lines' tier1Results.totalDays and adds one travel line to the job
+ * total. It is a pass-through cost - no profit markup, never volume
+ * discounted.
+ */
+
+export interface TravelRule {
+  ratePerMile: number;
+  freeRadiusMiles: number;
+  roundTripsPerDay: boolean;         // false = one round trip per job
+  roadFactor: number;
+  minimumCharge: number;
+}
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export interface TravelCostResult {
+  distanceMiles: number;             // One-way road miles, shop to site
+  billableMiles: number;             // One-way miles beyond the free radius
+  roundTrips: number;
+  ratePerMile: number;
+  cost: number;
+}
+
+/**
+ * Shop-to-site distance and rule for a job site (TravelService.resolveTravel)
+ */
+export interface TravelContext {
+  distanceMiles: number;             // One-way road miles
+  rule: TravelRule;
+}
+
+export const DEFAULT_TRAVEL_RULE: TravelRule = {
+  ratePerMile: 0,
+  freeRadiusMiles: 0,
+  roundTripsPerDay: true,
+  roadFactor: 1.2,
+  minimumCharge: 0
+};
+
+const EARTH_RADIUS_MILES = 3958.8;
+
+const toNumber = (value: unknown): number => {
+  const parsed = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof parsed === 'number' && Number.isFinite(parsed) ? parsed : NaN;
+};
+
+const nonNegative = (value: unknown, fallback: number): number => {
+  const parsed = toNumber(value);
+  return parsed >= 0 ? parsed : fallback;
+};
+
+const roundTo = (value: number, places: number) => Math.round(value * 10 ** places) / 10 ** places;
+
+/**
+ * Clean up a travel_rules value from the database
+ *
+ * A missing or zero ratePerMile means the company doesn't charge for travel.
+ */
+export function normalizeTravelRule(raw: unknown): TravelRule {
+  const source = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const roadFactor = toNumber(source.roadFactor);
+
+  return {
+    ratePerMile: nonNegative(source.ratePerMile, DEFAULT_TRAVEL_RULE.ratePerMile),
+    freeRadiusMiles: nonNegative(source.freeRadiusMiles, DEFAULT_TRAVEL_RULE.freeRadiusMiles),
+    roundTripsPerDay: typeof source.roundTripsPerDay === 'boolean'
+      ? source.roundTripsPerDay
+      : DEFAULT_TRAVEL_RULE.roundTripsPerDay,
+    // Roads are never shorter than the straight line
+    roadFactor: roadFactor >= 1 ? roadFactor : DEFAULT_TRAVEL_RULE.roadFactor,
+    minimumCharge: nonNegative(source.minimumCharge, DEFAULT_TRAVEL_RULE.minimumCharge)
+  };
+}
+
+/**
+ * Straight-line (great-circle) miles between two points
+ */
+export function haversineMiles(from: GeoPoint, to: GeoPoint): number {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/**
+ * One-way road miles from the shop to the site
+ */
+export function estimateRoadMiles(from: GeoPoint, to: GeoPoint, rule: TravelRule): number {
+  return roundTo(haversineMiles(from, to) * rule.roadFactor, 1);
+}
+
+/**
+ * Travel cost for a job
+ *
+ * Each round trip bills the one-way miles beyond the free radius twice
+ * (out and back). Partial days count as a full day's trip.
+ *
+ * @param distanceMiles - One-way road miles (see estimateRoadMiles)
+ * @param totalDays - tier1Results.totalDays
+ */
+export function calculateTravelCost(
+  distanceMiles: number,
+  totalDays: number,
+  rule: TravelRule
+): TravelCostResult {
+  const billableMiles = roundTo(Math.max(0, distanceMiles - rule.freeRadiusMiles), 1);
+  const roundTrips = rule.roundTripsPerDay ? Math.max(1, Math.ceil(roundTo(totalDays, 2))) : 1;
+
+  let cost = billableMiles * 2 * roundTrips * rule.ratePerMile;
+  if (cost > 0 && cost < rule.minimumCharge) cost = rule.minimumCharge;
+
+  return {
+    distanceMiles,
+    billableMiles,
+    roundTrips,
+    ratePerMile: rule.ratePerMile,
+    cost: roundTo(cost, 2)
+  };
+}
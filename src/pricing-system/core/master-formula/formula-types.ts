@@ -1,3 +1,10 @@
+import type { PricingTraceStep } from '../calculations/pricing-trace';
+import type { VolumeDiscountRule } from '../calculations/pricing-rules';
+import type { BundledServiceResult } from '../calculations/service-bundles';
+import type { EquipmentCostLine } from '../calculations/equipment-cost';
+import type { SeasonalPricingResult } from '../calculations/seasonal-pricing';
+import type { PatioShape } from '../../utils/patio-shape';
+
 export interface BaseSetting {
   value: number;
   unit: string;
@@ -11,6 +18,17 @@ export interface BaseSetting {
   };
 }
 
+/**
+ * Business settings - profit target plus the pricing rules applied after
+ * profit (see core/calculations/pricing-rules.ts)
+ */
+export interface BusinessSettings {
+  profitMarginTarget: BaseSetting;
+  minimumJobCharge?: BaseSetting;    // $ - 0 = no minimum
+  marginFloor?: BaseSetting;         // Decimal - flag quotes below it, 0 = off
+  volumeDiscounts?: VolumeDiscountRule;
+}
+
 export interface PaverPatioOption {
   label: string;
   value?: number;
@@ -49,7 +67,7 @@ export interface PaverPatioConfig {
   baseSettings: {
     laborSettings: Record<string, BaseSetting>;
     materialSettings: Record<string, BaseSetting>;
-    businessSettings: Record<string, BaseSetting>;
+    businessSettings: BusinessSettings;
   };
   calculationSystem: {
     type: string;
@@ -77,6 +95,7 @@ export interface PaverPatioValues {
     paverStyle: string;
     cuttingComplexity: string;
     useMaterialsDatabase?: boolean;  // NEW: Toggle for database system
+    layoutPattern?: string;          // Laying pattern for paver_layout materials (running bond default)
   };
   labor: {
     teamSize: string;
@@ -86,10 +105,14 @@ export interface PaverPatioValues {
   };
   serviceIntegrations?: {
     includeExcavation?: boolean;
+    excavationEquipment?: string;  // Equipment class on the excavation productivity curve
+    [integrationKey: string]: boolean | string | undefined;  // Declared bundles (service-bundles.ts)
   };
+  bundleValues?: Record<string, Record<string, any>>;  // integrationKey → child input overrides
   // NEW: Material selections (future enhancement for material overrides)
   selectedMaterials?: Record<string, string>;  // categoryKey → materialId
   customPerimeter?: number;  // Linear feet override for edging calculations
+  shape?: PatioShape;  // Irregular outline (patio-shape.ts) - sqft is its area
 }
 
 export interface PaverPatioCalculationResult {
@@ -115,10 +138,18 @@ export interface PaverPatioCalculationResult {
       baseRate: number;
       profit: number;
     };
-    equipmentCost: number;         // DEPRECATED (always 0)
+    equipmentCost: number;         // Catalog equipment + daily_equipment_cost variables
+    equipmentLines?: EquipmentCostLine[];  // Catalog equipment (master engine only)
     obstacleCost: number;
     subtotal: number;
     profit: number;
+    volumeDiscount?: number;       // Pricing rules (businessSettings)
+    minimumChargeAdjustment?: number;
+    effectiveMargin?: number;
+    belowMarginFloor?: boolean;
+    bundledServices?: BundledServiceResult[];  // Declared service bundles
+    bundleMobilization?: number;
+    seasonal?: SeasonalPricingResult;          // Calendar / backlog adjustment (see seasonal-pricing.ts)
     total: number;
     pricePerSqft: number;
   };
@@ -127,6 +158,7 @@ export interface PaverPatioCalculationResult {
   inputValues?: PaverPatioValues;
   confidence?: number;
   calculationDate?: string;
+  trace?: PricingTraceStep[];      // Explain-mode steps (master engine only)
 }
 
 export interface PaverPatioStore {
@@ -136,11 +168,13 @@ export interface PaverPatioStore {
   isLoading: boolean;
   error: string | null;
   lastCalculation: PaverPatioCalculationResult | null;
+  calculationError: string | null;   // Why the last calculation failed (missing required material)
 
   // Actions
   loadConfig: () => Promise<void>;
   updateValue: (category: keyof PaverPatioValues, variable: string, value: string | number) => void;
   setSqft: (sqft: number) => void;
+  setShape: (shape: PatioShape | null) => void;
   resetToDefaults: () => void;
   resetCategory: (category: keyof PaverPatioValues) => void;
   calculatePrice: (sqft?: number) => PaverPatioCalculationResult;
@@ -209,6 +243,33 @@ export interface ExcavationCalculationSettings {
       exact: { label: string };
     };
   };
+  productivityCurve?: {
+    type: 'curve';
+    label: string;
+    default?: ExcavationProductivityCurve;   // Unset until an admin saves one (DEFAULT_PRODUCTIVITY_CURVE)
+    adminEditable: boolean;
+    description: string;
+  };
+}
+
+/**
+ * Depth band of the productivity curve - applies up to maxDepth inches
+ * (null = no upper bound)
+ */
+export interface ExcavationDepthBand {
+  maxDepth: number | null;
+  factor: number;
+}
+
+/**
+ * Excavation hours = cubic yards / equipment rate × depth factor × access factor
+ * (see core/calculations/excavation-productivity.ts)
+ */
+export interface ExcavationProductivityCurve {
+  equipmentRates: Record<string, number>;   // Cubic yards per labor hour, by equipment class
+  defaultEquipment: string;
+  depthFactors: ExcavationDepthBand[];
+  accessFactors: Record<string, number>;    // Keyed by siteAccess.accessDifficulty
 }
 
 export interface ExcavationConfig {
@@ -6,6 +6,7 @@ import type {
   ExcavationStore
 } from '../master-formula/formula-types';
 import { masterPricingEngine } from '../calculations/master-pricing-engine';
+import { calculateExcavationHoursFromCurve, normalizeProductivityCurve } from '../calculations/excavation-productivity';
 
 // Default values
 const getDefaultValues = (config: ExcavationConfig | null): ExcavationValues => {
@@ -123,12 +124,13 @@ const calculateLocalFallback = (
     cy_final = Math.ceil(cy_adjusted * 2) / 2;
   }
 
-  // Calculate time using AREA-BASED TIERS
-  // Time is based ONLY on area (depth does not affect time)
-  // 12 hours per 1000 sqft tier, 1.5 days per 1000 sqft tier
-  const sqftTiers = Math.ceil(area_sqft / 1000);
-  const total_hours = sqftTiers * 12;
-  const project_days = sqftTiers * 1.5;
+  // Calculate time from the PRODUCTIVITY CURVE (same as the master engine)
+  const total_hours = calculateExcavationHoursFromCurve(
+    Math.ceil(cy_adjusted),
+    depth_inches,
+    normalizeProductivityCurve(config?.variables_config?.calculationSettings?.productivityCurve?.default)
+  ).hours;
+  const project_days = Math.round((total_hours / (teamSize * 8)) * 10) / 10;
 
   // Calculate costs
   const base_cost = cy_final * baseRate;
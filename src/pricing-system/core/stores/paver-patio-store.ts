@@ -13,7 +13,10 @@ import { masterPricingEngine } from '../calculations/master-pricing-engine';
 // Import excavation integration for bundled service calculations
 import { calculateExcavationHours, calculateExcavationCost } from '../calculations/excavation-integration';
 // Import material-based excavation depth calculator
-import { calculatePatioExcavationDepth } from '../../../services/materialCalculations';
+import { MissingMaterialError, calculatePatioExcavationDepth } from '../../../services/materialCalculations';
+// Irregular outline → exact area (sqft) and edging perimeter
+import { measurePatioShape, validatePatioShape, type PatioShape } from '../../utils/patio-shape';
+import { DEFAULT_UNIT_SYSTEM, type UnitSystem } from '../../utils/unit-system';
 
 // Import the JSON configuration (fallback only)
 import paverPatioConfigJson from '../../config/paver-patio-formula.json';
@@ -176,7 +179,7 @@ const calculateExpertPricing = (
   });
 
   if (excavationEnabled) {
-    excavationHours = calculateExcavationHours(sqft);
+    excavationHours = calculateExcavationHours(sqft, { accessLevel: values?.siteAccess?.accessDifficulty });
     adjustedHours += excavationHours;
     breakdownSteps.push(`+Excavation (bundled service): +${excavationHours.toFixed(1)} hours`);
   }
@@ -232,8 +235,9 @@ const calculateExpertPricing = (
   const materialWasteCost = materialCostBase * cuttingWaste;
   const totalMaterialCost = materialCostBase + materialWasteCost;
 
-  // REMOVED: Equipment cost (deprecated - was part of old excavation variables)
-  const equipmentCost = 0; // Set to 0 for backward compatibility
+  // Equipment comes from the company catalog, priced by the master engine
+  // This local fallback has no catalog, so no equipment cost
+  const equipmentCost = 0;
 
   // NOTE: Excavation cost calculation moved to async wrapper
   // This sync function is used for quick local calculations
@@ -290,7 +294,7 @@ const calculateExpertPricing = (
       totalMaterialCost: totalMaterialCost ?? 0,
       excavationCost: 0,  // Will be populated by async wrapper
       excavationDetails: undefined, // Will be populated by async wrapper
-      equipmentCost: equipmentCost ?? 0, // DEPRECATED (always 0)
+      equipmentCost: equipmentCost ?? 0, // Catalog equipment: master engine only
       obstacleCost: obstacleCost ?? 0,
       subtotal: subtotal ?? 0,
       profit: profit ?? 0,
@@ -308,13 +312,16 @@ const calculatePrice = async (
   config: PaverPatioConfig | null,
   values: PaverPatioValues,
   sqft: number = 100,
-  companyId?: string
+  companyId?: string,
+  unitSystem: UnitSystem = DEFAULT_UNIT_SYSTEM
 ): Promise<PaverPatioCalculationResult> => {
   console.log('🚀 [QUICK CALCULATOR] Using Master Pricing Engine for calculation');
 
   try {
     // Use master pricing engine for live Supabase calculation with company_id and config_id
-    const result = await masterPricingEngine.calculatePricing(values, sqft, 'paver_patio_sqft', companyId, config?.id);
+    // Explain mode on - PricingPreview renders the step-by-step trace
+    // Material quantities are described in the company's units
+    const result = await masterPricingEngine.calculatePricing(values, sqft, 'paver_patio_sqft', companyId, config?.id, { explain: true, unitSystem });
 
     console.log('✅ [QUICK CALCULATOR] Master engine calculation complete:', {
       total: result.tier2Results.total,
@@ -327,6 +334,9 @@ const calculatePrice = async (
   } catch (error) {
     console.error('❌ [QUICK CALCULATOR] Master engine calculation failed:', error);
 
+    // A required material is missing - the legacy price would under-quote
+    if (error instanceof MissingMaterialError) throw error;
+
     // Fallback to legacy calculation if master engine fails
     console.warn('🔄 [QUICK CALCULATOR] Falling back to legacy local calculation');
     return await calculateLegacyFallback(config, values, sqft, companyId);
@@ -465,13 +475,34 @@ const saveStoredSqft = (sqft: number) => {
 };
 
 // Custom hook for paver patio store
-export const usePaverPatioStore = (companyId?: string): PaverPatioStore => {
+// unitSystem only changes material quantity wording - values and sqft stay imperial
+export const usePaverPatioStore = (
+  companyId?: string,
+  unitSystem: UnitSystem = DEFAULT_UNIT_SYSTEM
+): PaverPatioStore => {
   const [config, setConfig] = useState<PaverPatioConfig | null>(null);
   const [values, setValues] = useState<PaverPatioValues>({} as PaverPatioValues);
   const [sqft, setSqft] = useState<number>(loadStoredSqft()); // Load from localStorage
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [lastCalculation, setLastCalculation] = useState<PaverPatioCalculationResult | null>(null);
+  const [calculationError, setCalculationError] = useState<string | null>(null);
+
+  // Price and keep the result; a missing required material is kept as the
+  // calculation error (shown instead of the price) and rethrown
+  const runCalculation = async (...args: Parameters<typeof calculatePrice>) => {
+    try {
+      const calculation = await calculatePrice(...args);
+      setLastCalculation(calculation);
+      setCalculationError(null);
+      return calculation;
+    } catch (error) {
+      if (error instanceof MissingMaterialError) {
+        setCalculationError(error.message);
+      }
+      throw error;
+    }
+  };
 
   // Load configuration using master pricing engine
   const loadConfig = useCallback(async () => {
@@ -500,12 +531,14 @@ export const usePaverPatioStore = (companyId?: string): PaverPatioStore => {
 
       // Calculate initial price using master pricing engine with loaded sqft
       const loadedSqft = loadStoredSqft(); // Use persisted sqft from localStorage
-      const calculation = await calculatePrice(configData, initialValues, loadedSqft, companyId);
-      setLastCalculation(calculation);
+      await runCalculation(configData, initialValues, loadedSqft, companyId, unitSystem);
 
       console.log('✅ [QUICK CALCULATOR] Configuration loaded from master pricing engine');
 
     } catch (err) {
+      // Config loaded - the calculation error is shown with the price
+      if (err instanceof MissingMaterialError) return;
+
       const errorMessage = err instanceof Error ? err.message : 'Failed to load configuration';
       setError(errorMessage);
       console.error('Error loading paver patio config from master engine:', err);
@@ -519,8 +552,7 @@ export const usePaverPatioStore = (companyId?: string): PaverPatioStore => {
         const initialValues = getDefaultValues(configData);
         setValues(initialValues);
 
-        const calculation = await calculatePrice(configData, initialValues, 100, companyId);
-        setLastCalculation(calculation);
+        await runCalculation(configData, initialValues, 100, companyId, unitSystem);
 
         console.log('✅ [QUICK CALCULATOR] Fallback configuration loaded');
       } catch (fallbackErr) {
@@ -546,8 +578,7 @@ export const usePaverPatioStore = (companyId?: string): PaverPatioStore => {
     // Recalculate with current values and sqft
     const recalculate = async () => {
       try {
-        const calculation = await calculatePrice(config, values, sqft, companyId);
-        setLastCalculation(calculation);
+        await runCalculation(config, values, sqft, companyId, unitSystem);
         console.log('✅ [QUICK CALCULATOR] Recalculation complete after config change');
       } catch (error) {
         console.error('❌ [QUICK CALCULATOR] Failed to recalculate after config change:', error);
@@ -555,7 +586,7 @@ export const usePaverPatioStore = (companyId?: string): PaverPatioStore => {
     };
 
     recalculate();
-  }, [config, values, sqft, companyId]); // Recalculate when config, values, or sqft changes
+  }, [config, values, sqft, companyId, unitSystem]); // Recalculate when config, values, sqft or units change
 
   // Update a specific value
   const updateValue = useCallback(async (category: keyof PaverPatioValues, variable: string, value: string | number) => {
@@ -576,8 +607,7 @@ export const usePaverPatioStore = (companyId?: string): PaverPatioStore => {
 
     // Recalculate price using master pricing engine with stored sqft (not hardcoded 100)
     try {
-      const calculation = await calculatePrice(config, updated, sqft, companyId);
-      setLastCalculation(calculation);
+      await runCalculation(config, updated, sqft, companyId, unitSystem);
     } catch (error) {
       console.error('Failed to recalculate price after value update:', error);
     }
@@ -593,12 +623,11 @@ export const usePaverPatioStore = (companyId?: string): PaverPatioStore => {
     // Keep current sqft - only reset variables
 
     try {
-      const calculation = await calculatePrice(config, defaultValues, sqft, companyId);
-      setLastCalculation(calculation);
+      await runCalculation(config, defaultValues, sqft, companyId, unitSystem);
     } catch (error) {
       console.error('Failed to calculate price after reset:', error);
     }
-  }, [config, sqft, companyId]);
+  }, [config, sqft, companyId, unitSystem]);
 
   // Reset to defaults and set square footage to 100 (for Quick Calculator)
   const resetToDefaults100 = useCallback(async () => {
@@ -612,8 +641,7 @@ export const usePaverPatioStore = (companyId?: string): PaverPatioStore => {
 
     try {
       // Calculate with exactly 100 sqft using baseline values
-      const calculation = await calculatePrice(config, baselineValues, 100, companyId);
-      setLastCalculation(calculation);
+      await runCalculation(config, baselineValues, 100, companyId, unitSystem);
 
       console.log('🔄 Quick Calculator reset to true baseline:', {
         teamSize: baselineValues.labor.teamSize,
@@ -641,8 +669,7 @@ export const usePaverPatioStore = (companyId?: string): PaverPatioStore => {
     saveStoredValues(updated);
 
     try {
-      const calculation = await calculatePrice(config, updated, sqft, companyId);
-      setLastCalculation(calculation);
+      await runCalculation(config, updated, sqft, companyId, unitSystem);
     } catch (error) {
       console.error('Failed to calculate price after category reset:', error);
     }
@@ -664,17 +691,36 @@ export const usePaverPatioStore = (companyId?: string): PaverPatioStore => {
       allValues: values
     });
 
-    const calculation = await calculatePrice(config, values, inputSqft, companyId);
+    const calculation = await runCalculation(config, values, inputSqft, companyId, unitSystem);
 
     console.log('🔍 [DEBUG] Calculation result:', {
       total: calculation.tier2Results.total,
       isNaN: isNaN(calculation.tier2Results.total)
     });
 
-    setLastCalculation(calculation);
     return calculation;
   }, [config, values]);
 
+  // Set or clear the patio outline - a valid shape's area becomes the sqft
+  const setShape = useCallback(async (shape: PatioShape | null) => {
+    if (!config) return;
+    if (shape && validatePatioShape(shape)) return;
+
+    const updated: PaverPatioValues = { ...values, shape: shape ?? undefined };
+    const shapeSqft = shape ? measurePatioShape(shape).area : sqft;
+
+    setValues(updated);
+    saveStoredValues(updated);
+    setSqft(shapeSqft);
+    saveStoredSqft(shapeSqft);
+
+    try {
+      await runCalculation(config, updated, shapeSqft, companyId, unitSystem);
+    } catch (error) {
+      console.error('Failed to recalculate price after shape change:', error);
+    }
+  }, [config, values, sqft, companyId, unitSystem]);
+
   // Save configuration (for future admin changes)
   const saveConfig = useCallback(async () => {
     if (!config) return;
@@ -690,7 +736,9 @@ export const usePaverPatioStore = (companyId?: string): PaverPatioStore => {
     }
   }, [config]);
 
-  // Create backup (for future admin changes)
+  // Create local backup of the calculator state (config + selected values)
+  // Config history itself lives in svc_pricing_config_revisions - every save
+  // to svc_pricing_configs records an immutable revision (migration 23)
   const createBackup = useCallback(async () => {
     if (!config) return;
 
@@ -718,13 +766,12 @@ export const usePaverPatioStore = (companyId?: string): PaverPatioStore => {
     console.log('🔄 [PAVER PATIO] Force recalculating (ensures fresh material depths from database)');
 
     try {
-      const calculation = await calculatePrice(config, values, sqft, companyId);
-      setLastCalculation(calculation);
+      await runCalculation(config, values, sqft, companyId, unitSystem);
       console.log('✅ [PAVER PATIO] Recalculation complete with fresh materials');
     } catch (error) {
       console.error('❌ [PAVER PATIO] Force recalculation failed:', error);
     }
-  }, [config, values, sqft, companyId]);
+  }, [config, values, sqft, companyId, unitSystem]);
 
   // REMOVED: Subscription setup moved to QuickCalculatorTab component
   // This simplifies the store to just state management
@@ -785,9 +832,11 @@ export const usePaverPatioStore = (companyId?: string): PaverPatioStore => {
     isLoading,
     error,
     lastCalculation,
+    calculationError,
     loadConfig,
     updateValue,
     setSqft,
+    setShape,
     resetToDefaults,
     resetToDefaults100,
     resetCategory,
@@ -11,6 +11,8 @@ import { useExcavationStore } from '../../core/stores/excavation-store';
 import { SERVICE_REGISTRY, ServiceId } from '../../config/service-registry';
 import { masterPricingEngine } from '../../core/calculations/master-pricing-engine';
 import { ServiceSelectionScreen } from './ServiceSelectionScreen';
+import { unitSystemService } from '../../../services/UnitSystemService';
+import { DEFAULT_UNIT_SYSTEM, type UnitSystem } from '../../utils/unit-system';
 
 interface QuickCalculatorTabProps {
   isOpen: boolean;
@@ -23,13 +25,19 @@ export const QuickCalculatorTab: React.FC<QuickCalculatorTabProps> = ({ isOpen,
   const visualConfig = getSmartVisualThemeConfig(theme);
   const [selectedService, setSelectedService] = useState<ServiceId | null>(null);
   const [showSelectionScreen, setShowSelectionScreen] = useState(true);
-  const paverPatioStore = usePaverPatioStore(user?.company_id || '');
+  const [unitSystem, setUnitSystem] = useState<UnitSystem>(DEFAULT_UNIT_SYSTEM);
+  const paverPatioStore = usePaverPatioStore(user?.company_id || '', unitSystem);
   const excavationStore = useExcavationStore(user?.company_id || '');
 
   // Transition state management
   const [transitionState, setTransitionState] = useState<'idle' | 'exiting' | 'entering'>('idle');
   const [transitionType, setTransitionType] = useState<'zoom-in' | 'slide-back' | 'screen-switch' | null>(null);
 
+  // Company unit system - sizes are entered and shown in m² for metric companies
+  useEffect(() => {
+    unitSystemService.resolveUnitSystem(user?.company_id).then(setUnitSystem);
+  }, [user?.company_id]);
+
   // Reset to selection screen when modal closes
   useEffect(() => {
     if (!isOpen) {
@@ -287,6 +295,7 @@ export const QuickCalculatorTab: React.FC<QuickCalculatorTabProps> = ({ isOpen,
                       visualConfig={visualConfig}
                       theme={theme}
                       store={paverPatioStore}
+                      unitSystem={unitSystem}
                     />
                   )}
                   {selectedService === 'excavation_removal' && (
@@ -0,0 +1,235 @@
+/**
+ * Bulk Price Adjustment
+ *
+ * Fuel surcharges and annual raises change many prices at once. An
+ * adjustment is a percent or fixed change applied to material prices
+ * (svc_materials.price_per_unit), labor rates
+ * (svc_pricing_configs.hourly_labor_rate) or both:
+ *
+ *   percent: new = old × (1 + amount / 100)
+ *   fixed:   new = old + amount
+ *
+ * rounded to cents and never below 0. The service filter narrows both;
+ * category, supplier and grade narrow materials only.
+ *
+ * Quote impact is an estimate for open quotes if they were re-priced:
+ * purchase units × material price change plus man-hours × labor rate
+ * change, marked up by the service's profit margin. Complexity
+ * multipliers and pricing rules aren't re-run.
+ *
+ * Materials shared through the company catalog change once: one item for
+ * the first matching service row, whose new price the catalog passes on
+ * to every linked row - including services the filters left out.
+ */
+
+import type { MaterialCalculationResult } from '../../types/materials';
+
+export type PriceAdjustmentMode = 'percent' | 'fixed';
+export type PriceAdjustmentScope = 'materials' | 'labor_rates' | 'both';
+
+export interface PriceAdjustmentFilters {
+  serviceConfigId?: string | null;
+  category?: string | null;          // material_category key
+  supplier?: string | null;
+  grade?: string | null;
+}
+
+export interface PriceAdjustment {
+  mode: PriceAdjustmentMode;
+  amount: number;                    // Percent (5 = +5%) or dollars
+  scope: PriceAdjustmentScope;
+  filters: PriceAdjustmentFilters;
+}
+
+export interface AdjustableMaterial {
+  id: string;
+  material_name: string;
+  material_category: string;
+  service_config_id: string;
+  supplier_name: string | null;
+  material_grade: string | null;
+  price_per_unit: number;
+  catalog_material_id?: string | null;
+}
+
+export interface AdjustableLaborRate {
+  id: string;                        // svc_pricing_configs.id
+  service_name: string;
+  hourly_labor_rate: number;
+  profit_margin: number;
+}
+
+export interface PriceChangeItem {
+  itemType: 'material' | 'labor_rate';
+  id: string;                        // Material or pricing config id
+  serviceConfigId: string;
+  label: string;                     // Material name or service name
+  oldValue: number;
+  newValue: number;
+  linkedMaterialIds?: string[];      // Other service rows of the same catalog material
+}
+
+export interface AdjustableQuoteLine {
+  jobId: string;
+  jobNumber: string | null;
+  serviceConfigId: string;
+  total: number;
+  totalManHours: number;
+  materialBreakdown?: MaterialCalculationResult;
+}
+
+export interface QuoteImpact {
+  jobId: string;
+  jobNumber: string | null;
+  currentTotal: number;
+  change: number;
+  newTotal: number;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const normalize = (value: string | null | undefined) => (value ?? '').trim().toLowerCase();
+
+/**
+ * Error message for an adjustment that can't be applied, or null
+ */
+export function validatePriceAdjustment(adjustment: PriceAdjustment): string | null {
+  if (!Number.isFinite(adjustment.amount) || adjustment.amount === 0) {
+    return 'Enter a non-zero adjustment';
+  }
+  if (adjustment.mode === 'percent' && adjustment.amount <= -100) {
+    return 'A percent decrease must be less than 100%';
+  }
+  return null;
+}
+
+/**
+ * One value after the adjustment - cents, never negative
+ */
+export function adjustValue(value: number, mode: PriceAdjustmentMode, amount: number): number {
+  const adjusted = mode === 'percent' ? value * (1 + amount / 100) : value + amount;
+  return Math.max(0, round2(adjusted));
+}
+
+/**
+ * Whether a material is selected by the filters
+ */
+export function matchesPriceFilters(material: AdjustableMaterial, filters: PriceAdjustmentFilters): boolean {
+  if (filters.serviceConfigId && material.service_config_id !== filters.serviceConfigId) return false;
+  if (filters.category && material.material_category !== filters.category) return false;
+  if (filters.supplier && normalize(material.supplier_name) !== normalize(filters.supplier)) return false;
+  if (filters.grade && normalize(material.material_grade) !== normalize(filters.grade)) return false;
+  return true;
+}
+
+/**
+ * Every value the adjustment changes - labor rates first, then materials A-Z
+ */
+export function previewPriceAdjustment(
+  adjustment: PriceAdjustment,
+  materials: AdjustableMaterial[],
+  laborRates: AdjustableLaborRate[]
+): PriceChangeItem[] {
+  const { mode, amount, scope, filters } = adjustment;
+  const items: PriceChangeItem[] = [];
+
+  if (scope !== 'materials') {
+    for (const rate of laborRates) {
+      if (filters.serviceConfigId && rate.id !== filters.serviceConfigId) continue;
+      const oldValue = Number(rate.hourly_labor_rate);
+      items.push({
+        itemType: 'labor_rate',
+        id: rate.id,
+        serviceConfigId: rate.id,
+        label: rate.service_name,
+        oldValue,
+        newValue: adjustValue(oldValue, mode, amount)
+      });
+    }
+  }
+
+  if (scope !== 'labor_rates') {
+    const catalogRows = new Map<string, string[]>();
+    for (const material of materials) {
+      if (!material.catalog_material_id) continue;
+      catalogRows.set(material.catalog_material_id, [...(catalogRows.get(material.catalog_material_id) ?? []), material.id]);
+    }
+
+    const adjustedCatalog = new Set<string>();
+    for (const material of materials) {
+      if (!matchesPriceFilters(material, filters)) continue;
+      const catalogId = material.catalog_material_id;
+      if (catalogId) {
+        if (adjustedCatalog.has(catalogId)) continue;
+        adjustedCatalog.add(catalogId);
+      }
+
+      const oldValue = Number(material.price_per_unit);
+      const linked = catalogId ? catalogRows.get(catalogId)!.filter(id => id !== material.id) : [];
+      items.push({
+        itemType: 'material',
+        id: material.id,
+        serviceConfigId: material.service_config_id,
+        label: material.material_name,
+        oldValue,
+        newValue: adjustValue(oldValue, mode, amount),
+        ...(linked.length > 0 ? { linkedMaterialIds: linked } : {})
+      });
+    }
+  }
+
+  return items
+    .filter(item => item.newValue !== item.oldValue)
+    .sort((a, b) =>
+      (a.itemType === b.itemType ? 0 : a.itemType === 'labor_rate' ? -1 : 1) ||
+      a.label.localeCompare(b.label)
+    );
+}
+
+/**
+ * Estimated change to each open quote's services total, biggest first
+ *
+ * @param profitMargins - pricing config id → profit_margin
+ */
+export function estimateQuoteImpact(
+  lines: AdjustableQuoteLine[],
+  items: PriceChangeItem[],
+  profitMargins: Map<string, number>
+): QuoteImpact[] {
+  const materialChanges = new Map<string, number>();
+  const laborChanges = new Map<string, number>();
+  for (const item of items) {
+    const change = item.newValue - item.oldValue;
+    if (item.itemType === 'labor_rate') {
+      laborChanges.set(item.id, change);
+      continue;
+    }
+    for (const id of [item.id, ...(item.linkedMaterialIds ?? [])]) {
+      materialChanges.set(id, change);
+    }
+  }
+
+  const jobs = new Map<string, QuoteImpact>();
+  for (const line of lines) {
+    let costChange = line.totalManHours * (laborChanges.get(line.serviceConfigId) ?? 0);
+    for (const category of line.materialBreakdown?.categories ?? []) {
+      costChange += category.quantities.purchaseUnits * (materialChanges.get(category.materialId) ?? 0);
+    }
+    const change = costChange * (1 + (profitMargins.get(line.serviceConfigId) ?? 0));
+
+    const job = jobs.get(line.jobId) ?? { jobId: line.jobId, jobNumber: line.jobNumber, currentTotal: 0, change: 0, newTotal: 0 };
+    job.currentTotal += line.total;
+    job.change += change;
+    jobs.set(line.jobId, job);
+  }
+
+  return [...jobs.values()]
+    .map(job => ({
+      ...job,
+      currentTotal: round2(job.currentTotal),
+      change: round2(job.change),
+      newTotal: round2(job.currentTotal + job.change)
+    }))
+    .filter(job => job.change !== 0)
+    .sort((a, b) => Math.abs(b.change) - Math.abs(a.change));
+}
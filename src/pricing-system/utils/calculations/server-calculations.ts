@@ -7,6 +7,7 @@
 
 import type { PaverPatioValues, PaverPatioCalculationResult } from '../../core/master-formula/formula-types';
 import { masterPricingEngine } from '../../core/calculations/master-pricing-engine';
+import type { CalculationOptions } from '../../core/calculations/pricing-trace';
 import {
   getTearoutPercentage,
   getAccessPercentage,
@@ -31,7 +32,8 @@ export async function loadPaverPatioConfig() {
 export async function calculateExpertPricing(
   configOrValues: any, // Legacy parameter for backward compatibility
   values?: PaverPatioValues,
-  sqft: number = 100
+  sqft: number = 100,
+  options: CalculationOptions = {}
 ): Promise<PaverPatioCalculationResult> {
   console.log('🚀 [SERVER] Using Master Pricing Engine for calculation');
 
@@ -48,7 +50,7 @@ export async function calculateExpertPricing(
 
   try {
     // Use master pricing engine for live Supabase calculation
-    const result = await masterPricingEngine.calculatePricing(actualValues, sqft);
+    const result = await masterPricingEngine.calculatePricing(actualValues, sqft, undefined, undefined, undefined, options);
 
     console.log('✅ [SERVER] Master engine calculation complete:', {
       total: result.tier2Results.total,
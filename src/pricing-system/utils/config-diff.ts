@@ -0,0 +1,97 @@
+/**
+ * Pricing Config Diff
+ *
+ * Field-level comparison of two pricing config revisions. Base settings are
+ * compared as columns, variables_config and pricing_rules are walked
+ * recursively so a single option value change shows up as its own line.
+ */
+
+import type { ConfigFieldChange, PricingConfigRevision } from '../../types/pricing';
+
+/**
+ * Pricing columns compared between revisions (in display order)
+ */
+export const REVISION_BASE_FIELDS = [
+  'hourly_labor_rate',
+  'optimal_team_size',
+  'base_productivity',
+  'base_material_cost',
+  'profit_margin'
+] as const;
+
+// pricing_rules is optional: revisions captured before migration 26 have none
+type RevisionSnapshot = Pick<PricingConfigRevision, typeof REVISION_BASE_FIELDS[number] | 'variables_config' | 'default_variables'> &
+  Partial<Pick<PricingConfigRevision, 'pricing_rules'>>;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Supabase returns numeric columns as strings - compare them as numbers
+ */
+function normalizeScalar(value: unknown): unknown {
+  if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) {
+    return Number(value);
+  }
+  return value;
+}
+
+function diffValues(path: string, before: unknown, after: unknown, changes: ConfigFieldChange[]): void {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const key of keys) {
+      diffValues(path ? `${path}.${key}` : key, before[key], after[key], changes);
+    }
+    return;
+  }
+
+  if (before === undefined && after !== undefined) {
+    changes.push({ path, type: 'added', after });
+    return;
+  }
+  if (before !== undefined && after === undefined) {
+    changes.push({ path, type: 'removed', before });
+    return;
+  }
+
+  const a = normalizeScalar(before);
+  const b = normalizeScalar(after);
+  const equal = isPlainObject(a) || Array.isArray(a)
+    ? JSON.stringify(a) === JSON.stringify(b)
+    : a === b;
+
+  if (!equal) {
+    changes.push({ path, type: 'changed', before: a, after: b });
+  }
+}
+
+/**
+ * Compare two revisions field by field
+ *
+ * @param from - Older revision (left side)
+ * @param to - Newer revision (right side)
+ * @returns Changes needed to turn `from` into `to`
+ */
+export function diffPricingConfigs(from: RevisionSnapshot, to: RevisionSnapshot): ConfigFieldChange[] {
+  const changes: ConfigFieldChange[] = [];
+
+  for (const field of REVISION_BASE_FIELDS) {
+    diffValues(field, from[field], to[field], changes);
+  }
+  diffValues('variables_config', from.variables_config ?? {}, to.variables_config ?? {}, changes);
+  diffValues('default_variables', from.default_variables ?? {}, to.default_variables ?? {}, changes);
+  diffValues('pricing_rules', from.pricing_rules ?? {}, to.pricing_rules ?? {}, changes);
+
+  return changes;
+}
+
+/**
+ * Format a diff value for display
+ */
+export function formatDiffValue(value: unknown): string {
+  if (value === undefined) return '—';
+  if (value === null) return 'null';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
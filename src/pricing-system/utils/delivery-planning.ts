@@ -0,0 +1,239 @@
+/**
+ * Material Delivery Planning
+ *
+ * Bulk materials arrive on supplier trucks with a weight limit. A job's
+ * material breakdown is turned into one delivery per supplier:
+ *
+ *   weight   = ordered quantity × weight of one unit
+ *   loads    = ceil(weight / truck max load)
+ *   fee      = loads × fee per load
+ *   delivery = scheduled start - supplier lead days (weekends move back
+ *              to Friday)
+ *
+ * A unit weighs weight_lbs when set, else 2,000 lbs per ton and the
+ * density for cubic yards. Materials with no known weight, or whose
+ * supplier has no delivery rate (and there is no company default), are
+ * listed so the estimate can say what wasn't planned.
+ */
+
+import type { MaterialCalculationMethod, MaterialCalculationResult } from '../../types/materials';
+import { roundOrderQuantity } from './purchase-orders';
+
+export const LBS_PER_TON = 2000;
+
+export interface DeliveryRate {
+  supplierName: string | null;       // null = company default for other suppliers
+  maxLoadLbs: number;
+  feePerLoad: number;
+  leadDays: number;                  // Deliver this many days before the start
+}
+
+export interface DeliveryMaterial {
+  id: string;
+  material_name: string;
+  supplier_name: string | null;
+  unit_type: string;
+  units_per_package: number | null;
+  weight_lbs: number | null;
+  density_tons_per_cubic_yard: number | null;
+}
+
+export interface DeliveryLine {
+  materialId: string;
+  materialName: string;
+  quantity: number;                  // Ordered purchase units
+  unitLabel: string;
+  weightLbs: number;
+}
+
+export interface SupplierDelivery {
+  supplierName: string | null;
+  lines: DeliveryLine[];
+  totalWeightLbs: number;
+  maxLoadLbs: number;
+  loads: number;
+  feePerLoad: number;
+  fee: number;
+  leadDays: number;
+  deliveryDate: string | null;       // YYYY-MM-DD, null until the job is scheduled
+}
+
+export interface DeliveryPlan {
+  deliveries: SupplierDelivery[];
+  totalLoads: number;
+  totalFee: number;
+  unweighed: string[];               // Material names with no known weight
+  unrated: string[];                 // Suppliers with no delivery rate
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const supplierKey = (name: string | null) => (name ?? '').trim().toLowerCase();
+
+/**
+ * Weight of one purchase unit, or null when it isn't known
+ */
+export function unitWeightLbs(material: DeliveryMaterial): number | null {
+  if (material.weight_lbs !== null && material.weight_lbs > 0) return material.weight_lbs;
+  if (material.unit_type === 'ton') return LBS_PER_TON;
+  if (material.unit_type === 'cubic_yard' && material.density_tons_per_cubic_yard) {
+    return material.density_tons_per_cubic_yard * LBS_PER_TON;
+  }
+  return null;
+}
+
+/**
+ * Rate for a supplier - its own, else the company default
+ */
+export function findDeliveryRate(rates: DeliveryRate[], supplierName: string | null): DeliveryRate | null {
+  const key = supplierKey(supplierName);
+  return (key && rates.find(rate => rate.supplierName !== null && supplierKey(rate.supplierName) === key)) ||
+    rates.find(rate => rate.supplierName === null) ||
+    null;
+}
+
+/**
+ * Delivery date for a start date - lead days earlier, never on a weekend
+ *
+ * @param scheduledStart - ISO date or timestamp (first job assignment)
+ */
+export function suggestDeliveryDate(scheduledStart: string | null | undefined, leadDays: number): string | null {
+  const match = scheduledStart?.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (!match) return null;
+
+  const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+  date.setUTCDate(date.getUTCDate() - Math.max(0, Math.round(leadDays)));
+
+  // Saturday and Sunday deliveries move back to Friday
+  const day = date.getUTCDay();
+  if (day === 6) date.setUTCDate(date.getUTCDate() - 1);
+  if (day === 0) date.setUTCDate(date.getUTCDate() - 2);
+
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * One delivery per supplier for a job's materials
+ *
+ * @param scheduledStart - First job assignment start (or requested start)
+ */
+export function planDeliveries(
+  breakdowns: MaterialCalculationResult[],
+  materials: DeliveryMaterial[],
+  rates: DeliveryRate[],
+  scheduledStart?: string | null
+): DeliveryPlan {
+  const byId = new Map(materials.map(material => [material.id, material]));
+
+  // Same material across service lines is ordered (and rounded) once
+  const needs = new Map<string, {
+    name: string;
+    unitLabel: string;
+    method: MaterialCalculationMethod;
+    purchaseUnits: number;
+  }>();
+  for (const breakdown of breakdowns) {
+    for (const category of breakdown.categories) {
+      const need = needs.get(category.materialId);
+      if (need) {
+        need.purchaseUnits += category.quantities.purchaseUnits;
+      } else {
+        needs.set(category.materialId, {
+          name: category.materialName,
+          unitLabel: category.quantities.unitLabel,
+          method: category.calculationMethod,
+          purchaseUnits: category.quantities.purchaseUnits
+        });
+      }
+    }
+  }
+
+  const unweighed: string[] = [];
+  const unrated = new Set<string>();
+  const deliveries = new Map<string, SupplierDelivery>();
+
+  for (const [materialId, need] of needs) {
+    const material = byId.get(materialId);
+    const weight = material ? unitWeightLbs(material) : null;
+    if (!material || weight === null) {
+      unweighed.push(material?.material_name ?? need.name);
+      continue;
+    }
+
+    const rate = findDeliveryRate(rates, material.supplier_name);
+    if (!rate) {
+      unrated.add(material.supplier_name?.trim() || 'No supplier');
+      continue;
+    }
+
+    const { quantityOrdered } = roundOrderQuantity(
+      need.purchaseUnits,
+      material.unit_type,
+      material.units_per_package,
+      need.method
+    );
+    if (quantityOrdered <= 0) continue;
+
+    const key = supplierKey(material.supplier_name);
+    let delivery = deliveries.get(key);
+    if (!delivery) {
+      delivery = {
+        supplierName: material.supplier_name?.trim() || null,
+        lines: [],
+        totalWeightLbs: 0,
+        maxLoadLbs: rate.maxLoadLbs,
+        loads: 0,
+        feePerLoad: rate.feePerLoad,
+        fee: 0,
+        leadDays: rate.leadDays,
+        deliveryDate: suggestDeliveryDate(scheduledStart, rate.leadDays)
+      };
+      deliveries.set(key, delivery);
+    }
+
+    delivery.lines.push({
+      materialId,
+      materialName: material.material_name,
+      quantity: quantityOrdered,
+      unitLabel: need.unitLabel,
+      weightLbs: Math.round(quantityOrdered * weight)
+    });
+  }
+
+  const planned = [...deliveries.values()].map(delivery => {
+    const totalWeightLbs = delivery.lines.reduce((sum, line) => sum + line.weightLbs, 0);
+    const loads = delivery.maxLoadLbs > 0 ? Math.ceil(totalWeightLbs / delivery.maxLoadLbs) : 1;
+    return {
+      ...delivery,
+      lines: delivery.lines.sort((a, b) => a.materialName.localeCompare(b.materialName)),
+      totalWeightLbs,
+      loads,
+      fee: round2(loads * delivery.feePerLoad)
+    };
+  }).sort((a, b) => {
+    if (a.supplierName === null) return 1;
+    if (b.supplierName === null) return -1;
+    return a.supplierName.localeCompare(b.supplierName);
+  });
+
+  return {
+    deliveries: planned,
+    totalLoads: planned.reduce((sum, delivery) => sum + delivery.loads, 0),
+    totalFee: round2(planned.reduce((sum, delivery) => sum + delivery.fee, 0)),
+    unweighed,
+    unrated: [...unrated].sort()
+  };
+}
+
+/**
+ * Move a saved plan's delivery dates to a new start
+ */
+export function rescheduleDeliveries(plan: DeliveryPlan, scheduledStart: string | null | undefined): DeliveryPlan {
+  return {
+    ...plan,
+    deliveries: plan.deliveries.map(delivery => ({
+      ...delivery,
+      deliveryDate: suggestDeliveryDate(scheduledStart, delivery.leadDays)
+    }))
+  };
+}
@@ -0,0 +1,152 @@
+/**
+ * Material Inventory
+ *
+ * Yard stock per material, counted in the material's purchase unit
+ * (unit_type - the same unit as purchase orders and price_per_unit).
+ *
+ *   on hand   = receipts (received POs) + adjustments (counts) - consumption
+ *   available = on hand - reserved by other scheduled jobs
+ *
+ * A job's materials are reserved while it is scheduled or in progress and
+ * consumed when it completes. The estimate splits each material's need
+ * into what the yard covers and what has to be ordered.
+ */
+
+import type { MaterialCalculationResult } from '../../types/materials';
+
+export type StockMovementType = 'receipt' | 'consumption' | 'adjustment';
+
+// Job statuses that hold a reservation on yard stock
+export const RESERVING_JOB_STATUSES = ['scheduled', 'in_progress'];
+
+export interface StockLevel {
+  materialId: string;
+  onHand: number;
+  reserved: number;                  // All jobs' reservations
+  reorderPoint: number | null;
+}
+
+export interface JobStockLine {
+  materialId: string;
+  materialName: string;
+  unitLabel: string;
+  needed: number;
+  inStock: number;                   // Covered by available yard stock
+  toOrder: number;
+}
+
+export interface LowStockAlert {
+  materialId: string;
+  onHand: number;
+  reserved: number;
+  available: number;
+  reorderPoint: number;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Purchase units per material across a job's service lines
+ */
+export function sumMaterialNeeds(
+  breakdowns: MaterialCalculationResult[]
+): Map<string, { materialName: string; unitLabel: string; quantity: number }> {
+  const needs = new Map<string, { materialName: string; unitLabel: string; quantity: number }>();
+
+  for (const breakdown of breakdowns) {
+    for (const category of breakdown.categories) {
+      const need = needs.get(category.materialId);
+      if (need) {
+        need.quantity += category.quantities.purchaseUnits;
+      } else {
+        needs.set(category.materialId, {
+          materialName: category.materialName,
+          unitLabel: category.quantities.unitLabel,
+          quantity: category.quantities.purchaseUnits
+        });
+      }
+    }
+  }
+
+  for (const need of needs.values()) {
+    need.quantity = round2(need.quantity);
+  }
+  return needs;
+}
+
+/**
+ * Stock left for new work - never negative
+ */
+export function availableStock(level: StockLevel, ownReservation: number = 0): number {
+  return Math.max(0, round2(level.onHand - (level.reserved - ownReservation)));
+}
+
+/**
+ * In stock vs to order for each material a job needs
+ *
+ * @param ownReservations - What this job already reserved (not counted against it)
+ */
+export function planJobStock(
+  breakdowns: MaterialCalculationResult[],
+  levels: StockLevel[],
+  ownReservations: Map<string, number> = new Map()
+): JobStockLine[] {
+  const byMaterial = new Map(levels.map(level => [level.materialId, level]));
+
+  return [...sumMaterialNeeds(breakdowns)].map(([materialId, need]) => {
+    const level = byMaterial.get(materialId);
+    const available = level ? availableStock(level, ownReservations.get(materialId) ?? 0) : 0;
+    const inStock = round2(Math.min(need.quantity, available));
+
+    return {
+      materialId,
+      materialName: need.materialName,
+      unitLabel: need.unitLabel,
+      needed: need.quantity,
+      inStock,
+      toOrder: round2(need.quantity - inStock)
+    };
+  });
+}
+
+/**
+ * Materials at or below their reorder point once reservations are taken out
+ */
+export function findLowStock(levels: StockLevel[]): LowStockAlert[] {
+  return levels
+    .filter((level): level is StockLevel & { reorderPoint: number } => level.reorderPoint !== null)
+    .map(level => ({
+      materialId: level.materialId,
+      onHand: level.onHand,
+      reserved: level.reserved,
+      available: availableStock(level),
+      reorderPoint: level.reorderPoint
+    }))
+    .filter(alert => alert.available <= alert.reorderPoint)
+    .sort((a, b) => (a.available - a.reorderPoint) - (b.available - b.reorderPoint));
+}
+
+/**
+ * What a completed job takes out of the yard - its reservation, capped at
+ * what is actually on hand
+ */
+export function consumptionForJob(
+  reservations: Array<{ materialId: string; quantity: number }>,
+  levels: StockLevel[]
+): Array<{ materialId: string; quantity: number }> {
+  const onHand = new Map(levels.map(level => [level.materialId, level.onHand]));
+
+  return reservations
+    .map(reservation => ({
+      materialId: reservation.materialId,
+      quantity: round2(Math.min(reservation.quantity, Math.max(0, onHand.get(reservation.materialId) ?? 0)))
+    }))
+    .filter(entry => entry.quantity > 0);
+}
+
+/**
+ * Adjustment that brings on hand to a physical count
+ */
+export function countAdjustment(onHand: number, counted: number): number {
+  return round2(counted - onHand);
+}
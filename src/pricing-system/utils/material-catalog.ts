@@ -0,0 +1,117 @@
+/**
+ * Company Material Catalog
+ *
+ * One catalog material per real product (base rock from one supplier)
+ * shared by every service that uses it (migration 41). A service category
+ * references a catalog category and gets a svc_materials row per catalog
+ * material in it; that row keeps what differs per service - category,
+ * default, depth, spacing, waste and compaction - and takes everything
+ * else from the catalog:
+ *
+ *   name, description, supplier, SKU, images, unit, price, package size,
+ *   density, dimensions, weight, grade, color, finish
+ *
+ * Database triggers copy those fields between the catalog and its service
+ * rows, so a price changed anywhere (catalog, price list import, bulk
+ * adjustment) changes everywhere. Reads resolve through the catalog in
+ * case a copy is behind.
+ *
+ * Existing per-service rows move to the catalog by matching category,
+ * name, supplier and unit; the most recently updated row's values win.
+ */
+
+import type { CatalogMaterial, ServiceMaterial } from '../../types/materials';
+
+export type CatalogSharedField = keyof ServiceMaterial & keyof CatalogMaterial;
+
+export const CATALOG_SHARED_FIELDS: ReadonlyArray<CatalogSharedField> = [
+  'material_name',
+  'material_description',
+  'supplier_name',
+  'supplier_sku',
+  'image_url',
+  'image_thumbnail_url',
+  'unit_type',
+  'price_per_unit',
+  'units_per_package',
+  'density_tons_per_cubic_yard',
+  'length_inches',
+  'width_inches',
+  'thickness_inches',
+  'weight_lbs',
+  'material_grade',
+  'color',
+  'finish'
+];
+
+export interface CatalogMigrationGroup {
+  key: string;
+  catalogCategory: string;
+  materialName: string;
+  source: ServiceMaterial;           // Values the catalog material starts with
+  materials: ServiceMaterial[];      // Service rows that will share it
+  serviceCount: number;
+  minPrice: number;
+  maxPrice: number;
+}
+
+const normalize = (value: string | null | undefined) => (value ?? '').trim().toLowerCase();
+
+/**
+ * Rows with the same key become one catalog material
+ */
+export function catalogMatchKey(
+  material: Pick<ServiceMaterial, 'material_category' | 'material_name' | 'supplier_name' | 'unit_type'>
+): string {
+  return [material.material_category, normalize(material.material_name), normalize(material.supplier_name), material.unit_type].join('|');
+}
+
+/**
+ * A service row with the catalog's shared values
+ * Inactive in the catalog means inactive in every service.
+ */
+export function resolveCatalogMaterial(
+  material: ServiceMaterial & { catalog?: CatalogMaterial | null }
+): ServiceMaterial {
+  const { catalog, ...row } = material;
+  if (!catalog) return row;
+
+  const resolved: ServiceMaterial = { ...row, is_active: row.is_active && catalog.is_active };
+  for (const field of CATALOG_SHARED_FIELDS) {
+    (resolved as any)[field] = catalog[field];
+  }
+  return resolved;
+}
+
+/**
+ * How unlinked service rows would merge into the catalog, largest
+ * groups first. Price differences show what the merge will overwrite.
+ */
+export function planCatalogMigration(materials: ServiceMaterial[]): CatalogMigrationGroup[] {
+  const groups = new Map<string, ServiceMaterial[]>();
+  for (const material of materials) {
+    if (material.catalog_material_id) continue;
+    const key = catalogMatchKey(material);
+    groups.set(key, [...(groups.get(key) ?? []), material]);
+  }
+
+  return [...groups.entries()]
+    .map(([key, rows]) => {
+      // Same pick as migrate_materials_to_catalog(): active first, then newest
+      const source = [...rows].sort((a, b) =>
+        Number(b.is_active) - Number(a.is_active) || b.updated_at.localeCompare(a.updated_at)
+      )[0];
+      const prices = rows.map(row => Number(row.price_per_unit));
+      return {
+        key,
+        catalogCategory: source.material_category,
+        materialName: source.material_name,
+        source,
+        materials: rows,
+        serviceCount: new Set(rows.map(row => row.service_config_id)).size,
+        minPrice: Math.min(...prices),
+        maxPrice: Math.max(...prices)
+      };
+    })
+    .sort((a, b) => b.materials.length - a.materials.length || a.materialName.localeCompare(b.materialName));
+}
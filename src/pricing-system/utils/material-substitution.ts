@@ -0,0 +1,91 @@
+/**
+ * Material Substitution
+ *
+ * When a category's default (or a selected) material goes inactive -
+ * discontinued, out of stock - the quote uses the best active material in
+ * the same category instead of dropping the category. Each category picks
+ * how "best" is judged:
+ *
+ *   same_grade           - same material_grade, then closest price
+ *   closest_price        - nearest price_per_unit (ties go to the dearer
+ *                          material so the quote doesn't come out low)
+ *   compatible_thickness - thickness_inches within 1/4", then closest
+ *                          thickness and price (pavers, caps); closest
+ *                          price when the original has no thickness
+ *   none                 - never substitute
+ */
+
+import type { MaterialSubstitution, MaterialSubstitutionRule, ServiceMaterial } from '../../types/materials';
+
+export const DEFAULT_SUBSTITUTION_RULE: MaterialSubstitutionRule = 'closest_price';
+
+export const SUBSTITUTION_RULES: Record<MaterialSubstitutionRule, { label: string }> = {
+  same_grade: { label: 'same grade' },
+  closest_price: { label: 'closest price' },
+  compatible_thickness: { label: 'compatible thickness' },
+  none: { label: 'no substitution' }
+};
+
+// Thickness difference still treated as the same paver or cap
+export const THICKNESS_TOLERANCE_INCHES = 0.25;
+
+const normalizeGrade = (grade: string | null) => (grade ?? '').trim().toLowerCase();
+
+// Closest price first; on a tie the dearer material, then by name
+const byClosestPrice = (price: number) => (a: ServiceMaterial, b: ServiceMaterial) =>
+  Math.abs(a.price_per_unit - price) - Math.abs(b.price_per_unit - price) ||
+  b.price_per_unit - a.price_per_unit ||
+  a.material_name.localeCompare(b.material_name);
+
+/**
+ * Best active replacement for an inactive material, or null when the
+ * rule allows none
+ *
+ * @param candidates - Materials of the same category (inactive ones are ignored)
+ */
+export function findSubstitute(
+  original: ServiceMaterial,
+  candidates: ServiceMaterial[],
+  rule: MaterialSubstitutionRule = DEFAULT_SUBSTITUTION_RULE
+): ServiceMaterial | null {
+  if (rule === 'none') return null;
+
+  let eligible = candidates.filter(material =>
+    material.is_active &&
+    material.id !== original.id &&
+    material.material_category === original.material_category
+  );
+
+  if (rule === 'same_grade') {
+    const grade = normalizeGrade(original.material_grade);
+    eligible = eligible.filter(material => normalizeGrade(material.material_grade) === grade);
+  }
+
+  if (rule === 'compatible_thickness' && original.thickness_inches !== null) {
+    const thickness = original.thickness_inches;
+    const difference = (material: ServiceMaterial) => Math.abs((material.thickness_inches ?? Infinity) - thickness);
+
+    eligible = eligible.filter(material => difference(material) <= THICKNESS_TOLERANCE_INCHES);
+    return [...eligible].sort((a, b) =>
+      difference(a) - difference(b) || byClosestPrice(original.price_per_unit)(a, b)
+    )[0] ?? null;
+  }
+
+  return [...eligible].sort(byClosestPrice(original.price_per_unit))[0] ?? null;
+}
+
+/**
+ * Record of a substitution for the quote breakdown
+ */
+export function describeSubstitution(
+  original: ServiceMaterial,
+  substitute: ServiceMaterial,
+  rule: MaterialSubstitutionRule
+): MaterialSubstitution {
+  return {
+    originalMaterialId: original.id,
+    originalMaterialName: original.material_name,
+    rule,
+    note: `Substituted ${substitute.material_name} for ${original.material_name} (${SUBSTITUTION_RULES[rule].label})`
+  };
+}
@@ -0,0 +1,344 @@
+/**
+ * Patio Shape Geometry
+ *
+ * Exact area and perimeter for patios that are not plain rectangles.
+ * A shape is a list of parts measured in feet:
+ *
+ *   rectangle - length × width, optionally with radius corners
+ *   circle    - diameter
+ *   arc       - circular sector (radius + angle, 180° = half circle)
+ *   polygon   - side lengths walked counter-clockwise; each side may give
+ *               the interior angle at its end (default 90°, 270° for an
+ *               inside corner). Three plain lengths are a triangle.
+ *
+ * Parts after the first are joined to the ones before along `sharedEdge`
+ * feet of boundary, which is removed from the perimeter twice (once from
+ * each side). `subtract` cuts a part out - a planter bed or hot tub pad -
+ * its edge still needs restraint, so the same perimeter rule applies:
+ *
+ *   L-shape 20×12 + 10×8 joined on 10 ft: 240 + 80 = 320 sqft, 64 + 36 - 20 = 80 lf
+ *
+ * The Quick Calculator, the chat parameter collector (DimensionCalculator)
+ * and the materials engine all measure through here.
+ */
+
+export interface ShapePartBase {
+  subtract?: boolean;                // Cut out of the shape instead of added
+  sharedEdge?: number;               // Feet of edge joined to the parts before it
+}
+
+export interface RectanglePart extends ShapePartBase {
+  type: 'rectangle';
+  length: number;
+  width: number;
+  cornerRadius?: number;             // Radius of rounded corners
+  roundedCorners?: number;           // How many corners are rounded (default 4)
+}
+
+export interface CirclePart extends ShapePartBase {
+  type: 'circle';
+  diameter: number;
+}
+
+export interface ArcPart extends ShapePartBase {
+  type: 'arc';
+  radius: number;
+  angle: number;                     // Degrees, 180 = half circle
+}
+
+export interface PolygonSide {
+  length: number;
+  angle?: number;                    // Interior angle at the end of the side, degrees
+}
+
+export interface PolygonPart extends ShapePartBase {
+  type: 'polygon';
+  sides: Array<number | PolygonSide>;
+}
+
+export type ShapePart = RectanglePart | CirclePart | ArcPart | PolygonPart;
+
+export interface PatioShape {
+  parts: ShapePart[];
+}
+
+export interface ShapePartMeasurement {
+  label: string;
+  area: number;                      // Signed - negative for cut-outs
+  perimeter: number;                 // Edge the part adds after shared edges
+}
+
+export interface ShapeMeasurement {
+  area: number;                      // Square feet
+  perimeter: number;                 // Linear feet
+  parts: ShapePartMeasurement[];
+}
+
+/** Perimeter of a rectangle-ish patio estimated from its area (√sqft × 4.15) */
+export const PERIMETER_PER_SQRT_SQFT = 4.15;
+
+// Sides that miss the starting point by more than this do not close
+const POLYGON_CLOSE_TOLERANCE = 0.005;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const isPositive = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+const toSide = (side: number | PolygonSide): PolygonSide =>
+  typeof side === 'number' ? { length: side } : side;
+
+/**
+ * Walk polygon sides from the origin, returning the vertices and how far
+ * the last one lands from the start
+ */
+function walkPolygon(sides: PolygonSide[]): { points: Array<[number, number]>; gap: number } {
+  const points: Array<[number, number]> = [[0, 0]];
+  let heading = 0;
+  let x = 0;
+  let y = 0;
+
+  sides.forEach(side => {
+    x += side.length * Math.cos(heading);
+    y += side.length * Math.sin(heading);
+    points.push([x, y]);
+    heading += ((180 - (side.angle ?? 90)) * Math.PI) / 180;
+  });
+
+  return { points, gap: Math.hypot(x, y) };
+}
+
+function polygonArea(part: PolygonPart): number {
+  const sides = part.sides.map(toSide);
+
+  // Three lengths fix a triangle (Heron's formula)
+  if (sides.length === 3 && part.sides.every(side => typeof side === 'number')) {
+    const [a, b, c] = sides.map(side => side.length);
+    const s = (a + b + c) / 2;
+    return Math.sqrt(Math.max(0, s * (s - a) * (s - b) * (s - c)));
+  }
+
+  const { points } = walkPolygon(sides);
+  let twiceArea = 0;
+  for (let i = 0; i < points.length - 1; i++) {
+    twiceArea += points[i][0] * points[i + 1][1] - points[i + 1][0] * points[i][1];
+  }
+  return Math.abs(twiceArea) / 2;
+}
+
+/**
+ * Area and full perimeter of a part on its own
+ */
+export function measureShapePart(part: ShapePart): { area: number; perimeter: number } {
+  switch (part.type) {
+    case 'rectangle': {
+      const radius = part.cornerRadius ?? 0;
+      const corners = radius > 0 ? part.roundedCorners ?? 4 : 0;
+      // Each rounded corner trades a square corner for a quarter circle
+      return {
+        area: part.length * part.width - corners * (1 - Math.PI / 4) * radius * radius,
+        perimeter: 2 * (part.length + part.width) - corners * (2 - Math.PI / 2) * radius
+      };
+    }
+    case 'circle':
+      return {
+        area: (Math.PI * part.diameter * part.diameter) / 4,
+        perimeter: Math.PI * part.diameter
+      };
+    case 'arc': {
+      const sweep = (part.angle * Math.PI) / 180;
+      return {
+        area: (sweep * part.radius * part.radius) / 2,
+        perimeter: sweep * part.radius + (part.angle < 360 ? 2 * part.radius : 0)
+      };
+    }
+    case 'polygon':
+      return {
+        area: polygonArea(part),
+        perimeter: part.sides.map(toSide).reduce((sum, side) => sum + side.length, 0)
+      };
+  }
+}
+
+/**
+ * Short label for breakdowns ("20 × 12 ft rectangle")
+ */
+export function describeShapePart(part: ShapePart): string {
+  const prefix = part.subtract ? 'Cut-out: ' : '';
+  switch (part.type) {
+    case 'rectangle':
+      return `${prefix}${part.length} × ${part.width} ft rectangle` +
+        (part.cornerRadius ? `, ${part.cornerRadius} ft radius corners` : '');
+    case 'circle':
+      return `${prefix}${part.diameter} ft circle`;
+    case 'arc':
+      return `${prefix}${part.radius} ft radius ${part.angle}° arc`;
+    case 'polygon':
+      return `${prefix}${part.sides.length}-sided polygon`;
+  }
+}
+
+/**
+ * Validate a shape, returns an error message or null
+ */
+export function validatePatioShape(shape: PatioShape | null | undefined): string | null {
+  if (!shape || !Array.isArray(shape.parts) || shape.parts.length === 0) {
+    return 'Shape needs at least one part';
+  }
+  if (shape.parts[0].subtract) {
+    return 'The first part of a shape cannot be a cut-out';
+  }
+
+  for (const [index, part] of shape.parts.entries()) {
+    const name = `Part ${index + 1}`;
+
+    switch (part.type) {
+      case 'rectangle': {
+        if (!isPositive(part.length) || !isPositive(part.width)) {
+          return `${name}: length and width must be greater than 0`;
+        }
+        const radius = part.cornerRadius ?? 0;
+        if (!Number.isFinite(radius) || radius < 0 || radius > Math.min(part.length, part.width) / 2) {
+          return `${name}: corner radius must be at most half the shorter side`;
+        }
+        const corners = part.roundedCorners ?? 4;
+        if (!Number.isInteger(corners) || corners < 0 || corners > 4) {
+          return `${name}: rounded corners must be 0 to 4`;
+        }
+        break;
+      }
+      case 'circle':
+        if (!isPositive(part.diameter)) return `${name}: diameter must be greater than 0`;
+        break;
+      case 'arc':
+        if (!isPositive(part.radius)) return `${name}: radius must be greater than 0`;
+        if (!isPositive(part.angle) || part.angle > 360) return `${name}: angle must be between 0° and 360°`;
+        break;
+      case 'polygon': {
+        if (!Array.isArray(part.sides) || part.sides.length < 3) {
+          return `${name}: a polygon needs at least 3 sides`;
+        }
+        const sides = part.sides.map(toSide);
+        if (sides.some(side => !isPositive(side.length))) {
+          return `${name}: side lengths must be greater than 0`;
+        }
+        if (sides.some(side => side.angle !== undefined && !(side.angle > 0 && side.angle < 360))) {
+          return `${name}: corner angles must be between 0° and 360°`;
+        }
+        if (sides.length === 3 && part.sides.every(side => typeof side === 'number')) {
+          const [a, b, c] = sides.map(side => side.length).sort((x, y) => x - y);
+          if (a + b <= c) return `${name}: those sides do not make a triangle`;
+          break;
+        }
+        const perimeter = sides.reduce((sum, side) => sum + side.length, 0);
+        const { gap } = walkPolygon(sides);
+        if (gap > perimeter * POLYGON_CLOSE_TOLERANCE) {
+          return `${name}: sides do not close (${round2(gap)} ft off) - check lengths and angles`;
+        }
+        break;
+      }
+      default:
+        return `${name}: unknown shape type`;
+    }
+
+    const shared = part.sharedEdge ?? 0;
+    if (!Number.isFinite(shared) || shared < 0) {
+      return `${name}: shared edge cannot be negative`;
+    }
+    if (index === 0 && shared > 0) {
+      return 'The first part has nothing to share an edge with';
+    }
+    if (shared * 2 > measureShapePart(part).perimeter) {
+      return `${name}: shared edge is longer than the part's edge`;
+    }
+  }
+
+  if (measurePatioShape(shape).area <= 0) {
+    return 'Cut-outs remove the whole shape';
+  }
+
+  return null;
+}
+
+/**
+ * Area (sqft) and perimeter (lf) of a shape
+ * Assumes a valid shape - check with validatePatioShape first
+ */
+export function measurePatioShape(shape: PatioShape): ShapeMeasurement {
+  const parts = shape.parts.map(part => {
+    const { area, perimeter } = measureShapePart(part);
+    return {
+      label: describeShapePart(part),
+      area: round2(part.subtract ? -area : area),
+      perimeter: round2(perimeter - 2 * (part.sharedEdge ?? 0))
+    };
+  });
+
+  return {
+    area: round2(Math.max(0, parts.reduce((sum, part) => sum + part.area, 0))),
+    perimeter: round2(Math.max(0, parts.reduce((sum, part) => sum + part.perimeter, 0))),
+    parts
+  };
+}
+
+/**
+ * Single rectangle shape - what a plain "L x W" measurement describes
+ */
+export function rectangleShape(length: number, width: number): PatioShape {
+  return { parts: [{ type: 'rectangle', length, width }] };
+}
+
+/**
+ * Same outline with every length multiplied by factor - metres → feet
+ * Angles and corner counts are unchanged
+ */
+export function scalePatioShape(shape: PatioShape, factor: number): PatioShape {
+  const scale = (value: number | undefined) => value === undefined ? undefined : value * factor;
+
+  return {
+    parts: shape.parts.map((part): ShapePart => {
+      const base = { ...part, ...(part.sharedEdge !== undefined && { sharedEdge: scale(part.sharedEdge) }) };
+      switch (part.type) {
+        case 'rectangle':
+          return {
+            ...base,
+            type: 'rectangle',
+            length: part.length * factor,
+            width: part.width * factor,
+            ...(part.cornerRadius !== undefined && { cornerRadius: scale(part.cornerRadius) })
+          };
+        case 'circle':
+          return { ...base, type: 'circle', diameter: part.diameter * factor };
+        case 'arc':
+          return { ...base, type: 'arc', radius: part.radius * factor, angle: part.angle };
+        case 'polygon':
+          return {
+            ...base,
+            type: 'polygon',
+            sides: part.sides.map(side => typeof side === 'number'
+              ? side * factor
+              : { ...side, length: side.length * factor })
+          };
+      }
+    })
+  };
+}
+
+/**
+ * Edge length for linear materials and perimeter bundles
+ *
+ * An explicit customPerimeter wins, then a valid shape's exact perimeter,
+ * then the √sqft estimate.
+ */
+export function resolvePerimeter(
+  sqft: number,
+  input?: { customPerimeter?: number; shape?: PatioShape | null }
+): number {
+  if (input?.customPerimeter !== undefined && input.customPerimeter !== null) {
+    return input.customPerimeter;
+  }
+  if (input?.shape && !validatePatioShape(input.shape)) {
+    return measurePatioShape(input.shape).perimeter;
+  }
+  return Math.sqrt(Math.max(0, sqft)) * PERIMETER_PER_SQRT_SQFT;
+}
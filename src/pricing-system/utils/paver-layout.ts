@@ -0,0 +1,163 @@
+/**
+ * Paver Layout Calculator
+ *
+ * Piece counts for the `paver_layout` material calculation method: full
+ * pieces, border cuts, pallets and the waste that follows from the paver's
+ * size and the laying pattern - instead of a flat waste_factor_percentage
+ * and a cuttingComplexity guess.
+ *
+ * Model (paver L × W inches, patio area A sqft, edge P linear feet):
+ *
+ *   pieces to cover  = A ÷ (L × W ÷ 144)
+ *   border cuts      = P × 12 ÷ pattern cut spacing
+ *   full pieces      = pieces to cover − cuts ÷ 2   (a cut piece keeps half on average)
+ *   border pavers    = cuts × (1 − pattern offcut reuse)
+ *   total pieces     = (full + border pavers) × (1 + breakage)
+ *
+ * Cut spacing is how far apart pieces meet the edge: every (L + W) / 2 for
+ * running bond and basketweave, every W for 90° herringbone's zig-zag and
+ * W / √2 for 45° herringbone, where every piece along the edge is cut on
+ * the diagonal. Offcut reuse is the share of cuts served by another cut's
+ * offcut - running bond rips often fit the opposite edge, diagonal
+ * herringbone offcuts never do.
+ *
+ *   240 sqft, 64 lf edge, 4×8 pavers, running bond:
+ *   1,080 to cover, 128 cuts → 1,016 full + 96 border pavers = 1,112 × 1.02 = 1,135 pieces (5.1% waste)
+ *   the same patio in 45° herringbone: 272 cuts → 1,241 pieces (14.9% waste)
+ *
+ * The material calculations and the pricing engine's cut labor both use
+ * these counts.
+ */
+
+export type LayingPattern = 'running_bond' | 'herringbone_90' | 'herringbone_45' | 'basketweave';
+
+export const DEFAULT_LAYING_PATTERN: LayingPattern = 'running_bond';
+
+export interface LayingPatternDefinition {
+  label: string;
+  cutSpacing: (lengthInches: number, widthInches: number) => number;  // Inches of edge per cut piece
+  offcutReuse: number;               // Share of cuts served by another cut's offcut (0-1)
+  minutesPerCut: number;             // Saw time per border cut, marking included
+}
+
+export const LAYING_PATTERNS: Record<LayingPattern, LayingPatternDefinition> = {
+  running_bond: {
+    label: 'Running Bond',
+    cutSpacing: (length, width) => (length + width) / 2,
+    offcutReuse: 0.25,
+    minutesPerCut: 1
+  },
+  basketweave: {
+    label: 'Basketweave',
+    cutSpacing: (length, width) => (length + width) / 2,
+    offcutReuse: 0.1,
+    minutesPerCut: 1
+  },
+  herringbone_90: {
+    label: 'Herringbone 90°',
+    cutSpacing: (_length, width) => width,
+    offcutReuse: 0.1,
+    minutesPerCut: 1.25
+  },
+  herringbone_45: {
+    label: 'Herringbone 45°',
+    cutSpacing: (_length, width) => width / Math.SQRT2,
+    offcutReuse: 0,
+    minutesPerCut: 1.5
+  }
+};
+
+// Chipped and broken pieces, whatever the pattern
+export const BREAKAGE_PERCENTAGE = 2;
+
+export interface PaverLayoutInput {
+  area: number;                      // sqft to cover
+  perimeter: number;                 // linear feet of edge to cut along
+  lengthInches: number;
+  widthInches: number;
+  pattern?: LayingPattern | string | null;
+  piecesPerPallet?: number | null;
+}
+
+export interface PaverLayoutResult {
+  pattern: LayingPattern;
+  patternLabel: string;
+  pieceSqft: number;                 // Face area of one paver
+  piecesToCover: number;             // Exact, before cuts and breakage
+  fullPieces: number;
+  cutPieces: number;                 // Border cuts
+  borderPavers: number;              // New pavers the cuts use (after offcut reuse)
+  totalPieces: number;               // To order, breakage included
+  pallets: number | null;            // Unrounded, null when pieces per pallet is unknown
+  wastePercentage: number;           // Ordered area over patio area, minus 100%
+  cutLaborHours: number;
+}
+
+export function isLayingPattern(value: unknown): value is LayingPattern {
+  return typeof value === 'string' && value in LAYING_PATTERNS;
+}
+
+/**
+ * Chosen pattern, or running bond when missing or unknown
+ */
+export function resolveLayingPattern(value: unknown): LayingPattern {
+  return isLayingPattern(value) ? value : DEFAULT_LAYING_PATTERN;
+}
+
+/**
+ * Whether a paver has the dimensions a layout needs
+ */
+export function hasLayoutDimensions(lengthInches: number | null | undefined, widthInches: number | null | undefined): boolean {
+  return (lengthInches ?? 0) > 0 && (widthInches ?? 0) > 0;
+}
+
+/**
+ * Full pieces, border cuts, pallets and pattern waste for a patio
+ */
+export function calculatePaverLayout(input: PaverLayoutInput): PaverLayoutResult {
+  const pattern = resolveLayingPattern(input.pattern);
+  const definition = LAYING_PATTERNS[pattern];
+  // Lay the long side as length - W is the narrow face every pattern cuts along
+  const lengthInches = Math.max(input.lengthInches, input.widthInches);
+  const widthInches = Math.min(input.lengthInches, input.widthInches);
+
+  const pieceSqft = (lengthInches * widthInches) / 144;
+  const area = Math.max(0, input.area);
+  const perimeter = area > 0 ? Math.max(0, input.perimeter) : 0;
+
+  const piecesToCover = area / pieceSqft;
+  // Never more cuts than pieces - a tiny pad is all cuts
+  const cutPieces = Math.min(
+    Math.ceil((perimeter * 12) / definition.cutSpacing(lengthInches, widthInches)),
+    Math.ceil(piecesToCover)
+  );
+  const fullPieces = Math.max(0, Math.ceil(piecesToCover - cutPieces / 2));
+  const borderPavers = Math.ceil(cutPieces * (1 - definition.offcutReuse));
+  const totalPieces = Math.ceil((fullPieces + borderPavers) * (1 + BREAKAGE_PERCENTAGE / 100));
+
+  const piecesPerPallet = input.piecesPerPallet ?? 0;
+  const orderedSqft = totalPieces * pieceSqft;
+
+  return {
+    pattern,
+    patternLabel: definition.label,
+    pieceSqft: Math.round(pieceSqft * 10000) / 10000,
+    piecesToCover: Math.round(piecesToCover * 100) / 100,
+    fullPieces,
+    cutPieces,
+    borderPavers,
+    totalPieces,
+    pallets: piecesPerPallet > 0 ? totalPieces / piecesPerPallet : null,
+    wastePercentage: area > 0 ? Math.round((orderedSqft / area - 1) * 1000) / 10 : 0,
+    cutLaborHours: Math.round((cutPieces * definition.minutesPerCut / 60) * 100) / 100
+  };
+}
+
+/**
+ * "1,135 pieces: 1,016 full + 128 border cuts (Running Bond, 5.1% waste)"
+ */
+export function describePaverLayout(layout: PaverLayoutResult): string {
+  const count = (value: number) => value.toLocaleString('en-US');
+  return `${count(layout.totalPieces)} pieces: ${count(layout.fullPieces)} full + ${count(layout.cutPieces)} border cuts ` +
+    `(${layout.patternLabel}, ${layout.wastePercentage.toFixed(1)}% waste)`;
+}
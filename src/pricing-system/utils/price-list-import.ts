@@ -0,0 +1,369 @@
+/**
+ * Supplier Price List Import
+ *
+ * Parses a supplier's CSV price sheet and matches each line to
+ * svc_materials rows by supplier + SKU (supplier_sku), falling back to
+ * supplier + material name. The preview lists every line with its old and
+ * new price so nothing is applied unseen; MaterialPriceService applies the
+ * 'update' lines and writes price history.
+ *
+ * Also the price-history helpers: trend of a material's price, and quote
+ * lines whose frozen material prices are older than today's.
+ */
+
+import type { MaterialCalculationResult, ServiceMaterial } from '../../types/materials';
+
+export interface PriceListRow {
+  line: number;                      // Line in the file (header is line 1)
+  supplierName: string | null;
+  sku: string | null;
+  name: string | null;
+  price: number | null;              // null when the price cell isn't a number
+}
+
+export interface PriceListParseResult {
+  rows: PriceListRow[];
+  errors: string[];                  // File-level problems (no price column...)
+}
+
+export type PriceListMaterial = Pick<ServiceMaterial, 'id' | 'material_name' | 'supplier_name' | 'supplier_sku' | 'price_per_unit'>;
+
+export type PriceChangeStatus = 'update' | 'unchanged' | 'unmatched' | 'invalid';
+
+export interface PriceListChange {
+  line: number;
+  status: PriceChangeStatus;
+  supplierName: string | null;
+  sku: string | null;
+  name: string | null;
+  materialId: string | null;
+  materialName: string | null;
+  matchedBy: 'sku' | 'name' | null;
+  oldPrice: number | null;
+  newPrice: number | null;
+  changePercent: number | null;      // Rounded to 0.1
+  assignSku: boolean;                // Matched by name - save the SKU for next season
+  message?: string;
+}
+
+export interface PriceListPreview {
+  changes: PriceListChange[];
+  updates: number;
+  unchanged: number;
+  unmatched: number;
+  invalid: number;
+  errors: string[];
+}
+
+// Accepted header spellings, compared after normalizeHeader()
+const COLUMN_ALIASES: Record<'supplier' | 'sku' | 'name' | 'price', string[]> = {
+  supplier: ['supplier', 'supplier_name', 'vendor', 'vendor_name'],
+  sku: ['sku', 'supplier_sku', 'item', 'item_number', 'item_no', 'item_code', 'product_code', 'part_number', 'code'],
+  name: ['name', 'material', 'material_name', 'description', 'product', 'product_name', 'item_name'],
+  price: ['price', 'unit_price', 'price_per_unit', 'cost', 'unit_cost', 'net_price']
+};
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+
+/**
+ * Lower-case, single-spaced - how supplier and material names are compared
+ */
+export function normalizeMatchKey(value: string | null | undefined): string {
+  return (value ?? '').trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+export interface CsvRecord {
+  line: number;                      // Physical line the record starts on
+  cells: string[];
+}
+
+/**
+ * RFC 4180 CSV: quoted fields, doubled quotes, commas and newlines in
+ * quotes, CRLF, a leading byte-order mark. Blank lines are dropped; each
+ * record keeps the file line it starts on.
+ */
+export function parseCsv(text: string): CsvRecord[] {
+  const records: CsvRecord[] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    record.push(field);
+    if (record.some(cell => cell.trim() !== '')) records.push({ line: recordLine, cells: record });
+    record = [];
+    field = '';
+  };
+
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n' || (char === '\r' && input[i + 1] !== '\n')) line++;
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRecord();
+      recordLine = ++line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || record.length > 0) endRecord();
+  return records;
+}
+
+/**
+ * "$1,234.50" → 1234.5; null for anything that isn't a non-negative price
+ */
+export function parsePrice(raw: string | null | undefined): number | null {
+  const cleaned = (raw ?? '').replace(/[$,\s]/g, '');
+  if (!/^\d*\.?\d+$/.test(cleaned)) return null;
+  const price = Number(cleaned);
+  return Number.isFinite(price) ? price : null;
+}
+
+/**
+ * Read a supplier CSV. The header row names the columns - any order,
+ * extra columns ignored. Needs a price column and a SKU or name column.
+ */
+export function parsePriceList(text: string): PriceListParseResult {
+  const [header, ...records] = parseCsv(text);
+  if (!header) return { rows: [], errors: ['The file is empty'] };
+
+  const headers = header.cells.map(normalizeHeader);
+  const column = (key: keyof typeof COLUMN_ALIASES) =>
+    headers.findIndex(h => COLUMN_ALIASES[key].includes(h));
+  const columns = { supplier: column('supplier'), sku: column('sku'), name: column('name'), price: column('price') };
+
+  const errors: string[] = [];
+  if (columns.price < 0) errors.push('No price column (price, unit_price, cost...)');
+  if (columns.sku < 0 && columns.name < 0) errors.push('No SKU or material name column');
+  if (errors.length > 0) return { rows: [], errors };
+
+  const cell = (record: string[], index: number) => {
+    const value = index >= 0 ? record[index]?.trim() : '';
+    return value ? value : null;
+  };
+
+  const rows = records.map(({ line, cells }) => ({
+    line,
+    supplierName: cell(cells, columns.supplier),
+    sku: cell(cells, columns.sku),
+    name: cell(cells, columns.name),
+    price: parsePrice(cell(cells, columns.price))
+  }));
+
+  return { rows, errors };
+}
+
+/**
+ * Match price list rows to materials and work out each price change
+ *
+ * A row may match several materials - the same product stocked under more
+ * than one service. A material matched twice keeps the first line.
+ *
+ * @param defaultSupplier - Supplier for sheets without a supplier column
+ */
+export function matchPriceList(
+  rows: PriceListRow[],
+  materials: PriceListMaterial[],
+  defaultSupplier?: string | null
+): PriceListChange[] {
+  const matchedLines = new Map<string, number>();
+  const changes: PriceListChange[] = [];
+
+  for (const row of rows) {
+    const supplierName = row.supplierName ?? defaultSupplier?.trim() ?? null;
+    const base: PriceListChange = {
+      line: row.line,
+      status: 'invalid',
+      supplierName,
+      sku: row.sku,
+      name: row.name,
+      materialId: null,
+      materialName: null,
+      matchedBy: null,
+      oldPrice: null,
+      newPrice: row.price,
+      changePercent: null,
+      assignSku: false
+    };
+
+    if (!supplierName) {
+      changes.push({ ...base, message: 'No supplier' });
+      continue;
+    }
+    if (row.price === null) {
+      changes.push({ ...base, message: 'Price is not a number' });
+      continue;
+    }
+
+    const supplierKey = normalizeMatchKey(supplierName);
+    const fromSupplier = materials.filter(m => normalizeMatchKey(m.supplier_name) === supplierKey);
+    const bySku = row.sku
+      ? fromSupplier.filter(m => normalizeMatchKey(m.supplier_sku) === normalizeMatchKey(row.sku))
+      : [];
+    const byName = bySku.length === 0 && row.name
+      ? fromSupplier.filter(m => normalizeMatchKey(m.material_name) === normalizeMatchKey(row.name))
+      : [];
+    const matched = bySku.length > 0 ? bySku : byName;
+
+    if (matched.length === 0) {
+      changes.push({ ...base, status: 'unmatched', message: `No ${supplierName} material with this SKU or name` });
+      continue;
+    }
+
+    for (const material of matched) {
+      const oldPrice = material.price_per_unit;
+      const firstLine = matchedLines.get(material.id);
+      const change: PriceListChange = {
+        ...base,
+        materialId: material.id,
+        materialName: material.material_name,
+        matchedBy: bySku.length > 0 ? 'sku' : 'name',
+        oldPrice,
+        changePercent: oldPrice > 0 ? Math.round(((row.price - oldPrice) / oldPrice) * 1000) / 10 : null,
+        assignSku: bySku.length === 0 && !!row.sku && !material.supplier_sku
+      };
+
+      if (firstLine !== undefined) {
+        changes.push({ ...change, status: 'invalid', message: `Material already priced on line ${firstLine}` });
+        continue;
+      }
+
+      matchedLines.set(material.id, row.line);
+      changes.push({ ...change, status: Math.abs(row.price - oldPrice) < 0.005 ? 'unchanged' : 'update' });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Parse, match and count - what the import preview shows
+ */
+export function previewPriceList(
+  text: string,
+  materials: PriceListMaterial[],
+  defaultSupplier?: string | null
+): PriceListPreview {
+  const { rows, errors } = parsePriceList(text);
+  const changes = matchPriceList(rows, materials, defaultSupplier);
+  const count = (status: PriceChangeStatus) => changes.filter(change => change.status === status).length;
+
+  return {
+    changes,
+    updates: count('update'),
+    unchanged: count('unchanged'),
+    unmatched: count('unmatched'),
+    invalid: count('invalid'),
+    errors
+  };
+}
+
+// ---------------------------------------------------------------------
+// Price history
+// ---------------------------------------------------------------------
+
+export interface PriceHistoryPoint {
+  price_per_unit: number;
+  created_at: string;
+}
+
+export interface PriceTrend {
+  firstPrice: number;
+  latestPrice: number;
+  changePercent: number | null;      // Latest vs first, rounded to 0.1
+  since: string;                     // created_at of the first point
+  points: number;
+}
+
+/**
+ * Price trend across a material's history (any order in, oldest first used)
+ */
+export function summarizePriceTrend(history: PriceHistoryPoint[]): PriceTrend | null {
+  if (history.length === 0) return null;
+
+  const sorted = [...history].sort((a, b) => a.created_at.localeCompare(b.created_at));
+  const first = sorted[0];
+  const latest = sorted[sorted.length - 1];
+
+  return {
+    firstPrice: first.price_per_unit,
+    latestPrice: latest.price_per_unit,
+    changePercent: first.price_per_unit > 0
+      ? Math.round(((latest.price_per_unit - first.price_per_unit) / first.price_per_unit) * 1000) / 10
+      : null,
+    since: first.created_at,
+    points: sorted.length
+  };
+}
+
+export interface PricedQuoteLine {
+  jobServiceId: string;
+  jobId: string;
+  jobNumber: string | null;
+  pricedAt: string | null;
+  materialBreakdown?: MaterialCalculationResult;
+}
+
+export interface OutdatedMaterialPrice {
+  jobServiceId: string;
+  jobId: string;
+  jobNumber: string | null;
+  pricedAt: string | null;
+  materialId: string;
+  materialName: string;
+  quotedPrice: number;
+  currentPrice: number;
+}
+
+/**
+ * Quote lines priced with a material price that has since changed
+ *
+ * @param currentPrices - materialId → today's price_per_unit
+ */
+export function findOutdatedMaterialPrices(
+  lines: PricedQuoteLine[],
+  currentPrices: Map<string, number>
+): OutdatedMaterialPrice[] {
+  const outdated: OutdatedMaterialPrice[] = [];
+
+  for (const line of lines) {
+    for (const category of line.materialBreakdown?.categories ?? []) {
+      const currentPrice = currentPrices.get(category.materialId);
+      const quotedPrice = category.quantities.unitCost;
+      if (currentPrice === undefined || Math.abs(currentPrice - quotedPrice) < 0.005) continue;
+
+      outdated.push({
+        jobServiceId: line.jobServiceId,
+        jobId: line.jobId,
+        jobNumber: line.jobNumber,
+        pricedAt: line.pricedAt,
+        materialId: category.materialId,
+        materialName: category.materialName,
+        quotedPrice,
+        currentPrice
+      });
+    }
+  }
+
+  return outdated;
+}
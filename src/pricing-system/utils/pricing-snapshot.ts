@@ -0,0 +1,99 @@
+/**
+ * Pricing Snapshot Helpers
+ *
+ * A quote line is "frozen" by hashing everything that determines its price:
+ * the config revision, the line's inputs and the engine's computed Tier 1 /
+ * Tier 2 results. Hashing the output covers every input the engine reads -
+ * material prices, equipment rates, bundled and excavation configs, the
+ * seasonal adjustment - without listing each one. Same hash = same price;
+ * a different hash explains why a re-price moved.
+ */
+
+import type { Tier1Results, Tier2Results } from '../core/calculations/master-pricing-engine';
+import type { UnitSystem } from './unit-system';
+import type { PricingLineDelta } from '../../types/pricing';
+
+export interface PricingSnapshotInput {
+  serviceConfigId: string;
+  configRevisionId: string | null;   // null when no revision history exists yet
+  quantity: number;
+  pricingVariables: Record<string, any>;
+  unitSystem?: UnitSystem;
+  tier1Results?: Partial<Tier1Results>;
+  tier2Results?: Partial<Tier2Results>;
+}
+
+/**
+ * JSON.stringify with sorted object keys so equal inputs hash equally
+ */
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * SHA-256 (hex) of the config revision + inputs + computed results
+ */
+export async function hashPricingSnapshot(input: PricingSnapshotInput): Promise<string> {
+  const payload = stableStringify({
+    serviceConfigId: input.serviceConfigId,
+    configRevisionId: input.configRevisionId,
+    quantity: input.quantity,
+    pricingVariables: input.pricingVariables,
+    unitSystem: input.unitSystem,
+    tier1Results: input.tier1Results,
+    tier2Results: input.tier2Results
+  });
+
+  const digest = await globalThis.crypto.subtle.digest('SHA-256', new TextEncoder().encode(payload));
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Line-by-line deltas between a frozen calculation and a re-price
+ *
+ * @param before - tier2Results stored on the quote line
+ * @param after - tier2Results from the current engine
+ */
+export function comparePricingResults(
+  before: Partial<Tier2Results> | undefined,
+  after: Partial<Tier2Results> | undefined
+): PricingLineDelta[] {
+  const lines: Array<[PricingLineDelta['key'], string, (results: Partial<Tier2Results>) => number | undefined]> = [
+    ['labor', 'Labor', r => r.laborCost],
+    ['materials', 'Materials', r => r.totalMaterialCost],
+    ['excavation', 'Excavation', r => r.excavationCost],
+    ['bundled', 'Bundled Services', r => r.bundledServices || r.bundleMobilization
+      ? (r.bundledServices ?? []).reduce((sum, bundle) => sum + bundle.total, 0) + (r.bundleMobilization ?? 0)
+      : undefined],
+    ['equipment', 'Equipment', r => r.equipmentCost],
+    ['obstacles', 'Obstacle Removal', r => r.obstacleCost],
+    ['profit', 'Profit', r => r.profit],
+    ['total', 'Total', r => r.total]
+  ];
+
+  return lines.map(([key, label, read]) => {
+    const beforeValue = roundCents(read(before ?? {}) ?? 0);
+    const afterValue = roundCents(read(after ?? {}) ?? 0);
+    return {
+      key,
+      label,
+      before: beforeValue,
+      after: afterValue,
+      delta: roundCents(afterValue - beforeValue)
+    };
+  });
+}
@@ -0,0 +1,321 @@
+/**
+ * Purchase Orders
+ *
+ * Turns the material breakdowns frozen on job lines
+ * (tier2Results.materialBreakdown) into one purchase order per supplier.
+ * The same material across several jobs becomes one line, and each line
+ * is rounded to what the supplier sells:
+ *
+ *   units_per_package set  → whole packages (e.g. 50 bags per pallet)
+ *   bulk units (cy, tons, sqft, lf) → 0.1
+ *   everything else        → whole units
+ *
+ * paver_layout pallets are whole pallets - their units_per_package is
+ * pieces per pallet, already applied by the layout.
+ *
+ * Also the printable PO document. PurchaseOrderService loads jobs and
+ * materials and stores the orders.
+ */
+
+import type { MaterialCalculationMethod, MaterialCalculationResult, ServiceMaterial } from '../../types/materials';
+import { escapeHtml } from '../../utils/html';
+
+export type PurchaseOrderStatus = 'draft' | 'sent' | 'received' | 'cancelled';
+
+// Forward only - a received or cancelled order can't be reopened
+export const PURCHASE_ORDER_TRANSITIONS: Record<PurchaseOrderStatus, PurchaseOrderStatus[]> = {
+  draft: ['sent', 'cancelled'],
+  sent: ['received', 'cancelled'],
+  received: [],
+  cancelled: []
+};
+
+const BULK_UNITS = ['cubic_yard', 'ton', 'square_foot', 'linear_foot'];
+
+export type PurchaseOrderMaterial = Pick<
+  ServiceMaterial,
+  'id' | 'material_name' | 'supplier_name' | 'supplier_sku' | 'unit_type' | 'units_per_package' | 'price_per_unit'
+>;
+
+/**
+ * A job and the material breakdowns of its service lines
+ */
+export interface JobMaterialSource {
+  jobId: string;
+  breakdowns: MaterialCalculationResult[];
+}
+
+export interface PurchaseOrderDraftLine {
+  materialId: string;
+  materialName: string;
+  supplierSku: string | null;
+  unitType: string;
+  unitLabel: string;                 // "cubic yards", "pallets"
+  quantityNeeded: number;            // Sum across jobs, unrounded
+  quantityOrdered: number;           // Rounded to what the supplier sells
+  unitsPerPackage: number | null;
+  packages: number | null;           // Whole packages when units_per_package applies
+  unitCost: number;                  // Current catalog price
+  lineTotal: number;
+  jobIds: string[];
+}
+
+export interface PurchaseOrderDraft {
+  supplierName: string | null;       // null: materials without a supplier
+  lines: PurchaseOrderDraftLine[];
+  subtotal: number;
+  jobIds: string[];
+}
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Round a purchase quantity to what the supplier sells
+ */
+export function roundOrderQuantity(
+  quantity: number,
+  unitType: string,
+  unitsPerPackage: number | null,
+  calculationMethod?: MaterialCalculationMethod
+): { quantityOrdered: number; packages: number | null } {
+  if (quantity <= 0) return { quantityOrdered: 0, packages: null };
+
+  if (calculationMethod === 'paver_layout' && unitType === 'pallet') {
+    return { quantityOrdered: Math.ceil(quantity - 1e-9), packages: null };
+  }
+
+  if (unitsPerPackage && unitsPerPackage > 0) {
+    const packages = Math.ceil(quantity / unitsPerPackage - 1e-9);
+    return { quantityOrdered: Math.round(packages * unitsPerPackage * 100) / 100, packages };
+  }
+
+  if (BULK_UNITS.includes(unitType)) {
+    return { quantityOrdered: Math.ceil(quantity * 10 - 1e-9) / 10, packages: null };
+  }
+
+  return { quantityOrdered: Math.ceil(quantity - 1e-9), packages: null };
+}
+
+/**
+ * Group the jobs' materials into one draft order per supplier
+ *
+ * Materials no longer in the catalog keep their quoted price and go on
+ * the no-supplier order.
+ */
+export function buildPurchaseOrders(
+  sources: JobMaterialSource[],
+  materials: PurchaseOrderMaterial[]
+): PurchaseOrderDraft[] {
+  const catalog = new Map(materials.map(material => [material.id, material]));
+  const needs = new Map<string, {
+    quantity: number;
+    method: MaterialCalculationMethod;
+    name: string;
+    unitLabel: string;
+    quotedCost: number;
+    jobIds: Set<string>;
+  }>();
+
+  for (const source of sources) {
+    for (const breakdown of source.breakdowns) {
+      for (const category of breakdown.categories) {
+        const need = needs.get(category.materialId);
+        if (need) {
+          need.quantity += category.quantities.purchaseUnits;
+          need.jobIds.add(source.jobId);
+        } else {
+          needs.set(category.materialId, {
+            quantity: category.quantities.purchaseUnits,
+            method: category.calculationMethod,
+            name: category.materialName,
+            unitLabel: category.quantities.unitLabel,
+            quotedCost: category.quantities.unitCost,
+            jobIds: new Set([source.jobId])
+          });
+        }
+      }
+    }
+  }
+
+  const orders = new Map<string, PurchaseOrderDraft>();
+
+  for (const [materialId, need] of needs) {
+    const material = catalog.get(materialId);
+    const unitType = material?.unit_type ?? '';
+    const unitsPerPackage = material?.units_per_package ?? null;
+    const { quantityOrdered, packages } = roundOrderQuantity(need.quantity, unitType, unitsPerPackage, need.method);
+    if (quantityOrdered === 0) continue;
+
+    const unitCost = material?.price_per_unit ?? need.quotedCost;
+    const supplierName = material?.supplier_name?.trim() || null;
+    const key = supplierName?.toLowerCase() ?? '';
+
+    const order = orders.get(key) ?? { supplierName, lines: [], subtotal: 0, jobIds: [] };
+    order.lines.push({
+      materialId,
+      materialName: material?.material_name ?? need.name,
+      supplierSku: material?.supplier_sku ?? null,
+      unitType,
+      unitLabel: need.unitLabel,
+      quantityNeeded: Math.round(need.quantity * 100) / 100,
+      quantityOrdered,
+      unitsPerPackage: packages !== null ? unitsPerPackage : null,
+      packages,
+      unitCost,
+      lineTotal: roundMoney(quantityOrdered * unitCost),
+      jobIds: [...need.jobIds]
+    });
+    orders.set(key, order);
+  }
+
+  return [...orders.values()]
+    .map(order => {
+      const lines = [...order.lines].sort((a, b) => a.materialName.localeCompare(b.materialName));
+      return {
+        ...order,
+        lines,
+        subtotal: roundMoney(lines.reduce((sum, line) => sum + line.lineTotal, 0)),
+        jobIds: [...new Set(lines.flatMap(line => line.jobIds))]
+      };
+    })
+    // Named suppliers A-Z, unassigned last
+    .sort((a, b) => {
+      if (a.supplierName === null) return 1;
+      if (b.supplierName === null) return -1;
+      return a.supplierName.localeCompare(b.supplierName);
+    });
+}
+
+/**
+ * Next PO number for the year, after the highest already used
+ */
+export function nextPurchaseOrderNumber(existing: string[], year: number): string {
+  const pattern = new RegExp(`^PO-${year}-(\\d+)$`);
+  const highest = existing.reduce((max, number) => {
+    const match = number.match(pattern);
+    return match ? Math.max(max, parseInt(match[1], 10)) : max;
+  }, 0);
+
+  return `PO-${year}-${String(highest + 1).padStart(4, '0')}`;
+}
+
+export function canTransitionPurchaseOrder(from: PurchaseOrderStatus, to: PurchaseOrderStatus): boolean {
+  return PURCHASE_ORDER_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+/**
+ * PO numbers of the orders (cancelled ones aside) each job is already on
+ * Jobs on no order are left out
+ */
+export function findOrderedJobs(
+  orders: Array<{ po_number: string; status: PurchaseOrderStatus; job_ids: string[] }>,
+  jobIds: string[]
+): Map<string, string[]> {
+  const ordered = new Map<string, string[]>();
+
+  for (const order of orders) {
+    if (order.status === 'cancelled') continue;
+    for (const jobId of order.job_ids) {
+      if (!jobIds.includes(jobId)) continue;
+      ordered.set(jobId, [...(ordered.get(jobId) ?? []), order.po_number]);
+    }
+  }
+
+  return ordered;
+}
+
+// ---------------------------------------------------------------------
+// Printable document
+// ---------------------------------------------------------------------
+
+export interface PurchaseOrderDocument {
+  poNumber: string;
+  status: PurchaseOrderStatus;
+  supplierName: string | null;
+  createdAt: string;
+  company: { name: string; address?: string | null; phone?: string | null; email?: string | null };
+  jobNumbers: string[];
+  lines: Array<Pick<
+    PurchaseOrderDraftLine,
+    'materialName' | 'supplierSku' | 'unitLabel' | 'quantityOrdered' | 'packages' | 'unitsPerPackage' | 'unitCost' | 'lineTotal'
+  >>;
+  subtotal: number;
+  notes?: string | null;
+}
+
+const formatCurrency = (value: number) =>
+  value.toLocaleString('en-US', { style: 'currency', currency: 'USD' });
+
+const formatQuantity = (value: number) =>
+  value.toLocaleString('en-US', { maximumFractionDigits: 2 });
+
+/**
+ * Self-contained HTML (inline styles, no external assets) for printing or
+ * sending to the supplier
+ */
+export function renderPurchaseOrderHtml(po: PurchaseOrderDocument): string {
+  const { company } = po;
+  const companyLines = [company.address, company.phone, company.email]
+    .filter((line): line is string => !!line)
+    .map(line => `<div>${escapeHtml(line)}</div>`)
+    .join('');
+
+  const rows = po.lines.map(line => {
+    const packageNote = line.packages !== null && line.unitsPerPackage
+      ? `<div class="muted">${line.packages} × ${formatQuantity(line.unitsPerPackage)}</div>`
+      : '';
+    return `<tr>
+      <td>${escapeHtml(line.materialName)}</td>
+      <td>${line.supplierSku ? escapeHtml(line.supplierSku) : ''}</td>
+      <td class="num">${formatQuantity(line.quantityOrdered)} ${escapeHtml(line.unitLabel)}${packageNote}</td>
+      <td class="num">${formatCurrency(line.unitCost)}</td>
+      <td class="num">${formatCurrency(line.lineTotal)}</td>
+    </tr>`;
+  }).join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(po.poNumber)}</title>
+<style>
+  body { font-family: Arial, Helvetica, sans-serif; color: #111827; margin: 32px; font-size: 13px; }
+  h1 { font-size: 22px; margin: 0 0 4px; }
+  .header { display: flex; justify-content: space-between; margin-bottom: 24px; }
+  .muted { color: #6b7280; font-size: 11px; }
+  table { width: 100%; border-collapse: collapse; margin-top: 16px; }
+  th { text-align: left; border-bottom: 2px solid #111827; padding: 6px 4px; }
+  td { border-bottom: 1px solid #e5e7eb; padding: 6px 4px; vertical-align: top; }
+  .num { text-align: right; }
+  .total td { border-bottom: none; font-weight: bold; }
+  @media print { body { margin: 0; } }
+</style>
+</head>
+<body>
+  <div class="header">
+    <div>
+      <h1>${escapeHtml(company.name)}</h1>
+      ${companyLines}
+    </div>
+    <div style="text-align: right">
+      <h1>Purchase Order</h1>
+      <div><strong>${escapeHtml(po.poNumber)}</strong></div>
+      <div>${escapeHtml(new Date(po.createdAt).toLocaleDateString('en-US'))}</div>
+      <div class="muted">${escapeHtml(po.status.toUpperCase())}</div>
+    </div>
+  </div>
+  <div><strong>Supplier:</strong> ${escapeHtml(po.supplierName ?? 'Unassigned')}</div>
+  ${po.jobNumbers.length > 0 ? `<div><strong>Jobs:</strong> ${po.jobNumbers.map(escapeHtml).join(', ')}</div>` : ''}
+  <table>
+    <thead>
+      <tr><th>Material</th><th>SKU</th><th class="num">Quantity</th><th class="num">Unit price</th><th class="num">Total</th></tr>
+    </thead>
+    <tbody>
+      ${rows}
+      <tr class="total"><td colspan="4" class="num">Subtotal</td><td class="num">${formatCurrency(po.subtotal)}</td></tr>
+    </tbody>
+  </table>
+  ${po.notes ? `<p>${escapeHtml(po.notes)}</p>` : ''}
+</body>
+</html>`;
+}
@@ -0,0 +1,618 @@
+/**
+ * Quote Document
+ *
+ * The customer-facing quote for a job in 'quote' status, as HTML (print,
+ * email body) or PDF (attachment). Both are built offline from one
+ * QuoteDocument - no fonts, images or scripts are fetched:
+ *
+ *   branding  - logo, primary color, address and phone from onboarding
+ *               (BrandingConfig). Only data: URL logos are embedded; a
+ *               hosted logo would need a request, so it's left out.
+ *   lines     - selected job_services lines (unselected Good / Better /
+ *               Best alternatives listed separately, not in the total),
+ *               plus travel and delivery when the job has them. Sizes
+ *               follow the line's calculation_data.unitSystem
+ *   materials - optional per-line material names and quantities from
+ *               tier2Results.materialBreakdown (no material costs)
+ *   totals    - subtotal, sales tax, total
+ *   terms, valid-until date and a signature block
+ *
+ * The PDF is a minimal PDF 1.4 writer: Helvetica text, the brand color bar
+ * and rules, paged onto US Letter. The logo appears in HTML only.
+ */
+
+import type { BrandingConfig } from '../../stores/onboardingStore';
+import type { JobWithDetails } from '../../types/crm';
+import { escapeHtml } from '../../utils/html';
+import { DEFAULT_UNIT_SYSTEM, formatQuantity } from './unit-system';
+
+export const DEFAULT_QUOTE_VALID_DAYS = 30;
+
+export const DEFAULT_QUOTE_TERMS = [
+  'Prices are valid until the date shown and include labor, materials and disposal unless noted.',
+  'A 50% deposit is due on acceptance to schedule the work; the balance is due on completion.',
+  'Changes to the scope after acceptance are quoted separately.',
+  'Material quantities are estimates - final colors and products are confirmed before ordering.'
+].join('\n');
+
+const DEFAULT_PRIMARY_COLOR = '#3B82F6';
+
+export interface QuoteMaterialLine {
+  category: string;                  // Category label, e.g. 'Base Rock'
+  materialName: string;
+  quantity: string;                  // "6.1 sections (48.4 linear feet)"
+}
+
+export interface QuoteLine {
+  description: string;
+  details: string | null;            // Service description or notes
+  quantity: string | null;           // "450 sqft"
+  amount: number;
+  materials: QuoteMaterialLine[];
+}
+
+export interface QuoteAlternative {
+  description: string;
+  amount: number;
+}
+
+export interface QuoteDocument {
+  quoteNumber: string;
+  title: string;
+  issuedDate: string;                // YYYY-MM-DD
+  validUntil: string;                // YYYY-MM-DD
+  company: {
+    name: string;
+    email?: string | null;
+    address: string | null;
+    phone: string | null;
+    logoUrl: string | null;          // data: URL or null
+    primaryColor: string;            // #RRGGBB
+  };
+  customer: {
+    name: string;
+    email: string | null;
+    phone: string | null;
+    address: string | null;
+  };
+  serviceAddress: string | null;
+  lines: QuoteLine[];
+  alternatives: QuoteAlternative[];
+  subtotal: number;
+  tax: number;
+  total: number;
+  terms: string;
+}
+
+export interface QuoteDocumentOptions {
+  company: { name: string; email?: string | null; address?: string | null; phone?: string | null };
+  branding?: Partial<BrandingConfig> | null;   // Address and phone override the company's
+  issuedAt?: Date;                   // Defaults to job.quote_sent_at, then now
+  terms?: string | null;
+  includeMaterials?: boolean;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const isoDate = (date: Date) => date.toISOString().slice(0, 10);
+
+const formatCurrency = (value: number) =>
+  value.toLocaleString('en-US', { style: 'currency', currency: 'USD' });
+
+const formatNumber = (value: number) =>
+  value.toLocaleString('en-US', { maximumFractionDigits: 2 });
+
+// 'YYYY-MM-DD' as 'March 3, 2026' without a timezone shift
+const formatDate = (value: string) =>
+  new Date(`${value.slice(0, 10)}T12:00:00Z`).toLocaleDateString('en-US', {
+    year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC'
+  });
+
+function normalizeColor(color: string | null | undefined): string {
+  return color && /^#[0-9a-f]{6}$/i.test(color) ? color.toUpperCase() : DEFAULT_PRIMARY_COLOR;
+}
+
+/**
+ * Everything the quote shows, from the job as JobService.getJob returns it
+ */
+export function buildQuoteDocument(job: JobWithDetails, options: QuoteDocumentOptions): QuoteDocument {
+  const branding = options.branding ?? {};
+  const issued = options.issuedAt ?? (job.quote_sent_at ? new Date(job.quote_sent_at) : new Date());
+  const validUntil = job.quote_valid_until
+    ? job.quote_valid_until.slice(0, 10)
+    : isoDate(new Date(issued.getTime() + DEFAULT_QUOTE_VALID_DAYS * 24 * 60 * 60 * 1000));
+
+  const services = job.services ?? [];
+  const selected = services.filter(service => service.is_selected_option !== false);
+
+  const lines: QuoteLine[] = selected.map(service => {
+    const calculation = service.calculation_data;
+    const unit = calculation?.unit;
+    const quantity = Number(service.quantity);
+    const categories = options.includeMaterials
+      ? calculation?.tier2Results?.materialBreakdown?.categories ?? []
+      : [];
+
+    return {
+      description: service.option_label
+        ? `${service.service_name} - ${service.option_label}`
+        : service.service_name,
+      details: service.service_description || service.notes || null,
+      // In the units the line was priced for - m² for a metric company
+      quantity: quantity > 0
+        ? unit
+          ? formatQuantity(round2(quantity), unit, calculation?.unitSystem ?? DEFAULT_UNIT_SYSTEM)
+          : formatNumber(quantity)
+        : null,
+      amount: round2(Number(service.total_price) || 0),
+      materials: categories.map(category => ({
+        category: category.categoryLabel,
+        materialName: category.materialName,
+        quantity: category.quantities.quantityDisplay
+      }))
+    };
+  });
+
+  if (Number(job.travel_cost) > 0) {
+    lines.push({ description: 'Travel', details: null, quantity: null, amount: round2(Number(job.travel_cost)), materials: [] });
+  }
+  if (Number(job.delivery_cost) > 0) {
+    const loads = job.delivery_details?.totalLoads ?? 0;
+    lines.push({
+      description: 'Material delivery',
+      details: null,
+      quantity: loads > 0 ? `${loads} ${loads === 1 ? 'load' : 'loads'}` : null,
+      amount: round2(Number(job.delivery_cost)),
+      materials: []
+    });
+  }
+
+  const alternatives = services
+    .filter(service => service.is_selected_option === false)
+    .map(service => ({
+      description: service.option_label
+        ? `${service.service_name} - ${service.option_label}`
+        : service.service_name,
+      amount: round2(Number(service.total_price) || 0)
+    }));
+
+  const subtotal = round2(lines.reduce((sum, line) => sum + line.amount, 0));
+  const tax = round2(Number(job.tax_total) || 0);
+  const serviceAddress = [job.service_address, job.service_city, [job.service_state, job.service_zip].filter(Boolean).join(' ')]
+    .filter(Boolean)
+    .join(', ');
+
+  return {
+    quoteNumber: job.job_number,
+    title: job.title,
+    issuedDate: isoDate(issued),
+    validUntil,
+    company: {
+      name: options.company.name,
+      email: options.company.email ?? null,
+      address: branding.business_address || options.company.address || null,
+      phone: branding.business_phone || options.company.phone || null,
+      logoUrl: branding.logo_url?.startsWith('data:image/') ? branding.logo_url : null,
+      primaryColor: normalizeColor(branding.primary_color)
+    },
+    customer: {
+      name: job.customer?.customer_name ?? '',
+      email: job.customer?.customer_email ?? null,
+      phone: job.customer?.customer_phone ?? null,
+      address: job.customer?.customer_address ?? null
+    },
+    serviceAddress: serviceAddress || null,
+    lines,
+    alternatives,
+    subtotal,
+    tax,
+    total: round2(subtotal + tax),
+    terms: options.terms?.trim() || DEFAULT_QUOTE_TERMS
+  };
+}
+
+// ---------------------------------------------------------------------
+// HTML
+// ---------------------------------------------------------------------
+
+/**
+ * Self-contained HTML (inline styles, embedded logo) for printing or
+ * sending to the customer
+ */
+export function renderQuoteHtml(quote: QuoteDocument): string {
+  const { company, customer } = quote;
+  const color = company.primaryColor;
+
+  const companyLines = [company.address, company.phone, company.email]
+    .filter((line): line is string => !!line)
+    .map(line => `<div>${escapeHtml(line)}</div>`)
+    .join('');
+  const customerLines = [customer.address, customer.phone, customer.email]
+    .filter((line): line is string => !!line)
+    .map(line => `<div>${escapeHtml(line)}</div>`)
+    .join('');
+
+  const rows = quote.lines.map(line => {
+    const details = line.details ? `<div class="muted">${escapeHtml(line.details)}</div>` : '';
+    const materials = line.materials.length > 0
+      ? `<ul class="materials">${line.materials.map(material =>
+        `<li>${escapeHtml(material.category)}: ${escapeHtml(material.materialName)} - ${escapeHtml(material.quantity)}</li>`
+      ).join('')}</ul>`
+      : '';
+    return `<tr>
+      <td>${escapeHtml(line.description)}${details}${materials}</td>
+      <td class="num">${line.quantity ? escapeHtml(line.quantity) : ''}</td>
+      <td class="num">${formatCurrency(line.amount)}</td>
+    </tr>`;
+  }).join('');
+
+  const alternatives = quote.alternatives.length > 0
+    ? `<h2>Other options</h2>
+  <table>
+    <tbody>
+      ${quote.alternatives.map(option => `<tr><td>${escapeHtml(option.description)}</td><td class="num">${formatCurrency(option.amount)}</td></tr>`).join('')}
+    </tbody>
+  </table>
+  <p class="muted">Not included in the total above. Ask us to swap an option in.</p>`
+    : '';
+
+  const terms = quote.terms
+    .split('\n')
+    .filter(line => line.trim())
+    .map(line => `<li>${escapeHtml(line.trim())}</li>`)
+    .join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Quote ${escapeHtml(quote.quoteNumber)}</title>
+<style>
+  body { font-family: Arial, Helvetica, sans-serif; color: #111827; margin: 32px; font-size: 13px; }
+  h1 { font-size: 22px; margin: 0 0 4px; }
+  h2 { font-size: 15px; margin: 24px 0 4px; color: ${color}; }
+  .brand { border-top: 6px solid ${color}; padding-top: 16px; }
+  .header { display: flex; justify-content: space-between; margin-bottom: 24px; }
+  .logo { max-height: 64px; max-width: 200px; margin-bottom: 8px; }
+  .parties { display: flex; gap: 48px; margin-bottom: 8px; }
+  .muted { color: #6b7280; font-size: 11px; }
+  table { width: 100%; border-collapse: collapse; margin-top: 16px; }
+  th { text-align: left; border-bottom: 2px solid ${color}; padding: 6px 4px; }
+  td { border-bottom: 1px solid #e5e7eb; padding: 6px 4px; vertical-align: top; }
+  .num { text-align: right; white-space: nowrap; }
+  .materials { margin: 4px 0 0; padding-left: 16px; color: #4b5563; font-size: 11px; }
+  .total td { border-bottom: none; }
+  .grand td { font-weight: bold; font-size: 15px; border-top: 2px solid ${color}; }
+  .signatures { display: flex; gap: 48px; margin-top: 48px; }
+  .signature { flex: 1; }
+  .line { border-bottom: 1px solid #111827; height: 32px; }
+  @media print { body { margin: 0; } }
+</style>
+</head>
+<body class="brand">
+  <div class="header">
+    <div>
+      ${company.logoUrl ? `<img class="logo" src="${escapeHtml(company.logoUrl)}" alt="${escapeHtml(company.name)}">` : ''}
+      <h1>${escapeHtml(company.name)}</h1>
+      ${companyLines}
+    </div>
+    <div style="text-align: right">
+      <h1 style="color: ${color}">Quote</h1>
+      <div><strong>${escapeHtml(quote.quoteNumber)}</strong></div>
+      <div>Date: ${escapeHtml(formatDate(quote.issuedDate))}</div>
+      <div><strong>Valid until: ${escapeHtml(formatDate(quote.validUntil))}</strong></div>
+    </div>
+  </div>
+  <div class="parties">
+    <div>
+      <div class="muted">PREPARED FOR</div>
+      <div><strong>${escapeHtml(customer.name)}</strong></div>
+      ${customerLines}
+    </div>
+    ${quote.serviceAddress ? `<div>
+      <div class="muted">PROJECT ADDRESS</div>
+      <div>${escapeHtml(quote.serviceAddress)}</div>
+    </div>` : ''}
+  </div>
+  <h2>${escapeHtml(quote.title)}</h2>
+  <table>
+    <thead>
+      <tr><th>Description</th><th class="num">Quantity</th><th class="num">Amount</th></tr>
+    </thead>
+    <tbody>
+      ${rows}
+      <tr class="total"><td colspan="2" class="num">Subtotal</td><td class="num">${formatCurrency(quote.subtotal)}</td></tr>
+      ${quote.tax > 0 ? `<tr class="total"><td colspan="2" class="num">Sales tax</td><td class="num">${formatCurrency(quote.tax)}</td></tr>` : ''}
+      <tr class="grand"><td colspan="2" class="num">Total</td><td class="num">${formatCurrency(quote.total)}</td></tr>
+    </tbody>
+  </table>
+  ${alternatives}
+  <h2>Terms</h2>
+  <ul>${terms}</ul>
+  <div class="signatures">
+    <div class="signature">
+      <div class="line"></div>
+      <div>Customer signature</div>
+    </div>
+    <div class="signature">
+      <div class="line"></div>
+      <div>Date</div>
+    </div>
+  </div>
+  <p class="muted">By signing, you accept this quote and its terms.</p>
+</body>
+</html>`;
+}
+
+// ---------------------------------------------------------------------
+// PDF
+// ---------------------------------------------------------------------
+
+const PAGE_WIDTH = 612;              // US Letter, points
+const PAGE_HEIGHT = 792;
+const MARGIN = 48;
+const AMOUNT_RIGHT = PAGE_WIDTH - MARGIN;
+const QUANTITY_RIGHT = AMOUNT_RIGHT - 110;
+
+// Helvetica advance widths (1/1000 em) for right-aligned text; other
+// characters use the digit width, close enough for names and units
+const HELVETICA_WIDTHS: Record<string, number> = {
+  ' ': 278, ',': 278, '.': 278, '-': 333, '(': 333, ')': 333, '/': 278, ':': 278,
+  i: 222, l: 222, j: 222, f: 278, t: 278, r: 333, m: 833, w: 722, M: 833, W: 944
+};
+
+function textWidth(text: string, size: number): number {
+  let units = 0;
+  for (const char of text) units += HELVETICA_WIDTHS[char] ?? 556;
+  return (units / 1000) * size;
+}
+
+// WinAnsi string literal - characters outside Latin-1 become '?'
+function pdfString(text: string): string {
+  const latin1 = text
+    .replace(/[–—−]/g, '-')
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[^\x20-\xFF]/g, '?');
+  return `(${latin1.replace(/\\/g, '\\\\').replace(/\(/g, '\\(').replace(/\)/g, '\\)')})`;
+}
+
+function wrapText(text: string, size: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let current = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const next = current ? `${current} ${word}` : word;
+      if (current && textWidth(next, size) > maxWidth) {
+        lines.push(current);
+        current = word;
+      } else {
+        current = next;
+      }
+    }
+    if (current) lines.push(current);
+  }
+  return lines;
+}
+
+function hexToRgb(hex: string): string {
+  const value = parseInt(hex.slice(1), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255]
+    .map(channel => (channel / 255).toFixed(3))
+    .join(' ');
+}
+
+/**
+ * Collects drawing operators page by page, starting a new page when the
+ * next block doesn't fit
+ */
+class PdfLayout {
+  pages: string[][] = [[]];
+  y = PAGE_HEIGHT - MARGIN;
+
+  constructor(private brandRgb: string) {
+    this.drawBrandBar();
+  }
+
+  private get ops() {
+    return this.pages[this.pages.length - 1];
+  }
+
+  private drawBrandBar() {
+    this.ops.push(`${this.brandRgb} rg 0 ${PAGE_HEIGHT - 12} ${PAGE_WIDTH} 12 re f 0 0 0 rg`);
+  }
+
+  ensureSpace(height: number) {
+    if (this.y - height >= MARGIN) return;
+    this.pages.push([]);
+    this.y = PAGE_HEIGHT - MARGIN;
+    this.drawBrandBar();
+  }
+
+  text(x: number, y: number, text: string, size: number, options: { bold?: boolean; rgb?: string; right?: boolean } = {}) {
+    const left = options.right ? x - textWidth(text, size) : x;
+    const color = options.rgb ?? '0 0 0';
+    this.ops.push(`BT /${options.bold ? 'F2' : 'F1'} ${size} Tf ${color} rg ${left.toFixed(2)} ${y.toFixed(2)} Td ${pdfString(text)} Tj ET 0 0 0 rg`);
+  }
+
+  line(x1: number, y: number, x2: number, width = 0.5, rgb = '0 0 0') {
+    this.ops.push(`${rgb} RG ${width} w ${x1.toFixed(2)} ${y.toFixed(2)} m ${x2.toFixed(2)} ${y.toFixed(2)} l S`);
+  }
+
+  /** Full-width rule */
+  rule(y: number, width = 0.5, rgb = '0.898 0.906 0.922') {
+    this.line(MARGIN, y, PAGE_WIDTH - MARGIN, width, rgb);
+  }
+
+  /** Wrapped paragraph at the cursor */
+  paragraph(text: string, size: number, options: { x?: number; maxWidth?: number; bold?: boolean; rgb?: string } = {}) {
+    const x = options.x ?? MARGIN;
+    const lines = wrapText(text, size, options.maxWidth ?? PAGE_WIDTH - MARGIN - x);
+    for (const line of lines) {
+      this.ensureSpace(size + 4);
+      this.y -= size + 4;
+      this.text(x, this.y, line, size, options);
+    }
+  }
+}
+
+function serializePdf(pages: string[][]): string {
+  const objects: string[] = [];
+  const fontOffset = 3;
+  const pageOffset = 5;
+  const pageIds = pages.map((_, index) => pageOffset + index * 2);
+
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+  objects[fontOffset] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+  objects[fontOffset + 1] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+
+  pages.forEach((ops, index) => {
+    const pageId = pageIds[index];
+    const content = ops.join('\n');
+    objects[pageId] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 ${fontOffset} 0 R /F2 ${fontOffset + 1} 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+    objects[pageId + 1] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+  });
+
+  let pdf = '%PDF-1.4\n%\xE2\xE3\xCF\xD3\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = pdf.length;
+    pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    pdf += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return pdf;
+}
+
+/**
+ * PDF bytes of the quote (one character per byte, Latin-1)
+ */
+export function renderQuotePdf(quote: QuoteDocument): Uint8Array {
+  const { company, customer } = quote;
+  const brandRgb = hexToRgb(company.primaryColor);
+  const mutedRgb = '0.420 0.447 0.502';
+  const layout = new PdfLayout(brandRgb);
+
+  // Header: company left, quote number and dates right
+  const top = layout.y;
+  layout.text(MARGIN, top - 18, company.name, 18, { bold: true });
+  let left = top - 18;
+  for (const line of [company.address, company.phone, company.email]) {
+    if (!line) continue;
+    left -= 13;
+    layout.text(MARGIN, left, line, 10, { rgb: mutedRgb });
+  }
+  layout.text(AMOUNT_RIGHT, top - 18, 'QUOTE', 18, { bold: true, rgb: brandRgb, right: true });
+  layout.text(AMOUNT_RIGHT, top - 32, quote.quoteNumber, 10, { bold: true, right: true });
+  layout.text(AMOUNT_RIGHT, top - 45, `Date: ${formatDate(quote.issuedDate)}`, 10, { right: true });
+  layout.text(AMOUNT_RIGHT, top - 58, `Valid until: ${formatDate(quote.validUntil)}`, 10, { bold: true, right: true });
+  layout.y = Math.min(left, top - 58) - 24;
+
+  // Customer and project address
+  const partiesTop = layout.y;
+  layout.text(MARGIN, partiesTop, 'PREPARED FOR', 8, { rgb: mutedRgb });
+  layout.text(MARGIN, partiesTop - 13, customer.name, 11, { bold: true });
+  let customerY = partiesTop - 13;
+  for (const line of [customer.address, customer.phone, customer.email]) {
+    if (!line) continue;
+    customerY -= 13;
+    layout.text(MARGIN, customerY, line, 10);
+  }
+  let addressY = partiesTop;
+  if (quote.serviceAddress) {
+    layout.text(PAGE_WIDTH / 2, partiesTop, 'PROJECT ADDRESS', 8, { rgb: mutedRgb });
+    const addressLines = wrapText(quote.serviceAddress, 10, PAGE_WIDTH / 2 - MARGIN);
+    addressLines.forEach((line, index) => layout.text(PAGE_WIDTH / 2, partiesTop - 13 * (index + 1), line, 10));
+    addressY = partiesTop - 13 * addressLines.length;
+  }
+  layout.y = Math.min(customerY, addressY) - 24;
+
+  // Line items
+  layout.paragraph(quote.title, 13, { bold: true, rgb: brandRgb });
+  layout.ensureSpace(24);
+  layout.y -= 18;
+  layout.text(MARGIN, layout.y, 'Description', 10, { bold: true });
+  layout.text(QUANTITY_RIGHT, layout.y, 'Quantity', 10, { bold: true, right: true });
+  layout.text(AMOUNT_RIGHT, layout.y, 'Amount', 10, { bold: true, right: true });
+  layout.y -= 6;
+  layout.rule(layout.y, 1.5, brandRgb);
+
+  const descriptionWidth = QUANTITY_RIGHT - 90 - MARGIN;
+  for (const line of quote.lines) {
+    const description = wrapText(line.description, 10, descriptionWidth);
+    layout.ensureSpace(14 * description.length + 8);
+    layout.y -= 14;
+    layout.text(MARGIN, layout.y, description[0] ?? '', 10);
+    if (line.quantity) layout.text(QUANTITY_RIGHT, layout.y, line.quantity, 10, { right: true });
+    layout.text(AMOUNT_RIGHT, layout.y, formatCurrency(line.amount), 10, { right: true });
+    for (const more of description.slice(1)) {
+      layout.y -= 14;
+      layout.text(MARGIN, layout.y, more, 10);
+    }
+    if (line.details) layout.paragraph(line.details, 8, { maxWidth: descriptionWidth, rgb: mutedRgb });
+    for (const material of line.materials) {
+      layout.paragraph(`${material.category}: ${material.materialName} - ${material.quantity}`, 8, {
+        x: MARGIN + 10,
+        maxWidth: descriptionWidth,
+        rgb: mutedRgb
+      });
+    }
+    layout.y -= 6;
+    layout.rule(layout.y);
+  }
+
+  // Totals
+  const totals: Array<[string, number, boolean]> = [['Subtotal', quote.subtotal, false]];
+  if (quote.tax > 0) totals.push(['Sales tax', quote.tax, false]);
+  totals.push(['Total', quote.total, true]);
+  layout.ensureSpace(16 * totals.length + 8);
+  for (const [label, amount, bold] of totals) {
+    layout.y -= 16;
+    const size = bold ? 12 : 10;
+    layout.text(QUANTITY_RIGHT, layout.y, label, size, { bold, right: true });
+    layout.text(AMOUNT_RIGHT, layout.y, formatCurrency(amount), size, { bold, right: true });
+  }
+
+  if (quote.alternatives.length > 0) {
+    layout.y -= 12;
+    layout.ensureSpace(40);
+    layout.paragraph('Other options', 12, { bold: true, rgb: brandRgb });
+    for (const option of quote.alternatives) {
+      layout.ensureSpace(14);
+      layout.y -= 14;
+      layout.text(MARGIN, layout.y, option.description, 10);
+      layout.text(AMOUNT_RIGHT, layout.y, formatCurrency(option.amount), 10, { right: true });
+    }
+    layout.paragraph('Not included in the total above. Ask us to swap an option in.', 8, { rgb: mutedRgb });
+  }
+
+  // Terms
+  layout.y -= 12;
+  layout.ensureSpace(40);
+  layout.paragraph('Terms', 12, { bold: true, rgb: brandRgb });
+  for (const term of quote.terms.split('\n').filter(line => line.trim())) {
+    layout.paragraph(`- ${term.trim()}`, 9);
+  }
+
+  // Signature block - kept together on one page
+  layout.ensureSpace(90);
+  layout.y -= 56;
+  const half = (PAGE_WIDTH - 2 * MARGIN) / 2;
+  layout.line(MARGIN, layout.y, MARGIN + half - 24);
+  layout.line(MARGIN + half + 24, layout.y, PAGE_WIDTH - MARGIN);
+  layout.text(MARGIN, layout.y - 12, 'Customer signature', 9);
+  layout.text(MARGIN + half + 24, layout.y - 12, 'Date', 9);
+  layout.text(MARGIN, layout.y - 30, 'By signing, you accept this quote and its terms.', 8, { rgb: mutedRgb });
+
+  const pdf = serializePdf(layout.pages);
+  const bytes = new Uint8Array(pdf.length);
+  for (let i = 0; i < pdf.length; i++) bytes[i] = pdf.charCodeAt(i) & 0xff;
+  return bytes;
+}
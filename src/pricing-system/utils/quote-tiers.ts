@@ -0,0 +1,167 @@
+/**
+ * Good / Better / Best Quote Tiers
+ *
+ * Derives one pricing input per tier from a base input and a tier recipe.
+ * JobService prices the derived inputs and stores them as alternatives on
+ * the quote.
+ *
+ * A tier's variableOverrides are merged over the base input per category.
+ * A tier's materialGrade picks, in every material category, the material
+ * with that ServiceMaterial.material_grade (defaults first). Categories
+ * without a material of that grade keep the base selection.
+ */
+
+import type { MaterialsByCategory } from '../../types/materials';
+import type { DerivedQuoteTier, QuoteTierDefinition } from '../../types/quote-tiers';
+
+/**
+ * Used when a company has no recipe for the service
+ */
+export const DEFAULT_QUOTE_TIERS: QuoteTierDefinition[] = [
+  {
+    key: 'good',
+    label: 'Good',
+    description: 'Standard pavers and economy materials',
+    materialGrade: 'Economy',
+    variableOverrides: {
+      materials: { paverStyle: 'standard' },
+      serviceIntegrations: { includeExcavation: false }
+    }
+  },
+  {
+    key: 'better',
+    label: 'Better',
+    description: 'Standard pavers with excavation included',
+    materialGrade: 'Standard',
+    variableOverrides: {
+      materials: { paverStyle: 'standard' },
+      serviceIntegrations: { includeExcavation: true }
+    }
+  },
+  {
+    key: 'best',
+    label: 'Best',
+    description: 'Premium pavers and materials with excavation included',
+    materialGrade: 'Premium',
+    variableOverrides: {
+      materials: { paverStyle: 'premium' },
+      serviceIntegrations: { includeExcavation: true }
+    }
+  }
+];
+
+export const DEFAULT_RECOMMENDED_TIER = 'better';
+
+const MAX_TIERS = 5;
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Validate a recipe's tiers, returns an error message or null
+ */
+export function validateQuoteTiers(tiers: unknown, recommendedTier?: string | null): string | null {
+  if (!Array.isArray(tiers) || tiers.length === 0) {
+    return 'A recipe needs at least one tier';
+  }
+  if (tiers.length > MAX_TIERS) {
+    return `A recipe can have at most ${MAX_TIERS} tiers`;
+  }
+
+  const keys = new Set<string>();
+  for (const tier of tiers) {
+    if (!isPlainObject(tier) || typeof tier.key !== 'string' || !tier.key.trim()) {
+      return 'Every tier needs a key';
+    }
+    if (typeof tier.label !== 'string' || !tier.label.trim()) {
+      return `Tier "${tier.key}" needs a label`;
+    }
+    if (keys.has(tier.key)) {
+      return `Duplicate tier key "${tier.key}"`;
+    }
+    if (tier.variableOverrides !== undefined &&
+        (!isPlainObject(tier.variableOverrides) || !Object.values(tier.variableOverrides).every(isPlainObject))) {
+      return `Tier "${tier.key}" overrides must map categories to variables`;
+    }
+    keys.add(tier.key);
+  }
+
+  if (recommendedTier && !keys.has(recommendedTier)) {
+    return `Recommended tier "${recommendedTier}" is not in the recipe`;
+  }
+  return null;
+}
+
+/**
+ * Tier selected on the quote when options are generated
+ * The recipe's recommended tier, else 'better', else the middle tier
+ */
+export function resolveRecommendedTier(tiers: QuoteTierDefinition[], recommendedTier?: string | null): string {
+  const keys = tiers.map(tier => tier.key);
+  if (recommendedTier && keys.includes(recommendedTier)) return recommendedTier;
+  if (keys.includes(DEFAULT_RECOMMENDED_TIER)) return DEFAULT_RECOMMENDED_TIER;
+  return keys[Math.floor((keys.length - 1) / 2)];
+}
+
+/**
+ * Material per category for a grade (case-insensitive)
+ *
+ * @param materialsByCategory - Materials ordered defaults first (fetchAllMaterialsForService)
+ */
+export function selectMaterialsByGrade(
+  materialsByCategory: MaterialsByCategory,
+  grade: string
+): { selectedMaterials: Record<string, string>; unmatchedCategories: string[] } {
+  const wanted = grade.trim().toLowerCase();
+  const selectedMaterials: Record<string, string> = {};
+  const unmatchedCategories: string[] = [];
+
+  for (const [categoryKey, materials] of Object.entries(materialsByCategory)) {
+    const match = materials.find(material => material.material_grade?.trim().toLowerCase() === wanted);
+    if (match) {
+      selectedMaterials[categoryKey] = match.id;
+    } else {
+      unmatchedCategories.push(categoryKey);
+    }
+  }
+
+  return { selectedMaterials, unmatchedCategories };
+}
+
+/**
+ * Pricing input for one tier
+ */
+export function deriveTierValues(
+  baseValues: Record<string, any>,
+  tier: QuoteTierDefinition,
+  materialsByCategory?: MaterialsByCategory | null
+): DerivedQuoteTier {
+  const pricingVariables: Record<string, any> = { ...baseValues };
+
+  for (const [category, overrides] of Object.entries(tier.variableOverrides ?? {})) {
+    pricingVariables[category] = {
+      ...(isPlainObject(baseValues[category]) ? baseValues[category] : {}),
+      ...overrides
+    };
+  }
+
+  let unmatchedGradeCategories: string[] = [];
+  if (tier.materialGrade && materialsByCategory) {
+    const graded = selectMaterialsByGrade(materialsByCategory, tier.materialGrade);
+    pricingVariables.selectedMaterials = { ...baseValues.selectedMaterials, ...graded.selectedMaterials };
+    unmatchedGradeCategories = graded.unmatchedCategories;
+  }
+
+  return { tier, pricingVariables, unmatchedGradeCategories };
+}
+
+/**
+ * Pricing inputs for every tier of a recipe, in recipe order
+ */
+export function deriveQuoteTiers(
+  baseValues: Record<string, any>,
+  tiers: QuoteTierDefinition[],
+  materialsByCategory?: MaterialsByCategory | null
+): DerivedQuoteTier[] {
+  return tiers.map(tier => deriveTierValues(baseValues, tier, materialsByCategory));
+}
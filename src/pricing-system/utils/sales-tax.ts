@@ -0,0 +1,175 @@
+/**
+ * Sales Tax Helpers
+ *
+ * Splits an engine result into taxable components, picks the company's
+ * jurisdiction for a service location and produces tax lines. Rates
+ * come from the tax_jurisdictions table.
+ *
+ * Profit is not a separate taxable item: the markup is carried on the
+ * components it was charged on (labor, materials, excavation), so a
+ * component's taxable amount is its selling price. Equipment and obstacle
+ * removal are pass-through costs with no markup. Volume discounts and
+ * minimum-charge top-ups are likewise spread over the marked-up components.
+ *
+ * Bundled services (service-bundles.ts) are split into the same components:
+ * 'parent' bundles share the parent's markup, 'linked' bundles carry their
+ * own, 'none' bundles are at cost. The shared mobilization is 'other'.
+ */
+
+import type { Tier2Results } from '../core/calculations/master-pricing-engine';
+import type {
+  TaxComponent,
+  TaxJurisdiction,
+  TaxLocation,
+  TaxableAmounts,
+  TaxLine,
+  SalesTaxResult
+} from '../../types/tax';
+
+export const TAX_COMPONENTS: Array<{ component: TaxComponent; label: string }> = [
+  { component: 'labor', label: 'Labor' },
+  { component: 'materials', label: 'Materials' },
+  { component: 'excavation', label: 'Excavation' },
+  { component: 'equipment', label: 'Equipment' },
+  { component: 'obstacles', label: 'Obstacle Removal' },
+  { component: 'other', label: 'Other' }
+];
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+export function normalizeStateCode(state: string | null | undefined): string | null {
+  const code = state?.trim().toUpperCase();
+  return code && /^[A-Z]{2}$/.test(code) ? code : null;
+}
+
+export function normalizeZipCode(zip: string | null | undefined): string | null {
+  const digits = zip?.trim().match(/^(\d{5})(-\d{4})?$/);
+  return digits ? digits[1] : null;
+}
+
+/**
+ * Pick the jurisdiction for a service location
+ *
+ * Zip-level rate first (when the state matches or is unknown), then the
+ * state-wide rate. Returns null when the company has no matching rate.
+ */
+export function resolveTaxJurisdiction(
+  jurisdictions: TaxJurisdiction[],
+  location: TaxLocation
+): TaxJurisdiction | null {
+  const zip = normalizeZipCode(location.zip);
+  const state = normalizeStateCode(location.state);
+  const active = jurisdictions.filter(j => j.is_active);
+
+  if (zip) {
+    const zipMatch = active.find(j => j.zip_code === zip && (!state || j.state_code === state));
+    if (zipMatch) return zipMatch;
+  }
+
+  if (state) {
+    return active.find(j => j.state_code === state && !j.zip_code) ?? null;
+  }
+
+  return null;
+}
+
+/**
+ * Selling price per component for one priced line
+ * Shared mobilization is taxed as 'other' (as is the job's travel line)
+ */
+export function taxableAmountsFromTier2(tier2: Partial<Tier2Results>): TaxableAmounts {
+  const bundles = tier2.bundledServices ?? [];
+  const sharesParentMarkup = bundles.filter(bundle => bundle.profitTreatment === 'parent');
+
+  const labor = (tier2.laborCost ?? 0) + sharesParentMarkup.reduce((sum, b) => sum + b.costs.labor, 0);
+  const materials = (tier2.totalMaterialCost ?? 0) + sharesParentMarkup.reduce((sum, b) => sum + b.costs.materials, 0);
+  const excavation = (tier2.excavationCost ?? 0) + sharesParentMarkup.reduce((sum, b) => sum + b.costs.excavation, 0);
+  const markedUp = labor + materials + excavation;
+  // Volume discounts and minimum-charge top-ups adjust the markup
+  const realizedProfit = (tier2.profit ?? 0) - (tier2.volumeDiscount ?? 0) + (tier2.minimumChargeAdjustment ?? 0);
+  const markup = markedUp > 0 ? realizedProfit / markedUp : 0;
+
+  const amounts: Record<TaxComponent, number> = {
+    labor: labor * (1 + markup),
+    materials: materials * (1 + markup),
+    excavation: excavation * (1 + markup),
+    equipment: tier2.equipmentCost ?? 0,
+    obstacles: tier2.obstacleCost ?? 0,
+    other: tier2.bundleMobilization ?? 0
+  };
+
+  for (const bundle of bundles) {
+    const { costs } = bundle;
+    const ownMarkedUp = costs.labor + costs.materials + costs.excavation;
+    const ownMarkup = bundle.profitTreatment === 'linked' && ownMarkedUp > 0 ? bundle.profit / ownMarkedUp : 0;
+    if (bundle.profitTreatment !== 'parent') {
+      amounts.labor += costs.labor * (1 + ownMarkup);
+      amounts.materials += costs.materials * (1 + ownMarkup);
+      amounts.excavation += costs.excavation * (1 + ownMarkup);
+    }
+    amounts.equipment += costs.equipment;
+    amounts.obstacles += costs.obstacles;
+  }
+
+  const rounded: TaxableAmounts = {};
+  for (const [component, amount] of Object.entries(amounts) as Array<[TaxComponent, number]>) {
+    if (component !== 'other' || amount) rounded[component] = roundCents(amount);
+  }
+  return rounded;
+}
+
+/**
+ * Sum component amounts across lines
+ */
+export function addTaxableAmounts(...amounts: TaxableAmounts[]): TaxableAmounts {
+  const total: TaxableAmounts = {};
+  for (const entry of amounts) {
+    for (const { component } of TAX_COMPONENTS) {
+      if (entry[component]) {
+        total[component] = roundCents((total[component] ?? 0) + (entry[component] ?? 0));
+      }
+    }
+  }
+  return total;
+}
+
+export function isComponentTaxable(jurisdiction: TaxJurisdiction, component: TaxComponent): boolean {
+  return jurisdiction[`${component}_taxable`] === true;
+}
+
+/**
+ * Tax lines for the given amounts
+ *
+ * With no jurisdiction every line is returned untaxed, so callers can still
+ * show the component split.
+ */
+export function calculateSalesTax(
+  amounts: TaxableAmounts,
+  jurisdiction: TaxJurisdiction | null
+): SalesTaxResult {
+  const rate = jurisdiction ? Number(jurisdiction.rate) : 0;
+
+  const lines: TaxLine[] = TAX_COMPONENTS
+    .filter(({ component }) => (amounts[component] ?? 0) !== 0)
+    .map(({ component, label }) => {
+      const amount = roundCents(amounts[component] ?? 0);
+      const taxable = jurisdiction ? isComponentTaxable(jurisdiction, component) : false;
+      return {
+        component,
+        label,
+        amount,
+        taxable,
+        rate: taxable ? rate : 0,
+        tax: taxable ? roundCents(amount * rate) : 0
+      };
+    });
+
+  return {
+    jurisdictionId: jurisdiction?.id ?? null,
+    jurisdictionName: jurisdiction?.name ?? null,
+    rate,
+    lines,
+    taxableAmount: roundCents(lines.filter(line => line.taxable).reduce((sum, line) => sum + line.amount, 0)),
+    taxTotal: roundCents(lines.reduce((sum, line) => sum + line.tax, 0))
+  };
+}
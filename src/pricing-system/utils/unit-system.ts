@@ -0,0 +1,162 @@
+/**
+ * Unit System Helpers
+ *
+ * Pricing is computed and stored in imperial canonical units: square feet,
+ * linear feet, inches of depth, cubic yards and US tons. A company whose
+ * companies.unit_system is 'metric' (migration 32) enters and reads m², m,
+ * mm, m³ and tonnes - converted here, at the edges: the dimension parser,
+ * material quantity displays, the Quick Calculator and quote text.
+ *
+ * Conversions into canonical units are not rounded beyond the hundredth the
+ * dimension parser already keeps, so purchase-unit rounding (cubic yards to
+ * the tenth, etc.) happens exactly as it does for imperial input. Only values
+ * shown to people are rounded to display precision.
+ */
+
+export type UnitSystem = 'imperial' | 'metric';
+
+export type MeasurementKind = 'length' | 'area' | 'depth' | 'volume' | 'weight';
+
+export const DEFAULT_UNIT_SYSTEM: UnitSystem = 'imperial';
+
+export const UNIT_SYSTEMS: Array<{ value: UnitSystem; label: string }> = [
+  { value: 'imperial', label: 'Imperial (sq ft, ft, in, cu yd, tons)' },
+  { value: 'metric', label: 'Metric (m², m, mm, m³, tonnes)' }
+];
+
+/**
+ * Metric units per canonical unit (exact definitions)
+ */
+export const METRIC_PER_CANONICAL: Record<MeasurementKind, number> = {
+  length: 0.3048,                    // m per ft
+  area: 0.09290304,                  // m² per sq ft
+  depth: 25.4,                       // mm per inch
+  volume: 0.764554857984,            // m³ per cubic yard
+  weight: 0.90718474                 // tonnes per US ton
+};
+
+export const UNIT_LABELS: Record<UnitSystem, Record<MeasurementKind, string>> = {
+  imperial: { length: 'ft', area: 'sq ft', depth: 'in', volume: 'cu yd', weight: 'tons' },
+  metric: { length: 'm', area: 'm²', depth: 'mm', volume: 'm³', weight: 'tonnes' }
+};
+
+const DISPLAY_DECIMALS: Record<UnitSystem, Record<MeasurementKind, number>> = {
+  imperial: { length: 1, area: 0, depth: 1, volume: 1, weight: 1 },
+  metric: { length: 2, area: 1, depth: 0, volume: 2, weight: 2 }
+};
+
+// Registry units and material unit_type values that are plain measurements
+const UNIT_KINDS: Record<string, MeasurementKind> = {
+  sqft: 'area',
+  'sq ft': 'area',
+  'square feet': 'area',
+  square_foot: 'area',
+  'linear feet': 'length',
+  linear_feet: 'length',
+  linear_foot: 'length',
+  lnft: 'length',
+  lf: 'length',
+  feet: 'length',
+  inches: 'depth',
+  'cubic yards': 'volume',
+  cubic_yards: 'volume',
+  cubic_yard: 'volume',
+  tons: 'weight',
+  ton: 'weight'
+};
+
+/**
+ * Clean up a unit_system value from the database
+ */
+export function normalizeUnitSystem(raw: unknown): UnitSystem {
+  return raw === 'metric' ? 'metric' : DEFAULT_UNIT_SYSTEM;
+}
+
+/**
+ * Measurement kind of a registry unit or material unit_type, null for
+ * counts and packages (pieces, pallets, rolls...)
+ */
+export function measurementKindForUnit(unit: string | null | undefined): MeasurementKind | null {
+  return unit ? UNIT_KINDS[unit.trim().toLowerCase()] ?? null : null;
+}
+
+/**
+ * Canonical value → the company's units (unrounded)
+ */
+export function toDisplayUnits(value: number, kind: MeasurementKind, system: UnitSystem): number {
+  return system === 'metric' ? value * METRIC_PER_CANONICAL[kind] : value;
+}
+
+/**
+ * Value in the company's units → canonical (unrounded)
+ */
+export function toCanonicalUnits(value: number, kind: MeasurementKind, system: UnitSystem): number {
+  return system === 'metric' ? value / METRIC_PER_CANONICAL[kind] : value;
+}
+
+/**
+ * Canonical value in the company's units, rounded for display
+ */
+export function roundForDisplay(value: number, kind: MeasurementKind, system: UnitSystem, decimals?: number): number {
+  const factor = 10 ** (decimals ?? DISPLAY_DECIMALS[system][kind]);
+  return Math.round(toDisplayUnits(value, kind, system) * factor) / factor;
+}
+
+/**
+ * "29.7 m²" / "320 sq ft"
+ */
+export function formatMeasurement(value: number, kind: MeasurementKind, system: UnitSystem, decimals?: number): string {
+  const places = decimals ?? DISPLAY_DECIMALS[system][kind];
+  return `${roundForDisplay(value, kind, system, places).toFixed(places)} ${UNIT_LABELS[system][kind]}`;
+}
+
+/**
+ * Price per unit of a canonical quantity - "$12.40/m²"
+ */
+export function formatPricePerUnit(total: number, quantity: number, kind: MeasurementKind, system: UnitSystem): string {
+  const displayQuantity = toDisplayUnits(quantity, kind, system);
+  const perUnit = displayQuantity > 0 ? total / displayQuantity : 0;
+  return `$${perUnit.toFixed(2)}/${UNIT_LABELS[system][kind]}`;
+}
+
+/**
+ * Quantity with its unit for quote text - metric measurements convert,
+ * imperial keeps the registry wording, counts and packages are left as they are
+ */
+export function formatQuantity(quantity: number, unit: string, system: UnitSystem): string {
+  const kind = measurementKindForUnit(unit);
+  return kind && system === 'metric' ? formatMeasurement(quantity, kind, system) : `${quantity} ${unit}`;
+}
+
+/**
+ * Density label - "tons/cy" / "t/m³"
+ */
+export const DENSITY_LABELS: Record<UnitSystem, string> = {
+  imperial: 'tons/cy',
+  metric: 't/m³'
+};
+
+/**
+ * Tons per cubic yard → the company's density units (unrounded)
+ */
+export function toDisplayDensity(tonsPerCubicYard: number, system: UnitSystem): number {
+  return system === 'metric'
+    ? tonsPerCubicYard * METRIC_PER_CANONICAL.weight / METRIC_PER_CANONICAL.volume
+    : tonsPerCubicYard;
+}
+
+/**
+ * Density in the company's units → tons per cubic yard (unrounded)
+ */
+export function toCanonicalDensity(value: number, system: UnitSystem): number {
+  return system === 'metric'
+    ? value * METRIC_PER_CANONICAL.volume / METRIC_PER_CANONICAL.weight
+    : value;
+}
+
+/**
+ * "1.40 tons/cy" / "1.66 t/m³"
+ */
+export function formatDensity(tonsPerCubicYard: number, system: UnitSystem): string {
+  return `${toDisplayDensity(tonsPerCubicYard, system).toFixed(2)} ${DENSITY_LABELS[system]}`;
+}
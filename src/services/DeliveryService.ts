@@ -0,0 +1,261 @@
+/**
+ * Delivery Service - Supplier Truckloads
+ *
+ * Maintains supplier truck capacities and delivery fees (migration 39)
+ * and plans a job's materials into truckloads per supplier (see
+ * delivery-planning.ts). JobService adds the fees as one delivery line;
+ * ScheduleService moves the delivery dates when the job is scheduled.
+ *
+ * @module DeliveryService
+ */
+
+import { getSupabase } from './supabase';
+import { ServiceResponse } from '../types/customer';
+import type { MaterialCalculationResult } from '../types/materials';
+import type {
+  DeliveryPlan,
+  DeliveryRate,
+  SupplierDeliveryRate,
+  SupplierDeliveryRateInput
+} from '../types/delivery';
+import {
+  planDeliveries,
+  rescheduleDeliveries,
+  type DeliveryMaterial
+} from '../pricing-system/utils/delivery-planning';
+
+const MATERIAL_COLUMNS = 'id, material_name, supplier_name, unit_type, units_per_package, weight_lbs, density_tons_per_cubic_yard';
+
+export class DeliveryService {
+  private supabase = getSupabase();
+
+  /**
+   * Company delivery rates, default (no supplier) last
+   */
+  async getRates(companyId: string): Promise<ServiceResponse<SupplierDeliveryRate[]>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('supplier_delivery_rates')
+        .select('*')
+        .eq('company_id', companyId)
+        .order('supplier_name', { ascending: true, nullsFirst: false });
+
+      if (error) {
+        return this.error('Failed to load delivery rates', error);
+      }
+
+      return this.success((data || []) as SupplierDeliveryRate[]);
+    } catch (error: any) {
+      return this.error('Unexpected error loading delivery rates', error);
+    }
+  }
+
+  /**
+   * Create a rate, or update it when rateId is given
+   */
+  async saveRate(
+    companyId: string,
+    input: SupplierDeliveryRateInput,
+    rateId?: string
+  ): Promise<ServiceResponse<SupplierDeliveryRate>> {
+    try {
+      const validation = this.validateRate(input);
+      if (validation) return this.error(validation);
+
+      const row = {
+        supplier_name: input.supplier_name?.trim() || null,
+        max_load_lbs: input.max_load_lbs,
+        fee_per_load: input.fee_per_load,
+        lead_days: Math.round(input.lead_days)
+      };
+
+      const query = rateId
+        ? this.supabase
+          .from('supplier_delivery_rates')
+          .update(row)
+          .eq('id', rateId)
+          .eq('company_id', companyId)
+        : this.supabase
+          .from('supplier_delivery_rates')
+          .insert({ ...row, company_id: companyId });
+
+      const { data, error } = await query.select().single();
+
+      if (error) {
+        if (error.code === '23505') {
+          return this.error(row.supplier_name
+            ? `${row.supplier_name} already has a delivery rate`
+            : 'There is already a default delivery rate');
+        }
+        return this.error('Failed to save delivery rate', error);
+      }
+
+      return this.success(data as SupplierDeliveryRate);
+    } catch (error: any) {
+      return this.error('Unexpected error saving delivery rate', error);
+    }
+  }
+
+  async deleteRate(rateId: string, companyId: string): Promise<ServiceResponse<void>> {
+    try {
+      const { error } = await this.supabase
+        .from('supplier_delivery_rates')
+        .delete()
+        .eq('id', rateId)
+        .eq('company_id', companyId);
+
+      if (error) {
+        return this.error('Failed to delete delivery rate', error);
+      }
+
+      return this.success(undefined);
+    } catch (error: any) {
+      return this.error('Unexpected error deleting delivery rate', error);
+    }
+  }
+
+  /**
+   * Truckloads, fees and delivery dates for a job's materials, or null
+   * when the company has no delivery rates
+   *
+   * @param scheduledStart - First assignment start (or the requested start)
+   */
+  async planDelivery(
+    companyId: string,
+    breakdowns: MaterialCalculationResult[],
+    scheduledStart?: string | null
+  ): Promise<ServiceResponse<DeliveryPlan | null>> {
+    try {
+      const materialIds = [...new Set(
+        breakdowns.flatMap(breakdown => breakdown.categories.map(category => category.materialId))
+      )];
+      if (materialIds.length === 0) return this.success(null);
+
+      const rates = await this.getRates(companyId);
+      if (!rates.success || !rates.data) {
+        return this.error(rates.error || 'Failed to load delivery rates');
+      }
+      if (rates.data.length === 0) return this.success(null);
+
+      const { data: materials, error } = await this.supabase
+        .from('svc_materials')
+        .select(MATERIAL_COLUMNS)
+        .in('id', materialIds);
+
+      if (error) {
+        return this.error('Failed to load material weights', error);
+      }
+
+      return this.success(planDeliveries(
+        breakdowns,
+        (materials || []) as DeliveryMaterial[],
+        rates.data.map(toDeliveryRate),
+        scheduledStart
+      ));
+    } catch (error: any) {
+      return this.error('Unexpected error planning delivery', error);
+    }
+  }
+
+  /**
+   * Earliest scheduled start of a job's crew assignments
+   */
+  async getJobScheduledStart(jobId: string): Promise<string | null> {
+    const { data, error } = await this.supabase
+      .from('job_assignments')
+      .select('scheduled_start')
+      .eq('job_id', jobId)
+      .neq('status', 'cancelled')
+      .order('scheduled_start', { ascending: true })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      console.error('[DeliveryService] Failed to load job schedule', error);
+      return null;
+    }
+
+    return data?.scheduled_start ?? null;
+  }
+
+  /**
+   * Move a job's delivery dates to its current schedule
+   * Loads and fees don't depend on the date, so only delivery_details changes
+   */
+  async refreshJobDelivery(jobId: string): Promise<ServiceResponse<void>> {
+    try {
+      const { data: job, error } = await this.supabase
+        .from('jobs')
+        .select('delivery_details, scheduled_start_date')
+        .eq('id', jobId)
+        .single();
+
+      if (error || !job) {
+        return this.error('Job not found', error);
+      }
+
+      const plan = job.delivery_details as DeliveryPlan | null;
+      if (!plan?.deliveries?.length) return this.success(undefined);
+
+      const start = (await this.getJobScheduledStart(jobId)) ?? job.scheduled_start_date;
+      const { error: updateError } = await this.supabase
+        .from('jobs')
+        .update({ delivery_details: rescheduleDeliveries(plan, start) })
+        .eq('id', jobId);
+
+      if (updateError) {
+        return this.error('Failed to update delivery dates', updateError);
+      }
+
+      return this.success(undefined);
+    } catch (error: any) {
+      return this.error('Unexpected error updating delivery dates', error);
+    }
+  }
+
+  /**
+   * Validate rate input, returns an error message or null
+   */
+  private validateRate(input: SupplierDeliveryRateInput): string | null {
+    if (!Number.isFinite(input.max_load_lbs) || input.max_load_lbs <= 0) {
+      return 'Truck capacity must be more than 0 lbs';
+    }
+    if (!Number.isFinite(input.fee_per_load) || input.fee_per_load < 0) {
+      return 'Delivery fee cannot be negative';
+    }
+    if (!Number.isFinite(input.lead_days) || input.lead_days < 0) {
+      return 'Lead days cannot be negative';
+    }
+    return null;
+  }
+
+  /**
+   * Success response helper
+   */
+  private success<T>(data: T): ServiceResponse<T> {
+    return { success: true, data };
+  }
+
+  /**
+   * Error response helper
+   */
+  private error(message: string, error?: any): ServiceResponse<never> {
+    console.error(`[DeliveryService] ${message}`, error);
+    return {
+      success: false,
+      error: message
+    };
+  }
+}
+
+function toDeliveryRate(row: SupplierDeliveryRate): DeliveryRate {
+  return {
+    supplierName: row.supplier_name,
+    maxLoadLbs: Number(row.max_load_lbs),
+    feePerLoad: Number(row.fee_per_load),
+    leadDays: Number(row.lead_days)
+  };
+}
+
+// Export singleton instance
+export const deliveryService = new DeliveryService();
@@ -0,0 +1,461 @@
+/**
+ * Equipment Service - Equipment Catalog & Reservations
+ *
+ * Maintains the company equipment catalog and per-service requirements
+ * (migration 30) and reserves equipment against scheduled job assignments. Owned items can't be
+ * booked beyond quantity_owned; rented items are ordered per job. Reservations are released
+ * when their assignment or job is cancelled.
+ *
+ * @module EquipmentService
+ */
+
+import { getSupabase } from './supabase';
+import { ServiceResponse } from '../types/customer';
+import type {
+  CreateEquipmentItemInput,
+  CreateServiceEquipmentRequirementInput,
+  EquipmentItem,
+  EquipmentReservation,
+  EquipmentShortage,
+  ServiceEquipmentRequirement,
+  UpdateEquipmentItemInput
+} from '../types/equipment';
+import type { ServiceCalculationData } from '../types/crm';
+import {
+  equipmentDemand,
+  findEquipmentShortages,
+  type EquipmentDemand
+} from '../pricing-system/core/calculations/equipment-cost';
+
+const OWNERSHIPS = ['owned', 'rented'];
+
+// Reservations only hold equipment while their assignment can still run
+const ACTIVE_ASSIGNMENT_STATUSES = ['scheduled', 'in_progress'];
+
+export class EquipmentService {
+  private supabase = getSupabase();
+
+  /**
+   * List the company's catalog by name
+   */
+  async getCatalog(
+    companyId: string,
+    includeInactive: boolean = false
+  ): Promise<ServiceResponse<EquipmentItem[]>> {
+    try {
+      let query = this.supabase
+        .from('equipment_catalog')
+        .select('*')
+        .eq('company_id', companyId)
+        .order('name', { ascending: true });
+
+      if (!includeInactive) {
+        query = query.eq('is_active', true);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        return this.error('Failed to load equipment catalog', error);
+      }
+
+      return this.success((data || []) as EquipmentItem[]);
+    } catch (error: any) {
+      return this.error('Unexpected error loading equipment catalog', error);
+    }
+  }
+
+  /**
+   * Add an item to the catalog
+   */
+  async createItem(input: CreateEquipmentItemInput): Promise<ServiceResponse<EquipmentItem>> {
+    try {
+      const validation = this.validateItem(input);
+      if (validation) return this.error(validation);
+
+      const { data, error } = await this.supabase
+        .from('equipment_catalog')
+        .insert({
+          ...input,
+          name: input.name.trim(),
+          category: input.category?.trim() || null,
+          // Only owned units can be reserved
+          quantity_owned: input.ownership === 'owned' ? input.quantity_owned ?? 1 : 0
+        })
+        .select()
+        .single();
+
+      if (error) {
+        if (error.code === '23505') {
+          return this.error('Equipment with this name already exists', error);
+        }
+        return this.error('Failed to create equipment', error);
+      }
+
+      return this.success(data as EquipmentItem);
+    } catch (error: any) {
+      return this.error('Unexpected error creating equipment', error);
+    }
+  }
+
+  /**
+   * Update rates, ownership or owned quantity
+   */
+  async updateItem(
+    equipmentId: string,
+    companyId: string,
+    updates: UpdateEquipmentItemInput
+  ): Promise<ServiceResponse<EquipmentItem>> {
+    try {
+      const validation = this.validateItem(updates);
+      if (validation) return this.error(validation);
+
+      const { data, error } = await this.supabase
+        .from('equipment_catalog')
+        .update({
+          ...updates,
+          ...(updates.name !== undefined && { name: updates.name.trim() }),
+          ...(updates.category !== undefined && { category: updates.category?.trim() || null }),
+          ...(updates.ownership === 'rented' && { quantity_owned: 0 })
+        })
+        .eq('id', equipmentId)
+        .eq('company_id', companyId)
+        .select()
+        .single();
+
+      if (error) {
+        if (error.code === '23505') {
+          return this.error('Equipment with this name already exists', error);
+        }
+        return this.error('Failed to update equipment', error);
+      }
+
+      return this.success(data as EquipmentItem);
+    } catch (error: any) {
+      return this.error('Unexpected error updating equipment', error);
+    }
+  }
+
+  /**
+   * Retire an item (soft delete - priced jobs keep their lines)
+   */
+  async deactivateItem(equipmentId: string, companyId: string): Promise<ServiceResponse<EquipmentItem>> {
+    return this.updateItem(equipmentId, companyId, { is_active: false });
+  }
+
+  /**
+   * All requirements for the company's services, with their catalog item
+   */
+  async getRequirements(companyId: string): Promise<ServiceResponse<ServiceEquipmentRequirement[]>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('service_equipment_requirements')
+        .select('*, equipment:equipment_catalog(*)')
+        .eq('company_id', companyId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        return this.error('Failed to load equipment requirements', error);
+      }
+
+      return this.success((data || []) as ServiceEquipmentRequirement[]);
+    } catch (error: any) {
+      return this.error('Unexpected error loading equipment requirements', error);
+    }
+  }
+
+  /**
+   * Active service configs requirements can be attached to
+   */
+  async getServiceConfigs(companyId: string): Promise<ServiceResponse<Array<{ id: string; service_name: string }>>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('svc_pricing_configs')
+        .select('id, service_name')
+        .eq('company_id', companyId)
+        .eq('is_active', true)
+        .order('service_name', { ascending: true });
+
+      if (error) {
+        return this.error('Failed to load services', error);
+      }
+
+      return this.success(data || []);
+    } catch (error: any) {
+      return this.error('Unexpected error loading services', error);
+    }
+  }
+
+  /**
+   * Add or update the equipment a service needs
+   */
+  async setRequirement(
+    input: CreateServiceEquipmentRequirementInput
+  ): Promise<ServiceResponse<ServiceEquipmentRequirement>> {
+    try {
+      if (!Number.isInteger(input.quantity) || input.quantity <= 0) {
+        return this.error('Quantity must be a whole number above 0');
+      }
+      if (input.day_fraction !== undefined && (!(input.day_fraction > 0) || input.day_fraction > 1)) {
+        return this.error('Share of job days must be between 0% and 100%');
+      }
+      if (input.minimum_days !== undefined && (!Number.isInteger(input.minimum_days) || input.minimum_days < 0)) {
+        return this.error('Minimum days must be a whole number');
+      }
+
+      const { data, error } = await this.supabase
+        .from('service_equipment_requirements')
+        .upsert(input, { onConflict: 'service_config_id,equipment_id' })
+        .select('*, equipment:equipment_catalog(*)')
+        .single();
+
+      if (error) {
+        return this.error('Failed to save equipment requirement', error);
+      }
+
+      return this.success(data as ServiceEquipmentRequirement);
+    } catch (error: any) {
+      return this.error('Unexpected error saving equipment requirement', error);
+    }
+  }
+
+  /**
+   * Stop pricing an item on a service
+   */
+  async removeRequirement(requirementId: string, companyId: string): Promise<ServiceResponse<void>> {
+    try {
+      const { error } = await this.supabase
+        .from('service_equipment_requirements')
+        .delete()
+        .eq('id', requirementId)
+        .eq('company_id', companyId);
+
+      if (error) {
+        return this.error('Failed to remove equipment requirement', error);
+      }
+
+      return this.success(undefined);
+    } catch (error: any) {
+      return this.error('Unexpected error removing equipment requirement', error);
+    }
+  }
+
+  /**
+   * Equipment the job's selected services were priced with
+   */
+  async getJobDemand(jobId: string): Promise<ServiceResponse<EquipmentDemand[]>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('job_services')
+        .select('calculation_data')
+        .eq('job_id', jobId)
+        .eq('is_selected_option', true);
+
+      if (error) {
+        return this.error('Failed to load job equipment', error);
+      }
+
+      const lines = (data || []).flatMap(row =>
+        (row.calculation_data as ServiceCalculationData | null)?.tier2Results?.equipmentLines ?? []
+      );
+      return this.success(equipmentDemand(lines));
+    } catch (error: any) {
+      return this.error('Unexpected error loading job equipment', error);
+    }
+  }
+
+  /**
+   * Owned items without enough free units for a period
+   * Only reservations of scheduled / in-progress assignments count
+   *
+   * @param excludeAssignmentId - The assignment being moved (its own reservations don't count)
+   */
+  async checkAvailability(
+    companyId: string,
+    demand: EquipmentDemand[],
+    start: string,
+    end: string,
+    excludeAssignmentId?: string
+  ): Promise<ServiceResponse<EquipmentShortage[]>> {
+    if (demand.length === 0) {
+      return this.success([]);
+    }
+
+    try {
+      const equipmentIds = demand.map(entry => entry.equipmentId);
+
+      const { data: catalog, error: catalogError } = await this.supabase
+        .from('equipment_catalog')
+        .select('id, name, ownership, quantity_owned')
+        .eq('company_id', companyId)
+        .in('id', equipmentIds);
+
+      if (catalogError) {
+        return this.error('Failed to load equipment catalog', catalogError);
+      }
+
+      let query = this.supabase
+        .from('equipment_reservations')
+        .select('equipment_id, quantity, job_assignments!inner (status)')
+        .in('equipment_id', equipmentIds)
+        .in('job_assignments.status', ACTIVE_ASSIGNMENT_STATUSES)
+        .lt('reserved_start', end)
+        .gt('reserved_end', start);
+
+      if (excludeAssignmentId) {
+        query = query.neq('assignment_id', excludeAssignmentId);
+      }
+
+      const { data: booked, error: bookedError } = await query;
+
+      if (bookedError) {
+        return this.error('Failed to load equipment reservations', bookedError);
+      }
+
+      return this.success(findEquipmentShortages(
+        demand,
+        (catalog || []) as Array<Pick<EquipmentItem, 'id' | 'name' | 'ownership' | 'quantity_owned'>>,
+        (booked || []).map(row => ({ equipmentId: row.equipment_id, quantity: row.quantity }))
+      ));
+    } catch (error: any) {
+      return this.error('Unexpected error checking equipment availability', error);
+    }
+  }
+
+  /**
+   * Replace an assignment's reservations with the job's current equipment
+   */
+  async reserveForAssignment(
+    companyId: string,
+    assignment: { id: string; job_id: string; scheduled_start: string; scheduled_end: string },
+    demand: EquipmentDemand[]
+  ): Promise<ServiceResponse<EquipmentReservation[]>> {
+    try {
+      const { error: clearError } = await this.supabase
+        .from('equipment_reservations')
+        .delete()
+        .eq('assignment_id', assignment.id);
+
+      if (clearError) {
+        return this.error('Failed to clear equipment reservations', clearError);
+      }
+
+      if (demand.length === 0) {
+        return this.success([]);
+      }
+
+      const { data, error } = await this.supabase
+        .from('equipment_reservations')
+        .insert(demand.map(entry => ({
+          company_id: companyId,
+          equipment_id: entry.equipmentId,
+          job_id: assignment.job_id,
+          assignment_id: assignment.id,
+          quantity: entry.quantity,
+          reserved_start: assignment.scheduled_start,
+          reserved_end: assignment.scheduled_end
+        })))
+        .select();
+
+      if (error) {
+        return this.error('Failed to reserve equipment', error);
+      }
+
+      return this.success((data || []) as EquipmentReservation[]);
+    } catch (error: any) {
+      return this.error('Unexpected error reserving equipment', error);
+    }
+  }
+
+  /**
+   * Free the equipment held for a cancelled assignment
+   */
+  async releaseForAssignment(assignmentId: string): Promise<ServiceResponse<void>> {
+    try {
+      const { error } = await this.supabase
+        .from('equipment_reservations')
+        .delete()
+        .eq('assignment_id', assignmentId);
+
+      if (error) {
+        return this.error('Failed to release equipment reservations', error);
+      }
+
+      return this.success(undefined);
+    } catch (error: any) {
+      return this.error('Unexpected error releasing equipment reservations', error);
+    }
+  }
+
+  /**
+   * Free the equipment held for every assignment of a cancelled job
+   */
+  async releaseForJob(jobId: string): Promise<ServiceResponse<void>> {
+    try {
+      const { error } = await this.supabase
+        .from('equipment_reservations')
+        .delete()
+        .eq('job_id', jobId);
+
+      if (error) {
+        return this.error('Failed to release equipment reservations', error);
+      }
+
+      return this.success(undefined);
+    } catch (error: any) {
+      return this.error('Unexpected error releasing equipment reservations', error);
+    }
+  }
+
+  /**
+   * Readable message for a failed reservation
+   */
+  describeShortages(shortages: EquipmentShortage[]): string {
+    return 'Not enough equipment for this period: ' + shortages
+      .map(shortage => `${shortage.name} (${shortage.requested} needed, ${shortage.available} free)`)
+      .join(', ');
+  }
+
+  /**
+   * Validate catalog input, returns an error message or null
+   */
+  private validateItem(input: UpdateEquipmentItemInput): string | null {
+    if (input.name !== undefined && !input.name.trim()) {
+      return 'Equipment name is required';
+    }
+    if (input.ownership !== undefined && !OWNERSHIPS.includes(input.ownership)) {
+      return 'Equipment must be owned or rented';
+    }
+    if (input.daily_rate !== undefined && (!Number.isFinite(input.daily_rate) || input.daily_rate < 0)) {
+      return 'Daily rate cannot be negative';
+    }
+    if (input.delivery_fee !== undefined && (!Number.isFinite(input.delivery_fee) || input.delivery_fee < 0)) {
+      return 'Delivery fee cannot be negative';
+    }
+    if (input.quantity_owned !== undefined && (!Number.isInteger(input.quantity_owned) || input.quantity_owned < 0)) {
+      return 'Owned quantity must be a whole number';
+    }
+    return null;
+  }
+
+  /**
+   * Success response helper
+   */
+  private success<T>(data: T): ServiceResponse<T> {
+    return { success: true, data };
+  }
+
+  /**
+   * Error response helper
+   */
+  private error(message: string, error?: any): ServiceResponse<never> {
+    console.error(`[EquipmentService] ${message}`, error);
+    return {
+      success: false,
+      error: message
+    };
+  }
+}
+
+// Export singleton instance
+export const equipmentService = new EquipmentService();
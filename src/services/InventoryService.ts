@@ -0,0 +1,440 @@
+/**
+ * Inventory Service - Material Yard Stock
+ *
+ * Keeps yard stock per material (migration 37, see inventory.ts): receipts
+ * when a purchase order is received, reservations while a job is
+ * scheduled, consumption when it completes, and physical counts. Job
+ * estimates use it for in stock vs to order; the Materials page for
+ * low-stock alerts.
+ *
+ * @module InventoryService
+ */
+
+import { getSupabase } from './supabase';
+import { ServiceResponse } from '../types/customer';
+import type { ServiceCalculationData } from '../types/crm';
+import type { MaterialCalculationResult } from '../types/materials';
+import type {
+  JobStockLine,
+  LowStockMaterial,
+  MaterialStockMovement,
+  MaterialStockReservation,
+  StockLevel
+} from '../types/inventory';
+import {
+  RESERVING_JOB_STATUSES,
+  consumptionForJob,
+  countAdjustment,
+  findLowStock,
+  planJobStock,
+  sumMaterialNeeds
+} from '../pricing-system/utils/inventory';
+
+export class InventoryService {
+  private supabase = getSupabase();
+
+  /**
+   * On hand, reserved and reorder point per material
+   *
+   * @param materialIds - Limit to these materials (all stocked materials when omitted)
+   */
+  async getStockLevels(companyId: string, materialIds?: string[]): Promise<ServiceResponse<StockLevel[]>> {
+    try {
+      let stockQuery = this.supabase
+        .from('material_stock')
+        .select('material_id, quantity_on_hand, reorder_point')
+        .eq('company_id', companyId);
+
+      let reservationQuery = this.supabase
+        .from('material_stock_reservations')
+        .select('material_id, quantity')
+        .eq('company_id', companyId);
+
+      if (materialIds) {
+        if (materialIds.length === 0) return this.success([]);
+        stockQuery = stockQuery.in('material_id', materialIds);
+        reservationQuery = reservationQuery.in('material_id', materialIds);
+      }
+
+      const [{ data: stock, error: stockError }, { data: reservations, error: reservationError }] =
+        await Promise.all([stockQuery, reservationQuery]);
+
+      if (stockError || reservationError) {
+        return this.error('Failed to load stock levels', stockError || reservationError);
+      }
+
+      const reserved = new Map<string, number>();
+      for (const row of reservations || []) {
+        reserved.set(row.material_id, (reserved.get(row.material_id) ?? 0) + Number(row.quantity));
+      }
+
+      const levels = new Map<string, StockLevel>();
+      for (const row of stock || []) {
+        levels.set(row.material_id, {
+          materialId: row.material_id,
+          onHand: Number(row.quantity_on_hand),
+          reserved: reserved.get(row.material_id) ?? 0,
+          reorderPoint: row.reorder_point !== null ? Number(row.reorder_point) : null
+        });
+      }
+      // Reserved but never stocked
+      for (const [materialId, quantity] of reserved) {
+        if (!levels.has(materialId)) {
+          levels.set(materialId, { materialId, onHand: 0, reserved: quantity, reorderPoint: null });
+        }
+      }
+
+      return this.success([...levels.values()]);
+    } catch (error: any) {
+      return this.error('Unexpected error loading stock levels', error);
+    }
+  }
+
+  /**
+   * Materials at or below their reorder point
+   */
+  async getLowStock(companyId: string): Promise<ServiceResponse<LowStockMaterial[]>> {
+    try {
+      const levels = await this.getStockLevels(companyId);
+      if (!levels.success || !levels.data) {
+        return this.error(levels.error || 'Failed to load stock levels');
+      }
+
+      const alerts = findLowStock(levels.data);
+      if (alerts.length === 0) return this.success([]);
+
+      const { data: materials, error } = await this.supabase
+        .from('svc_materials')
+        .select('id, material_name, unit_type')
+        .in('id', alerts.map(alert => alert.materialId));
+
+      if (error) {
+        return this.error('Failed to load materials', error);
+      }
+
+      const byId = new Map((materials || []).map((material: any) => [material.id, material]));
+      return this.success(alerts.map(alert => ({
+        ...alert,
+        materialName: byId.get(alert.materialId)?.material_name ?? 'Unknown material',
+        unitType: byId.get(alert.materialId)?.unit_type ?? ''
+      })));
+    } catch (error: any) {
+      return this.error('Unexpected error loading low stock', error);
+    }
+  }
+
+  /**
+   * In stock vs to order for an estimate's materials
+   *
+   * @param jobId - Existing job (its own reservations count as in stock)
+   */
+  async planJobStock(
+    companyId: string,
+    breakdowns: MaterialCalculationResult[],
+    jobId?: string
+  ): Promise<ServiceResponse<JobStockLine[]>> {
+    try {
+      const materialIds = [...sumMaterialNeeds(breakdowns).keys()];
+      const levels = await this.getStockLevels(companyId, materialIds);
+      if (!levels.success || !levels.data) {
+        return this.error(levels.error || 'Failed to load stock levels');
+      }
+
+      const own = new Map<string, number>();
+      if (jobId) {
+        const { data } = await this.supabase
+          .from('material_stock_reservations')
+          .select('material_id, quantity')
+          .eq('job_id', jobId);
+        for (const row of data || []) {
+          own.set(row.material_id, Number(row.quantity));
+        }
+      }
+
+      return this.success(planJobStock(breakdowns, levels.data, own));
+    } catch (error: any) {
+      return this.error('Unexpected error planning job stock', error);
+    }
+  }
+
+  /**
+   * Record a physical count - the difference goes in as an adjustment
+   */
+  async recordCount(
+    companyId: string,
+    materialId: string,
+    counted: number,
+    userId?: string,
+    notes?: string
+  ): Promise<ServiceResponse<MaterialStockMovement | null>> {
+    try {
+      if (!Number.isFinite(counted) || counted < 0) {
+        return this.error('Count cannot be negative');
+      }
+
+      const { data: stock } = await this.supabase
+        .from('material_stock')
+        .select('quantity_on_hand')
+        .eq('material_id', materialId)
+        .maybeSingle();
+
+      const adjustment = countAdjustment(Number(stock?.quantity_on_hand ?? 0), counted);
+      if (adjustment === 0) return this.success(null);
+
+      return this.insertMovement({
+        company_id: companyId,
+        material_id: materialId,
+        movement_type: 'adjustment',
+        quantity: adjustment,
+        notes: notes || 'Stock count',
+        created_by: userId || null
+      });
+    } catch (error: any) {
+      return this.error('Unexpected error recording stock count', error);
+    }
+  }
+
+  /**
+   * Set or clear a material's reorder point
+   */
+  async setReorderPoint(
+    companyId: string,
+    materialId: string,
+    reorderPoint: number | null
+  ): Promise<ServiceResponse<void>> {
+    try {
+      if (reorderPoint !== null && (!Number.isFinite(reorderPoint) || reorderPoint < 0)) {
+        return this.error('Reorder point cannot be negative');
+      }
+
+      const { error } = await this.supabase
+        .from('material_stock')
+        .upsert(
+          { company_id: companyId, material_id: materialId, reorder_point: reorderPoint },
+          { onConflict: 'material_id' }
+        );
+
+      if (error) {
+        return this.error('Failed to save reorder point', error);
+      }
+
+      return this.success(undefined);
+    } catch (error: any) {
+      return this.error('Unexpected error saving reorder point', error);
+    }
+  }
+
+  /**
+   * Add a received purchase order's lines to stock
+   */
+  async receivePurchaseOrder(
+    companyId: string,
+    purchaseOrderId: string,
+    userId?: string
+  ): Promise<ServiceResponse<number>> {
+    try {
+      const { data: lines, error } = await this.supabase
+        .from('purchase_order_lines')
+        .select('material_id, quantity_ordered')
+        .eq('purchase_order_id', purchaseOrderId)
+        .not('material_id', 'is', null);
+
+      if (error) {
+        return this.error('Failed to load purchase order lines', error);
+      }
+
+      const receipts = (lines || []).map((line: any) => ({
+        company_id: companyId,
+        material_id: line.material_id,
+        movement_type: 'receipt',
+        quantity: Number(line.quantity_ordered),
+        purchase_order_id: purchaseOrderId,
+        created_by: userId || null
+      }));
+
+      if (receipts.length > 0) {
+        const { error: insertError } = await this.supabase
+          .from('material_stock_movements')
+          .insert(receipts);
+
+        if (insertError) {
+          return this.error('Failed to receive purchase order into stock', insertError);
+        }
+      }
+
+      return this.success(receipts.length);
+    } catch (error: any) {
+      return this.error('Unexpected error receiving purchase order', error);
+    }
+  }
+
+  /**
+   * Bring a job's reservations in line with its status: reserve while
+   * scheduled or in progress, consume on completion, release otherwise
+   */
+  async syncJobStock(jobId: string, status: string, userId?: string): Promise<ServiceResponse<void>> {
+    try {
+      const { data: job } = await this.supabase
+        .from('jobs')
+        .select('company_id')
+        .eq('id', jobId)
+        .single();
+
+      if (!job?.company_id) {
+        return this.error('Job not found');
+      }
+
+      if (RESERVING_JOB_STATUSES.includes(status)) {
+        return this.reserveForJob(job.company_id, jobId);
+      }
+
+      if (status === 'completed') {
+        const consumed = await this.consumeForJob(job.company_id, jobId, userId);
+        if (!consumed.success) return consumed;
+      }
+
+      return this.releaseJob(jobId);
+    } catch (error: any) {
+      return this.error('Unexpected error updating job stock', error);
+    }
+  }
+
+  /**
+   * Replace a job's reservations with its selected services' materials
+   */
+  private async reserveForJob(companyId: string, jobId: string): Promise<ServiceResponse<void>> {
+    const { data: lines, error: linesError } = await this.supabase
+      .from('job_services')
+      .select('calculation_data')
+      .eq('job_id', jobId)
+      .eq('is_selected_option', true);
+
+    if (linesError) {
+      return this.error('Failed to load job materials', linesError);
+    }
+
+    const breakdowns = (lines || [])
+      .map(row => (row.calculation_data as ServiceCalculationData | null)?.tier2Results?.materialBreakdown)
+      .filter((breakdown): breakdown is MaterialCalculationResult => !!breakdown);
+
+    const released = await this.releaseJob(jobId);
+    if (!released.success) return released;
+
+    const reservations = [...sumMaterialNeeds(breakdowns)]
+      .filter(([, need]) => need.quantity > 0)
+      .map(([materialId, need]) => ({
+        company_id: companyId,
+        material_id: materialId,
+        job_id: jobId,
+        quantity: need.quantity
+      }));
+
+    if (reservations.length === 0) return this.success(undefined);
+
+    const { error } = await this.supabase
+      .from('material_stock_reservations')
+      .insert(reservations);
+
+    if (error) {
+      return this.error('Failed to reserve job materials', error);
+    }
+
+    return this.success(undefined);
+  }
+
+  /**
+   * Take a completed job's reserved materials out of stock
+   */
+  private async consumeForJob(companyId: string, jobId: string, userId?: string): Promise<ServiceResponse<void>> {
+    const { data: reservations, error } = await this.supabase
+      .from('material_stock_reservations')
+      .select('*')
+      .eq('job_id', jobId);
+
+    if (error) {
+      return this.error('Failed to load job reservations', error);
+    }
+
+    const reserved = ((reservations || []) as MaterialStockReservation[]).map(reservation => ({
+      materialId: reservation.material_id,
+      quantity: Number(reservation.quantity)
+    }));
+    if (reserved.length === 0) return this.success(undefined);
+
+    const levels = await this.getStockLevels(companyId, reserved.map(entry => entry.materialId));
+    if (!levels.success || !levels.data) {
+      return this.error(levels.error || 'Failed to load stock levels');
+    }
+
+    const consumption = consumptionForJob(reserved, levels.data).map(entry => ({
+      company_id: companyId,
+      material_id: entry.materialId,
+      movement_type: 'consumption',
+      quantity: -entry.quantity,
+      job_id: jobId,
+      created_by: userId || null
+    }));
+
+    if (consumption.length > 0) {
+      const { error: insertError } = await this.supabase
+        .from('material_stock_movements')
+        .insert(consumption);
+
+      if (insertError) {
+        return this.error('Failed to consume job materials', insertError);
+      }
+    }
+
+    return this.success(undefined);
+  }
+
+  private async releaseJob(jobId: string): Promise<ServiceResponse<void>> {
+    const { error } = await this.supabase
+      .from('material_stock_reservations')
+      .delete()
+      .eq('job_id', jobId);
+
+    if (error) {
+      return this.error('Failed to release job reservations', error);
+    }
+
+    return this.success(undefined);
+  }
+
+  private async insertMovement(
+    movement: Omit<MaterialStockMovement, 'id' | 'created_at' | 'job_id' | 'purchase_order_id'>
+  ): Promise<ServiceResponse<MaterialStockMovement>> {
+    const { data, error } = await this.supabase
+      .from('material_stock_movements')
+      .insert(movement)
+      .select()
+      .single();
+
+    if (error) {
+      return this.error('Failed to record stock movement', error);
+    }
+
+    return this.success(data as MaterialStockMovement);
+  }
+
+  /**
+   * Success response helper
+   */
+  private success<T>(data: T): ServiceResponse<T> {
+    return { success: true, data };
+  }
+
+  /**
+   * Error response helper
+   */
+  private error(message: string, error?: any): ServiceResponse<never> {
+    console.error(`[InventoryService] ${message}`, error);
+    return {
+      success: false,
+      error: message
+    };
+  }
+}
+
+// Export singleton instance
+export const inventoryService = new InventoryService();
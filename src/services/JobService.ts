@@ -19,10 +19,37 @@ import {
   CreateJobServiceInput,
   UpdateJobServiceInput,
   JobStatus,
-  ServiceCalculationData
+  ServiceCalculationData,
+  JobServiceRepricePreview
 } from '../types/crm';
 import { ServiceResponse, PaginatedResponse } from '../types/customer';
-import { masterPricingEngine } from '../pricing-system/core/calculations/master-pricing-engine';
+import { masterPricingEngine, type CalculationResult } from '../pricing-system/core/calculations/master-pricing-engine';
+import { SERVICE_REGISTRY, isValidServiceId } from '../pricing-system/config/service-registry';
+import { hashPricingSnapshot, comparePricingResults } from '../pricing-system/utils/pricing-snapshot';
+import { pricingConfigRevisionService } from './PricingConfigRevisionService';
+import { taxJurisdictionService } from './TaxJurisdictionService';
+import { addTaxableAmounts, taxableAmountsFromTier2 } from '../pricing-system/utils/sales-tax';
+import type { SalesTaxResult, TaxableAmounts, TaxLocation } from '../types/tax';
+import type { CreateQuoteOptionsInput, QuoteOptionSet } from '../types/quote-tiers';
+import { quoteTierRecipeService } from './QuoteTierRecipeService';
+import { travelService } from './TravelService';
+import type { JobTravel } from '../types/travel';
+import { pricingCalendarService } from './PricingCalendarService';
+import type { SeasonalAdjustment } from '../types/pricing-calendar';
+import { unitSystemService } from './UnitSystemService';
+import { fetchAllMaterialsForService } from './materialsService';
+import { MissingMaterialError } from './materialCalculations';
+import { inventoryService } from './InventoryService';
+import { equipmentService } from './EquipmentService';
+import { deliveryService } from './DeliveryService';
+import type { DeliveryPlan } from '../types/delivery';
+import type { JobStockLine } from '../types/inventory';
+import type { MaterialCalculationResult } from '../types/materials';
+import {
+  DEFAULT_QUOTE_TIERS,
+  deriveQuoteTiers,
+  resolveRecommendedTier
+} from '../pricing-system/utils/quote-tiers';
 
 export class JobService {
   private supabase = getSupabase();
@@ -169,6 +196,18 @@ export class JobService {
       }
 
       console.log('[JobService] Job updated successfully:', jobId);
+
+      // Service location decides the sales tax jurisdiction and travel distance
+      if (updates.service_zip !== undefined || updates.service_state !== undefined) {
+        await this.updateJobTotals(jobId);
+        const { data: retaxed } = await this.supabase
+          .from('jobs')
+          .select()
+          .eq('id', jobId)
+          .single();
+        return this.success(retaxed ?? data);
+      }
+
       return this.success(data);
 
     } catch (error: any) {
@@ -367,6 +406,17 @@ export class JobService {
   /**
    * PRICING ENGINE INTEGRATION POINT
    * Calculate job estimate from selected services using pricing engine
+   *
+   * quantity is measured in the service's registry unit (sqft for paver patios)
+   * and is passed to the engine as the project size.
+   *
+   * Pass the service zip/state to get sales tax lines; total includes tax.
+   * The zip also adds one travel line for the job (see TravelService).
+   * The requested start date applies the company pricing calendar and
+   * backlog surcharge (see PricingCalendarService).
+   * stock splits each material into in stock vs to order (see InventoryService).
+   * delivery adds supplier truckload fees, dated from the requested start
+   * (see DeliveryService).
    */
   async calculateJobEstimate(
     companyId: string,
@@ -374,65 +424,110 @@ export class JobService {
       service_config_id: string;
       pricing_variables: Record<string, any>;
       quantity?: number;
-    }>
+    }>,
+    location?: TaxLocation,
+    requestedStartDate?: string | null
   ): Promise<ServiceResponse<{
     services: Array<{
       service_config_id: string;
-      calculation: any;
+      calculation: ServiceCalculationData;
       total: number;
     }>;
+    travel: JobTravel | null;
+    delivery: DeliveryPlan | null;
+    stock: JobStockLine[];
+    subtotal: number;
+    tax: SalesTaxResult | null;
     total: number;
   }>> {
     try {
       const calculations = [];
+      const taxableAmounts: TaxableAmounts[] = [];
       let grandTotal = 0;
+      let totalDays = 0;
+
+      const seasonal = await this.resolveSeasonalAdjustment(companyId, requestedStartDate);
+      if (!seasonal.success) {
+        return this.error(seasonal.error || 'Failed to load pricing calendar');
+      }
 
       for (const service of services) {
-        // TODO: Integrate with masterPricingEngine.calculateService()
-        // This is a placeholder - actual implementation will call pricing engine
-        //
-        // INTEGRATION STEPS:
-        // 1. Call masterPricingEngine.calculatePricing(service.pricing_variables, sqft, serviceName, companyId)
-        // 2. Extract calculation result
-        // 3. Store in calculation_data JSONB field
-        // 4. Sum totals
-
-        const mockCalculation = {
+        const result = await this.calculateServicePricing(
+          companyId,
+          service.service_config_id,
+          service.pricing_variables,
+          service.quantity,
+          seasonal.data
+        );
+
+        if (!result.success || !result.data) {
+          return this.error(result.error || 'Failed to calculate service pricing');
+        }
+
+        const total = result.data.tier2Results?.total ?? 0;
+
+        calculations.push({
           service_config_id: service.service_config_id,
-          calculation: {
-            tier1Results: {
-              baseHours: 10,
-              adjustedHours: 12,
-              totalManHours: 24,
-              totalDays: 3
-            },
-            tier2Results: {
-              laborCost: 1200,
-              materialCostBase: 800,
-              materialWasteCost: 80,
-              totalMaterialCost: 880,
-              equipmentCost: 150,
-              obstacleCost: 0,
-              subtotal: 2230,
-              profit: 446,
-              total: 2676,
-              pricePerSqft: 26.76
-            },
-            sqft: 100,
-            inputValues: service.pricing_variables,
-            confidence: 0.95,
-            calculationDate: new Date().toISOString()
-          },
-          total: 2676 * (service.quantity || 1)
-        };
-
-        calculations.push(mockCalculation);
-        grandTotal += mockCalculation.total;
+          calculation: result.data,
+          total
+        });
+        taxableAmounts.push(this.taxableAmountsForLine(total, result.data));
+        grandTotal += total;
+        totalDays += result.data.tier1Results?.totalDays ?? 0;
       }
 
+      // One shop-to-site travel line for the whole job
+      let travel: JobTravel | null = null;
+      if (location?.zip) {
+        const travelResult = await travelService.calculateJobTravel(companyId, location.zip, totalDays);
+        if (!travelResult.success) {
+          return this.error(travelResult.error || 'Failed to calculate travel');
+        }
+        travel = travelResult.data ?? null;
+      }
+      if (travel?.cost) {
+        taxableAmounts.push({ other: travel.cost });
+        grandTotal += travel.cost;
+      }
+
+      const breakdowns = calculations
+        .map(line => line.calculation.tier2Results?.materialBreakdown)
+        .filter((breakdown): breakdown is MaterialCalculationResult => !!breakdown);
+
+      // Supplier truckloads for bulk materials
+      const deliveryResult = await deliveryService.planDelivery(companyId, breakdowns, requestedStartDate);
+      if (!deliveryResult.success) {
+        return this.error(deliveryResult.error || 'Failed to plan material delivery');
+      }
+      const delivery = deliveryResult.data ?? null;
+      if (delivery?.totalFee) {
+        taxableAmounts.push({ other: delivery.totalFee });
+        grandTotal += delivery.totalFee;
+      }
+
+      let tax: SalesTaxResult | null = null;
+      if (location) {
+        const taxResult = await taxJurisdictionService.calculateTax(companyId, location, addTaxableAmounts(...taxableAmounts));
+        if (!taxResult.success || !taxResult.data) {
+          return this.error(taxResult.error || 'Failed to calculate sales tax');
+        }
+        tax = taxResult.data;
+      }
+
+      const stock = await inventoryService.planJobStock(companyId, breakdowns);
+      if (!stock.success) {
+        return this.error(stock.error || 'Failed to check material stock');
+      }
+
+      const subtotal = Math.round(grandTotal * 100) / 100;
       return this.success({
         services: calculations,
-        total: grandTotal
+        travel,
+        delivery,
+        stock: stock.data || [],
+        subtotal,
+        tax,
+        total: Math.round((subtotal + (tax?.taxTotal ?? 0)) * 100) / 100
       });
 
     } catch (error: any) {
@@ -452,58 +547,41 @@ export class JobService {
       // Validate job exists
       const { data: job } = await this.supabase
         .from('jobs')
-        .select('id, company_id')
+        .select('id, company_id, requested_start_date')
         .eq('id', jobId)
         .single();
 
-      if (!job) {
+      if (!job?.company_id) {
         return this.error('Job not found');
       }
 
       // Calculate pricing if variables provided
-      let calculationData: ServiceCalculationData | undefined;
+      let calculationData: ServiceCalculationData | undefined = serviceInput.calculation_data;
+      let unitPrice = serviceInput.unit_price;
+      let totalPrice = serviceInput.total_price;
 
       if (serviceInput.pricing_variables) {
-        // TODO: Call pricing engine
-        // const result = await masterPricingEngine.calculatePricing(
-        //   serviceInput.pricing_variables,
-        //   sqft,
-        //   serviceName,
-        //   job.company_id,
-        //   serviceInput.service_config_id
-        // );
-        // calculationData = {
-        //   tier1Results: result.tier1Results,
-        //   tier2Results: result.tier2Results,
-        //   sqft: result.sqft,
-        //   inputValues: result.inputValues,
-        //   confidence: result.confidence,
-        //   calculationDate: result.calculationDate
-        // };
-
-        // Placeholder calculation data
-        calculationData = {
-          tier1Results: {
-            baseHours: 10,
-            adjustedHours: 12,
-            totalManHours: 24,
-            totalDays: 3,
-            breakdown: ['Base calculation', 'Complexity adjustment']
-          },
-          tier2Results: {
-            laborCost: 1200,
-            materialCostBase: 800,
-            materialWasteCost: 80,
-            totalMaterialCost: 880,
-            equipmentCost: 150,
-            obstacleCost: 0,
-            subtotal: 2230,
-            profit: 446,
-            total: serviceInput.total_price,
-            pricePerSqft: 26.76
-          },
-          calculationDate: new Date().toISOString()
-        };
+        const seasonal = await this.resolveSeasonalAdjustment(job.company_id, job.requested_start_date);
+        if (!seasonal.success) {
+          return this.error(seasonal.error || 'Failed to load pricing calendar');
+        }
+
+        const result = await this.calculateServicePricing(
+          job.company_id,
+          serviceInput.service_config_id,
+          serviceInput.pricing_variables,
+          serviceInput.quantity,
+          seasonal.data
+        );
+
+        if (!result.success || !result.data) {
+          return this.error(result.error || 'Failed to calculate service pricing');
+        }
+
+        // Engine result is authoritative for line item pricing
+        calculationData = result.data;
+        totalPrice = result.data.tier2Results?.total ?? totalPrice;
+        unitPrice = result.data.tier2Results?.pricePerSqft ?? unitPrice;
       }
 
       // Insert job service
@@ -515,10 +593,13 @@ export class JobService {
           service_name: serviceInput.service_name,
           service_description: serviceInput.service_description || null,
           quantity: serviceInput.quantity || 1,
-          unit_price: serviceInput.unit_price,
-          total_price: serviceInput.total_price,
+          unit_price: unitPrice,
+          total_price: totalPrice,
           calculation_data: calculationData || {},
           pricing_variables: serviceInput.pricing_variables || {},
+          config_revision_id: calculationData?.configRevisionId ?? null,
+          pricing_snapshot_hash: calculationData?.snapshotHash ?? null,
+          priced_at: calculationData?.snapshotHash ? new Date().toISOString() : null,
           notes: serviceInput.notes || null,
           metadata: serviceInput.metadata || {},
           added_by_user_id: serviceInput.added_by_user_id,
@@ -645,6 +726,310 @@ export class JobService {
     }
   }
 
+  /**
+   * Re-price a quote line with the current engine (preview only)
+   *
+   * Runs the line's stored inputs through today's config and material prices
+   * and returns line-by-line deltas against the frozen calculation. Nothing
+   * is written until acceptReprice() is called.
+   */
+  async previewReprice(
+    serviceId: string,
+    companyId: string
+  ): Promise<ServiceResponse<JobServiceRepricePreview>> {
+    try {
+      const { data: service } = await this.supabase
+        .from('job_services')
+        .select(`
+          *,
+          jobs!inner (company_id, status, requested_start_date)
+        `)
+        .eq('id', serviceId)
+        .single();
+
+      if (!service || service.jobs?.company_id !== companyId) {
+        return this.error('Service not found');
+      }
+
+      if (service.jobs.status !== 'quote') {
+        return this.error('Only quotes can be re-priced');
+      }
+
+      const seasonal = await this.resolveSeasonalAdjustment(companyId, service.jobs.requested_start_date);
+      if (!seasonal.success) {
+        return this.error(seasonal.error || 'Failed to load pricing calendar');
+      }
+
+      const result = await this.calculateServicePricing(
+        companyId,
+        service.service_config_id,
+        service.pricing_variables || {},
+        service.quantity,
+        seasonal.data
+      );
+
+      if (!result.success || !result.data) {
+        return this.error(result.error || 'Failed to calculate service pricing');
+      }
+
+      const { jobs: _job, ...jobService } = service;
+      const proposed = result.data;
+
+      return this.success({
+        jobService,
+        proposed,
+        deltas: comparePricingResults(jobService.calculation_data?.tier2Results, proposed.tier2Results),
+        currentTotal: jobService.total_price,
+        proposedTotal: proposed.tier2Results?.total ?? 0,
+        snapshotChanged: jobService.pricing_snapshot_hash !== proposed.snapshotHash
+      });
+
+    } catch (error: any) {
+      console.error('[JobService] Error previewing re-price:', error);
+      return this.error('Failed to re-price service', error);
+    }
+  }
+
+  /**
+   * Accept a re-price previewed with previewReprice()
+   *
+   * Recalculates and refuses to save if the pricing snapshot no longer
+   * matches the preview the estimator approved.
+   */
+  async acceptReprice(
+    serviceId: string,
+    companyId: string,
+    previewSnapshotHash: string
+  ): Promise<ServiceResponse<JobServiceType>> {
+    const preview = await this.previewReprice(serviceId, companyId);
+    if (!preview.success || !preview.data) {
+      return this.error(preview.error || 'Failed to re-price service');
+    }
+
+    const { proposed } = preview.data;
+    if (proposed.snapshotHash !== previewSnapshotHash) {
+      return this.error('Pricing changed since the preview - review the new deltas before accepting');
+    }
+
+    const { data, error } = await this.supabase
+      .from('job_services')
+      .update({
+        unit_price: proposed.tier2Results?.pricePerSqft ?? preview.data.jobService.unit_price,
+        total_price: proposed.tier2Results?.total ?? preview.data.jobService.total_price,
+        calculation_data: proposed,
+        config_revision_id: proposed.configRevisionId ?? null,
+        pricing_snapshot_hash: proposed.snapshotHash,
+        priced_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', serviceId)
+      .select()
+      .single();
+
+    if (error) {
+      return this.error('Failed to save re-priced service', error);
+    }
+
+    await this.updateJobTotals(preview.data.jobService.job_id);
+
+    console.log('[JobService] Service re-priced:', serviceId);
+    return this.success(data);
+  }
+
+  /**
+   * Generate Good / Better / Best options on a quote
+   *
+   * Derives one input per tier from the base pricing variables and the
+   * service's tier recipe (DEFAULT_QUOTE_TIERS when the company has none),
+   * prices every tier and stores them as one option group. The recommended
+   * tier is selected and counts toward the quote total.
+   */
+  async addQuoteOptions(
+    jobId: string,
+    companyId: string,
+    input: CreateQuoteOptionsInput
+  ): Promise<ServiceResponse<QuoteOptionSet>> {
+    try {
+      const { data: job } = await this.supabase
+        .from('jobs')
+        .select('id, company_id, status, requested_start_date')
+        .eq('id', jobId)
+        .eq('company_id', companyId)
+        .single();
+
+      if (!job) {
+        return this.error('Job not found');
+      }
+      if (job.status !== 'quote') {
+        return this.error('Options can only be added to quotes');
+      }
+
+      const seasonal = await this.resolveSeasonalAdjustment(companyId, job.requested_start_date);
+      if (!seasonal.success) {
+        return this.error(seasonal.error || 'Failed to load pricing calendar');
+      }
+
+      const recipeResult = await quoteTierRecipeService.resolveRecipe(companyId, input.service_config_id, input.recipe_id);
+      if (!recipeResult.success) {
+        return this.error(recipeResult.error || 'Failed to load quote tier recipe');
+      }
+      const recipe = recipeResult.data ?? null;
+      const tiers = recipe?.tiers ?? DEFAULT_QUOTE_TIERS;
+      const selectedTier = resolveRecommendedTier(tiers, recipe?.recommended_tier);
+
+      // Material grades need the service's catalog
+      let materialsByCategory = null;
+      if (tiers.some(tier => tier.materialGrade)) {
+        const { data, error } = await fetchAllMaterialsForService(companyId, input.service_config_id);
+        if (error) {
+          return this.error('Failed to load materials for grade selection', error);
+        }
+        materialsByCategory = data;
+      }
+
+      const optionGroupId = crypto.randomUUID();
+      const now = new Date().toISOString();
+      const rows = [];
+
+      for (const derived of deriveQuoteTiers(input.pricing_variables, tiers, materialsByCategory)) {
+        const result = await this.calculateServicePricing(
+          companyId,
+          input.service_config_id,
+          derived.pricingVariables,
+          input.quantity,
+          seasonal.data
+        );
+
+        if (!result.success || !result.data) {
+          return this.error(result.error || `Failed to price the ${derived.tier.label} option`);
+        }
+
+        const calculation = result.data;
+        rows.push({
+          job_id: jobId,
+          service_config_id: input.service_config_id,
+          service_name: input.service_name,
+          service_description: derived.tier.description || input.service_description || null,
+          quantity: input.quantity || 1,
+          unit_price: calculation.tier2Results?.pricePerSqft ?? 0,
+          total_price: calculation.tier2Results?.total ?? 0,
+          calculation_data: calculation,
+          pricing_variables: derived.pricingVariables,
+          config_revision_id: calculation.configRevisionId ?? null,
+          pricing_snapshot_hash: calculation.snapshotHash ?? null,
+          priced_at: now,
+          option_group_id: optionGroupId,
+          option_tier: derived.tier.key,
+          option_label: derived.tier.label,
+          is_selected_option: derived.tier.key === selectedTier,
+          quote_tier_recipe_id: recipe?.id ?? null,
+          metadata: derived.unmatchedGradeCategories.length > 0
+            ? { unmatchedGradeCategories: derived.unmatchedGradeCategories }
+            : {},
+          added_by_user_id: input.added_by_user_id,
+          created_at: now,
+          updated_at: now
+        });
+      }
+
+      const { data, error } = await this.supabase
+        .from('job_services')
+        .insert(rows)
+        .select();
+
+      if (error) {
+        return this.error('Failed to save quote options', error);
+      }
+
+      await this.updateJobTotals(jobId);
+
+      const byTier = new Map((data || []).map(line => [line.option_tier, line]));
+      console.log('[JobService] Quote options added:', optionGroupId);
+      return this.success({
+        option_group_id: optionGroupId,
+        job_id: jobId,
+        recipe_id: recipe?.id ?? null,
+        selected_tier: selectedTier,
+        options: tiers.map(tier => byTier.get(tier.key)).filter(Boolean) as JobServiceType[]
+      });
+
+    } catch (error: any) {
+      console.error('[JobService] Error adding quote options:', error);
+      return this.error('Failed to add quote options', error);
+    }
+  }
+
+  /**
+   * Choose which option of a group counts toward the quote total
+   */
+  async selectQuoteOption(
+    jobId: string,
+    companyId: string,
+    optionGroupId: string,
+    optionTier: string
+  ): Promise<ServiceResponse<JobServiceType[]>> {
+    try {
+      const { data: options } = await this.supabase
+        .from('job_services')
+        .select(`
+          id,
+          option_tier,
+          jobs!inner (company_id, status)
+        `)
+        .eq('job_id', jobId)
+        .eq('option_group_id', optionGroupId);
+
+      if (!options?.length || options[0].jobs?.company_id !== companyId) {
+        return this.error('Quote options not found');
+      }
+      if (options[0].jobs.status !== 'quote') {
+        return this.error('Options can only be changed on quotes');
+      }
+
+      const selected = options.find(option => option.option_tier === optionTier);
+      if (!selected) {
+        return this.error(`Option "${optionTier}" is not in this group`);
+      }
+
+      const { error: clearError } = await this.supabase
+        .from('job_services')
+        .update({ is_selected_option: false, updated_at: new Date().toISOString() })
+        .eq('option_group_id', optionGroupId)
+        .neq('id', selected.id);
+
+      if (clearError) {
+        return this.error('Failed to update quote options', clearError);
+      }
+
+      const { error: selectError } = await this.supabase
+        .from('job_services')
+        .update({ is_selected_option: true, updated_at: new Date().toISOString() })
+        .eq('id', selected.id);
+
+      if (selectError) {
+        return this.error('Failed to update quote options', selectError);
+      }
+
+      await this.updateJobTotals(jobId);
+
+      const { data, error } = await this.supabase
+        .from('job_services')
+        .select('*')
+        .eq('option_group_id', optionGroupId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        return this.error('Failed to load quote options', error);
+      }
+
+      return this.success(data || []);
+
+    } catch (error: any) {
+      console.error('[JobService] Error selecting quote option:', error);
+      return this.error('Failed to select quote option', error);
+    }
+  }
+
   /**
    * Update job status with validation
    */
@@ -694,7 +1079,19 @@ export class JobService {
           break;
       }
 
-      return this.updateJob(jobId, companyId, updates);
+      const result = await this.updateJob(jobId, companyId, updates);
+
+      // Reserve, consume or release the job's yard stock
+      if (result.success) {
+        await inventoryService.syncJobStock(jobId, newStatus, userId);
+      }
+
+      // A cancelled job no longer holds equipment
+      if (result.success && newStatus === 'cancelled') {
+        await equipmentService.releaseForJob(jobId);
+      }
+
+      return result;
 
     } catch (error: any) {
       console.error('[JobService] Error updating job status:', error);
@@ -730,6 +1127,100 @@ export class JobService {
     return `JOB-${year}-${String(nextNumber).padStart(4, '0')}`;
   }
 
+  /**
+   * Pricing calendar / backlog adjustment for a job's requested start date
+   * Undefined when the job has no start date or nothing applies
+   */
+  private async resolveSeasonalAdjustment(
+    companyId: string,
+    requestedStartDate: string | null | undefined
+  ): Promise<ServiceResponse<SeasonalAdjustment | undefined>> {
+    const result = await pricingCalendarService.resolveAdjustment(companyId, requestedStartDate);
+    if (!result.success) {
+      return this.error(result.error || 'Failed to load pricing calendar');
+    }
+    return this.success(result.data ?? undefined);
+  }
+
+  /**
+   * Run the master pricing engine for a single service line
+   * Resolves the pricing config row to its SERVICE_REGISTRY entry first
+   */
+  private async calculateServicePricing(
+    companyId: string,
+    serviceConfigId: string,
+    pricingVariables: Record<string, any> = {},
+    quantity?: number,
+    seasonal?: SeasonalAdjustment
+  ): Promise<ServiceResponse<ServiceCalculationData>> {
+    const { data: serviceConfig, error: configError } = await this.supabase
+      .from('svc_pricing_configs')
+      .select('id, service_name')
+      .eq('id', serviceConfigId)
+      .eq('company_id', companyId)
+      .single();
+
+    if (configError || !serviceConfig) {
+      return this.error('Service configuration not found', configError);
+    }
+
+    const serviceName = serviceConfig.service_name;
+    if (!isValidServiceId(serviceName)) {
+      return this.error(`Service "${serviceName}" is not registered in the service registry`);
+    }
+
+    // Size can come from the variables (Quick Calculator shape) or the line quantity
+    const { sqft: sqftVariable, ...values } = pricingVariables;
+    const sqft = Number(sqftVariable) || quantity || 0;
+    if (sqft <= 0) {
+      return this.error(`Quantity (${SERVICE_REGISTRY[serviceName].unit}) is required to price ${serviceName}`);
+    }
+
+    // Quantities stay imperial; only material quantity displays follow the company units
+    const unitSystem = await unitSystemService.resolveUnitSystem(companyId);
+
+    let result: CalculationResult<typeof values>;
+    try {
+      result = await masterPricingEngine.calculatePricing(
+        values,
+        sqft,
+        serviceName,
+        companyId,
+        serviceConfigId,
+        { seasonal, unitSystem }
+      );
+    } catch (error) {
+      // A required material category with nothing active to quote
+      if (error instanceof MissingMaterialError) {
+        return this.error(error.message, error);
+      }
+      throw error;
+    }
+
+    // Freeze which config revision + inputs produced this price, and the price itself
+    const revision = await pricingConfigRevisionService.getLatestRevision(serviceConfigId);
+    const configRevision = revision.success ? revision.data ?? null : null;
+    const snapshotHash = await hashPricingSnapshot({
+      serviceConfigId,
+      configRevisionId: configRevision?.id ?? null,
+      quantity: sqft,
+      pricingVariables: values,
+      unitSystem,
+      tier1Results: result.tier1Results,
+      tier2Results: result.tier2Results
+    });
+
+    return this.success({
+      ...result,
+      serviceId: serviceName,
+      unit: SERVICE_REGISTRY[serviceName].unit,
+      unitSystem,
+      configRevisionId: configRevision?.id ?? null,
+      configRevisionNumber: configRevision?.revision_number ?? null,
+      snapshotHash
+    });
+  }
+
   /**
    * Validate job status transitions
    */
@@ -748,24 +1239,94 @@ export class JobService {
   }
 
   /**
-   * Update job totals from services
+   * Component split of a line for sales tax
+   * Engine-priced lines split by tier2Results; manual lines are 'other'
+   */
+  private taxableAmountsForLine(totalPrice: number, calculation?: ServiceCalculationData | null): TaxableAmounts {
+    return calculation?.tier2Results
+      ? taxableAmountsFromTier2(calculation.tier2Results)
+      : { other: totalPrice };
+  }
+
+  /**
+   * Update job totals, travel, delivery and sales tax from services
+   * Tax jurisdiction and travel distance come from the job's service_zip /
+   * service_state; delivery dates from the first crew assignment (or the
+   * scheduled / requested start). Unselected quote options (alternatives)
+   * are not counted
    */
   private async updateJobTotals(jobId: string): Promise<void> {
     try {
       // Calculate totals from job_services
       const { data } = await this.supabase
         .from('job_services')
-        .select('total_price')
-        .eq('job_id', jobId);
+        .select('total_price, calculation_data')
+        .eq('job_id', jobId)
+        .eq('is_selected_option', true);
+
+      const servicesTotal = data?.reduce((sum, s) => sum + (s.total_price || 0), 0) || 0;
+
+      const updates: Record<string, any> = {
+        estimated_total: servicesTotal,
+        updated_at: new Date().toISOString()
+      };
+
+      const { data: job } = await this.supabase
+        .from('jobs')
+        .select('company_id, service_zip, service_state, scheduled_start_date, requested_start_date')
+        .eq('id', jobId)
+        .single();
+
+      if (job) {
+        const taxableAmounts = (data || []).map(s => this.taxableAmountsForLine(s.total_price || 0, s.calculation_data as ServiceCalculationData));
+
+        // Round trips follow the days of every selected engine-priced line
+        const totalDays = (data || []).reduce(
+          (sum, s) => sum + ((s.calculation_data as ServiceCalculationData | null)?.tier1Results?.totalDays ?? 0),
+          0
+        );
+        let travelCost = 0;
+        const travel = await travelService.calculateJobTravel(job.company_id, job.service_zip, totalDays);
+        if (travel.success) {
+          travelCost = travel.data?.cost ?? 0;
+          updates.travel_cost = travelCost;
+          updates.travel_details = travel.data ?? null;
+          if (travelCost) taxableAmounts.push({ other: travelCost });
+        }
+
+        let deliveryCost = 0;
+        const breakdowns = (data || [])
+          .map(s => (s.calculation_data as ServiceCalculationData | null)?.tier2Results?.materialBreakdown)
+          .filter((breakdown): breakdown is MaterialCalculationResult => !!breakdown);
+        const start = (await deliveryService.getJobScheduledStart(jobId)) ??
+          job.scheduled_start_date ??
+          job.requested_start_date;
+        const delivery = await deliveryService.planDelivery(job.company_id, breakdowns, start);
+        if (delivery.success) {
+          deliveryCost = delivery.data?.totalFee ?? 0;
+          updates.delivery_cost = deliveryCost;
+          updates.delivery_details = delivery.data ?? null;
+          if (deliveryCost) taxableAmounts.push({ other: deliveryCost });
+        }
+
+        updates.estimated_total = Math.round((servicesTotal + travelCost + deliveryCost) * 100) / 100;
 
-      const total = data?.reduce((sum, s) => sum + (s.total_price || 0), 0) || 0;
+        const tax = await taxJurisdictionService.calculateTax(
+          job.company_id,
+          { zip: job.service_zip, state: job.service_state },
+          addTaxableAmounts(...taxableAmounts)
+        );
+
+        if (tax.success && tax.data) {
+          updates.tax_jurisdiction_id = tax.data.jurisdictionId;
+          updates.tax_total = tax.data.taxTotal;
+          updates.tax_lines = tax.data.lines;
+        }
+      }
 
       await this.supabase
         .from('jobs')
-        .update({
-          estimated_total: total,
-          updated_at: new Date().toISOString()
-        })
+        .update(updates)
         .eq('id', jobId);
 
     } catch (error) {
@@ -0,0 +1,194 @@
+/**
+ * Material Catalog Service - Company Material Master
+ *
+ * Reads and edits the company material catalog (migration 41). Catalog
+ * changes reach every linked service row through the catalog trigger;
+ * materialsService resolves service rows through the catalog when
+ * calculators load them (see material-catalog.ts).
+ *
+ * Existing per-service rows are merged into the catalog by
+ * migrate_materials_to_catalog(), previewed first with
+ * planCatalogMigration().
+ *
+ * @module MaterialCatalogService
+ */
+
+import { getSupabase } from './supabase';
+import { ServiceResponse } from '../types/customer';
+import type { CatalogMaterial, CatalogMaterialWithLinks, ServiceMaterial } from '../types/materials';
+import {
+  planCatalogMigration,
+  type CatalogMigrationGroup,
+  type CatalogSharedField
+} from '../pricing-system/utils/material-catalog';
+
+export type CatalogMaterialChanges = Partial<Pick<CatalogMaterial, CatalogSharedField | 'is_active'>>;
+
+export class MaterialCatalogService {
+  private supabase = getSupabase();
+
+  /**
+   * Catalog materials with the service rows using them, by category and name
+   */
+  async getCatalog(companyId: string): Promise<ServiceResponse<CatalogMaterialWithLinks[]>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('material_catalog')
+        .select('*, links:svc_materials(id, service_config_id)')
+        .eq('company_id', companyId)
+        .order('catalog_category')
+        .order('material_name');
+
+      if (error) {
+        return this.error('Failed to load material catalog', error);
+      }
+
+      const rows = (data || []) as Array<CatalogMaterial & { links: CatalogMaterialWithLinks['links'] | null }>;
+      return this.success(rows.map(material => ({
+        ...material,
+        price_per_unit: Number(material.price_per_unit),
+        links: material.links || []
+      })));
+    } catch (error: any) {
+      return this.error('Unexpected error loading material catalog', error);
+    }
+  }
+
+  /**
+   * Update a catalog material in every service that uses it
+   *
+   * A price change is recorded in each linked row's price history.
+   */
+  async updateCatalogMaterial(
+    catalogMaterialId: string,
+    companyId: string,
+    changes: CatalogMaterialChanges,
+    userId: string
+  ): Promise<ServiceResponse<CatalogMaterial>> {
+    try {
+      if (changes.material_name !== undefined && !changes.material_name.trim()) {
+        return this.error('Material name is required');
+      }
+      if (changes.price_per_unit !== undefined && !(changes.price_per_unit >= 0)) {
+        return this.error('Price must be zero or more');
+      }
+
+      const { data: current, error: currentError } = await this.supabase
+        .from('material_catalog')
+        .select('price_per_unit, links:svc_materials(id)')
+        .eq('id', catalogMaterialId)
+        .eq('company_id', companyId)
+        .single();
+
+      if (currentError) {
+        return this.error('Failed to load catalog material', currentError);
+      }
+
+      const { data, error } = await this.supabase
+        .from('material_catalog')
+        .update({ ...changes, updated_by: userId, updated_at: new Date().toISOString() })
+        .eq('id', catalogMaterialId)
+        .eq('company_id', companyId)
+        .select()
+        .single();
+
+      if (error) {
+        if (error.code === '23505') {
+          return this.error('The catalog already has this material from this supplier');
+        }
+        return this.error('Failed to update catalog material', error);
+      }
+
+      const currentRow = current as { price_per_unit: number; links: Array<{ id: string }> | null };
+      const previousPrice = Number(currentRow.price_per_unit);
+      const links = currentRow.links || [];
+      if (changes.price_per_unit !== undefined && changes.price_per_unit !== previousPrice && links.length > 0) {
+        const { error: historyError } = await this.supabase
+          .from('svc_material_price_history')
+          .insert(links.map(link => ({
+            company_id: companyId,
+            material_id: link.id,
+            price_per_unit: changes.price_per_unit,
+            previous_price: previousPrice,
+            source: 'catalog',
+            changed_by: userId
+          })));
+
+        if (historyError) {
+          // Prices are already updated - report, don't fail the edit
+          console.error('[MaterialCatalogService] Failed to record price history', historyError);
+        }
+      }
+
+      return this.success(data as CatalogMaterial);
+    } catch (error: any) {
+      return this.error('Unexpected error updating catalog material', error);
+    }
+  }
+
+  /**
+   * How the company's service-only materials would merge into the catalog
+   * (nothing is written)
+   */
+  async previewMigration(companyId: string): Promise<ServiceResponse<CatalogMigrationGroup[]>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('svc_materials')
+        .select('*')
+        .eq('company_id', companyId)
+        .is('catalog_material_id', null);
+
+      if (error) {
+        return this.error('Failed to load materials', error);
+      }
+
+      return this.success(planCatalogMigration((data || []) as ServiceMaterial[]));
+    } catch (error: any) {
+      return this.error('Unexpected error previewing catalog migration', error);
+    }
+  }
+
+  /**
+   * Merge service-only materials into the catalog
+   *
+   * @returns Number of service rows linked
+   */
+  async migrateToCatalog(companyId: string): Promise<ServiceResponse<number>> {
+    try {
+      const { data, error } = await this.supabase.rpc('migrate_materials_to_catalog', {
+        p_company_id: companyId
+      });
+
+      if (error) {
+        return this.error('Failed to move materials to the catalog', error);
+      }
+
+      console.log(`[MaterialCatalogService] Linked ${data} service materials to the catalog`);
+
+      return this.success(Number(data) || 0);
+    } catch (error: any) {
+      return this.error('Unexpected error moving materials to the catalog', error);
+    }
+  }
+
+  /**
+   * Success response helper
+   */
+  private success<T>(data: T): ServiceResponse<T> {
+    return { success: true, data };
+  }
+
+  /**
+   * Error response helper
+   */
+  private error(message: string, error?: any): ServiceResponse<never> {
+    console.error(`[MaterialCatalogService] ${message}`, error);
+    return {
+      success: false,
+      error: message
+    };
+  }
+}
+
+// Export singleton instance
+export const materialCatalogService = new MaterialCatalogService();
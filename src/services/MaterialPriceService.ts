@@ -0,0 +1,217 @@
+/**
+ * Material Price Service - Supplier Price Lists & Price History
+ *
+ * Previews and applies supplier CSV price lists against the company's
+ * svc_materials (matched by supplier + SKU or name, see price-list-import.ts),
+ * records every price change in svc_material_price_history (migration 35;
+ * imports apply in one transaction, migration 42), and finds open quotes
+ * whose frozen material prices are out of date.
+ *
+ * @module MaterialPriceService
+ */
+
+import { getSupabase } from './supabase';
+import { ServiceResponse } from '../types/customer';
+import type { MaterialPriceHistoryEntry } from '../types/materials';
+import type { ServiceCalculationData } from '../types/crm';
+import {
+  findOutdatedMaterialPrices,
+  previewPriceList,
+  type OutdatedMaterialPrice,
+  type PriceListChange,
+  type PriceListMaterial,
+  type PriceListPreview
+} from '../pricing-system/utils/price-list-import';
+
+// Quotes that can still be re-priced before the customer signs
+export const OPEN_QUOTE_STATUSES = ['quote', 'approved', 'scheduled'];
+
+export interface PriceListImportResult {
+  batchId: string;
+  updated: number;
+  skusAssigned: number;
+}
+
+export class MaterialPriceService {
+  private supabase = getSupabase();
+
+  /**
+   * Match a price list against the company's active materials
+   * (nothing is written)
+   */
+  async previewImport(
+    companyId: string,
+    csvText: string,
+    defaultSupplier?: string | null
+  ): Promise<ServiceResponse<PriceListPreview>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('svc_materials')
+        .select('id, material_name, supplier_name, supplier_sku, price_per_unit')
+        .eq('company_id', companyId)
+        .eq('is_active', true);
+
+      if (error) {
+        return this.error('Failed to load materials', error);
+      }
+
+      const preview = previewPriceList(csvText, (data || []) as PriceListMaterial[], defaultSupplier);
+      if (preview.errors.length > 0) {
+        return this.error(preview.errors.join('; '));
+      }
+
+      return this.success(preview);
+    } catch (error: any) {
+      return this.error('Unexpected error reading price list', error);
+    }
+  }
+
+  /**
+   * Apply the 'update' lines of a preview and record them as one import
+   *
+   * All or nothing (apply_price_list_import, migration 42): fails without
+   * changing anything if a price was edited since the preview.
+   */
+  async applyImport(
+    companyId: string,
+    changes: PriceListChange[],
+    fileName?: string | null
+  ): Promise<ServiceResponse<PriceListImportResult>> {
+    try {
+      const updates = changes.filter(change =>
+        change.status === 'update' && change.materialId && change.newPrice !== null
+      );
+      if (updates.length === 0) {
+        return this.error('No price changes to apply');
+      }
+
+      const { data, error } = await this.supabase
+        .rpc('apply_price_list_import', {
+          p_company_id: companyId,
+          p_file_name: fileName || null,
+          p_items: updates.map(change => ({
+            id: change.materialId,
+            label: change.materialName,
+            line: change.line,
+            oldPrice: change.oldPrice,
+            newPrice: change.newPrice,
+            sku: change.sku,
+            assignSku: change.assignSku
+          }))
+        })
+        .single();
+
+      if (error || !data) {
+        // Stale preview messages come from the function
+        return this.error(error?.message?.includes('since the preview')
+          ? `${error.message} - preview the price list again`
+          : 'Failed to apply price list', error);
+      }
+
+      return this.success({
+        batchId: data.batch_id,
+        updated: data.updated,
+        skusAssigned: data.skus_assigned
+      });
+    } catch (error: any) {
+      return this.error('Unexpected error applying price list', error);
+    }
+  }
+
+  /**
+   * A material's prices, oldest first
+   */
+  async getPriceHistory(materialId: string): Promise<ServiceResponse<MaterialPriceHistoryEntry[]>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('svc_material_price_history')
+        .select('*')
+        .eq('material_id', materialId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        return this.error('Failed to load price history', error);
+      }
+
+      return this.success((data || []) as MaterialPriceHistoryEntry[]);
+    } catch (error: any) {
+      return this.error('Unexpected error loading price history', error);
+    }
+  }
+
+  /**
+   * Open quote lines priced with a material price that has since changed
+   *
+   * @param materialIds - Limit to these materials (all when omitted)
+   */
+  async findQuotesUsingOldPrices(
+    companyId: string,
+    materialIds?: string[]
+  ): Promise<ServiceResponse<OutdatedMaterialPrice[]>> {
+    try {
+      let materialsQuery = this.supabase
+        .from('svc_materials')
+        .select('id, price_per_unit')
+        .eq('company_id', companyId);
+
+      if (materialIds && materialIds.length > 0) {
+        materialsQuery = materialsQuery.in('id', materialIds);
+      }
+
+      const { data: materials, error: materialsError } = await materialsQuery;
+      if (materialsError) {
+        return this.error('Failed to load materials', materialsError);
+      }
+
+      const { data: lines, error: linesError } = await this.supabase
+        .from('job_services')
+        .select('id, job_id, priced_at, calculation_data, job:jobs!inner(company_id, job_number, status)')
+        .eq('job.company_id', companyId)
+        .in('job.status', OPEN_QUOTE_STATUSES);
+
+      if (linesError) {
+        return this.error('Failed to load quotes', linesError);
+      }
+
+      const currentPrices = new Map<string, number>(
+        (materials || []).map((material: any) => [material.id, Number(material.price_per_unit)])
+      );
+
+      const outdated = findOutdatedMaterialPrices(
+        (lines || []).map((line: any) => ({
+          jobServiceId: line.id,
+          jobId: line.job_id,
+          jobNumber: line.job?.job_number ?? null,
+          pricedAt: line.priced_at ?? null,
+          materialBreakdown: (line.calculation_data as ServiceCalculationData | null)?.tier2Results?.materialBreakdown
+        })),
+        currentPrices
+      );
+
+      return this.success(outdated);
+    } catch (error: any) {
+      return this.error('Unexpected error finding outdated quotes', error);
+    }
+  }
+
+  /**
+   * Success response helper
+   */
+  private success<T>(data: T): ServiceResponse<T> {
+    return { success: true, data };
+  }
+
+  /**
+   * Error response helper
+   */
+  private error(message: string, error?: any): ServiceResponse<never> {
+    console.error(`[MaterialPriceService] ${message}`, error);
+    return {
+      success: false,
+      error: message
+    };
+  }
+}
+
+// Export singleton instance
+export const materialPriceService = new MaterialPriceService();
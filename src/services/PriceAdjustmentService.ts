@@ -0,0 +1,270 @@
+/**
+ * Price Adjustment Service - Bulk Material & Labor Rate Changes
+ *
+ * Previews a percent or fixed change across the company's material prices
+ * and labor rates (see bulk-price-adjustment.ts) with its estimated effect
+ * on open quotes, and applies it as one change set through
+ * apply_price_change_set (migration 40) - all values or none.
+ *
+ * Changed labor rates update svc_pricing_configs, so the master engine's
+ * realtime subscription republishes them to every open calculator.
+ * Catalog materials (migration 41) are changed once and reach every
+ * service that uses them.
+ *
+ * @module PriceAdjustmentService
+ */
+
+import { getSupabase } from './supabase';
+import { ServiceResponse } from '../types/customer';
+import type { ServiceCalculationData } from '../types/crm';
+import type {
+  PriceAdjustment,
+  PriceAdjustmentPreview,
+  PriceAdjustmentTargets,
+  PriceChangeItem,
+  PriceChangeSet
+} from '../types/price-adjustments';
+import {
+  estimateQuoteImpact,
+  previewPriceAdjustment,
+  validatePriceAdjustment,
+  type AdjustableQuoteLine
+} from '../pricing-system/utils/bulk-price-adjustment';
+import { OPEN_QUOTE_STATUSES } from './MaterialPriceService';
+import { masterPricingEngine } from '../pricing-system/core/calculations/master-pricing-engine';
+
+const CHANGE_SET_SELECT = `
+  *,
+  author:users!svc_price_change_sets_created_by_fkey (
+    name,
+    email
+  ),
+  items:svc_price_change_set_items (*)
+`;
+
+export class PriceAdjustmentService {
+  private supabase = getSupabase();
+
+  /**
+   * Active materials, labor rates and categories an adjustment can touch
+   */
+  async getTargets(companyId: string): Promise<ServiceResponse<PriceAdjustmentTargets>> {
+    try {
+      const [materials, configs, categories] = await Promise.all([
+        this.supabase
+          .from('svc_materials')
+          .select('id, material_name, material_category, service_config_id, supplier_name, material_grade, price_per_unit, catalog_material_id')
+          .eq('company_id', companyId)
+          .eq('is_active', true)
+          .order('material_name'),
+        this.supabase
+          .from('svc_pricing_configs')
+          .select('id, service_name, hourly_labor_rate, profit_margin')
+          .eq('company_id', companyId)
+          .eq('is_active', true)
+          .order('service_name'),
+        this.supabase
+          .from('svc_material_categories')
+          .select('service_config_id, category_key, category_label')
+          .eq('company_id', companyId)
+          .eq('is_active', true)
+          .order('sort_order')
+      ]);
+
+      const error = materials.error || configs.error || categories.error;
+      if (error) {
+        return this.error('Failed to load prices', error);
+      }
+
+      return this.success({
+        materials: (materials.data || []).map((material: any) => ({
+          ...material,
+          price_per_unit: Number(material.price_per_unit)
+        })),
+        laborRates: (configs.data || []).map((config: any) => ({
+          ...config,
+          hourly_labor_rate: Number(config.hourly_labor_rate),
+          profit_margin: Number(config.profit_margin)
+        })),
+        categories: categories.data || []
+      });
+    } catch (error: any) {
+      return this.error('Unexpected error loading prices', error);
+    }
+  }
+
+  /**
+   * Values the adjustment changes and its estimated effect on open quotes
+   * (nothing is written)
+   */
+  async previewAdjustment(
+    companyId: string,
+    adjustment: PriceAdjustment
+  ): Promise<ServiceResponse<PriceAdjustmentPreview>> {
+    try {
+      const validation = validatePriceAdjustment(adjustment);
+      if (validation) return this.error(validation);
+
+      const targets = await this.getTargets(companyId);
+      if (!targets.success || !targets.data) {
+        return this.error(targets.error || 'Failed to load prices');
+      }
+
+      const items = previewPriceAdjustment(adjustment, targets.data.materials, targets.data.laborRates);
+      if (items.length === 0) {
+        return this.success({ items, quoteImpact: [] });
+      }
+
+      // Selected options of open quotes - alternatives aren't in the total
+      const { data: lines, error } = await this.supabase
+        .from('job_services')
+        .select('job_id, service_config_id, total_price, calculation_data, job:jobs!inner(company_id, job_number, status)')
+        .eq('job.company_id', companyId)
+        .in('job.status', OPEN_QUOTE_STATUSES)
+        .eq('is_selected_option', true);
+
+      if (error) {
+        return this.error('Failed to load quotes', error);
+      }
+
+      const quoteLines: AdjustableQuoteLine[] = (lines || []).map((line: any) => {
+        const calculation = line.calculation_data as ServiceCalculationData | null;
+        return {
+          jobId: line.job_id,
+          jobNumber: line.job?.job_number ?? null,
+          serviceConfigId: line.service_config_id,
+          total: Number(line.total_price) || 0,
+          totalManHours: calculation?.tier1Results?.totalManHours ?? 0,
+          materialBreakdown: calculation?.tier2Results?.materialBreakdown
+        };
+      });
+      const profitMargins = new Map(targets.data.laborRates.map(rate => [rate.id, rate.profit_margin]));
+
+      return this.success({
+        items,
+        quoteImpact: estimateQuoteImpact(quoteLines, items, profitMargins)
+      });
+    } catch (error: any) {
+      return this.error('Unexpected error previewing adjustment', error);
+    }
+  }
+
+  /**
+   * Apply previewed changes as one change set
+   *
+   * Fails without changing anything if a value was edited since the preview.
+   */
+  async applyAdjustment(
+    companyId: string,
+    adjustment: PriceAdjustment,
+    items: PriceChangeItem[],
+    description: string
+  ): Promise<ServiceResponse<PriceChangeSet>> {
+    try {
+      if (!description.trim()) {
+        return this.error('Enter a reason for the adjustment');
+      }
+      if (items.length === 0) {
+        return this.error('No prices to change');
+      }
+
+      const { data, error } = await this.supabase.rpc('apply_price_change_set', {
+        p_company_id: companyId,
+        p_description: description.trim(),
+        p_mode: adjustment.mode,
+        p_amount: adjustment.amount,
+        p_scope: adjustment.scope,
+        p_filters: adjustment.filters,
+        p_items: items.map(item => ({
+          itemType: item.itemType,
+          id: item.id,
+          label: item.label,
+          oldValue: item.oldValue,
+          newValue: item.newValue
+        }))
+      });
+
+      if (error) {
+        // Stale preview messages come from the function
+        return this.error(error.message?.includes('since the preview')
+          ? `${error.message} - preview again`
+          : 'Failed to apply price adjustment', error);
+      }
+
+      // Catalog-linked rows took the price through the catalog trigger
+      const linkedHistory = items.flatMap(item => (item.linkedMaterialIds ?? []).map(materialId => ({
+        company_id: companyId,
+        material_id: materialId,
+        price_per_unit: item.newValue,
+        previous_price: item.oldValue,
+        source: 'adjustment',
+        change_set_id: data.id,
+        changed_by: data.created_by
+      })));
+      if (linkedHistory.length > 0) {
+        const { error: historyError } = await this.supabase
+          .from('svc_material_price_history')
+          .insert(linkedHistory);
+
+        if (historyError) {
+          // Prices are already updated - report, don't fail the adjustment
+          console.error('[PriceAdjustmentService] Failed to record linked price history', historyError);
+        }
+      }
+
+      // Local cache - other clients refresh via the realtime subscription
+      for (const item of items.filter(item => item.itemType === 'labor_rate')) {
+        masterPricingEngine.clearCache(item.label, companyId);
+      }
+
+      console.log(`[PriceAdjustmentService] Applied change set ${data.id}: ${items.length} values`);
+
+      return this.success(data as PriceChangeSet);
+    } catch (error: any) {
+      return this.error('Unexpected error applying price adjustment', error);
+    }
+  }
+
+  /**
+   * Applied change sets with their values, newest first
+   */
+  async getChangeSets(companyId: string, limit: number = 20): Promise<ServiceResponse<PriceChangeSet[]>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('svc_price_change_sets')
+        .select(CHANGE_SET_SELECT)
+        .eq('company_id', companyId)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        return this.error('Failed to load price changes', error);
+      }
+
+      return this.success((data || []) as PriceChangeSet[]);
+    } catch (error: any) {
+      return this.error('Unexpected error loading price changes', error);
+    }
+  }
+
+  /**
+   * Success response helper
+   */
+  private success<T>(data: T): ServiceResponse<T> {
+    return { success: true, data };
+  }
+
+  /**
+   * Error response helper
+   */
+  private error(message: string, error?: any): ServiceResponse<never> {
+    console.error(`[PriceAdjustmentService] ${message}`, error);
+    return {
+      success: false,
+      error: message
+    };
+  }
+}
+
+// Export singleton instance
+export const priceAdjustmentService = new PriceAdjustmentService();
@@ -0,0 +1,293 @@
+/**
+ * Pricing Calendar Service - Seasonal & Demand Pricing
+ *
+ * Maintains the company pricing calendar and backlog surcharge
+ * (migration 31) and resolves the adjustment the pricing engine applies
+ * for a job's requested start date. Backlog is read from crew hours
+ * already scheduled in job_assignments.
+ *
+ * @module PricingCalendarService
+ */
+
+import { getSupabase } from './supabase';
+import { ServiceResponse } from '../types/customer';
+import type {
+  CompanyPricingCalendar,
+  CreatePricingCalendarPeriodInput,
+  PricingCalendarPeriodRow,
+  UpdatePricingCalendarPeriodInput
+} from '../types/pricing-calendar';
+import {
+  assignmentCrewHours,
+  backlogWindow,
+  normalizeBacklogRule,
+  resolveSeasonalAdjustment,
+  type BacklogSurchargeRule,
+  type PricingCalendarPeriod,
+  type SeasonalAdjustment
+} from '../pricing-system/core/calculations/seasonal-pricing';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export class PricingCalendarService {
+  private supabase = getSupabase();
+
+  /**
+   * Calendar periods (by start date) and backlog rule for a company
+   */
+  async getCalendar(companyId: string): Promise<ServiceResponse<CompanyPricingCalendar>> {
+    try {
+      const { data: periods, error: periodsError } = await this.supabase
+        .from('pricing_calendar_periods')
+        .select('*')
+        .eq('company_id', companyId)
+        .eq('is_active', true)
+        .order('start_date', { ascending: true });
+
+      if (periodsError) {
+        return this.error('Failed to load pricing calendar', periodsError);
+      }
+
+      const { data: company, error: companyError } = await this.supabase
+        .from('companies')
+        .select('backlog_surcharge')
+        .eq('id', companyId)
+        .single();
+
+      if (companyError) {
+        return this.error('Failed to load backlog surcharge', companyError);
+      }
+
+      return this.success({
+        periods: (periods || []) as PricingCalendarPeriodRow[],
+        backlogRule: normalizeBacklogRule((company as { backlog_surcharge: unknown } | null)?.backlog_surcharge)
+      });
+    } catch (error: any) {
+      return this.error('Unexpected error loading pricing calendar', error);
+    }
+  }
+
+  /**
+   * Add a calendar period
+   */
+  async createPeriod(input: CreatePricingCalendarPeriodInput): Promise<ServiceResponse<PricingCalendarPeriodRow>> {
+    try {
+      const validation = this.validatePeriod(input);
+      if (validation) return this.error(validation);
+
+      const { data, error } = await this.supabase
+        .from('pricing_calendar_periods')
+        .insert({ ...input, name: input.name.trim() })
+        .select()
+        .single();
+
+      if (error) {
+        return this.error('Failed to create pricing period', error);
+      }
+
+      return this.success(data as PricingCalendarPeriodRow);
+    } catch (error: any) {
+      return this.error('Unexpected error creating pricing period', error);
+    }
+  }
+
+  /**
+   * Update a calendar period
+   */
+  async updatePeriod(
+    periodId: string,
+    companyId: string,
+    updates: UpdatePricingCalendarPeriodInput
+  ): Promise<ServiceResponse<PricingCalendarPeriodRow>> {
+    try {
+      const validation = this.validatePeriod(updates);
+      if (validation) return this.error(validation);
+
+      const { data, error } = await this.supabase
+        .from('pricing_calendar_periods')
+        .update({
+          ...updates,
+          ...(updates.name !== undefined && { name: updates.name.trim() })
+        })
+        .eq('id', periodId)
+        .eq('company_id', companyId)
+        .select()
+        .single();
+
+      if (error) {
+        return this.error('Failed to update pricing period', error);
+      }
+
+      return this.success(data as PricingCalendarPeriodRow);
+    } catch (error: any) {
+      return this.error('Unexpected error updating pricing period', error);
+    }
+  }
+
+  /**
+   * Retire a period (quotes already priced keep their adjustment)
+   */
+  async deactivatePeriod(periodId: string, companyId: string): Promise<ServiceResponse<PricingCalendarPeriodRow>> {
+    return this.updatePeriod(periodId, companyId, { is_active: false });
+  }
+
+  /**
+   * Save the backlog surcharge (stored normalized, null clears it)
+   */
+  async updateBacklogRule(
+    companyId: string,
+    rule: BacklogSurchargeRule | null
+  ): Promise<ServiceResponse<BacklogSurchargeRule | null>> {
+    try {
+      if (rule) {
+        if (!Number.isInteger(rule.windowDays) || rule.windowDays <= 0) {
+          return this.error('Backlog window must be a whole number of days');
+        }
+        if (rule.tiers.some(tier => !(tier.hours > 0) || !(tier.percentage > 0) || tier.percentage > 100)) {
+          return this.error('Backlog tiers need hours above 0 and a surcharge between 0% and 100%');
+        }
+      }
+
+      const normalized = normalizeBacklogRule(rule);
+      const { error } = await this.supabase
+        .from('companies')
+        .update({ backlog_surcharge: normalized ?? {} })
+        .eq('id', companyId);
+
+      if (error) {
+        return this.error('Failed to update backlog surcharge', error);
+      }
+
+      return this.success(normalized);
+    } catch (error: any) {
+      return this.error('Unexpected error updating backlog surcharge', error);
+    }
+  }
+
+  /**
+   * Crew hours scheduled for a company in a period
+   * Counts scheduled and in-progress assignments that overlap it
+   */
+  async getScheduledCrewHours(companyId: string, start: string, end: string): Promise<ServiceResponse<number>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('job_assignments')
+        .select('estimated_hours, scheduled_start, scheduled_end, job:jobs!inner(company_id)')
+        .eq('job.company_id', companyId)
+        .in('status', ['scheduled', 'in_progress'])
+        .lt('scheduled_start', end)
+        .gt('scheduled_end', start);
+
+      if (error) {
+        return this.error('Failed to load scheduled crew hours', error);
+      }
+
+      const hours = (data || []).reduce((sum, assignment) => sum + assignmentCrewHours(assignment), 0);
+      return this.success(hours);
+    } catch (error: any) {
+      return this.error('Unexpected error loading scheduled crew hours', error);
+    }
+  }
+
+  /**
+   * Adjustment for a requested start date, passed to the engine as
+   * CalculationOptions.seasonal. Null when nothing applies.
+   */
+  async resolveAdjustment(
+    companyId: string,
+    startDate: string | null | undefined
+  ): Promise<ServiceResponse<SeasonalAdjustment | null>> {
+    if (!startDate || !DATE_PATTERN.test(startDate.slice(0, 10))) {
+      return this.success(null);
+    }
+
+    const calendar = await this.getCalendar(companyId);
+    if (!calendar.success || !calendar.data) {
+      return this.error(calendar.error || 'Failed to load pricing calendar');
+    }
+
+    const { periods, backlogRule } = calendar.data;
+
+    let backlogHours = 0;
+    if (backlogRule) {
+      const window = backlogWindow(startDate, backlogRule.windowDays);
+      const hours = await this.getScheduledCrewHours(companyId, window.start, window.end);
+      if (!hours.success) {
+        return this.error(hours.error || 'Failed to load scheduled crew hours');
+      }
+      backlogHours = hours.data ?? 0;
+    }
+
+    const adjustment = resolveSeasonalAdjustment(
+      startDate,
+      periods.map(row => this.toPeriod(row)),
+      backlogRule,
+      backlogHours
+    );
+
+    const applies = adjustment.periods.length > 0 || adjustment.backlogTier !== null;
+    return this.success(applies ? adjustment : null);
+  }
+
+  /**
+   * Engine shape of a calendar row
+   */
+  private toPeriod(row: PricingCalendarPeriodRow): PricingCalendarPeriod {
+    return {
+      name: row.name,
+      startDate: row.start_date,
+      endDate: row.end_date,
+      recurring: row.recurring,
+      marginAdjustment: Number(row.margin_adjustment),
+      laborRateAdjustment: Number(row.labor_rate_adjustment)
+    };
+  }
+
+  /**
+   * Validate period input, returns an error message or null
+   */
+  private validatePeriod(input: UpdatePricingCalendarPeriodInput): string | null {
+    if (input.name !== undefined && !input.name.trim()) {
+      return 'Period name is required';
+    }
+    if (input.start_date !== undefined && !DATE_PATTERN.test(input.start_date)) {
+      return 'Start date must be YYYY-MM-DD';
+    }
+    if (input.end_date !== undefined && !DATE_PATTERN.test(input.end_date)) {
+      return 'End date must be YYYY-MM-DD';
+    }
+    if (input.recurring === false && input.start_date && input.end_date && input.start_date > input.end_date) {
+      return 'End date must be on or after the start date';
+    }
+    if (input.margin_adjustment !== undefined &&
+        (!Number.isFinite(input.margin_adjustment) || Math.abs(input.margin_adjustment) > 1)) {
+      return 'Margin adjustment must be between -100 and 100 points';
+    }
+    if (input.labor_rate_adjustment !== undefined &&
+        (!Number.isFinite(input.labor_rate_adjustment) || input.labor_rate_adjustment < -100)) {
+      return 'Labor rate cannot drop more than 100%';
+    }
+    return null;
+  }
+
+  /**
+   * Success response helper
+   */
+  private success<T>(data: T): ServiceResponse<T> {
+    return { success: true, data };
+  }
+
+  /**
+   * Error response helper
+   */
+  private error(message: string, error?: any): ServiceResponse<never> {
+    console.error(`[PricingCalendarService] ${message}`, error);
+    return {
+      success: false,
+      error: message
+    };
+  }
+}
+
+// Export singleton instance
+export const pricingCalendarService = new PricingCalendarService();
@@ -0,0 +1,181 @@
+/**
+ * Pricing Config Revision Service - Config History & Rollback
+ *
+ * Reads the immutable revision history of svc_pricing_configs (one revision
+ * per save, written by database trigger), diffs revisions field by field, and
+ * rolls a service back to an older revision.
+ *
+ * Rollback updates svc_pricing_configs, so the master engine's realtime
+ * subscription republishes the restored config to every open calculator.
+ *
+ * @module PricingConfigRevisionService
+ */
+
+import { getSupabase } from './supabase';
+import { ServiceResponse } from '../types/customer';
+import type { ConfigFieldChange, PricingConfigRevision } from '../types/pricing';
+import { diffPricingConfigs } from '../pricing-system/utils/config-diff';
+import { masterPricingEngine } from '../pricing-system/core/calculations/master-pricing-engine';
+
+const REVISION_SELECT = `
+  *,
+  author:users!svc_pricing_config_revisions_created_by_fkey (
+    name,
+    email
+  )
+`;
+
+export class PricingConfigRevisionService {
+  private supabase = getSupabase();
+
+  /**
+   * List revisions for a service, newest first
+   */
+  async getRevisions(
+    companyId: string,
+    serviceName: string,
+    limit: number = 50
+  ): Promise<ServiceResponse<PricingConfigRevision[]>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('svc_pricing_config_revisions')
+        .select(REVISION_SELECT)
+        .eq('company_id', companyId)
+        .eq('service_name', serviceName)
+        .order('revision_number', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        return this.error('Failed to load pricing config revisions', error);
+      }
+
+      return this.success((data || []) as PricingConfigRevision[]);
+    } catch (error: any) {
+      return this.error('Unexpected error loading revisions', error);
+    }
+  }
+
+  /**
+   * Get a single revision
+   */
+  async getRevision(revisionId: string, companyId: string): Promise<ServiceResponse<PricingConfigRevision>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('svc_pricing_config_revisions')
+        .select(REVISION_SELECT)
+        .eq('id', revisionId)
+        .eq('company_id', companyId)
+        .single();
+
+      if (error || !data) {
+        return this.error('Revision not found', error);
+      }
+
+      return this.success(data as PricingConfigRevision);
+    } catch (error: any) {
+      return this.error('Unexpected error loading revision', error);
+    }
+  }
+
+  /**
+   * Latest (live) revision of a config - what a calculation right now is priced from
+   * Returns null when the config has no history yet
+   */
+  async getLatestRevision(
+    configId: string
+  ): Promise<ServiceResponse<Pick<PricingConfigRevision, 'id' | 'revision_number'> | null>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('svc_pricing_config_revisions')
+        .select('id, revision_number')
+        .eq('config_id', configId)
+        .order('revision_number', { ascending: false })
+        .limit(1);
+
+      if (error) {
+        return this.error('Failed to load latest revision', error);
+      }
+
+      return this.success(data?.[0] ?? null);
+    } catch (error: any) {
+      return this.error('Unexpected error loading latest revision', error);
+    }
+  }
+
+  /**
+   * Field-level diff between any two revisions of the same service
+   */
+  async compareRevisions(
+    fromRevisionId: string,
+    toRevisionId: string,
+    companyId: string
+  ): Promise<ServiceResponse<ConfigFieldChange[]>> {
+    const [from, to] = await Promise.all([
+      this.getRevision(fromRevisionId, companyId),
+      this.getRevision(toRevisionId, companyId)
+    ]);
+
+    if (!from.success || !from.data) return this.error(from.error || 'Revision not found');
+    if (!to.success || !to.data) return this.error(to.error || 'Revision not found');
+
+    if (from.data.config_id !== to.data.config_id) {
+      return this.error('Revisions belong to different services');
+    }
+
+    return this.success(diffPricingConfigs(from.data, to.data));
+  }
+
+  /**
+   * Roll a service back to an older revision
+   *
+   * Runs rollback_pricing_config_revision (migration 23): the live config is
+   * overwritten with the revision's values and a NEW revision is recorded
+   * pointing at the one restored. History is never rewritten.
+   */
+  async rollbackToRevision(revisionId: string, companyId: string): Promise<ServiceResponse<PricingConfigRevision>> {
+    try {
+      const revision = await this.getRevision(revisionId, companyId);
+      if (!revision.success || !revision.data) {
+        return this.error(revision.error || 'Revision not found');
+      }
+
+      const { error } = await this.supabase.rpc('rollback_pricing_config_revision', {
+        p_revision_id: revisionId
+      });
+
+      if (error) {
+        return this.error('Failed to roll back pricing config', error);
+      }
+
+      // Local cache - other clients refresh via the realtime subscription
+      masterPricingEngine.clearCache(revision.data.service_name, companyId);
+
+      console.log(`[PricingConfigRevisionService] Rolled back ${revision.data.service_name} to revision ${revision.data.revision_number}`);
+
+      return this.success(revision.data);
+    } catch (error: any) {
+      return this.error('Unexpected error rolling back pricing config', error);
+    }
+  }
+
+  /**
+   * Success response helper
+   */
+  private success<T>(data: T): ServiceResponse<T> {
+    return { success: true, data };
+  }
+
+  /**
+   * Error response helper
+   */
+  private error(message: string, error?: any): ServiceResponse<never> {
+    console.error(`[PricingConfigRevisionService] ${message}`, error);
+    return {
+      success: false,
+      error: message
+    };
+  }
+}
+
+// Export singleton instance
+export const pricingConfigRevisionService = new PricingConfigRevisionService();
@@ -0,0 +1,352 @@
+/**
+ * Purchase Order Service - Supplier Orders from Job Materials
+ *
+ * Generates one purchase order per supplier from the material breakdowns
+ * frozen on approved jobs' service lines (migration 36, see
+ * purchase-orders.ts), moves orders through draft → sent → received (or
+ * cancelled) and renders the printable order. Receiving an order adds it
+ * to yard stock. A job is ordered for once - cancel its order to reorder.
+ *
+ * @module PurchaseOrderService
+ */
+
+import { getSupabase } from './supabase';
+import { ServiceResponse } from '../types/customer';
+import { inventoryService } from './InventoryService';
+import type { ServiceCalculationData } from '../types/crm';
+import type { PurchaseOrder, PurchaseOrderLine, PurchaseOrderStatus } from '../types/purchase-orders';
+import type { MaterialCalculationResult } from '../types/materials';
+import {
+  buildPurchaseOrders,
+  canTransitionPurchaseOrder,
+  findOrderedJobs,
+  nextPurchaseOrderNumber,
+  renderPurchaseOrderHtml,
+  type JobMaterialSource,
+  type PurchaseOrderMaterial
+} from '../pricing-system/utils/purchase-orders';
+
+// Jobs the customer has accepted - quotes aren't ordered for
+const ORDERABLE_JOB_STATUSES = ['approved', 'scheduled', 'in_progress'];
+
+export class PurchaseOrderService {
+  private supabase = getSupabase();
+
+  /**
+   * Create draft purchase orders, one per supplier, for the jobs' materials
+   * Refuses jobs already on an order that isn't cancelled
+   */
+  async generateFromJobs(
+    companyId: string,
+    jobIds: string[],
+    userId: string
+  ): Promise<ServiceResponse<PurchaseOrder[]>> {
+    try {
+      if (jobIds.length === 0) {
+        return this.error('Select at least one job');
+      }
+
+      const { data: jobs, error: jobsError } = await this.supabase
+        .from('jobs')
+        .select('id, job_number, status')
+        .eq('company_id', companyId)
+        .in('id', jobIds);
+
+      if (jobsError) {
+        return this.error('Failed to load jobs', jobsError);
+      }
+
+      if ((jobs || []).length !== jobIds.length) {
+        return this.error('Some jobs were not found');
+      }
+      const notOrderable = (jobs || []).filter(job => !ORDERABLE_JOB_STATUSES.includes(job.status));
+      if (notOrderable.length > 0) {
+        return this.error(`Only approved jobs can be ordered for: ${notOrderable.map(job => job.job_number).join(', ')}`);
+      }
+
+      const { data: openOrders, error: openOrdersError } = await this.supabase
+        .from('purchase_orders')
+        .select('po_number, status, job_ids')
+        .eq('company_id', companyId)
+        .neq('status', 'cancelled')
+        .overlaps('job_ids', jobIds);
+
+      if (openOrdersError) {
+        return this.error('Failed to check existing purchase orders', openOrdersError);
+      }
+
+      const ordered = findOrderedJobs((openOrders || []) as Array<Pick<PurchaseOrder, 'po_number' | 'status' | 'job_ids'>>, jobIds);
+      if (ordered.size > 0) {
+        const alreadyOrdered = (jobs || [])
+          .filter(job => ordered.has(job.id))
+          .map(job => `${job.job_number} (${ordered.get(job.id)!.join(', ')})`);
+        return this.error(`Already on a purchase order: ${alreadyOrdered.join(', ')} - cancel that order to order again`);
+      }
+
+      const { data: lines, error: linesError } = await this.supabase
+        .from('job_services')
+        .select('job_id, calculation_data')
+        .in('job_id', jobIds)
+        .eq('is_selected_option', true);
+
+      if (linesError) {
+        return this.error('Failed to load job services', linesError);
+      }
+
+      const sources: JobMaterialSource[] = jobIds.map(jobId => ({
+        jobId,
+        breakdowns: (lines || [])
+          .filter((line: any) => line.job_id === jobId)
+          .map((line: any) => (line.calculation_data as ServiceCalculationData | null)?.tier2Results?.materialBreakdown)
+          .filter((breakdown): breakdown is MaterialCalculationResult => !!breakdown)
+      }));
+
+      const materialIds = [...new Set(sources.flatMap(source =>
+        source.breakdowns.flatMap(breakdown => breakdown.categories.map(category => category.materialId))
+      ))];
+      if (materialIds.length === 0) {
+        return this.error('These jobs have no calculated materials');
+      }
+
+      const { data: materials, error: materialsError } = await this.supabase
+        .from('svc_materials')
+        .select('id, material_name, supplier_name, supplier_sku, unit_type, units_per_package, price_per_unit')
+        .eq('company_id', companyId)
+        .in('id', materialIds);
+
+      if (materialsError) {
+        return this.error('Failed to load materials', materialsError);
+      }
+
+      const drafts = buildPurchaseOrders(sources, (materials || []) as PurchaseOrderMaterial[]);
+      if (drafts.length === 0) {
+        return this.error('Nothing to order');
+      }
+
+      const year = new Date().getFullYear();
+      const { data: existing } = await this.supabase
+        .from('purchase_orders')
+        .select('po_number')
+        .eq('company_id', companyId)
+        .like('po_number', `PO-${year}-%`);
+
+      const usedNumbers = (existing || []).map((order: any) => order.po_number as string);
+      const created: PurchaseOrder[] = [];
+
+      for (const draft of drafts) {
+        const poNumber = nextPurchaseOrderNumber(usedNumbers, year);
+        usedNumbers.push(poNumber);
+
+        const { data: order, error: orderError } = await this.supabase
+          .from('purchase_orders')
+          .insert({
+            company_id: companyId,
+            po_number: poNumber,
+            supplier_name: draft.supplierName,
+            status: 'draft',
+            job_ids: draft.jobIds,
+            subtotal: draft.subtotal,
+            created_by: userId
+          })
+          .select()
+          .single();
+
+        if (orderError || !order) {
+          return this.error(`Failed to create purchase order for ${draft.supplierName ?? 'unassigned materials'}`, orderError);
+        }
+
+        const { data: orderLines, error: lineError } = await this.supabase
+          .from('purchase_order_lines')
+          .insert(draft.lines.map(line => ({
+            purchase_order_id: order.id,
+            material_id: line.materialId,
+            material_name: line.materialName,
+            supplier_sku: line.supplierSku,
+            unit_type: line.unitType,
+            unit_label: line.unitLabel,
+            quantity_needed: line.quantityNeeded,
+            quantity_ordered: line.quantityOrdered,
+            units_per_package: line.unitsPerPackage,
+            packages: line.packages,
+            unit_cost: line.unitCost,
+            line_total: line.lineTotal,
+            job_ids: line.jobIds
+          })))
+          .select();
+
+        if (lineError) {
+          // Don't leave an empty order behind
+          await this.supabase.from('purchase_orders').delete().eq('id', order.id);
+          return this.error(`Failed to save lines for ${poNumber}`, lineError);
+        }
+
+        created.push({ ...(order as PurchaseOrder), lines: (orderLines || []) as PurchaseOrderLine[] });
+      }
+
+      return this.success(created);
+    } catch (error: any) {
+      return this.error('Unexpected error generating purchase orders', error);
+    }
+  }
+
+  /**
+   * List the company's orders, newest first
+   */
+  async getPurchaseOrders(
+    companyId: string,
+    status?: PurchaseOrderStatus
+  ): Promise<ServiceResponse<PurchaseOrder[]>> {
+    try {
+      let query = this.supabase
+        .from('purchase_orders')
+        .select('*, lines:purchase_order_lines(*)')
+        .eq('company_id', companyId)
+        .order('created_at', { ascending: false });
+
+      if (status) {
+        query = query.eq('status', status);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        return this.error('Failed to load purchase orders', error);
+      }
+
+      return this.success((data || []) as PurchaseOrder[]);
+    } catch (error: any) {
+      return this.error('Unexpected error loading purchase orders', error);
+    }
+  }
+
+  /**
+   * Move an order forward (draft → sent → received) or cancel it
+   */
+  async updateStatus(
+    orderId: string,
+    companyId: string,
+    status: PurchaseOrderStatus,
+    userId?: string
+  ): Promise<ServiceResponse<PurchaseOrder>> {
+    try {
+      const { data: current, error: loadError } = await this.supabase
+        .from('purchase_orders')
+        .select('status')
+        .eq('id', orderId)
+        .eq('company_id', companyId)
+        .single();
+
+      if (loadError || !current) {
+        return this.error('Purchase order not found', loadError);
+      }
+
+      if (!canTransitionPurchaseOrder(current.status as PurchaseOrderStatus, status)) {
+        return this.error(`A ${current.status} purchase order can't be marked ${status}`);
+      }
+
+      const now = new Date().toISOString();
+      const { data, error } = await this.supabase
+        .from('purchase_orders')
+        .update({
+          status,
+          ...(status === 'sent' ? { sent_at: now } : {}),
+          ...(status === 'received' ? { received_at: now } : {})
+        })
+        .eq('id', orderId)
+        .eq('company_id', companyId)
+        .select('*, lines:purchase_order_lines(*)')
+        .single();
+
+      if (error) {
+        return this.error('Failed to update purchase order', error);
+      }
+
+      if (status === 'received') {
+        const received = await inventoryService.receivePurchaseOrder(companyId, orderId, userId);
+        if (!received.success) {
+          return this.error(received.error || 'Purchase order received but stock was not updated');
+        }
+      }
+
+      return this.success(data as PurchaseOrder);
+    } catch (error: any) {
+      return this.error('Unexpected error updating purchase order', error);
+    }
+  }
+
+  /**
+   * Printable HTML for an order
+   */
+  async getDocument(orderId: string, companyId: string): Promise<ServiceResponse<string>> {
+    try {
+      const { data: order, error: orderError } = await this.supabase
+        .from('purchase_orders')
+        .select('*, lines:purchase_order_lines(*)')
+        .eq('id', orderId)
+        .eq('company_id', companyId)
+        .single();
+
+      if (orderError || !order) {
+        return this.error('Purchase order not found', orderError);
+      }
+
+      const purchaseOrder = order as PurchaseOrder;
+
+      const [{ data: company }, { data: jobs }] = await Promise.all([
+        this.supabase.from('companies').select('name, address, phone, email').eq('id', companyId).single(),
+        this.supabase.from('jobs').select('job_number').in('id', purchaseOrder.job_ids)
+      ]);
+
+      const html = renderPurchaseOrderHtml({
+        poNumber: purchaseOrder.po_number,
+        status: purchaseOrder.status,
+        supplierName: purchaseOrder.supplier_name,
+        createdAt: purchaseOrder.created_at,
+        company: {
+          name: company?.name ?? '',
+          address: company?.address,
+          phone: company?.phone,
+          email: company?.email
+        },
+        jobNumbers: (jobs || []).map(job => job.job_number),
+        lines: (purchaseOrder.lines || []).map(line => ({
+          materialName: line.material_name,
+          supplierSku: line.supplier_sku,
+          unitLabel: line.unit_label,
+          quantityOrdered: Number(line.quantity_ordered),
+          packages: line.packages,
+          unitsPerPackage: line.units_per_package !== null ? Number(line.units_per_package) : null,
+          unitCost: Number(line.unit_cost),
+          lineTotal: Number(line.line_total)
+        })),
+        subtotal: Number(purchaseOrder.subtotal),
+        notes: purchaseOrder.notes
+      });
+
+      return this.success(html);
+    } catch (error: any) {
+      return this.error('Unexpected error rendering purchase order', error);
+    }
+  }
+
+  /**
+   * Success response helper
+   */
+  private success<T>(data: T): ServiceResponse<T> {
+    return { success: true, data };
+  }
+
+  /**
+   * Error response helper
+   */
+  private error(message: string, error?: any): ServiceResponse<never> {
+    console.error(`[PurchaseOrderService] ${message}`, error);
+    return {
+      success: false,
+      error: message
+    };
+  }
+}
+
+// Export singleton instance
+export const purchaseOrderService = new PurchaseOrderService();
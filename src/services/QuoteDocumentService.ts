@@ -0,0 +1,164 @@
+/**
+ * Quote Document Service - Customer Quotes
+ *
+ * Loads a job with its service lines and the company's onboarding branding
+ * (companies.branding_config) and renders the customer quote as HTML or
+ * PDF (see quote-document.ts). Rendering makes no requests of its own.
+ * Marking a quote sent stamps quote_sent_at and the valid-until date the
+ * document showed.
+ *
+ * @module QuoteDocumentService
+ */
+
+import { getSupabase } from './supabase';
+import { ServiceResponse } from '../types/customer';
+import { jobService } from './JobService';
+import type { BrandingConfig } from '../stores/onboardingStore';
+import {
+  buildQuoteDocument,
+  renderQuoteHtml,
+  renderQuotePdf,
+  type QuoteDocument
+} from '../pricing-system/utils/quote-document';
+
+export interface QuoteDocumentRequest {
+  terms?: string | null;
+  includeMaterials?: boolean;
+}
+
+export class QuoteDocumentService {
+  private supabase = getSupabase();
+
+  /**
+   * What the quote shows for a job
+   */
+  async getQuoteDocument(
+    jobId: string,
+    companyId: string,
+    request: QuoteDocumentRequest = {}
+  ): Promise<ServiceResponse<QuoteDocument>> {
+    try {
+      const [jobResult, { data: company, error: companyError }] = await Promise.all([
+        jobService.getJob(jobId, companyId),
+        this.supabase
+          .from('companies')
+          .select('name, email, address, phone, branding_config')
+          .eq('id', companyId)
+          .single()
+      ]);
+
+      if (!jobResult.success || !jobResult.data) {
+        return this.error(jobResult.error || 'Job not found');
+      }
+      if (companyError || !company) {
+        return this.error('Failed to load company', companyError);
+      }
+
+      const companyRow = company as {
+        name: string | null;
+        email: string | null;
+        address: string | null;
+        phone: string | null;
+        branding_config: Partial<BrandingConfig> | null;
+      };
+      return this.success(buildQuoteDocument(jobResult.data, {
+        company: {
+          name: companyRow.name ?? '',
+          email: companyRow.email,
+          address: companyRow.address,
+          phone: companyRow.phone
+        },
+        branding: companyRow.branding_config ?? undefined,
+        terms: request.terms,
+        includeMaterials: request.includeMaterials
+      }));
+    } catch (error: any) {
+      return this.error('Unexpected error building quote', error);
+    }
+  }
+
+  /**
+   * Printable HTML for a job's quote
+   */
+  async getQuoteHtml(
+    jobId: string,
+    companyId: string,
+    request: QuoteDocumentRequest = {}
+  ): Promise<ServiceResponse<string>> {
+    const result = await this.getQuoteDocument(jobId, companyId, request);
+    if (!result.success || !result.data) {
+      return this.error(result.error || 'Failed to build quote');
+    }
+    return this.success(renderQuoteHtml(result.data));
+  }
+
+  /**
+   * PDF of a job's quote, ready to attach or download
+   */
+  async getQuotePdf(
+    jobId: string,
+    companyId: string,
+    request: QuoteDocumentRequest = {}
+  ): Promise<ServiceResponse<{ fileName: string; bytes: Uint8Array }>> {
+    const result = await this.getQuoteDocument(jobId, companyId, request);
+    if (!result.success || !result.data) {
+      return this.error(result.error || 'Failed to build quote');
+    }
+    return this.success({
+      fileName: `Quote-${result.data.quoteNumber}.pdf`,
+      bytes: renderQuotePdf(result.data)
+    });
+  }
+
+  /**
+   * Record that the quote went to the customer, keeping the valid-until
+   * date the document showed
+   */
+  async markQuoteSent(
+    jobId: string,
+    companyId: string,
+    quote: Pick<QuoteDocument, 'validUntil'>,
+    userId: string
+  ): Promise<ServiceResponse<void>> {
+    try {
+      const { error } = await this.supabase
+        .from('jobs')
+        .update({
+          quote_sent_at: new Date().toISOString(),
+          quote_valid_until: quote.validUntil,
+          updated_by_user_id: userId
+        })
+        .eq('id', jobId)
+        .eq('company_id', companyId);
+
+      if (error) {
+        return this.error('Failed to mark quote sent', error);
+      }
+
+      return this.success(undefined);
+    } catch (error: any) {
+      return this.error('Unexpected error marking quote sent', error);
+    }
+  }
+
+  /**
+   * Success response helper
+   */
+  private success<T>(data: T): ServiceResponse<T> {
+    return { success: true, data };
+  }
+
+  /**
+   * Error response helper
+   */
+  private error(message: string, error?: any): ServiceResponse<never> {
+    console.error(`[QuoteDocumentService] ${message}`, error);
+    return {
+      success: false,
+      error: message
+    };
+  }
+}
+
+// Export singleton instance
+export const quoteDocumentService = new QuoteDocumentService();
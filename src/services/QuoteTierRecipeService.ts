@@ -0,0 +1,189 @@
+/**
+ * Quote Tier Recipe Service - Good / Better / Best Recipes
+ *
+ * Maintains the company's tier recipes (quote_tier_recipes, migration 27).
+ * A recipe turns one pricing input into several quote options; see
+ * JobService.addQuoteOptions for how options are priced and stored.
+ *
+ * @module QuoteTierRecipeService
+ */
+
+import { getSupabase } from './supabase';
+import { ServiceResponse } from '../types/customer';
+import type {
+  QuoteTierRecipe,
+  CreateQuoteTierRecipeInput,
+  UpdateQuoteTierRecipeInput
+} from '../types/quote-tiers';
+import { validateQuoteTiers } from '../pricing-system/utils/quote-tiers';
+
+export class QuoteTierRecipeService {
+  private supabase = getSupabase();
+
+  /**
+   * List active recipes, optionally for one service (default recipe first)
+   */
+  async getRecipes(companyId: string, serviceConfigId?: string): Promise<ServiceResponse<QuoteTierRecipe[]>> {
+    try {
+      let query = this.supabase
+        .from('quote_tier_recipes')
+        .select('*')
+        .eq('company_id', companyId)
+        .eq('is_active', true)
+        .order('is_default', { ascending: false })
+        .order('name', { ascending: true });
+
+      if (serviceConfigId) {
+        query = query.eq('service_config_id', serviceConfigId);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        return this.error('Failed to load quote tier recipes', error);
+      }
+
+      return this.success((data || []) as QuoteTierRecipe[]);
+    } catch (error: any) {
+      return this.error('Unexpected error loading quote tier recipes', error);
+    }
+  }
+
+  /**
+   * Recipe to use for a service: the named recipe, else the service's
+   * default recipe, else null (caller falls back to DEFAULT_QUOTE_TIERS)
+   */
+  async resolveRecipe(
+    companyId: string,
+    serviceConfigId: string,
+    recipeId?: string
+  ): Promise<ServiceResponse<QuoteTierRecipe | null>> {
+    try {
+      let query = this.supabase
+        .from('quote_tier_recipes')
+        .select('*')
+        .eq('company_id', companyId)
+        .eq('service_config_id', serviceConfigId)
+        .eq('is_active', true);
+
+      query = recipeId ? query.eq('id', recipeId) : query.eq('is_default', true);
+
+      const { data, error } = await query.maybeSingle();
+
+      if (error) {
+        return this.error('Failed to load quote tier recipe', error);
+      }
+      if (recipeId && !data) {
+        return this.error('Quote tier recipe not found for this service');
+      }
+
+      return this.success((data as QuoteTierRecipe) ?? null);
+    } catch (error: any) {
+      return this.error('Unexpected error loading quote tier recipe', error);
+    }
+  }
+
+  /**
+   * Create a recipe
+   */
+  async createRecipe(input: CreateQuoteTierRecipeInput): Promise<ServiceResponse<QuoteTierRecipe>> {
+    try {
+      const validation = this.validate(input);
+      if (validation) return this.error(validation);
+
+      const { data, error } = await this.supabase
+        .from('quote_tier_recipes')
+        .insert({ ...input, name: input.name.trim() })
+        .select()
+        .single();
+
+      if (error) {
+        if (error.code === '23505') {
+          return this.error('This service already has a default recipe', error);
+        }
+        return this.error('Failed to create quote tier recipe', error);
+      }
+
+      return this.success(data as QuoteTierRecipe);
+    } catch (error: any) {
+      return this.error('Unexpected error creating quote tier recipe', error);
+    }
+  }
+
+  /**
+   * Update a recipe's tiers, name or default flag
+   */
+  async updateRecipe(
+    recipeId: string,
+    companyId: string,
+    updates: UpdateQuoteTierRecipeInput
+  ): Promise<ServiceResponse<QuoteTierRecipe>> {
+    try {
+      const validation = this.validate(updates);
+      if (validation) return this.error(validation);
+
+      const { data, error } = await this.supabase
+        .from('quote_tier_recipes')
+        .update({
+          ...updates,
+          ...(updates.name !== undefined && { name: updates.name.trim() })
+        })
+        .eq('id', recipeId)
+        .eq('company_id', companyId)
+        .select()
+        .single();
+
+      if (error) {
+        if (error.code === '23505') {
+          return this.error('This service already has a default recipe', error);
+        }
+        return this.error('Failed to update quote tier recipe', error);
+      }
+
+      return this.success(data as QuoteTierRecipe);
+    } catch (error: any) {
+      return this.error('Unexpected error updating quote tier recipe', error);
+    }
+  }
+
+  /**
+   * Retire a recipe (soft delete - quote lines keep their reference)
+   */
+  async deactivateRecipe(recipeId: string, companyId: string): Promise<ServiceResponse<QuoteTierRecipe>> {
+    return this.updateRecipe(recipeId, companyId, { is_active: false, is_default: false });
+  }
+
+  /**
+   * Validate recipe input, returns an error message or null
+   */
+  private validate(input: UpdateQuoteTierRecipeInput): string | null {
+    if (input.name !== undefined && !input.name.trim()) {
+      return 'Recipe name is required';
+    }
+    if (input.tiers !== undefined) {
+      return validateQuoteTiers(input.tiers, input.recommended_tier);
+    }
+    return null;
+  }
+
+  /**
+   * Success response helper
+   */
+  private success<T>(data: T): ServiceResponse<T> {
+    return { success: true, data };
+  }
+
+  /**
+   * Error response helper
+   */
+  private error(message: string, error?: any): ServiceResponse<never> {
+    console.error(`[QuoteTierRecipeService] ${message}`, error);
+    return {
+      success: false,
+      error: message
+    };
+  }
+}
+
+// Export singleton instance
+export const quoteTierRecipeService = new QuoteTierRecipeService();
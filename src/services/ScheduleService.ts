@@ -2,7 +2,7 @@
  * Schedule Service - Business Logic Layer
  *
  * Handles job assignments, crew scheduling, conflict detection,
- * and calendar event formatting.
+ * equipment reservations and calendar event formatting.
  *
  * @module ScheduleService
  */
@@ -19,13 +19,18 @@ import {
   AssignmentStatus
 } from '../types/crm';
 import { ServiceResponse } from '../types/customer';
+import { equipmentService } from './EquipmentService';
+import { inventoryService } from './InventoryService';
+import { deliveryService } from './DeliveryService';
+import type { EquipmentDemand } from '../pricing-system/core/calculations/equipment-cost';
 
 export class ScheduleService {
   private supabase = getSupabase();
 
   /**
    * Create a new job assignment
-   * Validates crew availability before assignment
+   * Validates crew and owned equipment availability, then reserves the
+   * equipment the job was priced with
    */
   async createAssignment(
     input: CreateJobAssignmentInput
@@ -71,6 +76,16 @@ export class ScheduleService {
         return this.error('Crew has scheduling conflicts for this time period');
       }
 
+      const equipment = await this.checkEquipmentAvailability(
+        input.job_id,
+        input.scheduled_start,
+        input.scheduled_end
+      );
+
+      if (!equipment.success || !equipment.data) {
+        return this.error(equipment.error || 'Failed to check equipment availability');
+      }
+
       // Create assignment
       const { data, error } = await this.supabase
         .from('job_assignments')
@@ -97,6 +112,8 @@ export class ScheduleService {
         return this.error('Failed to create assignment', error);
       }
 
+      await equipmentService.reserveForAssignment(equipment.data.companyId, data, equipment.data.demand);
+
       // Update job status if needed
       await this.updateJobStatusFromAssignment(input.job_id);
 
@@ -160,6 +177,11 @@ export class ScheduleService {
           if (conflicts && conflicts.length > 0) {
             return this.error('Rescheduling would create conflicts');
           }
+
+          const equipment = await this.checkEquipmentAvailability(assignment.job_id, newStart, newEnd, assignmentId);
+          if (!equipment.success) {
+            return this.error(equipment.error || 'Failed to check equipment availability');
+          }
         }
       }
 
@@ -179,6 +201,16 @@ export class ScheduleService {
         return this.error('Failed to update assignment', error);
       }
 
+      // Cancelled assignments give their equipment back; moved ones take it along
+      if (updates.status === 'cancelled') {
+        await equipmentService.releaseForAssignment(assignmentId);
+      } else if (updates.scheduled_start || updates.scheduled_end) {
+        const demand = await equipmentService.getJobDemand(assignment.job_id);
+        if (demand.success && demand.data) {
+          await equipmentService.reserveForAssignment(companyId, data, demand.data);
+        }
+      }
+
       // Update job status if assignment status changed
       if (updates.status) {
         await this.updateJobStatusFromAssignment(assignment.job_id);
@@ -584,11 +616,56 @@ export class ScheduleService {
 
   // HELPER METHODS
 
+  /**
+   * Equipment the job needs for a period, or an error naming the owned
+   * items that are already booked
+   */
+  private async checkEquipmentAvailability(
+    jobId: string,
+    startDate: string,
+    endDate: string,
+    excludeAssignmentId?: string
+  ): Promise<ServiceResponse<{ companyId: string; demand: EquipmentDemand[] }>> {
+    const { data: job } = await this.supabase
+      .from('jobs')
+      .select('company_id')
+      .eq('id', jobId)
+      .single();
+
+    if (!job?.company_id) {
+      return this.error('Job not found');
+    }
+
+    const demand = await equipmentService.getJobDemand(jobId);
+    if (!demand.success || !demand.data) {
+      return this.error(demand.error || 'Failed to load job equipment');
+    }
+
+    const shortages = await equipmentService.checkAvailability(
+      job.company_id,
+      demand.data,
+      startDate,
+      endDate,
+      excludeAssignmentId
+    );
+    if (!shortages.success) {
+      return this.error(shortages.error || 'Failed to check equipment availability');
+    }
+    if (shortages.data && shortages.data.length > 0) {
+      return this.error(equipmentService.describeShortages(shortages.data));
+    }
+
+    return this.success({ companyId: job.company_id, demand: demand.data });
+  }
+
   /**
    * Update job status based on assignments
+   * Also moves the job's material delivery dates to its first assignment
    */
   private async updateJobStatusFromAssignment(jobId: string): Promise<void> {
     try {
+      await deliveryService.refreshJobDelivery(jobId);
+
       // Get all assignments for this job
       const { data: assignments } = await this.supabase
         .from('job_assignments')
@@ -619,6 +696,9 @@ export class ScheduleService {
             updated_at: new Date().toISOString()
           })
           .eq('id', jobId);
+
+        // Reserve, consume or release the job's yard stock
+        await inventoryService.syncJobStock(jobId, newStatus);
       }
 
     } catch (error) {
@@ -3,12 +3,15 @@
  *
  * CRITICAL: This is the ONLY way to save service configs.
  * Guarantees cache clearing for real-time Quick Calculator updates.
+ * Every save is kept as a revision - see PricingConfigRevisionService for
+ * history, diff and rollback.
  *
  * ⚠️ DO NOT bypass by calling supabase.upsert() directly!
  */
 
 import { getSupabase } from './supabase';
 import { masterPricingEngine } from '../pricing-system/core/calculations/master-pricing-engine';
+import { pricingRulesFromBusinessSettings, type PricingRules } from '../pricing-system/core/calculations/pricing-rules';
 
 interface BaseSetting {
   value: number;
@@ -32,6 +35,7 @@ export interface ServiceConfig {
     materialSettings: Record<string, BaseSetting>;
     businessSettings: Record<string, BaseSetting>;
   };
+  pricingRules?: PricingRules;   // pricing_rules column - volume discount tiers live here
   variables?: any;
   lastModified: string;
 }
@@ -85,6 +89,13 @@ export class ServiceConfigManager {
         base_productivity: configData.baseSettings?.laborSettings?.baseProductivity?.value || 50,
         base_material_cost: configData.baseSettings?.materialSettings?.baseMaterialCost?.value || 5.84,
         profit_margin: configData.baseSettings?.businessSettings?.profitMarginTarget?.value || 0.20,
+        // Only configs loaded from the database carry pricingRules - don't wipe rules on other saves
+        ...(configData.pricingRules && {
+          pricing_rules: pricingRulesFromBusinessSettings({
+            ...configData.baseSettings?.businessSettings,
+            volumeDiscounts: configData.pricingRules.volumeDiscounts
+          })
+        }),
         variables_config: configData.variables_config || configData.variables || {},
         default_variables: {},
         is_active: true,
@@ -0,0 +1,225 @@
+/**
+ * Tax Jurisdiction Service - Sales Tax Rate Table
+ *
+ * Maintains the company's local sales tax rate table (tax_jurisdictions,
+ * migration 25) and calculates tax for a service location. Rates are entered
+ * by owners/admins in Company Settings; nothing is fetched from a tax API.
+ *
+ * @module TaxJurisdictionService
+ */
+
+import { getSupabase } from './supabase';
+import { ServiceResponse } from '../types/customer';
+import type {
+  TaxJurisdiction,
+  CreateTaxJurisdictionInput,
+  UpdateTaxJurisdictionInput,
+  TaxLocation,
+  TaxableAmounts,
+  SalesTaxResult
+} from '../types/tax';
+import {
+  calculateSalesTax,
+  normalizeStateCode,
+  normalizeZipCode,
+  resolveTaxJurisdiction
+} from '../pricing-system/utils/sales-tax';
+
+export class TaxJurisdictionService {
+  private supabase = getSupabase();
+
+  /**
+   * List the company's jurisdictions (state-wide rows first within a state)
+   */
+  async getJurisdictions(
+    companyId: string,
+    includeInactive: boolean = false
+  ): Promise<ServiceResponse<TaxJurisdiction[]>> {
+    try {
+      let query = this.supabase
+        .from('tax_jurisdictions')
+        .select('*')
+        .eq('company_id', companyId)
+        .order('state_code', { ascending: true })
+        .order('zip_code', { ascending: true, nullsFirst: true });
+
+      if (!includeInactive) {
+        query = query.eq('is_active', true);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        return this.error('Failed to load tax jurisdictions', error);
+      }
+
+      return this.success((data || []) as TaxJurisdiction[]);
+    } catch (error: any) {
+      return this.error('Unexpected error loading tax jurisdictions', error);
+    }
+  }
+
+  /**
+   * Add a rate to the table
+   */
+  async createJurisdiction(input: CreateTaxJurisdictionInput): Promise<ServiceResponse<TaxJurisdiction>> {
+    try {
+      const validation = this.validate(input);
+      if (validation) return this.error(validation);
+
+      const { data, error } = await this.supabase
+        .from('tax_jurisdictions')
+        .insert({
+          ...input,
+          name: input.name.trim(),
+          state_code: normalizeStateCode(input.state_code),
+          zip_code: normalizeZipCode(input.zip_code)
+        })
+        .select()
+        .single();
+
+      if (error) {
+        if (error.code === '23505') {
+          return this.error('A rate already exists for this state and zip code', error);
+        }
+        return this.error('Failed to create tax jurisdiction', error);
+      }
+
+      return this.success(data as TaxJurisdiction);
+    } catch (error: any) {
+      return this.error('Unexpected error creating tax jurisdiction', error);
+    }
+  }
+
+  /**
+   * Update a rate or its component taxability
+   */
+  async updateJurisdiction(
+    jurisdictionId: string,
+    companyId: string,
+    updates: UpdateTaxJurisdictionInput
+  ): Promise<ServiceResponse<TaxJurisdiction>> {
+    try {
+      const validation = this.validate(updates);
+      if (validation) return this.error(validation);
+
+      const { data, error } = await this.supabase
+        .from('tax_jurisdictions')
+        .update({
+          ...updates,
+          ...(updates.name !== undefined && { name: updates.name.trim() }),
+          ...(updates.state_code !== undefined && { state_code: normalizeStateCode(updates.state_code) }),
+          ...(updates.zip_code !== undefined && { zip_code: normalizeZipCode(updates.zip_code) })
+        })
+        .eq('id', jurisdictionId)
+        .eq('company_id', companyId)
+        .select()
+        .single();
+
+      if (error) {
+        return this.error('Failed to update tax jurisdiction', error);
+      }
+
+      return this.success(data as TaxJurisdiction);
+    } catch (error: any) {
+      return this.error('Unexpected error updating tax jurisdiction', error);
+    }
+  }
+
+  /**
+   * Retire a rate (soft delete - jobs keep their reference)
+   */
+  async deactivateJurisdiction(jurisdictionId: string, companyId: string): Promise<ServiceResponse<TaxJurisdiction>> {
+    return this.updateJurisdiction(jurisdictionId, companyId, { is_active: false });
+  }
+
+  /**
+   * Jurisdiction for a service zip / state, or null when none matches
+   */
+  async resolveJurisdiction(
+    companyId: string,
+    location: TaxLocation
+  ): Promise<ServiceResponse<TaxJurisdiction | null>> {
+    const state = normalizeStateCode(location.state);
+    const zip = normalizeZipCode(location.zip);
+    if (!state && !zip) {
+      return this.success(null);
+    }
+
+    try {
+      let query = this.supabase
+        .from('tax_jurisdictions')
+        .select('*')
+        .eq('company_id', companyId)
+        .eq('is_active', true);
+
+      query = state ? query.eq('state_code', state) : query.eq('zip_code', zip);
+
+      const { data, error } = await query;
+
+      if (error) {
+        return this.error('Failed to load tax jurisdictions', error);
+      }
+
+      return this.success(resolveTaxJurisdiction((data || []) as TaxJurisdiction[], { zip, state }));
+    } catch (error: any) {
+      return this.error('Unexpected error resolving tax jurisdiction', error);
+    }
+  }
+
+  /**
+   * Tax lines for component amounts at a service location
+   */
+  async calculateTax(
+    companyId: string,
+    location: TaxLocation,
+    amounts: TaxableAmounts
+  ): Promise<ServiceResponse<SalesTaxResult>> {
+    const jurisdiction = await this.resolveJurisdiction(companyId, location);
+    if (!jurisdiction.success) {
+      return this.error(jurisdiction.error || 'Failed to resolve tax jurisdiction');
+    }
+
+    return this.success(calculateSalesTax(amounts, jurisdiction.data ?? null));
+  }
+
+  /**
+   * Validate rate table input, returns an error message or null
+   */
+  private validate(input: UpdateTaxJurisdictionInput): string | null {
+    if (input.name !== undefined && !input.name.trim()) {
+      return 'Jurisdiction name is required';
+    }
+    if (input.state_code !== undefined && !normalizeStateCode(input.state_code)) {
+      return 'State must be a two-letter code (e.g., TX)';
+    }
+    if (input.zip_code && !normalizeZipCode(input.zip_code)) {
+      return 'Zip code must be 5 digits';
+    }
+    if (input.rate !== undefined && (!Number.isFinite(input.rate) || input.rate < 0 || input.rate > 0.25)) {
+      return 'Rate must be between 0% and 25%';
+    }
+    return null;
+  }
+
+  /**
+   * Success response helper
+   */
+  private success<T>(data: T): ServiceResponse<T> {
+    return { success: true, data };
+  }
+
+  /**
+   * Error response helper
+   */
+  private error(message: string, error?: any): ServiceResponse<never> {
+    console.error(`[TaxJurisdictionService] ${message}`, error);
+    return {
+      success: false,
+      error: message
+    };
+  }
+}
+
+// Export singleton instance
+export const taxJurisdictionService = new TaxJurisdictionService();
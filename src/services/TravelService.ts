@@ -0,0 +1,261 @@
+/**
+ * Travel Service - Shop Location & Mobilization
+ *
+ * Maintains the company shop location and travel rules (companies,
+ * migration 29) and resolves shop-to-site distance from the offline
+ * zip_code_centroids table. Nothing is fetched from a mapping API - a job
+ * whose zip isn't in the table simply gets no travel charge.
+ *
+ * @module TravelService
+ */
+
+import { getSupabase } from './supabase';
+import { ServiceResponse } from '../types/customer';
+import type {
+  CompanyTravelSettings,
+  JobTravel,
+  ShopLocation,
+  UpdateShopLocationInput,
+  ZipCodeCentroid
+} from '../types/travel';
+import {
+  calculateTravelCost,
+  estimateRoadMiles,
+  normalizeTravelRule,
+  type GeoPoint,
+  type TravelContext,
+  type TravelRule
+} from '../pricing-system/core/calculations/travel-cost';
+import { normalizeStateCode, normalizeZipCode } from '../pricing-system/utils/sales-tax';
+
+const SHOP_COLUMNS = 'shop_address, shop_city, shop_state, shop_zip, shop_latitude, shop_longitude';
+
+export class TravelService {
+  private supabase = getSupabase();
+
+  /**
+   * Shop location and normalized travel rule for a company
+   */
+  async getTravelSettings(companyId: string): Promise<ServiceResponse<CompanyTravelSettings>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('companies')
+        .select(`${SHOP_COLUMNS}, travel_rules`)
+        .eq('id', companyId)
+        .single();
+
+      if (error || !data) {
+        return this.error('Failed to load travel settings', error);
+      }
+
+      const { travel_rules, ...shop } = data as ShopLocation & { travel_rules: unknown };
+      return this.success({ shop, rule: normalizeTravelRule(travel_rules) });
+    } catch (error: any) {
+      return this.error('Unexpected error loading travel settings', error);
+    }
+  }
+
+  /**
+   * Update the shop address
+   * Coordinates default to the shop zip's centroid when the zip changes
+   */
+  async updateShopLocation(
+    companyId: string,
+    input: UpdateShopLocationInput
+  ): Promise<ServiceResponse<ShopLocation>> {
+    try {
+      const validation = this.validateShop(input);
+      if (validation) return this.error(validation);
+
+      const updates: UpdateShopLocationInput = {
+        ...input,
+        ...(input.shop_address !== undefined && { shop_address: input.shop_address?.trim() || null }),
+        ...(input.shop_city !== undefined && { shop_city: input.shop_city?.trim() || null }),
+        ...(input.shop_state !== undefined && { shop_state: normalizeStateCode(input.shop_state) }),
+        ...(input.shop_zip !== undefined && { shop_zip: normalizeZipCode(input.shop_zip) })
+      };
+
+      if (updates.shop_zip !== undefined && updates.shop_latitude === undefined && updates.shop_longitude === undefined) {
+        const centroid = updates.shop_zip ? await this.getZipCentroid(updates.shop_zip) : null;
+        updates.shop_latitude = centroid?.latitude ?? null;
+        updates.shop_longitude = centroid?.longitude ?? null;
+      }
+
+      const { data, error } = await this.supabase
+        .from('companies')
+        .update(updates)
+        .eq('id', companyId)
+        .select(SHOP_COLUMNS)
+        .single();
+
+      if (error) {
+        return this.error('Failed to update shop location', error);
+      }
+
+      return this.success(data as ShopLocation);
+    } catch (error: any) {
+      return this.error('Unexpected error updating shop location', error);
+    }
+  }
+
+  /**
+   * Save the company travel rule (stored normalized)
+   */
+  async updateTravelRule(companyId: string, rule: Partial<TravelRule>): Promise<ServiceResponse<TravelRule>> {
+    try {
+      const validation = this.validateRule(rule);
+      if (validation) return this.error(validation);
+
+      const normalized = normalizeTravelRule(rule);
+      const { error } = await this.supabase
+        .from('companies')
+        .update({ travel_rules: normalized })
+        .eq('id', companyId);
+
+      if (error) {
+        return this.error('Failed to update travel rules', error);
+      }
+
+      return this.success(normalized);
+    } catch (error: any) {
+      return this.error('Unexpected error updating travel rules', error);
+    }
+  }
+
+  /**
+   * Centroid for a zip code, or null when it isn't in the table
+   */
+  async getZipCentroid(zip: string | null | undefined): Promise<ZipCodeCentroid | null> {
+    const zipCode = normalizeZipCode(zip);
+    if (!zipCode) return null;
+
+    const { data, error } = await this.supabase
+      .from('zip_code_centroids')
+      .select('*')
+      .eq('zip_code', zipCode)
+      .maybeSingle();
+
+    if (error) {
+      console.error('[TravelService] Failed to load zip centroid', error);
+      return null;
+    }
+
+    return data ? { ...data, latitude: Number(data.latitude), longitude: Number(data.longitude) } as ZipCodeCentroid : null;
+  }
+
+  /**
+   * Shop-to-site distance and rule for a site zip, or null when the
+   * company doesn't charge for travel or either end can't be located
+   */
+  async resolveTravel(companyId: string, siteZip: string | null | undefined): Promise<ServiceResponse<TravelContext | null>> {
+    const settings = await this.getTravelSettings(companyId);
+    if (!settings.success || !settings.data) {
+      return this.error(settings.error || 'Failed to load travel settings');
+    }
+
+    const { shop, rule } = settings.data;
+    if (rule.ratePerMile <= 0 || !normalizeZipCode(siteZip)) {
+      return this.success(null);
+    }
+
+    const origin = await this.shopOrigin(shop);
+    const site = await this.getZipCentroid(siteZip);
+    if (!origin || !site) {
+      console.warn('[TravelService] No travel charge - shop or site zip not in zip_code_centroids', {
+        shopZip: shop.shop_zip,
+        siteZip
+      });
+      return this.success(null);
+    }
+
+    return this.success({ distanceMiles: estimateRoadMiles(origin, site, rule), rule });
+  }
+
+  /**
+   * One travel line for a whole job
+   *
+   * @param totalDays - Summed tier1Results.totalDays of the job's priced services
+   */
+  async calculateJobTravel(
+    companyId: string,
+    siteZip: string | null | undefined,
+    totalDays: number
+  ): Promise<ServiceResponse<JobTravel | null>> {
+    const travel = await this.resolveTravel(companyId, siteZip);
+    if (!travel.success) {
+      return this.error(travel.error || 'Failed to resolve travel');
+    }
+    if (!travel.data) {
+      return this.success(null);
+    }
+
+    const result = calculateTravelCost(travel.data.distanceMiles, totalDays, travel.data.rule);
+    return this.success({ ...result, siteZip: normalizeZipCode(siteZip) as string, totalDays });
+  }
+
+  /**
+   * Shop coordinates, else the shop zip's centroid
+   */
+  private async shopOrigin(shop: ShopLocation): Promise<GeoPoint | null> {
+    if (shop.shop_latitude !== null && shop.shop_longitude !== null) {
+      return { latitude: Number(shop.shop_latitude), longitude: Number(shop.shop_longitude) };
+    }
+    return this.getZipCentroid(shop.shop_zip);
+  }
+
+  /**
+   * Validate shop input, returns an error message or null
+   */
+  private validateShop(input: UpdateShopLocationInput): string | null {
+    if (input.shop_state && !normalizeStateCode(input.shop_state)) {
+      return 'State must be a two-letter code (e.g., TX)';
+    }
+    if (input.shop_zip && !normalizeZipCode(input.shop_zip)) {
+      return 'Zip code must be 5 digits';
+    }
+    if (input.shop_latitude != null && (input.shop_latitude < -90 || input.shop_latitude > 90)) {
+      return 'Latitude must be between -90 and 90';
+    }
+    if (input.shop_longitude != null && (input.shop_longitude < -180 || input.shop_longitude > 180)) {
+      return 'Longitude must be between -180 and 180';
+    }
+    return null;
+  }
+
+  /**
+   * Validate travel rule input, returns an error message or null
+   */
+  private validateRule(rule: Partial<TravelRule>): string | null {
+    for (const field of ['ratePerMile', 'freeRadiusMiles', 'minimumCharge'] as const) {
+      const value = rule[field];
+      if (value !== undefined && (!Number.isFinite(value) || value < 0)) {
+        return 'Travel rates and distances cannot be negative';
+      }
+    }
+    if (rule.roadFactor !== undefined && (!Number.isFinite(rule.roadFactor) || rule.roadFactor < 1)) {
+      return 'Road factor must be at least 1';
+    }
+    return null;
+  }
+
+  /**
+   * Success response helper
+   */
+  private success<T>(data: T): ServiceResponse<T> {
+    return { success: true, data };
+  }
+
+  /**
+   * Error response helper
+   */
+  private error(message: string, error?: any): ServiceResponse<never> {
+    console.error(`[TravelService] ${message}`, error);
+    return {
+      success: false,
+      error: message
+    };
+  }
+}
+
+// Export singleton instance
+export const travelService = new TravelService();
@@ -0,0 +1,97 @@
+/**
+ * Unit System Service - Imperial / Metric
+ *
+ * Reads and updates the company unit system (companies.unit_system,
+ * migration 32). Stored quantities stay imperial; callers pass the unit
+ * system to the pricing engine and displays (see unit-system.ts).
+ *
+ * @module UnitSystemService
+ */
+
+import { getSupabase } from './supabase';
+import { ServiceResponse } from '../types/customer';
+import {
+  DEFAULT_UNIT_SYSTEM,
+  normalizeUnitSystem,
+  type UnitSystem
+} from '../pricing-system/utils/unit-system';
+
+export class UnitSystemService {
+  private supabase = getSupabase();
+
+  /**
+   * Unit system for a company (imperial when unset)
+   */
+  async getUnitSystem(companyId: string): Promise<ServiceResponse<UnitSystem>> {
+    try {
+      const { data, error } = await this.supabase
+        .from('companies')
+        .select('unit_system')
+        .eq('id', companyId)
+        .single();
+
+      if (error) {
+        return this.error('Failed to load unit system', error);
+      }
+
+      return this.success(normalizeUnitSystem((data as { unit_system: unknown } | null)?.unit_system));
+    } catch (error: any) {
+      return this.error('Unexpected error loading unit system', error);
+    }
+  }
+
+  /**
+   * Unit system for pricing and display - falls back to imperial when it
+   * can't be loaded so quoting never blocks on it
+   */
+  async resolveUnitSystem(companyId: string | null | undefined): Promise<UnitSystem> {
+    if (!companyId) return DEFAULT_UNIT_SYSTEM;
+    const result = await this.getUnitSystem(companyId);
+    return result.success && result.data ? result.data : DEFAULT_UNIT_SYSTEM;
+  }
+
+  /**
+   * Switch a company between imperial and metric
+   */
+  async updateUnitSystem(companyId: string, unitSystem: UnitSystem): Promise<ServiceResponse<UnitSystem>> {
+    try {
+      if (unitSystem !== 'imperial' && unitSystem !== 'metric') {
+        return this.error('Unit system must be imperial or metric');
+      }
+
+      const { error } = await this.supabase
+        .from('companies')
+        .update({ unit_system: unitSystem })
+        .eq('id', companyId);
+
+      if (error) {
+        return this.error('Failed to update unit system', error);
+      }
+
+      return this.success(unitSystem);
+    } catch (error: any) {
+      return this.error('Unexpected error updating unit system', error);
+    }
+  }
+
+  /**
+   * Success response helper
+   */
+  private success<T>(data: T): ServiceResponse<T> {
+    return { success: true, data };
+  }
+
+  /**
+   * Error response helper
+   */
+  private error(message: string, error?: any): ServiceResponse<never> {
+    console.error(`[UnitSystemService] ${message}`, error);
+    return {
+      success: false,
+      error: message
+    };
+  }
+}
+
+// Export singleton instance
+export const unitSystemService = new UnitSystemService();
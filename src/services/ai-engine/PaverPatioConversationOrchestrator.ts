@@ -18,6 +18,7 @@ import { PaverPatioQuestionService, type QuestionContext } from './PaverPatioQue
 import { PaverPatioContextService } from './PaverPatioContextService';
 import { PricingCalculatorService } from '../../pricing-system/ai-engine/pricing-calculation/PricingCalculatorService';
 import type { PaverPatioValues } from '../../pricing-system/core/master-formula/formula-types';
+import type { PricingTraceStep } from '../../pricing-system/core/calculations/pricing-trace';
 
 export interface ConversationRequest {
   userMessage: string;
@@ -417,6 +418,24 @@ export class PaverPatioConversationOrchestrator {
     quote += `• **Project Size:** ${sqft} square feet\n`;
     quote += `• **Cost per Square Foot:** $${(pricingResult.totals.totalCost / sqft).toFixed(2)}\n\n`;
 
+    // Explain the adjustments the customer's answers caused, plus volume discounts
+    // and minimum charges. Base rates, subtotals and profit margin stay internal.
+    const adjustments: PricingTraceStep[] = (pricingResult.services?.[0]?.trace ?? [])
+      .filter((step: PricingTraceStep) =>
+        (step.variableKey || step.stage === 'volume_discount' || step.stage === 'minimum_charge') && step.amount !== 0);
+    if (adjustments.length > 0) {
+      quote += `**🔎 What Affected Your Price:**\n`;
+      adjustments.forEach(step => {
+        const amount = step.unit === 'hours'
+          ? `${step.amount > 0 ? '+' : '−'}${Math.abs(step.amount).toFixed(1)} labor hours`
+          : `${step.amount > 0 ? '+' : '−'}$${Math.abs(step.amount).toFixed(2)}`;
+        quote += step.option !== undefined
+          ? `• ${step.label} (${step.option}): ${amount}\n`
+          : `• ${step.label}: ${amount}\n`;
+      });
+      quote += `\n`;
+    }
+
     // Add confidence indicator
     const confidencePercent = (validation.confidence * 100).toFixed(0);
     quote += `**🎯 Quote Accuracy:** ${confidencePercent}% confidence based on confirmed project details\n\n`;
@@ -4,32 +4,65 @@
  * Core calculation engine for materials management system.
  * Replaces old multiplier-based system with real material costs from database.
  *
- * Three calculation methods:
+ * Six calculation methods:
  * 1. volume_depth - For base materials (cubic yards)
  * 2. area_coverage - For surface materials (square footage)
  * 3. linear_perimeter - For edging materials (linear feet)
+ * 4. paver_layout - For pavers with dimensions (pieces, cuts, pattern waste)
+ * 5. weight_tonnage - For aggregates sold by the ton (volume × density)
+ * 6. piece_count - For steps, caps, drains (per unit or per linear foot spacing)
  *
  * Features:
  * - Unit conversion for purchasing (rolls, pallets, sections, etc.)
  * - Waste and compaction factors
  * - Cost per square foot calculation
  * - Detailed breakdown for quotes
+ * - Metric quantity displays (quantities and rounding stay imperial)
  */
 
 import type {
   MaterialCategory,
   ServiceMaterial,
+  MaterialSubstitution,
   MaterialQuantityResult,
   CategoryCalculationResult,
   MaterialCalculationInput,
   MaterialCalculationResult
 } from '../types/materials';
+import { PERIMETER_PER_SQRT_SQFT, resolvePerimeter } from '../pricing-system/utils/patio-shape';
+import {
+  calculatePaverLayout,
+  describePaverLayout,
+  hasLayoutDimensions,
+  type PaverLayoutResult
+} from '../pricing-system/utils/paver-layout';
+import {
+  DEFAULT_UNIT_SYSTEM,
+  formatDensity,
+  formatMeasurement,
+  measurementKindForUnit,
+  type UnitSystem
+} from '../pricing-system/utils/unit-system';
 import {
   fetchMaterialCategories,
   fetchMaterialById,
+  findMaterialSubstitute,
   getDefaultMaterial
 } from './materialsService';
 
+/**
+ * A required category has no active material and nothing to substitute
+ *
+ * Pricing without it would under-quote the job, so the engine does not
+ * fall back to the legacy calculation for this error.
+ */
+export class MissingMaterialError extends Error {
+  constructor(message: string, public categoryKey: string) {
+    super(message);
+    this.name = 'MissingMaterialError';
+  }
+}
+
 /**
  * Round UP to nearest tenth (0.1)
  *
@@ -44,6 +77,11 @@ function roundUpToTenth(value: number): number {
   return Math.ceil(value * 10) / 10;
 }
 
+/**
+ * Loose crushed stone / road base, when a material has no density
+ */
+export const DEFAULT_DENSITY_TONS_PER_CUBIC_YARD = 1.4;
+
 /**
  * Get display label for unit type
  *
@@ -59,6 +97,7 @@ function getUnitLabel(unitType: string, coverage: number | null): string {
     'linear_foot': 'linear feet',
     'piece': 'pieces',
     'bag': 'bags',
+    'ton': 'tons',
 
     // Package units
     'pallet': 'pallets',
@@ -84,6 +123,25 @@ function getUnitLabel(unitType: string, coverage: number | null): string {
   return unitType.replace(/_/g, ' ');
 }
 
+/**
+ * Purchase quantity for display
+ *
+ * Base units (cubic yards, square feet, linear feet) are shown in metric
+ * for metric companies. Packages (rolls, pallets, sections) keep their count.
+ */
+function formatPurchaseQuantity(
+  purchaseUnitsRounded: number,
+  unitType: string,
+  unitLabel: string,
+  unitSystem: UnitSystem
+): string {
+  const kind = measurementKindForUnit(unitType);
+  if (unitSystem === 'metric' && kind) {
+    return formatMeasurement(purchaseUnitsRounded, kind, unitSystem);
+  }
+  return `${purchaseUnitsRounded.toFixed(1)} ${unitLabel}`;
+}
+
 /**
  * Calculate Volume-Based Materials (Base Rock, Clean Rock)
  *
@@ -104,7 +162,8 @@ function getUnitLabel(unitType: string, coverage: number | null): string {
 export function calculateVolumeMaterial(
   squareFootage: number,
   material: ServiceMaterial,
-  category: MaterialCategory
+  category: MaterialCategory,
+  unitSystem: UnitSystem = DEFAULT_UNIT_SYSTEM
 ): MaterialQuantityResult {
   // CRITICAL FIX: Prioritize material depth over category depth
   // When user edits depth in UI, they edit material.coverage_depth_inches
@@ -143,7 +202,7 @@ export function calculateVolumeMaterial(
 
   // Build display string
   const unitLabel = getUnitLabel(material.unit_type, material.coverage_per_unit);
-  const quantityDisplay = `${purchaseUnitsRounded.toFixed(1)} ${unitLabel}`;
+  const quantityDisplay = formatPurchaseQuantity(purchaseUnitsRounded, material.unit_type, unitLabel, unitSystem);
 
   return {
     quantityNeeded: cubicYards,
@@ -160,6 +219,67 @@ export function calculateVolumeMaterial(
   };
 }
 
+/**
+ * Calculate Weight-Based Materials (Base Rock sold by the ton)
+ *
+ * Formula:
+ * 1-4. Cubic yards with compaction and waste, as volume_depth
+ * 5. Convert to tons: cy × density_tons_per_cubic_yard (1.4 when unset)
+ * 6. Round up to 0.1 tons
+ * 7. Calculate cost: tons × price_per_unit (price per ton)
+ *
+ * Example (360 sqft, 6-inch base rock, 1.4 tons/cy, $24/ton):
+ * - Cubic yards: 6.67 cy → 8.80 cy with 20% compaction and 10% waste
+ * - Tons: 8.80 × 1.4 = 12.32 tons → 12.4 tons
+ * - Cost: 12.4 × $24.00 = $297.60
+ */
+export function calculateWeightMaterial(
+  squareFootage: number,
+  material: ServiceMaterial,
+  category: MaterialCategory,
+  unitSystem: UnitSystem = DEFAULT_UNIT_SYSTEM
+): MaterialQuantityResult {
+  const depthInches = material.coverage_depth_inches || category.default_depth_inches || 6.0;
+  const wasteFactor = material.waste_factor_percentage || 10.0;
+  const compactionFactor = material.compaction_factor_percentage || 0.0;
+  const density = material.density_tons_per_cubic_yard || DEFAULT_DENSITY_TONS_PER_CUBIC_YARD;
+
+  // Steps 1-4: Cubic yards with compaction and waste
+  const cubicYards = (squareFootage * depthInches) / 12 / 27;
+  const withCompaction = cubicYards * (1 + compactionFactor / 100);
+  const withWaste = withCompaction * (1 + wasteFactor / 100);
+
+  // Step 5: Convert to tons
+  const purchaseUnits = withWaste * density;
+
+  // Step 6: Round up to 0.1
+  const purchaseUnitsRounded = roundUpToTenth(purchaseUnits);
+
+  // Step 7: Calculate cost (price_per_unit is per ton)
+  const totalCost = purchaseUnitsRounded * material.price_per_unit;
+
+  // Build display string
+  const unitLabel = getUnitLabel('ton', null);
+  const volumeDisplay = unitSystem === 'metric'
+    ? formatMeasurement(withWaste, 'volume', unitSystem)
+    : `${withWaste.toFixed(1)} cubic yards`;
+  const quantityDisplay = `${formatPurchaseQuantity(purchaseUnitsRounded, 'ton', unitLabel, unitSystem)} (${volumeDisplay} at ${formatDensity(density, unitSystem)})`;
+
+  return {
+    quantityNeeded: cubicYards * density,
+    quantityWithWaste: purchaseUnits,
+    quantityWithCompaction: withCompaction * density,
+    purchaseUnits,
+    purchaseUnitsRounded,
+    unitCost: material.price_per_unit,
+    totalCost,
+    unitLabel,
+    quantityDisplay,
+    wasteFactorPercent: wasteFactor,
+    compactionFactorPercent: compactionFactor
+  };
+}
+
 /**
  * Calculate Area-Based Materials (Pavers, Fabric, Polymeric Sand)
  *
@@ -185,7 +305,8 @@ export function calculateVolumeMaterial(
  */
 export function calculateAreaMaterial(
   squareFootage: number,
-  material: ServiceMaterial
+  material: ServiceMaterial,
+  unitSystem: UnitSystem = DEFAULT_UNIT_SYSTEM
 ): MaterialQuantityResult {
   const wasteFactor = material.waste_factor_percentage || 10.0;
   const coveragePerUnit = material.coverage_per_unit || 1.0;
@@ -222,9 +343,12 @@ export function calculateAreaMaterial(
 
   if (coveragePerUnit > 1) {
     const actualCoverage = purchaseUnitsRounded * coveragePerUnit;
-    quantityDisplay = `${purchaseUnitsRounded.toFixed(1)} ${unitLabel} (${actualCoverage.toFixed(0)} sqft coverage)`;
+    const coverageDisplay = unitSystem === 'metric'
+      ? formatMeasurement(actualCoverage, 'area', unitSystem, 0)
+      : `${actualCoverage.toFixed(0)} sqft`;
+    quantityDisplay = `${purchaseUnitsRounded.toFixed(1)} ${unitLabel} (${coverageDisplay} coverage)`;
   } else {
-    quantityDisplay = `${purchaseUnitsRounded.toFixed(1)} ${unitLabel}`;
+    quantityDisplay = formatPurchaseQuantity(purchaseUnitsRounded, material.unit_type, unitLabel, unitSystem);
   }
 
   return {
@@ -252,7 +376,7 @@ export function calculateAreaMaterial(
  * 4. Round up to 0.1
  * 5. Calculate cost: sections × price_per_unit
  *
- * Perimeter Estimation:
+ * Perimeter Estimation (when there is no custom perimeter or measured shape):
  * - Assume square/rectangular shape
  * - Perimeter ≈ √sqft × 4.15 (geometric approximation)
  * - For 360 sqft → √360 × 4.15 ≈ 78.7 linear feet
@@ -267,13 +391,14 @@ export function calculateAreaMaterial(
 export function calculateLinearMaterial(
   squareFootage: number,
   material: ServiceMaterial,
-  customPerimeter?: number
+  customPerimeter?: number,
+  unitSystem: UnitSystem = DEFAULT_UNIT_SYSTEM
 ): MaterialQuantityResult {
   const wasteFactor = material.waste_factor_percentage || 10.0;
   const coveragePerUnit = material.coverage_per_unit || 8.0; // Default 8ft sections
 
   // Step 1: Calculate or use custom perimeter
-  const estimatedPerimeter = Math.sqrt(squareFootage) * 4.15;
+  const estimatedPerimeter = Math.sqrt(squareFootage) * PERIMETER_PER_SQRT_SQFT;
   const perimeter = customPerimeter ?? estimatedPerimeter;
 
   // Step 2: Apply waste factor
@@ -291,7 +416,10 @@ export function calculateLinearMaterial(
   // Build display string
   const unitLabel = getUnitLabel(material.unit_type, material.coverage_per_unit);
   const actualLinearFeet = purchaseUnitsRounded * coveragePerUnit;
-  const quantityDisplay = `${purchaseUnitsRounded.toFixed(1)} ${unitLabel} (${actualLinearFeet.toFixed(1)} linear feet)`;
+  const lengthDisplay = unitSystem === 'metric'
+    ? formatMeasurement(actualLinearFeet, 'length', unitSystem, 1)
+    : `${actualLinearFeet.toFixed(1)} linear feet`;
+  const quantityDisplay = `${purchaseUnitsRounded.toFixed(1)} ${unitLabel} (${lengthDisplay})`;
 
   return {
     quantityNeeded: perimeter,
@@ -308,15 +436,181 @@ export function calculateLinearMaterial(
   };
 }
 
+/**
+ * Calculate Piece-Count Materials (Steps, Wall Caps, Drains)
+ *
+ * Formula:
+ * 1. Run: service quantity (per_unit) or perimeter (per_linear_foot)
+ * 2. Pieces: run ÷ spacing (coverage_per_unit, 1 when unset)
+ * 3. Apply waste factor: pieces × (1 + waste_percent/100)
+ * 4. Round up to whole pieces
+ * 5. Calculate cost: pieces × price_per_unit
+ *
+ * Example 1 - Drains, one per 100 sqft on a 360 sqft patio, no waste:
+ * - 360 / 100 = 3.6 → 4 pieces
+ *
+ * Example 2 - Wall caps, 1 lf each along 78.7 lf, 5% waste:
+ * - 78.7 × 1.05 = 82.6 → 83 pieces
+ */
+export function calculatePieceCountMaterial(
+  squareFootage: number,
+  material: ServiceMaterial,
+  perimeter: number,
+  unitSystem: UnitSystem = DEFAULT_UNIT_SYSTEM
+): MaterialQuantityResult {
+  const wasteFactor = material.waste_factor_percentage ?? 0;
+  const spacing = material.coverage_per_unit || 1;
+  const alongEdge = material.piece_spacing_basis === 'per_linear_foot';
+
+  // Step 1-2: Pieces for the run
+  const run = alongEdge ? perimeter : squareFootage;
+  const quantityNeeded = run / spacing;
+
+  // Step 3: Apply waste factor
+  const withWaste = quantityNeeded * (1 + wasteFactor / 100);
+
+  // Step 4: Whole pieces only
+  const purchaseUnits = withWaste;
+  const purchaseUnitsRounded = Math.ceil(withWaste - 1e-9);
+
+  // Step 5: Calculate cost (price_per_unit is per piece)
+  const totalCost = purchaseUnitsRounded * material.price_per_unit;
+
+  // Build display string
+  const unitLabel = getUnitLabel('piece', null);
+  const spacingDisplay = alongEdge
+    ? `1 every ${formatMeasurement(spacing, 'length', unitSystem)} over ${formatMeasurement(run, 'length', unitSystem)}`
+    : `1 per ${formatMeasurement(spacing, 'area', unitSystem)}`;
+  const quantityDisplay = `${purchaseUnitsRounded} ${unitLabel} (${spacingDisplay})`;
+
+  return {
+    quantityNeeded,
+    quantityWithWaste: withWaste,
+    quantityWithCompaction: 0,
+    purchaseUnits,
+    purchaseUnitsRounded,
+    unitCost: material.price_per_unit,
+    totalCost,
+    unitLabel,
+    quantityDisplay,
+    wasteFactorPercent: wasteFactor,
+    compactionFactorPercent: 0
+  };
+}
+
+/**
+ * Calculate Paver Layout Materials (Pavers with length_inches × width_inches)
+ *
+ * Formula:
+ * 1. Lay out the patio: full pieces + border cuts for the pattern (paver-layout.ts)
+ * 2. Order = (full + border pavers) + 2% breakage - waste follows from the
+ *    pattern and edge, not waste_factor_percentage
+ * 3. Convert to purchase units:
+ *    - piece: piece count
+ *    - square_foot: pieces × paver face sqft
+ *    - pallets / packages: pieces ÷ units_per_package (pieces per pallet),
+ *      or sqft ÷ coverage_per_unit when only coverage is known
+ * 4. Round packages and sqft up to 0.1
+ * 5. Calculate cost: units × price_per_unit
+ *
+ * Example (240 sqft, 64 lf edge, 4×8 pavers, running bond, 540 per pallet at $520):
+ * - 1,016 full + 96 border pavers (128 cuts) + 2% = 1,135 pieces (5.1% waste)
+ * - Pallets: 1,135 / 540 = 2.10 → 2.2
+ * - Cost: 2.2 × $520 = $1,144.00
+ *
+ * Pavers without dimensions fall back to area coverage.
+ */
+export function calculatePaverLayoutMaterial(
+  squareFootage: number,
+  material: ServiceMaterial,
+  perimeter: number,
+  pattern?: string | null,
+  unitSystem: UnitSystem = DEFAULT_UNIT_SYSTEM
+): MaterialQuantityResult {
+  if (!hasLayoutDimensions(material.length_inches, material.width_inches)) {
+    return calculateAreaMaterial(squareFootage, material, unitSystem);
+  }
+
+  const lengthInches = material.length_inches ?? 0;
+  const widthInches = material.width_inches ?? 0;
+  const pieceSqft = (lengthInches * widthInches) / 144;
+  const isPiece = material.unit_type === 'piece';
+  const isSqft = material.unit_type === 'square_foot';
+  const coveragePerUnit = material.coverage_per_unit || 0;
+  const piecesPerPackage = isPiece || isSqft
+    ? null
+    : material.units_per_package || (coveragePerUnit > 1 ? coveragePerUnit / pieceSqft : null);
+
+  // Step 1-2: Lay out the patio
+  const layout = calculatePaverLayout({
+    area: squareFootage,
+    perimeter,
+    lengthInches,
+    widthInches,
+    pattern,
+    piecesPerPallet: piecesPerPackage
+  });
+  const orderedSqft = layout.totalPieces * pieceSqft;
+
+  // Step 3-4: Convert to purchase units
+  let purchaseUnits: number;
+  let purchaseUnitsRounded: number;
+
+  if (isPiece) {
+    purchaseUnits = layout.totalPieces;
+    purchaseUnitsRounded = layout.totalPieces;
+  } else if (isSqft || !layout.pallets) {
+    purchaseUnits = orderedSqft;
+    purchaseUnitsRounded = roundUpToTenth(orderedSqft);
+  } else {
+    purchaseUnits = layout.pallets;
+    purchaseUnitsRounded = roundUpToTenth(layout.pallets);
+  }
+
+  // Step 5: Calculate cost (price_per_unit is already per purchase unit)
+  const totalCost = purchaseUnitsRounded * material.price_per_unit;
+
+  // Build display string
+  const unitLabel = getUnitLabel(material.unit_type, material.coverage_per_unit);
+  const layoutDisplay = describePaverLayout(layout);
+  let quantityDisplay: string;
+
+  if (isPiece) {
+    quantityDisplay = layoutDisplay;
+  } else if (isSqft || !layout.pallets) {
+    quantityDisplay = `${formatPurchaseQuantity(purchaseUnitsRounded, 'square_foot', getUnitLabel('square_foot', null), unitSystem)} - ${layoutDisplay}`;
+  } else {
+    quantityDisplay = `${purchaseUnitsRounded.toFixed(1)} ${unitLabel} - ${layoutDisplay}`;
+  }
+
+  return {
+    quantityNeeded: squareFootage,
+    quantityWithWaste: orderedSqft,
+    quantityWithCompaction: 0,
+    purchaseUnits,
+    purchaseUnitsRounded,
+    unitCost: material.price_per_unit,
+    totalCost,
+    unitLabel,
+    quantityDisplay,
+    wasteFactorPercent: layout.wastePercentage,
+    compactionFactorPercent: 0,
+    layout
+  };
+}
+
 /**
  * Calculate All Material Costs
  *
  * Main orchestrator that:
  * 1. Fetches all categories for service
- * 2. Gets selected material (or default) for each category
+ * 2. Gets selected material (or default) for each category, substituting
+ *    inactive ones by the category's substitution_rule
  * 3. Runs appropriate calculation method
  * 4. Sums total cost and builds breakdown
  *
+ * @throws MissingMaterialError when a required category has no material
+ *
  * @param input - Square footage and optional material selections
  * @param companyId - Company UUID
  * @param serviceConfigId - Service config UUID
@@ -330,7 +624,8 @@ export async function calculateAllMaterialCosts(
   console.log('📦 [MATERIAL CALC] Starting calculation:', {
     sqft: input.squareFootage,
     hasSelections: !!input.selectedMaterials,
-    customPerimeter: input.customPerimeter
+    customPerimeter: input.customPerimeter,
+    shape: input.shape ? `${input.shape.parts.length} part(s)` : undefined
   });
 
   // Step 1: Fetch all categories for service
@@ -354,16 +649,27 @@ export async function calculateAllMaterialCosts(
     const materialId = input.selectedMaterials?.[category.category_key];
 
     let material: ServiceMaterial | null = null;
+    let substitution: MaterialSubstitution | undefined;
 
     if (materialId) {
       const { data } = await fetchMaterialById(materialId);
       material = data;
+
+      // Selected material discontinued since the quote was built
+      if (material && !material.is_active) {
+        ({ data: material, substitution } = await findMaterialSubstitute(material));
+      }
     } else {
-      const { data } = await getDefaultMaterial(companyId, serviceConfigId, category.category_key);
-      material = data;
+      ({ data: material, substitution } = await getDefaultMaterial(companyId, serviceConfigId, category.category_key));
     }
 
     if (!material) {
+      if (category.is_required) {
+        throw new MissingMaterialError(
+          `No active material for required category "${category.category_label}" - add one or set a substitution rule`,
+          category.category_key
+        );
+      }
       console.warn(`⚠️ [MATERIAL CALC] No material found for category: ${category.category_key}, skipping`);
       continue;
     }
@@ -373,20 +679,48 @@ export async function calculateAllMaterialCosts(
 
     switch (category.calculation_method) {
       case 'volume_depth':
-        quantities = calculateVolumeMaterial(input.squareFootage, material, category);
+        quantities = calculateVolumeMaterial(input.squareFootage, material, category, input.unitSystem);
         console.log(`  📊 Volume calculation (${category.category_key}):`, quantities);
         break;
 
       case 'area_coverage':
-        quantities = calculateAreaMaterial(input.squareFootage, material);
+        quantities = calculateAreaMaterial(input.squareFootage, material, input.unitSystem);
         console.log(`  📊 Area calculation (${category.category_key}):`, quantities);
         break;
 
       case 'linear_perimeter':
-        quantities = calculateLinearMaterial(input.squareFootage, material, input.customPerimeter);
+        // Exact edge of a measured shape when there is no override
+        quantities = calculateLinearMaterial(input.squareFootage, material, resolvePerimeter(input.squareFootage, input), input.unitSystem);
         console.log(`  📊 Linear calculation (${category.category_key}):`, quantities);
         break;
 
+      case 'paver_layout':
+        // Border cuts follow the same edge as the edging
+        quantities = calculatePaverLayoutMaterial(
+          input.squareFootage,
+          material,
+          resolvePerimeter(input.squareFootage, input),
+          input.layoutPattern,
+          input.unitSystem
+        );
+        console.log(`  📊 Paver layout calculation (${category.category_key}):`, quantities);
+        break;
+
+      case 'weight_tonnage':
+        quantities = calculateWeightMaterial(input.squareFootage, material, category, input.unitSystem);
+        console.log(`  📊 Weight calculation (${category.category_key}):`, quantities);
+        break;
+
+      case 'piece_count':
+        quantities = calculatePieceCountMaterial(
+          input.squareFootage,
+          material,
+          resolvePerimeter(input.squareFootage, input),
+          input.unitSystem
+        );
+        console.log(`  📊 Piece count calculation (${category.category_key}):`, quantities);
+        break;
+
       default:
         console.error(`❌ Unknown calculation method: ${category.calculation_method}`);
         continue;
@@ -399,7 +733,8 @@ export async function calculateAllMaterialCosts(
       materialName: material.material_name,
       calculationMethod: category.calculation_method,
       quantities,
-      subtotal: quantities.totalCost
+      subtotal: quantities.totalCost,
+      ...(substitution && { substitution })
     });
   }
 
@@ -413,13 +748,15 @@ export async function calculateAllMaterialCosts(
     detailedUnits[r.categoryKey] = {
       unitsNeeded: r.quantities.purchaseUnitsRounded,
       unitLabel: r.quantities.unitLabel,
+      calculationMethod: r.calculationMethod,
       displayText: r.quantities.quantityDisplay
     };
   });
 
   // Step 6: Generate breakdown text
   const breakdown = results.map(r =>
-    `${r.categoryLabel}: ${r.quantities.quantityDisplay} = $${r.subtotal.toFixed(2)}`
+    `${r.categoryLabel}: ${r.quantities.quantityDisplay} = $${r.subtotal.toFixed(2)}` +
+    (r.substitution ? ` (${r.substitution.note})` : '')
   ).join('\n');
 
   console.log('💰 [MATERIAL CALC] Calculation complete:', {
@@ -563,3 +900,43 @@ export async function calculatePatioExcavationDepth(
     breakdown
   };
 }
+
+/**
+ * Calculate Paver Cut Layout (Material-Based)
+ *
+ * Layout of the paver_layout category's selected (or default) paver, for
+ * the pricing engine's cut labor. Same shape, perimeter and pattern as the
+ * material quantities, so labor and pieces describe the same cuts.
+ *
+ * @param input - Square footage, selections, shape and laying pattern
+ * @param companyId - Company UUID
+ * @param serviceConfigId - Service config UUID
+ * @returns Layout, or null when there is no paver_layout category or the
+ *          paver has no dimensions
+ */
+export async function calculatePaverCutLayout(
+  input: MaterialCalculationInput,
+  companyId: string,
+  serviceConfigId: string
+): Promise<PaverLayoutResult | null> {
+  const { data: categories, error } = await fetchMaterialCategories(companyId, serviceConfigId);
+  if (error || !categories) return null;
+
+  const category = categories.find(c => c.calculation_method === 'paver_layout');
+  if (!category) return null;
+
+  const materialId = input.selectedMaterials?.[category.category_key];
+  const { data: material } = materialId
+    ? await fetchMaterialById(materialId)
+    : await getDefaultMaterial(companyId, serviceConfigId, category.category_key);
+
+  if (!material || !hasLayoutDimensions(material.length_inches, material.width_inches)) return null;
+
+  return calculatePaverLayout({
+    area: input.squareFootage,
+    perimeter: resolvePerimeter(input.squareFootage, input),
+    lengthInches: material.length_inches ?? 0,
+    widthInches: material.width_inches ?? 0,
+    pattern: input.layoutPattern
+  });
+}
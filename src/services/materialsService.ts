@@ -6,7 +6,23 @@
  */
 
 import { getSupabase } from './supabase';
-import type { MaterialCategory, ServiceMaterial, MaterialsByCategory } from '../types/materials';
+import type {
+  MaterialCategory,
+  MaterialSubstitution,
+  MaterialSubstitutionRule,
+  ServiceMaterial,
+  MaterialsByCategory,
+  PieceSpacingBasis
+} from '../types/materials';
+import {
+  DEFAULT_SUBSTITUTION_RULE,
+  describeSubstitution,
+  findSubstitute
+} from '../pricing-system/utils/material-substitution';
+import { resolveCatalogMaterial } from '../pricing-system/utils/material-catalog';
+
+// Service rows with their catalog material, resolved by resolveCatalogMaterial()
+const MATERIAL_SELECT = '*, catalog:material_catalog(*)';
 
 /**
  * Fetch all material categories for a service
@@ -61,7 +77,7 @@ export async function fetchMaterialsForCategory(
 
     const { data, error } = await supabase
       .from('svc_materials')
-      .select('*')
+      .select(MATERIAL_SELECT)
       .eq('company_id', companyId)
       .eq('service_config_id', serviceConfigId)
       .eq('material_category', categoryKey)
@@ -74,8 +90,10 @@ export async function fetchMaterialsForCategory(
       return { data: null, error: error.message };
     }
 
-    console.log(`✅ Fetched ${data?.length || 0} materials for category: ${categoryKey}`);
-    return { data: data as ServiceMaterial[], error: null };
+    const materials = (data || []).map(resolveCatalogMaterial).filter(material => material.is_active);
+
+    console.log(`✅ Fetched ${materials.length} materials for category: ${categoryKey}`);
+    return { data: materials, error: null };
   } catch (err: any) {
     console.error(`❌ Exception fetching materials for category ${categoryKey}:`, err);
     return { data: null, error: err.message || 'Unknown error occurred' };
@@ -85,6 +103,9 @@ export async function fetchMaterialsForCategory(
 /**
  * Fetch all materials for a service, grouped by category
  *
+ * Catalog-linked materials take their name, supplier, price and properties
+ * from the company material catalog (see material-catalog.ts).
+ *
  * @param companyId - Company UUID
  * @param serviceConfigId - Service config UUID
  * @returns Object mapping category keys to arrays of materials
@@ -99,7 +120,7 @@ export async function fetchAllMaterialsForService(
     // Fetch all materials for the service
     const { data, error } = await supabase
       .from('svc_materials')
-      .select('*')
+      .select(MATERIAL_SELECT)
       .eq('company_id', companyId)
       .eq('service_config_id', serviceConfigId)
       .eq('is_active', true)
@@ -113,7 +134,7 @@ export async function fetchAllMaterialsForService(
 
     // Group by category
     const materialsByCategory: MaterialsByCategory = {};
-    (data as ServiceMaterial[]).forEach((material) => {
+    (data || []).map(resolveCatalogMaterial).filter(material => material.is_active).forEach((material) => {
       if (!materialsByCategory[material.material_category]) {
         materialsByCategory[material.material_category] = [];
       }
@@ -131,16 +152,19 @@ export async function fetchAllMaterialsForService(
 /**
  * Get the default material for a category
  *
+ * An inactive default is replaced by the category's substitution rule
+ * (see findMaterialSubstitute).
+ *
  * @param companyId - Company UUID
  * @param serviceConfigId - Service config UUID
  * @param categoryKey - Category key
- * @returns Default material or null if none exists
+ * @returns Default material (or its substitute) or null if none exists
  */
 export async function getDefaultMaterial(
   companyId: string,
   serviceConfigId: string,
   categoryKey: string
-): Promise<{ data: ServiceMaterial | null; error: string | null }> {
+): Promise<{ data: ServiceMaterial | null; substitution?: MaterialSubstitution; error: string | null }> {
   try {
     const supabase = getSupabase();
 
@@ -152,12 +176,12 @@ export async function getDefaultMaterial(
 
     const { data, error } = await supabase
       .from('svc_materials')
-      .select('*')
+      .select(MATERIAL_SELECT)
       .eq('company_id', companyId)
       .eq('service_config_id', serviceConfigId)
       .eq('material_category', categoryKey)
       .eq('is_default', true)
-      .eq('is_active', true)
+      .order('is_active', { ascending: false })  // An active default wins
       .limit(1)
       .single();
 
@@ -176,22 +200,86 @@ export async function getDefaultMaterial(
       return { data: null, error: error.message };
     }
 
+    const material = resolveCatalogMaterial(data);
+    if (!material.is_active) {
+      return findMaterialSubstitute(material);
+    }
+
     console.log(`✅ [GET DEFAULT MATERIAL] Found default material for ${categoryKey}:`, {
-      materialId: data.id,
-      materialName: data.material_name,
-      coverage_depth_inches: data.coverage_depth_inches,
-      price_per_unit: data.price_per_unit,
-      is_default: data.is_default,
-      is_active: data.is_active
+      materialId: material.id,
+      materialName: material.material_name,
+      coverage_depth_inches: material.coverage_depth_inches,
+      price_per_unit: material.price_per_unit,
+      is_default: material.is_default,
+      is_active: material.is_active
     });
 
-    return { data: data as ServiceMaterial, error: null };
+    return { data: material, error: null };
   } catch (err: any) {
     console.error(`❌ [GET DEFAULT MATERIAL] Exception fetching default material for ${categoryKey}:`, err);
     return { data: null, error: err.message || 'Unknown error occurred' };
   }
 }
 
+/**
+ * Active replacement for an inactive material
+ *
+ * Applies the category's substitution_rule to the other active materials
+ * in the category (see material-substitution.ts).
+ *
+ * @param original - The inactive material
+ * @returns Substitute and its note, or null data if the rule finds none
+ */
+export async function findMaterialSubstitute(
+  original: ServiceMaterial
+): Promise<{ data: ServiceMaterial | null; substitution?: MaterialSubstitution; error: string | null }> {
+  try {
+    const supabase = getSupabase();
+
+    const [{ data: category }, { data: candidates, error }] = await Promise.all([
+      supabase
+        .from('svc_material_categories')
+        .select('substitution_rule')
+        .eq('company_id', original.company_id)
+        .eq('service_config_id', original.service_config_id)
+        .eq('category_key', original.material_category)
+        .maybeSingle(),
+      supabase
+        .from('svc_materials')
+        .select(MATERIAL_SELECT)
+        .eq('company_id', original.company_id)
+        .eq('service_config_id', original.service_config_id)
+        .eq('material_category', original.material_category)
+        .eq('is_active', true)
+    ]);
+
+    if (error) {
+      console.error(`❌ [MATERIAL SUBSTITUTE] Error fetching substitutes for ${original.material_name}:`, error);
+      return { data: null, error: error.message };
+    }
+
+    const rule = (category?.substitution_rule as MaterialSubstitutionRule | undefined) ?? DEFAULT_SUBSTITUTION_RULE;
+    const substitute = findSubstitute(
+      original,
+      (candidates || []).map(resolveCatalogMaterial).filter(candidate => candidate.is_active),
+      rule
+    );
+
+    if (!substitute) {
+      console.warn(`⚠️ [MATERIAL SUBSTITUTE] No ${rule} substitute for inactive material: ${original.material_name}`);
+      return { data: null, error: null };
+    }
+
+    const substitution = describeSubstitution(original, substitute, rule);
+    console.log(`🔁 [MATERIAL SUBSTITUTE] ${substitution.note}`);
+
+    return { data: substitute, substitution, error: null };
+  } catch (err: any) {
+    console.error(`❌ [MATERIAL SUBSTITUTE] Exception finding substitute for ${original.material_name}:`, err);
+    return { data: null, error: err.message || 'Unknown error occurred' };
+  }
+}
+
 /**
  * Get material count for a category
  *
@@ -244,7 +332,7 @@ export async function fetchMaterialById(
 
     const { data, error } = await supabase
       .from('svc_materials')
-      .select('*')
+      .select(MATERIAL_SELECT)
       .eq('id', materialId)
       .single();
 
@@ -253,17 +341,19 @@ export async function fetchMaterialById(
       return { data: null, error: error.message };
     }
 
+    const material = resolveCatalogMaterial(data);
+
     console.log(`✅ [FETCH MATERIAL BY ID] Found material:`, {
-      materialId: data.id,
-      materialName: data.material_name,
-      category: data.material_category,
-      coverage_depth_inches: data.coverage_depth_inches,
-      price_per_unit: data.price_per_unit,
-      is_default: data.is_default,
-      is_active: data.is_active
+      materialId: material.id,
+      materialName: material.material_name,
+      category: material.material_category,
+      coverage_depth_inches: material.coverage_depth_inches,
+      price_per_unit: material.price_per_unit,
+      is_default: material.is_default,
+      is_active: material.is_active
     });
 
-    return { data: data as ServiceMaterial, error: null };
+    return { data: material, error: null };
   } catch (err: any) {
     console.error(`❌ [FETCH MATERIAL BY ID] Exception fetching material ${materialId}:`, err);
     return { data: null, error: err.message || 'Unknown error occurred' };
@@ -422,3 +512,101 @@ export async function updateMaterialDepth(
     return { success: false, error: err.message || 'Unknown error occurred' };
   }
 }
+
+/**
+ * Update material density (weight_tonnage categories)
+ *
+ * @param materialId - Material UUID
+ * @param density - Loose tons per cubic yard (e.g., 1.4)
+ * @returns Success status
+ */
+export async function updateMaterialDensity(
+  materialId: string,
+  density: number
+): Promise<{ success: boolean; error: string | null }> {
+  try {
+    const supabase = getSupabase();
+
+    const { error } = await supabase
+      .from('svc_materials')
+      .update({ density_tons_per_cubic_yard: density })
+      .eq('id', materialId);
+
+    if (error) {
+      console.error(`❌ Error updating density for material ${materialId}:`, error);
+      return { success: false, error: error.message };
+    }
+
+    console.log(`✅ Updated density to ${density} tons/cy for material ${materialId}`);
+    return { success: true, error: null };
+  } catch (err: any) {
+    console.error('❌ Exception updating density:', err);
+    return { success: false, error: err.message || 'Unknown error occurred' };
+  }
+}
+
+/**
+ * Update material piece spacing (piece_count categories)
+ *
+ * @param materialId - Material UUID
+ * @param spacing - Units per piece (stored in coverage_per_unit)
+ * @param basis - 'per_unit' (service quantity) or 'per_linear_foot' (edge)
+ * @returns Success status
+ */
+export async function updateMaterialSpacing(
+  materialId: string,
+  spacing: number,
+  basis: PieceSpacingBasis
+): Promise<{ success: boolean; error: string | null }> {
+  try {
+    const supabase = getSupabase();
+
+    const { error } = await supabase
+      .from('svc_materials')
+      .update({ coverage_per_unit: spacing, piece_spacing_basis: basis })
+      .eq('id', materialId);
+
+    if (error) {
+      console.error(`❌ Error updating spacing for material ${materialId}:`, error);
+      return { success: false, error: error.message };
+    }
+
+    console.log(`✅ Updated spacing to 1 per ${spacing} (${basis}) for material ${materialId}`);
+    return { success: true, error: null };
+  } catch (err: any) {
+    console.error('❌ Exception updating spacing:', err);
+    return { success: false, error: err.message || 'Unknown error occurred' };
+  }
+}
+
+/**
+ * Set how a category replaces an inactive default material
+ *
+ * @param categoryId - Material category UUID
+ * @param rule - Substitution rule (see material-substitution.ts)
+ * @returns Success status
+ */
+export async function updateCategorySubstitutionRule(
+  categoryId: string,
+  rule: MaterialSubstitutionRule
+): Promise<{ success: boolean; error: string | null }> {
+  try {
+    const supabase = getSupabase();
+
+    const { error } = await supabase
+      .from('svc_material_categories')
+      .update({ substitution_rule: rule })
+      .eq('id', categoryId);
+
+    if (error) {
+      console.error(`❌ Error updating substitution rule for category ${categoryId}:`, error);
+      return { success: false, error: error.message };
+    }
+
+    console.log(`✅ Updated substitution rule to ${rule} for category ${categoryId}`);
+    return { success: true, error: null };
+  } catch (err: any) {
+    console.error('❌ Exception updating substitution rule:', err);
+    return { success: false, error: err.message || 'Unknown error occurred' };
+  }
+}
@@ -3,6 +3,11 @@ import { getSupabase } from '../services/supabase';
 import { masterPricingEngine } from '../pricing-system/core/calculations/master-pricing-engine';
 import { serviceConfigManager } from '../services/ServiceConfigManager';
 import { calculateMultiplierFromPercentage } from '../pricing-system/utils/variable-helpers';
+import {
+  normalizePricingRules,
+  pricingRulesFromBusinessSettings,
+  type PricingRules
+} from '../pricing-system/core/calculations/pricing-rules';
 
 // Import the JSON configurations (used as fallback only)
 import paverPatioConfigJson from '../pricing-system/config/paver-patio-formula.json';
@@ -30,10 +35,31 @@ interface ServiceConfig {
     materialSettings: Record<string, BaseSetting>;
     businessSettings: Record<string, BaseSetting>;
   };
+  pricingRules?: PricingRules;   // pricing_rules column - volume discount tiers live here
   variables?: any;
   lastModified: string;
 }
 
+// Editable pricing rule fields shown under Business Settings
+const pricingRuleSettings = (pricingRules: PricingRules): Record<string, BaseSetting> => ({
+  minimumJobCharge: {
+    value: pricingRules.minimumJobCharge ?? 0,
+    unit: '$',
+    label: 'Minimum Job Charge',
+    description: 'Smallest price quoted for this service (0 = no minimum)',
+    adminEditable: true,
+    validation: { min: 0, max: 100000, step: 50 }
+  },
+  marginFloor: {
+    value: pricingRules.marginFloor ?? 0,
+    unit: 'percentage',
+    label: 'Margin Floor',
+    description: 'Flag quotes whose margin ends up below this after discounts (0 = off)',
+    adminEditable: true,
+    validation: { min: 0, max: 0.5, step: 0.01 }
+  }
+});
+
 interface ServiceVariableUpdate {
   equipmentCosts?: {
     handTools?: number;
@@ -129,6 +155,13 @@ const saveServiceConfig = async (serviceId: string, updatedService: ServiceConfi
       base_productivity: updatedService.baseSettings?.laborSettings?.baseProductivity?.value ?? 50,
       base_material_cost: updatedService.baseSettings?.materialSettings?.baseMaterialCost?.value ?? 5.84,
       profit_margin: updatedService.baseSettings?.businessSettings?.profitMarginTarget?.value ?? 0.20,
+      // Only configs loaded from the database carry pricingRules - don't wipe rules on other saves
+      ...(updatedService.pricingRules && {
+        pricing_rules: pricingRulesFromBusinessSettings({
+          ...updatedService.baseSettings?.businessSettings,
+          volumeDiscounts: updatedService.pricingRules.volumeDiscounts
+        })
+      }),
       variables_config: updatedService.variables_config || updatedService.variables || {},
       default_variables: {},
       is_active: true,
@@ -367,9 +400,11 @@ export const useServiceBaseSettings = (companyId?: string, userId?: string): Ser
                   label: 'Profit Margin Target',
                   description: 'Target profit margin percentage',
                   adminEditable: true
-                }
+                },
+                ...pricingRuleSettings(normalizePricingRules(row.pricing_rules))
               }
             },
+            pricingRules: normalizePricingRules(row.pricing_rules),
             variables: row.variables_config || {},
             variables_config: row.variables_config || {},
             lastModified: new Date(row.updated_at).toISOString().split('T')[0]
@@ -760,9 +795,11 @@ export const useServiceBaseSettings = (companyId?: string, userId?: string): Ser
                 label: 'Profit Margin Target',
                 description: 'Target profit margin percentage',
                 adminEditable: true
-              }
+              },
+              ...pricingRuleSettings(normalizePricingRules(row.pricing_rules))
             }
           },
+          pricingRules: normalizePricingRules(row.pricing_rules),
           variables: row.variables_config || {},
           variables_config: row.variables_config || {},
           lastModified: new Date(row.updated_at).toISOString().split('T')[0]
@@ -0,0 +1,122 @@
+/**
+ * Bulk Price Adjustment Test
+ *
+ * Verifies percent and fixed changes, service / category / supplier /
+ * grade filters for materials and labor rates, validation and the
+ * estimated effect on open quotes.
+ */
+
+import {
+  adjustValue,
+  estimateQuoteImpact,
+  previewPriceAdjustment,
+  validatePriceAdjustment,
+  type AdjustableLaborRate,
+  type AdjustableMaterial,
+  type AdjustableQuoteLine,
+  type PriceAdjustment
+} from '../pricing-system/utils/bulk-price-adjustment';
+import type { CategoryCalculationResult, MaterialCalculationResult } from '../types/materials';
+import { check, runSuite } from './test-harness';
+
+const materials: AdjustableMaterial[] = [
+  { id: 'rock', material_name: 'Road Base', material_category: 'base_rock', service_config_id: 'patio', supplier_name: 'Midwest Stone', material_grade: null, price_per_unit: 24 },
+  { id: 'sand', material_name: 'Bedding Sand', material_category: 'bedding_sand', service_config_id: 'patio', supplier_name: ' midwest stone ', material_grade: null, price_per_unit: 32.5 },
+  { id: 'holland', material_name: 'Holland 4x8', material_category: 'pavers', service_config_id: 'patio', supplier_name: 'Belgard', material_grade: 'Premium', price_per_unit: 520 },
+  { id: 'lafitt', material_name: 'Lafitt', material_category: 'pavers', service_config_id: 'patio', supplier_name: 'Belgard', material_grade: 'Standard', price_per_unit: 480 },
+  { id: 'mulch', material_name: 'Hardwood Mulch', material_category: 'mulch', service_config_id: 'mulching', supplier_name: 'Midwest Stone', material_grade: null, price_per_unit: 38 }
+];
+
+const laborRates: AdjustableLaborRate[] = [
+  { id: 'patio', service_name: 'paver_patio_sqft', hourly_labor_rate: 25, profit_margin: 0.2 },
+  { id: 'mulching', service_name: 'mulch_installation', hourly_labor_rate: 22, profit_margin: 0.25 }
+];
+
+const adjustment = (overrides: Partial<PriceAdjustment>): PriceAdjustment => ({
+  mode: 'percent',
+  amount: 4,
+  scope: 'materials',
+  filters: {},
+  ...overrides
+});
+
+const category = (materialId: string, purchaseUnits: number): CategoryCalculationResult => ({
+  categoryKey: materialId,
+  categoryLabel: materialId,
+  materialId,
+  materialName: materialId,
+  calculationMethod: 'area_coverage',
+  quantities: { purchaseUnits, unitCost: 0, unitLabel: 'units' },
+  subtotal: 0
+} as CategoryCalculationResult);
+
+const breakdown = (...categories: CategoryCalculationResult[]) =>
+  ({ categories } as MaterialCalculationResult);
+
+function testAdjustValue() {
+  console.log('\n🧮 VALUES');
+
+  check('percent increase', adjustValue(24, 'percent', 4) === 24.96);
+  check('percent decrease', adjustValue(32.5, 'percent', -10) === 29.25);
+  check('fixed increase', adjustValue(25, 'fixed', 1.5) === 26.5);
+  check('rounded to cents', adjustValue(33.33, 'percent', 3) === 34.33);
+  check('never below zero', adjustValue(0.5, 'fixed', -2) === 0);
+
+  check('zero rejected', validatePriceAdjustment(adjustment({ amount: 0 })) !== null);
+  check('-100% rejected', validatePriceAdjustment(adjustment({ amount: -100 })) !== null);
+  check('fixed decrease allowed', validatePriceAdjustment(adjustment({ mode: 'fixed', amount: -100 })) === null);
+}
+
+function testFilters() {
+  console.log('\n🔎 FILTERS');
+
+  const all = previewPriceAdjustment(adjustment({}), materials, laborRates);
+  check('all materials, no labor rates', all.length === 5 && all.every(item => item.itemType === 'material'), all.length);
+  check('sorted by name', all[0].label === 'Bedding Sand' && all[4].label === 'Road Base', all.map(i => i.label));
+
+  const supplier = previewPriceAdjustment(adjustment({ filters: { supplier: 'MIDWEST STONE' } }), materials, laborRates);
+  check('supplier ignores case and spaces', supplier.map(i => i.id).sort().join() === 'mulch,rock,sand', supplier.map(i => i.id));
+
+  const grade = previewPriceAdjustment(adjustment({ filters: { category: 'pavers', grade: 'premium' } }), materials, laborRates);
+  check('category and grade', grade.length === 1 && grade[0].id === 'holland' && grade[0].newValue === 540.8, grade);
+
+  const service = previewPriceAdjustment(adjustment({ scope: 'both', filters: { serviceConfigId: 'mulching' } }), materials, laborRates);
+  check('service narrows materials and labor rates', service.length === 2 &&
+    service[0].itemType === 'labor_rate' && service[0].id === 'mulching' && service[1].id === 'mulch', service);
+
+  const labor = previewPriceAdjustment(adjustment({ scope: 'labor_rates', mode: 'fixed', amount: 2, filters: { supplier: 'Belgard' } }), materials, laborRates);
+  check('material filters ignored for labor rates', labor.length === 2 && labor.every(item => item.itemType === 'labor_rate'), labor);
+  check('labor rate values', labor.find(item => item.id === 'patio')?.newValue === 27);
+
+  const floor = previewPriceAdjustment(
+    adjustment({ mode: 'fixed', amount: -1 }),
+    [{ ...materials[0], price_per_unit: 0 }],
+    laborRates
+  );
+  check('unchanged values left out', floor.length === 0);
+}
+
+function testQuoteImpact() {
+  console.log('\n📄 QUOTE IMPACT');
+
+  const items = previewPriceAdjustment(adjustment({ scope: 'both', filters: { serviceConfigId: 'patio' } }), materials, laborRates);
+  const lines: AdjustableQuoteLine[] = [
+    { jobId: 'job-1', jobNumber: 'J-1001', serviceConfigId: 'patio', total: 9000, totalManHours: 100, materialBreakdown: breakdown(category('rock', 10), category('holland', 2)) },
+    { jobId: 'job-1', jobNumber: 'J-1001', serviceConfigId: 'mulching', total: 1000, totalManHours: 10, materialBreakdown: breakdown(category('mulch', 5)) },
+    { jobId: 'job-2', jobNumber: 'J-1002', serviceConfigId: 'mulching', total: 800, totalManHours: 8, materialBreakdown: breakdown(category('mulch', 4)) },
+    { jobId: 'job-3', jobNumber: 'J-1003', serviceConfigId: 'patio', total: 400, totalManHours: 4 }
+  ];
+  const margins = new Map(laborRates.map(rate => [rate.id, rate.profit_margin]));
+
+  const impact = estimateQuoteImpact(lines, items, margins);
+
+  // job-1: (100 h × $1 + 10 × $0.96 + 2 × $20.80) × 1.2 = 181.44
+  const job1 = impact.find(job => job.jobId === 'job-1');
+  check('materials and labor marked up by margin', job1?.change === 181.44, job1);
+  check('whole job total', job1?.currentTotal === 10000 && job1?.newTotal === 10181.44, job1);
+  check('unaffected quotes left out', !impact.some(job => job.jobId === 'job-2'));
+  check('labor-only line', impact.find(job => job.jobId === 'job-3')?.change === 4.8);
+  check('biggest change first', impact[0].jobId === 'job-1');
+}
+
+runSuite('💲 BULK PRICE ADJUSTMENT TESTS', [testAdjustValue, testFilters, testQuoteImpact]);
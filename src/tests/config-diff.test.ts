@@ -0,0 +1,59 @@
+/**
+ * Pricing Config Diff Test
+ *
+ * Verifies field-level diffs between pricing config revisions.
+ */
+
+import paverPatioConfig from '../pricing-system/config/paver-patio-formula.json';
+import { diffPricingConfigs } from '../pricing-system/utils/config-diff';
+import { check, runSuite } from './test-harness';
+
+const baseRevision = {
+  hourly_labor_rate: 25,
+  optimal_team_size: 3,
+  base_productivity: 50,
+  base_material_cost: 5.84,
+  profit_margin: 0.2,
+  variables_config: paverPatioConfig.variables as Record<string, any>,
+  default_variables: {}
+};
+
+function testIdenticalRevisions() {
+  console.log('\n🟰 IDENTICAL REVISIONS');
+
+  // Supabase returns numeric columns as strings
+  const fromDatabase = { ...baseRevision, hourly_labor_rate: '25.00' as unknown as number };
+  const changes = diffPricingConfigs(baseRevision, fromDatabase);
+  check('no changes for numeric strings', changes.length === 0, changes);
+}
+
+function testBaseSettingChange() {
+  console.log('\n💲 BASE SETTING CHANGE');
+
+  const changes = diffPricingConfigs(baseRevision, { ...baseRevision, hourly_labor_rate: 52 });
+  check('one change', changes.length === 1, changes);
+  check('labor rate path', changes[0]?.path === 'hourly_labor_rate');
+  check('before/after values', changes[0]?.before === 25 && changes[0]?.after === 52, changes[0]);
+}
+
+function testNestedVariableChange() {
+  console.log('\n🧩 NESTED VARIABLE CHANGES');
+
+  const variables = JSON.parse(JSON.stringify(paverPatioConfig.variables));
+  variables.materials.paverStyle.options.premium.value = 30;
+  variables.materials.paverStyle.options.luxury = { label: 'Luxury Grade', value: 50, multiplier: 1.5 };
+  delete variables.siteAccess.obstacleRemoval.options.major;
+
+  const changes = diffPricingConfigs(baseRevision, { ...baseRevision, variables_config: variables });
+  const byPath = new Map(changes.map(c => [c.path, c]));
+
+  check('option value changed',
+    byPath.get('variables_config.materials.paverStyle.options.premium.value')?.type === 'changed');
+  check('option added',
+    byPath.get('variables_config.materials.paverStyle.options.luxury')?.type === 'added');
+  check('option removed',
+    byPath.get('variables_config.siteAccess.obstacleRemoval.options.major')?.type === 'removed');
+  check('nothing else reported', changes.length === 3, changes);
+}
+
+runSuite('🔍 PRICING CONFIG DIFF TESTS', [testIdenticalRevisions, testBaseSettingChange, testNestedVariableChange]);
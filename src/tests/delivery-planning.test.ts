@@ -0,0 +1,116 @@
+/**
+ * Delivery Planning Test
+ *
+ * Verifies unit weights, supplier rate lookup with a company default,
+ * truckload and fee totals per supplier, materials that can't be planned
+ * and delivery dates relative to the job start.
+ */
+
+import {
+  findDeliveryRate,
+  planDeliveries,
+  rescheduleDeliveries,
+  suggestDeliveryDate,
+  unitWeightLbs,
+  type DeliveryMaterial,
+  type DeliveryRate
+} from '../pricing-system/utils/delivery-planning';
+import type { CategoryCalculationResult, MaterialCalculationMethod, MaterialCalculationResult } from '../types/materials';
+import { check, runSuite } from './test-harness';
+
+const materials: DeliveryMaterial[] = [
+  { id: 'rock', material_name: 'Road Base', supplier_name: 'Midwest Stone', unit_type: 'cubic_yard', units_per_package: null, weight_lbs: null, density_tons_per_cubic_yard: 1.4 },
+  { id: 'sand', material_name: 'Bedding Sand', supplier_name: ' midwest stone ', unit_type: 'ton', units_per_package: null, weight_lbs: null, density_tons_per_cubic_yard: null },
+  { id: 'holland', material_name: 'Holland 4x8', supplier_name: 'Belgard', unit_type: 'pallet', units_per_package: 540, weight_lbs: 3000, density_tons_per_cubic_yard: null },
+  { id: 'fabric', material_name: 'Geotextile Fabric', supplier_name: 'Midwest Stone', unit_type: 'roll', units_per_package: null, weight_lbs: null, density_tons_per_cubic_yard: null }
+];
+
+const midwest: DeliveryRate = { supplierName: 'Midwest Stone', maxLoadLbs: 40000, feePerLoad: 150, leadDays: 1 };
+const fallback: DeliveryRate = { supplierName: null, maxLoadLbs: 20000, feePerLoad: 95, leadDays: 2 };
+
+const category = (
+  materialId: string,
+  purchaseUnits: number,
+  calculationMethod: MaterialCalculationMethod = 'volume_depth'
+): CategoryCalculationResult => ({
+  categoryKey: materialId,
+  categoryLabel: materialId,
+  materialId,
+  materialName: `Quoted ${materialId}`,
+  calculationMethod,
+  quantities: { purchaseUnits, unitCost: 0, unitLabel: `${materialId} units` },
+  subtotal: 0
+} as CategoryCalculationResult);
+
+const breakdown = (...categories: CategoryCalculationResult[]) =>
+  ({ categories } as MaterialCalculationResult);
+
+const breakdowns = [
+  breakdown(category('rock', 5.42), category('sand', 12.34), category('holland', 2.1, 'paver_layout')),
+  breakdown(category('rock', 3.41), category('fabric', 1.2, 'area_coverage'))
+];
+
+function testWeights() {
+  console.log('\n⚖️ WEIGHTS AND RATES');
+
+  check('explicit weight wins', unitWeightLbs(materials[2]) === 3000);
+  check('tons are 2,000 lbs', unitWeightLbs(materials[1]) === 2000);
+  check('cubic yards use density', unitWeightLbs(materials[0]) === 2800);
+  check('unknown weight', unitWeightLbs(materials[3]) === null);
+
+  check('supplier rate matched ignoring case and spaces', findDeliveryRate([fallback, midwest], ' MIDWEST stone') === midwest);
+  check('other suppliers use the default', findDeliveryRate([midwest, fallback], 'Belgard') === fallback);
+  check('no supplier uses the default', findDeliveryRate([midwest, fallback], null) === fallback);
+  check('no default, no rate', findDeliveryRate([midwest], 'Belgard') === null);
+}
+
+function testPlan() {
+  console.log('\n🚚 PLAN');
+
+  const plan = planDeliveries(breakdowns, materials, [midwest, fallback], '2026-06-08');
+  const [belgard, stone] = plan.deliveries;
+
+  check('one delivery per supplier, A-Z', plan.deliveries.length === 2 &&
+    belgard.supplierName === 'Belgard' && stone.supplierName === 'Midwest Stone', plan.deliveries.map(d => d.supplierName));
+
+  // 8.83 yd → 8.9 × 2,800 = 24,920 lbs; 12.34 t → 12.4 × 2,000 = 24,800 lbs
+  check('material merged across lines and rounded', stone.lines.find(l => l.materialId === 'rock')?.quantity === 8.9);
+  check('supplier weight', stone.totalWeightLbs === 49720, stone.totalWeightLbs);
+  check('loads round up to full trucks', stone.loads === 2 && stone.fee === 300, stone);
+
+  // 2.1 pallets → 3 whole pallets × 3,000 lbs on the default rate
+  check('default rate', belgard.totalWeightLbs === 9000 && belgard.loads === 1 && belgard.fee === 95, belgard);
+
+  check('plan totals', plan.totalLoads === 3 && plan.totalFee === 395, plan);
+  check('unweighed materials listed', plan.unweighed.length === 1 && plan.unweighed[0] === 'Geotextile Fabric', plan.unweighed);
+
+  const noDefault = planDeliveries(breakdowns, materials, [midwest], '2026-06-08');
+  check('supplier without a rate listed', noDefault.deliveries.length === 1 &&
+    noDefault.unrated.length === 1 && noDefault.unrated[0] === 'Belgard', noDefault.unrated);
+  check('unrated supplier not charged', noDefault.totalFee === 300);
+
+  check('no materials, no deliveries', planDeliveries([], materials, [midwest]).deliveries.length === 0);
+}
+
+function testDates() {
+  console.log('\n📅 DELIVERY DATES');
+
+  check('lead days before a weekday start', suggestDeliveryDate('2026-06-10', 1) === '2026-06-09');
+  check('timestamp start', suggestDeliveryDate('2026-06-10T14:00:00Z', 2) === '2026-06-08');
+  // Monday 2026-06-08 starts
+  check('Sunday moves to Friday', suggestDeliveryDate('2026-06-08', 1) === '2026-06-05');
+  check('Saturday moves to Friday', suggestDeliveryDate('2026-06-08', 2) === '2026-06-05');
+  check('same-day delivery', suggestDeliveryDate('2026-06-08', 0) === '2026-06-08');
+  check('unscheduled job has no date', suggestDeliveryDate(null, 1) === null);
+
+  const unscheduled = planDeliveries(breakdowns, materials, [midwest, fallback]);
+  check('plan without a start', unscheduled.deliveries.every(d => d.deliveryDate === null));
+
+  const rescheduled = rescheduleDeliveries(unscheduled, '2026-06-12T07:00:00Z');
+  check('rescheduled by each lead time', rescheduled.deliveries[0].deliveryDate === '2026-06-10' &&
+    rescheduled.deliveries[1].deliveryDate === '2026-06-11', rescheduled.deliveries.map(d => d.deliveryDate));
+  check('rescheduling keeps loads and fees', rescheduled.totalFee === unscheduled.totalFee &&
+    rescheduled.deliveries[1].loads === unscheduled.deliveries[1].loads);
+}
+
+runSuite('🚛 DELIVERY PLANNING TESTS', [testWeights, testPlan, testDates]);
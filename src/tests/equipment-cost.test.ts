@@ -0,0 +1,116 @@
+/**
+ * Equipment Cost Test
+ *
+ * Verifies catalog equipment pricing (days from the job, owned vs rented,
+ * delivery), the engine's Tier 2 equipment lines and owned-equipment
+ * availability for reservations.
+ */
+
+import paverPatioConfig from '../pricing-system/config/paver-patio-formula.json';
+import { masterPricingEngine } from '../pricing-system/core/calculations/master-pricing-engine';
+import type { PricingTraceStep } from '../pricing-system/core/calculations/pricing-trace';
+import {
+  calculateEquipmentLines,
+  equipmentDays,
+  equipmentDemand,
+  findEquipmentShortages,
+  type EquipmentRequirement
+} from '../pricing-system/core/calculations/equipment-cost';
+import { taxableAmountsFromTier2 } from '../pricing-system/utils/sales-tax';
+import { check, runSuite } from './test-harness';
+
+const skidSteer: EquipmentRequirement = {
+  equipmentId: 'skid-steer',
+  name: 'Skid steer',
+  ownership: 'rented',
+  dailyRate: 285,
+  deliveryFee: 95,
+  quantity: 1,
+  dayFraction: 0.5,
+  minimumDays: 1
+};
+
+const plateCompactor: EquipmentRequirement = {
+  equipmentId: 'plate-compactor',
+  name: 'Plate compactor',
+  ownership: 'owned',
+  dailyRate: 40,
+  deliveryFee: 50,
+  quantity: 2,
+  dayFraction: 1,
+  minimumDays: 0
+};
+
+function testDays() {
+  console.log('\n📅 DAYS ON SITE');
+
+  check('full share of the job', equipmentDays(plateCompactor, 3.2) === 4);
+  check('share of days rounds up', equipmentDays(skidSteer, 3.2) === 2);
+  check('minimum days', equipmentDays({ dayFraction: 0.1, minimumDays: 2 }, 3) === 2);
+  check('at least a day on a real job', equipmentDays({ dayFraction: 0.1, minimumDays: 0 }, 0.5) === 1);
+  check('no job days, no rental', equipmentDays({ dayFraction: 1, minimumDays: 0 }, 0) === 0);
+}
+
+function testLines() {
+  console.log('\n🚜 EQUIPMENT LINES');
+
+  const [rented, owned] = calculateEquipmentLines([skidSteer, plateCompactor], 4);
+  // 1 × 2 days × $285 + $95 delivery
+  check('rented adds delivery', rented.cost === 665 && rented.deliveryFee === 95, rented);
+  // 2 × 4 days × $40, no delivery
+  check('owned uses the ownership rate', owned.cost === 320 && owned.deliveryFee === 0, owned);
+
+  check('scales with job days', calculateEquipmentLines([plateCompactor], 8)[0].cost === 640);
+  check('zero quantity skipped', calculateEquipmentLines([{ ...skidSteer, quantity: 0 }], 4).length === 0);
+}
+
+function testAvailability() {
+  console.log('\n🗓️ RESERVATIONS');
+
+  const demand = equipmentDemand([
+    { equipmentId: 'plate-compactor', quantity: 2 },
+    { equipmentId: 'plate-compactor', quantity: 1 },
+    { equipmentId: 'skid-steer', quantity: 1 }
+  ]);
+  check('shared units across a job', demand.find(d => d.equipmentId === 'plate-compactor')?.quantity === 2, demand);
+
+  const catalog = [
+    { id: 'plate-compactor', name: 'Plate compactor', ownership: 'owned' as const, quantity_owned: 3 },
+    { id: 'skid-steer', name: 'Skid steer', ownership: 'rented' as const, quantity_owned: 0 }
+  ];
+
+  check('free units available', findEquipmentShortages(demand, catalog, [{ equipmentId: 'plate-compactor', quantity: 1 }]).length === 0);
+
+  const short = findEquipmentShortages(demand, catalog, [{ equipmentId: 'plate-compactor', quantity: 2 }]);
+  check('owned items cannot be overbooked', short.length === 1 && short[0].available === 1 && short[0].requested === 2, short);
+  check('rented items never short', short.every(s => s.equipmentId !== 'skid-steer'));
+}
+
+async function testEngine() {
+  console.log('\n⚙️ ENGINE TIER 2');
+
+  const engine = masterPricingEngine as any;
+  const config = { ...paverPatioConfig, variables_config: paverPatioConfig.variables };
+  const values = { materials: { useMaterialsDatabase: false } };
+
+  const trace: PricingTraceStep[] = [];
+  const tier1 = engine.calculateTier1(config, values, 400, 'paver_patio_sqft', trace);
+  const without = await engine.calculateTier2(config, values, tier1, 400, undefined, undefined, undefined);
+  const withEquipment = await engine.calculateTier2(
+    config, values, tier1, 400, undefined, undefined, trace, undefined, [], [skidSteer, plateCompactor]
+  );
+
+  const expected = calculateEquipmentLines([skidSteer, plateCompactor], tier1.totalDays)
+    .reduce((sum, line) => sum + line.cost, 0);
+  check('lines on the result', withEquipment.equipmentLines?.length === 2, withEquipment.equipmentLines);
+  check('equipment cost includes the catalog', Math.abs(withEquipment.equipmentCost - without.equipmentCost - expected) < 0.02,
+    { with: withEquipment.equipmentCost, without: without.equipmentCost, expected });
+  check('equipment is not marked up', withEquipment.profit === without.profit);
+  check('total adds equipment', Math.abs(withEquipment.total - without.total - expected) < 0.02);
+
+  const last = trace[trace.length - 1];
+  check('trace ends at the total', Math.abs(last.runningTotal - withEquipment.total) < 0.02, last);
+  check('taxed as equipment', taxableAmountsFromTier2(withEquipment).equipment === withEquipment.equipmentCost);
+}
+
+runSuite('🚜 EQUIPMENT COST TESTS', [testDays, testLines, testAvailability, testEngine]);
@@ -0,0 +1,102 @@
+/**
+ * Excavation Productivity Test
+ *
+ * Verifies the excavation hours curve (equipment rate, depth factor,
+ * access factor) and that the paver patio bundle uses it through
+ * excavation-integration.ts.
+ */
+
+import {
+  DEFAULT_PRODUCTIVITY_CURVE,
+  calculateExcavationHoursFromCurve,
+  calculateExcavationVolume,
+  depthFactorFor,
+  normalizeProductivityCurve
+} from '../pricing-system/core/calculations/excavation-productivity';
+import {
+  calculateExcavationHours,
+  excavationSettingsFromConfig
+} from '../pricing-system/core/calculations/excavation-integration';
+import { masterPricingEngine } from '../pricing-system/core/calculations/master-pricing-engine';
+import paverPatioConfig from '../pricing-system/config/paver-patio-formula.json';
+import { check, runSuite } from './test-harness';
+
+function testCurve() {
+  console.log('\n📈 PRODUCTIVITY CURVE');
+
+  const curve = DEFAULT_PRODUCTIVITY_CURVE;
+  check('depth bands are inclusive', depthFactorFor(curve, 6) === 1.0 && depthFactorFor(curve, 7) === 1.1);
+  check('open-ended band beyond the last limit', depthFactorFor(curve, 30) === 1.5);
+
+  // 15 yd³ / 1.25 = 12 hrs × 1.1 (12") = 13.2 → 14
+  const base = calculateExcavationHoursFromCurve(15, 12, curve);
+  check('default equipment used', base.equipmentClass === 'miniExcavator' && base.hours === 14, base);
+
+  const hand = calculateExcavationHoursFromCurve(15, 12, curve, { equipmentClass: 'handTools' });
+  check('slower equipment takes longer', hand.hours > base.hours, hand);
+
+  const deep = calculateExcavationHoursFromCurve(15, 24, curve);
+  check('deeper digs take longer', deep.hours === 18, deep);
+
+  const difficult = calculateExcavationHoursFromCurve(15, 12, curve, { accessLevel: 'difficult' });
+  check('access factor applied', difficult.accessFactor === 1.6 && difficult.hours === 22, difficult);
+
+  const unknown = calculateExcavationHoursFromCurve(15, 12, curve, { equipmentClass: 'crane', accessLevel: 'unknown' });
+  check('unknown class and access fall back', unknown.equipmentClass === 'miniExcavator' && unknown.accessFactor === 1);
+  check('no volume, no hours', calculateExcavationHoursFromCurve(0, 12, curve).hours === 0);
+
+  // 10 / 1.25 × 1.0 is exactly 8 - float noise must not round up
+  check('exact results not rounded up', calculateExcavationHoursFromCurve(10, 6, curve).hours === 8);
+}
+
+function testNormalize() {
+  console.log('\n🧹 STORED CURVE');
+
+  check('missing curve → defaults', JSON.stringify(normalizeProductivityCurve(undefined)) === JSON.stringify(DEFAULT_PRODUCTIVITY_CURVE));
+
+  const custom = normalizeProductivityCurve({
+    equipmentRates: { trencher: 3, broken: -1 },
+    depthFactors: [{ maxDepth: null, factor: 2 }, { maxDepth: 8, factor: 1 }]
+  });
+  check('invalid rates dropped', Object.keys(custom.equipmentRates).join() === 'trencher', custom.equipmentRates);
+  check('default equipment must exist', custom.defaultEquipment === 'trencher');
+  check('bands sorted, open band last', custom.depthFactors[0].maxDepth === 8 && custom.depthFactors[1].maxDepth === null);
+  check('missing access factors → defaults', custom.accessFactors.moderate === 1.25);
+}
+
+function testIntegration() {
+  console.log('\n🔗 BUNDLE INTEGRATION');
+
+  check('volume matches the cost formula', calculateExcavationVolume(360, 12, 10, 0).final === 15);
+
+  // 1000 vs 1001 sqft used to jump a full 12-hour tier
+  check('no jump at the old tier boundary', calculateExcavationHours(1000) === calculateExcavationHours(1001));
+
+  const settings = excavationSettingsFromConfig({
+    hourly_labor_rate: 30,
+    variables_config: {
+      calculationSettings: {
+        defaultDepth: { default: 6 },
+        wasteFactor: { default: 0 },
+        productivityCurve: { default: { equipmentRates: { skidSteer: 2 } } }
+      }
+    }
+  });
+  check('curve read from the live config', settings.productivityCurve.defaultEquipment === 'skidSteer' && settings.baseRate === 30);
+
+  // 540 sqft × 0.5 ft / 27 = 10 yd³ / 2 = 5 hrs × 1.0 (6")
+  check('live settings drive the hours', calculateExcavationHours(540, { settings }) === 5);
+  check('material depth overrides the default', calculateExcavationHours(540, { settings, depthInches: 12 }) > 5);
+
+  const engine = masterPricingEngine as any;
+  const config = { ...paverPatioConfig, variables_config: paverPatioConfig.variables };
+  const values = {
+    siteAccess: { accessDifficulty: 'difficult' },
+    serviceIntegrations: { includeExcavation: true }
+  };
+  const tier1 = engine.calculateTier1(config, values, 540, 'paver_patio_sqft', undefined, { settings });
+  // 10 yd³ / 2 × 1.0 × 1.6 = 8 hrs
+  check('paver bundle uses the curve', tier1.excavationHours === 8, tier1);
+}
+
+runSuite('🚜 EXCAVATION PRODUCTIVITY TESTS', [testCurve, testNormalize, testIntegration]);
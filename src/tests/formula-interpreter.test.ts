@@ -0,0 +1,106 @@
+/**
+ * Formula Interpreter Test
+ *
+ * Verifies the generic variables_config interpreter against the paver patio,
+ * excavation and template-based configs.
+ */
+
+import paverPatioConfig from '../pricing-system/config/paver-patio-formula.json';
+import excavationConfig from '../pricing-system/config/excavation-removal-formula.json';
+import { LINEAR_MEASUREMENT_TEMPLATE } from '../utils/serviceTemplates';
+import {
+  resolveVariables,
+  interpretTier1,
+  interpretTier2
+} from '../pricing-system/core/calculations/formula-interpreter';
+import { checkClose, runSuite } from './test-harness';
+
+/**
+ * Paver patio: same results the engine produced with hardcoded variable names
+ */
+function testPaverPatio() {
+  console.log('\n🧱 PAVER PATIO (paver-patio-formula.json)');
+
+  const variables = resolveVariables(paverPatioConfig.variables, {
+    siteAccess: { accessDifficulty: 'moderate', obstacleRemoval: 'minor' },
+    materials: { paverStyle: 'premium', cuttingComplexity: 'moderate' },
+    labor: { teamSize: 'twoPerson' },
+    complexity: { overallComplexity: 'standard' }
+  });
+
+  checkClose('resolved variables', variables.length, 6);
+
+  // Base: 100 sqft ÷ 50 sqft/day × 3 people × 8 hours = 48 hours
+  const tier1 = interpretTier1(variables, 100, 50, 3);
+  checkClose('base hours', tier1.baseHours, 48);
+  // +50% access, +20% cutting, +40% team size (all of BASE)
+  checkClose('adjusted hours', tier1.adjustedHours, 48 * 2.1);
+
+  const tier2 = interpretTier2(variables);
+  checkClose('material multiplier', tier2.materialMultiplier, 1.2);
+  checkClose('material waste %', tier2.materialWastePercentage, 15);
+  checkClose('project multiplier', tier2.projectMultiplier, 1.1);
+  checkClose('flat additional cost', tier2.flatAdditionalCost, 500);
+  checkClose('daily equipment cost', tier2.dailyEquipmentCost, 0);
+}
+
+/**
+ * Defaults and legacy numeric complexity multiplier
+ */
+function testDefaultsAndLegacyValues() {
+  console.log('\n⚙️ DEFAULTS & LEGACY VALUES');
+
+  const defaults = resolveVariables(paverPatioConfig.variables, {});
+  const tier1 = interpretTier1(defaults, 100, 50, 3);
+  checkClose('default adjusted hours', tier1.adjustedHours, 48);
+
+  const legacy = interpretTier2(resolveVariables(paverPatioConfig.variables, {
+    complexity: { overallComplexity: 1.3 }
+  }));
+  checkClose('numeric complexity multiplier', legacy.projectMultiplier, 1.3);
+}
+
+/**
+ * Excavation: a different service with no paver categories
+ */
+function testExcavation() {
+  console.log('\n🚜 EXCAVATION (excavation-removal-formula.json)');
+
+  const variables = resolveVariables(excavationConfig.variables, {
+    soilType: { excavationType: 'clay' },
+    depth: { excavationDepth: 'deep' }
+  });
+
+  // Base: 30 cubic yards ÷ 15 cy/day × 2 people × 8 hours = 32 hours
+  const tier1 = interpretTier1(variables, 30, 15, 2, 'cubic yards');
+  checkClose('base hours', tier1.baseHours, 32);
+  checkClose('adjusted hours (+30% clay, +80% deep)', tier1.adjustedHours, 32 * 2.1);
+}
+
+/**
+ * Template-created service: effect types declared on the template
+ */
+function testTemplateService() {
+  console.log('\n📏 LINEAR MEASUREMENT TEMPLATE');
+
+  const variables = resolveVariables(LINEAR_MEASUREMENT_TEMPLATE, {
+    materials: { materialType: 'economy' },
+    installation: { terrainDifficulty: 'rocky' }
+  });
+
+  // Number settings (defaultHeight, postSpacing) have no effectType
+  checkClose('resolved variables', variables.length, 2);
+
+  const tier1 = interpretTier1(variables, 120, 60, 2, 'linear feet');
+  checkClose('adjusted hours (+40% terrain)', tier1.adjustedHours, 32 * 1.4);
+
+  const tier2 = interpretTier2(variables);
+  checkClose('material multiplier (-10%)', tier2.materialMultiplier, 0.9);
+}
+
+runSuite('🧮 FORMULA INTERPRETER TESTS', [
+  testPaverPatio,
+  testDefaultsAndLegacyValues,
+  testExcavation,
+  testTemplateService
+]);
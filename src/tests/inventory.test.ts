@@ -0,0 +1,102 @@
+/**
+ * Material Inventory Test
+ *
+ * Verifies summing a job's material needs, in stock vs to order with other
+ * jobs' reservations, low-stock alerts, consumption on completion and count
+ * adjustments.
+ */
+
+import {
+  availableStock,
+  consumptionForJob,
+  countAdjustment,
+  findLowStock,
+  planJobStock,
+  sumMaterialNeeds,
+  type StockLevel
+} from '../pricing-system/utils/inventory';
+import type { CategoryCalculationResult, MaterialCalculationResult } from '../types/materials';
+import { check, runSuite } from './test-harness';
+
+const category = (materialId: string, purchaseUnits: number): CategoryCalculationResult => ({
+  categoryKey: materialId,
+  categoryLabel: materialId,
+  materialId,
+  materialName: `Quoted ${materialId}`,
+  calculationMethod: 'area_coverage',
+  quantities: { purchaseUnits, unitCost: 0, unitLabel: `${materialId} units` },
+  subtotal: 0
+} as CategoryCalculationResult);
+
+const breakdown = (...categories: CategoryCalculationResult[]) =>
+  ({ categories } as MaterialCalculationResult);
+
+const levels: StockLevel[] = [
+  { materialId: 'rock', onHand: 10, reserved: 4, reorderPoint: 8 },
+  { materialId: 'sand', onHand: 20, reserved: 0, reorderPoint: 5 },
+  { materialId: 'pavers', onHand: 2, reserved: 3, reorderPoint: 1 },
+  { materialId: 'fabric', onHand: 1, reserved: 0, reorderPoint: null }
+];
+
+function testNeeds() {
+  console.log('\n🧮 NEEDS');
+
+  const needs = sumMaterialNeeds([
+    breakdown(category('rock', 2.25), category('sand', 3)),
+    breakdown(category('rock', 1.1))
+  ]);
+  check('summed across service lines', needs.get('rock')?.quantity === 3.35, needs.get('rock'));
+  check('name and unit kept', needs.get('sand')?.materialName === 'Quoted sand' && needs.get('sand')?.unitLabel === 'sand units');
+  check('nothing quoted, nothing needed', sumMaterialNeeds([]).size === 0);
+}
+
+function testPlan() {
+  console.log('\n📦 IN STOCK VS TO ORDER');
+
+  check('other jobs reservations come out', availableStock(levels[0]) === 6);
+  check('own reservation stays available', availableStock(levels[0], 4) === 10);
+  check('never negative', availableStock(levels[2]) === 0);
+
+  const plan = planJobStock([breakdown(category('rock', 7.5), category('sand', 3), category('edging', 12))], levels);
+  const rock = plan.find(line => line.materialId === 'rock')!;
+  check('partly in stock', rock.needed === 7.5 && rock.inStock === 6 && rock.toOrder === 1.5, rock);
+
+  const sand = plan.find(line => line.materialId === 'sand')!;
+  check('fully in stock', sand.inStock === 3 && sand.toOrder === 0, sand);
+
+  const edging = plan.find(line => line.materialId === 'edging')!;
+  check('never stocked, all to order', edging.inStock === 0 && edging.toOrder === 12, edging);
+
+  const rescheduled = planJobStock([breakdown(category('rock', 7.5))], levels, new Map([['rock', 4]]));
+  check('a scheduled job counts its own reservation', rescheduled[0].inStock === 7.5 && rescheduled[0].toOrder === 0, rescheduled[0]);
+}
+
+function testLowStock() {
+  console.log('\n⚠️ LOW STOCK');
+
+  const alerts = findLowStock(levels);
+  check('at or below reorder point after reservations', alerts.map(alert => alert.materialId).join() === 'rock,pavers', alerts);
+  check('furthest below first', alerts[0].materialId === 'rock' && alerts[0].available === 6);
+  check('no reorder point, no alert', !alerts.some(alert => alert.materialId === 'fabric'));
+  check('exactly at the point alerts',
+    findLowStock([{ materialId: 'sand', onHand: 5, reserved: 0, reorderPoint: 5 }]).length === 1);
+}
+
+function testConsumptionAndCounts() {
+  console.log('\n🏗️ CONSUMPTION AND COUNTS');
+
+  const consumed = consumptionForJob([
+    { materialId: 'rock', quantity: 4 },
+    { materialId: 'pavers', quantity: 3 },
+    { materialId: 'edging', quantity: 12 }
+  ], levels);
+  check('reservation consumed', consumed.find(entry => entry.materialId === 'rock')?.quantity === 4);
+  check('capped at on hand', consumed.find(entry => entry.materialId === 'pavers')?.quantity === 2, consumed);
+  check('nothing on hand, nothing consumed', !consumed.some(entry => entry.materialId === 'edging'));
+
+  check('count above on hand adds', countAdjustment(10, 12.5) === 2.5);
+  check('count below on hand removes', countAdjustment(10, 7.2) === -2.8);
+  check('matching count changes nothing', countAdjustment(3.3, 3.3) === 0);
+}
+
+runSuite('🏭 MATERIAL INVENTORY TESTS', [testNeeds, testPlan, testLowStock, testConsumptionAndCounts]);
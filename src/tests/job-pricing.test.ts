@@ -0,0 +1,210 @@
+/**
+ * Job Pricing Test
+ *
+ * Verifies that job estimates and added job lines are priced by the
+ * master pricing engine: the engine's Tier 2 total is what the estimate
+ * returns and what job_services stores, with the config revision and
+ * snapshot hash frozen on the line, and that a required material category
+ * with nothing to quote fails the line instead of pricing it without.
+ * Supabase queries are answered by an in-memory fake so the real
+ * JobService and engine code run.
+ */
+
+import paverPatioConfig from '../pricing-system/config/paver-patio-formula.json';
+import { check, runSuite } from './test-harness';
+
+interface FakeCall {
+  table: string;
+  action: 'select' | 'insert' | 'update' | 'delete' | 'upsert';
+  payload?: any;
+  filters: Record<string, unknown>;
+  single: boolean;
+}
+
+const COMPANY_ID = 'company-job-pricing';
+const CONFIG_ID = 'cfg-patio';
+const JOB_ID = 'job-1';
+
+const configRow = {
+  id: CONFIG_ID,
+  company_id: COMPANY_ID,
+  service_name: 'paver_patio_sqft',
+  hourly_labor_rate: '31.50',      // Numeric columns come back as strings
+  optimal_team_size: 3,
+  base_productivity: 50,
+  base_material_cost: '5.84',
+  profit_margin: '0.20',
+  pricing_rules: null,
+  variables_config: paverPatioConfig.variables,
+  is_active: true,
+  version: '1',
+  updated_at: '2026-01-01T00:00:00Z'
+};
+
+const calls: FakeCall[] = [];
+const storedLines: any[] = [];
+
+// Answers for the tables this path reads; everything else is empty
+function respond(call: FakeCall): { data: any; error: { code: string } | null } {
+  const rows = (data: any[]) => call.single && data.length === 0
+    ? { data: null, error: { code: 'PGRST116' } }  // .single() found nothing
+    : { data: call.single ? data[0] : data, error: null };
+
+  switch (call.table) {
+    case 'svc_pricing_configs':
+      return rows([configRow]);
+    case 'svc_material_categories':
+      // Required, and svc_materials has nothing to fill it
+      return rows([{ id: 'cat-base', category_key: 'base_rock', category_label: 'Base Rock', is_required: true, sort_order: 1 }]);
+    case 'svc_pricing_config_revisions':
+      return rows([{ id: 'rev-7', revision_number: 7 }]);
+    case 'jobs':
+      if (call.action === 'select') {
+        return rows([{ id: JOB_ID, company_id: COMPANY_ID, requested_start_date: null, service_zip: null, service_state: null, scheduled_start_date: null }]);
+      }
+      return rows([]);
+    case 'job_services':
+      if (call.action === 'insert') {
+        const line = { id: `line-${storedLines.length + 1}`, ...call.payload };
+        storedLines.push(line);
+        return rows([line]);
+      }
+      return rows(storedLines.filter(line => line.is_selected_option !== false));
+    default:
+      return rows([]);
+  }
+}
+
+function fakeFrom(table: string) {
+  const call: FakeCall = { table, action: 'select', filters: {}, single: false };
+  const builder: any = new Proxy({}, {
+    get(_target, prop: string) {
+      switch (prop) {
+        case 'then':
+          return (resolve: (value: unknown) => unknown, reject: (reason: unknown) => unknown) => {
+            calls.push(call);
+            return Promise.resolve(respond(call)).then(resolve, reject);
+          };
+        case 'insert':
+        case 'update':
+        case 'upsert':
+          return (payload: unknown) => {
+            call.action = prop;
+            call.payload = payload;
+            return builder;
+          };
+        case 'delete':
+          return () => {
+            call.action = 'delete';
+            return builder;
+          };
+        case 'eq':
+          return (column: string, value: unknown) => {
+            call.filters[column] = value;
+            return builder;
+          };
+        case 'single':
+        case 'maybeSingle':
+          return () => {
+            call.single = true;
+            return builder;
+          };
+        default:
+          // select, order, limit, in, neq... don't change the answer
+          return () => builder;
+      }
+    }
+  });
+  return builder;
+}
+
+const patioVariables = {
+  sqft: 240,
+  materials: { useMaterialsDatabase: false, paverStyle: 'standard', cuttingComplexity: 'minimal' },
+  excavation: { tearoutComplexity: 'grass', equipmentRequired: 'handTools' },
+  siteAccess: { accessDifficulty: 'easy', obstacleRemoval: 'none' },
+  labor: { teamSize: 'threePlus' },
+  complexity: { overallComplexity: 1 }
+};
+
+async function setUp() {
+  process.env.SUPABASE_URL = 'http://localhost:54321';
+  process.env.SUPABASE_ANON_KEY = 'test-anon-key';
+
+  const { getSupabase } = await import('../services/supabase');
+  const client = getSupabase() as any;
+  client.from = fakeFrom;
+  client.auth.getSession = async () => ({ data: { session: null }, error: null });
+}
+
+async function testEstimate() {
+  console.log('\n🧮 ESTIMATE THROUGH THE ENGINE');
+
+  const { jobService } = await import('../services/JobService');
+  const { masterPricingEngine } = await import('../pricing-system/core/calculations/master-pricing-engine');
+
+  const { sqft, ...values } = patioVariables;
+  const engine = await masterPricingEngine.calculatePricing(values as any, sqft, 'paver_patio_sqft', COMPANY_ID, CONFIG_ID);
+  check('engine priced the patio', engine.tier2Results.total > 0, engine.tier2Results);
+
+  const estimate = await jobService.calculateJobEstimate(COMPANY_ID, [
+    { service_config_id: CONFIG_ID, pricing_variables: patioVariables }
+  ]);
+  check('estimate succeeded', estimate.success, estimate.error);
+
+  const line = estimate.data?.services[0];
+  check('line total is the engine total', line?.total === engine.tier2Results.total, { line: line?.total, engine: engine.tier2Results.total });
+  const hours = line?.calculation.tier1Results?.totalManHours ?? 0;
+  check('labor at the live config rate', hours > 0 &&
+    Math.abs((line?.calculation.tier2Results?.laborCost ?? 0) - hours * 31.5) < 0.01, { hours, labor: line?.calculation.tier2Results?.laborCost });
+  check('service and unit from the registry', line?.calculation.serviceId === 'paver_patio_sqft' && line?.calculation.unit === 'sqft', line?.calculation.unit);
+  check('revision and snapshot frozen', line?.calculation.configRevisionId === 'rev-7' &&
+    line?.calculation.configRevisionNumber === 7 && typeof line?.calculation.snapshotHash === 'string');
+  check('subtotal and total', estimate.data?.subtotal === Math.round(engine.tier2Results.total * 100) / 100 &&
+    estimate.data?.total === estimate.data?.subtotal && estimate.data?.tax === null, estimate.data);
+
+  const missing = await jobService.calculateJobEstimate(COMPANY_ID, [
+    { service_config_id: CONFIG_ID, pricing_variables: { ...patioVariables, sqft: 0 } }
+  ]);
+  check('a line without a size is rejected', !missing.success && /Quantity \(sqft\) is required/.test(missing.error ?? ''), missing.error);
+
+  const noMaterial = await jobService.calculateJobEstimate(COMPANY_ID, [
+    { service_config_id: CONFIG_ID, pricing_variables: { ...patioVariables, materials: { ...patioVariables.materials, useMaterialsDatabase: true } } }
+  ]);
+  check('a missing required material fails the estimate', !noMaterial.success &&
+    /required category "Base Rock"/.test(noMaterial.error ?? ''), noMaterial.error);
+}
+
+async function testAddService() {
+  console.log('\n💾 STORED JOB LINE');
+
+  const { jobService } = await import('../services/JobService');
+  const estimate = await jobService.calculateJobEstimate(COMPANY_ID, [
+    { service_config_id: CONFIG_ID, pricing_variables: patioVariables }
+  ]);
+  const expected = estimate.data!.services[0].calculation.tier2Results!;
+
+  const added = await jobService.addServiceToJob(JOB_ID, {
+    service_config_id: CONFIG_ID,
+    service_name: 'Paver Patio',
+    quantity: 240,
+    unit_price: 1,
+    total_price: 1,
+    pricing_variables: patioVariables,
+    added_by_user_id: 'user-1'
+  } as any);
+  check('line added', added.success, added.error);
+
+  const stored = storedLines[0];
+  check('stored total is the engine total, not the caller\'s', stored?.total_price === expected.total, { stored: stored?.total_price, expected: expected.total });
+  check('stored unit price per sqft', stored?.unit_price === expected.pricePerSqft, stored?.unit_price);
+  check('calculation stored with the line', stored?.calculation_data?.tier2Results?.total === expected.total);
+  check('revision and hash columns', stored?.config_revision_id === 'rev-7' &&
+    stored?.pricing_snapshot_hash === stored?.calculation_data?.snapshotHash && !!stored?.priced_at, stored);
+  check('same inputs and prices hash the same', stored?.pricing_snapshot_hash === estimate.data!.services[0].calculation.snapshotHash);
+
+  const totals = calls.filter(call => call.table === 'jobs' && call.action === 'update').pop();
+  check('job total updated from stored lines', totals?.payload?.estimated_total === Math.round(expected.total * 100) / 100, totals?.payload);
+}
+
+runSuite('💼 JOB PRICING TESTS', [setUp, testEstimate, testAddService]);
@@ -0,0 +1,173 @@
+/**
+ * Material Catalog Test
+ *
+ * Verifies that service rows resolve through their catalog material,
+ * how existing per-service rows group into catalog materials, and that
+ * bulk adjustments change a shared material once.
+ */
+
+import {
+  CATALOG_SHARED_FIELDS,
+  catalogMatchKey,
+  planCatalogMigration,
+  resolveCatalogMaterial
+} from '../pricing-system/utils/material-catalog';
+import {
+  estimateQuoteImpact,
+  previewPriceAdjustment,
+  type AdjustableMaterial
+} from '../pricing-system/utils/bulk-price-adjustment';
+import type { CatalogMaterial, CategoryCalculationResult, MaterialCalculationResult, ServiceMaterial } from '../types/materials';
+import { check, runSuite } from './test-harness';
+
+const material = (overrides: Partial<ServiceMaterial>): ServiceMaterial => ({
+  id: 'm1',
+  company_id: 'c1',
+  service_config_id: 'patio',
+  material_name: 'Road Base',
+  material_category: 'base_rock',
+  material_description: null,
+  supplier_name: 'Midwest Stone',
+  supplier_sku: null,
+  image_url: null,
+  image_thumbnail_url: null,
+  unit_type: 'ton',
+  price_per_unit: 24,
+  units_per_package: null,
+  coverage_per_unit: null,
+  coverage_depth_inches: 6,
+  density_tons_per_cubic_yard: 1.4,
+  piece_spacing_basis: null,
+  length_inches: null,
+  width_inches: null,
+  thickness_inches: null,
+  weight_lbs: null,
+  waste_factor_percentage: 10,
+  compaction_factor_percentage: 20,
+  is_active: true,
+  is_default: true,
+  material_grade: null,
+  color: null,
+  finish: null,
+  catalog_material_id: null,
+  created_by: null,
+  updated_by: null,
+  created_at: '2026-01-01T00:00:00Z',
+  updated_at: '2026-01-01T00:00:00Z',
+  ...overrides
+});
+
+const catalogMaterial = (overrides: Partial<CatalogMaterial>): CatalogMaterial => ({
+  id: 'cat-rock',
+  company_id: 'c1',
+  catalog_category: 'base_rock',
+  material_name: 'Road Base',
+  material_description: 'Class II',
+  supplier_name: 'Midwest Stone',
+  supplier_sku: 'RB-1',
+  image_url: null,
+  image_thumbnail_url: null,
+  unit_type: 'ton',
+  price_per_unit: 26,
+  units_per_package: null,
+  density_tons_per_cubic_yard: 1.5,
+  length_inches: null,
+  width_inches: null,
+  thickness_inches: null,
+  weight_lbs: null,
+  material_grade: 'Standard',
+  color: null,
+  finish: null,
+  is_active: true,
+  created_by: null,
+  updated_by: null,
+  created_at: '2026-01-01T00:00:00Z',
+  updated_at: '2026-02-01T00:00:00Z',
+  ...overrides
+});
+
+function testResolve() {
+  console.log('\n🔗 RESOLVE THROUGH CATALOG');
+
+  const row = material({ catalog_material_id: 'cat-rock', price_per_unit: 24, coverage_depth_inches: 4 });
+  const resolved = resolveCatalogMaterial({ ...row, catalog: catalogMaterial({}) });
+
+  check('catalog price wins over a stale copy', resolved.price_per_unit === 26, resolved.price_per_unit);
+  check('shared properties from the catalog', resolved.supplier_sku === 'RB-1' &&
+    resolved.density_tons_per_cubic_yard === 1.5 && resolved.material_grade === 'Standard', resolved);
+  check('per-service values kept', resolved.id === 'm1' && resolved.service_config_id === 'patio' &&
+    resolved.coverage_depth_inches === 4 && resolved.compaction_factor_percentage === 20 && resolved.is_default, resolved);
+  check('catalog join removed', !('catalog' in resolved));
+
+  const inactive = resolveCatalogMaterial({ ...row, catalog: catalogMaterial({ is_active: false }) });
+  check('inactive in the catalog is inactive everywhere', inactive.is_active === false);
+
+  const serviceOnly = resolveCatalogMaterial({ ...row, catalog_material_id: null, catalog: null });
+  check('service-only row unchanged', serviceOnly.price_per_unit === 24 && !('catalog' in serviceOnly), serviceOnly);
+
+  check('per-service fields not shared', !CATALOG_SHARED_FIELDS.some(field =>
+    ['material_category', 'is_default', 'coverage_depth_inches', 'waste_factor_percentage', 'compaction_factor_percentage'].includes(field)
+  ));
+}
+
+function testMigrationPlan() {
+  console.log('\n📦 MIGRATION PLAN');
+
+  check('match key ignores case and spaces',
+    catalogMatchKey(material({ material_name: ' road base ', supplier_name: 'MIDWEST STONE' })) ===
+    catalogMatchKey(material({})));
+  check('different unit is a different product',
+    catalogMatchKey(material({ unit_type: 'cubic_yard' })) !== catalogMatchKey(material({})));
+
+  const rows = [
+    material({ id: 'patio-rock', service_config_id: 'patio', price_per_unit: 24, updated_at: '2026-01-01T00:00:00Z' }),
+    material({ id: 'walk-rock', service_config_id: 'walkway', material_name: 'Road base', price_per_unit: 27, updated_at: '2026-03-01T00:00:00Z' }),
+    material({ id: 'wall-rock', service_config_id: 'wall', price_per_unit: 29, is_active: false, updated_at: '2026-04-01T00:00:00Z' }),
+    material({ id: 'patio-sand', material_name: 'Bedding Sand', material_category: 'bedding_sand', price_per_unit: 32 }),
+    material({ id: 'linked', service_config_id: 'steps', catalog_material_id: 'cat-rock' })
+  ];
+
+  const plan = planCatalogMigration(rows);
+  check('one group per product', plan.length === 2, plan.map(group => group.key));
+
+  const rock = plan[0];
+  check('largest group first', rock.catalogCategory === 'base_rock' && rock.materials.length === 3, rock);
+  check('already linked rows left out', !rock.materials.some(row => row.id === 'linked'));
+  check('newest active row is the source', rock.source.id === 'walk-rock', rock.source.id);
+  check('services and price spread', rock.serviceCount === 3 && rock.minPrice === 24 && rock.maxPrice === 29, rock);
+  check('single-row group', plan[1].materialName === 'Bedding Sand' && plan[1].minPrice === plan[1].maxPrice);
+  check('nothing to migrate', planCatalogMigration([rows[4]]).length === 0);
+}
+
+function testBulkAdjustment() {
+  console.log('\n💲 SHARED MATERIALS IN BULK ADJUSTMENTS');
+
+  const materials: AdjustableMaterial[] = [
+    { id: 'patio-rock', material_name: 'Road Base', material_category: 'base_rock', service_config_id: 'patio', supplier_name: 'Midwest Stone', material_grade: null, price_per_unit: 24, catalog_material_id: 'cat-rock' },
+    { id: 'wall-rock', material_name: 'Road Base', material_category: 'base_rock', service_config_id: 'wall', supplier_name: 'Midwest Stone', material_grade: null, price_per_unit: 24, catalog_material_id: 'cat-rock' },
+    { id: 'wall-cap', material_name: 'Wall Cap', material_category: 'caps', service_config_id: 'wall', supplier_name: 'Belgard', material_grade: null, price_per_unit: 12 }
+  ];
+  const adjustment = { mode: 'percent' as const, amount: 10, scope: 'materials' as const, filters: {} };
+
+  const items = previewPriceAdjustment(adjustment, materials, []);
+  check('shared material changed once', items.length === 2 && items.filter(item => item.label === 'Road Base').length === 1, items);
+
+  const rock = items.find(item => item.label === 'Road Base');
+  check('other rows linked', rock?.id === 'patio-rock' && rock?.linkedMaterialIds?.join() === 'wall-rock', rock);
+  check('service-only material not linked', items.find(item => item.id === 'wall-cap')?.linkedMaterialIds === undefined);
+
+  const walls = previewPriceAdjustment({ ...adjustment, filters: { serviceConfigId: 'wall' } }, materials, []);
+  check('filtered service still reaches linked rows', walls.find(item => item.id === 'wall-rock')?.linkedMaterialIds?.join() === 'patio-rock', walls);
+
+  const breakdown = (materialId: string, purchaseUnits: number) => ({
+    categories: [{ materialId, quantities: { purchaseUnits } } as CategoryCalculationResult]
+  } as MaterialCalculationResult);
+  const impact = estimateQuoteImpact([
+    { jobId: 'job-1', jobNumber: 'J-1', serviceConfigId: 'wall', total: 5000, totalManHours: 0, materialBreakdown: breakdown('wall-rock', 10) }
+  ], items, new Map([['wall', 0.25]]));
+
+  // 10 tons × $2.40 × 1.25
+  check('quote using a linked row is estimated', impact[0]?.change === 30, impact);
+}
+
+runSuite('📚 MATERIAL CATALOG TESTS', [testResolve, testMigrationPlan, testBulkAdjustment]);
@@ -0,0 +1,97 @@
+/**
+ * Material Methods Test
+ *
+ * Verifies the weight_tonnage (volume × density, sold by the ton) and
+ * piece_count (per unit or per linear foot spacing) calculation methods,
+ * including metric displays and density conversion.
+ */
+
+import {
+  DEFAULT_DENSITY_TONS_PER_CUBIC_YARD,
+  calculatePieceCountMaterial,
+  calculateVolumeMaterial,
+  calculateWeightMaterial
+} from '../services/materialCalculations';
+import { formatDensity, toCanonicalDensity, toDisplayDensity } from '../pricing-system/utils/unit-system';
+import type { MaterialCategory, ServiceMaterial } from '../types/materials';
+import { check, runSuite } from './test-harness';
+
+const close = (a: number, b: number, tolerance = 0.001) => Math.abs(a - b) <= tolerance;
+
+const material = (overrides: Partial<ServiceMaterial>): ServiceMaterial => ({
+  material_name: 'Test material',
+  price_per_unit: 24,
+  units_per_package: null,
+  coverage_per_unit: null,
+  coverage_depth_inches: 6,
+  density_tons_per_cubic_yard: 1.4,
+  piece_spacing_basis: null,
+  waste_factor_percentage: 10,
+  compaction_factor_percentage: 20,
+  ...overrides
+} as ServiceMaterial);
+
+const baseRock = { category_key: 'base_rock', default_depth_inches: 6 } as MaterialCategory;
+
+function testWeight() {
+  console.log('\n⚖️ WEIGHT TONNAGE');
+
+  const rock = material({ unit_type: 'ton' });
+  const tons = calculateWeightMaterial(360, rock, baseRock);
+  const yards = calculateVolumeMaterial(360, material({ unit_type: 'cubic_yard' }), baseRock);
+
+  check('tons from cubic yards × density', close(tons.purchaseUnits, yards.purchaseUnits * 1.4), tons.purchaseUnits);
+  check('rounded up to 0.1 tons', tons.purchaseUnitsRounded === 12.4, tons.purchaseUnitsRounded);
+  check('priced per ton', close(tons.totalCost, 297.6), tons.totalCost);
+  check('raw tons before compaction and waste', close(tons.quantityNeeded, (360 * 6 / 12 / 27) * 1.4));
+  check('factors reported', tons.wasteFactorPercent === 10 && tons.compactionFactorPercent === 20);
+  check('display', tons.quantityDisplay === '12.4 tons (8.8 cubic yards at 1.40 tons/cy)', tons.quantityDisplay);
+
+  const unset = calculateWeightMaterial(360, material({ unit_type: 'ton', density_tons_per_cubic_yard: null }), baseRock);
+  check('default density', DEFAULT_DENSITY_TONS_PER_CUBIC_YARD === 1.4 && unset.purchaseUnitsRounded === 12.4);
+
+  const heavy = calculateWeightMaterial(360, material({ unit_type: 'ton', density_tons_per_cubic_yard: 1.6 }), baseRock);
+  check('denser stone, more tons', heavy.purchaseUnitsRounded === 14.1, heavy.purchaseUnitsRounded);
+
+  const metric = calculateWeightMaterial(360, rock, baseRock, 'metric');
+  check('same tons in metric', metric.purchaseUnitsRounded === tons.purchaseUnitsRounded && metric.totalCost === tons.totalCost);
+  check('metric display', metric.quantityDisplay === '11.25 tonnes (6.73 m³ at 1.66 t/m³)', metric.quantityDisplay);
+}
+
+function testDensity() {
+  console.log('\n🔁 DENSITY UNITS');
+
+  check('tons/cy → t/m³', close(toDisplayDensity(1.4, 'metric'), 1.6612), toDisplayDensity(1.4, 'metric'));
+  check('round trip', close(toCanonicalDensity(toDisplayDensity(1.35, 'metric'), 'metric'), 1.35, 1e-9));
+  check('imperial unchanged', toDisplayDensity(1.4, 'imperial') === 1.4 && formatDensity(1.4, 'imperial') === '1.40 tons/cy');
+}
+
+function testPieces() {
+  console.log('\n🔩 PIECE COUNT');
+
+  const drain = material({ unit_type: 'piece', price_per_unit: 45, coverage_per_unit: 100, waste_factor_percentage: 0 });
+  const drains = calculatePieceCountMaterial(360, drain, 78.7);
+  check('one per 100 sqft, rounded up', drains.purchaseUnitsRounded === 4 && drains.quantityNeeded === 3.6, drains);
+  check('priced per piece', drains.totalCost === 180);
+  check('per unit display', drains.quantityDisplay === '4 pieces (1 per 100 sq ft)', drains.quantityDisplay);
+
+  const exact = calculatePieceCountMaterial(300, drain, 70);
+  check('exact counts are not bumped', exact.purchaseUnitsRounded === 3, exact.purchaseUnitsRounded);
+
+  const cap = material({
+    unit_type: 'piece', price_per_unit: 12, coverage_per_unit: 1,
+    piece_spacing_basis: 'per_linear_foot', waste_factor_percentage: 5
+  });
+  const caps = calculatePieceCountMaterial(360, cap, 78.7);
+  check('per linear foot of edge with waste', caps.purchaseUnitsRounded === 83, caps.purchaseUnits);
+  check('edge display', caps.quantityDisplay === '83 pieces (1 every 1.0 ft over 78.7 ft)', caps.quantityDisplay);
+
+  const step = material({ unit_type: 'piece', price_per_unit: 85, coverage_per_unit: null, waste_factor_percentage: 0 });
+  check('no spacing is one per unit', calculatePieceCountMaterial(6, step, 0).purchaseUnitsRounded === 6);
+
+  const metric = calculatePieceCountMaterial(360, cap, 78.7, 'metric');
+  check('same pieces in metric', metric.purchaseUnitsRounded === 83);
+  check('metric spacing display', metric.quantityDisplay === '83 pieces (1 every 0.30 m over 23.99 m)', metric.quantityDisplay);
+}
+
+runSuite('🧮 MATERIAL METHODS TESTS', [testWeight, testDensity, testPieces]);
@@ -0,0 +1,86 @@
+/**
+ * Material Substitution Test
+ *
+ * Verifies picking an active replacement for an inactive material by each
+ * category rule (same grade, closest price, compatible thickness, none)
+ * and the "substituted X for Y" note.
+ */
+
+import {
+  describeSubstitution,
+  findSubstitute,
+  THICKNESS_TOLERANCE_INCHES
+} from '../pricing-system/utils/material-substitution';
+import type { ServiceMaterial } from '../types/materials';
+import { check, runSuite } from './test-harness';
+
+const material = (overrides: Partial<ServiceMaterial>): ServiceMaterial => ({
+  id: 'material',
+  material_name: 'Test material',
+  material_category: 'pavers',
+  price_per_unit: 500,
+  material_grade: 'Standard',
+  thickness_inches: 2.375,
+  is_active: true,
+  is_default: false,
+  ...overrides
+} as ServiceMaterial);
+
+const discontinued = material({
+  id: 'holland',
+  material_name: 'Holland 4x8',
+  is_active: false,
+  is_default: true
+});
+
+const candidates = [
+  discontinued,
+  material({ id: 'cobble', material_name: 'Cobble Premium', price_per_unit: 505, material_grade: 'Premium', thickness_inches: 3.125 }),
+  material({ id: 'lafitt', material_name: 'Lafitt', price_per_unit: 540, material_grade: ' standard ', thickness_inches: 2.375 }),
+  material({ id: 'mega', material_name: 'Mega Arbel', price_per_unit: 470, material_grade: 'Standard', thickness_inches: 2.5 }),
+  material({ id: 'retired', material_name: 'Old Town', price_per_unit: 500, is_active: false }),
+  material({ id: 'sand', material_name: 'Polymeric Sand', material_category: 'sand', price_per_unit: 500 })
+];
+
+function testRules() {
+  console.log('\n🔁 RULES');
+
+  check('closest price', findSubstitute(discontinued, candidates, 'closest_price')?.id === 'cobble');
+  check('same grade, then closest price', findSubstitute(discontinued, candidates, 'same_grade')?.id === 'mega');
+  check('compatible thickness, then closest thickness',
+    findSubstitute(discontinued, candidates, 'compatible_thickness')?.id === 'lafitt');
+  check('none never substitutes', findSubstitute(discontinued, candidates, 'none') === null);
+  check('closest price is the default rule', findSubstitute(discontinued, candidates)?.id === 'cobble');
+}
+
+function testEligibility() {
+  console.log('\n🚫 ELIGIBILITY');
+
+  const onlyIneligible = [discontinued, candidates[4], candidates[5]];
+  check('inactive and other categories never substitute', findSubstitute(discontinued, onlyIneligible, 'closest_price') === null);
+
+  check('no material of the grade', findSubstitute(material({ id: 'x', material_grade: 'Luxury', is_active: false }), candidates, 'same_grade') === null);
+
+  const thick = material({ id: 'x', thickness_inches: 2.375 + THICKNESS_TOLERANCE_INCHES + 1.5, is_active: false });
+  check('nothing within the thickness tolerance', findSubstitute(thick, candidates, 'compatible_thickness') === null);
+
+  const noThickness = material({ id: 'x', thickness_inches: null, price_per_unit: 475, is_active: false });
+  check('no thickness falls back to closest price', findSubstitute(noThickness, candidates, 'compatible_thickness')?.id === 'mega');
+
+  const tie = [
+    material({ id: 'cheap', material_name: 'Cheaper', price_per_unit: 490 }),
+    material({ id: 'dear', material_name: 'Dearer', price_per_unit: 510 })
+  ];
+  check('price tie goes to the dearer material', findSubstitute(discontinued, tie, 'closest_price')?.id === 'dear');
+}
+
+function testNote() {
+  console.log('\n📝 NOTE');
+
+  const substitution = describeSubstitution(discontinued, candidates[2], 'compatible_thickness');
+  check('note names both materials and the rule',
+    substitution.note === 'Substituted Lafitt for Holland 4x8 (compatible thickness)', substitution.note);
+  check('original recorded', substitution.originalMaterialId === 'holland' && substitution.rule === 'compatible_thickness');
+}
+
+runSuite('🧱 MATERIAL SUBSTITUTION TESTS', [testRules, testEligibility, testNote]);
@@ -0,0 +1,150 @@
+/**
+ * Patio Shape Test
+ *
+ * Verifies exact area and perimeter for rectangles with radius corners,
+ * circles, arcs, side-length polygons and composite shapes, shape
+ * validation, the perimeter used by edging and bundles, and the
+ * DimensionCalculator shape parsing.
+ */
+
+import {
+  measurePatioShape,
+  rectangleShape,
+  resolvePerimeter,
+  validatePatioShape,
+  type PatioShape
+} from '../pricing-system/utils/patio-shape';
+import { bundleQuantity, type ServiceIntegrationDeclaration } from '../pricing-system/core/calculations/service-bundles';
+import { DimensionCalculator } from '../utils/dimension-calculator';
+import { check, runSuite } from './test-harness';
+
+const close = (a: number, b: number, tolerance = 0.01) => Math.abs(a - b) <= tolerance;
+
+const lShape: PatioShape = {
+  parts: [
+    { type: 'rectangle', length: 20, width: 12 },
+    { type: 'rectangle', length: 10, width: 8, sharedEdge: 10 }
+  ]
+};
+
+function testParts() {
+  console.log('\n📐 PARTS');
+
+  const rect = measurePatioShape(rectangleShape(20, 12));
+  check('rectangle', rect.area === 240 && rect.perimeter === 64, rect);
+
+  const rounded = measurePatioShape({ parts: [{ type: 'rectangle', length: 20, width: 12, cornerRadius: 2 }] });
+  check('radius corners', close(rounded.area, 240 - 4 * (4 - Math.PI)) && close(rounded.perimeter, 48 + 4 * Math.PI), rounded);
+
+  const twoRounded = measurePatioShape({ parts: [{ type: 'rectangle', length: 20, width: 12, cornerRadius: 2, roundedCorners: 2 }] });
+  check('only some corners rounded', close(twoRounded.area, 240 - 2 * (4 - Math.PI)), twoRounded);
+
+  const circle = measurePatioShape({ parts: [{ type: 'circle', diameter: 14 }] });
+  check('circle', close(circle.area, 153.94) && close(circle.perimeter, 43.98), circle);
+
+  const quarter = measurePatioShape({ parts: [{ type: 'arc', radius: 10, angle: 90 }] });
+  check('quarter circle includes both radii', close(quarter.area, 78.54) && close(quarter.perimeter, 5 * Math.PI + 20), quarter);
+
+  const triangle = measurePatioShape({ parts: [{ type: 'polygon', sides: [3, 4, 5] }] });
+  check('triangle from three sides', triangle.area === 6 && triangle.perimeter === 12, triangle);
+
+  const lPolygon = measurePatioShape({
+    parts: [{ type: 'polygon', sides: [20, 20, 10, { length: 8, angle: 270 }, 10, 12] }]
+  });
+  check('polygon with an inside corner', lPolygon.area === 320 && lPolygon.perimeter === 80, lPolygon);
+}
+
+function testComposite() {
+  console.log('\n🧩 COMPOSITE');
+
+  const l = measurePatioShape(lShape);
+  check('L-shape area', l.area === 320, l);
+  check('L-shape perimeter drops the shared edge twice', l.perimeter === 80, l);
+  const drawn = measurePatioShape({ parts: [{ type: 'polygon', sides: [20, 20, 10, { length: 8, angle: 270 }, 10, 12] }] });
+  check('matches the same L drawn as a polygon', l.area === drawn.area && l.perimeter === drawn.perimeter, { l, drawn });
+
+  const withBay = measurePatioShape({
+    parts: [
+      { type: 'rectangle', length: 20, width: 12 },
+      { type: 'arc', radius: 6, angle: 180, sharedEdge: 12 }
+    ]
+  });
+  check('half circle on its diameter', close(withBay.area, 240 + 18 * Math.PI) && close(withBay.perimeter, 52 + 6 * Math.PI), withBay);
+
+  const planter = measurePatioShape({
+    parts: [
+      { type: 'rectangle', length: 20, width: 12 },
+      { type: 'circle', diameter: 4, subtract: true }
+    ]
+  });
+  check('interior cut-out removes area, adds edge', close(planter.area, 240 - 4 * Math.PI) && close(planter.perimeter, 64 + 4 * Math.PI), planter);
+
+  const notch = measurePatioShape({
+    parts: [
+      { type: 'rectangle', length: 20, width: 12 },
+      { type: 'rectangle', length: 4, width: 4, subtract: true, sharedEdge: 4 }
+    ]
+  });
+  check('edge notch', notch.area === 224 && notch.perimeter === 72, notch);
+  check('parts listed with labels', notch.parts[1].label.startsWith('Cut-out') && notch.parts[1].area === -16, notch.parts);
+}
+
+function testValidation() {
+  console.log('\n🛡️ VALIDATION');
+
+  check('valid L-shape', validatePatioShape(lShape) === null);
+  check('empty shape', validatePatioShape({ parts: [] }) !== null);
+  check('cut-out first', validatePatioShape({ parts: [{ type: 'circle', diameter: 4, subtract: true }] }) !== null);
+  check('corner radius too large',
+    validatePatioShape({ parts: [{ type: 'rectangle', length: 20, width: 12, cornerRadius: 7 }] }) !== null);
+  check('polygon that does not close',
+    (validatePatioShape({ parts: [{ type: 'polygon', sides: [20, 12, 18, 12] }] }) ?? '').includes('do not close'));
+  check('impossible triangle', validatePatioShape({ parts: [{ type: 'polygon', sides: [1, 2, 10] }] }) !== null);
+  check('shared edge longer than the part',
+    validatePatioShape({ parts: [rectangleShape(20, 12).parts[0], { type: 'rectangle', length: 4, width: 4, sharedEdge: 9 }] }) !== null);
+  check('cut-out larger than the shape',
+    validatePatioShape({ parts: [rectangleShape(4, 4).parts[0], { type: 'circle', diameter: 10, subtract: true }] }) !== null);
+}
+
+function testPerimeterUse() {
+  console.log('\n📏 EDGING & BUNDLES');
+
+  check('custom perimeter wins', resolvePerimeter(320, { customPerimeter: 100, shape: lShape }) === 100);
+  check('shape perimeter over the estimate', resolvePerimeter(320, { shape: lShape }) === 80);
+  check('estimate without a shape', close(resolvePerimeter(400, {}), 83));
+  check('invalid shape falls back to the estimate', close(resolvePerimeter(400, { shape: { parts: [] } }), 83));
+
+  const border: ServiceIntegrationDeclaration = {
+    key: 'includeBorder',
+    label: 'Border',
+    linkedService: 'paver_patio_sqft',
+    quantity: { source: 'perimeter', factor: 1 },
+    profitTreatment: 'parent',
+    mobilization: 0,
+    values: {}
+  };
+  check('perimeter bundles follow the shape', bundleQuantity(border, 320, { shape: lShape }) === 80);
+}
+
+function testParsing() {
+  console.log('\n💬 DIMENSION PARSING');
+
+  const l = DimensionCalculator.parse('L-shaped patio 20x12 and 10x8', 'Paver Patio (SQFT)');
+  check('L-shape from chat', l?.quantity === 320 && l.perimeter === 80 && l.shape?.parts.length === 2, l);
+
+  const circle = DimensionCalculator.parse('14 ft circle patio', 'Paver Patio (SQFT)');
+  check('circle from chat', close(circle?.quantity ?? 0, 153.94) && circle?.shape?.parts[0].type === 'circle', circle);
+
+  const radius = DimensionCalculator.parse('7 ft radius circle', 'Paver Patio (SQFT)');
+  check('radius circle', close(radius?.quantity ?? 0, 153.94), radius);
+
+  const corners = DimensionCalculator.parse('20x12 with 2 ft radius corners', 'Paver Patio (SQFT)');
+  check('radius corners from chat', corners?.shape?.parts[0].type === 'rectangle' && close(corners.perimeter ?? 0, 60.57), corners);
+
+  const plain = DimensionCalculator.parse('15 by 10 patio', 'Paver Patio (SQFT)');
+  check('plain rectangle keeps its exact edge', plain?.quantity === 150 && plain.perimeter === 50 && plain.calculationType === 'area', plain);
+
+  check('not a shape without measurements', DimensionCalculator.parseShape('round patio', 'Paver Patio (SQFT)') === null);
+}
+
+runSuite('🔷 PATIO SHAPE TESTS', [testParts, testComposite, testValidation, testPerimeterUse, testParsing]);
@@ -0,0 +1,133 @@
+/**
+ * Paver Layout Test
+ *
+ * Verifies piece counts, border cuts and pattern waste for each laying
+ * pattern, pallet and per-piece purchasing for paver_layout materials, and
+ * the engine's Tier 1 cut labor replacing cuttingComplexity.
+ */
+
+import paverPatioConfig from '../pricing-system/config/paver-patio-formula.json';
+import { masterPricingEngine } from '../pricing-system/core/calculations/master-pricing-engine';
+import type { PricingTraceStep } from '../pricing-system/core/calculations/pricing-trace';
+import {
+  calculatePaverLayout,
+  describePaverLayout,
+  hasLayoutDimensions,
+  resolveLayingPattern
+} from '../pricing-system/utils/paver-layout';
+import { calculatePaverLayoutMaterial } from '../services/materialCalculations';
+import type { ServiceMaterial } from '../types/materials';
+import { check, runSuite } from './test-harness';
+
+const paver = (overrides: Partial<ServiceMaterial>): ServiceMaterial => ({
+  material_name: 'Holland 4x8',
+  unit_type: 'pallet',
+  price_per_unit: 520,
+  units_per_package: 540,
+  coverage_per_unit: null,
+  length_inches: 8,
+  width_inches: 4,
+  waste_factor_percentage: 10,
+  compaction_factor_percentage: 0,
+  ...overrides
+} as ServiceMaterial);
+
+// 12 × 20 ft patio: 240 sqft, 64 lf edge
+const patio = { area: 240, perimeter: 64, lengthInches: 8, widthInches: 4 };
+
+function testLayout() {
+  console.log('\n🧱 LAYOUT');
+
+  const running = calculatePaverLayout({ ...patio, pattern: 'running_bond' });
+  check('pieces to cover', running.piecesToCover === 1080 && running.pieceSqft === 0.2222, running);
+  check('one cut per 6" of edge', running.cutPieces === 128, running.cutPieces);
+  check('cuts keep half a piece', running.fullPieces === 1016);
+  check('running bond reuses a quarter of offcuts', running.borderPavers === 96);
+  check('2% breakage on top', running.totalPieces === 1135, running.totalPieces);
+  check('waste follows from the layout', running.wastePercentage === 5.1, running.wastePercentage);
+  check('a minute per cut', running.cutLaborHours === 2.13, running.cutLaborHours);
+
+  const herringbone = calculatePaverLayout({ ...patio, pattern: 'herringbone_45' });
+  check('45° herringbone cuts every piece on the edge', herringbone.cutPieces === 272, herringbone.cutPieces);
+  check('45° herringbone waste', herringbone.totalPieces === 1241 && herringbone.wastePercentage === 14.9, herringbone);
+  check('45° cuts take longer', herringbone.cutLaborHours === 6.8, herringbone.cutLaborHours);
+
+  const ninety = calculatePaverLayout({ ...patio, pattern: 'herringbone_90' });
+  const basketweave = calculatePaverLayout({ ...patio, pattern: 'basketweave' });
+  check('waste ranks by pattern',
+    running.wastePercentage < basketweave.wastePercentage &&
+    basketweave.wastePercentage < ninety.wastePercentage &&
+    ninety.wastePercentage < herringbone.wastePercentage,
+    [running, basketweave, ninety, herringbone].map(l => l.wastePercentage));
+
+  const rotated = calculatePaverLayout({ ...patio, lengthInches: 4, widthInches: 8, pattern: 'herringbone_90' });
+  check('paver orientation does not matter', rotated.totalPieces === ninety.totalPieces);
+
+  const pallets = calculatePaverLayout({ ...patio, piecesPerPallet: 540 });
+  check('pallets unrounded', Math.abs((pallets.pallets ?? 0) - 1135 / 540) < 1e-9, pallets.pallets);
+  check('no pallet size, no pallets', running.pallets === null);
+
+  const tiny = calculatePaverLayout({ area: 1, perimeter: 4, lengthInches: 8, widthInches: 4 });
+  check('never more cuts than pieces', tiny.cutPieces === 5 && tiny.fullPieces === 2, tiny);
+
+  const empty = calculatePaverLayout({ area: 0, perimeter: 64, lengthInches: 8, widthInches: 4 });
+  check('no area, no pieces', empty.totalPieces === 0 && empty.cutPieces === 0 && empty.wastePercentage === 0, empty);
+
+  check('unknown pattern is running bond', resolveLayingPattern('pinwheel') === 'running_bond' && resolveLayingPattern(undefined) === 'running_bond');
+  check('dimensions required', !hasLayoutDimensions(8, null) && !hasLayoutDimensions(0, 4) && hasLayoutDimensions(8, 4));
+  check('description',
+    describePaverLayout(running) === '1,135 pieces: 1,016 full + 128 border cuts (Running Bond, 5.1% waste)',
+    describePaverLayout(running));
+}
+
+function testMaterials() {
+  console.log('\n📦 MATERIAL QUANTITIES');
+
+  const pallets = calculatePaverLayoutMaterial(240, paver({}), 64, 'running_bond');
+  check('pallets from pieces per pallet', pallets.purchaseUnitsRounded === 2.2, pallets.purchaseUnitsRounded);
+  check('cost per pallet', Math.abs(pallets.totalCost - 1144) < 1e-9, pallets.totalCost);
+  check('pattern waste replaces the flat waste factor', pallets.wasteFactorPercent === 5.1);
+  check('layout on the result', pallets.layout?.totalPieces === 1135);
+  check('pallet display',
+    pallets.quantityDisplay === '2.2 pallets - 1,135 pieces: 1,016 full + 128 border cuts (Running Bond, 5.1% waste)',
+    pallets.quantityDisplay);
+
+  const coverage = calculatePaverLayoutMaterial(240, paver({ units_per_package: null, coverage_per_unit: 120 }), 64, 'running_bond');
+  check('pallets from coverage when pieces per pallet is missing', coverage.purchaseUnitsRounded === 2.2, coverage.purchaseUnits);
+
+  const pieces = calculatePaverLayoutMaterial(240, paver({ unit_type: 'piece', price_per_unit: 0.95 }), 64, 'herringbone_45');
+  check('sold by the piece', pieces.purchaseUnitsRounded === 1241 && Math.abs(pieces.totalCost - 1178.95) < 1e-9, pieces);
+
+  const sqft = calculatePaverLayoutMaterial(240, paver({ unit_type: 'square_foot', price_per_unit: 4.5, units_per_package: null }), 64, 'running_bond');
+  check('sold by the sqft', sqft.purchaseUnitsRounded === 252.3, sqft.purchaseUnitsRounded);
+
+  const metric = calculatePaverLayoutMaterial(240, paver({ unit_type: 'square_foot', units_per_package: null }), 64, 'running_bond', 'metric');
+  check('sqft shown in m² for metric companies', metric.quantityDisplay.startsWith('23.4 m² - 1,135 pieces'), metric.quantityDisplay);
+
+  const noSize = calculatePaverLayoutMaterial(240, paver({ length_inches: null, coverage_per_unit: 120 }), 64, 'running_bond');
+  check('no dimensions falls back to area coverage', noSize.layout === undefined && noSize.wasteFactorPercent === 10, noSize);
+}
+
+function testEngine() {
+  console.log('\n⚙️ ENGINE TIER 1');
+
+  const engine = masterPricingEngine as any;
+  const config = { ...paverPatioConfig, variables_config: paverPatioConfig.variables };
+  const values = { materials: { cuttingComplexity: 'complex' } };
+  const layout = calculatePaverLayout({ ...patio, pattern: 'herringbone_45' });
+
+  const guessed = engine.calculateTier1(config, values, 240, 'paver_patio_sqft');
+  const trace: PricingTraceStep[] = [];
+  const measured = engine.calculateTier1(config, values, 240, 'paver_patio_sqft', trace, undefined, layout);
+
+  check('cutting complexity adds 30% without a layout', Math.abs(guessed.adjustedHours - guessed.baseHours * 1.3) < 0.1, guessed);
+  check('layout cut hours replace cutting complexity',
+    Math.abs(measured.adjustedHours - (measured.baseHours + layout.cutLaborHours)) < 0.1, measured);
+  check('cutting complexity not in the trace', !trace.some(step => step.effectType === 'cutting_complexity'));
+
+  const cuts = trace.find(step => step.label.startsWith('Paver cuts'));
+  check('cut labor step', cuts?.label === 'Paver cuts (272 border cuts, Herringbone 45°)' && cuts.amount === 6.8, cuts);
+  check('cut labor in the breakdown', measured.breakdown.some((line: string) => line.startsWith('+Paver cuts')), measured.breakdown);
+}
+
+runSuite('🧱 PAVER LAYOUT TESTS', [testLayout, testMaterials, testEngine]);
@@ -0,0 +1,147 @@
+/**
+ * Price List Import Test
+ *
+ * Verifies supplier CSV parsing (quotes, header aliases, "$1,234.50"
+ * prices), matching to materials by supplier + SKU or name, the import
+ * preview counts, price trends and finding quotes priced at old prices.
+ */
+
+import {
+  findOutdatedMaterialPrices,
+  matchPriceList,
+  parseCsv,
+  parsePrice,
+  parsePriceList,
+  previewPriceList,
+  summarizePriceTrend,
+  type PriceListMaterial
+} from '../pricing-system/utils/price-list-import';
+import type { MaterialCalculationResult } from '../types/materials';
+import { check, runSuite } from './test-harness';
+
+const materials: PriceListMaterial[] = [
+  { id: 'rock-patio', material_name: 'Bulk Limestone Class II Road Base', supplier_name: 'Midwest Stone', supplier_sku: 'LS-CL2', price_per_unit: 24 },
+  { id: 'rock-wall', material_name: 'Bulk Limestone Class II Road Base', supplier_name: 'Midwest Stone', supplier_sku: 'LS-CL2', price_per_unit: 24 },
+  { id: 'sand', material_name: 'Concrete Sand', supplier_name: 'Midwest Stone', supplier_sku: null, price_per_unit: 38 },
+  { id: 'holland', material_name: 'Holland 4x8', supplier_name: 'Belgard', supplier_sku: 'HOL-48', price_per_unit: 520 },
+  { id: 'other-sand', material_name: 'Concrete Sand', supplier_name: 'River Aggregates', supplier_sku: null, price_per_unit: 35 }
+];
+
+function testCsv() {
+  console.log('\n📄 CSV');
+
+  const rows = parseCsv('a,b,c\r\n"x, y","say ""hi""",3\n\n"multi\nline",,\n');
+  check('records, blank lines dropped', rows.length === 3, rows);
+  check('quoted comma', rows[1].cells[0] === 'x, y');
+  check('escaped quote', rows[1].cells[1] === 'say "hi"');
+  check('newline in quotes', rows[2].cells[0] === 'multi\nline' && rows[2].cells.length === 3, rows[2]);
+  check('record start lines', rows.map(row => row.line).join() === '1,2,4', rows);
+  check('no trailing newline', parseCsv('a,b\n1,2').length === 2);
+  check('byte-order mark stripped', parseCsv('\uFEFFsku,price\nA,1')[0].cells[0] === 'sku');
+
+  check('currency price', parsePrice('$1,234.50') === 1234.5);
+  check('plain price', parsePrice(' 26.5 ') === 26.5 && parsePrice('.75') === 0.75);
+  check('not a price', parsePrice('call') === null && parsePrice('') === null && parsePrice('-4') === null);
+}
+
+function testParse() {
+  console.log('\n🧾 PRICE LIST');
+
+  const list = parsePriceList('Vendor Name,Item #,Description,Unit Price,UOM\nMidwest Stone,LS-CL2,Road base,"$26.50",TON\n,,Sand,call,\n');
+  check('header aliases', list.errors.length === 0 && list.rows.length === 2, list);
+  check('row fields', list.rows[0].supplierName === 'Midwest Stone' && list.rows[0].sku === 'LS-CL2' && list.rows[0].price === 26.5, list.rows[0]);
+  check('file line numbers', list.rows[0].line === 2 && list.rows[1].line === 3);
+
+  const gaps = parsePriceList('sku,name,price\r\n\r\nA,"Paver\r\nCharcoal",5\r\nB,Sand,6\n\nC,Rock,7');
+  check('line numbers skip blank lines and multi-line cells',
+    gaps.rows.map(row => row.line).join() === '3,5,7' && gaps.rows[0].name === 'Paver\r\nCharcoal', gaps.rows);
+  check('blank cells are null', list.rows[1].supplierName === null && list.rows[1].price === null);
+
+  const sku = parsePriceList('Part Number,Net Price\nLS-CL2,26.5');
+  check('sku-only sheet', sku.rows[0].sku === 'LS-CL2' && sku.rows[0].name === null && sku.rows[0].price === 26.5, sku);
+
+  check('needs a price column', parsePriceList('sku,name\nA,B').errors.length === 1);
+  check('needs a sku or name column', parsePriceList('supplier,price\nA,1').errors.length === 1);
+  check('empty file', parsePriceList('').errors[0] === 'The file is empty');
+}
+
+function testMatching() {
+  console.log('\n🔗 MATCHING');
+
+  const rows = parsePriceList([
+    'supplier,sku,name,price',
+    'midwest stone,ls-cl2,Road Base,26.50',
+    'Midwest Stone,CS-01,concrete  sand,38',
+    'Belgard,HOL-48,Holland 4x8,546',
+    'Belgard,XX-1,Colonial Clay,410',
+    'Midwest Stone,,Concrete Sand,40',
+    ',HOL-48,Holland 4x8,500'
+  ].join('\n')).rows;
+  const changes = matchPriceList(rows, materials);
+
+  const rock = changes.filter(change => change.line === 2);
+  check('sku match, case-insensitive', rock.length === 2 && rock.every(change => change.matchedBy === 'sku'), rock);
+  check('one line prices every copy of the material', rock.map(change => change.materialId).join() === 'rock-patio,rock-wall');
+  check('price change', rock[0].status === 'update' && rock[0].oldPrice === 24 && rock[0].newPrice === 26.5 && rock[0].changePercent === 10.4, rock[0]);
+
+  const sand = changes.find(change => change.line === 3)!;
+  check('name match within the supplier', sand.materialId === 'sand' && sand.matchedBy === 'name', sand);
+  check('same price is unchanged', sand.status === 'unchanged');
+  check('name match saves the sku', sand.assignSku);
+  check('other supplier not touched', !changes.some(change => change.materialId === 'other-sand'));
+
+  const holland = changes.find(change => change.line === 4)!;
+  check('sku already set, not reassigned', holland.status === 'update' && !holland.assignSku && holland.changePercent === 5, holland);
+
+  check('unknown item unmatched', changes.find(change => change.line === 5)?.status === 'unmatched');
+
+  const duplicate = changes.find(change => change.line === 6)!;
+  check('second line for a material is invalid', duplicate.status === 'invalid' && duplicate.message === 'Material already priced on line 3', duplicate);
+
+  const noSupplier = changes.find(change => change.line === 7)!;
+  check('no supplier is invalid', noSupplier.status === 'invalid' && noSupplier.message === 'No supplier');
+
+  const defaulted = matchPriceList(parsePriceList('sku,price\nHOL-48,546').rows, materials, ' Belgard ');
+  check('default supplier for sheets without one', defaulted[0].materialId === 'holland' && defaulted[0].supplierName === 'Belgard', defaulted);
+}
+
+function testPreview() {
+  console.log('\n👀 PREVIEW');
+
+  const preview = previewPriceList('supplier,sku,price\nMidwest Stone,LS-CL2,26.5\nBelgard,HOL-48,520\nBelgard,NOPE,1\nBelgard,HOL-48,abc', materials);
+  check('counts', preview.updates === 2 && preview.unchanged === 1 && preview.unmatched === 1 && preview.invalid === 1, preview);
+  check('file errors passed through', previewPriceList('foo\n1', materials).errors.length === 2);
+}
+
+function testHistory() {
+  console.log('\n📈 PRICE HISTORY');
+
+  const trend = summarizePriceTrend([
+    { price_per_unit: 26.5, created_at: '2026-03-01T00:00:00Z' },
+    { price_per_unit: 22, created_at: '2025-03-01T00:00:00Z' },
+    { price_per_unit: 24, created_at: '2025-09-01T00:00:00Z' }
+  ]);
+  check('first and latest by date', trend?.firstPrice === 22 && trend.latestPrice === 26.5 && trend.since === '2025-03-01T00:00:00Z', trend);
+  check('trend percent', trend?.changePercent === 20.5 && trend.points === 3, trend);
+  check('no history', summarizePriceTrend([]) === null);
+
+  const breakdown = {
+    categories: [
+      { categoryKey: 'base_rock', materialId: 'rock-patio', materialName: 'Road Base', quantities: { unitCost: 24 } },
+      { categoryKey: 'bedding_sand', materialId: 'sand', materialName: 'Concrete Sand', quantities: { unitCost: 38 } },
+      { categoryKey: 'edging', materialId: 'retired', materialName: 'Old edging', quantities: { unitCost: 3 } }
+    ]
+  } as unknown as MaterialCalculationResult;
+
+  const outdated = findOutdatedMaterialPrices(
+    [
+      { jobServiceId: 'js-1', jobId: 'job-1', jobNumber: 'Q-1001', pricedAt: '2026-02-01T00:00:00Z', materialBreakdown: breakdown },
+      { jobServiceId: 'js-2', jobId: 'job-2', jobNumber: 'Q-1002', pricedAt: null }
+    ],
+    new Map([['rock-patio', 26.5], ['sand', 38]])
+  );
+  check('only changed prices', outdated.length === 1 && outdated[0].materialId === 'rock-patio', outdated);
+  check('quoted vs current', outdated[0]?.quotedPrice === 24 && outdated[0].currentPrice === 26.5 && outdated[0].jobNumber === 'Q-1001', outdated[0]);
+}
+
+runSuite('💲 PRICE LIST IMPORT TESTS', [testCsv, testParse, testMatching, testPreview, testHistory]);
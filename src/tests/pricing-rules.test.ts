@@ -0,0 +1,119 @@
+/**
+ * Pricing Rules Test
+ *
+ * Verifies volume discounts, minimum job charge and margin floor, both as
+ * pure functions and inside the engine's Tier 2 (with trace steps).
+ * Runs against paver-patio-formula.json.
+ */
+
+import paverPatioConfig from '../pricing-system/config/paver-patio-formula.json';
+import { masterPricingEngine } from '../pricing-system/core/calculations/master-pricing-engine';
+import {
+  applyPricingRules,
+  normalizePricingRules,
+  selectVolumeDiscountTier
+} from '../pricing-system/core/calculations/pricing-rules';
+import type { PricingTraceStep } from '../pricing-system/core/calculations/pricing-trace';
+import { taxableAmountsFromTier2 } from '../pricing-system/utils/sales-tax';
+import { check, runSuite } from './test-harness';
+
+const close = (a: number | undefined, b: number, tolerance = 0.01) =>
+  a !== undefined && Math.abs(a - b) < tolerance;
+
+const sqftDiscounts = {
+  basis: 'sqft' as const,
+  tiers: [{ threshold: 1000, percentage: 8 }, { threshold: 500, percentage: 5 }]
+};
+
+function testNormalize() {
+  console.log('\n🧹 NORMALIZE');
+
+  const rules = normalizePricingRules({
+    minimumJobCharge: '1500',
+    marginFloor: 0,
+    volumeDiscounts: { basis: 'bogus', tiers: [{ threshold: 1000, percentage: 8 }, { threshold: -5, percentage: 3 }, { threshold: 500, percentage: 5 }] }
+  });
+  check('numeric strings parsed', rules.minimumJobCharge === 1500, rules);
+  check('zero margin floor = off', rules.marginFloor === undefined, rules);
+  check('invalid tiers dropped, sorted', rules.volumeDiscounts?.tiers.map(t => t.threshold).join(',') === '500,1000', rules.volumeDiscounts);
+  check('unknown basis falls back to sqft', rules.volumeDiscounts?.basis === 'sqft');
+  check('empty / missing column', Object.keys(normalizePricingRules(null)).length === 0);
+}
+
+function testRules() {
+  console.log('\n📏 RULES');
+
+  check('highest reached tier wins', selectVolumeDiscountTier(sqftDiscounts, 1200, 0)?.percentage === 8);
+  check('below every tier', selectVolumeDiscountTier(sqftDiscounts, 499, 0) === null);
+  check('total basis', selectVolumeDiscountTier({ basis: 'total', tiers: [{ threshold: 20000, percentage: 4 }] }, 10, 25000)?.percentage === 4);
+
+  // 600 sqft: 5% off labor/materials + profit, equipment untouched
+  const discounted = applyPricingRules(
+    { sqft: 600, profitableSubtotal: 10000, profit: 2000, passThroughCost: 500 },
+    { volumeDiscounts: sqftDiscounts, marginFloor: 0.15 }
+  );
+  check('discount excludes pass-through costs', discounted.volumeDiscount === 600, discounted);
+  check('discounted total', discounted.total === 11900, discounted.total);
+  check('effective margin after discount', close(discounted.effectiveMargin, 0.14, 0.0001), discounted.effectiveMargin);
+  check('flagged below margin floor', discounted.belowMarginFloor === true);
+
+  const small = applyPricingRules(
+    { sqft: 40, profitableSubtotal: 500, profit: 100, passThroughCost: 0 },
+    { minimumJobCharge: 1500, marginFloor: 0.15 }
+  );
+  check('raised to the minimum job charge', small.total === 1500 && small.minimumChargeAdjustment === 900, small);
+  check('minimum charge lifts margin', small.belowMarginFloor === false && close(small.effectiveMargin, 2), small.effectiveMargin);
+
+  const none = applyPricingRules({ sqft: 100, profitableSubtotal: 1000, profit: 200, passThroughCost: 50 }, {});
+  check('no rules = unchanged total', none.total === 1250 && none.volumeDiscount === 0 && none.minimumChargeAdjustment === 0, none);
+}
+
+async function testEngine() {
+  console.log('\n💰 ENGINE (tier 2 + trace)');
+
+  const engine = masterPricingEngine as any;
+  const values = {
+    siteAccess: { accessDifficulty: 'easy', obstacleRemoval: 'none' },
+    materials: { paverStyle: 'standard', cuttingComplexity: 'minimal', useMaterialsDatabase: false },
+    labor: { teamSize: 'threePlus' },
+    complexity: { overallComplexity: 'standard' }
+  };
+  const withRules = (businessSettings: Record<string, any>) => ({
+    ...paverPatioConfig,
+    variables_config: paverPatioConfig.variables,
+    baseSettings: {
+      ...paverPatioConfig.baseSettings,
+      businessSettings: { ...paverPatioConfig.baseSettings.businessSettings, ...businessSettings }
+    }
+  });
+
+  const run = async (config: any, sqft: number) => {
+    const trace: PricingTraceStep[] = [];
+    const tier1 = engine.calculateTier1(config, values, sqft, 'paver_patio_sqft', trace);
+    const tier2 = await engine.calculateTier2(config, values, tier1, sqft, undefined, undefined, trace);
+    return { tier2, tier2Steps: trace.filter(step => step.tier === 2) };
+  };
+
+  const tiny = await run(withRules({ minimumJobCharge: { value: 2500 } }), 40);
+  const minimumStep = tiny.tier2Steps.find(step => step.stage === 'minimum_charge');
+  check('minimum charge applied in engine', tiny.tier2.total === 2500 && (tiny.tier2.minimumChargeAdjustment ?? 0) > 0, tiny.tier2);
+  check('minimum charge step is last', tiny.tier2Steps[tiny.tier2Steps.length - 1] === minimumStep, minimumStep);
+  check('trace ends at the minimum', close(minimumStep?.runningTotal, 2500));
+
+  // JSON profit target is 15%: 8% off leaves (1.15 × 0.92) − 1 = 5.8%
+  const large = await run(withRules({ volumeDiscounts: sqftDiscounts, marginFloor: { value: 0.12 } }), 1200);
+  const discountStep = large.tier2Steps.find(step => step.stage === 'volume_discount');
+  check('discount step recorded', discountStep?.operation === 'percentage' && discountStep.factor === -8 && discountStep.amount < 0, discountStep);
+  check('trace reconciles with discounted total', close(large.tier2Steps[large.tier2Steps.length - 1]?.runningTotal, large.tier2.total), large.tier2.total);
+  check('subtotal stays pre-discount', close(large.tier2.subtotal - (large.tier2.volumeDiscount ?? 0), large.tier2.total));
+  check('margin below floor flagged', large.tier2.belowMarginFloor === true && close(large.tier2.effectiveMargin, 0.058, 0.001), large.tier2.effectiveMargin);
+
+  const amounts = taxableAmountsFromTier2(large.tier2);
+  const taxableSum = Object.values(amounts).reduce((sum, value) => sum + (value ?? 0), 0);
+  check('tax components still add up to the total', close(taxableSum, large.tier2.total, 0.05), { taxableSum, total: large.tier2.total });
+
+  const plain = await run(withRules({}), 100);
+  check('no rules - no rule steps', plain.tier2Steps.every(step => step.stage !== 'volume_discount' && step.stage !== 'minimum_charge'));
+}
+
+runSuite('📐 PRICING RULES TESTS', [testNormalize, testRules, testEngine]);
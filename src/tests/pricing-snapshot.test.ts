@@ -0,0 +1,102 @@
+/**
+ * Pricing Snapshot Test
+ *
+ * Verifies quote snapshot hashing and re-price deltas.
+ */
+
+import { hashPricingSnapshot, comparePricingResults } from '../pricing-system/utils/pricing-snapshot';
+import { check, runSuite } from './test-harness';
+
+const baseInput = {
+  serviceConfigId: 'config-1',
+  configRevisionId: 'revision-4',
+  quantity: 250,
+  pricingVariables: {
+    siteAccess: { accessDifficulty: 'moderate', obstacleRemoval: 'none' },
+    materials: { paverStyle: 'premium', cuttingComplexity: 'minimal' }
+  }
+};
+
+async function testHashing() {
+  console.log('\n#️⃣ SNAPSHOT HASHING');
+
+  const hash = await hashPricingSnapshot(baseInput);
+  check('64 char hex digest', /^[0-9a-f]{64}$/.test(hash), hash);
+
+  // Same inputs in a different key order hash the same
+  const reordered = await hashPricingSnapshot({
+    ...baseInput,
+    pricingVariables: {
+      materials: { cuttingComplexity: 'minimal', paverStyle: 'premium' },
+      siteAccess: { obstacleRemoval: 'none', accessDifficulty: 'moderate' }
+    }
+  });
+  check('key order does not matter', reordered === hash);
+
+  const newRevision = await hashPricingSnapshot({ ...baseInput, configRevisionId: 'revision-5' });
+  check('new config revision changes hash', newRevision !== hash);
+
+  const newQuantity = await hashPricingSnapshot({ ...baseInput, quantity: 300 });
+  check('new quantity changes hash', newQuantity !== hash);
+
+  const tier2 = { laborCost: 1200, totalMaterialCost: 1500, equipmentCost: 0, profit: 600, total: 3300 };
+  const priced = await hashPricingSnapshot({ ...baseInput, tier2Results: tier2 });
+  check('computed results change hash', priced !== hash);
+
+  // Inputs the engine reads outside the line - all show up in the output
+  const withMaterials = (unitCost: number) => hashPricingSnapshot({
+    ...baseInput,
+    tier2Results: {
+      ...tier2,
+      materialBreakdown: {
+        categories: [{
+          categoryKey: 'pavers',
+          categoryLabel: 'Pavers',
+          materialId: 'material-1',
+          materialName: 'Standard Paver',
+          calculationMethod: 'area_coverage',
+          quantities: { unitCost } as any,
+          subtotal: 0
+        }],
+        totalMaterialCost: 0,
+        costPerSquareFoot: 0,
+        breakdown: '',
+        detailedUnits: {}
+      }
+    }
+  });
+  check('material price change changes hash', (await withMaterials(4.25)) !== (await withMaterials(4.5)));
+
+  const surcharged = await hashPricingSnapshot({ ...baseInput, tier2Results: { ...tier2, profit: 650, total: 3350 } });
+  check('seasonal adjustment changes hash', surcharged !== priced);
+
+  const equipment = await hashPricingSnapshot({ ...baseInput, tier2Results: { ...tier2, equipmentCost: 180, total: 3480 } });
+  check('equipment rate change changes hash', equipment !== priced);
+
+  const bundled = await hashPricingSnapshot({
+    ...baseInput,
+    tier2Results: { ...tier2, bundledServices: [{ total: 400 } as any], total: 3700 }
+  });
+  check('bundled child price changes hash', bundled !== priced);
+
+  const metric = await hashPricingSnapshot({ ...baseInput, tier2Results: tier2, unitSystem: 'metric' });
+  check('unit system changes hash', metric !== (await hashPricingSnapshot({ ...baseInput, tier2Results: tier2, unitSystem: 'imperial' })));
+}
+
+function testDeltas() {
+  console.log('\n📊 RE-PRICE DELTAS');
+
+  const deltas = comparePricingResults(
+    { laborCost: 1200, totalMaterialCost: 1500, excavationCost: 300, profit: 600, total: 3600 },
+    { laborCost: 1320, totalMaterialCost: 1500, excavationCost: 300, profit: 624, total: 3744 }
+  );
+  const byKey = new Map(deltas.map(d => [d.key, d]));
+
+  check('labor delta', byKey.get('labor')?.delta === 120, byKey.get('labor'));
+  check('materials unchanged', byKey.get('materials')?.delta === 0);
+  check('profit delta', byKey.get('profit')?.delta === 24);
+  check('total delta', byKey.get('total')?.delta === 144);
+  check('missing lines read as zero', byKey.get('equipment')?.before === 0 && byKey.get('equipment')?.after === 0);
+}
+
+runSuite('🧊 PRICING SNAPSHOT TESTS', [testHashing, testDeltas]);
@@ -0,0 +1,82 @@
+/**
+ * Pricing Trace Test
+ *
+ * Verifies explain mode: the ordered trace from the interpreter and the
+ * engine's tier calculations reconciles with the engine's own totals.
+ * Runs the tiers against paver-patio-formula.json.
+ */
+
+import paverPatioConfig from '../pricing-system/config/paver-patio-formula.json';
+import { masterPricingEngine } from '../pricing-system/core/calculations/master-pricing-engine';
+import { resolveVariables, interpretTier1 } from '../pricing-system/core/calculations/formula-interpreter';
+import { formatTraceStep, type PricingTraceStep } from '../pricing-system/core/calculations/pricing-trace';
+import { check, runSuite } from './test-harness';
+
+const close = (a: number | undefined, b: number, tolerance = 0.01) =>
+  a !== undefined && Math.abs(a - b) < tolerance;
+
+// Engine reads variables_config; the JSON file stores them under `variables`
+const config = { ...paverPatioConfig, variables_config: paverPatioConfig.variables } as any;
+
+const values = {
+  siteAccess: { accessDifficulty: 'moderate', obstacleRemoval: 'minor' },
+  materials: { paverStyle: 'premium', cuttingComplexity: 'moderate', useMaterialsDatabase: false },
+  labor: { teamSize: 'twoPerson' },
+  complexity: { overallComplexity: 'standard' }
+};
+
+function testTier1Trace() {
+  console.log('\n⏱️ TIER 1 TRACE');
+
+  const trace: PricingTraceStep[] = [];
+  const tier1 = interpretTier1(resolveVariables(config.variables_config, values), 100, 50, 3, 'sqft', trace);
+
+  check('base step first', trace[0]?.stage === 'base_hours' && close(trace[0].amount, 48), trace[0]);
+  check('one step per labor adjustment', trace.length === 4, trace.length);
+
+  const access = trace.find(step => step.variableKey === 'accessDifficulty');
+  check('records variable, option and effect type',
+    access?.categoryKey === 'siteAccess' && access.option === 'moderate' && access.effectType === 'labor_time_percentage', access);
+  check('percentage applied to base hours', access?.input === 48 && access.factor === 50 && close(access.amount, 24), access);
+  check('running total ends at adjusted hours', close(trace[trace.length - 1]?.runningTotal, tier1.adjustedHours));
+  check('no trace without explain', interpretTier1([], 100, 50, 3).baseHours === 48);
+}
+
+async function testEngineTrace() {
+  console.log('\n💰 ENGINE TRACE (tier 1 + tier 2)');
+
+  const engine = masterPricingEngine as any;
+  const trace: PricingTraceStep[] = [];
+  const tier1 = engine.calculateTier1(config, values, 100, 'paver_patio_sqft', trace);
+  const tier2 = await engine.calculateTier2(config, values, tier1, 100, undefined, undefined, trace);
+
+  check('steps numbered in order', trace.every((step, index) => step.step === index + 1));
+
+  const tier1Steps = trace.filter(step => step.tier === 1);
+  const tier2Steps = trace.filter(step => step.tier === 2);
+  check('tier 1 before tier 2', trace.findIndex(step => step.tier === 2) === tier1Steps.length);
+  check('tier 1 total matches totalManHours', close(tier1Steps[tier1Steps.length - 1]?.runningTotal, tier1.totalManHours, 0.05));
+  check('tier 2 total matches total', close(tier2Steps[tier2Steps.length - 1]?.runningTotal, tier2.total), {
+    trace: tier2Steps[tier2Steps.length - 1]?.runningTotal,
+    total: tier2.total
+  });
+
+  const paverStyle = tier2Steps.find(step => step.variableKey === 'paverStyle');
+  check('material multiplier step', paverStyle?.operation === 'multiplier' && close(paverStyle.factor, 1.2), paverStyle);
+
+  const complexity = tier2Steps.find(step => step.effectType === 'total_project_multiplier');
+  check('project multiplier applied to labor + materials', complexity?.stage === 'project_multiplier' &&
+    close(complexity.amount, complexity.input * (complexity.factor - 1)), complexity);
+
+  const profit = tier2Steps.find(step => step.stage === 'profit');
+  check('profit matches tier2 profit', close(profit?.amount, tier2.profit), profit);
+
+  const obstacle = tier2Steps.find(step => step.effectType === 'flat_additional_cost');
+  check('flat cost is pass-through after profit', obstacle?.stage === 'pass_through' &&
+    obstacle.step > (profit?.step ?? Infinity) && close(obstacle.amount, tier2.obstacleCost), obstacle);
+
+  const line = formatTraceStep(paverStyle!);
+  check('formatted step names variable and option', line.includes('= premium') && line.includes('multiplier'), line);
+}
+
+runSuite('🔎 PRICING TRACE TESTS', [testTier1Trace, testEngineTrace]);
@@ -0,0 +1,148 @@
+/**
+ * Purchase Orders Test
+ *
+ * Verifies grouping job material breakdowns into one order per supplier,
+ * merging a material across jobs, rounding to units_per_package, PO
+ * numbering, status transitions, jobs already on an order and the
+ * printable document.
+ */
+
+import {
+  buildPurchaseOrders,
+  canTransitionPurchaseOrder,
+  findOrderedJobs,
+  nextPurchaseOrderNumber,
+  renderPurchaseOrderHtml,
+  roundOrderQuantity,
+  type PurchaseOrderMaterial
+} from '../pricing-system/utils/purchase-orders';
+import { escapeHtml } from '../utils/html';
+import type { CategoryCalculationResult, MaterialCalculationMethod, MaterialCalculationResult } from '../types/materials';
+import { check, runSuite } from './test-harness';
+
+const materials: PurchaseOrderMaterial[] = [
+  { id: 'rock', material_name: 'Road Base', supplier_name: 'Midwest Stone', supplier_sku: 'LS-CL2', unit_type: 'cubic_yard', units_per_package: null, price_per_unit: 24 },
+  { id: 'sand', material_name: 'Polymeric Sand', supplier_name: 'Midwest Stone', supplier_sku: null, unit_type: 'bag', units_per_package: null, price_per_unit: 32 },
+  { id: 'fabric', material_name: 'Geotextile Fabric', supplier_name: ' midwest stone ', supplier_sku: 'GF-300', unit_type: 'roll', units_per_package: null, price_per_unit: 85 },
+  { id: 'holland', material_name: 'Holland 4x8', supplier_name: 'Belgard', supplier_sku: 'HOL-48', unit_type: 'pallet', units_per_package: 540, price_per_unit: 520 },
+  { id: 'edging', material_name: 'Paver Edging', supplier_name: null, supplier_sku: null, unit_type: 'piece', units_per_package: 10, price_per_unit: 12 }
+];
+
+const category = (
+  materialId: string,
+  purchaseUnits: number,
+  calculationMethod: MaterialCalculationMethod = 'area_coverage',
+  unitCost = 0
+): CategoryCalculationResult => ({
+  categoryKey: materialId,
+  categoryLabel: materialId,
+  materialId,
+  materialName: `Quoted ${materialId}`,
+  calculationMethod,
+  quantities: { purchaseUnits, unitCost, unitLabel: `${materialId} units` },
+  subtotal: 0
+} as CategoryCalculationResult);
+
+const breakdown = (...categories: CategoryCalculationResult[]) =>
+  ({ categories } as MaterialCalculationResult);
+
+function testRounding() {
+  console.log('\n📦 ROUNDING');
+
+  check('bulk to 0.1', roundOrderQuantity(8.83, 'cubic_yard', null).quantityOrdered === 8.9);
+  check('countable to whole units', roundOrderQuantity(6.1, 'bag', null).quantityOrdered === 7);
+  check('exact counts not bumped', roundOrderQuantity(3.0000000001, 'roll', null).quantityOrdered === 3);
+
+  const packaged = roundOrderQuantity(23, 'piece', 10);
+  check('whole packages', packaged.quantityOrdered === 30 && packaged.packages === 3, packaged);
+
+  const pallets = roundOrderQuantity(2.1, 'pallet', 540, 'paver_layout');
+  check('paver pallets are whole pallets', pallets.quantityOrdered === 3 && pallets.packages === null, pallets);
+
+  check('nothing needed', roundOrderQuantity(0, 'bag', null).quantityOrdered === 0);
+}
+
+function testOrders() {
+  console.log('\n🚚 ORDERS');
+
+  const orders = buildPurchaseOrders([
+    { jobId: 'job-1', breakdowns: [breakdown(category('rock', 5.42, 'volume_depth'), category('sand', 3.2), category('holland', 1.1, 'paver_layout'))] },
+    { jobId: 'job-2', breakdowns: [breakdown(category('rock', 3.41, 'volume_depth'), category('fabric', 1.2)), breakdown(category('edging', 23))] },
+    { jobId: 'job-3', breakdowns: [breakdown(category('retired', 2, 'piece_count', 15))] }
+  ], materials);
+
+  check('one order per supplier, unassigned last',
+    orders.map(order => order.supplierName).join('|') === 'Belgard|Midwest Stone|', orders.map(order => order.supplierName));
+
+  const midwest = orders.find(order => order.supplierName === 'Midwest Stone')!;
+  check('supplier names match loosely', midwest.lines.some(line => line.materialId === 'fabric'));
+  check('lines sorted by material', midwest.lines.map(line => line.materialName).join() === 'Geotextile Fabric,Polymeric Sand,Road Base');
+
+  const rock = midwest.lines.find(line => line.materialId === 'rock')!;
+  check('same material merged across jobs', rock.quantityNeeded === 8.83 && rock.jobIds.join() === 'job-1,job-2', rock);
+  check('merged then rounded once', rock.quantityOrdered === 8.9 && rock.lineTotal === 213.6, rock);
+  check('catalog name, sku and price', rock.materialName === 'Road Base' && rock.supplierSku === 'LS-CL2' && rock.unitCost === 24);
+  check('order subtotal', midwest.subtotal === 213.6 + 4 * 32 + 2 * 85, midwest.subtotal);
+  check('order jobs', midwest.jobIds.sort().join() === 'job-1,job-2');
+
+  const belgard = orders.find(order => order.supplierName === 'Belgard')!;
+  check('paver pallets rounded up', belgard.lines[0].quantityOrdered === 2 && belgard.lines[0].lineTotal === 1040, belgard.lines[0]);
+
+  const unassigned = orders.find(order => order.supplierName === null)!;
+  const edging = unassigned.lines.find(line => line.materialId === 'edging')!;
+  check('packages on the line', edging.quantityOrdered === 30 && edging.packages === 3 && edging.unitsPerPackage === 10, edging);
+
+  const retired = unassigned.lines.find(line => line.materialId === 'retired')!;
+  check('material gone from the catalog keeps quoted price', retired.unitCost === 15 && retired.materialName === 'Quoted retired' && retired.quantityOrdered === 2, retired);
+
+  check('no jobs, no orders', buildPurchaseOrders([{ jobId: 'job-4', breakdowns: [] }], materials).length === 0);
+}
+
+function testNumbersAndStatus() {
+  console.log('\n🔢 NUMBERS AND STATUS');
+
+  check('first of the year', nextPurchaseOrderNumber([], 2026) === 'PO-2026-0001');
+  check('after the highest', nextPurchaseOrderNumber(['PO-2026-0002', 'PO-2026-0011', 'PO-2025-0040'], 2026) === 'PO-2026-0012');
+
+  check('draft → sent', canTransitionPurchaseOrder('draft', 'sent'));
+  check('sent → received', canTransitionPurchaseOrder('sent', 'received'));
+  check('no skipping or going back',
+    !canTransitionPurchaseOrder('draft', 'received') && !canTransitionPurchaseOrder('received', 'draft') && !canTransitionPurchaseOrder('sent', 'draft'));
+  check('open orders can be cancelled', canTransitionPurchaseOrder('draft', 'cancelled') && canTransitionPurchaseOrder('sent', 'cancelled'));
+  check('received and cancelled are final',
+    !canTransitionPurchaseOrder('received', 'cancelled') && !canTransitionPurchaseOrder('cancelled', 'draft'));
+
+  const ordered = findOrderedJobs([
+    { po_number: 'PO-2026-0001', status: 'sent', job_ids: ['job-1', 'job-2'] },
+    { po_number: 'PO-2026-0002', status: 'draft', job_ids: ['job-2'] },
+    { po_number: 'PO-2026-0003', status: 'cancelled', job_ids: ['job-3'] }
+  ], ['job-2', 'job-3', 'job-4']);
+  check('jobs already ordered', ordered.get('job-2')?.join(',') === 'PO-2026-0001,PO-2026-0002' && ordered.size === 1,
+    [...ordered]);
+}
+
+function testDocument() {
+  console.log('\n🖨️ DOCUMENT');
+
+  const html = renderPurchaseOrderHtml({
+    poNumber: 'PO-2026-0007',
+    status: 'draft',
+    supplierName: 'Midwest <Stone>',
+    createdAt: '2026-04-02T15:00:00Z',
+    company: { name: 'Hahne Landscaping', phone: '555-0100' },
+    jobNumbers: ['JOB-2026-0003', 'JOB-2026-0004'],
+    lines: [
+      { materialName: 'Paver Edging', supplierSku: null, unitLabel: 'pieces', quantityOrdered: 30, packages: 3, unitsPerPackage: 10, unitCost: 12, lineTotal: 360 }
+    ],
+    subtotal: 360
+  });
+
+  check('po number and company', html.includes('PO-2026-0007') && html.includes('Hahne Landscaping') && html.includes('555-0100'));
+  check('supplier escaped', html.includes('Midwest &lt;Stone&gt;') && !html.includes('<Stone>'));
+  check('jobs listed', html.includes('JOB-2026-0003, JOB-2026-0004'));
+  check('line with packages', html.includes('30 pieces') && html.includes('3 × 10') && html.includes('$360.00'));
+  check('no external assets', !/<(link|script|img)\b/.test(html) && !html.includes('http'));
+  check('escapeHtml', escapeHtml('"a" & \'b\'') === '&quot;a&quot; &amp; &#39;b&#39;');
+}
+
+runSuite('🧾 PURCHASE ORDER TESTS', [testRounding, testOrders, testNumbersAndStatus, testDocument]);
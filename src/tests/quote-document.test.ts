@@ -0,0 +1,198 @@
+/**
+ * Quote Document Test
+ *
+ * Verifies the quote built from a job - selected lines, alternatives,
+ * travel and delivery, tax, validity date and branding - and that the
+ * HTML and PDF render without external resources.
+ */
+
+import {
+  DEFAULT_QUOTE_TERMS,
+  buildQuoteDocument,
+  renderQuoteHtml,
+  renderQuotePdf
+} from '../pricing-system/utils/quote-document';
+import type { JobServiceWithPricing, JobWithDetails } from '../types/crm';
+import type { CategoryCalculationResult } from '../types/materials';
+import { check, runSuite } from './test-harness';
+
+const LOGO = 'data:image/png;base64,iVBORw0KGgo=';
+
+const category = (categoryLabel: string, materialName: string, quantityDisplay: string) => ({
+  categoryLabel,
+  materialName,
+  quantities: { quantityDisplay }
+} as CategoryCalculationResult);
+
+const service = (overrides: Partial<JobServiceWithPricing>): JobServiceWithPricing => ({
+  id: 'line-1',
+  job_id: 'job-1',
+  service_config_id: 'patio',
+  service_name: 'Paver Patio',
+  service_description: null,
+  quantity: 360,
+  unit_price: 25,
+  total_price: 9000,
+  calculation_data: {
+    unit: 'sqft',
+    tier2Results: {
+      materialBreakdown: {
+        categories: [
+          category('Base Rock', 'Road Base', '8.4 tons'),
+          category('Pavers', 'Holland 4x8 <Charcoal>', '2 pallets')
+        ]
+      }
+    }
+  } as any,
+  pricing_variables: {},
+  is_selected_option: true,
+  is_completed: false,
+  added_by_user_id: 'u1',
+  created_at: '2026-03-01T00:00:00Z',
+  updated_at: '2026-03-01T00:00:00Z',
+  calculation_breakdown: '',
+  ...overrides
+});
+
+const job = (overrides: Partial<JobWithDetails> = {}): JobWithDetails => ({
+  id: 'job-1',
+  company_id: 'c1',
+  customer_id: 'cust-1',
+  job_number: 'J-2026-0042',
+  title: 'Backyard patio & walkway',
+  status: 'quote',
+  service_address: '12 Elm St',
+  service_city: 'Springfield',
+  service_state: 'IL',
+  service_zip: '62701',
+  estimated_total: 10575,
+  tax_total: 412.5,
+  travel_cost: 75,
+  delivery_cost: 300,
+  delivery_details: { deliveries: [], totalLoads: 2, totalFee: 300, unweighed: [], unrated: [] },
+  quote_valid_until: null,
+  quote_sent_at: null,
+  priority: 5,
+  tags: [],
+  created_by_user_id: 'u1',
+  created_at: '2026-03-01T00:00:00Z',
+  updated_at: '2026-03-01T00:00:00Z',
+  customer: {
+    customer_name: "Dana O'Neil",
+    customer_email: 'dana@example.com',
+    customer_phone: '555-0100',
+    customer_address: '12 Elm St, Springfield IL'
+  } as any,
+  services: [
+    service({}),
+    service({ id: 'line-2', service_name: 'Walkway', quantity: 40, total_price: 1200, option_group_id: 'walk', option_label: 'Better' }),
+    service({ id: 'line-3', service_name: 'Walkway', quantity: 40, total_price: 1700, option_group_id: 'walk', option_label: 'Best', is_selected_option: false })
+  ],
+  assignments: [],
+  total_services_count: 3,
+  total_assigned_crews: 0,
+  is_overdue: false,
+  ...overrides
+});
+
+const options = {
+  company: { name: 'Green Acres Landscaping', email: 'office@greenacres.test', address: 'Company HQ', phone: '555-0000' },
+  branding: { logo_url: LOGO, primary_color: '#16a34a', business_address: '1 Main St, Springfield IL', business_phone: null },
+  issuedAt: new Date('2026-03-10T15:00:00Z')
+};
+
+const pdfText = (bytes: Uint8Array) => Array.from(bytes, byte => String.fromCharCode(byte)).join('');
+
+function testDocument() {
+  console.log('\n📄 QUOTE CONTENT');
+
+  const quote = buildQuoteDocument(job(), options);
+
+  check('selected lines plus travel and delivery', quote.lines.map(line => line.description).join('|') ===
+    'Paver Patio|Walkway - Better|Travel|Material delivery', quote.lines.map(line => line.description));
+  check('quantity with service unit', quote.lines[0].quantity === '360 sqft', quote.lines[0].quantity);
+  const metric = buildQuoteDocument(job({
+    services: [service({ calculation_data: { unit: 'sqft', unitSystem: 'metric' } as any })]
+  }), options);
+  check('metric company quantity in m²', metric.lines[0].quantity === '33.4 m²', metric.lines[0].quantity);
+  check('delivery loads', quote.lines[3].quantity === '2 loads', quote.lines[3]);
+  check('unselected option listed separately', quote.alternatives.length === 1 &&
+    quote.alternatives[0].description === 'Walkway - Best' && quote.alternatives[0].amount === 1700, quote.alternatives);
+  check('subtotal matches the estimate', quote.subtotal === 10575, quote.subtotal);
+  check('total includes tax', quote.tax === 412.5 && quote.total === 10987.5, quote.total);
+  check('materials left out by default', quote.lines.every(line => line.materials.length === 0));
+
+  check('issued and valid for 30 days', quote.issuedDate === '2026-03-10' && quote.validUntil === '2026-04-09', quote);
+  const dated = buildQuoteDocument(job({ quote_valid_until: '2026-05-01' }), options);
+  check('job validity date wins', dated.validUntil === '2026-05-01');
+
+  check('branding overrides company address', quote.company.address === '1 Main St, Springfield IL' &&
+    quote.company.phone === '555-0000', quote.company);
+  check('brand color normalized', quote.company.primaryColor === '#16A34A');
+  check('default terms', quote.terms === DEFAULT_QUOTE_TERMS);
+  check('project address', quote.serviceAddress === '12 Elm St, Springfield, IL 62701', quote.serviceAddress);
+
+  const plain = buildQuoteDocument(job(), {
+    company: options.company,
+    branding: { logo_url: 'https://cdn.example.com/logo.png', primary_color: 'green' },
+    issuedAt: options.issuedAt
+  });
+  check('hosted logo dropped, invalid color defaulted', plain.company.logoUrl === null && plain.company.primaryColor === '#3B82F6', plain.company);
+}
+
+function testHtml() {
+  console.log('\n🌐 HTML');
+
+  const html = renderQuoteHtml(buildQuoteDocument(job(), { ...options, includeMaterials: true, terms: 'Net 15\nNo refunds' }));
+
+  check('branding', html.includes(`src="${LOGO}"`) && html.includes('#16A34A') && html.includes('Green Acres Landscaping'));
+  check('escaped text', html.includes('Backyard patio &amp; walkway') && html.includes('Dana O&#39;Neil') &&
+    html.includes('Holland 4x8 &lt;Charcoal&gt;'));
+  check('material detail', html.includes('Base Rock: Road Base - 8.4 tons'));
+  check('totals', html.includes('$10,575.00') && html.includes('$412.50') && html.includes('$10,987.50'));
+  check('validity date', html.includes('Valid until: April 9, 2026'));
+  check('custom terms', html.includes('<li>Net 15</li><li>No refunds</li>'));
+  check('signature block', html.includes('Customer signature'));
+  check('no external resources', !/(src|href)="https?:/.test(html) && !html.includes('<script') && !html.includes('@import'));
+}
+
+function testPdf() {
+  console.log('\n📑 PDF');
+
+  const quote = buildQuoteDocument(job(), { ...options, includeMaterials: true });
+  const pdf = pdfText(renderQuotePdf(quote));
+
+  check('PDF header and trailer', pdf.startsWith('%PDF-1.4') && pdf.trimEnd().endsWith('%%EOF'));
+
+  const xrefOffset = Number(pdf.match(/startxref\n(\d+)/)?.[1]);
+  check('xref offset points at the table', pdf.slice(xrefOffset, xrefOffset + 4) === 'xref', xrefOffset);
+
+  const offsets = [...pdf.matchAll(/^(\d{10}) 00000 n $/gm)].map(match => Number(match[1]));
+  check('object offsets valid', offsets.length > 0 && offsets.every((offset, index) =>
+    pdf.slice(offset).startsWith(`${index + 1} 0 obj`)), offsets);
+
+  check('text content', pdf.includes('(Green Acres Landscaping)') && pdf.includes('(J-2026-0042)') &&
+    pdf.includes('($10,987.50)') && pdf.includes('(Customer signature)'));
+  check('text not HTML-escaped', pdf.includes('Holland 4x8 <Charcoal>'));
+  check('brand color bar', pdf.includes('0.086 0.639 0.290 rg'));
+
+  const longJob = job({
+    services: Array.from({ length: 60 }, (_, index) => service({ id: `line-${index}`, service_name: `Zone ${index + 1} (front)` }))
+  });
+  const longPdf = pdfText(renderQuotePdf(buildQuoteDocument(longJob, { ...options, includeMaterials: true })));
+  const pages = Number(longPdf.match(/\/Count (\d+)/)?.[1]);
+  check('long quotes page', pages > 1, pages);
+  check('escaped parentheses in text', longPdf.includes('(Zone 1 \\(front\\))'));
+
+  const farJob = job({
+    service_address: 'Lot 14, Prairie Ridge Subdivision Phase Three, behind the Mill Creek County Road 1200 North maintenance barn, past the second cattle gate at the Old Mill Bridge',
+    customer: { customer_name: 'Dana' } as any
+  });
+  const farPdf = pdfText(renderQuotePdf(buildQuoteDocument(farJob, options)));
+  // Project address is the column at the page's middle (x = 306)
+  const addressBottom = Math.min(...[...farPdf.matchAll(/ 306\.00 ([\d.]+) Td/g)].map(match => Number(match[1])));
+  const titleY = Number(farPdf.match(/([\d.]+) Td \(Backyard patio & walkway\) Tj/)?.[1]);
+  check('long project address stays above the line items', titleY < addressBottom - 13, { addressBottom, titleY });
+}
+
+runSuite('🧾 QUOTE DOCUMENT TESTS', [testDocument, testHtml, testPdf]);
@@ -0,0 +1,84 @@
+/**
+ * Quote Tiers Test
+ *
+ * Verifies Good / Better / Best input derivation, material grade selection
+ * and recipe validation.
+ */
+
+import {
+  DEFAULT_QUOTE_TIERS,
+  deriveQuoteTiers,
+  resolveRecommendedTier,
+  selectMaterialsByGrade,
+  validateQuoteTiers
+} from '../pricing-system/utils/quote-tiers';
+import type { MaterialsByCategory, ServiceMaterial } from '../types/materials';
+import { check, runSuite } from './test-harness';
+
+const material = (id: string, category: string, grade: string | null): ServiceMaterial => ({
+  id,
+  material_category: category,
+  material_grade: grade
+} as ServiceMaterial);
+
+// Ordered defaults first, as fetchAllMaterialsForService returns them
+const catalog: MaterialsByCategory = {
+  pavers: [material('paver-std', 'pavers', 'Standard'), material('paver-eco', 'pavers', 'Economy'), material('paver-prem', 'pavers', 'premium')],
+  base_rock: [material('rock-std', 'base_rock', 'Standard'), material('rock-eco', 'base_rock', 'Economy')],
+  edging: [material('edge-std', 'edging', null)]
+};
+
+const baseValues = {
+  sqft: 300,
+  siteAccess: { accessDifficulty: 'moderate', obstacleRemoval: 'none' },
+  materials: { paverStyle: 'standard', cuttingComplexity: 'complex', useMaterialsDatabase: true },
+  labor: { teamSize: 'threePlus' },
+  serviceIntegrations: { includeExcavation: false },
+  selectedMaterials: { edging: 'edge-custom' }
+};
+
+function testGradeSelection() {
+  console.log('\n🏷️ MATERIAL GRADE SELECTION');
+
+  const economy = selectMaterialsByGrade(catalog, 'Economy');
+  check('picks the graded material per category', economy.selectedMaterials.pavers === 'paver-eco' && economy.selectedMaterials.base_rock === 'rock-eco', economy);
+  check('reports categories without that grade', economy.unmatchedCategories.join() === 'edging', economy.unmatchedCategories);
+  check('grade match is case-insensitive', selectMaterialsByGrade(catalog, 'Premium').selectedMaterials.pavers === 'paver-prem');
+}
+
+function testDerivation() {
+  console.log('\n🥉🥈🥇 TIER DERIVATION');
+
+  const [good, better, best] = deriveQuoteTiers(baseValues, DEFAULT_QUOTE_TIERS, catalog);
+
+  check('one input per tier, in order', good.tier.key === 'good' && better.tier.key === 'better' && best.tier.key === 'best');
+  check('overrides merge over the base category', best.pricingVariables.materials.paverStyle === 'premium' &&
+    best.pricingVariables.materials.cuttingComplexity === 'complex', best.pricingVariables.materials);
+  check('excavation toggled per tier', good.pricingVariables.serviceIntegrations.includeExcavation === false &&
+    better.pricingVariables.serviceIntegrations.includeExcavation === true);
+  check('untouched categories and size carried over', best.pricingVariables.labor.teamSize === 'threePlus' && best.pricingVariables.sqft === 300);
+  check('grade materials selected', good.pricingVariables.selectedMaterials.pavers === 'paver-eco', good.pricingVariables.selectedMaterials);
+  check('explicit selection kept where grade has no match', good.pricingVariables.selectedMaterials.edging === 'edge-custom');
+  check('base input not mutated', baseValues.materials.paverStyle === 'standard' && !('pavers' in baseValues.selectedMaterials));
+
+  const [withoutCatalog] = deriveQuoteTiers(baseValues, DEFAULT_QUOTE_TIERS, null);
+  check('no catalog - selections unchanged', withoutCatalog.pricingVariables.selectedMaterials === baseValues.selectedMaterials);
+}
+
+function testRecipes() {
+  console.log('\n📋 RECIPES');
+
+  check('default recipe is valid', validateQuoteTiers(DEFAULT_QUOTE_TIERS, 'better') === null);
+  check('empty recipe rejected', validateQuoteTiers([]) !== null);
+  check('duplicate keys rejected', validateQuoteTiers([{ key: 'a', label: 'A' }, { key: 'a', label: 'B' }]) !== null);
+  check('overrides must be per category', validateQuoteTiers([{ key: 'a', label: 'A', variableOverrides: { paverStyle: 'premium' } }]) !== null);
+  check('unknown recommended tier rejected', validateQuoteTiers(DEFAULT_QUOTE_TIERS, 'platinum') !== null);
+
+  check('recommended tier from recipe', resolveRecommendedTier(DEFAULT_QUOTE_TIERS, 'best') === 'best');
+  check('falls back to better', resolveRecommendedTier(DEFAULT_QUOTE_TIERS, null) === 'better');
+  check('else the middle tier', resolveRecommendedTier([
+    { key: 'basic', label: 'Basic' }, { key: 'plus', label: 'Plus' }, { key: 'pro', label: 'Pro' }
+  ]) === 'plus');
+}
+
+runSuite('🥇 QUOTE TIERS TESTS', [testGradeSelection, testDerivation, testRecipes]);
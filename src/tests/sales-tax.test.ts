@@ -0,0 +1,95 @@
+/**
+ * Sales Tax Test
+ *
+ * Verifies jurisdiction matching, component split and tax lines.
+ */
+
+import {
+  resolveTaxJurisdiction,
+  taxableAmountsFromTier2,
+  addTaxableAmounts,
+  calculateSalesTax
+} from '../pricing-system/utils/sales-tax';
+import type { TaxJurisdiction } from '../types/tax';
+import { check, runSuite } from './test-harness';
+
+const jurisdiction = (overrides: Partial<TaxJurisdiction>): TaxJurisdiction => ({
+  id: 'tx',
+  company_id: 'company-1',
+  name: 'Texas',
+  state_code: 'TX',
+  zip_code: null,
+  rate: 0.0625,
+  labor_taxable: false,
+  materials_taxable: true,
+  excavation_taxable: false,
+  equipment_taxable: true,
+  obstacles_taxable: false,
+  other_taxable: true,
+  is_active: true,
+  created_at: '',
+  updated_at: '',
+  ...overrides
+});
+
+const rateTable = [
+  jurisdiction({}),
+  jurisdiction({ id: 'austin', name: 'Austin', zip_code: '78701', rate: 0.0825 }),
+  jurisdiction({ id: 'austin-old', name: 'Austin (old)', zip_code: '78702', is_active: false }),
+  jurisdiction({ id: 'ok', name: 'Oklahoma', state_code: 'OK', rate: 0.045, labor_taxable: true })
+];
+
+function testJurisdictionMatching() {
+  console.log('\n📍 JURISDICTION MATCHING');
+
+  check('zip overrides state', resolveTaxJurisdiction(rateTable, { zip: '78701', state: 'TX' })?.id === 'austin');
+  check('zip+4 is accepted', resolveTaxJurisdiction(rateTable, { zip: '78701-1234', state: 'tx' })?.id === 'austin');
+  check('falls back to state-wide', resolveTaxJurisdiction(rateTable, { zip: '75001', state: 'TX' })?.id === 'tx');
+  check('inactive rates are ignored', resolveTaxJurisdiction(rateTable, { zip: '78702', state: 'TX' })?.id === 'tx');
+  check('zip alone matches', resolveTaxJurisdiction(rateTable, { zip: '78701' })?.id === 'austin');
+  check('unknown location has no rate', resolveTaxJurisdiction(rateTable, { state: 'CA' }) === null);
+}
+
+function testComponentSplit() {
+  console.log('\n🧮 COMPONENT SPLIT');
+
+  // 20% markup on labor + materials + excavation; equipment/obstacles pass through
+  const amounts = taxableAmountsFromTier2({
+    laborCost: 1000,
+    totalMaterialCost: 500,
+    excavationCost: 500,
+    equipmentCost: 150,
+    obstacleCost: 250,
+    profit: 400,
+    total: 2800
+  });
+
+  check('labor carries its markup', amounts.labor === 1200, amounts);
+  check('materials carry their markup', amounts.materials === 600, amounts);
+  check('pass-through costs unchanged', amounts.equipment === 150 && amounts.obstacles === 250, amounts);
+  const sum = Object.values(amounts).reduce((a, b) => a + (b ?? 0), 0);
+  check('components add up to the line total', sum === 2800, sum);
+
+  const combined = addTaxableAmounts(amounts, { other: 300 }, { materials: 100 });
+  check('lines combine by component', combined.materials === 700 && combined.other === 300, combined);
+}
+
+function testTaxLines() {
+  console.log('\n🧾 TAX LINES');
+
+  const amounts = { labor: 1200, materials: 600, equipment: 150, obstacles: 250, other: 300 };
+
+  const austin = calculateSalesTax(amounts, rateTable[1]);
+  check('labor not taxed in TX', austin.lines.find(l => l.component === 'labor')?.tax === 0);
+  check('materials taxed at local rate', austin.lines.find(l => l.component === 'materials')?.tax === 49.5);
+  check('taxable amount', austin.taxableAmount === 1050, austin.taxableAmount);
+  check('tax total', austin.taxTotal === 86.63, austin.taxTotal);
+
+  const oklahoma = calculateSalesTax(amounts, rateTable[3]);
+  check('labor taxed where configured', oklahoma.lines.find(l => l.component === 'labor')?.tax === 54);
+
+  const none = calculateSalesTax(amounts, null);
+  check('no jurisdiction - lines kept, no tax', none.lines.length === 5 && none.taxTotal === 0 && none.jurisdictionId === null);
+}
+
+runSuite('💵 SALES TAX TESTS', [testJurisdictionMatching, testComponentSplit, testTaxLines]);
@@ -0,0 +1,127 @@
+/**
+ * Seasonal Pricing Test
+ *
+ * Verifies pricing calendar matching (fixed, recurring and year-wrapping
+ * periods), backlog hours and tiers, and the engine's Tier 2 labor rate,
+ * margin and backlog surcharge.
+ */
+
+import paverPatioConfig from '../pricing-system/config/paver-patio-formula.json';
+import { masterPricingEngine } from '../pricing-system/core/calculations/master-pricing-engine';
+import type { PricingTraceStep } from '../pricing-system/core/calculations/pricing-trace';
+import {
+  assignmentCrewHours,
+  backlogWindow,
+  normalizeBacklogRule,
+  periodCovers,
+  resolveSeasonalAdjustment,
+  type PricingCalendarPeriod,
+  type SeasonalAdjustment
+} from '../pricing-system/core/calculations/seasonal-pricing';
+import { check, runSuite } from './test-harness';
+
+const springRush: PricingCalendarPeriod = {
+  name: 'Spring rush',
+  startDate: '2025-03-15',
+  endDate: '2025-05-31',
+  recurring: true,
+  marginAdjustment: 0.05,
+  laborRateAdjustment: 10
+};
+
+const winter: PricingCalendarPeriod = {
+  name: 'Winter slowdown',
+  startDate: '2025-12-01',
+  endDate: '2026-02-28',
+  recurring: true,
+  marginAdjustment: -0.05,
+  laborRateAdjustment: 0
+};
+
+const homeShow: PricingCalendarPeriod = {
+  name: 'Home show promo',
+  startDate: '2026-04-01',
+  endDate: '2026-04-15',
+  recurring: false,
+  marginAdjustment: -0.02,
+  laborRateAdjustment: 0
+};
+
+const backlogRule = normalizeBacklogRule({
+  windowDays: 14,
+  tiers: [{ hours: 600, percentage: 10 }, { hours: 400, percentage: 5 }, { hours: 0, percentage: 3 }]
+});
+
+function testCalendar() {
+  console.log('\n📅 CALENDAR');
+
+  check('recurring period matches any year', periodCovers(springRush, '2027-04-20'));
+  check('recurring period ends inclusive', periodCovers(springRush, '2026-05-31') && !periodCovers(springRush, '2026-06-01'));
+  check('year-wrapping period', periodCovers(winter, '2026-12-20') && periodCovers(winter, '2027-01-10') && !periodCovers(winter, '2026-11-30'));
+  check('fixed period only its year', periodCovers(homeShow, '2026-04-10') && !periodCovers(homeShow, '2027-04-10'));
+  check('timestamps use their date', periodCovers(springRush, '2026-03-15T08:00:00.000Z'));
+
+  const stacked = resolveSeasonalAdjustment('2026-04-10', [springRush, winter, homeShow], null, 0);
+  check('overlapping periods stack',
+    stacked.periods.length === 2 && Math.abs(stacked.marginAdjustment - 0.03) < 1e-9 && stacked.laborRateAdjustment === 10,
+    stacked);
+}
+
+function testBacklog() {
+  console.log('\n🗓️ BACKLOG');
+
+  check('invalid tiers dropped and sorted', backlogRule?.tiers.length === 2 && backlogRule.tiers[0].hours === 400, backlogRule);
+  check('empty rule is off', normalizeBacklogRule({ tiers: [] }) === null && normalizeBacklogRule({}) === null);
+  check('window defaults to 28 days', normalizeBacklogRule({ tiers: [{ hours: 100, percentage: 2 }] })?.windowDays === 28);
+
+  const window = backlogWindow('2026-04-10', 14);
+  check('window from the start date', window.start === '2026-04-10T00:00:00.000Z' && window.end === '2026-04-24T00:00:00.000Z', window);
+
+  check('estimated hours used', assignmentCrewHours({ estimated_hours: '32.5', scheduled_start: '2026-04-10T08:00:00Z', scheduled_end: '2026-04-11T17:00:00Z' }) === 32.5);
+  check('crew days when not estimated', assignmentCrewHours({ estimated_hours: null, scheduled_start: '2026-04-10T08:00:00Z', scheduled_end: '2026-04-11T17:00:00Z' }) === 16);
+
+  check('below the first tier', resolveSeasonalAdjustment('2026-07-01', [], backlogRule, 399).backlogTier === null);
+  check('highest tier reached', resolveSeasonalAdjustment('2026-07-01', [], backlogRule, 650).backlogTier?.percentage === 10);
+}
+
+async function testEngine() {
+  console.log('\n⚙️ ENGINE TIER 2');
+
+  const engine = masterPricingEngine as any;
+  const config = { ...paverPatioConfig, variables_config: paverPatioConfig.variables };
+  const values = { materials: { useMaterialsDatabase: false } };
+  const tier2 = (seasonal?: SeasonalAdjustment, trace?: PricingTraceStep[]) => {
+    const tier1 = engine.calculateTier1(config, values, 400, 'paver_patio_sqft', trace);
+    return engine.calculateTier2(config, values, tier1, 400, undefined, undefined, trace, undefined, [], [], seasonal);
+  };
+
+  const base = await tier2();
+
+  const spring = resolveSeasonalAdjustment('2026-04-20', [springRush], null, 0);
+  const inSpring = await tier2(spring);
+  check('labor rate raised', Math.abs(inSpring.laborCost - base.laborCost * 1.1) < 0.02, { base: base.laborCost, spring: inSpring.laborCost });
+  const springSubtotal = inSpring.laborCost + inSpring.totalMaterialCost;
+  const margin = paverPatioConfig.baseSettings.businessSettings.profitMarginTarget.value;
+  check('margin points added', Math.abs(inSpring.profit - springSubtotal * (margin + 0.05)) < 0.02 &&
+    Math.abs(inSpring.seasonal.profitAdjustment - springSubtotal * 0.05) < 0.02, { profit: inSpring.profit, seasonal: inSpring.seasonal });
+  check('pass-through untouched', inSpring.equipmentCost === base.equipmentCost && inSpring.obstacleCost === base.obstacleCost);
+  check('result carries the adjustment', inSpring.seasonal?.periods[0] === 'Spring rush' && inSpring.seasonal.laborAdjustment > 0);
+
+  const slow = await tier2(resolveSeasonalAdjustment('2026-01-10', [winter], null, 0));
+  check('slow season lowers the price', slow.total < base.total && slow.laborCost === base.laborCost);
+
+  const busy = resolveSeasonalAdjustment('2026-07-01', [], backlogRule, 500);
+  const trace: PricingTraceStep[] = [];
+  const withBacklog = await tier2(busy, trace);
+  const markedUp = base.laborCost + base.totalMaterialCost + base.profit;
+  check('backlog surcharge on the marked-up price', Math.abs(withBacklog.seasonal.backlogSurcharge - markedUp * 0.05) < 0.05,
+    { surcharge: withBacklog.seasonal?.backlogSurcharge, expected: markedUp * 0.05 });
+  check('surcharge counted as profit', Math.abs(withBacklog.profit - base.profit - withBacklog.seasonal.backlogSurcharge) < 0.02);
+  check('trace has the surcharge', trace.some(step => step.stage === 'seasonal'));
+  check('trace ends at the total', Math.abs(trace[trace.length - 1].runningTotal - withBacklog.total) < 0.02);
+
+  const none = await tier2(resolveSeasonalAdjustment('2026-07-01', [springRush], backlogRule, 10));
+  check('nothing applies, no adjustment', none.seasonal === undefined && none.total === base.total);
+}
+
+runSuite('🌦️ SEASONAL PRICING TESTS', [testCalendar, testBacklog, testEngine]);
@@ -0,0 +1,145 @@
+/**
+ * Service Bundles Test
+ *
+ * Verifies declared service integrations: resolving toggles, derived
+ * quantities, profit treatments, shared mobilization, the engine's Tier 2
+ * totals and tax split. Child results are built in the test.
+ */
+
+import paverPatioConfig from '../pricing-system/config/paver-patio-formula.json';
+import { masterPricingEngine } from '../pricing-system/core/calculations/master-pricing-engine';
+import type { PricingTraceStep } from '../pricing-system/core/calculations/pricing-trace';
+import {
+  buildBundledServiceResult,
+  bundleQuantity,
+  bundleValues,
+  resolveServiceIntegrations,
+  sharedMobilization,
+  summarizeBundles
+} from '../pricing-system/core/calculations/service-bundles';
+import { taxableAmountsFromTier2 } from '../pricing-system/utils/sales-tax';
+import { check, runSuite } from './test-harness';
+
+const serviceIntegrations = {
+  label: 'Bundled Services',
+  includeExcavation: { type: 'toggle', label: 'Include Excavation', default: true, linkedService: 'excavation_removal' },
+  includeSeatWall: {
+    type: 'toggle',
+    label: 'Include Seat Wall',
+    default: false,
+    linkedService: 'paver_patio_sqft',
+    quantity: { source: 'perimeter', factor: 0.5 },
+    mobilization: 150,
+    values: { materials: { paverStyle: 'premium', cuttingComplexity: 'minimal' } }
+  },
+  includeLighting: {
+    type: 'toggle',
+    label: 'Include Lighting',
+    default: false,
+    linkedService: 'paver_patio_sqft',
+    quantity: { source: 'fixed', value: 6 },
+    profitTreatment: 'linked',
+    mobilization: 75
+  }
+};
+
+// Child costs before profit: 600 marked up, 100 pass-through, child total 800
+const childTier2 = {
+  laborCost: 400,
+  totalMaterialCost: 200,
+  excavationCost: 0,
+  equipmentCost: 60,
+  obstacleCost: 40,
+  profit: 100,
+  total: 800
+};
+
+function testDeclarations() {
+  console.log('\n🧩 DECLARATIONS');
+
+  const none = resolveServiceIntegrations({ serviceIntegrations }, { serviceIntegrations: {} });
+  check('defaults do not enable bundles', none.length === 0, none);
+
+  const enabled = resolveServiceIntegrations({ serviceIntegrations }, {
+    serviceIntegrations: { includeExcavation: true, includeSeatWall: true, includeLighting: true }
+  });
+  check('excavation keeps its dedicated path', enabled.every(d => d.linkedService !== 'excavation_removal'));
+  check('one declaration per enabled bundle', enabled.map(d => d.key).join() === 'includeSeatWall,includeLighting');
+
+  const [seatWall, lighting] = enabled;
+  check('label without the Include prefix', seatWall.label === 'Seat Wall');
+  check('profit treatment defaults to parent', seatWall.profitTreatment === 'parent' && lighting.profitTreatment === 'linked');
+
+  // √400 × 4.15 = 83 lnft × 0.5
+  check('perimeter quantity', bundleQuantity(seatWall, 400, {}) === 41.5);
+  check('custom perimeter wins', bundleQuantity(seatWall, 400, { customPerimeter: 100 }) === 50);
+  check('fixed quantity', bundleQuantity(lighting, 400) === 6);
+  check('parent quantity by factor', bundleQuantity({ ...seatWall, quantity: { source: 'parent', factor: 1 } }, 400) === 400);
+
+  const childValues = bundleValues(seatWall, { bundleValues: { includeSeatWall: { materials: { cuttingComplexity: 'complex' } } } });
+  check('user values merged over the preset', childValues.materials.paverStyle === 'premium' &&
+    childValues.materials.cuttingComplexity === 'complex', childValues);
+
+  check('mobilization shared - highest once', sharedMobilization(enabled) === 150);
+}
+
+function testProfitTreatments() {
+  console.log('\n💵 PROFIT TREATMENTS');
+
+  const base = resolveServiceIntegrations({ serviceIntegrations }, { serviceIntegrations: { includeSeatWall: true } })[0];
+  const parent = buildBundledServiceResult(base, 40, 'sqft', 12, childTier2, 0.15);
+  const linked = buildBundledServiceResult({ ...base, profitTreatment: 'linked' }, 40, 'sqft', 12, childTier2, 0.15);
+  const atCost = buildBundledServiceResult({ ...base, profitTreatment: 'none' }, 40, 'sqft', 12, childTier2, 0.15);
+
+  check('parent margin on labor and materials only', parent.profit === 90 && parent.total === 790, parent);
+  check('linked keeps the child total', linked.total === 800 && linked.profit === 100, linked);
+  check('none charged at cost', atCost.total === 700 && atCost.profit === 0, atCost);
+
+  const totals = summarizeBundles([parent, linked, atCost]);
+  check('totals split by treatment', totals.profitableCost === 600 && totals.passThroughCost === 800 && totals.linkedTotal === 800, totals);
+}
+
+async function testEngine() {
+  console.log('\n⚙️ ENGINE TIER 2');
+
+  const engine = masterPricingEngine as any;
+  const config = {
+    ...paverPatioConfig,
+    variables_config: { ...paverPatioConfig.variables, serviceIntegrations }
+  };
+  const values = {
+    materials: { useMaterialsDatabase: false },
+    serviceIntegrations: { includeSeatWall: true }
+  };
+  const [declaration] = resolveServiceIntegrations(config.variables_config, values);
+  const bundles = [{
+    declaration,
+    quantity: 41.5,
+    unit: 'sqft',
+    result: { tier1Results: { totalManHours: 12 }, tier2Results: childTier2 }
+  }];
+
+  const trace: PricingTraceStep[] = [];
+  const tier1 = engine.calculateTier1(config, values, 400, 'paver_patio_sqft', trace);
+  const without = await engine.calculateTier2(config, values, tier1, 400, undefined, undefined, undefined);
+  const withBundle = await engine.calculateTier2(config, values, tier1, 400, undefined, undefined, trace, undefined, bundles);
+
+  const bundle = withBundle.bundledServices?.[0];
+  check('nested breakdown on the result', bundle?.serviceId === 'paver_patio_sqft' && bundle?.hours === 12, withBundle.bundledServices);
+  check('bundle marked up with the parent profit', Math.abs(withBundle.profit - without.profit - 90) < 0.02,
+    { with: withBundle.profit, without: without.profit });
+  check('total adds bundle and mobilization', Math.abs(withBundle.total - without.total - 790 - 150) < 0.02,
+    { with: withBundle.total, without: without.total });
+  check('shared mobilization reported', withBundle.bundleMobilization === 150);
+
+  const last = trace[trace.length - 1];
+  check('trace ends at the total', Math.abs(last.runningTotal - withBundle.total) < 0.02, last);
+  check('trace shows the bundle', trace.some(step => step.stage === 'bundled_cost' && step.label.startsWith('Seat Wall')));
+
+  const amounts = taxableAmountsFromTier2(withBundle);
+  const taxableSum = Object.values(amounts).reduce((sum, amount) => sum + (amount ?? 0), 0);
+  check('tax split covers the whole total', Math.abs(taxableSum - withBundle.total) < 0.05, { taxableSum, total: withBundle.total });
+  check('mobilization taxed as other', amounts.other === 150, amounts);
+}
+
+runSuite('🧩 SERVICE BUNDLES TESTS', [testDeclarations, testProfitTreatments, testEngine]);
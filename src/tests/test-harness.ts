@@ -0,0 +1,45 @@
+/**
+ * Test Harness
+ *
+ * Pass/fail counting shared by the tsx test scripts. check() records one
+ * result; runSuite() prints the banner, runs each section in order and
+ * exits non-zero if anything failed.
+ */
+
+let passed = 0;
+let failed = 0;
+
+export function check(name: string, condition: boolean, detail?: unknown): void {
+  if (condition) {
+    console.log(`  ✅ ${name}`);
+    passed++;
+  } else {
+    console.log(`  ❌ ${name}`, detail ?? '');
+    failed++;
+  }
+}
+
+/**
+ * Numeric check - equal within floating-point noise
+ */
+export function checkClose(name: string, actual: number, expected: number): void {
+  check(`${name}: ${actual}`, Math.abs(actual - expected) < 0.0001, `expected ${expected}`);
+}
+
+export async function runSuite(title: string, sections: Array<() => void | Promise<void>>): Promise<void> {
+  console.log(title);
+  console.log('='.repeat(60));
+
+  try {
+    for (const section of sections) {
+      await section();
+    }
+  } catch (error) {
+    console.error('Test execution failed:', error);
+    process.exit(1);
+  }
+
+  console.log('\n' + '='.repeat(60));
+  console.log(`Passed: ${passed}  Failed: ${failed}`);
+  process.exit(failed === 0 ? 0 : 1);
+}
@@ -0,0 +1,63 @@
+/**
+ * Travel Cost Test
+ *
+ * Verifies shop-to-site distance, the free radius and per-day round trips.
+ */
+
+import {
+  calculateTravelCost,
+  estimateRoadMiles,
+  haversineMiles,
+  normalizeTravelRule
+} from '../pricing-system/core/calculations/travel-cost';
+import { check, runSuite } from './test-harness';
+
+// Austin 78701 and Round Rock 78664 centroids
+const austin = { latitude: 30.2711, longitude: -97.7437 };
+const roundRock = { latitude: 30.5083, longitude: -97.6789 };
+
+function testDistance() {
+  console.log('\n📍 DISTANCE');
+
+  const miles = haversineMiles(austin, roundRock);
+  check('straight-line miles', miles > 16 && miles < 17.5, miles);
+  check('same point is zero', haversineMiles(austin, austin) === 0);
+
+  const rule = normalizeTravelRule({ ratePerMile: 1, roadFactor: 1.25 });
+  check('road factor stretches the line', estimateRoadMiles(austin, roundRock, rule) === Math.round(miles * 1.25 * 10) / 10);
+}
+
+function testRule() {
+  console.log('\n🧹 STORED RULE');
+
+  const empty = normalizeTravelRule(undefined);
+  check('missing rule charges nothing', empty.ratePerMile === 0 && empty.roundTripsPerDay === true);
+
+  const cleaned = normalizeTravelRule({ ratePerMile: '1.5', freeRadiusMiles: -3, roadFactor: 0.5, roundTripsPerDay: 'no' });
+  check('numeric strings parsed', cleaned.ratePerMile === 1.5, cleaned);
+  check('invalid fields fall back', cleaned.freeRadiusMiles === 0 && cleaned.roadFactor === 1.2 && cleaned.roundTripsPerDay === true, cleaned);
+}
+
+function testCost() {
+  console.log('\n🚚 TRAVEL COST');
+
+  const rule = normalizeTravelRule({ ratePerMile: 1.5, freeRadiusMiles: 15 });
+
+  const inside = calculateTravelCost(12, 3, rule);
+  check('inside the free radius is free', inside.cost === 0 && inside.billableMiles === 0, inside);
+
+  // (40 - 15) × 2 ways × 3 days × $1.50
+  const daily = calculateTravelCost(40, 2.4, rule);
+  check('partial days round up to a trip', daily.roundTrips === 3, daily);
+  check('billable miles both ways per trip', daily.cost === 225, daily);
+
+  const once = calculateTravelCost(40, 2.4, { ...rule, roundTripsPerDay: false });
+  check('one round trip per job', once.roundTrips === 1 && once.cost === 75, once);
+
+  check('at least one trip', calculateTravelCost(40, 0, rule).roundTrips === 1);
+
+  const minimum = calculateTravelCost(16, 1, { ...rule, minimumCharge: 25 });
+  check('minimum charge outside the radius', minimum.cost === 25, minimum);
+}
+
+runSuite('🚚 TRAVEL COST TESTS', [testDistance, testRule, testCost]);
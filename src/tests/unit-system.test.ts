@@ -0,0 +1,146 @@
+/**
+ * Unit System Test
+ *
+ * Verifies imperial ↔ metric conversion and formatting, metric dimension
+ * parsing into canonical sqft / feet, and metric material quantity displays
+ * with unchanged canonical quantities and purchase rounding.
+ */
+
+import {
+  formatMeasurement,
+  formatPricePerUnit,
+  formatQuantity,
+  measurementKindForUnit,
+  normalizeUnitSystem,
+  roundForDisplay,
+  toCanonicalUnits,
+  toDisplayUnits
+} from '../pricing-system/utils/unit-system';
+import { measurePatioShape, scalePatioShape } from '../pricing-system/utils/patio-shape';
+import { DimensionCalculator } from '../utils/dimension-calculator';
+import {
+  calculateAreaMaterial,
+  calculateLinearMaterial,
+  calculateVolumeMaterial
+} from '../services/materialCalculations';
+import type { MaterialCategory, ServiceMaterial } from '../types/materials';
+import { check, runSuite } from './test-harness';
+
+const close = (a: number, b: number, tolerance = 0.01) => Math.abs(a - b) <= tolerance;
+
+const material = (overrides: Partial<ServiceMaterial>): ServiceMaterial => ({
+  material_name: 'Test material',
+  price_per_unit: 40,
+  units_per_package: null,
+  coverage_per_unit: null,
+  coverage_depth_inches: null,
+  waste_factor_percentage: 10,
+  compaction_factor_percentage: 0,
+  ...overrides
+} as ServiceMaterial);
+
+const baseRock = { category_key: 'base_rock', default_depth_inches: 6 } as MaterialCategory;
+
+function testConversions() {
+  console.log('\n🔁 CONVERSIONS');
+
+  check('unknown unit system is imperial', normalizeUnitSystem('furlongs') === 'imperial' && normalizeUnitSystem(null) === 'imperial');
+  check('metric passes through', normalizeUnitSystem('metric') === 'metric');
+
+  check('sq ft → m²', close(toDisplayUnits(100, 'area', 'metric'), 9.290304, 1e-9));
+  check('m² → sq ft', close(toCanonicalUnits(10, 'area', 'metric'), 107.639, 0.001));
+  check('inches → mm', toDisplayUnits(4, 'depth', 'metric') === 101.6);
+  check('cubic yards → m³', close(toDisplayUnits(1, 'volume', 'metric'), 0.7646, 0.0001));
+  check('tons → tonnes', close(toDisplayUnits(2, 'weight', 'metric'), 1.8144, 0.0001));
+  check('imperial is unchanged', toDisplayUnits(123.456, 'area', 'imperial') === 123.456);
+
+  const roundTrip = toCanonicalUnits(toDisplayUnits(257.3, 'area', 'metric'), 'area', 'metric');
+  check('round trip is not rounded', close(roundTrip, 257.3, 1e-9), roundTrip);
+}
+
+function testFormatting() {
+  console.log('\n🔤 FORMATTING');
+
+  check('area in m²', formatMeasurement(320, 'area', 'metric') === '29.7 m²', formatMeasurement(320, 'area', 'metric'));
+  check('area in sq ft', formatMeasurement(320, 'area', 'imperial') === '320 sq ft');
+  check('depth in mm', formatMeasurement(4, 'depth', 'metric') === '102 mm');
+  check('volume in m³', formatMeasurement(3.5, 'volume', 'metric') === '2.68 m³', formatMeasurement(3.5, 'volume', 'metric'));
+  check('display rounding only', roundForDisplay(80, 'length', 'metric') === 24.38);
+
+  check('price per m²', formatPricePerUnit(3200, 320, 'area', 'metric') === '$107.64/m²', formatPricePerUnit(3200, 320, 'area', 'metric'));
+  check('price per sq ft', formatPricePerUnit(3200, 320, 'area', 'imperial') === '$10.00/sq ft');
+
+  check('registry units have a kind', measurementKindForUnit('sqft') === 'area' && measurementKindForUnit('linear_foot') === 'length');
+  check('counts have no kind', measurementKindForUnit('each') === null && measurementKindForUnit('pallet') === null);
+  check('quote quantity in metric', formatQuantity(320, 'sqft', 'metric') === '29.7 m²');
+  check('quote quantity keeps imperial wording', formatQuantity(320, 'sqft', 'imperial') === '320 sqft');
+  check('counts are not converted', formatQuantity(3, 'each', 'metric') === '3 each');
+}
+
+function testParsing() {
+  console.log('\n💬 METRIC DIMENSIONS');
+
+  const rect = DimensionCalculator.parse('6 m x 4 m patio', 'Paver Patio (SQFT)');
+  check('metres × metres → sqft', rect?.quantity === 258.33 && rect.unit === 'sqft' && rect.unitSystem === 'metric', rect);
+  check('perimeter in feet', rect?.perimeter === 65.62, rect?.perimeter);
+
+  const area = DimensionCalculator.parse('25 m² of pavers', 'Paver Patio (SQFT)');
+  check('m² → sqft', area?.quantity === 269.1, area);
+
+  const words = DimensionCalculator.parse('25 square metres', 'Paver Patio (SQFT)');
+  check('square metres wording', words?.quantity === 269.1, words);
+
+  const bare = DimensionCalculator.parse('6 x 4 patio', 'Paver Patio (SQFT)', 'metric');
+  check('bare numbers follow the company units', bare?.quantity === 258.33, bare);
+
+  const feet = DimensionCalculator.parse('20 ft x 12 ft', 'Paver Patio (SQFT)', 'metric');
+  check('feet named by a metric company stay feet', feet?.quantity === 240 && feet.unitSystem === undefined, feet);
+
+  const imperial = DimensionCalculator.parse('6 x 4 patio', 'Paver Patio (SQFT)');
+  check('imperial companies are unchanged', imperial?.quantity === 24, imperial);
+
+  const edge = DimensionCalculator.parse('15 meters of edging', 'Metal Edging');
+  check('single metres are a length', edge?.quantity === 49.21 && edge.calculationType === 'linear', edge);
+
+  const l = DimensionCalculator.parse('L-shaped patio 6x4 and 3x2 metres', 'Paver Patio (SQFT)');
+  const scaled = measurePatioShape(scalePatioShape({
+    parts: [
+      { type: 'rectangle', length: 6, width: 4 },
+      { type: 'rectangle', length: 3, width: 2, sharedEdge: 3 }
+    ]
+  }, 1 / 0.3048));
+  check('metric shape measured in feet', l?.quantity === scaled.area && l.perimeter === scaled.perimeter, { l, scaled });
+  check('shape area matches m²', close(toDisplayUnits(l?.quantity ?? 0, 'area', 'metric'), 30), l?.quantity);
+
+  check('"3 more" is not metres', !DimensionCalculator.isMetricInput('3 more pavers 12x10'));
+  check('millimetres are not metres', !DimensionCalculator.isMetricInput('100 mm base'));
+}
+
+function testMaterials() {
+  console.log('\n🪨 MATERIAL QUANTITIES');
+
+  const rock = material({ unit_type: 'cubic_yard' });
+  const imperial = calculateVolumeMaterial(300, rock, baseRock);
+  const metric = calculateVolumeMaterial(300, rock, baseRock, 'metric');
+
+  check('same canonical quantity', metric.quantityNeeded === imperial.quantityNeeded);
+  check('same purchase rounding', metric.purchaseUnitsRounded === imperial.purchaseUnitsRounded && imperial.purchaseUnitsRounded === 6.2);
+  check('same cost', metric.totalCost === imperial.totalCost);
+  check('volume shown in m³', metric.quantityDisplay === '4.74 m³', metric.quantityDisplay);
+  check('imperial display unchanged', imperial.quantityDisplay.startsWith('6.2 '), imperial.quantityDisplay);
+
+  const pavers = material({ unit_type: 'square_foot' });
+  const paverArea = calculateAreaMaterial(300, pavers, 'metric');
+  check('area material shown in m²', paverArea.quantityDisplay === '30.7 m²', paverArea.quantityDisplay);
+
+  const pallet = material({ unit_type: 'pallet', coverage_per_unit: 100 });
+  const pallets = calculateAreaMaterial(300, pallet, 'metric');
+  check('packages keep their count, coverage in m²',
+    pallets.quantityDisplay.startsWith('3.3 ') && pallets.quantityDisplay.includes('(31 m² coverage)'), pallets.quantityDisplay);
+
+  const edging = material({ unit_type: 'section', coverage_per_unit: 8 });
+  const sections = calculateLinearMaterial(300, edging, 80, 'metric');
+  check('edging length in metres', sections.quantityDisplay.includes('26.8 m'), sections.quantityDisplay);
+}
+
+runSuite('📏 UNIT SYSTEM TESTS', [testConversions, testFormatting, testParsing, testMaterials]);
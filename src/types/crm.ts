@@ -11,6 +11,13 @@ import { Database } from './supabase';
 import { CustomerProfile } from './customer';
 import { ServiceResponse, PaginatedResponse, BulkOperationResult } from './customer';
 import { PaverPatioCalculationResult } from '../pricing-system/core/master-formula/formula-types';
+import type { Tier1Results, Tier2Results } from '../pricing-system/core/calculations/master-pricing-engine';
+import type { ServiceId } from '../pricing-system/config/service-registry';
+import type { PricingLineDelta } from './pricing';
+import type { TaxLine } from './tax';
+import type { JobTravel } from './travel';
+import type { DeliveryPlan } from './delivery';
+import type { UnitSystem } from '../pricing-system/utils/unit-system';
 
 // ============================================================================
 // Database Table Types (from Supabase)
@@ -119,6 +126,19 @@ export interface Job {
   labor_cost?: number | null;                // Decimal(10,2)
   material_cost?: number | null;             // Decimal(10,2)
 
+  // Sales tax (estimated_total is pre-tax; see getJobTotalWithTax)
+  tax_jurisdiction_id?: string | null;
+  tax_total?: number | null;                 // Decimal(10,2)
+  tax_lines?: TaxLine[] | null;
+
+  // Shop-to-site travel, included in estimated_total (one line per job)
+  travel_cost?: number | null;               // Decimal(10,2)
+  travel_details?: JobTravel | null;
+
+  // Supplier truckloads of materials, included in estimated_total
+  delivery_cost?: number | null;             // Decimal(10,2)
+  delivery_details?: DeliveryPlan | null;
+
   // Quote details
   quote_valid_until?: string | null;         // ISO 8601 date
   quote_sent_at?: string | null;             // ISO 8601 timestamp
@@ -309,6 +329,18 @@ export interface JobService {
   calculation_data: ServiceCalculationData;
   pricing_variables: Record<string, any>;
 
+  // Frozen pricing snapshot (which config revision + inputs produced the price)
+  config_revision_id?: string | null;
+  pricing_snapshot_hash?: string | null;
+  priced_at?: string | null;                 // ISO 8601 timestamp
+
+  // Good / Better / Best alternatives (lines sharing option_group_id)
+  option_group_id?: string | null;
+  option_tier?: string | null;
+  option_label?: string | null;
+  is_selected_option?: boolean;              // Only selected lines count toward totals
+  quote_tier_recipe_id?: string | null;
+
   // Service-specific notes
   notes?: string | null;
 
@@ -343,32 +375,25 @@ export interface JobServiceWithPricing extends JobService {
  * Stores complete result from pricing engine
  */
 export interface ServiceCalculationData {
-  // From PaverPatioCalculationResult or other service calculations
-  tier1Results?: {
-    baseHours: number;
-    adjustedHours: number;
-    totalManHours: number;
-    totalDays: number;
-    breakdown: string[];
-  };
-  tier2Results?: {
-    laborCost: number;
-    materialCostBase: number;
-    materialWasteCost: number;
-    totalMaterialCost: number;
-    equipmentCost: number;
-    obstacleCost: number;
-    subtotal: number;
-    profit: number;
-    total: number;
-    pricePerSqft: number;
-  };
+  // From MasterPricingEngine.calculatePricing (CalculationResult)
+  tier1Results?: Tier1Results;
+  tier2Results?: Tier2Results;
   breakdown?: string;
   sqft?: number;
   inputValues?: Record<string, any>;
   confidence?: number;
   calculationDate?: string;
 
+  // Registry resolution used for the calculation
+  serviceId?: ServiceId;                    // SERVICE_REGISTRY key (e.g., 'paver_patio_sqft')
+  unit?: string;                            // Registry unit the quantity is measured in
+  unitSystem?: UnitSystem;                  // Units material quantities were displayed in
+
+  // Pricing snapshot (config revision + inputs hash)
+  configRevisionId?: string | null;
+  configRevisionNumber?: number | null;
+  snapshotHash?: string;
+
   // Generic fields for other service types
   [key: string]: any;
 }
@@ -408,6 +433,19 @@ export interface UpdateJobServiceInput {
   metadata?: Record<string, any>;
 }
 
+/**
+ * Re-price preview for a quote line
+ * Current engine result vs the frozen calculation, shown before accepting
+ */
+export interface JobServiceRepricePreview {
+  jobService: JobService;
+  proposed: ServiceCalculationData;
+  deltas: PricingLineDelta[];
+  currentTotal: number;
+  proposedTotal: number;
+  snapshotChanged: boolean;                 // false = same revision, inputs and computed price
+}
+
 // ============================================================================
 // Crew Types
 // ============================================================================
@@ -1254,6 +1292,13 @@ export const calculateAssignmentProgress = (assignment: JobAssignment): number =
   return assignment.completion_percentage || 0;
 };
 
+/**
+ * Customer-facing job total: pre-tax estimate plus sales tax
+ */
+export const getJobTotalWithTax = (job: Pick<Job, 'estimated_total' | 'tax_total'>): number => {
+  return Math.round(((job.estimated_total || 0) + (job.tax_total || 0)) * 100) / 100;
+};
+
 /**
  * Calculate total job value from services
  */
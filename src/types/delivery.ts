@@ -0,0 +1,34 @@
+/**
+ * Material Delivery - TypeScript Types
+ *
+ * These types match the supplier_delivery_rates table and the delivery
+ * columns on jobs (migration 39).
+ */
+
+import type {
+  DeliveryLine,
+  DeliveryPlan,
+  DeliveryRate,
+  SupplierDelivery
+} from '../pricing-system/utils/delivery-planning';
+
+export type { DeliveryLine, DeliveryPlan, DeliveryRate, SupplierDelivery };
+
+/**
+ * Supplier truck capacity and delivery fee
+ */
+export interface SupplierDeliveryRate {
+  id: string;
+  company_id: string;
+  supplier_name: string | null;              // null = default for other suppliers
+  max_load_lbs: number;
+  fee_per_load: number;
+  lead_days: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export type SupplierDeliveryRateInput = Pick<
+  SupplierDeliveryRate,
+  'supplier_name' | 'max_load_lbs' | 'fee_per_load' | 'lead_days'
+>;
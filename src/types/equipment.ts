@@ -0,0 +1,77 @@
+/**
+ * Equipment Catalog - TypeScript Types
+ *
+ * These types match the equipment_catalog, service_equipment_requirements
+ * and equipment_reservations tables (migration 30).
+ */
+
+import type { EquipmentOwnership, EquipmentShortage } from '../pricing-system/core/calculations/equipment-cost';
+
+export type { EquipmentOwnership, EquipmentShortage };
+
+/**
+ * Catalog item - a kind of equipment the company owns or rents
+ */
+export interface EquipmentItem {
+  id: string;
+  company_id: string;
+
+  name: string;                              // e.g. "Skid steer"
+  category?: string | null;                  // e.g. "Machinery", "Compaction", "Cutting"
+  ownership: EquipmentOwnership;
+  daily_rate: number;                        // Rental rate, or internal ownership rate for owned units
+  delivery_fee: number;                      // Per unit per job, rented only
+  quantity_owned: number;                    // Units available to reserve (owned only)
+
+  is_active: boolean;
+  notes?: string | null;
+
+  created_by?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type CreateEquipmentItemInput = Pick<EquipmentItem, 'company_id' | 'name' | 'ownership' | 'daily_rate'> &
+  Partial<Pick<EquipmentItem, 'category' | 'delivery_fee' | 'quantity_owned' | 'notes' | 'created_by'>>;
+
+export type UpdateEquipmentItemInput = Partial<Omit<CreateEquipmentItemInput, 'company_id' | 'created_by'>> & {
+  is_active?: boolean;
+};
+
+/**
+ * Equipment a service config needs, scaled by the job's days
+ */
+export interface ServiceEquipmentRequirement {
+  id: string;
+  company_id: string;
+  service_config_id: string;                 // svc_pricing_configs.id
+  equipment_id: string;
+  quantity: number;
+  day_fraction: number;                      // 1 = every job day, 0.5 = half of them
+  minimum_days: number;
+  created_at: string;
+  updated_at: string;
+
+  // Joined
+  equipment?: EquipmentItem;
+}
+
+export type CreateServiceEquipmentRequirementInput = Pick<
+  ServiceEquipmentRequirement,
+  'company_id' | 'service_config_id' | 'equipment_id' | 'quantity'
+> & Partial<Pick<ServiceEquipmentRequirement, 'day_fraction' | 'minimum_days'>>;
+
+/**
+ * Units of a catalog item held for a scheduled job assignment
+ */
+export interface EquipmentReservation {
+  id: string;
+  company_id: string;
+  equipment_id: string;
+  job_id: string;
+  assignment_id: string;
+  quantity: number;
+  reserved_start: string;                    // ISO 8601 timestamp (assignment start)
+  reserved_end: string;                      // ISO 8601 timestamp (assignment end)
+  created_at: string;
+}
@@ -0,0 +1,64 @@
+/**
+ * Material Inventory - TypeScript Types
+ *
+ * These types match the material_stock, material_stock_movements and
+ * material_stock_reservations tables (migration 37).
+ */
+
+import type {
+  JobStockLine,
+  LowStockAlert,
+  StockLevel,
+  StockMovementType
+} from '../pricing-system/utils/inventory';
+
+export type { JobStockLine, LowStockAlert, StockLevel, StockMovementType };
+
+/**
+ * Yard stock of one material, in its unit_type
+ */
+export interface MaterialStock {
+  id: string;
+  company_id: string;
+  material_id: string;
+  quantity_on_hand: number;                  // Kept from movements by trigger
+  reorder_point: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Stock ledger entry - signed quantity
+ */
+export interface MaterialStockMovement {
+  id: string;
+  company_id: string;
+  material_id: string;
+  movement_type: StockMovementType;
+  quantity: number;                          // + receipts, - consumption, ± adjustments
+  job_id: string | null;
+  purchase_order_id: string | null;
+  notes: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+/**
+ * Stock held for a scheduled or in-progress job
+ */
+export interface MaterialStockReservation {
+  id: string;
+  company_id: string;
+  material_id: string;
+  job_id: string;
+  quantity: number;
+  created_at: string;
+}
+
+/**
+ * Low-stock alert with the material's name for display
+ */
+export interface LowStockMaterial extends LowStockAlert {
+  materialName: string;
+  unitType: string;
+}
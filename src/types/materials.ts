@@ -5,6 +5,37 @@
  * and service_materials tables.
  */
 
+import type { PatioShape } from '../pricing-system/utils/patio-shape';
+import type { UnitSystem } from '../pricing-system/utils/unit-system';
+import type { PaverLayoutResult } from '../pricing-system/utils/paver-layout';
+
+/**
+ * How a category turns project size into material quantities
+ */
+export type MaterialCalculationMethod =
+  | 'volume_depth'
+  | 'area_coverage'
+  | 'linear_perimeter'
+  | 'paver_layout'
+  | 'weight_tonnage'
+  | 'piece_count';
+
+/**
+ * What piece_count spacing is measured along: the service quantity
+ * (one drain per 200 sqft) or the edge (one cap per linear foot)
+ */
+export type PieceSpacingBasis = 'per_unit' | 'per_linear_foot';
+
+/**
+ * How a category replaces a default material that has gone inactive
+ * (see material-substitution.ts)
+ */
+export type MaterialSubstitutionRule =
+  | 'same_grade'
+  | 'closest_price'
+  | 'compatible_thickness'
+  | 'none';
+
 /**
  * Material Category Definition
  *
@@ -20,8 +51,10 @@ export interface MaterialCategory {
   category_description: string | null;
   sort_order: number;
   is_required: boolean;
-  calculation_method: 'volume_depth' | 'area_coverage' | 'linear_perimeter';
+  calculation_method: MaterialCalculationMethod;
   default_depth_inches: number | null;
+  substitution_rule: MaterialSubstitutionRule;
+  catalog_category?: string | null;  // Company catalog category whose materials this one offers
   is_active: boolean;
   created_at: string;
   updated_at: string;
@@ -41,19 +74,22 @@ export interface ServiceMaterial {
   material_category: string;
   material_description: string | null;
   supplier_name: string | null;
+  supplier_sku: string | null;      // Supplier's item number - matched by price list imports
 
   // Images (Supabase Storage)
   image_url: string | null;
   image_thumbnail_url: string | null;
 
   // Pricing
-  unit_type: string;  // 'cubic_yard', 'square_foot', 'linear_foot', 'piece', 'pallet', 'bag'
+  unit_type: string;  // 'cubic_yard', 'ton', 'square_foot', 'linear_foot', 'piece', 'pallet', 'bag'
   price_per_unit: number;
   units_per_package: number | null;
 
   // Coverage
-  coverage_per_unit: number | null;
+  coverage_per_unit: number | null;           // piece_count: units (sqft or lf) per piece
   coverage_depth_inches: number | null;
+  density_tons_per_cubic_yard: number | null; // weight_tonnage: loose tons per cubic yard
+  piece_spacing_basis: PieceSpacingBasis | null;  // piece_count: per_unit (default) or per_linear_foot
 
   // Physical Properties
   length_inches: number | null;
@@ -71,6 +107,7 @@ export interface ServiceMaterial {
   material_grade: string | null;  // 'Standard', 'Premium', 'Economy', 'Luxury'
   color: string | null;
   finish: string | null;  // 'Smooth', 'Textured', 'Tumbled', etc.
+  catalog_material_id?: string | null;  // Company catalog material this row shares values with
 
   // Audit Fields
   created_by: string | null;
@@ -79,6 +116,80 @@ export interface ServiceMaterial {
   updated_at: string;
 }
 
+/**
+ * Company Catalog Material
+ *
+ * One product shared by every service that uses it (migration 41). Service
+ * rows linked to it copy its name, supplier, price and physical properties;
+ * see material-catalog.ts.
+ */
+export interface CatalogMaterial {
+  id: string;
+  company_id: string;
+  catalog_category: string;
+  material_name: string;
+  material_description: string | null;
+  supplier_name: string | null;
+  supplier_sku: string | null;
+  image_url: string | null;
+  image_thumbnail_url: string | null;
+  unit_type: string;
+  price_per_unit: number;
+  units_per_package: number | null;
+  density_tons_per_cubic_yard: number | null;
+  length_inches: number | null;
+  width_inches: number | null;
+  thickness_inches: number | null;
+  weight_lbs: number | null;
+  material_grade: string | null;
+  color: string | null;
+  finish: string | null;
+  is_active: boolean;
+  created_by: string | null;
+  updated_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Catalog material with the service rows that share it
+ */
+export interface CatalogMaterialWithLinks extends CatalogMaterial {
+  links: Array<Pick<ServiceMaterial, 'id' | 'service_config_id'>>;
+}
+
+/**
+ * Material Price History Entry
+ *
+ * One price a material has had - written when the price is first seeded,
+ * changed by a supplier price list import, or edited by hand.
+ */
+export interface MaterialPriceHistoryEntry {
+  id: string;
+  company_id: string;
+  material_id: string;
+  price_per_unit: number;
+  previous_price: number | null;
+  source: 'initial' | 'import' | 'manual' | 'adjustment' | 'catalog';
+  import_batch_id: string | null;   // Shared by every change from one import
+  change_set_id?: string | null;    // Bulk price adjustment (migration 40)
+  file_name: string | null;
+  changed_by: string | null;
+  created_at: string;
+}
+
+/**
+ * Material Substitution
+ *
+ * An inactive material replaced by an active one from the same category.
+ */
+export interface MaterialSubstitution {
+  originalMaterialId: string;
+  originalMaterialName: string;
+  rule: MaterialSubstitutionRule;
+  note: string;                     // "Substituted X for Y (closest price)"
+}
+
 /**
  * Material Selection State
  *
@@ -125,6 +236,9 @@ export interface MaterialQuantityResult {
   // Applied factors
   wasteFactorPercent: number;       // Waste factor used in calculation
   compactionFactorPercent: number;  // Compaction factor used (if applicable)
+
+  // Piece counts (paver_layout only)
+  layout?: PaverLayoutResult;
 }
 
 /**
@@ -137,13 +251,16 @@ export interface CategoryCalculationResult {
   categoryLabel: string;
   materialId: string;
   materialName: string;
-  calculationMethod: 'volume_depth' | 'area_coverage' | 'linear_perimeter';
+  calculationMethod: MaterialCalculationMethod;
 
   // Detailed quantity breakdown with unit conversion
   quantities: MaterialQuantityResult;
 
   // Cost
   subtotal: number;
+
+  // Set when the quoted material stood in for an inactive one
+  substitution?: MaterialSubstitution;
 }
 
 /**
@@ -155,6 +272,9 @@ export interface MaterialCalculationInput {
   squareFootage: number;
   selectedMaterials?: Record<string, string>; // categoryKey → materialId (optional, uses defaults if not provided)
   customPerimeter?: number;                    // Optional user override for linear calculations
+  shape?: PatioShape;                          // Measured shape - exact perimeter when no override
+  unitSystem?: UnitSystem;                     // Units for quantityDisplay (quantities stay imperial)
+  layoutPattern?: string;                      // Laying pattern for paver_layout categories (running bond default)
 }
 
 /**
@@ -171,6 +291,7 @@ export interface MaterialCalculationResult {
     [categoryKey: string]: {
       unitsNeeded: number;          // e.g., 6.1
       unitLabel: string;            // e.g., "sections"
+      calculationMethod: MaterialCalculationMethod;  // What unitsNeeded counts (tons, pieces...)
       displayText: string;          // e.g., "6.1 sections (48.4 linear feet)"
     };
   };
@@ -0,0 +1,83 @@
+/**
+ * Bulk Price Adjustments - TypeScript Types
+ *
+ * These types match the svc_price_change_sets and
+ * svc_price_change_set_items tables (migration 40).
+ */
+
+import type {
+  AdjustableLaborRate,
+  AdjustableMaterial,
+  PriceAdjustment,
+  PriceAdjustmentFilters,
+  PriceAdjustmentMode,
+  PriceAdjustmentScope,
+  PriceChangeItem,
+  QuoteImpact
+} from '../pricing-system/utils/bulk-price-adjustment';
+
+export type {
+  AdjustableLaborRate,
+  AdjustableMaterial,
+  PriceAdjustment,
+  PriceAdjustmentFilters,
+  PriceAdjustmentMode,
+  PriceAdjustmentScope,
+  PriceChangeItem,
+  QuoteImpact
+};
+
+/**
+ * One applied bulk adjustment
+ */
+export interface PriceChangeSet {
+  id: string;
+  company_id: string;
+
+  description: string;
+  adjustment_mode: PriceAdjustmentMode;
+  adjustment_amount: number;
+  scope: PriceAdjustmentScope;
+  filters: PriceAdjustmentFilters;
+  material_count: number;
+  labor_rate_count: number;
+
+  created_by: string | null;
+  created_at: string;
+
+  // Joined
+  author?: {
+    name: string | null;
+    email: string | null;
+  } | null;
+  items?: PriceChangeSetItem[];
+}
+
+/**
+ * A value a change set changed
+ */
+export interface PriceChangeSetItem {
+  id: string;
+  change_set_id: string;
+  company_id: string;
+  item_type: PriceChangeItem['itemType'];
+  material_id: string | null;                // svc_materials.id (null once deleted)
+  config_id: string | null;                  // svc_pricing_configs.id for labor rates
+  label: string;
+  old_value: number;
+  new_value: number;
+}
+
+/**
+ * What a bulk adjustment can touch, for the filters and the preview
+ */
+export interface PriceAdjustmentTargets {
+  materials: AdjustableMaterial[];
+  laborRates: AdjustableLaborRate[];
+  categories: Array<{ service_config_id: string; category_key: string; category_label: string }>;
+}
+
+export interface PriceAdjustmentPreview {
+  items: PriceChangeItem[];
+  quoteImpact: QuoteImpact[];
+}
@@ -0,0 +1,56 @@
+/**
+ * Seasonal Pricing Calendar - TypeScript Types
+ *
+ * These types match the pricing_calendar_periods table and the
+ * backlog_surcharge column on companies (migration 31). The engine-side
+ * shapes live in seasonal-pricing.ts.
+ */
+
+import type { BacklogSurchargeRule } from '../pricing-system/core/calculations/seasonal-pricing';
+
+export type {
+  BacklogSurchargeRule,
+  BacklogSurchargeTier,
+  SeasonalAdjustment
+} from '../pricing-system/core/calculations/seasonal-pricing';
+
+/**
+ * Date-ranged margin / labor rate adjustment
+ */
+export interface PricingCalendarPeriodRow {
+  id: string;
+  company_id: string;
+  name: string;
+  start_date: string;                  // YYYY-MM-DD
+  end_date: string;                    // YYYY-MM-DD, inclusive
+  recurring: boolean;                  // Same month/day range every year
+  margin_adjustment: number;           // Decimal points, 0.05 = +5 pts
+  labor_rate_adjustment: number;       // Percent, 10 = +10%
+  is_active: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreatePricingCalendarPeriodInput {
+  company_id: string;
+  name: string;
+  start_date: string;
+  end_date: string;
+  recurring?: boolean;
+  margin_adjustment?: number;
+  labor_rate_adjustment?: number;
+  created_by?: string | null;
+}
+
+export type UpdatePricingCalendarPeriodInput = Partial<Omit<CreatePricingCalendarPeriodInput, 'company_id' | 'created_by'>> & {
+  is_active?: boolean;
+};
+
+/**
+ * Company calendar as shown in settings
+ */
+export interface CompanyPricingCalendar {
+  periods: PricingCalendarPeriodRow[];
+  backlogRule: BacklogSurchargeRule | null;
+}
@@ -0,0 +1,67 @@
+/**
+ * Pricing Configuration History - TypeScript Types
+ *
+ * These types match the svc_pricing_config_revisions table
+ * (migration 23) and the field-level diff shown in the Services tab.
+ */
+
+/**
+ * Pricing Config Revision
+ *
+ * Immutable snapshot of a svc_pricing_configs row, written by trigger on
+ * every save. Rolling back creates a NEW revision that points at the
+ * revision it restored.
+ */
+export interface PricingConfigRevision {
+  id: string;
+  config_id: string;
+  company_id: string;
+  service_name: string;
+  revision_number: number;
+
+  // Snapshot of pricing columns
+  hourly_labor_rate: number;
+  optimal_team_size: number;
+  base_productivity: number;
+  base_material_cost: number;
+  profit_margin: number;
+  variables_config: Record<string, any>;
+  default_variables: Record<string, any>;
+  pricing_rules: Record<string, any>;        // Migration 26 - minimum charge, margin floor, volume discounts
+  version: string | null;
+
+  // Audit
+  created_by: string | null;
+  created_at: string;
+  restored_from_revision_id: string | null;
+
+  // Joined author (users table)
+  author?: {
+    name: string | null;
+    email: string | null;
+  } | null;
+}
+
+/**
+ * Single field difference between two revisions
+ *
+ * path uses dot notation, e.g. 'hourly_labor_rate' or
+ * 'variables_config.materials.paverStyle.options.premium.value'
+ */
+export interface ConfigFieldChange {
+  path: string;
+  type: 'added' | 'removed' | 'changed';
+  before?: unknown;
+  after?: unknown;
+}
+
+/**
+ * Line-by-line change between a frozen quote calculation and a re-price
+ */
+export interface PricingLineDelta {
+  key: 'labor' | 'materials' | 'excavation' | 'bundled' | 'equipment' | 'obstacles' | 'profit' | 'total';
+  label: string;
+  before: number;
+  after: number;
+  delta: number;
+}
@@ -0,0 +1,58 @@
+/**
+ * Purchase Orders - TypeScript Types
+ *
+ * These types match the purchase_orders and purchase_order_lines tables
+ * (migration 36).
+ */
+
+import type { PurchaseOrderStatus } from '../pricing-system/utils/purchase-orders';
+
+export type { PurchaseOrderStatus };
+
+/**
+ * One supplier order covering the materials of one or more jobs
+ */
+export interface PurchaseOrder {
+  id: string;
+  company_id: string;
+
+  po_number: string;                         // PO-YYYY-NNNN
+  supplier_name: string | null;              // null: materials without a supplier
+  status: PurchaseOrderStatus;
+  job_ids: string[];                         // Jobs the order was generated from
+  subtotal: number;
+  notes?: string | null;
+
+  sent_at?: string | null;
+  received_at?: string | null;
+
+  created_by?: string | null;
+  created_at: string;
+  updated_at: string;
+
+  // Joined
+  lines?: PurchaseOrderLine[];
+}
+
+/**
+ * A material on a purchase order, rounded to what the supplier sells
+ */
+export interface PurchaseOrderLine {
+  id: string;
+  purchase_order_id: string;
+  material_id: string | null;                // svc_materials.id (null once deleted)
+
+  material_name: string;
+  supplier_sku: string | null;
+  unit_type: string;
+  unit_label: string;                        // "cubic yards", "pallets"
+  quantity_needed: number;                   // Sum of the jobs' purchase units
+  quantity_ordered: number;                  // Rounded to packages / whole units
+  units_per_package: number | null;
+  packages: number | null;
+  unit_cost: number;
+  line_total: number;
+  job_ids: string[];
+
+  created_at: string;
+}
@@ -0,0 +1,86 @@
+/**
+ * Good / Better / Best Quote Options - TypeScript Types
+ *
+ * These types match the quote_tier_recipes table and the option columns
+ * on job_services (migration 27).
+ */
+
+import type { JobService } from './crm';
+
+/**
+ * One tier of a recipe, applied on top of the base pricing input
+ */
+export interface QuoteTierDefinition {
+  key: string;                               // 'good' | 'better' | 'best' or any company key
+  label: string;                             // Shown to the customer
+  description?: string;
+
+  // category → variable → value, e.g. { materials: { paverStyle: 'premium' } }
+  variableOverrides?: Record<string, Record<string, string | number | boolean>>;
+
+  // Pick the material with this ServiceMaterial.material_grade in every category
+  materialGrade?: string | null;
+}
+
+/**
+ * Quote Tier Recipe
+ *
+ * Company-defined set of tiers for one service config.
+ */
+export interface QuoteTierRecipe {
+  id: string;
+  company_id: string;
+  service_config_id: string;
+
+  name: string;
+  tiers: QuoteTierDefinition[];
+  recommended_tier: string | null;
+  is_default: boolean;
+
+  is_active: boolean;
+
+  created_by?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type CreateQuoteTierRecipeInput = Pick<QuoteTierRecipe, 'company_id' | 'service_config_id' | 'name' | 'tiers'> &
+  Partial<Pick<QuoteTierRecipe, 'recommended_tier' | 'is_default' | 'created_by'>>;
+
+export type UpdateQuoteTierRecipeInput = Partial<Pick<
+  QuoteTierRecipe,
+  'name' | 'tiers' | 'recommended_tier' | 'is_default' | 'is_active'
+>>;
+
+/**
+ * Pricing input derived for one tier
+ */
+export interface DerivedQuoteTier {
+  tier: QuoteTierDefinition;
+  pricingVariables: Record<string, any>;
+  unmatchedGradeCategories: string[];        // Categories with no material of the tier's grade (default kept)
+}
+
+/**
+ * Input for generating options on a quote
+ */
+export interface CreateQuoteOptionsInput {
+  service_config_id: string;
+  service_name: string;
+  service_description?: string | null;
+  quantity?: number;
+  pricing_variables: Record<string, any>;    // Base input the tiers are derived from
+  recipe_id?: string;                        // Defaults to the service's default recipe
+  added_by_user_id: string;
+}
+
+/**
+ * Alternative lines generated together on a quote
+ */
+export interface QuoteOptionSet {
+  option_group_id: string;
+  job_id: string;
+  recipe_id: string | null;                  // null = DEFAULT_QUOTE_TIERS
+  selected_tier: string;
+  options: JobService[];                     // In recipe order
+}
@@ -0,0 +1,99 @@
+/**
+ * Sales Tax - TypeScript Types
+ *
+ * These types match the tax_jurisdictions table and the tax columns on
+ * jobs (migration 25). Rates are maintained by each company - there is no
+ * live tax API.
+ */
+
+/**
+ * Price components a jurisdiction can tax independently
+ * (same components the pricing engine breaks a line into)
+ */
+export type TaxComponent = 'labor' | 'materials' | 'excavation' | 'equipment' | 'obstacles' | 'other';
+
+/**
+ * Tax Jurisdiction
+ *
+ * Matched to a job by service_zip first, then by the state-wide row
+ * (zip_code null) for service_state.
+ */
+export interface TaxJurisdiction {
+  id: string;
+  company_id: string;
+
+  name: string;
+  state_code: string;                        // USPS code, e.g. 'TX'
+  zip_code: string | null;                   // null = state-wide default
+  rate: number;                              // Decimal, 0.0825 = 8.25%
+
+  // Per-component taxability
+  labor_taxable: boolean;
+  materials_taxable: boolean;
+  excavation_taxable: boolean;
+  equipment_taxable: boolean;
+  obstacles_taxable: boolean;
+  other_taxable: boolean;                    // Manually priced lines with no breakdown
+
+  is_active: boolean;
+  notes?: string | null;
+
+  created_by?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type CreateTaxJurisdictionInput = Pick<TaxJurisdiction, 'company_id' | 'name' | 'state_code' | 'rate'> &
+  Partial<Pick<
+    TaxJurisdiction,
+    | 'zip_code'
+    | 'labor_taxable'
+    | 'materials_taxable'
+    | 'excavation_taxable'
+    | 'equipment_taxable'
+    | 'obstacles_taxable'
+    | 'other_taxable'
+    | 'notes'
+    | 'created_by'
+  >>;
+
+export type UpdateTaxJurisdictionInput = Partial<Omit<CreateTaxJurisdictionInput, 'company_id' | 'created_by'>> & {
+  is_active?: boolean;
+};
+
+/**
+ * Service location used to pick a jurisdiction
+ */
+export interface TaxLocation {
+  zip?: string | null;
+  state?: string | null;
+}
+
+/**
+ * Pre-tax selling price per component (profit markup included)
+ */
+export type TaxableAmounts = Partial<Record<TaxComponent, number>>;
+
+/**
+ * One tax line on an estimate, quote or invoice
+ */
+export interface TaxLine {
+  component: TaxComponent;
+  label: string;
+  amount: number;                            // Pre-tax selling price of the component
+  taxable: boolean;
+  rate: number;                              // 0 when not taxable
+  tax: number;
+}
+
+/**
+ * Tax for an estimate or job
+ */
+export interface SalesTaxResult {
+  jurisdictionId: string | null;
+  jurisdictionName: string | null;
+  rate: number;
+  lines: TaxLine[];
+  taxableAmount: number;
+  taxTotal: number;
+}
@@ -0,0 +1,53 @@
+/**
+ * Travel & Mobilization - TypeScript Types
+ *
+ * These types match the shop location and travel_rules columns on
+ * companies, the zip_code_centroids reference table and the travel columns
+ * on jobs (migration 29). Distances are computed offline from zip
+ * centroids - there is no live mapping API.
+ */
+
+import type { TravelCostResult, TravelRule } from '../pricing-system/core/calculations/travel-cost';
+
+/**
+ * Company shop - where crews and equipment leave from
+ * Coordinates are filled from the shop zip's centroid when not set
+ */
+export interface ShopLocation {
+  shop_address: string | null;
+  shop_city: string | null;
+  shop_state: string | null;
+  shop_zip: string | null;
+  shop_latitude: number | null;
+  shop_longitude: number | null;
+}
+
+export type UpdateShopLocationInput = Partial<ShopLocation>;
+
+/**
+ * Company travel settings as loaded for pricing
+ */
+export interface CompanyTravelSettings {
+  shop: ShopLocation;
+  rule: TravelRule;
+}
+
+/**
+ * Row of the zip_code_centroids reference table (Census ZCTA gazetteer)
+ */
+export interface ZipCodeCentroid {
+  zip_code: string;
+  latitude: number;
+  longitude: number;
+  city: string | null;
+  state_code: string | null;
+}
+
+/**
+ * Job-level travel line - one shop-to-site charge for the whole job,
+ * with round trips from the summed days of its priced services
+ */
+export interface JobTravel extends TravelCostResult {
+  siteZip: string;
+  totalDays: number;
+}
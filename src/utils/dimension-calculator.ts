@@ -3,8 +3,29 @@
  * 
  * Handles dimension inputs like "15 by 10 patio" → 150 sqft calculations
  * Provides barebones input parsing with auto-unit detection
+ *
+ * Irregular patios ("L-shaped 20x12 and 10x8", "14 ft circle", "20x12 with
+ * 2 ft radius corners") are returned as a PatioShape with exact area and
+ * perimeter (patio-shape.ts)
+ *
+ * Metric input ("6 m x 4 m", "25 m²", or bare numbers for a metric company)
+ * is converted to feet / sqft here, so results are always canonical units
  */
 
+import {
+  measurePatioShape,
+  rectangleShape,
+  scalePatioShape,
+  validatePatioShape,
+  type PatioShape,
+  type ShapePart
+} from '../pricing-system/utils/patio-shape';
+import {
+  DEFAULT_UNIT_SYSTEM,
+  toCanonicalUnits,
+  type UnitSystem
+} from '../pricing-system/utils/unit-system';
+
 export interface DimensionResult {
   quantity: number;
   unit: 'sqft' | 'linear_feet' | 'each' | 'cubic_yards';
@@ -13,6 +34,9 @@ export interface DimensionResult {
     width: number;
     area?: number;
   };
+  shape?: PatioShape;       // Outline for area measurements
+  perimeter?: number;       // Exact edge of the shape, linear feet
+  unitSystem?: UnitSystem;  // Units the text was measured in (result is always feet / sqft)
   confidence: number;
   calculationType: 'area' | 'linear' | 'count' | 'single';
   originalText: string;
@@ -56,13 +80,46 @@ export class DimensionCalculator {
     /(\d+(?:\.\d+)?)\s*(?:square\s*)?(?:feet|foot|ft\.?|sqft|sq\.?\s*ft\.?)/gi
   ];
 
+  /**
+   * Shape wording - a number followed by the feature it sizes
+   */
+  private static readonly NUMBER = '(\\d+(?:\\.\\d+)?)\\s*(?:feet|foot|ft\\.?|\'|-foot|-ft)?';
+  private static readonly CIRCLE_PATTERN = new RegExp(`${DimensionCalculator.NUMBER}\\s*(?:diameter\\s+|wide\\s+|across\\s+)?(?:circle|circular|round)`, 'i');
+  private static readonly RADIUS_CIRCLE_PATTERN = new RegExp(`${DimensionCalculator.NUMBER}\\s*radius\\s+(?:circle|circular|round)`, 'i');
+  private static readonly HALF_CIRCLE_PATTERN = new RegExp(`${DimensionCalculator.NUMBER}\\s*(?:half[-\\s]?circle|semi[-\\s]?circle|half[-\\s]?round)`, 'i');
+  private static readonly CORNER_RADIUS_PATTERN = new RegExp(`${DimensionCalculator.NUMBER}\\s*(?:radius|rounded|round)\\s+corners?`, 'i');
+  private static readonly JOINED_SHAPE_PATTERN = /\b[LT][-\s]?shaped?\b/i;
+
+  /**
+   * Metric wording - rewritten to ft / sqft before matching, then converted
+   */
+  private static readonly METRIC_AREA_PATTERN = /(\d+(?:\.\d+)?)\s*(?:m²|m2\b|sq\.?\s*m\b|sqm\b|square\s*met(?:er|re)s?)/gi;
+  private static readonly METRIC_LENGTH_PATTERN = /(\d+(?:\.\d+)?)\s*(?:met(?:er|re)s?|m)\b(?![²2])/gi;
+  private static readonly IMPERIAL_UNIT_PATTERN = /\d\s*(?:feet|foot|ft\b|'|sq\.?\s*ft|sqft|square\s*f)/i;
+
   /**
    * Main parsing function - analyzes text and returns dimension calculations
    */
-  static parse(text: string, serviceName?: string): DimensionResult | null {
+  static parse(
+    text: string,
+    serviceName?: string,
+    unitSystem: UnitSystem = DEFAULT_UNIT_SYSTEM
+  ): DimensionResult | null {
     const originalText = text.trim();
     console.log(`📐 DIMENSION CALCULATOR: Parsing "${originalText}" for service "${serviceName || 'unknown'}"`);
 
+    if (this.isMetricInput(text, unitSystem)) {
+      const result = this.parse(this.toImperialWording(text), serviceName, 'imperial');
+      return result && { ...this.fromMetric(result, text), originalText };
+    }
+
+    // Irregular shapes before plain rectangles - "L-shaped 20x12 and 10x8" holds two
+    const shapeResult = this.parseShape(text, serviceName);
+    if (shapeResult) {
+      console.log(`✅ SHAPE FOUND: ${shapeResult.shape?.parts.length} part(s) = ${shapeResult.quantity} ${shapeResult.unit}, ${shapeResult.perimeter} lf edge`);
+      return { ...shapeResult, originalText };
+    }
+
     // Try dimension patterns first (highest priority)
     const dimensionResult = this.parseDimensions(text, serviceName);
     if (dimensionResult) {
@@ -102,6 +159,7 @@ export class DimensionCalculator {
             quantity: area,
             unit,
             dimensions: { length, width, area },
+            ...(unit === 'sqft' && { shape: rectangleShape(length, width), perimeter: 2 * (length + width) }),
             confidence: 0.95,
             calculationType: 'area',
             originalText: text
@@ -113,6 +171,89 @@ export class DimensionCalculator {
     return null;
   }
 
+  /**
+   * Parse irregular patio shapes:
+   * - "14 ft circle", "7 ft radius circle"
+   * - "L-shaped 20x12 and 10x8" - the second rectangle joins the first along
+   *   its first dimension (10 ft)
+   * - "20x12 with 2 ft radius corners"
+   * - "20x12 with a 12 ft half circle" - the half circle sits on its diameter
+   *
+   * Plain "L x W" rectangles are left to parseDimensions.
+   */
+  static parseShape(
+    text: string,
+    serviceName?: string,
+    unitSystem: UnitSystem = DEFAULT_UNIT_SYSTEM
+  ): DimensionResult | null {
+    if (this.isMetricInput(text, unitSystem)) {
+      const result = this.parseShape(this.toImperialWording(text), serviceName, 'imperial');
+      return result && { ...this.fromMetric(result, text), originalText: text };
+    }
+
+    const rectangles = Array.from(text.matchAll(this.DIMENSION_PATTERNS[0]))
+      .map(match => ({ length: parseFloat(match[1]), width: parseFloat(match[2]) }))
+      .filter(rect => this.validateDimensions(rect.length, rect.width));
+
+    const parts: ShapePart[] = [];
+
+    if (rectangles.length === 0) {
+      const diameter = text.match(this.CIRCLE_PATTERN);
+      const radius = text.match(this.RADIUS_CIRCLE_PATTERN);
+      if (radius) {
+        parts.push({ type: 'circle', diameter: parseFloat(radius[1]) * 2 });
+      } else if (diameter) {
+        parts.push({ type: 'circle', diameter: parseFloat(diameter[1]) });
+      }
+    } else {
+      const [main, ...others] = rectangles;
+      const cornerRadius = text.match(this.CORNER_RADIUS_PATTERN);
+      parts.push({
+        type: 'rectangle',
+        ...main,
+        ...(cornerRadius && { cornerRadius: parseFloat(cornerRadius[1]) })
+      });
+
+      if (this.JOINED_SHAPE_PATTERN.test(text)) {
+        const longestSide = Math.max(main.length, main.width);
+        others.forEach(rect => parts.push({
+          type: 'rectangle',
+          ...rect,
+          sharedEdge: Math.min(rect.length, longestSide)
+        }));
+      }
+
+      const halfCircle = text.match(this.HALF_CIRCLE_PATTERN);
+      if (halfCircle) {
+        const diameter = parseFloat(halfCircle[1]);
+        parts.push({ type: 'arc', radius: diameter / 2, angle: 180, sharedEdge: diameter });
+      }
+
+      // A single plain rectangle is not an irregular shape
+      if (parts.length === 1 && !cornerRadius) return null;
+    }
+
+    if (parts.length === 0) return null;
+
+    const shape: PatioShape = { parts };
+    const problem = validatePatioShape(shape);
+    if (problem) {
+      console.log(`⚠️ SHAPE IGNORED: ${problem}`);
+      return null;
+    }
+
+    const { area, perimeter } = measurePatioShape(shape);
+    return {
+      quantity: area,
+      unit: this.determineUnit(serviceName, 'area'),
+      shape,
+      perimeter,
+      confidence: 0.9,
+      calculationType: 'area',
+      originalText: text
+    };
+  }
+
   /**
    * Parse single measurements like "50 feet", "200 square feet"
    */
@@ -152,6 +293,69 @@ export class DimensionCalculator {
     return null;
   }
 
+  /**
+   * Whether the text is measured in metres - explicit metric units always
+   * are, bare numbers follow the company unit system unless feet are named
+   */
+  static isMetricInput(text: string, unitSystem: UnitSystem = DEFAULT_UNIT_SYSTEM): boolean {
+    const metricWords = new RegExp(this.METRIC_AREA_PATTERN.source, 'i').test(text)
+      || new RegExp(this.METRIC_LENGTH_PATTERN.source, 'i').test(text);
+    if (metricWords) return true;
+    return unitSystem === 'metric' && !this.IMPERIAL_UNIT_PATTERN.test(text);
+  }
+
+  /**
+   * "6 m x 4 m" → "6 ft x 4 ft", "25 m²" → "25 sqft" - numbers unchanged,
+   * fromMetric converts the result
+   */
+  private static toImperialWording(text: string): string {
+    return text
+      .replace(this.METRIC_AREA_PATTERN, '$1 sqft')
+      .replace(this.METRIC_LENGTH_PATTERN, '$1 ft');
+  }
+
+  /**
+   * Result parsed from metric numbers → feet / sqft
+   * Shapes are scaled and re-measured, so they round like imperial shapes.
+   * A single "15 m" is a length.
+   */
+  private static fromMetric(result: DimensionResult, metricText: string): DimensionResult {
+    const round = (value: number) => Math.round(value * 100) / 100;
+    const feet = (metres: number) => toCanonicalUnits(metres, 'length', 'metric');
+    const sqft = (squareMetres: number) => round(toCanonicalUnits(squareMetres, 'area', 'metric'));
+
+    const converted: DimensionResult = { ...result, unitSystem: 'metric' };
+
+    if (result.dimensions) {
+      const { length, width } = result.dimensions;
+      converted.dimensions = { length: round(feet(length)), width: round(feet(width)), area: sqft(length * width) };
+    }
+
+    if (result.shape) {
+      const shape = scalePatioShape(result.shape, feet(1));
+      const { area, perimeter } = measurePatioShape(shape);
+      return { ...converted, shape, perimeter, quantity: area };
+    }
+
+    switch (result.calculationType) {
+      case 'area':
+        converted.quantity = sqft(result.quantity);
+        break;
+      case 'single':
+        if (new RegExp(this.METRIC_AREA_PATTERN.source, 'i').test(metricText)) {
+          converted.quantity = sqft(result.quantity);
+        } else {
+          converted.quantity = round(feet(result.quantity));
+          converted.calculationType = 'linear';
+        }
+        break;
+      case 'linear':
+        converted.quantity = round(feet(result.quantity));
+        break;
+    }
+    return converted;
+  }
+
   /**
    * Determine the appropriate unit based on service type and measurement type
    */
@@ -226,13 +430,13 @@ export class DimensionCalculator {
     );
     
     if (hasDimensions) {
-      suggestions.push("What type of service is this for? (patio, mulch, edging, etc.)");
+      suggestions.push('What type of service is this for? (patio, mulch, edging, etc.)');
     }
     
     // Check if numbers exist but no clear measurement
     const hasNumbers = /\d+/.test(text);
     if (hasNumbers && !hasDimensions) {
-      suggestions.push("Please specify the measurement type (square feet, linear feet, etc.)");
+      suggestions.push('Please specify the measurement type (square feet, linear feet, etc.)');
     }
     
     return suggestions;
@@ -250,9 +454,12 @@ export class DimensionCalculator {
       if (result.dimensions) {
         console.log(`   Dimensions: ${result.dimensions.length} x ${result.dimensions.width}`);
       }
+      if (result.perimeter !== undefined) {
+        console.log(`   Perimeter: ${result.perimeter} linear feet`);
+      }
       console.log(`   Type: ${result.calculationType}`);
     } else {
-      console.log(`❌ No dimensions found`);
+      console.log('❌ No dimensions found');
       const suggestions = this.getSuggestions(input);
       if (suggestions.length > 0) {
         console.log(`💡 Suggestions: ${suggestions.join(', ')}`);
@@ -269,7 +476,11 @@ if (process.argv[1] && process.argv[1].endsWith('dimension-calculator.ts')) {
     { input: '12 foot by 8 foot mulch area', service: 'Triple Ground Mulch (SQFT)' },
     { input: '50 feet of edging', service: 'Metal Edging' },
     { input: '200 square feet mulch', service: 'Triple Ground Mulch (SQFT)' },
-    { input: 'mulch 12x8 area', service: 'Triple Ground Mulch (SQFT)' }
+    { input: 'mulch 12x8 area', service: 'Triple Ground Mulch (SQFT)' },
+    { input: 'L-shaped patio 20x12 and 10x8', service: 'Paver Patio (SQFT)' },
+    { input: '14 ft circle patio', service: 'Paver Patio (SQFT)' },
+    { input: '6 m x 4 m patio', service: 'Paver Patio (SQFT)' },
+    { input: '25 m² mulch', service: 'Triple Ground Mulch (SQFT)' }
   ];
   
   console.log('🧪 DIMENSION CALCULATOR TEST SUITE');
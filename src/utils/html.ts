@@ -0,0 +1,13 @@
+/**
+ * HTML Utilities
+ * Helpers for the printable documents built as HTML strings (purchase orders, quotes)
+ */
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
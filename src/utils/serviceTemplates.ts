@@ -7,15 +7,19 @@
  * Usage:
  * 1. Select a template that matches your service type
  * 2. Customize variable names, labels, and default values
+ *    (select variables declare effectType + calculationTier so the
+ *    master pricing engine can interpret them - see formula-interpreter.ts)
  * 3. Validate using validateVariablesConfig()
  * 4. Insert into service_pricing_configs table
  */
 
+import { DEFAULT_PRODUCTIVITY_CURVE } from '../pricing-system/core/calculations/excavation-productivity';
+
 /**
  * VOLUME_BASED Template
  *
  * For services that calculate based on cubic volume (excavation, fill, etc.)
- * Includes: depth settings, waste/compaction factors, rounding rules
+ * Includes: depth settings, waste/compaction factors, rounding rules, productivity curve
  */
 export const VOLUME_BASED_TEMPLATE = {
   calculationSettings: {
@@ -67,6 +71,14 @@ export const VOLUME_BASED_TEMPLATE = {
       },
       adminEditable: true,
     },
+
+    productivityCurve: {
+      type: 'curve',
+      label: 'Productivity Curve',
+      description: 'Hours = cubic yards / equipment rate × depth factor × access factor',
+      default: DEFAULT_PRODUCTIVITY_CURVE,
+      adminEditable: true,
+    },
   },
 };
 
@@ -83,6 +95,8 @@ export const AREA_COMPLEXITY_TEMPLATE = {
 
     tearoutComplexity: {
       type: 'select',
+      effectType: 'labor_time_percentage',
+      calculationTier: 1,
       label: 'Tearout Complexity',
       description: 'Difficulty of removing existing surface',
       default: 'grass',
@@ -96,6 +110,8 @@ export const AREA_COMPLEXITY_TEMPLATE = {
 
     equipmentRequired: {
       type: 'select',
+      effectType: 'daily_equipment_cost',
+      calculationTier: 2,
       label: 'Equipment Required',
       description: 'Equipment needed for the job',
       default: 'handTools',
@@ -114,6 +130,8 @@ export const AREA_COMPLEXITY_TEMPLATE = {
 
     materialGrade: {
       type: 'select',
+      effectType: 'material_cost_multiplier',
+      calculationTier: 2,
       label: 'Material Grade',
       description: 'Quality level of materials',
       default: 'standard',
@@ -126,6 +144,8 @@ export const AREA_COMPLEXITY_TEMPLATE = {
 
     cuttingComplexity: {
       type: 'select',
+      effectType: 'labor_time_percentage',
+      calculationTier: 1,
       label: 'Cutting Complexity',
       description: 'Amount of cutting and fitting required',
       default: 'minimal',
@@ -144,6 +164,8 @@ export const AREA_COMPLEXITY_TEMPLATE = {
 
     teamSize: {
       type: 'select',
+      effectType: 'labor_time_percentage',
+      calculationTier: 1,
       label: 'Team Size',
       description: 'Number of workers on the job',
       default: 'threePlus',
@@ -161,6 +183,8 @@ export const AREA_COMPLEXITY_TEMPLATE = {
 
     accessDifficulty: {
       type: 'select',
+      effectType: 'labor_time_percentage',
+      calculationTier: 1,
       label: 'Access Difficulty',
       description: 'Difficulty of accessing the work area',
       default: 'easy',
@@ -174,6 +198,8 @@ export const AREA_COMPLEXITY_TEMPLATE = {
 
     obstacleRemoval: {
       type: 'select',
+      effectType: 'flat_additional_cost',
+      calculationTier: 2,
       label: 'Obstacle Removal',
       description: 'Cost of removing obstacles from site',
       default: 'none',
@@ -192,6 +218,8 @@ export const AREA_COMPLEXITY_TEMPLATE = {
 
     overallComplexity: {
       type: 'select',
+      effectType: 'total_project_multiplier',
+      calculationTier: 2,
       label: 'Overall Complexity',
       description: 'Final complexity multiplier applied to total cost',
       default: 'standard',
@@ -230,6 +258,8 @@ export const SIMPLE_HOURLY_TEMPLATE = {
 
     skillLevel: {
       type: 'select',
+      effectType: 'labor_time_percentage',
+      calculationTier: 1,
       label: 'Skill Level Required',
       description: 'Experience level needed for this service',
       default: 'standard',
@@ -248,6 +278,8 @@ export const SIMPLE_HOURLY_TEMPLATE = {
 
     urgency: {
       type: 'select',
+      effectType: 'total_project_multiplier',
+      calculationTier: 2,
       label: 'Urgency Multiplier',
       description: 'Additional charge for expedited service',
       default: 'standard',
@@ -301,6 +333,8 @@ export const LINEAR_MEASUREMENT_TEMPLATE = {
 
     materialType: {
       type: 'select',
+      effectType: 'material_cost_multiplier',
+      calculationTier: 2,
       label: 'Material Type',
       description: 'Type of material used',
       default: 'standard',
@@ -319,6 +353,8 @@ export const LINEAR_MEASUREMENT_TEMPLATE = {
 
     terrainDifficulty: {
       type: 'select',
+      effectType: 'labor_time_percentage',
+      calculationTier: 1,
       label: 'Terrain Difficulty',
       description: 'Difficulty of terrain for installation',
       default: 'flat',
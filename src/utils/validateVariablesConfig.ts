@@ -10,7 +10,7 @@
  *     "label": "Category Display Name",      // Required
  *     "description": "Category desc",         // Optional
  *     "variableName": {
- *       "type": "number|select|slider",       // Required
+ *       "type": "number|select|slider|curve", // Required
  *       "label": "Display Label",             // Required
  *       "description": "Help text",           // Optional
  *       "default": value,                     // Required
@@ -84,8 +84,8 @@ export function validateVariablesConfig(config: any): ValidationResult {
       // Check: Must have type
       if (!variable.type) {
         errors.push(`Variable '${varPath}' missing required 'type' field`);
-      } else if (!['number', 'select', 'slider'].includes(variable.type)) {
-        errors.push(`Variable '${varPath}' has invalid type '${variable.type}'. Must be 'number', 'select', or 'slider'`);
+      } else if (!['number', 'select', 'slider', 'curve'].includes(variable.type)) {
+        errors.push(`Variable '${varPath}' has invalid type '${variable.type}'. Must be 'number', 'select', 'slider', or 'curve'`);
       }
 
       // Check: Must have label
@@ -180,6 +180,14 @@ export function validateVariablesConfig(config: any): ValidationResult {
         }
       }
 
+      if (variable.type === 'curve') {
+        // Check: Curve default must carry equipment rates (see excavation-productivity.ts)
+        const rates = variable.default?.equipmentRates;
+        if (!rates || typeof rates !== 'object' || Object.keys(rates).length === 0) {
+          errors.push(`Variable '${varPath}' of type 'curve' missing 'default.equipmentRates'`);
+        }
+      }
+
       // Check adminEditable is boolean if present
       if (variable.adminEditable !== undefined && typeof variable.adminEditable !== 'boolean') {
         errors.push(`Variable '${varPath}' has invalid 'adminEditable' value. Must be boolean.`);